@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "Payment" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "customerId" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'usd',
+    "description" TEXT,
+    "stripeCheckoutSessionId" TEXT,
+    "stripeInvoiceId" TEXT,
+    "stripePaymentIntentId" TEXT,
+    "stripeChargeId" TEXT,
+    "stripeRefundId" TEXT,
+    "paidAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Payment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_stripeCheckoutSessionId_key" ON "Payment"("stripeCheckoutSessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_stripeInvoiceId_key" ON "Payment"("stripeInvoiceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_stripeRefundId_key" ON "Payment"("stripeRefundId");
+
+-- CreateIndex
+CREATE INDEX "Payment_customerId_paidAt_idx" ON "Payment"("customerId", "paidAt");
+
+-- CreateIndex
+CREATE INDEX "Payment_type_paidAt_idx" ON "Payment"("type", "paidAt");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "IntakeSubmission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill existing revenue as manually recorded setup fees
+INSERT INTO "Payment" ("customerId", "type", "amountCents", "currency", "description", "paidAt")
+SELECT "id", 'SETUP_FEE', ROUND("revenue" * 100)::INTEGER, 'usd', 'Recorded manually', COALESCE("paidAt", "updatedAt")
+FROM "IntakeSubmission"
+WHERE "revenue" IS NOT NULL AND "revenue" > 0;
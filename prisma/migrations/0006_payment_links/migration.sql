@@ -0,0 +1,62 @@
+-- CreateTable
+CREATE TABLE "PaymentLink" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "customerId" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "amountCents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'usd',
+    "stripePriceId" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "stripeCheckoutSessionId" TEXT,
+    "createdById" INTEGER,
+    "createdByName" TEXT NOT NULL,
+
+    CONSTRAINT "PaymentLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentLink_token_key" ON "PaymentLink"("token");
+
+-- CreateIndex
+CREATE INDEX "PaymentLink_customerId_createdAt_idx" ON "PaymentLink"("customerId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PaymentLink_status_expiresAt_idx" ON "PaymentLink"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "PaymentLink" ADD CONSTRAINT "PaymentLink_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "IntakeSubmission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentLink" ADD CONSTRAINT "PaymentLink_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "AdminUser"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Carry over outstanding tokens so links already sent to customers keep
+-- working for another 14 days (amounts are the previous fixed prices)
+INSERT INTO "PaymentLink" ("updatedAt", "customerId", "type", "token", "status", "amountCents", "expiresAt", "usedAt", "createdByName")
+SELECT CURRENT_TIMESTAMP, "id", 'SETUP_FEE', "setupFeeToken",
+       CASE WHEN "paidAt" IS NULL THEN 'ACTIVE' ELSE 'USED' END,
+       20000, CURRENT_TIMESTAMP + INTERVAL '14 days', "paidAt", 'System'
+FROM "IntakeSubmission"
+WHERE "setupFeeToken" IS NOT NULL;
+
+INSERT INTO "PaymentLink" ("updatedAt", "customerId", "type", "token", "status", "amountCents", "expiresAt", "createdByName")
+SELECT CURRENT_TIMESTAMP, "id", 'SUBSCRIPTION', "subscriptionToken",
+       CASE WHEN "stripeSubscriptionId" IS NULL THEN 'ACTIVE' ELSE 'USED' END,
+       2900, CURRENT_TIMESTAMP + INTERVAL '14 days', 'System'
+FROM "IntakeSubmission"
+WHERE "subscriptionToken" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "IntakeSubmission_setupFeeToken_key";
+
+-- DropIndex
+DROP INDEX "IntakeSubmission_subscriptionToken_key";
+
+-- AlterTable
+ALTER TABLE "IntakeSubmission" DROP COLUMN "setupFeeToken",
+DROP COLUMN "subscriptionToken";
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "PricingPlan" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "setupFeeCents" INTEGER NOT NULL,
+    "monthlyPriceCents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'usd',
+    "stripeSetupFeePriceId" TEXT NOT NULL,
+    "stripeMonthlyPriceId" TEXT NOT NULL,
+    "features" TEXT NOT NULL DEFAULT '[]',
+    "budgetRanges" TEXT NOT NULL DEFAULT '[]',
+    "industryTypes" TEXT NOT NULL DEFAULT '[]',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "PricingPlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PricingPlan_isActive_sortOrder_idx" ON "PricingPlan"("isActive", "sortOrder");
+
+-- AlterTable
+ALTER TABLE "PaymentLink" ADD COLUMN "planId" INTEGER,
+ADD COLUMN "planName" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "PaymentLink" ADD CONSTRAINT "PaymentLink_planId_fkey" FOREIGN KEY ("planId") REFERENCES "PricingPlan"("id") ON DELETE SET NULL ON UPDATE CASCADE;
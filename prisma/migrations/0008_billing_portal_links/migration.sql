@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "BillingPortalLink" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "customerId" INTEGER NOT NULL,
+    "token" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "lastUsedAt" TIMESTAMP(3),
+    "createdById" INTEGER,
+    "createdByName" TEXT NOT NULL,
+
+    CONSTRAINT "BillingPortalLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BillingPortalLink_token_key" ON "BillingPortalLink"("token");
+
+-- CreateIndex
+CREATE INDEX "BillingPortalLink_customerId_createdAt_idx" ON "BillingPortalLink"("customerId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "BillingPortalLink" ADD CONSTRAINT "BillingPortalLink_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "IntakeSubmission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BillingPortalLink" ADD CONSTRAINT "BillingPortalLink_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "AdminUser"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "IntakeSubmission" ADD COLUMN "paymentFailedAt" TIMESTAMP(3),
+ADD COLUMN "dunningRemindersSent" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "CustomerDeployment" ADD COLUMN "suspendedAt" TIMESTAMP(3),
+ADD COLUMN "suspensionMode" TEXT;
+
+-- Start the dunning clock for customers already past due
+UPDATE "IntakeSubmission"
+SET "paymentFailedAt" = CURRENT_TIMESTAMP
+WHERE "subscriptionStatus" IN ('past_due', 'unpaid');
+
+-- CreateIndex
+CREATE INDEX "IntakeSubmission_paymentFailedAt_idx" ON "IntakeSubmission"("paymentFailedAt");
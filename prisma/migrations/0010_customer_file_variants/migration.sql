@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "CustomerFileVariant" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "fileId" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "fileKey" TEXT NOT NULL,
+    "fileSize" INTEGER NOT NULL,
+    "mimeType" TEXT NOT NULL,
+
+    CONSTRAINT "CustomerFileVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomerFileVariant_fileKey_key" ON "CustomerFileVariant"("fileKey");
+
+-- CreateIndex
+CREATE INDEX "CustomerFileVariant_fileId_idx" ON "CustomerFileVariant"("fileId");
+
+-- AddForeignKey
+ALTER TABLE "CustomerFileVariant" ADD CONSTRAINT "CustomerFileVariant_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "CustomerFile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
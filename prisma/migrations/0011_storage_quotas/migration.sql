@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PricingPlan" ADD COLUMN "storageQuotaMb" INTEGER;
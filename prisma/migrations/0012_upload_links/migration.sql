@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "UploadLink" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "customerId" INTEGER NOT NULL,
+    "token" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "lastUsedAt" TIMESTAMP(3),
+    "createdById" INTEGER,
+    "createdByName" TEXT NOT NULL,
+
+    CONSTRAINT "UploadLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UploadLink_token_key" ON "UploadLink"("token");
+
+-- CreateIndex
+CREATE INDEX "UploadLink_customerId_createdAt_idx" ON "UploadLink"("customerId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "UploadLink" ADD CONSTRAINT "UploadLink_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "IntakeSubmission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UploadLink" ADD CONSTRAINT "UploadLink_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "AdminUser"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "CustomerFile" ADD COLUMN "originalFileId" INTEGER,
+ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "supersededAt" TIMESTAMP(3),
+ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedByName" TEXT;
+
+-- CreateIndex
+CREATE INDEX "CustomerFile_originalFileId_idx" ON "CustomerFile"("originalFileId");
+
+-- CreateIndex
+CREATE INDEX "CustomerFile_customerId_deletedAt_idx" ON "CustomerFile"("customerId", "deletedAt");
+
+-- AddForeignKey
+ALTER TABLE "CustomerFile" ADD CONSTRAINT "CustomerFile_originalFileId_fkey" FOREIGN KEY ("originalFileId") REFERENCES "CustomerFile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- Full-text search indexes for the admin global search.
+-- Prisma can't describe expression indexes, so these only live here; the
+-- expressions must match the ones in src/lib/admin/searchQueries.ts for
+-- Postgres to use them.
+
+-- CreateIndex
+CREATE INDEX "IntakeSubmission_search_idx" ON "IntakeSubmission" USING GIN ((
+    setweight(to_tsvector('simple', coalesce("businessName", '') || ' ' || coalesce("fullName", '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce("email", '') || ' ' || coalesce("phone", '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce("industryType", '') || ' ' || coalesce("additionalInfo", '') || ' ' || coalesce("otherFeatures", '') || ' ' || coalesce("notes", '') || ' ' || coalesce("projectNotes", '')), 'C')
+));
+
+-- CreateIndex
+CREATE INDEX "IntakeSubmission_liveUrl_search_idx" ON "IntakeSubmission" USING GIN ((
+    to_tsvector('simple', coalesce("liveUrl", ''))
+));
+
+-- CreateIndex
+CREATE INDEX "CustomerNote_search_idx" ON "CustomerNote" USING GIN ((
+    to_tsvector('simple', "content")
+));
+
+-- CreateIndex
+CREATE INDEX "CustomerFile_search_idx" ON "CustomerFile" USING GIN ((
+    setweight(to_tsvector('simple', "fileName"), 'A') ||
+    setweight(to_tsvector('simple', coalesce("description", '')), 'B')
+));
+
+-- CreateIndex
+CREATE INDEX "CustomerDeployment_search_idx" ON "CustomerDeployment" USING GIN ((
+    to_tsvector('simple', coalesce("customDomain", '') || ' ' || coalesce("cfProductionUrl", ''))
+));
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "DeploymentRun" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "customerId" INTEGER NOT NULL,
+    "cfDeploymentId" TEXT NOT NULL,
+    "action" TEXT NOT NULL DEFAULT 'DEPLOY',
+    "triggeredByName" TEXT,
+    "trigger" TEXT NOT NULL,
+    "environment" TEXT NOT NULL DEFAULT 'production',
+    "branch" TEXT,
+    "commitHash" TEXT,
+    "commitMessage" TEXT,
+    "url" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'DEPLOYING',
+    "error" TEXT,
+    "stages" TEXT NOT NULL DEFAULT '[]',
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "DeploymentRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeploymentRun_cfDeploymentId_key" ON "DeploymentRun"("cfDeploymentId");
+
+-- CreateIndex
+CREATE INDEX "DeploymentRun_customerId_startedAt_idx" ON "DeploymentRun"("customerId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "DeploymentRun" ADD CONSTRAINT "DeploymentRun_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "IntakeSubmission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "PreviewReviewLink" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "customerId" INTEGER NOT NULL,
+    "token" TEXT NOT NULL,
+    "branch" TEXT NOT NULL,
+    "previewUrl" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "lastFeedbackAt" TIMESTAMP(3),
+    "createdById" INTEGER,
+    "createdByName" TEXT NOT NULL,
+
+    CONSTRAINT "PreviewReviewLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PreviewReviewLink_token_key" ON "PreviewReviewLink"("token");
+
+-- CreateIndex
+CREATE INDEX "PreviewReviewLink_customerId_createdAt_idx" ON "PreviewReviewLink"("customerId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PreviewReviewLink" ADD CONSTRAINT "PreviewReviewLink_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "IntakeSubmission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PreviewReviewLink" ADD CONSTRAINT "PreviewReviewLink_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "AdminUser"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "DeploymentRun" DROP COLUMN "action",
+ADD COLUMN     "rolledBackAt" TIMESTAMP(3),
+ADD COLUMN     "rolledBackByName" TEXT;
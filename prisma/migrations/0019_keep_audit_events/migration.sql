@@ -0,0 +1,5 @@
+-- DropForeignKey
+ALTER TABLE "AuditEvent" DROP CONSTRAINT "AuditEvent_customerId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "AuditEvent" ADD CONSTRAINT "AuditEvent_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "IntakeSubmission"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "IntakeSubmission" ADD COLUMN     "subscriptionEventAt" TIMESTAMP(3);
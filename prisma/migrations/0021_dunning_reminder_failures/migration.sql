@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "IntakeSubmission" ADD COLUMN     "dunningReminderFailed" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,43 @@
+#!/usr/bin/env node
+/**
+ * Run the deployment status poller from the command line or cron
+ *
+ * Calls POST /api/cron/deployment-poll on a running app and prints the
+ * summary. Exits non-zero if the request fails or any deployment could not
+ * be checked.
+ *
+ * Environment variables:
+ * - APP_URL: Base URL of the app (default: NEXT_PUBLIC_APP_URL or http://localhost:3000)
+ * - CRON_SECRET: Must match the app's CRON_SECRET
+ *
+ * Example crontab entry (every 2 minutes):
+ *   0-59/2 * * * * cd /path/to/app && npm run deployment-poll
+ */
+
+const baseUrl = process.env.APP_URL || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+const secret = process.env.CRON_SECRET;
+
+if (!secret) {
+  console.error('CRON_SECRET is not set');
+  process.exit(1);
+}
+
+const response = await fetch(`${baseUrl}/api/cron/deployment-poll`, {
+  method: 'POST',
+  headers: { Authorization: `Bearer ${secret}` },
+});
+const result = await response.json().catch(() => null);
+
+if (!response.ok || !result?.success) {
+  console.error(`Deployment poll failed (${response.status}):`, result?.error ?? 'No response body');
+  process.exit(1);
+}
+
+const { checked, deployed, failed, timedOut, pending, errors } = result.data;
+console.log(
+  `Checked ${checked} deployments: ${deployed} deployed, ${failed} failed, ${timedOut} timed out, ${pending} still building`
+);
+for (const error of errors) {
+  console.error(`  ${error}`);
+}
+process.exit(errors.length > 0 ? 1 : 0);
@@ -0,0 +1,40 @@
+#!/usr/bin/env node
+/**
+ * Run the file trash purge job from the command line or cron
+ *
+ * Calls POST /api/cron/file-purge on a running app and prints the summary.
+ * Exits non-zero if the request fails or any file could not be purged.
+ *
+ * Environment variables:
+ * - APP_URL: Base URL of the app (default: NEXT_PUBLIC_APP_URL or http://localhost:3000)
+ * - CRON_SECRET: Must match the app's CRON_SECRET
+ *
+ * Example crontab entry (daily at 03:00):
+ *   0 3 * * * cd /path/to/app && npm run file-purge
+ */
+
+const baseUrl = process.env.APP_URL || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+const secret = process.env.CRON_SECRET;
+
+if (!secret) {
+  console.error('CRON_SECRET is not set');
+  process.exit(1);
+}
+
+const response = await fetch(`${baseUrl}/api/cron/file-purge`, {
+  method: 'POST',
+  headers: { Authorization: `Bearer ${secret}` },
+});
+const result = await response.json().catch(() => null);
+
+if (!response.ok || !result?.success) {
+  console.error(`File purge failed (${response.status}):`, result?.error ?? 'No response body');
+  process.exit(1);
+}
+
+const { checked, purged, errors } = result.data;
+console.log(`Checked ${checked} trashed files: ${purged} purged`);
+for (const error of errors) {
+  console.error(`  ${error}`);
+}
+process.exit(errors.length > 0 ? 1 : 0);
@@ -0,0 +1,29 @@
+/**
+ * Admin Failed Stripe Events Page
+ *
+ * Lists Stripe webhook events whose handler failed and lets billing admins
+ * replay them from the stored payload once the underlying issue is fixed.
+ */
+
+import Link from 'next/link';
+import { FailedStripeEvents } from '@/components/admin/billing';
+
+export default function FailedStripeEventsPage() {
+  return (
+    <div>
+      {/* Page header */}
+      <div className="mb-8">
+        <Link href="/admin/billing" className="text-sm text-blue-600 hover:text-blue-700">
+          &larr; Back to Billing
+        </Link>
+        <h1 className="mt-2 text-2xl font-bold text-gray-900">Failed Webhook Events</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Stripe events that could not be processed. Replay an event after fixing the cause of the error.
+        </p>
+      </div>
+
+      {/* Failed events list */}
+      <FailedStripeEvents />
+    </div>
+  );
+}
@@ -6,17 +6,34 @@
  * searching by client name or business name, and generating payment links.
  */
 
+import Link from 'next/link';
 import { BillingList } from '@/components/admin/billing';
 
 export default function BillingPage() {
   return (
     <div>
       {/* Page header */}
-      <div className="mb-8">
-        <h1 className="text-2xl font-bold text-gray-900">Billing Status</h1>
-        <p className="mt-1 text-sm text-gray-500">
-          Track billing and subscription status across all clients. Generate payment and subscription links.
-        </p>
+      <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Billing Status</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Track billing and subscription status across all clients. Generate payment and subscription links.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link
+            href="/admin/billing/plans"
+            className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+          >
+            Pricing Plans
+          </Link>
+          <Link
+            href="/admin/billing/events"
+            className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+          >
+            Failed Webhook Events
+          </Link>
+        </div>
       </div>
 
       {/* Billing list */}
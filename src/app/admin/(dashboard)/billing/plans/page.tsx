@@ -0,0 +1,29 @@
+/**
+ * Admin Pricing Plans Page
+ *
+ * Lists the packages we sell with their setup fee, monthly price and Stripe
+ * prices, and lets billing admins add, edit and retire plans.
+ */
+
+import Link from 'next/link';
+import { PricingPlanList } from '@/components/admin/billing';
+
+export default function PricingPlansPage() {
+  return (
+    <div>
+      {/* Page header */}
+      <div className="mb-8">
+        <Link href="/admin/billing" className="text-sm text-blue-600 hover:text-blue-700">
+          &larr; Back to Billing
+        </Link>
+        <h1 className="mt-2 text-2xl font-bold text-gray-900">Pricing Plans</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Packages offered to clients. Payment links charge the plan picked when the link is generated.
+        </p>
+      </div>
+
+      {/* Pricing plan list */}
+      <PricingPlanList />
+    </div>
+  );
+}
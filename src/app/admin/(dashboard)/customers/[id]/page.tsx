@@ -13,10 +13,12 @@ import { CustomerDetailContent } from '@/components/admin/customers';
 
 interface CustomerDetailPageProps {
   params: Promise<{ id: string }>;
+  searchParams: Promise<{ tab?: string }>;
 }
 
-export default async function CustomerDetailPage({ params }: CustomerDetailPageProps) {
+export default async function CustomerDetailPage({ params, searchParams }: CustomerDetailPageProps) {
   const { id } = await params;
+  const { tab } = await searchParams;
   const customerId = parseInt(id, 10);
 
   // Validate ID
@@ -39,7 +41,7 @@ export default async function CustomerDetailPage({ params }: CustomerDetailPageP
 
   return (
     <div>
-      <CustomerDetailContent customerId={customerId} />
+      <CustomerDetailContent customerId={customerId} initialTab={tab} />
     </div>
   );
 }
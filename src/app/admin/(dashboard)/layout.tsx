@@ -1,28 +1,32 @@
 import { AdminSidebar, AdminHeader } from '@/components/admin/layout';
+import { getCurrentSession } from '@/lib/auth/session';
 
 /**
  * Authenticated Admin Layout
  *
  * Provides the shell structure for authenticated admin pages including:
  * - Sidebar navigation
- * - Top header with logout functionality
+ * - Top header with the signed-in user and logout functionality
  * - Main content area
  *
- * Note: Route protection is handled by middleware.ts
+ * Note: Route protection is handled by middleware.ts; the session is read
+ * here only to tailor navigation to the user's role.
  */
 
-export default function AuthenticatedAdminLayout({
+export default async function AuthenticatedAdminLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  const session = await getCurrentSession();
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Sidebar */}
-      <AdminSidebar />
+      <AdminSidebar role={session?.role} />
 
       {/* Header */}
-      <AdminHeader />
+      <AdminHeader userName={session?.name} role={session?.role} />
 
       {/* Main content area */}
       <main className="ml-64 pt-16">
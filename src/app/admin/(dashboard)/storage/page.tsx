@@ -0,0 +1,25 @@
+/**
+ * Admin Storage Page
+ *
+ * Shows the customers using the most file storage against their quotas and
+ * checks storage for orphaned files.
+ */
+
+import { StorageReport } from '@/components/admin/files';
+
+export default function StoragePage() {
+  return (
+    <div>
+      {/* Page header */}
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Storage</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          File storage used by each customer. Quotas come from the customer&apos;s plan, or the default quota.
+        </p>
+      </div>
+
+      {/* Storage report */}
+      <StorageReport />
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * Admin Team Page
+ *
+ * Lists admin user accounts and their roles.
+ * Owners can add teammates, change roles, reset passwords and deactivate accounts.
+ */
+
+import { TeamList } from '@/components/admin/team';
+
+export default function TeamPage() {
+  return (
+    <div>
+      {/* Page header */}
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Team</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Manage who can sign in to the admin panel and what each role is allowed to do.
+        </p>
+      </div>
+
+      {/* Team list */}
+      <TeamList />
+    </div>
+  );
+}
@@ -7,12 +7,13 @@ import Link from 'next/link';
 /**
  * Admin Login Page
  *
- * Simple password-only authentication form.
+ * Email and password authentication form for admin team members.
  * Uses the /api/admin/auth/login endpoint to validate credentials.
  */
 
 export default function LoginPage() {
   const router = useRouter();
+  const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -28,7 +29,7 @@ export default function LoginPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ password }),
+        body: JSON.stringify({ email, password }),
       });
 
       const data = await response.json();
@@ -72,7 +73,7 @@ export default function LoginPage() {
           </Link>
           <h1 className="mt-6 text-2xl font-bold text-gray-900">Admin Login</h1>
           <p className="mt-2 text-sm text-gray-600">
-            Enter your password to access the admin dashboard.
+            Sign in with your team account to access the admin dashboard.
           </p>
         </div>
 
@@ -101,6 +102,27 @@ export default function LoginPage() {
               </div>
             )}
 
+            {/* Email field */}
+            <div>
+              <label
+                htmlFor="email"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Email
+              </label>
+              <input
+                type="email"
+                id="email"
+                name="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                autoComplete="username"
+                className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2.5 text-sm placeholder-gray-400 shadow-sm transition-colors focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                placeholder="you@example.com"
+              />
+            </div>
+
             {/* Password field */}
             <div>
               <label
@@ -118,7 +140,7 @@ export default function LoginPage() {
                 required
                 autoComplete="current-password"
                 className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2.5 text-sm placeholder-gray-400 shadow-sm transition-colors focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                placeholder="Enter admin password"
+                placeholder="Enter your password"
               />
             </div>
 
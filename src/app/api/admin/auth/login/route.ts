@@ -2,23 +2,27 @@
  * Admin Login API Route
  *
  * POST /api/admin/auth/login
- * Validates the admin password and creates a JWT session cookie.
+ * Validates an admin user's email and password and creates a JWT session cookie.
  */
 
 import { NextResponse } from 'next/server';
-import {
-  validatePassword,
-  createSession,
-  setSessionCookie,
-} from '@/lib/auth/session';
+import { createSession, setSessionCookie } from '@/lib/auth/session';
+import { authenticateAdminUser } from '@/lib/admin/userQueries';
 import type { AuthResponse, LoginCredentials } from '@/types/admin';
 
 export async function POST(request: Request): Promise<NextResponse<AuthResponse>> {
   try {
     const body = await request.json() as LoginCredentials;
-    const { password } = body;
+    const { email, password } = body;
 
     // Validate required fields
+    if (!email || typeof email !== 'string') {
+      return NextResponse.json(
+        { success: false, message: 'Email is required' },
+        { status: 400 }
+      );
+    }
+
     if (!password || typeof password !== 'string') {
       return NextResponse.json(
         { success: false, message: 'Password is required' },
@@ -26,16 +30,17 @@ export async function POST(request: Request): Promise<NextResponse<AuthResponse>
       );
     }
 
-    // Validate password against environment variable
-    if (!validatePassword(password)) {
+    // Validate credentials against the admin user accounts
+    const user = await authenticateAdminUser(email, password);
+    if (!user) {
       return NextResponse.json(
-        { success: false, message: 'Invalid password' },
+        { success: false, message: 'Invalid email or password' },
         { status: 401 }
       );
     }
 
     // Create JWT token and set cookie
-    const token = await createSession();
+    const token = await createSession(user);
     await setSessionCookie(token);
 
     return NextResponse.json(
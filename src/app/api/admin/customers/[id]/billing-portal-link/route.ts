@@ -0,0 +1,127 @@
+/**
+ * Admin Billing Portal Link API Route
+ *
+ * POST /api/admin/customers/[id]/billing-portal-link
+ * Issues a new billing portal link for the customer, revoking earlier links,
+ * and optionally emails it to them.
+ *
+ * Authentication: Required (permission: billing:manage)
+ *
+ * Request Body (optional):
+ * - sendEmail: boolean (default: false) - If true, emails the link to the customer
+ *
+ * Response:
+ * - 200: { success: true, url: string, link: BillingPortalLink, emailSent?: boolean }
+ * - 400: Invalid customer ID
+ * - 404: Customer not found
+ * - 409: Customer has no Stripe billing account yet
+ * - 500: Server error
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { prisma } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import {
+  createBillingPortalLink,
+  getBillingPortalUrl,
+} from '@/lib/admin/billingPortalLinkQueries';
+import { sendEmail, getBillingPortalEmailTemplate } from '@/lib/email';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('billing:manage');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse request body for optional sendEmail flag
+    let shouldSendEmail = false;
+    try {
+      const body = await request.json();
+      shouldSendEmail = body.sendEmail === true;
+    } catch {
+      // No body or invalid JSON - use defaults
+    }
+
+    // Parse and validate ID
+    const { id } = await params;
+    const customerId = parseInt(id, 10);
+    if (isNaN(customerId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid customer ID' },
+        { status: 400 }
+      );
+    }
+
+    const submission = await prisma.intakeSubmission.findUnique({
+      where: { id: customerId },
+      select: { id: true, fullName: true, email: true, stripeCustomerId: true },
+    });
+
+    if (!submission) {
+      return NextResponse.json(
+        { success: false, error: 'Customer not found' },
+        { status: 404 }
+      );
+    }
+
+    // The portal needs a Stripe customer, created on the first checkout
+    if (!submission.stripeCustomerId) {
+      return NextResponse.json(
+        { success: false, error: 'Customer has no Stripe billing account yet' },
+        { status: 409 }
+      );
+    }
+
+    const link = await createBillingPortalLink(customerId, auth.session);
+    const portalUrl = getBillingPortalUrl(link.token);
+
+    // Optionally send email to customer
+    let emailSent = false;
+    if (shouldSendEmail && submission.email) {
+      const { subject, html } = getBillingPortalEmailTemplate(
+        submission.fullName,
+        portalUrl,
+        link.expiresAt
+      );
+      emailSent = await sendEmail(submission.email, subject, html);
+    }
+
+    // Record the new link in the audit log (the token itself is not logged)
+    await recordAuditEvent(request, auth.session, {
+      action: 'billing_portal_link.generate',
+      entityType: 'BILLING_PORTAL_LINK',
+      entityId: link.id,
+      customerId,
+      after: {
+        expiresAt: link.expiresAt.toISOString(),
+        emailSent,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      url: portalUrl,
+      link,
+      ...(shouldSendEmail && { emailSent }),
+    });
+  } catch (error) {
+    console.error('Error generating billing portal link:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate billing portal link' },
+      { status: 500 }
+    );
+  }
+}
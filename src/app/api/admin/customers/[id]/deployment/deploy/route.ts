@@ -3,38 +3,55 @@
  *
  * POST /api/admin/customers/[id]/deployment/deploy
  * Triggers a new deployment via Cloudflare Pages API.
- * Updates deployment status in database.
+ * Updates deployment status in database and records the deployment's run history.
+ * Body: { mode?: 'GIT' | 'DIRECT_UPLOAD' | 'GENERATED' }. GIT deploys the
+ * git branch; DIRECT_UPLOAD builds a static bundle from the customer's
+ * CONTENT, PHOTO and LOGO files and uploads it; GENERATED uploads the site
+ * generated from their intake submission and files. Defaults to GIT when a
+ * git repo is set.
  *
- * Authentication: Required (handled by isAuthenticated)
+ * Authentication: Required (permissions: POST deployments:manage, GET deployments:view)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { isAuthenticated } from '@/lib/auth/session';
+import { authorize } from '@/lib/auth/session';
 import {
   getDeploymentByCustomerId,
   updateDeployment,
 } from '@/lib/admin/deploymentQueries';
+import { recordDeploymentRun } from '@/lib/admin/deploymentRunQueries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import { getFilesByCustomerId } from '@/lib/admin/fileQueries';
+import { getSubmissionById } from '@/lib/admin/queries';
 import {
   triggerDeployment,
+  deployStaticBundle,
   getDeploymentStatus,
+  type StaticAsset,
 } from '@/lib/cloudflare';
+import { buildCustomerFileBundle, StaticBundleError } from '@/lib/staticBundle';
+import { generateSite } from '@/lib/siteGenerator';
+import { getDeploymentOutcome, getDeploymentRunData } from '@/lib/deploymentPoller';
+import type { DeployMode, TriggerDeploymentInput } from '@/types/admin';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
+const DEPLOY_MODES: DeployMode[] = ['GIT', 'DIRECT_UPLOAD', 'GENERATED'];
+
 /**
  * POST /api/admin/customers/[id]/deployment/deploy
  * Trigger a new deployment for the customer's site
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
-    // Verify authentication
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('deployments:manage');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
@@ -73,19 +90,74 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Update status to DEPLOYING before triggering
+    // Parse and validate deploy mode
+    const body: TriggerDeploymentInput = await request.json().catch(() => ({}));
+    const mode = body.mode ?? (deployment.gitRepoUrl ? 'GIT' : 'DIRECT_UPLOAD');
+    if (!DEPLOY_MODES.includes(mode)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid deploy mode. Must be one of: ${DEPLOY_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (mode === 'GIT' && !deployment.gitRepoUrl) {
+      return NextResponse.json(
+        { success: false, error: 'No git repository is connected. Deploy from customer files instead.' },
+        { status: 400 }
+      );
+    }
+
+    // Build the bundle first so missing files don't leave a failed deployment
+    let assets: StaticAsset[] = [];
+    if (mode === 'DIRECT_UPLOAD') {
+      try {
+        assets = await buildCustomerFileBundle(await getFilesByCustomerId(customerId));
+      } catch (bundleError) {
+        if (bundleError instanceof StaticBundleError) {
+          return NextResponse.json(
+            { success: false, error: bundleError.message },
+            { status: 400 }
+          );
+        }
+        throw bundleError;
+      }
+    } else if (mode === 'GENERATED') {
+      const submission = await getSubmissionById(customerId);
+      if (!submission) {
+        return NextResponse.json(
+          { success: false, error: 'Customer not found' },
+          { status: 404 }
+        );
+      }
+      try {
+        ({ assets } = await generateSite(submission, await getFilesByCustomerId(customerId)));
+      } catch (bundleError) {
+        if (bundleError instanceof StaticBundleError) {
+          return NextResponse.json(
+            { success: false, error: bundleError.message },
+            { status: 400 }
+          );
+        }
+        throw bundleError;
+      }
+    }
+
+    // Update status to DEPLOYING before triggering. The previous deployment
+    // is cleared so the poller doesn't settle it, or time it out as stale,
+    // while Cloudflare is still starting this one.
     await updateDeployment(customerId, {
       deploymentStatus: 'DEPLOYING',
       lastDeploymentError: null,
+      lastDeploymentId: null,
+      lastDeploymentAt: new Date(),
     });
 
     // Trigger deployment via Cloudflare API
     let cfDeployment;
     try {
-      cfDeployment = await triggerDeployment(
-        deployment.cfProjectName,
-        deployment.gitBranch || 'main'
-      );
+      cfDeployment = mode === 'GIT'
+        ? await triggerDeployment(deployment.cfProjectName, deployment.gitBranch || 'main')
+        : await deployStaticBundle(deployment.cfProjectName, assets, deployment.gitBranch || 'main');
     } catch (cfError) {
       console.error('Cloudflare deployment error:', cfError);
       const errorMessage =
@@ -111,6 +183,21 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       cfProductionUrl: cfDeployment.url || deployment.cfProductionUrl,
     });
 
+    await recordDeploymentRun(customerId, getDeploymentRunData(cfDeployment), {
+      triggeredByName: auth.session.name,
+    });
+
+    // Record the change in the audit log
+    await recordAuditEvent(request, auth.session, {
+      action: 'deployment.trigger',
+      entityType: 'DEPLOYMENT',
+      entityId: deployment.id,
+      customerId,
+      before: { ...deployment },
+      after: { ...updatedDeployment, mode },
+      fields: ['deploymentStatus', 'lastDeploymentId', 'mode'],
+    });
+
     return NextResponse.json({
       success: true,
       data: updatedDeployment,
@@ -119,6 +206,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         url: cfDeployment.url,
         status: cfDeployment.latest_stage.status,
         environment: cfDeployment.environment,
+        mode,
       },
       message: 'Deployment triggered successfully',
     });
@@ -137,12 +225,12 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
-    // Verify authentication
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('deployments:view');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
@@ -195,34 +283,20 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       });
     }
 
+    // Keep the run's stages and result up to date
+    await recordDeploymentRun(customerId, getDeploymentRunData(cfDeploymentStatus));
+
     // Map Cloudflare status to our deployment status
     const stageStatus = cfDeploymentStatus.latest_stage.status;
-    let newDeploymentStatus: 'NOT_DEPLOYED' | 'DEPLOYING' | 'DEPLOYED' | 'FAILED';
-
-    switch (stageStatus) {
-      case 'success':
-        newDeploymentStatus = 'DEPLOYED';
-        break;
-      case 'failure':
-      case 'canceled':
-        newDeploymentStatus = 'FAILED';
-        break;
-      case 'active':
-        newDeploymentStatus = 'DEPLOYING';
-        break;
-      default:
-        newDeploymentStatus = deployment.deploymentStatus;
-    }
+    const outcome = getDeploymentOutcome(cfDeploymentStatus);
+    const newDeploymentStatus = outcome.status ?? (stageStatus === 'active' ? 'DEPLOYING' : deployment.deploymentStatus);
 
     // Update local deployment status if it changed
     if (newDeploymentStatus !== deployment.deploymentStatus) {
       await updateDeployment(customerId, {
         deploymentStatus: newDeploymentStatus,
         cfProductionUrl: cfDeploymentStatus.url || deployment.cfProductionUrl,
-        lastDeploymentError:
-          newDeploymentStatus === 'FAILED'
-            ? `Deployment ${stageStatus}: ${cfDeploymentStatus.latest_stage.name}`
-            : null,
+        lastDeploymentError: outcome.error,
       });
     }
 
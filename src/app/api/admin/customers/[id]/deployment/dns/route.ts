@@ -9,15 +9,16 @@
  * GET /api/admin/customers/[id]/deployment/dns
  * Retrieves current DNS records for the customer's custom domain.
  *
- * Authentication: Required (handled by isAuthenticated)
+ * Authentication: Required (permissions: POST deployments:manage, GET deployments:view)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { isAuthenticated } from '@/lib/auth/session';
+import { authorize } from '@/lib/auth/session';
 import {
   getDeploymentByCustomerId,
   updateDeployment,
 } from '@/lib/admin/deploymentQueries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
 import {
   addCustomDomain,
   getCustomDomains,
@@ -35,12 +36,12 @@ interface RouteParams {
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
-    // Verify authentication
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('deployments:manage');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
@@ -197,6 +198,17 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       domainStatus: 'DNS_CONFIGURED',
     });
 
+    // Record the change in the audit log
+    await recordAuditEvent(request, auth.session, {
+      action: 'deployment.configure_dns',
+      entityType: 'DEPLOYMENT',
+      entityId: deployment.id,
+      customerId,
+      before: { ...deployment },
+      after: { ...updatedDeployment },
+      fields: ['customDomain', 'domainStatus'],
+    });
+
     return NextResponse.json({
       success: true,
       data: {
@@ -222,12 +234,12 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
-    // Verify authentication
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('deployments:view');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
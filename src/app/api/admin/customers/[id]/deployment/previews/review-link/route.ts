@@ -0,0 +1,178 @@
+/**
+ * Admin Preview Review Link API Route
+ *
+ * POST /api/admin/customers/[id]/deployment/previews/review-link
+ * Shares the latest preview of a branch with the customer: issues a review
+ * link, revoking earlier links, and optionally emails it to them. The
+ * customer's feedback from the review page is recorded as notes. Only
+ * allowed while the project is waiting for feedback.
+ *
+ * Authentication: Required (permission: deployments:manage)
+ *
+ * Request Body:
+ * - branch: string - Branch whose latest preview to share
+ * - sendEmail: boolean (default: false) - If true, emails the link to the customer
+ *
+ * Response:
+ * - 200: { success: true, url: string, link: PreviewReviewLink, emailSent?: boolean }
+ * - 400: Invalid customer ID, missing branch, deployment not initialized or preview not ready
+ * - 404: Customer, deployment configuration or preview not found
+ * - 409: Project isn't waiting for feedback
+ * - 502: Cloudflare error
+ * - 500: Server error
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { getSubmissionById } from '@/lib/admin/queries';
+import { getDeploymentByCustomerId } from '@/lib/admin/deploymentQueries';
+import { createPreviewReviewLink, getPreviewReviewUrl } from '@/lib/admin/previewReviewLinkQueries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import { getDeployments } from '@/lib/cloudflare';
+import { getLatestPreviews } from '@/lib/previewDeployments';
+import { sendEmail, getPreviewReviewEmailTemplate } from '@/lib/email';
+import type { PreviewDeployment } from '@/types/admin';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Number of recent preview deployments to look through for the branch
+const PREVIEW_LIMIT = 25;
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('deployments:manage');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate ID
+    const { id } = await params;
+    const customerId = parseInt(id, 10);
+    if (isNaN(customerId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid customer ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const shouldSendEmail = body.sendEmail === true;
+    if (typeof body.branch !== 'string' || !body.branch.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'branch is required' },
+        { status: 400 }
+      );
+    }
+    const branch = body.branch.trim();
+
+    const submission = await getSubmissionById(customerId);
+    if (!submission) {
+      return NextResponse.json(
+        { success: false, error: 'Customer not found' },
+        { status: 404 }
+      );
+    }
+
+    if (submission.projectStatus !== 'WAITING_FOR_FEEDBACK') {
+      return NextResponse.json(
+        { success: false, error: 'Previews can only be sent to the client while the project is waiting for feedback' },
+        { status: 409 }
+      );
+    }
+
+    const deployment = await getDeploymentByCustomerId(customerId);
+    if (!deployment) {
+      return NextResponse.json(
+        { success: false, error: 'No deployment configuration found' },
+        { status: 404 }
+      );
+    }
+
+    if (!deployment.cfProjectName) {
+      return NextResponse.json(
+        { success: false, error: 'Deployment not initialized. Please initialize deployment first.' },
+        { status: 400 }
+      );
+    }
+
+    // Find the branch's latest preview
+    let preview: PreviewDeployment | undefined;
+    try {
+      const cfDeployments = await getDeployments(deployment.cfProjectName, PREVIEW_LIMIT, 'preview');
+      preview = getLatestPreviews(cfDeployments).find((item) => item.branch === branch);
+    } catch (cfError) {
+      console.error('Error fetching Cloudflare preview deployments:', cfError);
+      return NextResponse.json(
+        { success: false, error: 'Could not fetch preview deployments from Cloudflare' },
+        { status: 502 }
+      );
+    }
+
+    if (!preview) {
+      return NextResponse.json(
+        { success: false, error: `No preview deployment found for branch "${branch}"` },
+        { status: 404 }
+      );
+    }
+
+    const previewUrl = preview.branchUrl ?? preview.url;
+    if (preview.status !== 'DEPLOYED' || !previewUrl) {
+      return NextResponse.json(
+        { success: false, error: `The latest preview of "${branch}" hasn't deployed successfully` },
+        { status: 400 }
+      );
+    }
+
+    const link = await createPreviewReviewLink(customerId, { branch, previewUrl }, auth.session);
+    const reviewUrl = getPreviewReviewUrl(link.token);
+
+    // Optionally send email to customer
+    let emailSent = false;
+    if (shouldSendEmail && submission.email) {
+      const { subject, html } = getPreviewReviewEmailTemplate(
+        submission.fullName,
+        submission.businessName,
+        previewUrl,
+        reviewUrl,
+        link.expiresAt
+      );
+      emailSent = await sendEmail(submission.email, subject, html);
+    }
+
+    // Record the new link in the audit log (the token itself is not logged)
+    await recordAuditEvent(request, auth.session, {
+      action: 'preview_review_link.generate',
+      entityType: 'PREVIEW_REVIEW_LINK',
+      entityId: link.id,
+      customerId,
+      after: {
+        branch,
+        previewUrl,
+        expiresAt: link.expiresAt.toISOString(),
+        emailSent,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      url: reviewUrl,
+      link,
+      ...(shouldSendEmail && { emailSent }),
+    });
+  } catch (error) {
+    console.error('Error generating preview review link:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate preview review link' },
+      { status: 500 }
+    );
+  }
+}
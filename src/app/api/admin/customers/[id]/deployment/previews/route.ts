@@ -0,0 +1,205 @@
+/**
+ * Admin Customer Preview Deployments API Route
+ *
+ * GET /api/admin/customers/[id]/deployment/previews
+ * Lists the latest preview deployment of each branch, the project's preview
+ * branch settings (null for projects without a git repo) and the review
+ * link currently shared with the customer. If Cloudflare can't be reached,
+ * an empty list is returned with an error message.
+ *
+ * PATCH /api/admin/customers/[id]/deployment/previews
+ * Changes which branches get preview deployments.
+ * Body: { previewDeploymentSetting: 'all' | 'none' | 'custom',
+ *   previewBranchIncludes?: string[], previewBranchExcludes?: string[] }
+ *
+ * Authentication: Required (permissions: GET deployments:view, PATCH deployments:manage)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { getDeploymentByCustomerId } from '@/lib/admin/deploymentQueries';
+import { getActivePreviewReviewLink } from '@/lib/admin/previewReviewLinkQueries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import {
+  getDeployments,
+  getPagesProject,
+  getPreviewBranchSettings,
+  updatePreviewBranchSettings,
+} from '@/lib/cloudflare';
+import { getLatestPreviews, validatePreviewBranchSettings } from '@/lib/previewDeployments';
+import type { PreviewBranchSettings, PreviewDeployment } from '@/types/admin';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Number of recent preview deployments to look through for branches
+const PREVIEW_LIMIT = 25;
+
+/**
+ * GET /api/admin/customers/[id]/deployment/previews
+ * List the latest preview of each branch
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('deployments:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate ID
+    const { id } = await params;
+    const customerId = parseInt(id, 10);
+    if (isNaN(customerId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid customer ID' },
+        { status: 400 }
+      );
+    }
+
+    const deployment = await getDeploymentByCustomerId(customerId);
+    if (!deployment) {
+      return NextResponse.json(
+        { success: false, error: 'No deployment configuration found' },
+        { status: 404 }
+      );
+    }
+
+    let previews: PreviewDeployment[] = [];
+    let settings: PreviewBranchSettings | null = null;
+    let cfError: string | undefined;
+    if (deployment.cfProjectName) {
+      try {
+        const [project, cfDeployments] = await Promise.all([
+          getPagesProject(deployment.cfProjectName),
+          getDeployments(deployment.cfProjectName, PREVIEW_LIMIT, 'preview'),
+        ]);
+        settings = project ? getPreviewBranchSettings(project) : null;
+        previews = getLatestPreviews(cfDeployments, project?.production_branch ?? deployment.gitBranch);
+      } catch (error) {
+        console.error('Error fetching Cloudflare preview deployments:', error);
+        cfError = 'Could not fetch preview deployments from Cloudflare';
+      }
+    }
+
+    const reviewLink = await getActivePreviewReviewLink(customerId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        previews,
+        settings,
+        reviewLink,
+        ...(cfError && { error: cfError }),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching preview deployments:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch preview deployments' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/customers/[id]/deployment/previews
+ * Change which branches get preview deployments
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('deployments:manage');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate ID
+    const { id } = await params;
+    const customerId = parseInt(id, 10);
+    if (isNaN(customerId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid customer ID' },
+        { status: 400 }
+      );
+    }
+
+    const deployment = await getDeploymentByCustomerId(customerId);
+    if (!deployment) {
+      return NextResponse.json(
+        { success: false, error: 'No deployment configuration found' },
+        { status: 404 }
+      );
+    }
+
+    if (!deployment.cfProjectName) {
+      return NextResponse.json(
+        { success: false, error: 'Deployment not initialized. Please initialize deployment first.' },
+        { status: 400 }
+      );
+    }
+
+    if (!deployment.gitRepoUrl) {
+      return NextResponse.json(
+        { success: false, error: 'Preview branch settings only apply to projects connected to a git repository' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validation = validatePreviewBranchSettings(body);
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    let before: PreviewBranchSettings | null;
+    let settings: PreviewBranchSettings | null;
+    try {
+      const project = await getPagesProject(deployment.cfProjectName);
+      before = project ? getPreviewBranchSettings(project) : null;
+      settings = getPreviewBranchSettings(
+        await updatePreviewBranchSettings(deployment.cfProjectName, validation.data)
+      );
+    } catch (cfError) {
+      console.error('Cloudflare preview settings error:', cfError);
+      const errorMessage =
+        cfError instanceof Error ? cfError.message : 'Failed to update preview branch settings';
+      return NextResponse.json(
+        { success: false, error: errorMessage },
+        { status: 502 }
+      );
+    }
+
+    // Record the change in the audit log
+    await recordAuditEvent(request, auth.session, {
+      action: 'deployment.preview_settings',
+      entityType: 'DEPLOYMENT',
+      entityId: deployment.id,
+      customerId,
+      before: before ? { ...before } : null,
+      after: { ...validation.data },
+      fields: ['previewDeploymentSetting', 'previewBranchIncludes', 'previewBranchExcludes'],
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { settings: settings ?? validation.data },
+    });
+  } catch (error) {
+    console.error('Error updating preview branch settings:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update preview branch settings' },
+      { status: 500 }
+    );
+  }
+}
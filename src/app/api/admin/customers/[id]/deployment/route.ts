@@ -6,25 +6,30 @@
  *
  * POST /api/admin/customers/[id]/deployment
  * Initializes deployment by creating a Cloudflare Pages project and storing config.
- * Body: { cfProjectName?: string, gitRepoUrl?: string, gitBranch?: string, customDomain?: string }
+ * Body: { cfProjectName?: string, gitRepoUrl?: string, gitBranch?: string, customDomain?: string,
+ *   previewDeploymentSetting?: 'all' | 'none' | 'custom', previewBranchIncludes?: string[],
+ *   previewBranchExcludes?: string[] }. Preview settings apply to git-connected
+ *   projects and default to previews for all branches.
  *
- * Authentication: Required (handled by isAuthenticated)
+ * Authentication: Required (permissions: GET deployments:view, POST deployments:manage, DELETE deployments:manage)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { isAuthenticated } from '@/lib/auth/session';
+import { authorize } from '@/lib/auth/session';
 import {
   getDeploymentByCustomerId,
   createDeployment,
   updateDeployment,
   deleteDeployment,
 } from '@/lib/admin/deploymentQueries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
 import {
   createPagesProject,
   deletePagesProject,
   getPagesUrl,
 } from '@/lib/cloudflare';
-import type { InitializeDeploymentInput } from '@/types/admin';
+import { validatePreviewBranchSettings } from '@/lib/previewDeployments';
+import type { InitializeDeploymentInput, PreviewBranchSettings } from '@/types/admin';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -36,12 +41,12 @@ interface RouteParams {
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
-    // Verify authentication
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('deployments:view');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
@@ -77,12 +82,12 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
-    // Verify authentication
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('deployments:manage');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
@@ -135,13 +140,27 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Validate preview branch settings when given
+    let previewSettings: PreviewBranchSettings | undefined;
+    if (body.previewDeploymentSetting !== undefined) {
+      const validation = validatePreviewBranchSettings(body);
+      if (validation.error !== undefined) {
+        return NextResponse.json(
+          { success: false, error: validation.error },
+          { status: 400 }
+        );
+      }
+      previewSettings = validation.data;
+    }
+
     // Create Cloudflare Pages project
     let cfProject;
     try {
       cfProject = await createPagesProject(
         input.cfProjectName,
         input.gitRepoUrl,
-        input.gitBranch
+        input.gitBranch,
+        previewSettings
       );
     } catch (cfError) {
       console.error('Cloudflare API error:', cfError);
@@ -178,6 +197,17 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       });
     }
 
+    // Record the change in the audit log
+    await recordAuditEvent(request, auth.session, {
+      action: 'deployment.initialize',
+      entityType: 'DEPLOYMENT',
+      entityId: deployment.id,
+      customerId,
+      before: existingDeployment ? { ...existingDeployment } : null,
+      after: { ...deployment },
+      fields: ['cfProjectName', 'gitRepoUrl', 'gitBranch', 'customDomain', 'domainStatus', 'deploymentStatus'],
+    });
+
     return NextResponse.json({
       success: true,
       data: deployment,
@@ -198,12 +228,12 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
  */
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
-    // Verify authentication
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('deployments:manage');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
@@ -244,6 +274,16 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     // Delete deployment record from database
     await deleteDeployment(customerId);
 
+    // Record the change in the audit log
+    await recordAuditEvent(request, auth.session, {
+      action: deleteCloudflareProject ? 'deployment.delete_with_project' : 'deployment.delete',
+      entityType: 'DEPLOYMENT',
+      entityId: deployment.id,
+      customerId,
+      before: { ...deployment },
+      fields: ['cfProjectName', 'gitRepoUrl', 'gitBranch', 'customDomain', 'domainStatus', 'deploymentStatus'],
+    });
+
     return NextResponse.json({
       success: true,
       message: deleteCloudflareProject
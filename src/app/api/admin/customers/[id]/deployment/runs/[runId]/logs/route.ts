@@ -0,0 +1,101 @@
+/**
+ * Admin Customer Deployment Logs API Route
+ *
+ * GET /api/admin/customers/[id]/deployment/runs/[runId]/logs
+ * Returns the build log of a deployment run from Cloudflare.
+ *
+ * Authentication: Required (permission: deployments:view)
+ *
+ * Response:
+ * - 200: { success: true, data: { logs: [{ line, ts }] } }
+ * - 400: Invalid ID or deployment not initialized
+ * - 404: Deployment configuration or run not found
+ * - 502: Cloudflare could not return the log
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { getDeploymentByCustomerId } from '@/lib/admin/deploymentQueries';
+import { getDeploymentRunById } from '@/lib/admin/deploymentRunQueries';
+import { getDeploymentLogs } from '@/lib/cloudflare';
+
+interface RouteParams {
+  params: Promise<{ id: string; runId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('deployments:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate IDs
+    const { id, runId } = await params;
+    const customerId = parseInt(id, 10);
+    const runIdNum = parseInt(runId, 10);
+
+    if (isNaN(customerId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid customer ID' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(runIdNum)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid deployment run ID' },
+        { status: 400 }
+      );
+    }
+
+    const deployment = await getDeploymentByCustomerId(customerId);
+    if (!deployment) {
+      return NextResponse.json(
+        { success: false, error: 'No deployment configuration found for this customer' },
+        { status: 404 }
+      );
+    }
+
+    if (!deployment.cfProjectName) {
+      return NextResponse.json(
+        { success: false, error: 'Deployment not initialized. Please initialize deployment first.' },
+        { status: 400 }
+      );
+    }
+
+    const run = await getDeploymentRunById(runIdNum);
+    if (!run || run.customerId !== customerId) {
+      return NextResponse.json(
+        { success: false, error: 'Deployment run not found' },
+        { status: 404 }
+      );
+    }
+
+    let logs;
+    try {
+      logs = await getDeploymentLogs(deployment.cfProjectName, run.cfDeploymentId);
+    } catch (cfError) {
+      console.error('Cloudflare deployment logs error:', cfError);
+      return NextResponse.json(
+        { success: false, error: 'Could not fetch the deployment log from Cloudflare' },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { logs },
+    });
+  } catch (error) {
+    console.error('Error fetching deployment logs:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch deployment logs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Admin Customer Deployment Rollback API Route
+ *
+ * POST /api/admin/customers/[id]/deployment/runs/[runId]/rollback
+ * Makes an earlier deployment serve production again via Cloudflare's
+ * rollback endpoint. Only successful production deployments can be rolled
+ * back to, and not while another deployment is in progress.
+ *
+ * Authentication: Required (permission: deployments:manage)
+ *
+ * Response:
+ * - 200: Rolled back, returns the updated deployment configuration
+ * - 400: Invalid ID, deployment not initialized or run can't be rolled back to
+ * - 404: Deployment configuration or run not found
+ * - 409: A deployment is in progress or the run is already live
+ * - 502: Cloudflare rejected the rollback
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import {
+  getDeploymentByCustomerId,
+  updateDeployment,
+} from '@/lib/admin/deploymentQueries';
+import {
+  getDeploymentRunById,
+  recordDeploymentRollback,
+} from '@/lib/admin/deploymentRunQueries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import { rollbackDeployment } from '@/lib/cloudflare';
+import { getDeploymentOutcome, getDeploymentRunData } from '@/lib/deploymentPoller';
+
+interface RouteParams {
+  params: Promise<{ id: string; runId: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('deployments:manage');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate IDs
+    const { id, runId } = await params;
+    const customerId = parseInt(id, 10);
+    const runIdNum = parseInt(runId, 10);
+
+    if (isNaN(customerId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid customer ID' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(runIdNum)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid deployment run ID' },
+        { status: 400 }
+      );
+    }
+
+    const deployment = await getDeploymentByCustomerId(customerId);
+    if (!deployment) {
+      return NextResponse.json(
+        { success: false, error: 'No deployment configuration found for this customer' },
+        { status: 404 }
+      );
+    }
+
+    if (!deployment.cfProjectName) {
+      return NextResponse.json(
+        { success: false, error: 'Deployment not initialized. Please initialize deployment first.' },
+        { status: 400 }
+      );
+    }
+
+    const run = await getDeploymentRunById(runIdNum);
+    if (!run || run.customerId !== customerId) {
+      return NextResponse.json(
+        { success: false, error: 'Deployment run not found' },
+        { status: 404 }
+      );
+    }
+
+    if (deployment.deploymentStatus === 'DEPLOYING') {
+      return NextResponse.json(
+        { success: false, error: 'A deployment is already in progress' },
+        { status: 409 }
+      );
+    }
+
+    if (run.environment !== 'production' || run.status !== 'DEPLOYED') {
+      return NextResponse.json(
+        { success: false, error: 'Only successful production deployments can be rolled back to' },
+        { status: 400 }
+      );
+    }
+
+    if (run.cfDeploymentId === deployment.lastDeploymentId && deployment.deploymentStatus === 'DEPLOYED') {
+      return NextResponse.json(
+        { success: false, error: 'This deployment is already live' },
+        { status: 409 }
+      );
+    }
+
+    // Roll back via Cloudflare API
+    let cfDeployment;
+    try {
+      cfDeployment = await rollbackDeployment(deployment.cfProjectName, run.cfDeploymentId);
+    } catch (cfError) {
+      console.error('Cloudflare rollback error:', cfError);
+      return NextResponse.json(
+        {
+          success: false,
+          error: cfError instanceof Error ? cfError.message : 'Failed to roll back deployment',
+        },
+        { status: 502 }
+      );
+    }
+
+    await recordDeploymentRollback(customerId, getDeploymentRunData(cfDeployment), auth.session.name);
+
+    // The rolled back deployment is what production serves now
+    const outcome = getDeploymentOutcome(cfDeployment);
+    const updatedDeployment = await updateDeployment(customerId, {
+      lastDeploymentId: cfDeployment.id,
+      lastDeploymentAt: new Date(),
+      deploymentStatus: outcome.status ?? 'DEPLOYING',
+      lastDeploymentError: outcome.error,
+      cfProductionUrl: cfDeployment.url || deployment.cfProductionUrl,
+    });
+
+    // Record the change in the audit log
+    await recordAuditEvent(request, auth.session, {
+      action: 'deployment.rollback',
+      entityType: 'DEPLOYMENT',
+      entityId: deployment.id,
+      customerId,
+      before: { ...deployment },
+      after: { ...updatedDeployment },
+      fields: ['deploymentStatus', 'lastDeploymentId'],
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: updatedDeployment,
+      message: 'Rolled back deployment successfully',
+    });
+  } catch (error) {
+    console.error('Error rolling back deployment:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to roll back deployment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Admin Customer Deployment History API Route
+ *
+ * GET /api/admin/customers/[id]/deployment/runs
+ * Lists the customer's deployment runs, newest first. The project's recent
+ * Cloudflare deployments are synced first, so deployments started outside
+ * the admin panel (e.g. by a git push) show up too. If Cloudflare can't be
+ * reached, the stored runs are returned with an error message.
+ *
+ * Authentication: Required (permission: deployments:view)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { getDeploymentByCustomerId } from '@/lib/admin/deploymentQueries';
+import { getDeploymentRuns, recordDeploymentRun } from '@/lib/admin/deploymentRunQueries';
+import { getDeployments, type PagesDeployment } from '@/lib/cloudflare';
+import { getDeploymentRunData } from '@/lib/deploymentPoller';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Number of recent Cloudflare deployments to sync on each request
+const SYNC_LIMIT = 10;
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('deployments:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate ID
+    const { id } = await params;
+    const customerId = parseInt(id, 10);
+    if (isNaN(customerId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid customer ID' },
+        { status: 400 }
+      );
+    }
+
+    const deployment = await getDeploymentByCustomerId(customerId);
+    if (!deployment) {
+      return NextResponse.json(
+        { success: false, error: 'No deployment configuration found' },
+        { status: 404 }
+      );
+    }
+
+    // Sync recent deployments from Cloudflare
+    let cfDeployments: PagesDeployment[] = [];
+    let syncError: string | undefined;
+    if (deployment.cfProjectName) {
+      try {
+        cfDeployments = await getDeployments(deployment.cfProjectName, SYNC_LIMIT);
+      } catch (cfError) {
+        console.error('Error fetching Cloudflare deployments:', cfError);
+        syncError = 'Could not fetch deployments from Cloudflare';
+      }
+    }
+
+    for (const cfDeployment of cfDeployments) {
+      await recordDeploymentRun(customerId, getDeploymentRunData(cfDeployment));
+    }
+
+    const runs = await getDeploymentRuns(customerId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        runs,
+        ...(syncError && { error: syncError }),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching deployment history:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch deployment history' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,14 +3,22 @@
  *
  * GET /api/admin/customers/[id]/files/[fileId]/download
  * Serves a file for download with proper Content-Disposition header.
+ * When the storage driver supports direct downloads (S3), redirects to a
+ * short-lived presigned URL instead of streaming the file through the app.
+ * Query params: inline (true to display instead of download),
+ * variant (ID of a thumbnail or web-optimized variant to serve instead)
  *
- * Authentication: Required
+ * Authentication: Required (permission: files:view)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { isAuthenticated } from '@/lib/auth/session';
-import { getFileById } from '@/lib/admin/fileQueries';
-import { readFile, StorageError } from '@/lib/storage';
+import { authorize } from '@/lib/auth/session';
+import { getFileById, getFileVariantById } from '@/lib/admin/fileQueries';
+import { readFile, getFileDownloadUrl, StorageError } from '@/lib/storage';
+
+// Types a browser can run script from; sanitized on upload, and sandboxed
+// here as a second line of defence
+const ACTIVE_CONTENT_TYPES = ['image/svg+xml', 'text/html'];
 
 interface RouteParams {
   params: Promise<{ id: string; fileId: string }>;
@@ -21,12 +29,12 @@ export async function GET(
   { params }: RouteParams
 ) {
   try {
-    // Verify authentication
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('files:view');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
@@ -67,10 +75,45 @@ export async function GET(
       );
     }
 
+    // Determine if this should be inline (preview) or attachment (download)
+    const { searchParams } = new URL(request.url);
+    const inline = searchParams.get('inline') === 'true';
+
+    // Serve a variant instead of the original when one is requested
+    let { fileKey, fileName, mimeType } = file;
+    const variantParam = searchParams.get('variant');
+    if (variantParam) {
+      const variant = await getFileVariantById(parseInt(variantParam, 10));
+      if (!variant || variant.fileId !== file.id) {
+        return NextResponse.json(
+          { success: false, error: 'File variant not found' },
+          { status: 404 }
+        );
+      }
+      // e.g. "team.jpg" -> "team-640w.webp"
+      const suffix = variant.kind === 'THUMBNAIL' ? 'thumb' : `${variant.width}w`;
+      fileName = `${file.fileName.replace(/\.[^.]+$/, '')}-${suffix}.${variant.format}`;
+      fileKey = variant.fileKey;
+      mimeType = variant.mimeType;
+    }
+
+    // Sanitize filename for header (remove special chars that might break header)
+    const sanitizedFileName = fileName.replace(/[^\w\s.-]/g, '_');
+
+    // Let the browser fetch the file straight from storage when possible
+    const downloadUrl = await getFileDownloadUrl(fileKey, {
+      fileName: sanitizedFileName,
+      contentType: mimeType,
+      inline,
+    });
+    if (downloadUrl) {
+      return NextResponse.redirect(downloadUrl, 302);
+    }
+
     // Read file from storage
     let fileBuffer: Buffer;
     try {
-      fileBuffer = await readFile(file.fileKey);
+      fileBuffer = await readFile(fileKey);
     } catch (error) {
       if (error instanceof StorageError && error.code === 'NOT_FOUND') {
         return NextResponse.json(
@@ -81,13 +124,7 @@ export async function GET(
       throw error;
     }
 
-    // Determine if this should be inline (preview) or attachment (download)
-    const { searchParams } = new URL(request.url);
-    const inline = searchParams.get('inline') === 'true';
-
     // Build content disposition header
-    // Sanitize filename for header (remove special chars that might break header)
-    const sanitizedFileName = file.fileName.replace(/[^\w\s.-]/g, '_');
     const disposition = inline ? 'inline' : 'attachment';
     const contentDisposition = `${disposition}; filename="${sanitizedFileName}"`;
 
@@ -97,10 +134,14 @@ export async function GET(
     const response = new NextResponse(uint8Array, {
       status: 200,
       headers: {
-        'Content-Type': file.mimeType,
+        'Content-Type': mimeType,
         'Content-Disposition': contentDisposition,
         'Content-Length': String(fileBuffer.length),
         'Cache-Control': 'private, max-age=3600',
+        'X-Content-Type-Options': 'nosniff',
+        ...(ACTIVE_CONTENT_TYPES.includes(mimeType) && {
+          'Content-Security-Policy': "default-src 'none'; img-src data:; style-src 'unsafe-inline'; sandbox",
+        }),
       },
     });
 
@@ -0,0 +1,118 @@
+/**
+ * Restore Customer File API Route
+ *
+ * POST /api/admin/customers/[id]/files/[fileId]/restore
+ * Takes a file and its earlier versions back out of the trash.
+ * Returns 413 if restoring would take the customer over their storage quota,
+ * since files in the trash don't count towards it.
+ *
+ * Authentication: Required (permission: files:delete)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import {
+  getFileById,
+  getFileVersions,
+  restoreFileFromTrash,
+} from '@/lib/admin/fileQueries';
+import { checkStorageQuota } from '@/lib/admin/storageQueries';
+import { StorageError } from '@/lib/storage';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+
+interface RouteParams {
+  params: Promise<{ id: string; fileId: string }>;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('files:delete');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate IDs
+    const { id, fileId } = await params;
+    const customerId = parseInt(id, 10);
+    const fileIdNum = parseInt(fileId, 10);
+
+    if (isNaN(customerId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid customer ID' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(fileIdNum)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid file ID' },
+        { status: 400 }
+      );
+    }
+
+    const file = await getFileById(fileIdNum);
+
+    if (!file || file.customerId !== customerId) {
+      return NextResponse.json(
+        { success: false, error: 'File not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!file.deletedAt) {
+      return NextResponse.json(
+        { success: false, error: 'File is not in the trash' },
+        { status: 409 }
+      );
+    }
+
+    // Restored versions count towards the quota again
+    const versions = await getFileVersions(file);
+    try {
+      await checkStorageQuota(
+        customerId,
+        versions.reduce((total, version) => total + version.fileSize, 0)
+      );
+    } catch (error) {
+      if (error instanceof StorageError && error.code === 'QUOTA_EXCEEDED') {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 413 }
+        );
+      }
+      throw error;
+    }
+
+    await restoreFileFromTrash(file);
+
+    // Record the change in the audit log
+    await recordAuditEvent(request, auth.session, {
+      action: 'file.restore',
+      entityType: 'FILE',
+      entityId: fileIdNum,
+      customerId,
+      after: { fileName: file.fileName, category: file.category, fileSize: file.fileSize },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        restoredFileId: fileIdNum,
+        fileName: file.fileName,
+      },
+    });
+  } catch (error) {
+    console.error('Error restoring file:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to restore file' },
+      { status: 500 }
+    );
+  }
+}
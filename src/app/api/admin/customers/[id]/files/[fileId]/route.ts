@@ -1,32 +1,102 @@
 /**
  * Individual Customer File API Route
  *
+ * GET /api/admin/customers/[id]/files/[fileId]
+ * Returns a file with all of its versions, newest first.
+ *
  * DELETE /api/admin/customers/[id]/files/[fileId]
- * Deletes a file from both storage and database.
+ * Moves a file and its earlier versions to the trash. They can be restored
+ * until the purge job removes them from storage after
+ * FILE_TRASH_RETENTION_DAYS.
  *
- * Authentication: Required
+ * Authentication: Required (permissions: GET files:view, DELETE files:delete)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { isAuthenticated } from '@/lib/auth/session';
-import { getFileById, deleteFileRecord } from '@/lib/admin/fileQueries';
-import { deleteFile, StorageError } from '@/lib/storage';
+import { authorize } from '@/lib/auth/session';
+import {
+  getFileById,
+  getFileVersions,
+  moveFileToTrash,
+  getTrashRetentionDays,
+} from '@/lib/admin/fileQueries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
 
 interface RouteParams {
   params: Promise<{ id: string; fileId: string }>;
 }
 
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('files:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate IDs
+    const { id, fileId } = await params;
+    const customerId = parseInt(id, 10);
+    const fileIdNum = parseInt(fileId, 10);
+
+    if (isNaN(customerId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid customer ID' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(fileIdNum)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid file ID' },
+        { status: 400 }
+      );
+    }
+
+    const file = await getFileById(fileIdNum);
+
+    if (!file || file.customerId !== customerId) {
+      return NextResponse.json(
+        { success: false, error: 'File not found' },
+        { status: 404 }
+      );
+    }
+
+    const versions = await getFileVersions(file);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        file,
+        versions,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching file:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch file' },
+      { status: 500 }
+    );
+  }
+}
+
 export async function DELETE(
   request: NextRequest,
   { params }: RouteParams
 ) {
   try {
-    // Verify authentication
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('files:delete');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
@@ -67,25 +137,39 @@ export async function DELETE(
       );
     }
 
-    // Delete from storage first
-    try {
-      await deleteFile(file.fileKey);
-    } catch (error) {
-      if (error instanceof StorageError && error.code === 'DELETE_ERROR') {
-        console.error('Storage deletion failed:', error);
-        // Continue to delete DB record even if storage fails
-        // The file might already be gone
-      }
+    if (file.deletedAt) {
+      return NextResponse.json(
+        { success: false, error: 'File is already in the trash' },
+        { status: 409 }
+      );
+    }
+
+    // Earlier versions go to the trash with the current one
+    if (file.supersededAt) {
+      return NextResponse.json(
+        { success: false, error: 'Only the current version of a file can be deleted' },
+        { status: 409 }
+      );
     }
 
-    // Delete database record
-    await deleteFileRecord(fileIdNum);
+    // Stored objects stay until the purge job removes them
+    await moveFileToTrash(file, auth.session.name);
+
+    // Record the change in the audit log
+    await recordAuditEvent(request, auth.session, {
+      action: 'file.delete',
+      entityType: 'FILE',
+      entityId: fileIdNum,
+      customerId,
+      before: { fileName: file.fileName, category: file.category, fileSize: file.fileSize },
+    });
 
     return NextResponse.json({
       success: true,
       data: {
         deletedFileId: fileIdNum,
         fileName: file.fileName,
+        retentionDays: getTrashRetentionDays(),
       },
     });
   } catch (error) {
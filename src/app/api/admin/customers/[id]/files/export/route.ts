@@ -0,0 +1,112 @@
+/**
+ * Customer Files Export API Route
+ *
+ * GET /api/admin/customers/[id]/files/export
+ * Streams a ZIP archive of the customer's current files, in the same
+ * category folders as storage, with a manifest.csv of their descriptions.
+ * Query params: category (LOGO|PHOTO|CONTENT|DOCUMENT|GENERAL) to export
+ * one category only
+ *
+ * Authentication: Required (permission: files:view)
+ *
+ * Response:
+ * - 200: application/zip attachment
+ * - 400: Invalid customer ID or category
+ * - 404: Customer not found, or no files to export
+ * - 500: Server error
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { prisma } from '@/lib/db';
+import { getFilesByCustomerId } from '@/lib/admin/fileQueries';
+import { CATEGORY_FOLDERS } from '@/lib/storage';
+import { createFilesExportStream } from '@/lib/fileExport';
+import type { FileCategory } from '@/types/admin';
+
+const VALID_CATEGORIES: FileCategory[] = ['LOGO', 'PHOTO', 'CONTENT', 'DOCUMENT', 'GENERAL'];
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('files:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate customer ID
+    const { id } = await params;
+    const customerId = parseInt(id, 10);
+    if (isNaN(customerId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid customer ID' },
+        { status: 400 }
+      );
+    }
+
+    // Validate optional category filter
+    const categoryParam = request.nextUrl.searchParams.get('category');
+    let category: FileCategory | undefined;
+    if (categoryParam) {
+      if (!VALID_CATEGORIES.includes(categoryParam as FileCategory)) {
+        return NextResponse.json(
+          { success: false, error: `Invalid category. Must be one of: ${VALID_CATEGORIES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      category = categoryParam as FileCategory;
+    }
+
+    const submission = await prisma.intakeSubmission.findUnique({
+      where: { id: customerId },
+      select: { id: true, businessName: true },
+    });
+
+    if (!submission) {
+      return NextResponse.json(
+        { success: false, error: 'Customer not found' },
+        { status: 404 }
+      );
+    }
+
+    const files = await getFilesByCustomerId(customerId, category);
+    if (files.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No files to export' },
+        { status: 404 }
+      );
+    }
+
+    // e.g. "corner-bakery-logos.zip" or "corner-bakery-files.zip"
+    const baseName = submission.businessName
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || `customer-${customerId}`;
+    const fileName = `${baseName}-${category ? CATEGORY_FOLDERS[category] : 'files'}.zip`;
+
+    return new NextResponse(createFilesExportStream(files), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting files:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export files' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,8 @@
  * Customer Files API Route
  *
  * GET /api/admin/customers/[id]/files
- * Lists all files for a customer, optionally filtered by category.
+ * Lists all files for a customer, optionally filtered by category, with the
+ * customer's storage usage and quota.
  * Query params: category (LOGO|PHOTO|CONTENT|DOCUMENT|GENERAL)
  *
  * POST /api/admin/customers/[id]/files
@@ -11,15 +12,31 @@
  * - files: File[] (the files to upload)
  * - category: string (optional, defaults to GENERAL)
  * - description: string (optional)
+ * - replaceFileId: number (optional) - Upload a single file as the new
+ *   version of this file, keeping the old one in its version history. The
+ *   new version takes the replaced file's category.
+ * LOGO and PHOTO images have their EXIF data stripped and get a thumbnail
+ * plus WebP/AVIF variants, returned in each uploaded file's `variants`.
+ * Returns 413 without storing anything if the files would take the customer
+ * over their storage quota.
  *
- * Authentication: Required
+ * Authentication: Required (permissions: GET files:view, POST files:upload)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { isAuthenticated } from '@/lib/auth/session';
-import { getFilesByCustomerId, createFileRecord, getFileCategoryCounts } from '@/lib/admin/fileQueries';
+import { authorize } from '@/lib/auth/session';
+import {
+  getFilesByCustomerId,
+  getFileById,
+  createFileRecord,
+  createFileVariantRecords,
+  getFileCategoryCounts,
+  supersedeFile,
+} from '@/lib/admin/fileQueries';
 import { uploadFile, StorageError, getMaxFileSize } from '@/lib/storage';
-import type { FileCategory } from '@/types/admin';
+import { getCustomerStorageUsage, checkStorageQuota } from '@/lib/admin/storageQueries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import type { CustomerFile, FileCategory } from '@/types/admin';
 
 const VALID_CATEGORIES: FileCategory[] = ['LOGO', 'PHOTO', 'CONTENT', 'DOCUMENT', 'GENERAL'];
 
@@ -32,12 +49,12 @@ export async function GET(
   { params }: RouteParams
 ) {
   try {
-    // Verify authentication
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('files:view');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
@@ -66,10 +83,11 @@ export async function GET(
       category = categoryParam as FileCategory;
     }
 
-    // Fetch files and category counts
-    const [files, categoryCounts] = await Promise.all([
+    // Fetch files, category counts and storage usage
+    const [files, categoryCounts, storage] = await Promise.all([
       getFilesByCustomerId(customerId, category),
       getFileCategoryCounts(customerId),
+      getCustomerStorageUsage(customerId),
     ]);
 
     return NextResponse.json({
@@ -78,6 +96,7 @@ export async function GET(
         files,
         categoryCounts,
         maxFileSize: getMaxFileSize(),
+        storage,
       },
     });
   } catch (error) {
@@ -94,12 +113,12 @@ export async function POST(
   { params }: RouteParams
 ) {
   try {
-    // Verify authentication
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('files:upload');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
@@ -118,6 +137,7 @@ export async function POST(
     const files = formData.getAll('files') as File[];
     const categoryParam = formData.get('category') as string | null;
     const description = formData.get('description') as string | null;
+    const replaceFileIdParam = formData.get('replaceFileId') as string | null;
 
     // Validate we have files
     if (!files || files.length === 0) {
@@ -139,6 +159,45 @@ export async function POST(
       category = categoryParam as FileCategory;
     }
 
+    // Find the file being replaced with a new version
+    let replacedFile: CustomerFile | null = null;
+    if (replaceFileIdParam) {
+      if (files.length !== 1) {
+        return NextResponse.json(
+          { success: false, error: 'Upload exactly one file to replace a file' },
+          { status: 400 }
+        );
+      }
+
+      replacedFile = await getFileById(parseInt(replaceFileIdParam, 10));
+      if (!replacedFile || replacedFile.customerId !== customerId) {
+        return NextResponse.json(
+          { success: false, error: 'File to replace not found' },
+          { status: 404 }
+        );
+      }
+      if (replacedFile.deletedAt || replacedFile.supersededAt) {
+        return NextResponse.json(
+          { success: false, error: 'Only the current version of a file can be replaced' },
+          { status: 409 }
+        );
+      }
+      category = replacedFile.category;
+    }
+
+    // Reject the whole upload if it would exceed the customer's quota
+    try {
+      await checkStorageQuota(customerId, files.reduce((total, file) => total + file.size, 0));
+    } catch (error) {
+      if (error instanceof StorageError && error.code === 'QUOTA_EXCEEDED') {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 413 }
+        );
+      }
+      throw error;
+    }
+
     // Process each file
     const uploadResults = [];
     const errors: { fileName: string; error: string }[] = [];
@@ -155,10 +214,40 @@ export async function POST(
           fileSize: uploadResult.fileSize,
           mimeType: uploadResult.mimeType,
           category: uploadResult.category,
-          description: description || undefined,
+          description: description || replacedFile?.description || undefined,
+          ...(replacedFile && {
+            originalFileId: replacedFile.originalFileId ?? replacedFile.id,
+            version: replacedFile.version + 1,
+          }),
         });
+        const variants = await createFileVariantRecords(fileRecord.id, uploadResult.variants);
+
+        uploadResults.push({ ...fileRecord, variants });
 
-        uploadResults.push(fileRecord);
+        // Record the upload in the audit log
+        if (replacedFile) {
+          await supersedeFile(replacedFile.id);
+          await recordAuditEvent(request, auth.session, {
+            action: 'file.replace',
+            entityType: 'FILE',
+            entityId: fileRecord.id,
+            customerId,
+            before: { fileName: replacedFile.fileName, version: replacedFile.version },
+            after: { fileName: fileRecord.fileName, version: fileRecord.version },
+          });
+        } else {
+          await recordAuditEvent(request, auth.session, {
+            action: 'file.upload',
+            entityType: 'FILE',
+            entityId: fileRecord.id,
+            customerId,
+            after: {
+              fileName: fileRecord.fileName,
+              category: fileRecord.category,
+              fileSize: fileRecord.fileSize,
+            },
+          });
+        }
       } catch (error) {
         if (error instanceof StorageError) {
           errors.push({
@@ -188,8 +277,11 @@ export async function POST(
       );
     }
 
-    // Get updated category counts
-    const categoryCounts = await getFileCategoryCounts(customerId);
+    // Get updated category counts and storage usage
+    const [categoryCounts, storage] = await Promise.all([
+      getFileCategoryCounts(customerId),
+      getCustomerStorageUsage(customerId),
+    ]);
 
     return NextResponse.json({
       success: true,
@@ -197,6 +289,7 @@ export async function POST(
         uploaded: uploadResults,
         errors: errors.length > 0 ? errors : undefined,
         categoryCounts,
+        storage,
       },
     });
   } catch (error) {
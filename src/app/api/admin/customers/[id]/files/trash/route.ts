@@ -0,0 +1,59 @@
+/**
+ * Customer File Trash API Route
+ *
+ * GET /api/admin/customers/[id]/files/trash
+ * Lists the customer's deleted files, most recently deleted first, with the
+ * number of days they are kept before the purge job removes them.
+ *
+ * Authentication: Required (permission: files:view)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { getTrashedFiles, getTrashRetentionDays } from '@/lib/admin/fileQueries';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('files:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate customer ID
+    const { id } = await params;
+    const customerId = parseInt(id, 10);
+    if (isNaN(customerId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid customer ID' },
+        { status: 400 }
+      );
+    }
+
+    const files = await getTrashedFiles(customerId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        files,
+        retentionDays: getTrashRetentionDays(),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching trashed files:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch trashed files' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Admin Customer Generated Site Preview API Route
+ *
+ * GET /api/admin/customers/[id]/generated-site/preview/[...path]
+ * Serves a file of the customer's generated site, so the admin can browse
+ * it before deploying. The site only uses relative links, so it works
+ * under this path. With no path, redirects to index.html; unknown paths get
+ * the site's 404 page. Only the pages are rendered per request; an image
+ * request reads just that image from storage.
+ *
+ * Authentication: Required (permission: deployments:view)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { getSubmissionById } from '@/lib/admin/queries';
+import { getFilesByCustomerId } from '@/lib/admin/fileQueries';
+import type { StaticAsset } from '@/lib/cloudflare';
+import { planSite } from '@/lib/siteGenerator';
+import { readBundleFile, StaticBundleError } from '@/lib/staticBundle';
+
+// The generated site has no scripts; block them anyway in case customer
+// text or an SVG logo slips one through
+const PREVIEW_CSP = "default-src 'none'; img-src 'self'; style-src 'self'; frame-ancestors 'self'";
+
+interface RouteParams {
+  params: Promise<{ id: string; path?: string[] }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('deployments:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate ID
+    const { id, path = [] } = await params;
+    const customerId = parseInt(id, 10);
+    if (isNaN(customerId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid customer ID' },
+        { status: 400 }
+      );
+    }
+
+    // Relative links need the page to be served from a file path
+    if (path.length === 0) {
+      return NextResponse.redirect(
+        new URL(`/api/admin/customers/${customerId}/generated-site/preview/index.html`, request.url),
+        302
+      );
+    }
+
+    const submission = await getSubmissionById(customerId);
+    if (!submission) {
+      return NextResponse.json(
+        { success: false, error: 'Customer not found' },
+        { status: 404 }
+      );
+    }
+
+    const assetPath = `/${path.join('/')}`;
+    let asset: StaticAsset | undefined;
+    let site;
+    try {
+      site = await planSite(submission, await getFilesByCustomerId(customerId));
+
+      const image = site.images.get(assetPath);
+      asset = image
+        ? { path: assetPath, content: await readBundleFile(image), contentType: image.mimeType }
+        : site.pages.find((item) => item.path === assetPath);
+    } catch (generateError) {
+      if (generateError instanceof StaticBundleError) {
+        return NextResponse.json(
+          { success: false, error: generateError.message },
+          { status: 400 }
+        );
+      }
+      throw generateError;
+    }
+
+    const served = asset ?? site.pages.find((item) => item.path === '/404.html');
+    if (!served) {
+      return NextResponse.json(
+        { success: false, error: 'File not found' },
+        { status: 404 }
+      );
+    }
+
+    const contentType = served.contentType.startsWith('text/')
+      ? `${served.contentType}; charset=utf-8`
+      : served.contentType;
+
+    return new NextResponse(new Uint8Array(served.content), {
+      status: asset ? 200 : 404,
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': String(served.content.length),
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': PREVIEW_CSP,
+      },
+    });
+  } catch (error) {
+    console.error('Error previewing generated site:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to preview generated site' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Admin Customer Generated Site API Route
+ *
+ * GET /api/admin/customers/[id]/generated-site
+ * Generates the customer's starter site from their intake submission and
+ * files, and lists what it contains. The site itself is served by the
+ * preview route and published with the GENERATED deploy mode.
+ *
+ * Authentication: Required (permission: deployments:view)
+ *
+ * Response:
+ * - template: Industry template used
+ * - files: Path, content type and size of each file in the site
+ * - notes: Parts of the site that use placeholders or weren't generated
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { getSubmissionById } from '@/lib/admin/queries';
+import { getFilesByCustomerId } from '@/lib/admin/fileQueries';
+import { generateSite } from '@/lib/siteGenerator';
+import { StaticBundleError } from '@/lib/staticBundle';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('deployments:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate ID
+    const { id } = await params;
+    const customerId = parseInt(id, 10);
+    if (isNaN(customerId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid customer ID' },
+        { status: 400 }
+      );
+    }
+
+    const submission = await getSubmissionById(customerId);
+    if (!submission) {
+      return NextResponse.json(
+        { success: false, error: 'Customer not found' },
+        { status: 404 }
+      );
+    }
+
+    let site;
+    try {
+      site = await generateSite(submission, await getFilesByCustomerId(customerId));
+    } catch (generateError) {
+      if (generateError instanceof StaticBundleError) {
+        return NextResponse.json(
+          { success: false, error: generateError.message },
+          { status: 400 }
+        );
+      }
+      throw generateError;
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        template: site.template,
+        files: site.assets.map((asset) => ({
+          path: asset.path,
+          contentType: asset.contentType,
+          size: asset.content.length,
+        })),
+        notes: site.notes,
+      },
+    });
+  } catch (error) {
+    console.error('Error generating site:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate site' },
+      { status: 500 }
+    );
+  }
+}
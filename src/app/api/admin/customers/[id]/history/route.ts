@@ -0,0 +1,73 @@
+/**
+ * Customer History API Route
+ *
+ * GET /api/admin/customers/[id]/history
+ * Lists audit events for a customer, newest first.
+ * Query params:
+ * - page: number (default: 1)
+ * - limit: number (default: 20, max: 100)
+ *
+ * Authentication: Required (permission: submissions:view)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { getAuditEventsByCustomerId } from '@/lib/admin/auditQueries';
+import { customerExists } from '@/lib/admin/noteQueries';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('submissions:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate customer ID
+    const { id } = await params;
+    const customerId = parseInt(id, 10);
+    if (isNaN(customerId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid customer ID' },
+        { status: 400 }
+      );
+    }
+
+    // Verify customer exists
+    const exists = await customerExists(customerId);
+    if (!exists) {
+      return NextResponse.json(
+        { success: false, error: 'Customer not found' },
+        { status: 404 }
+      );
+    }
+
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+    const limit = Math.min(
+      100,
+      Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20)
+    );
+
+    const result = await getAuditEventsByCustomerId(customerId, page, limit);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('Error fetching customer history:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch history' },
+      { status: 500 }
+    );
+  }
+}
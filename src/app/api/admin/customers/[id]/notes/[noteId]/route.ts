@@ -7,17 +7,18 @@
  * DELETE /api/admin/customers/[id]/notes/[noteId]
  * Deletes a note.
  *
- * Authentication: Required (uses isAuthenticated from session)
+ * Authentication: Required (permissions: PATCH notes:edit, DELETE notes:edit)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { isAuthenticated } from '@/lib/auth/session';
+import { authorize } from '@/lib/auth/session';
 import {
   getNoteById,
   updateNote,
   deleteNote,
   isValidNoteType,
 } from '@/lib/admin/noteQueries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
 import type { UpdateNoteInput } from '@/types/admin';
 
 interface RouteParams {
@@ -37,12 +38,12 @@ export async function PATCH(
   { params }: RouteParams
 ) {
   try {
-    // Verify authentication
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('notes:edit');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
@@ -138,6 +139,17 @@ export async function PATCH(
     // Update the note
     const updatedNote = await updateNote(noteIdNum, updateData);
 
+    // Record the change in the audit log
+    await recordAuditEvent(request, auth.session, {
+      action: 'note.update',
+      entityType: 'NOTE',
+      entityId: noteIdNum,
+      customerId,
+      before: { ...existingNote },
+      after: { ...updatedNote },
+      fields: ['content', 'noteType', 'authorName'],
+    });
+
     return NextResponse.json({
       success: true,
       data: updatedNote,
@@ -161,12 +173,12 @@ export async function DELETE(
   { params }: RouteParams
 ) {
   try {
-    // Verify authentication
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('notes:edit');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
@@ -208,6 +220,15 @@ export async function DELETE(
     // Delete the note
     await deleteNote(noteIdNum);
 
+    // Record the change in the audit log
+    await recordAuditEvent(request, auth.session, {
+      action: 'note.delete',
+      entityType: 'NOTE',
+      entityId: noteIdNum,
+      customerId,
+      before: { content: existingNote.content, noteType: existingNote.noteType, authorName: existingNote.authorName },
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Note deleted successfully',
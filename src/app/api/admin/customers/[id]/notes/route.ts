@@ -12,17 +12,18 @@
  * Create a new note for a customer.
  * Body: { content: string, noteType?: NoteType, authorName?: string }
  *
- * Authentication: Required
+ * Authentication: Required (permissions: GET notes:view, POST notes:edit)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { isAuthenticated } from '@/lib/auth/session';
+import { authorize } from '@/lib/auth/session';
 import {
   getNotesByCustomerId,
   createNote,
   customerExists,
   isValidNoteType,
 } from '@/lib/admin/noteQueries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
 import type { NoteType, CreateNoteInput } from '@/types/admin';
 
 interface RouteParams {
@@ -34,12 +35,12 @@ interface RouteParams {
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
-    // Verify authentication
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('notes:view');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
@@ -98,12 +99,12 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
-    // Verify authentication
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('notes:edit');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
@@ -174,6 +175,15 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // Create note
     const note = await createNote(customerId, input);
 
+    // Record the change in the audit log
+    await recordAuditEvent(request, auth.session, {
+      action: 'note.create',
+      entityType: 'NOTE',
+      entityId: note.id,
+      customerId,
+      after: { content: note.content, noteType: note.noteType, authorName: note.authorName },
+    });
+
     return NextResponse.json(
       {
         success: true,
@@ -0,0 +1,82 @@
+/**
+ * Payment Link Revoke API Route
+ *
+ * POST /api/admin/customers/[id]/payment-links/[linkId]/revoke
+ * Revokes an active payment link so the customer can no longer pay with it,
+ * expiring the Checkout session opened from it if there is one.
+ *
+ * Authentication: Required (permission: billing:manage)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { getPaymentLinkById, revokePaymentLink } from '@/lib/admin/paymentLinkQueries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import { expirePaymentLinkCheckout } from '@/lib/paymentLinkCheckout';
+
+interface RouteParams {
+  params: Promise<{ id: string; linkId: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('billing:manage');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate IDs
+    const { id, linkId: linkIdParam } = await params;
+    const customerId = parseInt(id, 10);
+    const linkId = parseInt(linkIdParam, 10);
+    if (isNaN(customerId) || isNaN(linkId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid customer or link ID' },
+        { status: 400 }
+      );
+    }
+
+    // Verify the link belongs to this customer
+    const link = await getPaymentLinkById(linkId);
+    if (!link || link.customerId !== customerId) {
+      return NextResponse.json(
+        { success: false, error: 'Payment link not found' },
+        { status: 404 }
+      );
+    }
+
+    if (link.status !== 'ACTIVE') {
+      return NextResponse.json(
+        { success: false, error: `Payment link is already ${link.status.toLowerCase()}` },
+        { status: 409 }
+      );
+    }
+
+    const revoked = await revokePaymentLink(linkId);
+    await expirePaymentLinkCheckout(revoked);
+
+    await recordAuditEvent(request, auth.session, {
+      action: 'payment_link.revoke',
+      entityType: 'PAYMENT_LINK',
+      entityId: linkId,
+      customerId,
+      before: { status: link.status },
+      after: { status: revoked.status },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: revoked,
+    });
+  } catch (error) {
+    console.error('Error revoking payment link:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke payment link' },
+      { status: 500 }
+    );
+  }
+}
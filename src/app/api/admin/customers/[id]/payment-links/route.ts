@@ -0,0 +1,63 @@
+/**
+ * Customer Payment Links API Route
+ *
+ * GET /api/admin/customers/[id]/payment-links
+ * Lists every setup fee and subscription link issued to the customer,
+ * newest first, with its status, price snapshot, expiry and issuer.
+ *
+ * Authentication: Required (permission: billing:view)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { customerExists } from '@/lib/admin/noteQueries';
+import { getPaymentLinksByCustomerId, getPaymentLinkUrl } from '@/lib/admin/paymentLinkQueries';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('billing:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate customer ID
+    const { id } = await params;
+    const customerId = parseInt(id, 10);
+    if (isNaN(customerId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid customer ID' },
+        { status: 400 }
+      );
+    }
+
+    // Verify customer exists
+    const exists = await customerExists(customerId);
+    if (!exists) {
+      return NextResponse.json(
+        { success: false, error: 'Customer not found' },
+        { status: 404 }
+      );
+    }
+
+    const links = await getPaymentLinksByCustomerId(customerId);
+
+    return NextResponse.json({
+      success: true,
+      data: links.map((link) => ({ ...link, url: getPaymentLinkUrl(link) })),
+    });
+  } catch (error) {
+    console.error('Error fetching payment links:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch payment links' },
+      { status: 500 }
+    );
+  }
+}
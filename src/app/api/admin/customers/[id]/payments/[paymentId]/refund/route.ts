@@ -0,0 +1,170 @@
+/**
+ * Payment Refund API Route
+ *
+ * POST /api/admin/customers/[id]/payments/[paymentId]/refund
+ * Refunds a Stripe setup fee payment in full or in part.
+ * Body:
+ * - amount: number (dollars, optional; defaults to the remaining balance)
+ * - reason: duplicate | fraudulent | requested_by_customer (optional)
+ *
+ * The refund is recorded in the Payment ledger immediately; the
+ * charge.refunded webhook later upserts the same refund by its Stripe ID.
+ *
+ * Authentication: Required (permission: billing:manage)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { createRefund } from '@/lib/stripe';
+import { recordStripeRefund } from '@/lib/stripeWebhooks';
+import {
+  dollarsToCents,
+  getPaymentById,
+  getRefundedCents,
+  syncBillingStatusAfterRefund,
+} from '@/lib/admin/paymentQueries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import type { RefundPaymentInput, RefundReason } from '@/types/admin';
+
+const VALID_REASONS: RefundReason[] = ['duplicate', 'fraudulent', 'requested_by_customer'];
+
+interface RouteParams {
+  params: Promise<{ id: string; paymentId: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('billing:manage');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate IDs
+    const { id, paymentId: paymentIdParam } = await params;
+    const customerId = parseInt(id, 10);
+    const paymentId = parseInt(paymentIdParam, 10);
+    if (isNaN(customerId) || isNaN(paymentId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid customer or payment ID' },
+        { status: 400 }
+      );
+    }
+
+    // Verify the payment belongs to this customer
+    const payment = await getPaymentById(paymentId);
+    if (!payment || payment.customerId !== customerId) {
+      return NextResponse.json(
+        { success: false, error: 'Payment not found' },
+        { status: 404 }
+      );
+    }
+
+    if (payment.type !== 'SETUP_FEE') {
+      return NextResponse.json(
+        { success: false, error: 'Only setup fee payments can be refunded' },
+        { status: 400 }
+      );
+    }
+
+    if (!payment.stripePaymentIntentId) {
+      return NextResponse.json(
+        { success: false, error: 'Payment was not made through Stripe' },
+        { status: 400 }
+      );
+    }
+
+    // Work out how much is left to refund
+    const refundableCents =
+      payment.amountCents - (await getRefundedCents(payment.stripePaymentIntentId));
+    if (refundableCents <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Payment has already been fully refunded' },
+        { status: 409 }
+      );
+    }
+
+    // Parse request body (empty body means a full refund)
+    const body: RefundPaymentInput = await request.json().catch(() => ({}));
+    const { amount, reason } = body;
+
+    if (amount !== undefined && (typeof amount !== 'number' || amount <= 0)) {
+      return NextResponse.json(
+        { success: false, error: 'Amount must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const amountCents = amount !== undefined ? dollarsToCents(amount) : refundableCents;
+    if (amountCents > refundableCents) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Amount exceeds the refundable balance of $${(refundableCents / 100).toFixed(2)}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (reason !== undefined && !VALID_REASONS.includes(reason)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid reason. Must be one of: ${VALID_REASONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Issue the refund through Stripe
+    let refund;
+    try {
+      refund = await createRefund({
+        paymentIntentId: payment.stripePaymentIntentId,
+        amountCents,
+        reason,
+        metadata: {
+          submissionId: customerId.toString(),
+          paymentId: paymentId.toString(),
+        },
+      });
+    } catch (stripeError) {
+      const message = stripeError instanceof Error ? stripeError.message : 'Unknown error';
+      console.error('Stripe refund failed:', stripeError);
+      return NextResponse.json(
+        { success: false, error: `Stripe refund failed: ${message}` },
+        { status: 502 }
+      );
+    }
+
+    // Record the refund and update the billing status
+    const refundPayment = await recordStripeRefund(customerId, refund);
+    await syncBillingStatusAfterRefund(customerId);
+
+    await recordAuditEvent(request, auth.session, {
+      action: 'payment.refund',
+      entityType: 'PAYMENT',
+      entityId: paymentId,
+      customerId,
+      after: {
+        amountCents,
+        reason: reason ?? null,
+        stripeRefundId: refund.id,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: refundPayment,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error refunding payment:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to refund payment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Customer Payments API Route
+ *
+ * GET /api/admin/customers/[id]/payments
+ * Lists the customer's Payment ledger entries, newest first, along with the
+ * net revenue total (refunds subtracted) in dollars.
+ *
+ * Authentication: Required (permission: billing:view)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { customerExists } from '@/lib/admin/noteQueries';
+import { centsToDollars, getPaymentsByCustomerId } from '@/lib/admin/paymentQueries';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('billing:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate customer ID
+    const { id } = await params;
+    const customerId = parseInt(id, 10);
+    if (isNaN(customerId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid customer ID' },
+        { status: 400 }
+      );
+    }
+
+    // Verify customer exists
+    const exists = await customerExists(customerId);
+    if (!exists) {
+      return NextResponse.json(
+        { success: false, error: 'Customer not found' },
+        { status: 404 }
+      );
+    }
+
+    const payments = await getPaymentsByCustomerId(customerId);
+    const netCents = payments.reduce(
+      (total, payment) =>
+        payment.type === 'REFUND' ? total - payment.amountCents : total + payment.amountCents,
+      0
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        payments,
+        totalRevenue: centsToDollars(netCents),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching payments:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch payments' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Admin Upload Link API Route
+ *
+ * POST /api/admin/customers/[id]/upload-link
+ * Issues a new file upload link for the customer, revoking earlier links,
+ * and optionally emails it to them.
+ *
+ * Authentication: Required (permission: files:upload)
+ *
+ * Request Body (optional):
+ * - sendEmail: boolean (default: false) - If true, emails the link to the customer
+ *
+ * Response:
+ * - 200: { success: true, url: string, link: UploadLink, emailSent?: boolean }
+ * - 400: Invalid customer ID
+ * - 404: Customer not found
+ * - 500: Server error
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { prisma } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import { createUploadLink, getUploadPortalUrl } from '@/lib/admin/uploadLinkQueries';
+import { sendEmail, getUploadPortalEmailTemplate } from '@/lib/email';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('files:upload');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse request body for optional sendEmail flag
+    let shouldSendEmail = false;
+    try {
+      const body = await request.json();
+      shouldSendEmail = body.sendEmail === true;
+    } catch {
+      // No body or invalid JSON - use defaults
+    }
+
+    // Parse and validate ID
+    const { id } = await params;
+    const customerId = parseInt(id, 10);
+    if (isNaN(customerId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid customer ID' },
+        { status: 400 }
+      );
+    }
+
+    const submission = await prisma.intakeSubmission.findUnique({
+      where: { id: customerId },
+      select: { id: true, fullName: true, email: true },
+    });
+
+    if (!submission) {
+      return NextResponse.json(
+        { success: false, error: 'Customer not found' },
+        { status: 404 }
+      );
+    }
+
+    const link = await createUploadLink(customerId, auth.session);
+    const uploadUrl = getUploadPortalUrl(link.token);
+
+    // Optionally send email to customer
+    let emailSent = false;
+    if (shouldSendEmail && submission.email) {
+      const { subject, html } = getUploadPortalEmailTemplate(
+        submission.fullName,
+        uploadUrl,
+        link.expiresAt
+      );
+      emailSent = await sendEmail(submission.email, subject, html);
+    }
+
+    // Record the new link in the audit log (the token itself is not logged)
+    await recordAuditEvent(request, auth.session, {
+      action: 'upload_link.generate',
+      entityType: 'UPLOAD_LINK',
+      entityId: link.id,
+      customerId,
+      after: {
+        expiresAt: link.expiresAt.toISOString(),
+        emailSent,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      url: uploadUrl,
+      link,
+      ...(shouldSendEmail && { emailSent }),
+    });
+  } catch (error) {
+    console.error('Error generating upload link:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate upload link' },
+      { status: 500 }
+    );
+  }
+}
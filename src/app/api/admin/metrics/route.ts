@@ -11,21 +11,21 @@
  * - Conversion rate
  * - Recent activity
  *
- * Authentication: Required (handled by middleware)
+ * Authentication: Required (permission: dashboard:view)
  */
 
 import { NextResponse } from 'next/server';
-import { isAuthenticated } from '@/lib/auth/session';
+import { authorize } from '@/lib/auth/session';
 import { getDashboardMetrics, getRecentActivity } from '@/lib/admin/queries';
 
 export async function GET() {
   try {
-    // Verify authentication (belt-and-suspenders with middleware)
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('dashboard:view');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
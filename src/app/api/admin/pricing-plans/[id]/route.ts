@@ -0,0 +1,220 @@
+/**
+ * Admin Pricing Plan Detail API Route
+ *
+ * PATCH /api/admin/pricing-plans/[id]
+ * Updates a pricing plan. Accepts any of the fields taken by
+ * POST /api/admin/pricing-plans. When amounts, currency or Stripe price IDs
+ * change, the Stripe prices are checked against the updated plan.
+ *
+ * DELETE /api/admin/pricing-plans/[id]
+ * Deletes a pricing plan. Links already issued for it keep their plan name;
+ * set isActive to false instead to retire a plan while keeping it on record.
+ *
+ * Authentication: Required (permission: billing:manage)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import {
+  getPricingPlanById,
+  updatePricingPlan,
+  deletePricingPlan,
+  validatePricingPlanInput,
+  checkPricingPlanPrices,
+} from '@/lib/admin/pricingPlanQueries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Fields compared in the audit log
+const AUDITED_FIELDS = [
+  'name',
+  'description',
+  'setupFeeCents',
+  'monthlyPriceCents',
+  'currency',
+  'stripeSetupFeePriceId',
+  'stripeMonthlyPriceId',
+  'features',
+  'budgetRanges',
+  'industryTypes',
+  'isActive',
+  'sortOrder',
+];
+
+// Fields whose change requires re-checking the Stripe prices
+const PRICE_FIELDS = [
+  'setupFee',
+  'monthlyPrice',
+  'currency',
+  'stripeSetupFeePriceId',
+  'stripeMonthlyPriceId',
+] as const;
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('billing:manage');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate ID
+    const { id } = await params;
+    const planId = parseInt(id, 10);
+    if (isNaN(planId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid plan ID' },
+        { status: 400 }
+      );
+    }
+
+    // Check if plan exists
+    const existingPlan = await getPricingPlanById(planId);
+    if (!existingPlan) {
+      return NextResponse.json(
+        { success: false, error: 'Pricing plan not found' },
+        { status: 404 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = validatePricingPlanInput(body, true);
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: validation.error },
+        { status: 400 }
+      );
+    }
+    const updateData = validation.data;
+
+    // Check if there's anything to update
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No valid fields to update' },
+        { status: 400 }
+      );
+    }
+
+    // Re-check the Stripe prices against the plan as it will be saved
+    if (PRICE_FIELDS.some((field) => updateData[field] !== undefined)) {
+      let priceError;
+      try {
+        priceError = await checkPricingPlanPrices({
+          setupFeeCents:
+            updateData.setupFee !== undefined
+              ? Math.round(updateData.setupFee * 100)
+              : existingPlan.setupFeeCents,
+          monthlyPriceCents:
+            updateData.monthlyPrice !== undefined
+              ? Math.round(updateData.monthlyPrice * 100)
+              : existingPlan.monthlyPriceCents,
+          currency: (updateData.currency ?? existingPlan.currency).toLowerCase(),
+          stripeSetupFeePriceId: (updateData.stripeSetupFeePriceId ?? existingPlan.stripeSetupFeePriceId).trim(),
+          stripeMonthlyPriceId: (updateData.stripeMonthlyPriceId ?? existingPlan.stripeMonthlyPriceId).trim(),
+        });
+      } catch (stripeError) {
+        console.error('Failed to load pricing plan prices from Stripe:', stripeError);
+        return NextResponse.json(
+          { success: false, error: 'Failed to load prices from Stripe' },
+          { status: 502 }
+        );
+      }
+      if (priceError) {
+        return NextResponse.json(
+          { success: false, error: priceError },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updatedPlan = await updatePricingPlan(planId, updateData);
+
+    // Record the change in the audit log
+    await recordAuditEvent(request, auth.session, {
+      action: 'pricing_plan.update',
+      entityType: 'PRICING_PLAN',
+      entityId: planId,
+      before: { ...existingPlan },
+      after: { ...updatedPlan },
+      fields: AUDITED_FIELDS,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: updatedPlan,
+    });
+  } catch (error) {
+    console.error('Error updating pricing plan:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update pricing plan' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('billing:manage');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate ID
+    const { id } = await params;
+    const planId = parseInt(id, 10);
+    if (isNaN(planId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid plan ID' },
+        { status: 400 }
+      );
+    }
+
+    // Check if plan exists
+    const existingPlan = await getPricingPlanById(planId);
+    if (!existingPlan) {
+      return NextResponse.json(
+        { success: false, error: 'Pricing plan not found' },
+        { status: 404 }
+      );
+    }
+
+    await deletePricingPlan(planId);
+
+    // Record the change in the audit log
+    await recordAuditEvent(request, auth.session, {
+      action: 'pricing_plan.delete',
+      entityType: 'PRICING_PLAN',
+      entityId: planId,
+      before: { ...existingPlan },
+      fields: ['name', 'setupFeeCents', 'monthlyPriceCents', 'currency', 'isActive'],
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Pricing plan deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting pricing plan:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete pricing plan' },
+      { status: 500 }
+    );
+  }
+}
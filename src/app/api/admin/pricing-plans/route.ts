@@ -0,0 +1,132 @@
+/**
+ * Admin Pricing Plans API Route
+ *
+ * GET /api/admin/pricing-plans
+ * Lists pricing plans in display order.
+ * Query params: includeInactive=true to include retired plans
+ *
+ * Authentication: Required (permission: billing:view)
+ *
+ * POST /api/admin/pricing-plans
+ * Creates a pricing plan after checking its Stripe prices match its amounts.
+ * Body: {
+ *   name: string, description?: string,
+ *   setupFee: number, monthlyPrice: number (dollars), currency?: string,
+ *   stripeSetupFeePriceId: string, stripeMonthlyPriceId: string,
+ *   features?: string[], budgetRanges?: string[], industryTypes?: string[],
+ *   isActive?: boolean, sortOrder?: number
+ * }
+ *
+ * Authentication: Required (permission: billing:manage)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import {
+  getPricingPlans,
+  createPricingPlan,
+  validatePricingPlanInput,
+  checkPricingPlanPrices,
+} from '@/lib/admin/pricingPlanQueries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import type { PricingPlanInput } from '@/types/admin';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('billing:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const includeInactive = request.nextUrl.searchParams.get('includeInactive') === 'true';
+    const plans = await getPricingPlans(includeInactive);
+
+    return NextResponse.json({
+      success: true,
+      data: plans,
+    });
+  } catch (error) {
+    console.error('Error fetching pricing plans:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch pricing plans' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('billing:manage');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = validatePricingPlanInput(body);
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: validation.error },
+        { status: 400 }
+      );
+    }
+    const input = validation.data as PricingPlanInput;
+
+    // Make sure the Stripe prices charge what the plan advertises
+    let priceError;
+    try {
+      priceError = await checkPricingPlanPrices({
+        setupFeeCents: Math.round(input.setupFee * 100),
+        monthlyPriceCents: Math.round(input.monthlyPrice * 100),
+        currency: (input.currency ?? 'usd').toLowerCase(),
+        stripeSetupFeePriceId: input.stripeSetupFeePriceId.trim(),
+        stripeMonthlyPriceId: input.stripeMonthlyPriceId.trim(),
+      });
+    } catch (stripeError) {
+      console.error('Failed to load pricing plan prices from Stripe:', stripeError);
+      return NextResponse.json(
+        { success: false, error: 'Failed to load prices from Stripe' },
+        { status: 502 }
+      );
+    }
+    if (priceError) {
+      return NextResponse.json(
+        { success: false, error: priceError },
+        { status: 400 }
+      );
+    }
+
+    const plan = await createPricingPlan(input);
+
+    // Record the change in the audit log
+    await recordAuditEvent(request, auth.session, {
+      action: 'pricing_plan.create',
+      entityType: 'PRICING_PLAN',
+      entityId: plan.id,
+      after: { ...plan },
+      fields: ['name', 'setupFeeCents', 'monthlyPriceCents', 'currency', 'isActive'],
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: plan,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating pricing plan:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create pricing plan' },
+      { status: 500 }
+    );
+  }
+}
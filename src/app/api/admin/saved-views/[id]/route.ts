@@ -0,0 +1,143 @@
+/**
+ * Admin Saved View Detail API Route
+ *
+ * PATCH /api/admin/saved-views/[id]
+ * Renames a saved view or replaces its filters.
+ *
+ * DELETE /api/admin/saved-views/[id]
+ * Deletes a saved view.
+ *
+ * Authentication: Required (permission: submissions:view). Admins can only
+ * change their own views; anyone else's are reported as not found.
+ *
+ * Request Body (PATCH):
+ * - name: string (optional)
+ * - filters: object of list query parameters (optional)
+ *
+ * Response:
+ * - 200: { success: true, data?: SavedView }
+ * - 400: Invalid ID, name or filters
+ * - 404: View not found
+ * - 409: A view with this name already exists on the list
+ * - 500: Server error
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import {
+  getSavedViewById,
+  updateSavedView,
+  deleteSavedView,
+  savedViewNameExists,
+  validateSavedViewInput,
+} from '@/lib/admin/savedViewQueries';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('submissions:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { id } = await params;
+    const viewId = parseInt(id, 10);
+    if (isNaN(viewId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid view ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateSavedViewInput(body, true);
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getSavedViewById(viewId, auth.session.userId);
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Saved view not found' },
+        { status: 404 }
+      );
+    }
+
+    const { name, filters } = validation.data;
+    if (name !== undefined && await savedViewNameExists(auth.session.userId, existing.list, name, viewId)) {
+      return NextResponse.json(
+        { success: false, error: 'You already have a view with this name' },
+        { status: 409 }
+      );
+    }
+
+    const view = await updateSavedView(viewId, { name, filters });
+
+    return NextResponse.json({
+      success: true,
+      data: view,
+    });
+  } catch (error) {
+    console.error('Error updating saved view:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update saved view' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('submissions:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { id } = await params;
+    const viewId = parseInt(id, 10);
+    if (isNaN(viewId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid view ID' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getSavedViewById(viewId, auth.session.userId);
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Saved view not found' },
+        { status: 404 }
+      );
+    }
+
+    await deleteSavedView(viewId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting saved view:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete saved view' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Admin Saved Views API Route
+ *
+ * GET /api/admin/saved-views?list=LEADS
+ * Lists the signed-in admin's saved views for a list.
+ *
+ * POST /api/admin/saved-views
+ * Saves the current filters of a list as a named view.
+ *
+ * Authentication: Required (permission: submissions:view, which every list
+ * reads from). Views belong to the admin who saved them.
+ *
+ * Request Body (POST):
+ * - list: string (LEADS, CUSTOMERS, PROJECTS or BILLING)
+ * - name: string
+ * - filters: object of list query parameters, e.g. { billingStatus: 'OVERDUE' }
+ *
+ * Response:
+ * - 200: { success: true, data: SavedView[] }
+ * - 201: { success: true, data: SavedView }
+ * - 400: Invalid list, name or filters
+ * - 409: A view with this name already exists on the list
+ * - 500: Server error
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import {
+  SAVED_VIEW_LISTS,
+  isValidSavedViewList,
+  getSavedViews,
+  createSavedView,
+  savedViewNameExists,
+  validateSavedViewInput,
+} from '@/lib/admin/savedViewQueries';
+import type { SavedViewInput } from '@/types/admin';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('submissions:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const list = request.nextUrl.searchParams.get('list') || '';
+    if (!isValidSavedViewList(list)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid list. Must be one of: ${SAVED_VIEW_LISTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const views = await getSavedViews(auth.session.userId, list);
+
+    return NextResponse.json({
+      success: true,
+      data: views,
+    });
+  } catch (error) {
+    console.error('Error fetching saved views:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch saved views' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('submissions:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateSavedViewInput(body);
+    if (validation.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: validation.error },
+        { status: 400 }
+      );
+    }
+    const input = validation.data as SavedViewInput;
+
+    if (await savedViewNameExists(auth.session.userId, input.list, input.name)) {
+      return NextResponse.json(
+        { success: false, error: 'You already have a view with this name' },
+        { status: 409 }
+      );
+    }
+
+    const view = await createSavedView(auth.session.userId, input);
+
+    return NextResponse.json(
+      { success: true, data: view },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error saving view:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save view' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Admin Global Search API Route
+ *
+ * GET /api/admin/search
+ * Full-text search across submissions, customer notes, files and site
+ * addresses, grouped by entity. Used by the command palette in the header.
+ *
+ * Query Parameters:
+ * - q: Search text (at least 2 characters)
+ * - limit: Results per group (default: 5, max: 20)
+ *
+ * Authentication: Required (permission: submissions:view)
+ *
+ * Response:
+ * - 200: { success: true, data: { submissions, notes, files, sites } }
+ * - 400: Search text missing or too short
+ * - 500: Server error
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { globalSearch } from '@/lib/admin/searchQueries';
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_LIMIT = 20;
+const DEFAULT_LIMIT = 5;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('submissions:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const query = (searchParams.get('q') || '').trim();
+    const limitParam = searchParams.get('limit');
+
+    if (query.length < MIN_QUERY_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `Search text must be at least ${MIN_QUERY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(limitParam || String(DEFAULT_LIMIT), 10) || DEFAULT_LIMIT));
+
+    const results = await globalSearch(query, limit);
+
+    return NextResponse.json({
+      success: true,
+      data: results,
+    });
+  } catch (error) {
+    console.error('Error searching:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to search' },
+      { status: 500 }
+    );
+  }
+}
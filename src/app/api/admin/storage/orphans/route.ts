@@ -0,0 +1,40 @@
+/**
+ * Storage Orphans API Route
+ *
+ * GET /api/admin/storage/orphans
+ * Compares the storage backend with the database and lists stored objects
+ * that no file or variant record points to, and records whose object is
+ * missing. Nothing is deleted.
+ *
+ * Authentication: Required (permission: files:view)
+ */
+
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { findStorageOrphans } from '@/lib/admin/storageQueries';
+
+export async function GET() {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('files:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const report = await findStorageOrphans();
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    console.error('Error checking storage for orphans:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to check storage for orphans' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Storage Usage API Route
+ *
+ * GET /api/admin/storage
+ * Lists the customers using the most file storage, with their quotas.
+ * Query params:
+ * - limit: number (default: 20, max: 100)
+ *
+ * Authentication: Required (permission: files:view)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { getLargestStorageConsumers, getDefaultStorageQuota } from '@/lib/admin/storageQueries';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('files:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const limit = Math.min(
+      100,
+      Math.max(1, parseInt(request.nextUrl.searchParams.get('limit') || '20', 10) || 20)
+    );
+
+    const consumers = await getLargestStorageConsumers(limit);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        consumers,
+        defaultQuotaBytes: getDefaultStorageQuota(),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching storage usage:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch storage usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Stripe Event Replay API Route
+ *
+ * POST /api/admin/stripe-events/[id]/replay
+ * Re-runs the webhook handler for a stored event using its saved payload.
+ * Events that were already processed cannot be replayed.
+ *
+ * Authentication: Required (permission: billing:manage)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import Stripe from 'stripe';
+import { authorize } from '@/lib/auth/session';
+import { getStripeEventById } from '@/lib/admin/stripeEventQueries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import { processStripeEvent } from '@/lib/stripeWebhooks';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('billing:manage');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { id } = await params;
+
+    // Load the stored event
+    const storedEvent = await getStripeEventById(id);
+    if (!storedEvent) {
+      return NextResponse.json(
+        { success: false, error: 'Stripe event not found' },
+        { status: 404 }
+      );
+    }
+
+    if (storedEvent.status === 'PROCESSED') {
+      return NextResponse.json(
+        { success: false, error: 'Event has already been processed' },
+        { status: 409 }
+      );
+    }
+
+    // Re-run the handler from the stored payload
+    const event = JSON.parse(storedEvent.payload) as Stripe.Event;
+    let replayError: string | null = null;
+    try {
+      await processStripeEvent(event);
+    } catch (err) {
+      replayError = err instanceof Error ? err.message : 'Unknown error';
+    }
+
+    await recordAuditEvent(request, auth.session, {
+      action: 'stripe_event.replay',
+      entityType: 'STRIPE_EVENT',
+      entityId: id,
+      after: { type: storedEvent.type, succeeded: replayError === null },
+    });
+
+    const updatedEvent = await getStripeEventById(id);
+
+    if (replayError) {
+      return NextResponse.json(
+        { success: false, error: `Replay failed: ${replayError}`, data: updatedEvent },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: updatedEvent,
+    });
+  } catch (error) {
+    console.error('Error replaying Stripe event:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to replay Stripe event' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Stripe Events API Route
+ *
+ * GET /api/admin/stripe-events
+ * Lists entries from the Stripe webhook event ledger, newest first.
+ * Query params:
+ * - status: RECEIVED | PROCESSED | FAILED (optional)
+ * - page: number (default: 1)
+ * - limit: number (default: 20, max: 100)
+ *
+ * Authentication: Required (permission: billing:view)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { getStripeEvents } from '@/lib/admin/stripeEventQueries';
+import type { StripeEventStatus } from '@/types/admin';
+
+const VALID_STATUSES: StripeEventStatus[] = ['RECEIVED', 'PROCESSED', 'FAILED'];
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('billing:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const statusParam = searchParams.get('status');
+    if (statusParam && !VALID_STATUSES.includes(statusParam as StripeEventStatus)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status. Must be one of: ${VALID_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+    const limit = Math.min(
+      100,
+      Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20)
+    );
+
+    const result = await getStripeEvents(
+      (statusParam as StripeEventStatus) || undefined,
+      page,
+      limit
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('Error fetching Stripe events:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch Stripe events' },
+      { status: 500 }
+    );
+  }
+}
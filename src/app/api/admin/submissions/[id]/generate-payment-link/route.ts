@@ -4,26 +4,42 @@
  * POST /api/admin/submissions/[id]/generate-payment-link
  * Generates a secure payment link for the setup fee.
  *
- * Creates a cryptographically random token using crypto.randomUUID(),
- * stores it in the submission's setupFeeToken field, and returns
- * the payment URL.
+ * Creates a single-use PaymentLink with an expiry and a snapshot of the
+ * current setup fee price, revokes any earlier active setup fee link for
+ * the customer, and returns the payment URL.
  *
- * Authentication: Required (admin only)
+ * Authentication: Required (permission: billing:manage)
  *
  * Request Body (optional):
  * - sendEmail: boolean (default: false) - If true, sends payment link email to customer
+ * - expiresInDays: number (default: 14, max: 90) - How long the link stays valid
+ * - planId: number - Pricing plan to charge. Defaults to the active plan that
+ *   best matches the customer's budget range and industry, falling back to
+ *   the setup fee price configured in the environment when no plan exists.
  *
  * Response:
- * - 200: { success: true, url: string, emailSent?: boolean }
+ * - 200: { success: true, url: string, link: PaymentLink, emailSent?: boolean }
+ * - 400: Invalid expiry or plan
  * - 401: Unauthorized
  * - 404: Submission not found
  * - 500: Server error
+ * - 502: Price could not be loaded from Stripe
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { randomUUID } from 'crypto';
-import { isAuthenticated } from '@/lib/auth/session';
+import { authorize } from '@/lib/auth/session';
 import { prisma } from '@/lib/db';
+import { getPrice } from '@/lib/stripe';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import {
+  createPaymentLink,
+  getActivePaymentLinks,
+  getPaymentLinkUrl,
+  DEFAULT_PAYMENT_LINK_TTL_DAYS,
+  MAX_PAYMENT_LINK_TTL_DAYS,
+} from '@/lib/admin/paymentLinkQueries';
+import { expirePaymentLinkCheckout } from '@/lib/paymentLinkCheckout';
+import { getPricingPlanById, getSuggestedPricingPlan } from '@/lib/admin/pricingPlanQueries';
 import { sendEmail, getPaymentLinkEmailTemplate } from '@/lib/email';
 
 interface RouteParams {
@@ -35,22 +51,48 @@ export async function POST(
   { params }: RouteParams
 ) {
   try {
-    // Verify admin authentication
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('billing:manage');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
-    // Parse request body for optional sendEmail flag
+    // Parse request body for optional sendEmail flag, expiry and plan
     let shouldSendEmail = false;
+    let expiresInDays: unknown = DEFAULT_PAYMENT_LINK_TTL_DAYS;
+    let requestedPlanId: unknown = null;
     try {
       const body = await request.json();
       shouldSendEmail = body.sendEmail === true;
+      expiresInDays = body.expiresInDays ?? DEFAULT_PAYMENT_LINK_TTL_DAYS;
+      requestedPlanId = body.planId ?? null;
     } catch {
-      // No body or invalid JSON - default to not sending email
+      // No body or invalid JSON - use defaults
+    }
+
+    if (
+      typeof expiresInDays !== 'number' ||
+      !Number.isInteger(expiresInDays) ||
+      expiresInDays < 1 ||
+      expiresInDays > MAX_PAYMENT_LINK_TTL_DAYS
+    ) {
+      return NextResponse.json(
+        { success: false, error: `expiresInDays must be a whole number from 1 to ${MAX_PAYMENT_LINK_TTL_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      requestedPlanId !== null &&
+      (typeof requestedPlanId !== 'number' || !Number.isInteger(requestedPlanId))
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'planId must be a plan ID' },
+        { status: 400 }
+      );
     }
 
     // Parse and validate ID
@@ -66,7 +108,7 @@ export async function POST(
     // Check if submission exists and get customer details for email
     const submission = await prisma.intakeSubmission.findUnique({
       where: { id: submissionId },
-      select: { id: true, fullName: true, email: true },
+      select: { id: true, fullName: true, email: true, budgetRange: true, industryType: true },
     });
 
     if (!submission) {
@@ -76,32 +118,91 @@ export async function POST(
       );
     }
 
-    // Generate cryptographically secure token
-    const token = randomUUID();
+    // Use the requested plan, or the active plan that best fits the customer
+    const plan = requestedPlanId !== null
+      ? await getPricingPlanById(requestedPlanId as number)
+      : await getSuggestedPricingPlan(submission.budgetRange, submission.industryType);
 
-    // Store token in the submission
-    await prisma.intakeSubmission.update({
-      where: { id: submissionId },
-      data: { setupFeeToken: token },
-    });
+    if (requestedPlanId !== null && (!plan || !plan.isActive)) {
+      return NextResponse.json(
+        { success: false, error: 'Pricing plan not found or inactive' },
+        { status: 400 }
+      );
+    }
+
+    // Charge the plan's setup fee price, or the one configured in the environment
+    const priceId = plan?.stripeSetupFeePriceId ?? process.env.STRIPE_SETUP_FEE_PRICE_ID;
+    if (!priceId) {
+      console.error('STRIPE_SETUP_FEE_PRICE_ID is not configured');
+      return NextResponse.json(
+        { success: false, error: 'Payment configuration error' },
+        { status: 500 }
+      );
+    }
+
+    // Snapshot the current price so later price changes don't affect this link
+    let price;
+    try {
+      price = await getPrice(priceId);
+    } catch (stripeError) {
+      console.error('Failed to load setup fee price from Stripe:', stripeError);
+      return NextResponse.json(
+        { success: false, error: 'Failed to load price from Stripe' },
+        { status: 502 }
+      );
+    }
+
+    // Links this one replaces; their open checkouts are expired below
+    const replacedLinks = await getActivePaymentLinks(submissionId, 'SETUP_FEE');
+
+    const link = await createPaymentLink(
+      {
+        customerId: submissionId,
+        type: 'SETUP_FEE',
+        amountCents: price.unit_amount ?? 0,
+        currency: price.currency,
+        stripePriceId: price.id,
+        planId: plan?.id ?? null,
+        planName: plan?.name ?? null,
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      },
+      auth.session
+    );
+    await Promise.all(replacedLinks.map(expirePaymentLinkCheckout));
 
     // Build the payment URL
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-    const paymentUrl = `${baseUrl}/pay/setup/${token}`;
+    const paymentUrl = getPaymentLinkUrl(link);
 
     // Optionally send email to customer
     let emailSent = false;
     if (shouldSendEmail && submission.email) {
       const { subject, html } = getPaymentLinkEmailTemplate(
         submission.fullName,
-        paymentUrl
+        paymentUrl,
+        link
       );
       emailSent = await sendEmail(submission.email, subject, html);
     }
 
+    // Record the new link in the audit log (the token itself is not logged)
+    await recordAuditEvent(request, auth.session, {
+      action: 'payment_link.generate',
+      entityType: 'PAYMENT_LINK',
+      entityId: link.id,
+      customerId: submissionId,
+      after: {
+        linkType: 'setup_fee',
+        amountCents: link.amountCents,
+        planName: link.planName,
+        expiresAt: link.expiresAt.toISOString(),
+        emailSent,
+      },
+    });
+
     return NextResponse.json({
       success: true,
       url: paymentUrl,
+      link,
       ...(shouldSendEmail && { emailSent }),
     });
   } catch (error) {
@@ -9,12 +9,13 @@
  * - liveUrl: string
  * - goLiveDate: string (ISO date) | null
  *
- * Authentication: Required (handled by middleware)
+ * Authentication: Required (permission: projects:edit)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { isAuthenticated } from '@/lib/auth/session';
+import { authorize } from '@/lib/auth/session';
 import { prisma } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
 import type { ProjectStatus } from '@/types/admin';
 
 const VALID_PROJECT_STATUSES: ProjectStatus[] = [
@@ -36,12 +37,12 @@ export async function POST(
   { params }: RouteParams
 ) {
   try {
-    // Verify authentication
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('projects:edit');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
@@ -156,6 +157,17 @@ export async function POST(
       data: updateData,
     });
 
+    // Record the change in the audit log
+    await recordAuditEvent(request, auth.session, {
+      action: 'project.update',
+      entityType: 'SUBMISSION',
+      entityId: submissionId,
+      customerId: submissionId,
+      before: existingSubmission,
+      after: updatedSubmission,
+      fields: Object.keys(updateData),
+    });
+
     return NextResponse.json({
       success: true,
       data: updatedSubmission,
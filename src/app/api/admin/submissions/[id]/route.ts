@@ -10,12 +10,13 @@
  * - notes: string
  * - revenue: number (required when setting status to PAID)
  *
- * Authentication: Required (handled by middleware)
+ * Authentication: Required (permissions: GET submissions:view, PATCH submissions:edit)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { isAuthenticated } from '@/lib/auth/session';
+import { authorize } from '@/lib/auth/session';
 import { getSubmissionById, updateSubmission } from '@/lib/admin/queries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
 import type { SubmissionStatus } from '@/types/admin';
 
 const VALID_STATUSES: SubmissionStatus[] = ['NEW', 'CONTACTED', 'PAID'];
@@ -29,12 +30,12 @@ export async function GET(
   { params }: RouteParams
 ) {
   try {
-    // Verify authentication
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('submissions:view');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
@@ -76,12 +77,12 @@ export async function PATCH(
   { params }: RouteParams
 ) {
   try {
-    // Verify authentication
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('submissions:edit');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
@@ -170,6 +171,17 @@ export async function PATCH(
     // Update submission
     const updatedSubmission = await updateSubmission(submissionId, updateData);
 
+    // Record the change in the audit log
+    await recordAuditEvent(request, auth.session, {
+      action: 'submission.update',
+      entityType: 'SUBMISSION',
+      entityId: submissionId,
+      customerId: submissionId,
+      before: existingSubmission,
+      after: updatedSubmission,
+      fields: Object.keys(updateData),
+    });
+
     return NextResponse.json({
       success: true,
       data: updatedSubmission,
@@ -0,0 +1,79 @@
+/**
+ * Admin Submissions CSV Export API Route
+ *
+ * GET /api/admin/submissions/export
+ * Downloads every submission matching a list's filters as CSV, in the
+ * list's sort order.
+ *
+ * Query Parameters:
+ * - The filters and sort of GET /api/admin/submissions (page and limit are ignored)
+ * - list: LEADS, CUSTOMERS, PROJECTS or BILLING, used to name the file
+ *
+ * Authentication: Required (permission: submissions:view)
+ *
+ * Response:
+ * - 200: text/csv attachment (at most 10,000 rows)
+ * - 400: Invalid filters or list
+ * - 500: Server error
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { getSubmissionsForExport } from '@/lib/admin/queries';
+import { parseListFilters } from '@/lib/admin/listFilters';
+import { SAVED_VIEW_LISTS, isValidSavedViewList } from '@/lib/admin/savedViewQueries';
+import { submissionsToCsv } from '@/lib/submissionCsv';
+
+const MAX_EXPORT_ROWS = 10000;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('submissions:view');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+
+    // Validate filters and sorting
+    const parsed = parseListFilters(searchParams);
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const list = searchParams.get('list');
+    if (list && !isValidSavedViewList(list)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid list. Must be one of: ${SAVED_VIEW_LISTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const submissions = await getSubmissionsForExport(parsed.filters, parsed.sort, MAX_EXPORT_ROWS);
+
+    // e.g. "leads-2026-03-01.csv"
+    const fileName = `${list ? list.toLowerCase() : 'submissions'}-${new Date().toISOString().slice(0, 10)}.csv`;
+
+    return new NextResponse(submissionsToCsv(submissions), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting submissions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export submissions' },
+      { status: 500 }
+    );
+  }
+}
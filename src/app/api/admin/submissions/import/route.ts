@@ -0,0 +1,146 @@
+/**
+ * Admin Submissions CSV Import API Route
+ *
+ * POST /api/admin/submissions/import
+ * Imports leads from a CSV file. Every row is checked with the intake
+ * form's validation, and rows whose email already exists (in the database
+ * or earlier in the file) are skipped. Send dryRun: true first to preview
+ * what would happen; nothing is saved until dryRun is false.
+ *
+ * Authentication: Required (permission: submissions:edit)
+ *
+ * Request Body:
+ * - csv: string (the file contents, with a header row)
+ * - mapping: object of field -> CSV header (optional, guessed from the headers)
+ * - dryRun: boolean (default: true)
+ *
+ * Response:
+ * - 200: { success: true, data: SubmissionImportResult } (dry run)
+ * - 201: { success: true, data: SubmissionImportResult } (imported)
+ * - 400: Invalid CSV, mapping or too many rows
+ * - 500: Server error
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { getExistingSubmissionEmails, createImportedSubmissions } from '@/lib/admin/queries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import { parseCsv, CsvParseError } from '@/lib/csv';
+import {
+  MAX_IMPORT_ROWS,
+  guessImportMapping,
+  validateImportMapping,
+  planSubmissionImport,
+  getImportEmails,
+} from '@/lib/submissionCsv';
+import type { SubmissionImportResult } from '@/types/admin';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('submissions:edit');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.csv !== 'string' || body.csv.trim() === '') {
+      return NextResponse.json(
+        { success: false, error: 'csv must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    let records: string[][];
+    try {
+      records = parseCsv(body.csv);
+    } catch (error) {
+      if (error instanceof CsvParseError) {
+        return NextResponse.json(
+          { success: false, error: `Invalid CSV: ${error.message}` },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const headers = records[0].map((header) => header.trim());
+    const rows = records.slice(1);
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'The CSV has a header row but no rows to import' },
+        { status: 400 }
+      );
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { success: false, error: `A CSV can have at most ${MAX_IMPORT_ROWS} rows; split the file and import each part` },
+        { status: 400 }
+      );
+    }
+
+    // Use the admin's column mapping, or match columns by header name
+    let mapping = guessImportMapping(headers);
+    if (body.mapping !== undefined) {
+      const validation = validateImportMapping(body.mapping, headers);
+      if (validation.error !== undefined) {
+        return NextResponse.json(
+          { success: false, error: validation.error },
+          { status: 400 }
+        );
+      }
+      mapping = validation.data;
+    }
+
+    const existingEmails = await getExistingSubmissionEmails(getImportEmails(rows, headers, mapping));
+    const plan = planSubmissionImport(rows, headers, mapping, existingEmails);
+    const dryRun = body.dryRun !== false;
+
+    let created = 0;
+    if (!dryRun) {
+      created = await createImportedSubmissions(plan.submissions);
+
+      await recordAuditEvent(request, auth.session, {
+        action: 'submission.import',
+        entityType: 'SUBMISSION',
+        after: {
+          created,
+          duplicates: plan.totals.DUPLICATE,
+          invalid: plan.totals.INVALID,
+        },
+      });
+    }
+
+    const result: SubmissionImportResult = {
+      dryRun,
+      headers,
+      mapping,
+      rows: plan.rows,
+      totals: plan.totals,
+      created,
+    };
+
+    return NextResponse.json(
+      { success: true, data: result },
+      { status: dryRun ? 200 : 201 }
+    );
+  } catch (error) {
+    console.error('Error importing submissions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to import submissions' },
+      { status: 500 }
+    );
+  }
+}
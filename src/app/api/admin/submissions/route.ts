@@ -2,81 +2,56 @@
  * Admin Submissions API Route
  *
  * GET /api/admin/submissions
- * Lists submissions with optional filters, search, and pagination.
+ * Lists submissions with optional filters, search, sorting and pagination.
  *
  * Query Parameters:
  * - status: Filter by submission status (NEW, CONTACTED, PAID)
+ * - excludeStatus: Leave out a submission status (e.g. PAID for leads)
  * - projectStatus: Filter by project status (NOT_STARTED, JUST_STARTED, IN_PROGRESS, etc.)
+ * - billingStatus: Filter by billing status (PENDING, PAID, OVERDUE, CANCELLED, REFUNDED)
+ * - deploymentStatus: Filter by deployment status (NOT_DEPLOYED, DEPLOYING, DEPLOYED, FAILED)
+ * - industryType, budgetRange, timeline: Filter by intake answer
+ * - createdFrom, createdTo, paidFrom, paidTo: Inclusive date ranges (YYYY-MM-DD)
  * - search: Search in fullName, email, businessName
+ * - sortBy: Column to sort by (default: createdAt)
+ * - sortOrder: asc or desc (default: desc)
  * - page: Page number (default: 1)
  * - limit: Items per page (default: 10, max: 100)
  *
- * Authentication: Required (handled by middleware)
+ * Authentication: Required (permission: submissions:view)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { isAuthenticated } from '@/lib/auth/session';
+import { authorize } from '@/lib/auth/session';
 import { getSubmissions } from '@/lib/admin/queries';
-import type { SubmissionStatus, ProjectStatus, SubmissionFilters, ProjectFilters } from '@/types/admin';
+import { parseListFilters } from '@/lib/admin/listFilters';
 
-const VALID_STATUSES: SubmissionStatus[] = ['NEW', 'CONTACTED', 'PAID'];
-const VALID_PROJECT_STATUSES: ProjectStatus[] = [
-  'NOT_STARTED',
-  'JUST_STARTED',
-  'IN_PROGRESS',
-  'WAITING_FOR_FEEDBACK',
-  'FINISHED_AND_LIVE',
-  'ON_HOLD',
-  'CANCELLED',
-];
 const MAX_LIMIT = 100;
 const DEFAULT_LIMIT = 10;
 
 export async function GET(request: NextRequest) {
   try {
-    // Verify authentication (belt-and-suspenders with middleware)
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    // Verify authentication and role permission
+    const auth = await authorize('submissions:view');
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
     // Parse query parameters
     const searchParams = request.nextUrl.searchParams;
-    const statusParam = searchParams.get('status');
-    const projectStatusParam = searchParams.get('projectStatus');
-    const search = searchParams.get('search') || undefined;
     const pageParam = searchParams.get('page');
     const limitParam = searchParams.get('limit');
 
-    // Validate status parameter
-    const filters: SubmissionFilters & ProjectFilters = {};
-    if (statusParam) {
-      if (!VALID_STATUSES.includes(statusParam as SubmissionStatus)) {
-        return NextResponse.json(
-          { success: false, error: `Invalid status. Must be one of: ${VALID_STATUSES.join(', ')}` },
-          { status: 400 }
-        );
-      }
-      filters.status = statusParam as SubmissionStatus;
-    }
-
-    // Validate projectStatus parameter
-    if (projectStatusParam) {
-      if (!VALID_PROJECT_STATUSES.includes(projectStatusParam as ProjectStatus)) {
-        return NextResponse.json(
-          { success: false, error: `Invalid project status. Must be one of: ${VALID_PROJECT_STATUSES.join(', ')}` },
-          { status: 400 }
-        );
-      }
-      filters.projectStatus = projectStatusParam as ProjectStatus;
-    }
-
-    // Add search filter
-    if (search) {
-      filters.search = search;
+    // Validate filters and sorting
+    const parsed = parseListFilters(searchParams);
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
     }
 
     // Parse and validate pagination
@@ -84,7 +59,7 @@ export async function GET(request: NextRequest) {
     const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(limitParam || String(DEFAULT_LIMIT), 10) || DEFAULT_LIMIT));
 
     // Fetch submissions
-    const result = await getSubmissions(filters, page, limit);
+    const result = await getSubmissions(parsed.filters, page, limit, parsed.sort);
 
     return NextResponse.json({
       success: true,
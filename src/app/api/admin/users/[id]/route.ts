@@ -0,0 +1,153 @@
+/**
+ * Admin User Detail API Route
+ *
+ * PATCH /api/admin/users/[id]
+ * Updates an admin user. Allowed fields:
+ * - name: string
+ * - role: OWNER | SALES | DESIGNER | BILLING
+ * - isActive: boolean (deactivated users can no longer sign in)
+ * - password: string (resets the user's password)
+ *
+ * The last active OWNER cannot be demoted or deactivated.
+ *
+ * Authentication: Required (permission: users:manage)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { ADMIN_ROLES, isValidAdminRole } from '@/lib/auth/permissions';
+import { MIN_PASSWORD_LENGTH } from '@/lib/auth/password';
+import { getAdminUserById, updateAdminUser, countActiveOwners } from '@/lib/admin/userQueries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import type { UpdateAdminUserInput } from '@/types/admin';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('users:manage');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse and validate ID
+    const { id } = await params;
+    const userId = parseInt(id, 10);
+    if (isNaN(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid user ID' },
+        { status: 400 }
+      );
+    }
+
+    // Check if user exists
+    const existingUser = await getAdminUserById(userId);
+    if (!existingUser) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const { name, role, isActive, password } = body;
+
+    // Build update data
+    const updateData: UpdateAdminUserInput = {};
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || name.trim().length === 0) {
+        return NextResponse.json(
+          { success: false, error: 'Name must be a non-empty string' },
+          { status: 400 }
+        );
+      }
+      updateData.name = name;
+    }
+
+    if (role !== undefined) {
+      if (typeof role !== 'string' || !isValidAdminRole(role)) {
+        return NextResponse.json(
+          { success: false, error: `Invalid role. Must be one of: ${ADMIN_ROLES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      updateData.role = role;
+    }
+
+    if (isActive !== undefined) {
+      if (typeof isActive !== 'boolean') {
+        return NextResponse.json(
+          { success: false, error: 'isActive must be a boolean' },
+          { status: 400 }
+        );
+      }
+      updateData.isActive = isActive;
+    }
+
+    if (password !== undefined) {
+      if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return NextResponse.json(
+          { success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      updateData.password = password;
+    }
+
+    // Check if there's anything to update
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No valid fields to update' },
+        { status: 400 }
+      );
+    }
+
+    // Prevent removing the last active owner
+    const losesOwnerAccess =
+      existingUser.role === 'OWNER' &&
+      existingUser.isActive &&
+      ((updateData.role !== undefined && updateData.role !== 'OWNER') ||
+        updateData.isActive === false);
+
+    if (losesOwnerAccess && (await countActiveOwners()) <= 1) {
+      return NextResponse.json(
+        { success: false, error: 'At least one active owner is required' },
+        { status: 409 }
+      );
+    }
+
+    const updatedUser = await updateAdminUser(userId, updateData);
+
+    // Record the change in the audit log (password resets are noted, never stored)
+    await recordAuditEvent(request, auth.session, {
+      action: updateData.password ? 'admin_user.reset_password' : 'admin_user.update',
+      entityType: 'ADMIN_USER',
+      entityId: userId,
+      before: { ...existingUser, password: null },
+      after: { ...updatedUser, password: updateData.password ? '(changed)' : null },
+      fields: ['name', 'role', 'isActive', 'password'],
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: updatedUser,
+    });
+  } catch (error) {
+    console.error('Error updating admin user:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Admin Users API Route
+ *
+ * GET /api/admin/users
+ * Lists all admin user accounts.
+ *
+ * POST /api/admin/users
+ * Creates a new admin user.
+ * Body: { email: string, name: string, password: string, role: OWNER | SALES | DESIGNER | BILLING }
+ *
+ * Authentication: Required (permission: users:manage)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/session';
+import { ADMIN_ROLES, isValidAdminRole } from '@/lib/auth/permissions';
+import { MIN_PASSWORD_LENGTH } from '@/lib/auth/password';
+import { getAdminUsers, createAdminUser, adminEmailExists } from '@/lib/admin/userQueries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export async function GET() {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('users:manage');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const users = await getAdminUsers();
+
+    return NextResponse.json({
+      success: true,
+      data: users,
+    });
+  } catch (error) {
+    console.error('Error fetching admin users:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch users' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication and role permission
+    const auth = await authorize('users:manage');
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const { email, name, password, role } = body;
+
+    // Validate email
+    if (!email || typeof email !== 'string' || !EMAIL_REGEX.test(email.trim())) {
+      return NextResponse.json(
+        { success: false, error: 'A valid email is required' },
+        { status: 400 }
+      );
+    }
+
+    // Validate name
+    if (!name || typeof name !== 'string' || name.trim().length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Name is required' },
+        { status: 400 }
+      );
+    }
+
+    // Validate password
+    if (!password || typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    // Validate role
+    if (!role || typeof role !== 'string' || !isValidAdminRole(role)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid role. Must be one of: ${ADMIN_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Check for duplicate email
+    if (await adminEmailExists(email)) {
+      return NextResponse.json(
+        { success: false, error: 'A user with this email already exists' },
+        { status: 409 }
+      );
+    }
+
+    const user = await createAdminUser({ email, name, password, role });
+
+    // Record the change in the audit log
+    await recordAuditEvent(request, auth.session, {
+      action: 'admin_user.create',
+      entityType: 'ADMIN_USER',
+      entityId: user.id,
+      after: { email: user.email, name: user.name, role: user.role },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: user,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating admin user:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Billing Portal Session API Route
+ *
+ * POST /api/billing/[token]
+ * Opens a Stripe billing portal session for the customer the link was issued to.
+ *
+ * This endpoint:
+ * 1. Validates the token against an unexpired, unrevoked BillingPortalLink
+ * 2. Creates a Stripe billing portal session for the customer's Stripe account
+ * 3. Returns the portal URL for client-side redirect
+ *
+ * Authentication: None (token-based access)
+ *
+ * Response:
+ * - 200: { success: true, url: string }
+ * - 404: Invalid token
+ * - 409: Customer has no Stripe billing account yet
+ * - 410: Link has expired or was replaced by a newer link
+ * - 500: Server error (Stripe or database failure)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import {
+  getBillingPortalLinkByToken,
+  getBillingPortalUrl,
+  isBillingPortalLinkUsable,
+  markBillingPortalLinkUsed,
+} from '@/lib/admin/billingPortalLinkQueries';
+import { createBillingPortalSession } from '@/lib/stripe';
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { token } = await params;
+
+    // Validate the token by finding the billing portal link
+    const link = await getBillingPortalLinkByToken(token);
+    if (!link) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid billing link' },
+        { status: 404 }
+      );
+    }
+
+    if (!isBillingPortalLinkUsable(link)) {
+      return NextResponse.json(
+        { success: false, error: 'This billing link has expired' },
+        { status: 410 }
+      );
+    }
+
+    const submission = await prisma.intakeSubmission.findUnique({
+      where: { id: link.customerId },
+      select: { id: true, stripeCustomerId: true },
+    });
+
+    if (!submission) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid billing link' },
+        { status: 404 }
+      );
+    }
+
+    if (!submission.stripeCustomerId) {
+      return NextResponse.json(
+        { success: false, error: 'No billing account has been set up yet' },
+        { status: 409 }
+      );
+    }
+
+    // Return the customer to this page when they leave the portal
+    const session = await createBillingPortalSession(
+      submission.stripeCustomerId,
+      getBillingPortalUrl(token)
+    );
+
+    await markBillingPortalLinkUsed(link.id);
+
+    return NextResponse.json({
+      success: true,
+      url: session.url,
+    });
+  } catch (error) {
+    console.error('Error creating billing portal session:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to open billing portal' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeCron } from '@/lib/auth/cron';
+import { runDeploymentPoller } from '@/lib/deploymentPoller';
+
+// ============================================================================
+// Deployment Poll Cron Endpoint
+// ============================================================================
+//
+// Moves DEPLOYING customer deployments to DEPLOYED or FAILED once Cloudflare
+// finishes them, and times out deployments that are stuck (see
+// lib/deploymentPoller.ts). Meant to be called every few minutes, e.g. from
+// cron or `npm run deployment-poll`. Records still building are left alone,
+// so running it more often is harmless.
+//
+// Authentication: Authorization: Bearer <CRON_SECRET>
+// ============================================================================
+
+/**
+ * POST /api/cron/deployment-poll
+ *
+ * Response:
+ * - 200: { success: true, data: DeploymentPollSummary }
+ * - 401: Missing or wrong cron secret
+ * - 500: Server error
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!authorizeCron(request)) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const summary = await runDeploymentPoller();
+
+    console.log(
+      `Deployment poll: checked ${summary.checked}, deployed ${summary.deployed}, failed ${summary.failed}, ` +
+      `timed out ${summary.timedOut}, pending ${summary.pending}, errors ${summary.errors.length}`
+    );
+
+    return NextResponse.json({ success: true, data: summary });
+  } catch (error) {
+    console.error('Error running deployment poll job:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to run deployment poll job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeCron } from '@/lib/auth/cron';
+import { runDunning } from '@/lib/dunning';
+
+// ============================================================================
+// Dunning Cron Endpoint
+// ============================================================================
+//
+// Runs one pass of the dunning job (see lib/dunning.ts). Meant to be called
+// on a schedule, e.g. hourly from cron or `npm run dunning`. The job only
+// acts on what is newly due, so running it more often is harmless.
+//
+// Authentication: Authorization: Bearer <CRON_SECRET>
+// ============================================================================
+
+/**
+ * POST /api/cron/dunning
+ *
+ * Response:
+ * - 200: { success: true, data: DunningRunSummary }
+ * - 401: Missing or wrong cron secret
+ * - 500: Server error
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!authorizeCron(request)) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const summary = await runDunning();
+
+    console.log(
+      `Dunning: checked ${summary.checked}, reminders ${summary.remindersSent}, suspended ${summary.suspended}, restored ${summary.restored}, errors ${summary.errors.length}`
+    );
+
+    return NextResponse.json({ success: true, data: summary });
+  } catch (error) {
+    console.error('Error running dunning job:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to run dunning job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeCron } from '@/lib/auth/cron';
+import { runFilePurge } from '@/lib/filePurge';
+
+// ============================================================================
+// File Purge Cron Endpoint
+// ============================================================================
+//
+// Permanently deletes customer files whose trash retention has passed (see
+// lib/filePurge.ts). Meant to be called on a schedule, e.g. daily from cron
+// or `npm run file-purge`. Files still inside the retention window are left
+// alone, so running it more often is harmless.
+//
+// Authentication: Authorization: Bearer <CRON_SECRET>
+// ============================================================================
+
+/**
+ * POST /api/cron/file-purge
+ *
+ * Response:
+ * - 200: { success: true, data: FilePurgeSummary }
+ * - 401: Missing or wrong cron secret
+ * - 500: Server error
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!authorizeCron(request)) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const summary = await runFilePurge();
+
+    console.log(
+      `File purge: checked ${summary.checked}, purged ${summary.purged}, errors ${summary.errors.length}`
+    );
+
+    return NextResponse.json({ success: true, data: summary });
+  } catch (error) {
+    console.error('Error running file purge job:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to run file purge job' },
+      { status: 500 }
+    );
+  }
+}
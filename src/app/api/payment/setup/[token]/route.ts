@@ -2,24 +2,32 @@
  * Payment Setup Fee Checkout API Route
  *
  * POST /api/payment/setup/[token]
- * Initiates a Stripe Checkout session for a one-time $200 setup fee payment.
+ * Initiates a Stripe Checkout session for the one-time setup fee payment.
  *
  * This endpoint:
- * 1. Validates the token by finding a submission with matching setupFeeToken
- * 2. Creates a Stripe Checkout session for the one-time payment
+ * 1. Validates the token against an active, unexpired PaymentLink
+ * 2. Reuses the link's open Checkout session, or creates one for the
+ *    one-time payment that expires no later than the link
  * 3. Returns the checkout URL for client-side redirect
  *
  * Authentication: None (token-based access)
  *
  * Response:
  * - 200: { success: true, url: string }
- * - 404: Invalid or expired token
+ * - 404: Invalid token
+ * - 409: Checkout was being started for the link at the same time
+ * - 410: Link has expired, was already used, or was revoked
  * - 500: Server error (Stripe or database failure)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
+import {
+  getPaymentLinkByToken,
+  PAYMENT_LINK_UNAVAILABLE_ERRORS,
+} from '@/lib/admin/paymentLinkQueries';
 import { createCheckoutSession } from '@/lib/stripe';
+import { startPaymentLinkCheckout } from '@/lib/paymentLinkCheckout';
 
 interface RouteParams {
   params: Promise<{ token: string }>;
@@ -32,9 +40,24 @@ export async function POST(
   try {
     const { token } = await params;
 
-    // Validate the token by finding the submission
+    // Validate the token by finding the payment link
+    const link = await getPaymentLinkByToken(token, 'SETUP_FEE');
+    if (!link) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid payment link' },
+        { status: 404 }
+      );
+    }
+
+    if (link.status !== 'ACTIVE') {
+      return NextResponse.json(
+        { success: false, error: PAYMENT_LINK_UNAVAILABLE_ERRORS[link.status] },
+        { status: 410 }
+      );
+    }
+
     const submission = await prisma.intakeSubmission.findUnique({
-      where: { setupFeeToken: token },
+      where: { id: link.customerId },
       select: {
         id: true,
         email: true,
@@ -43,16 +66,15 @@ export async function POST(
       },
     });
 
-    // Return 404 if token is invalid or not found
     if (!submission) {
       return NextResponse.json(
-        { success: false, error: 'Invalid or expired payment link' },
+        { success: false, error: 'Invalid payment link' },
         { status: 404 }
       );
     }
 
-    // Get the setup fee price ID from environment
-    const priceId = process.env.STRIPE_SETUP_FEE_PRICE_ID;
+    // Use the price snapshotted on the link, falling back to the configured price
+    const priceId = link.stripePriceId ?? process.env.STRIPE_SETUP_FEE_PRICE_ID;
     if (!priceId) {
       console.error('STRIPE_SETUP_FEE_PRICE_ID is not configured');
       return NextResponse.json(
@@ -66,33 +88,35 @@ export async function POST(
     const successUrl = `${baseUrl}/pay/success?session_id={CHECKOUT_SESSION_ID}`;
     const cancelUrl = `${baseUrl}/pay/cancelled`;
 
-    // Create Stripe Checkout session for one-time setup fee payment
-    const session = await createCheckoutSession({
-      priceId,
-      mode: 'payment',
-      successUrl,
-      cancelUrl,
-      customerEmail: submission.email,
-      metadata: {
-        submissionId: submission.id.toString(),
-        paymentType: 'setup_fee',
-        customerName: submission.fullName,
-        businessName: submission.businessName,
-      },
-    });
+    // Reuse the link's open Checkout session, or create one for the setup fee
+    const checkout = await startPaymentLinkCheckout(link, (expiresAt) =>
+      createCheckoutSession({
+        priceId,
+        mode: 'payment',
+        successUrl,
+        cancelUrl,
+        customerEmail: submission.email,
+        metadata: {
+          submissionId: submission.id.toString(),
+          paymentLinkId: link.id.toString(),
+          paymentType: 'setup_fee',
+          customerName: submission.fullName,
+          businessName: submission.businessName,
+        },
+        expiresAt,
+      })
+    );
 
-    // Verify we have a checkout URL
-    if (!session.url) {
-      console.error('Stripe session created without URL');
+    if ('error' in checkout) {
       return NextResponse.json(
-        { success: false, error: 'Failed to create checkout session' },
-        { status: 500 }
+        { success: false, error: checkout.error },
+        { status: checkout.status }
       );
     }
 
     return NextResponse.json({
       success: true,
-      url: session.url,
+      url: checkout.url,
     });
   } catch (error) {
     console.error('Error creating setup fee checkout session:', error);
@@ -2,24 +2,32 @@
  * Subscription Checkout API Route
  *
  * POST /api/payment/subscribe/[token]
- * Initiates a Stripe Checkout session for a $29/month recurring subscription.
+ * Initiates a Stripe Checkout session for the monthly recurring subscription.
  *
  * This endpoint:
- * 1. Validates the token by finding a submission with matching subscriptionToken
- * 2. Creates a Stripe Checkout session for the subscription
+ * 1. Validates the token against an active, unexpired PaymentLink
+ * 2. Reuses the link's open Checkout session, or creates one for the
+ *    subscription that expires no later than the link
  * 3. Returns the checkout URL for client-side redirect
  *
  * Authentication: None (token-based access)
  *
  * Response:
  * - 200: { success: true, url: string }
- * - 404: Invalid or expired token
+ * - 404: Invalid token
+ * - 409: Checkout was being started for the link at the same time
+ * - 410: Link has expired, was already used, or was revoked
  * - 500: Server error (Stripe or database failure)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
+import {
+  getPaymentLinkByToken,
+  PAYMENT_LINK_UNAVAILABLE_ERRORS,
+} from '@/lib/admin/paymentLinkQueries';
 import { createSubscriptionCheckout } from '@/lib/stripe';
+import { startPaymentLinkCheckout } from '@/lib/paymentLinkCheckout';
 
 interface RouteParams {
   params: Promise<{ token: string }>;
@@ -32,9 +40,24 @@ export async function POST(
   try {
     const { token } = await params;
 
-    // Validate the token by finding the submission
+    // Validate the token by finding the payment link
+    const link = await getPaymentLinkByToken(token, 'SUBSCRIPTION');
+    if (!link) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid payment link' },
+        { status: 404 }
+      );
+    }
+
+    if (link.status !== 'ACTIVE') {
+      return NextResponse.json(
+        { success: false, error: PAYMENT_LINK_UNAVAILABLE_ERRORS[link.status] },
+        { status: 410 }
+      );
+    }
+
     const submission = await prisma.intakeSubmission.findUnique({
-      where: { subscriptionToken: token },
+      where: { id: link.customerId },
       select: {
         id: true,
         email: true,
@@ -43,16 +66,15 @@ export async function POST(
       },
     });
 
-    // Return 404 if token is invalid or not found
     if (!submission) {
       return NextResponse.json(
-        { success: false, error: 'Invalid or expired payment link' },
+        { success: false, error: 'Invalid payment link' },
         { status: 404 }
       );
     }
 
-    // Get the subscription price ID from environment
-    const subscriptionPriceId = process.env.STRIPE_SUBSCRIPTION_PRICE_ID;
+    // Use the price snapshotted on the link, falling back to the configured price
+    const subscriptionPriceId = link.stripePriceId ?? process.env.STRIPE_SUBSCRIPTION_PRICE_ID;
     if (!subscriptionPriceId) {
       console.error('STRIPE_SUBSCRIPTION_PRICE_ID is not configured');
       return NextResponse.json(
@@ -66,31 +88,33 @@ export async function POST(
     const successUrl = `${baseUrl}/pay/success?session_id={CHECKOUT_SESSION_ID}`;
     const cancelUrl = `${baseUrl}/pay/cancelled`;
 
-    // Create Stripe Checkout session for subscription
-    const session = await createSubscriptionCheckout({
-      subscriptionPriceId,
-      successUrl,
-      cancelUrl,
-      customerEmail: submission.email,
-      metadata: {
-        submissionId: submission.id.toString(),
-        customerName: submission.fullName,
-        businessName: submission.businessName,
-      },
-    });
+    // Reuse the link's open Checkout session, or create one for the subscription
+    const checkout = await startPaymentLinkCheckout(link, (expiresAt) =>
+      createSubscriptionCheckout({
+        subscriptionPriceId,
+        successUrl,
+        cancelUrl,
+        customerEmail: submission.email,
+        metadata: {
+          submissionId: submission.id.toString(),
+          paymentLinkId: link.id.toString(),
+          customerName: submission.fullName,
+          businessName: submission.businessName,
+        },
+        expiresAt,
+      })
+    );
 
-    // Verify we have a checkout URL
-    if (!session.url) {
-      console.error('Stripe session created without URL');
+    if ('error' in checkout) {
       return NextResponse.json(
-        { success: false, error: 'Failed to create checkout session' },
-        { status: 500 }
+        { success: false, error: checkout.error },
+        { status: checkout.status }
       );
     }
 
     return NextResponse.json({
       success: true,
-      url: session.url,
+      url: checkout.url,
     });
   } catch (error) {
     console.error('Error creating subscription checkout session:', error);
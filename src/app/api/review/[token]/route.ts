@@ -0,0 +1,114 @@
+/**
+ * Customer Preview Review API Route
+ *
+ * POST /api/review/[token]
+ * Records the customer's feedback on the preview shared with the review
+ * link as a customer note, so the team sees it in the customer's activity.
+ * Expects JSON with:
+ * - feedback: string (required)
+ * - name: string (optional, defaults to the customer's name)
+ *
+ * Authentication: None (token-based access)
+ *
+ * Response:
+ * - 200: { success: true }
+ * - 400: Missing or too long feedback
+ * - 404: Invalid token
+ * - 410: Link has expired or was replaced by a newer link
+ * - 500: Server error
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import {
+  getPreviewReviewLinkByToken,
+  isPreviewReviewLinkUsable,
+  markPreviewReviewLinkFeedback,
+} from '@/lib/admin/previewReviewLinkQueries';
+import { createNote } from '@/lib/admin/noteQueries';
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+// Longest feedback and name accepted
+const MAX_FEEDBACK_LENGTH = 5000;
+const MAX_NAME_LENGTH = 100;
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { token } = await params;
+
+    // Validate the token by finding the review link
+    const link = await getPreviewReviewLinkByToken(token);
+    if (!link) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid review link' },
+        { status: 404 }
+      );
+    }
+
+    if (!isPreviewReviewLinkUsable(link)) {
+      return NextResponse.json(
+        { success: false, error: 'This review link has expired' },
+        { status: 410 }
+      );
+    }
+
+    const submission = await prisma.intakeSubmission.findUnique({
+      where: { id: link.customerId },
+      select: { id: true, fullName: true },
+    });
+
+    if (!submission) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid review link' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const feedback = typeof body.feedback === 'string' ? body.feedback.trim() : '';
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!feedback) {
+      return NextResponse.json(
+        { success: false, error: 'Please enter your feedback' },
+        { status: 400 }
+      );
+    }
+
+    if (feedback.length > MAX_FEEDBACK_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `Feedback must be at most ${MAX_FEEDBACK_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `Name must be at most ${MAX_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    await createNote(submission.id, {
+      content: `Client feedback on the ${link.branch} preview (${link.previewUrl}):\n\n${feedback}`,
+      noteType: 'GENERAL',
+      authorName: name || submission.fullName,
+    });
+
+    await markPreviewReviewLinkFeedback(link.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error recording preview feedback:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to send feedback' },
+      { status: 500 }
+    );
+  }
+}
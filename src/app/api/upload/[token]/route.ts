@@ -0,0 +1,187 @@
+/**
+ * Customer Upload Portal API Route
+ *
+ * POST /api/upload/[token]
+ * Uploads files on behalf of the customer the upload link was issued to.
+ * Expects multipart/form-data with:
+ * - files: File[] (the files to upload)
+ * - category: string (LOGO, PHOTO or CONTENT; defaults to LOGO)
+ * - description: string (optional)
+ *
+ * Files go through the same checks and image processing as admin uploads.
+ * A customer note lists what was uploaded so the team sees it in the
+ * customer's activity.
+ *
+ * Authentication: None (token-based access)
+ *
+ * Response:
+ * - 200: { success: true, data: { uploaded, errors? } }
+ * - 400: No files, invalid category or every file failed
+ * - 404: Invalid token
+ * - 410: Link has expired or was replaced by a newer link
+ * - 413: Files would exceed the customer's storage quota
+ * - 500: Server error
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import {
+  getUploadLinkByToken,
+  isUploadLinkUsable,
+  markUploadLinkUsed,
+  UPLOAD_PORTAL_CATEGORIES,
+} from '@/lib/admin/uploadLinkQueries';
+import { createFileRecord, createFileVariantRecords } from '@/lib/admin/fileQueries';
+import { checkStorageQuota } from '@/lib/admin/storageQueries';
+import { createNote } from '@/lib/admin/noteQueries';
+import { uploadFile, StorageError } from '@/lib/storage';
+import type { FileCategory } from '@/types/admin';
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { token } = await params;
+
+    // Validate the token by finding the upload link
+    const link = await getUploadLinkByToken(token);
+    if (!link) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid upload link' },
+        { status: 404 }
+      );
+    }
+
+    if (!isUploadLinkUsable(link)) {
+      return NextResponse.json(
+        { success: false, error: 'This upload link has expired' },
+        { status: 410 }
+      );
+    }
+
+    const submission = await prisma.intakeSubmission.findUnique({
+      where: { id: link.customerId },
+      select: { id: true, fullName: true },
+    });
+
+    if (!submission) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid upload link' },
+        { status: 404 }
+      );
+    }
+
+    // Parse multipart form data
+    const formData = await request.formData();
+    const files = formData.getAll('files') as File[];
+    const categoryParam = formData.get('category') as string | null;
+    const description = formData.get('description') as string | null;
+
+    if (!files || files.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No files provided' },
+        { status: 400 }
+      );
+    }
+
+    // Customers can only upload into the portal categories
+    let category: FileCategory = UPLOAD_PORTAL_CATEGORIES[0];
+    if (categoryParam) {
+      if (!UPLOAD_PORTAL_CATEGORIES.includes(categoryParam as FileCategory)) {
+        return NextResponse.json(
+          { success: false, error: `Invalid category. Must be one of: ${UPLOAD_PORTAL_CATEGORIES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      category = categoryParam as FileCategory;
+    }
+
+    // Reject the whole upload if it would exceed the customer's quota
+    try {
+      await checkStorageQuota(submission.id, files.reduce((total, file) => total + file.size, 0));
+    } catch (error) {
+      if (error instanceof StorageError && error.code === 'QUOTA_EXCEEDED') {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 413 }
+        );
+      }
+      throw error;
+    }
+
+    // Process each file
+    const uploadResults = [];
+    const errors: { fileName: string; error: string }[] = [];
+
+    for (const file of files) {
+      try {
+        const uploadResult = await uploadFile(submission.id, file, category);
+
+        const fileRecord = await createFileRecord(submission.id, {
+          fileName: uploadResult.fileName,
+          fileKey: uploadResult.fileKey,
+          fileSize: uploadResult.fileSize,
+          mimeType: uploadResult.mimeType,
+          category: uploadResult.category,
+          description: description || 'Uploaded by the customer',
+        });
+        const variants = await createFileVariantRecords(fileRecord.id, uploadResult.variants);
+
+        uploadResults.push({ ...fileRecord, variants });
+      } catch (error) {
+        if (error instanceof StorageError) {
+          errors.push({
+            fileName: file.name,
+            error: error.message,
+          });
+        } else {
+          console.error(`Error uploading file ${file.name}:`, error);
+          errors.push({
+            fileName: file.name,
+            error: 'Failed to upload file',
+          });
+        }
+      }
+    }
+
+    if (uploadResults.length === 0 && errors.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'All files failed to upload',
+          errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Let the team know what arrived
+    const fileNames = uploadResults.map((file) => file.fileName).join(', ');
+    await createNote(submission.id, {
+      content: `Customer uploaded ${uploadResults.length} file${uploadResults.length === 1 ? '' : 's'} (${category}) through the upload portal: ${fileNames}`,
+      noteType: 'GENERAL',
+      authorName: submission.fullName,
+    });
+
+    await markUploadLinkUsed(link.id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        uploaded: uploadResults,
+        errors: errors.length > 0 ? errors : undefined,
+      },
+    });
+  } catch (error) {
+    console.error('Error uploading files through upload link:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to upload files' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Billing Portal Client Component
+ *
+ * Handles the manage billing button and redirects to the Stripe billing portal.
+ * Uses the /api/billing/[token] endpoint to create a portal session.
+ */
+
+'use client';
+
+import { useState } from 'react';
+
+interface BillingPortalClientProps {
+  token: string;
+}
+
+export default function BillingPortalClient({ token }: BillingPortalClientProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openPortal = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/billing/${token}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to open billing portal');
+      }
+
+      // Redirect to the Stripe billing portal
+      if (data.url) {
+        window.location.href = data.url;
+      } else {
+        throw new Error('No billing portal URL received');
+      }
+    } catch (err) {
+      console.error('Billing portal error:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred. Please try again.');
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 space-y-4">
+      {/* Error Message */}
+      {error && (
+        <div className="rounded-lg bg-red-50 p-4 text-sm text-red-700">
+          <p className="font-medium">Billing Portal Error</p>
+          <p className="mt-1">{error}</p>
+        </div>
+      )}
+
+      {/* Manage Billing Button */}
+      <button
+        onClick={openPortal}
+        disabled={isLoading}
+        className="flex w-full items-center justify-center gap-2 rounded-lg bg-blue-600 px-6 py-4 text-base font-semibold text-white transition-colors hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {isLoading ? (
+          <>
+            <svg
+              className="h-5 w-5 animate-spin"
+              fill="none"
+              viewBox="0 0 24 24"
+            >
+              <circle
+                className="opacity-25"
+                cx="12"
+                cy="12"
+                r="10"
+                stroke="currentColor"
+                strokeWidth="4"
+              />
+              <path
+                className="opacity-75"
+                fill="currentColor"
+                d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+              />
+            </svg>
+            Opening...
+          </>
+        ) : (
+          'Manage Billing'
+        )}
+      </button>
+
+      {/* Additional Info */}
+      <p className="text-center text-xs text-gray-500">
+        You will be redirected to Stripe&apos;s secure billing portal.
+      </p>
+    </div>
+  );
+}
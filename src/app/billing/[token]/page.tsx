@@ -0,0 +1,216 @@
+/**
+ * Billing Portal Page
+ *
+ * Public customer-facing page that opens the Stripe billing portal, where
+ * customers update their card, download invoices or change their
+ * subscription. Validates the billing portal link token first.
+ *
+ * Route: /billing/[token]
+ */
+
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { prisma } from '@/lib/db';
+import {
+  getBillingPortalLinkByToken,
+  isBillingPortalLinkUsable,
+} from '@/lib/admin/billingPortalLinkQueries';
+import BillingPortalClient from './BillingPortalClient';
+
+export const metadata: Metadata = {
+  title: 'Manage Billing - SiteStart',
+  description: 'Update your payment method, download invoices or manage your subscription.',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+// Customer-facing labels for Stripe subscription statuses
+const SUBSCRIPTION_STATUS_LABELS: Record<string, string> = {
+  active: 'Active',
+  trialing: 'Free trial',
+  past_due: 'Payment overdue',
+  paused: 'Paused',
+  incomplete: 'Awaiting payment',
+  canceled: 'Cancelled',
+  unpaid: 'Unpaid',
+};
+
+async function getBillingPortalLinkWithSubmission(token: string) {
+  try {
+    const link = await getBillingPortalLinkByToken(token);
+    if (!link) {
+      return null;
+    }
+
+    const submission = await prisma.intakeSubmission.findUnique({
+      where: { id: link.customerId },
+      select: {
+        id: true,
+        fullName: true,
+        businessName: true,
+        stripeCustomerId: true,
+        subscriptionStatus: true,
+      },
+    });
+
+    return submission ? { link, submission } : null;
+  } catch (error) {
+    console.error('Error fetching billing portal link by token:', error);
+    return null;
+  }
+}
+
+export default async function BillingPortalPage({ params }: PageProps) {
+  const { token } = await params;
+
+  // Validate token exists
+  if (!token || token.length < 10) {
+    return <BillingLinkUnavailablePage expired={false} />;
+  }
+
+  const result = await getBillingPortalLinkWithSubmission(token);
+
+  // Token not found, expired or replaced
+  if (!result || !result.submission.stripeCustomerId) {
+    return <BillingLinkUnavailablePage expired={false} />;
+  }
+  if (!isBillingPortalLinkUsable(result.link)) {
+    return <BillingLinkUnavailablePage expired />;
+  }
+
+  const { submission } = result;
+  const subscriptionStatus = submission.subscriptionStatus
+    ? SUBSCRIPTION_STATUS_LABELS[submission.subscriptionStatus] ?? submission.subscriptionStatus
+    : 'No subscription';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="border-b border-gray-200 bg-white">
+        <div className="mx-auto max-w-3xl px-4 py-4">
+          <div className="flex items-center gap-2">
+            <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-blue-600">
+              <svg
+                className="h-4 w-4 text-white"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth={2}
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  d="M13 10V3L4 14h7v7l9-11h-7z"
+                />
+              </svg>
+            </div>
+            <span className="text-lg font-bold text-gray-900">SiteStart</span>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="mx-auto max-w-lg px-4 py-8 sm:py-12">
+        <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+          <h1 className="text-xl font-semibold text-gray-900">Manage Your Billing</h1>
+          <p className="mt-2 text-sm text-gray-600">
+            Update your card, download invoices and receipts, or change your subscription.
+          </p>
+
+          <dl className="mt-6 space-y-4">
+            <div>
+              <dt className="text-sm text-gray-500">Customer</dt>
+              <dd className="mt-1 font-medium text-gray-900">{submission.fullName}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500">Business</dt>
+              <dd className="mt-1 font-medium text-gray-900">{submission.businessName}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500">Subscription</dt>
+              <dd className="mt-1 font-medium text-gray-900">{subscriptionStatus}</dd>
+            </div>
+          </dl>
+
+          <BillingPortalClient token={token} />
+        </div>
+
+        {/* Need Help */}
+        <div className="mt-4 text-center">
+          <p className="text-sm text-gray-500">
+            Have questions?{' '}
+            <a href="mailto:support@sitestart.com" className="text-blue-600 hover:underline">
+              Contact support
+            </a>
+          </p>
+        </div>
+      </main>
+
+      {/* Footer */}
+      <footer className="border-t border-gray-200 bg-white">
+        <div className="mx-auto max-w-3xl px-4 py-6">
+          <p className="text-center text-sm text-gray-500">
+            &copy; {new Date().getFullYear()} SiteStart. All rights reserved.
+          </p>
+        </div>
+      </footer>
+    </div>
+  );
+}
+
+/**
+ * Billing Link Unavailable Page Component
+ */
+function BillingLinkUnavailablePage({ expired }: { expired: boolean }) {
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-gray-50 px-4">
+      <div className="w-full max-w-md text-center">
+        <div className="mx-auto flex h-16 w-16 items-center justify-center rounded-full bg-amber-100">
+          <svg
+            className="h-8 w-8 text-amber-600"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+            strokeWidth={2}
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+            />
+          </svg>
+        </div>
+
+        <h1 className="mt-6 text-2xl font-bold text-gray-900">
+          {expired ? 'Billing Link Expired' : 'Invalid Billing Link'}
+        </h1>
+        <p className="mt-3 text-gray-600">
+          {expired
+            ? 'This billing link has expired or been replaced by a newer one. Please use the most recent link we sent you, or contact us for a new one.'
+            : 'This billing link is invalid. Please contact us if you believe this is an error.'}
+        </p>
+
+        <div className="mt-8 space-y-3">
+          <a
+            href="mailto:support@sitestart.com"
+            className="flex w-full items-center justify-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Contact Support
+          </a>
+          <Link
+            href="/"
+            className="block text-sm text-gray-500 hover:text-gray-700"
+          >
+            Return to Homepage
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * Payment Link Unavailable Page
+ *
+ * Shown by the public pay pages when a payment link has expired, has
+ * already been used, or was revoked by an admin.
+ */
+
+import Link from 'next/link';
+import type { PaymentLinkStatus } from '@/types/admin';
+
+interface PaymentLinkUnavailablePageProps {
+  status: Exclude<PaymentLinkStatus, 'ACTIVE'>;
+  expiresAt?: Date;
+}
+
+// Heading and explanation for each unavailable status
+const STATUS_CONTENT: Record<
+  PaymentLinkUnavailablePageProps['status'],
+  { title: string; message: string }
+> = {
+  EXPIRED: {
+    title: 'Payment Link Expired',
+    message: 'This payment link has expired. Please contact us and we will send you a new one.',
+  },
+  USED: {
+    title: 'Payment Link Already Used',
+    message: 'This payment link has already been used to complete a payment. No further action is needed.',
+  },
+  REVOKED: {
+    title: 'Payment Link No Longer Valid',
+    message: 'This payment link has been replaced or cancelled. Please use the most recent link we sent you, or contact us for a new one.',
+  },
+};
+
+// Format date for display
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+export default function PaymentLinkUnavailablePage({
+  status,
+  expiresAt,
+}: PaymentLinkUnavailablePageProps) {
+  const content = STATUS_CONTENT[status];
+  const isUsed = status === 'USED';
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-gray-50 px-4">
+      <div className="w-full max-w-md text-center">
+        {/* Status Icon */}
+        <div
+          className={`mx-auto flex h-16 w-16 items-center justify-center rounded-full ${
+            isUsed ? 'bg-green-100' : 'bg-amber-100'
+          }`}
+        >
+          {isUsed ? (
+            <svg
+              className="h-8 w-8 text-green-600"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+              strokeWidth={2}
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+            </svg>
+          ) : (
+            <svg
+              className="h-8 w-8 text-amber-600"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+              strokeWidth={2}
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+              />
+            </svg>
+          )}
+        </div>
+
+        <h1 className="mt-6 text-2xl font-bold text-gray-900">{content.title}</h1>
+        <p className="mt-3 text-gray-600">{content.message}</p>
+        {status === 'EXPIRED' && expiresAt && (
+          <p className="mt-2 text-sm text-gray-500">Expired on {formatDate(expiresAt)}</p>
+        )}
+
+        <div className="mt-8 space-y-3">
+          <a
+            href="mailto:support@sitestart.com"
+            className="flex w-full items-center justify-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            <svg
+              className="h-4 w-4"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+              strokeWidth={2}
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
+              />
+            </svg>
+            Contact Support
+          </a>
+          <Link
+            href="/"
+            className="block text-sm text-gray-500 hover:text-gray-700"
+          >
+            Return to Homepage
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -11,9 +11,11 @@ import { useState } from 'react';
 
 interface SetupFeePaymentClientProps {
   token: string;
+  // Formatted price from the payment link, e.g. "$200.00"
+  amount: string;
 }
 
-export default function SetupFeePaymentClient({ token }: SetupFeePaymentClientProps) {
+export default function SetupFeePaymentClient({ token, amount }: SetupFeePaymentClientProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -119,7 +121,7 @@ export default function SetupFeePaymentClient({ token }: SetupFeePaymentClientPr
                 d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
               />
             </svg>
-            Pay $200.00
+            Pay {amount}
           </>
         )}
       </button>
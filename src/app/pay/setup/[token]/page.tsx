@@ -1,8 +1,10 @@
 /**
  * Setup Fee Payment Page
  *
- * Public customer-facing page for $200 one-time setup fee payment.
- * Validates the token against the database and displays payment UI.
+ * Public customer-facing page for the one-time setup fee payment.
+ * Validates the payment link token and displays payment UI with the
+ * price snapshotted on the link, and the name and included features of the
+ * pricing plan it was issued for.
  *
  * Route: /pay/setup/[token]
  */
@@ -10,7 +12,10 @@
 import { Metadata } from 'next';
 import { prisma } from '@/lib/db';
 import { notFound } from 'next/navigation';
+import { getPaymentLinkByToken } from '@/lib/admin/paymentLinkQueries';
+import { getPricingPlanById } from '@/lib/admin/pricingPlanQueries';
 import SetupFeePaymentClient from './SetupFeePaymentClient';
+import PaymentLinkUnavailablePage from '../../PaymentLinkUnavailablePage';
 
 export const metadata: Metadata = {
   title: 'Pay Setup Fee - SiteStart',
@@ -25,10 +30,15 @@ interface PageProps {
   params: Promise<{ token: string }>;
 }
 
-async function getSubmissionByToken(token: string) {
+async function getPaymentLinkWithSubmission(token: string) {
   try {
+    const link = await getPaymentLinkByToken(token, 'SETUP_FEE');
+    if (!link) {
+      return null;
+    }
+
     const submission = await prisma.intakeSubmission.findUnique({
-      where: { setupFeeToken: token },
+      where: { id: link.customerId },
       select: {
         id: true,
         fullName: true,
@@ -39,13 +49,28 @@ async function getSubmissionByToken(token: string) {
       },
     });
 
-    return submission;
+    if (!submission) {
+      return null;
+    }
+
+    // The plan may have been deleted since; the link keeps its name snapshot
+    const plan = link.planId ? await getPricingPlanById(link.planId) : null;
+
+    return { link, submission, plan };
   } catch (error) {
-    console.error('Error fetching submission by token:', error);
+    console.error('Error fetching payment link by token:', error);
     return null;
   }
 }
 
+// Format a link amount for display, e.g. "$200.00"
+function formatAmount(amountCents: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(amountCents / 100);
+}
+
 export default async function SetupFeePaymentPage({ params }: PageProps) {
   const { token } = await params;
 
@@ -54,19 +79,28 @@ export default async function SetupFeePaymentPage({ params }: PageProps) {
     return <InvalidTokenPage />;
   }
 
-  // Fetch submission from database
-  const submission = await getSubmissionByToken(token);
+  // Fetch payment link and submission from database
+  const result = await getPaymentLinkWithSubmission(token);
 
   // Token not found or invalid
-  if (!submission) {
+  if (!result) {
     return <InvalidTokenPage />;
   }
 
+  const { link, submission, plan } = result;
+
+  // Link expired, already used or revoked
+  if (link.status !== 'ACTIVE') {
+    return <PaymentLinkUnavailablePage status={link.status} expiresAt={link.expiresAt} />;
+  }
+
   // Check if already paid (status PAID or billingStatus not PENDING)
   if (submission.status === 'PAID' || submission.billingStatus !== 'PENDING') {
     return <AlreadyPaidPage businessName={submission.businessName} />;
   }
 
+  const amount = formatAmount(link.amountCents, link.currency);
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -119,10 +153,10 @@ export default async function SetupFeePaymentPage({ params }: PageProps) {
                 <div className="space-y-3">
                   <div className="flex justify-between">
                     <div>
-                      <p className="font-medium text-gray-900">Website Setup Fee</p>
-                      <p className="text-sm text-gray-500">One-time payment</p>
+                      <p className="font-medium text-gray-900">{link.planName ?? 'Website Setup Fee'}</p>
+                      <p className="text-sm text-gray-500">One-time setup fee</p>
                     </div>
-                    <p className="font-medium text-gray-900">$200.00</p>
+                    <p className="font-medium text-gray-900">{amount}</p>
                   </div>
                 </div>
 
@@ -131,79 +165,108 @@ export default async function SetupFeePaymentPage({ params }: PageProps) {
                 {/* Total */}
                 <div className="flex justify-between">
                   <p className="text-lg font-semibold text-gray-900">Total</p>
-                  <p className="text-lg font-semibold text-gray-900">$200.00</p>
+                  <p className="text-lg font-semibold text-gray-900">{amount}</p>
                 </div>
+                {plan && (
+                  <p className="text-sm text-gray-500">
+                    Then {formatAmount(plan.monthlyPriceCents, plan.currency)}/month for hosting and
+                    support once your site is live.
+                  </p>
+                )}
               </div>
 
               {/* What's Included */}
               <div className="mt-6 rounded-lg bg-gray-50 p-4">
                 <p className="text-sm font-medium text-gray-900">What&apos;s included:</p>
-                <ul className="mt-2 space-y-2 text-sm text-gray-600">
-                  <li className="flex items-start gap-2">
-                    <svg
-                      className="mt-0.5 h-4 w-4 flex-shrink-0 text-green-500"
-                      fill="none"
-                      viewBox="0 0 24 24"
-                      stroke="currentColor"
-                      strokeWidth={2}
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        d="M5 13l4 4L19 7"
-                      />
-                    </svg>
-                    Custom website design
-                  </li>
-                  <li className="flex items-start gap-2">
-                    <svg
-                      className="mt-0.5 h-4 w-4 flex-shrink-0 text-green-500"
-                      fill="none"
-                      viewBox="0 0 24 24"
-                      stroke="currentColor"
-                      strokeWidth={2}
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        d="M5 13l4 4L19 7"
-                      />
-                    </svg>
-                    Mobile-responsive layout
-                  </li>
-                  <li className="flex items-start gap-2">
-                    <svg
-                      className="mt-0.5 h-4 w-4 flex-shrink-0 text-green-500"
-                      fill="none"
-                      viewBox="0 0 24 24"
-                      stroke="currentColor"
-                      strokeWidth={2}
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        d="M5 13l4 4L19 7"
-                      />
-                    </svg>
-                    Initial content setup
-                  </li>
-                  <li className="flex items-start gap-2">
-                    <svg
-                      className="mt-0.5 h-4 w-4 flex-shrink-0 text-green-500"
-                      fill="none"
-                      viewBox="0 0 24 24"
-                      stroke="currentColor"
-                      strokeWidth={2}
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        d="M5 13l4 4L19 7"
-                      />
-                    </svg>
-                    Domain configuration
-                  </li>
-                </ul>
+                {plan && plan.features.length > 0 ? (
+                  <ul className="mt-2 space-y-2 text-sm text-gray-600">
+                    {plan.features.map((feature) => (
+                      <li key={feature} className="flex items-start gap-2">
+                        <svg
+                          className="mt-0.5 h-4 w-4 flex-shrink-0 text-green-500"
+                          fill="none"
+                          viewBox="0 0 24 24"
+                          stroke="currentColor"
+                          strokeWidth={2}
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            d="M5 13l4 4L19 7"
+                          />
+                        </svg>
+                        {feature}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <ul className="mt-2 space-y-2 text-sm text-gray-600">
+                    <li className="flex items-start gap-2">
+                      <svg
+                        className="mt-0.5 h-4 w-4 flex-shrink-0 text-green-500"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                        strokeWidth={2}
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          d="M5 13l4 4L19 7"
+                        />
+                      </svg>
+                      Custom website design
+                    </li>
+                    <li className="flex items-start gap-2">
+                      <svg
+                        className="mt-0.5 h-4 w-4 flex-shrink-0 text-green-500"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                        strokeWidth={2}
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          d="M5 13l4 4L19 7"
+                        />
+                      </svg>
+                      Mobile-responsive layout
+                    </li>
+                    <li className="flex items-start gap-2">
+                      <svg
+                        className="mt-0.5 h-4 w-4 flex-shrink-0 text-green-500"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                        strokeWidth={2}
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          d="M5 13l4 4L19 7"
+                        />
+                      </svg>
+                      Initial content setup
+                    </li>
+                    <li className="flex items-start gap-2">
+                      <svg
+                        className="mt-0.5 h-4 w-4 flex-shrink-0 text-green-500"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                        strokeWidth={2}
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          d="M5 13l4 4L19 7"
+                        />
+                      </svg>
+                      Domain configuration
+                    </li>
+                  </ul>
+                )}
               </div>
             </div>
           </div>
@@ -217,7 +280,7 @@ export default async function SetupFeePaymentPage({ params }: PageProps) {
               </p>
 
               {/* Payment Client Component */}
-              <SetupFeePaymentClient token={token} />
+              <SetupFeePaymentClient token={token} amount={amount} />
 
               {/* Security Badges */}
               <div className="mt-6 flex flex-col items-center gap-4 border-t border-gray-200 pt-6">
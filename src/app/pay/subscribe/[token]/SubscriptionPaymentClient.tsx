@@ -11,9 +11,11 @@ import { useState } from 'react';
 
 interface SubscriptionPaymentClientProps {
   token: string;
+  // Formatted price from the payment link, e.g. "$200.00"
+  amount: string;
 }
 
-export default function SubscriptionPaymentClient({ token }: SubscriptionPaymentClientProps) {
+export default function SubscriptionPaymentClient({ token, amount }: SubscriptionPaymentClientProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -119,7 +121,7 @@ export default function SubscriptionPaymentClient({ token }: SubscriptionPayment
                 d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
               />
             </svg>
-            Subscribe - $29/month
+            Subscribe - {amount}/month
           </>
         )}
       </button>
@@ -130,7 +132,7 @@ export default function SubscriptionPaymentClient({ token }: SubscriptionPayment
           You will be redirected to Stripe&apos;s secure checkout to set up your subscription.
         </p>
         <p className="text-xs text-gray-400">
-          Your card will be charged $29.00 today and then monthly on the same date.
+          Your card will be charged {amount} today and then monthly on the same date.
         </p>
       </div>
     </div>
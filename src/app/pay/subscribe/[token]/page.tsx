@@ -1,15 +1,20 @@
 /**
  * Subscription Payment Page
  *
- * Public customer-facing page for $29/month recurring subscription payment.
- * Validates the token against the database and displays subscription UI.
+ * Public customer-facing page for the monthly recurring subscription payment.
+ * Validates the payment link token and displays subscription UI with the
+ * price snapshotted on the link, and the name and included features of the
+ * pricing plan it was issued for.
  *
  * Route: /pay/subscribe/[token]
  */
 
 import { Metadata } from 'next';
 import { prisma } from '@/lib/db';
+import { getPaymentLinkByToken } from '@/lib/admin/paymentLinkQueries';
+import { getPricingPlanById } from '@/lib/admin/pricingPlanQueries';
 import SubscriptionPaymentClient from './SubscriptionPaymentClient';
+import PaymentLinkUnavailablePage from '../../PaymentLinkUnavailablePage';
 
 export const metadata: Metadata = {
   title: 'Subscribe - SiteStart',
@@ -24,10 +29,15 @@ interface PageProps {
   params: Promise<{ token: string }>;
 }
 
-async function getSubmissionBySubscriptionToken(token: string) {
+async function getPaymentLinkWithSubmission(token: string) {
   try {
+    const link = await getPaymentLinkByToken(token, 'SUBSCRIPTION');
+    if (!link) {
+      return null;
+    }
+
     const submission = await prisma.intakeSubmission.findUnique({
-      where: { subscriptionToken: token },
+      where: { id: link.customerId },
       select: {
         id: true,
         fullName: true,
@@ -39,13 +49,28 @@ async function getSubmissionBySubscriptionToken(token: string) {
       },
     });
 
-    return submission;
+    if (!submission) {
+      return null;
+    }
+
+    // The plan may have been deleted since; the link keeps its name snapshot
+    const plan = link.planId ? await getPricingPlanById(link.planId) : null;
+
+    return { link, submission, plan };
   } catch (error) {
-    console.error('Error fetching submission by subscription token:', error);
+    console.error('Error fetching payment link by subscription token:', error);
     return null;
   }
 }
 
+// Format a link amount for display, e.g. "$29.00"
+function formatAmount(amountCents: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(amountCents / 100);
+}
+
 export default async function SubscriptionPaymentPage({ params }: PageProps) {
   const { token } = await params;
 
@@ -54,19 +79,31 @@ export default async function SubscriptionPaymentPage({ params }: PageProps) {
     return <InvalidTokenPage />;
   }
 
-  // Fetch submission from database
-  const submission = await getSubmissionBySubscriptionToken(token);
+  // Fetch payment link and submission from database
+  const result = await getPaymentLinkWithSubmission(token);
 
   // Token not found or invalid
-  if (!submission) {
+  if (!result) {
     return <InvalidTokenPage />;
   }
 
-  // Check if already has active subscription
-  if (submission.subscriptionStatus === 'active' && submission.stripeSubscriptionId) {
+  const { link, submission, plan } = result;
+
+  // Link expired, already used or revoked
+  if (link.status !== 'ACTIVE') {
+    return <PaymentLinkUnavailablePage status={link.status} expiresAt={link.expiresAt} />;
+  }
+
+  // Check if already has a live subscription (active, trialing or paused)
+  if (
+    submission.stripeSubscriptionId &&
+    ['active', 'trialing', 'paused'].includes(submission.subscriptionStatus ?? '')
+  ) {
     return <AlreadySubscribedPage businessName={submission.businessName} />;
   }
 
+  const amount = formatAmount(link.amountCents, link.currency);
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -119,11 +156,11 @@ export default async function SubscriptionPaymentPage({ params }: PageProps) {
                 <div className="space-y-3">
                   <div className="flex justify-between">
                     <div>
-                      <p className="font-medium text-gray-900">Monthly Hosting Plan</p>
+                      <p className="font-medium text-gray-900">{link.planName ?? 'Monthly Hosting Plan'}</p>
                       <p className="text-sm text-gray-500">Recurring subscription</p>
                     </div>
                     <div className="text-right">
-                      <p className="font-medium text-gray-900">$29.00</p>
+                      <p className="font-medium text-gray-900">{amount}</p>
                       <p className="text-sm text-gray-500">/month</p>
                     </div>
                   </div>
@@ -134,91 +171,114 @@ export default async function SubscriptionPaymentPage({ params }: PageProps) {
                 {/* Monthly Total */}
                 <div className="flex justify-between">
                   <p className="text-lg font-semibold text-gray-900">Monthly Total</p>
-                  <p className="text-lg font-semibold text-gray-900">$29.00</p>
+                  <p className="text-lg font-semibold text-gray-900">{amount}</p>
                 </div>
               </div>
 
               {/* What's Included */}
               <div className="mt-6 rounded-lg bg-blue-50 p-4">
                 <p className="text-sm font-medium text-gray-900">What&apos;s included:</p>
-                <ul className="mt-3 space-y-3 text-sm text-gray-600">
-                  <li className="flex items-start gap-2">
-                    <svg
-                      className="mt-0.5 h-4 w-4 flex-shrink-0 text-blue-600"
-                      fill="none"
-                      viewBox="0 0 24 24"
-                      stroke="currentColor"
-                      strokeWidth={2}
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        d="M5 13l4 4L19 7"
-                      />
-                    </svg>
-                    <span>
-                      <span className="font-medium text-gray-900">Website Hosting</span>
-                      <span className="block text-gray-500">Fast, secure, and reliable hosting</span>
-                    </span>
-                  </li>
-                  <li className="flex items-start gap-2">
-                    <svg
-                      className="mt-0.5 h-4 w-4 flex-shrink-0 text-blue-600"
-                      fill="none"
-                      viewBox="0 0 24 24"
-                      stroke="currentColor"
-                      strokeWidth={2}
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        d="M5 13l4 4L19 7"
-                      />
-                    </svg>
-                    <span>
-                      <span className="font-medium text-gray-900">Regular Updates</span>
-                      <span className="block text-gray-500">Security patches and software updates</span>
-                    </span>
-                  </li>
-                  <li className="flex items-start gap-2">
-                    <svg
-                      className="mt-0.5 h-4 w-4 flex-shrink-0 text-blue-600"
-                      fill="none"
-                      viewBox="0 0 24 24"
-                      stroke="currentColor"
-                      strokeWidth={2}
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        d="M5 13l4 4L19 7"
-                      />
-                    </svg>
-                    <span>
-                      <span className="font-medium text-gray-900">Priority Support</span>
-                      <span className="block text-gray-500">Email support with fast response times</span>
-                    </span>
-                  </li>
-                  <li className="flex items-start gap-2">
-                    <svg
-                      className="mt-0.5 h-4 w-4 flex-shrink-0 text-blue-600"
-                      fill="none"
-                      viewBox="0 0 24 24"
-                      stroke="currentColor"
-                      strokeWidth={2}
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        d="M5 13l4 4L19 7"
-                      />
-                    </svg>
-                    <span>
-                      <span className="font-medium text-gray-900">SSL Certificate</span>
-                      <span className="block text-gray-500">Free HTTPS encryption included</span>
-                    </span>
-                  </li>
-                </ul>
+                {plan && plan.features.length > 0 ? (
+                  <ul className="mt-3 space-y-3 text-sm text-gray-600">
+                    {plan.features.map((feature) => (
+                      <li key={feature} className="flex items-start gap-2">
+                        <svg
+                          className="mt-0.5 h-4 w-4 flex-shrink-0 text-blue-600"
+                          fill="none"
+                          viewBox="0 0 24 24"
+                          stroke="currentColor"
+                          strokeWidth={2}
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            d="M5 13l4 4L19 7"
+                          />
+                        </svg>
+                        <span className="font-medium text-gray-900">{feature}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <ul className="mt-3 space-y-3 text-sm text-gray-600">
+                    <li className="flex items-start gap-2">
+                      <svg
+                        className="mt-0.5 h-4 w-4 flex-shrink-0 text-blue-600"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                        strokeWidth={2}
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          d="M5 13l4 4L19 7"
+                        />
+                      </svg>
+                      <span>
+                        <span className="font-medium text-gray-900">Website Hosting</span>
+                        <span className="block text-gray-500">Fast, secure, and reliable hosting</span>
+                      </span>
+                    </li>
+                    <li className="flex items-start gap-2">
+                      <svg
+                        className="mt-0.5 h-4 w-4 flex-shrink-0 text-blue-600"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                        strokeWidth={2}
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          d="M5 13l4 4L19 7"
+                        />
+                      </svg>
+                      <span>
+                        <span className="font-medium text-gray-900">Regular Updates</span>
+                        <span className="block text-gray-500">Security patches and software updates</span>
+                      </span>
+                    </li>
+                    <li className="flex items-start gap-2">
+                      <svg
+                        className="mt-0.5 h-4 w-4 flex-shrink-0 text-blue-600"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                        strokeWidth={2}
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          d="M5 13l4 4L19 7"
+                        />
+                      </svg>
+                      <span>
+                        <span className="font-medium text-gray-900">Priority Support</span>
+                        <span className="block text-gray-500">Email support with fast response times</span>
+                      </span>
+                    </li>
+                    <li className="flex items-start gap-2">
+                      <svg
+                        className="mt-0.5 h-4 w-4 flex-shrink-0 text-blue-600"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                        strokeWidth={2}
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          d="M5 13l4 4L19 7"
+                        />
+                      </svg>
+                      <span>
+                        <span className="font-medium text-gray-900">SSL Certificate</span>
+                        <span className="block text-gray-500">Free HTTPS encryption included</span>
+                      </span>
+                    </li>
+                  </ul>
+                )}
               </div>
             </div>
           </div>
@@ -257,7 +317,7 @@ export default async function SubscriptionPaymentPage({ params }: PageProps) {
               </div>
 
               {/* Payment Client Component */}
-              <SubscriptionPaymentClient token={token} />
+              <SubscriptionPaymentClient token={token} amount={amount} />
 
               {/* Security Badges */}
               <div className="mt-6 flex flex-col items-center gap-4 border-t border-gray-200 pt-6">
@@ -0,0 +1,100 @@
+/**
+ * Review Portal Client Component
+ *
+ * Feedback form for customers reviewing a preview, posting to the
+ * /api/review/[token] endpoint and confirming each message sent.
+ */
+
+'use client';
+
+import { useState } from 'react';
+
+interface ReviewPortalClientProps {
+  token: string;
+  customerName: string;
+}
+
+export default function ReviewPortalClient({ token, customerName }: ReviewPortalClientProps) {
+  const [name, setName] = useState(customerName);
+  const [feedback, setFeedback] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentCount, setSentCount] = useState(0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/review/${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, feedback }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to send feedback');
+      }
+
+      setFeedback('');
+      setSentCount((count) => count + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-6 space-y-4">
+      {sentCount > 0 && (
+        <div className="rounded-lg bg-green-50 p-4 text-sm text-green-700">
+          <p className="font-medium">Thank you, we have your feedback</p>
+          <p className="mt-1">You can send more at any time using the same link.</p>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div>
+        <label htmlFor="reviewName" className="block text-sm font-medium text-gray-700">
+          Your name
+        </label>
+        <input
+          id="reviewName"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={100}
+          className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="reviewFeedback" className="block text-sm font-medium text-gray-700">
+          Your feedback
+        </label>
+        <textarea
+          id="reviewFeedback"
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          rows={5}
+          maxLength={5000}
+          required
+          placeholder="What do you like? What would you like us to change?"
+          className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSending || !feedback.trim()}
+        className="w-full rounded-lg bg-blue-600 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-gray-400"
+      >
+        {isSending ? 'Sending...' : 'Send Feedback'}
+      </button>
+    </form>
+  );
+}
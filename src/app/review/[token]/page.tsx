@@ -0,0 +1,204 @@
+/**
+ * Preview Review Page
+ *
+ * Public customer-facing page where customers look at a preview of their
+ * new website and send us feedback on it. Validates the review link token
+ * first.
+ *
+ * Route: /review/[token]
+ */
+
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { prisma } from '@/lib/db';
+import {
+  getPreviewReviewLinkByToken,
+  isPreviewReviewLinkUsable,
+} from '@/lib/admin/previewReviewLinkQueries';
+import ReviewPortalClient from './ReviewPortalClient';
+
+export const metadata: Metadata = {
+  title: 'Review Your Website - SiteStart',
+  description: 'Take a look at your new website and send us your feedback.',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+async function getReviewLinkWithSubmission(token: string) {
+  try {
+    const link = await getPreviewReviewLinkByToken(token);
+    if (!link) {
+      return null;
+    }
+
+    const submission = await prisma.intakeSubmission.findUnique({
+      where: { id: link.customerId },
+      select: {
+        id: true,
+        fullName: true,
+        businessName: true,
+      },
+    });
+
+    return submission ? { link, submission } : null;
+  } catch (error) {
+    console.error('Error fetching review link by token:', error);
+    return null;
+  }
+}
+
+export default async function PreviewReviewPage({ params }: PageProps) {
+  const { token } = await params;
+
+  // Validate token exists
+  if (!token || token.length < 10) {
+    return <ReviewLinkUnavailablePage expired={false} />;
+  }
+
+  const result = await getReviewLinkWithSubmission(token);
+
+  // Token not found, expired or replaced
+  if (!result) {
+    return <ReviewLinkUnavailablePage expired={false} />;
+  }
+  if (!isPreviewReviewLinkUsable(result.link)) {
+    return <ReviewLinkUnavailablePage expired />;
+  }
+
+  const { link, submission } = result;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="border-b border-gray-200 bg-white">
+        <div className="mx-auto max-w-5xl px-4 py-4">
+          <div className="flex items-center gap-2">
+            <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-blue-600">
+              <svg
+                className="h-4 w-4 text-white"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth={2}
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  d="M13 10V3L4 14h7v7l9-11h-7z"
+                />
+              </svg>
+            </div>
+            <span className="text-lg font-bold text-gray-900">SiteStart</span>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="mx-auto max-w-5xl px-4 py-8 sm:py-12">
+        <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 className="text-xl font-semibold text-gray-900">Review Your Website</h1>
+              <p className="mt-2 text-sm text-gray-600">
+                Here is a preview of the {submission.businessName} website. Have a look around,
+                then tell us below what you like and what you&apos;d like changed.
+              </p>
+            </div>
+            <a
+              href={link.previewUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+            >
+              Open in new tab
+            </a>
+          </div>
+
+          <iframe
+            src={link.previewUrl}
+            title={`${submission.businessName} website preview`}
+            className="mt-6 h-[36rem] w-full rounded-lg border border-gray-200"
+          />
+
+          <ReviewPortalClient token={token} customerName={submission.fullName} />
+        </div>
+
+        {/* Need Help */}
+        <div className="mt-4 text-center">
+          <p className="text-sm text-gray-500">
+            Have questions?{' '}
+            <a href="mailto:support@sitestart.com" className="text-blue-600 hover:underline">
+              Contact support
+            </a>
+          </p>
+        </div>
+      </main>
+
+      {/* Footer */}
+      <footer className="border-t border-gray-200 bg-white">
+        <div className="mx-auto max-w-5xl px-4 py-6">
+          <p className="text-center text-sm text-gray-500">
+            &copy; {new Date().getFullYear()} SiteStart. All rights reserved.
+          </p>
+        </div>
+      </footer>
+    </div>
+  );
+}
+
+/**
+ * Review Link Unavailable Page Component
+ */
+function ReviewLinkUnavailablePage({ expired }: { expired: boolean }) {
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-gray-50 px-4">
+      <div className="w-full max-w-md text-center">
+        <div className="mx-auto flex h-16 w-16 items-center justify-center rounded-full bg-amber-100">
+          <svg
+            className="h-8 w-8 text-amber-600"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+            strokeWidth={2}
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+            />
+          </svg>
+        </div>
+
+        <h1 className="mt-6 text-2xl font-bold text-gray-900">
+          {expired ? 'Review Link Expired' : 'Invalid Review Link'}
+        </h1>
+        <p className="mt-3 text-gray-600">
+          {expired
+            ? 'This review link has expired or been replaced by a newer one. Please use the most recent link we sent you, or contact us for a new one.'
+            : 'This review link is invalid. Please contact us if you believe this is an error.'}
+        </p>
+
+        <div className="mt-8 space-y-3">
+          <a
+            href="mailto:support@sitestart.com"
+            className="flex w-full items-center justify-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Contact Support
+          </a>
+          <Link
+            href="/"
+            className="block text-sm text-gray-500 hover:text-gray-700"
+          >
+            Return to Homepage
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * Upload Portal Client Component
+ *
+ * Wraps the file uploader for customers, posting to the /api/upload/[token]
+ * endpoint and confirming each finished upload.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import FileUploader from '@/components/admin/files/FileUploader';
+import type { FileCategory } from '@/types/admin';
+
+interface UploadPortalClientProps {
+  token: string;
+  customerId: number;
+  maxFileSize: number;
+  categories: FileCategory[];
+}
+
+export default function UploadPortalClient({
+  token,
+  customerId,
+  maxFileSize,
+  categories,
+}: UploadPortalClientProps) {
+  const [completedUploads, setCompletedUploads] = useState(0);
+
+  return (
+    <div className="mt-6 space-y-4">
+      {completedUploads > 0 && (
+        <div className="rounded-lg bg-green-50 p-4 text-sm text-green-700">
+          <p className="font-medium">Thank you, we have your files</p>
+          <p className="mt-1">You can upload more at any time using the same link.</p>
+        </div>
+      )}
+
+      <FileUploader
+        customerId={customerId}
+        uploadUrl={`/api/upload/${token}`}
+        categories={categories}
+        maxFileSize={maxFileSize}
+        onUploadComplete={() => setCompletedUploads((count) => count + 1)}
+      />
+    </div>
+  );
+}
@@ -1,6 +1,12 @@
 'use client';
 
 import { useState, FormEvent, ChangeEvent } from 'react';
+import {
+  BUDGET_RANGE_OPTIONS,
+  FEATURE_OPTIONS,
+  INDUSTRY_TYPE_OPTIONS,
+  TIMELINE_OPTIONS,
+} from '@/lib/intakeOptions';
 
 interface IntakeFormData {
   fullName: string;
@@ -29,43 +35,11 @@ interface FormErrors {
 
 type FormStatus = 'idle' | 'loading' | 'success' | 'error';
 
-const INDUSTRY_OPTIONS = [
-  { value: '', label: 'Select your industry' },
-  { value: 'retail', label: 'Retail' },
-  { value: 'restaurant', label: 'Restaurant / Food Service' },
-  { value: 'professional', label: 'Professional Services' },
-  { value: 'health', label: 'Health & Wellness' },
-  { value: 'home-services', label: 'Home Services' },
-  { value: 'other', label: 'Other' },
-];
-
-const FEATURE_OPTIONS = [
-  { value: 'ecommerce', label: 'Online store / E-commerce' },
-  { value: 'booking', label: 'Appointment booking' },
-  { value: 'contact', label: 'Contact form' },
-  { value: 'gallery', label: 'Photo gallery' },
-  { value: 'blog', label: 'Blog' },
-  { value: 'menu', label: 'Menu / Services list' },
-  { value: 'reviews', label: 'Customer reviews' },
-  { value: 'other', label: 'Other' },
-];
-
-const BUDGET_OPTIONS = [
-  { value: '', label: 'Select your budget' },
-  { value: 'under-500', label: 'Under $500' },
-  { value: '500-1000', label: '$500 - $1,000' },
-  { value: '1000-2500', label: '$1,000 - $2,500' },
-  { value: '2500-plus', label: '$2,500+' },
-  { value: 'not-sure', label: 'Not sure yet' },
-];
-
-const TIMELINE_OPTIONS = [
-  { value: '', label: 'Select your timeline' },
-  { value: 'asap', label: 'ASAP (within 2 weeks)' },
-  { value: '1-2-months', label: '1-2 months' },
-  { value: '3-plus-months', label: '3+ months' },
-  { value: 'exploring', label: 'Just exploring' },
-];
+const INDUSTRY_SELECT_OPTIONS = [{ value: '', label: 'Select your industry' }, ...INDUSTRY_TYPE_OPTIONS];
+
+const BUDGET_SELECT_OPTIONS = [{ value: '', label: 'Select your budget' }, ...BUDGET_RANGE_OPTIONS];
+
+const TIMELINE_SELECT_OPTIONS = [{ value: '', label: 'Select your timeline' }, ...TIMELINE_OPTIONS];
 
 const initialFormData: IntakeFormData = {
   fullName: '',
@@ -492,7 +466,7 @@ export default function IntakeForm() {
               aria-invalid={showError('industryType') ? 'true' : 'false'}
               aria-describedby={showError('industryType') ? 'industryType-error' : undefined}
             >
-              {INDUSTRY_OPTIONS.map((option) => (
+              {INDUSTRY_SELECT_OPTIONS.map((option) => (
                 <option key={option.value} value={option.value}>
                   {option.label}
                 </option>
@@ -631,7 +605,7 @@ export default function IntakeForm() {
               aria-invalid={showError('budgetRange') ? 'true' : 'false'}
               aria-describedby={showError('budgetRange') ? 'budgetRange-error' : undefined}
             >
-              {BUDGET_OPTIONS.map((option) => (
+              {BUDGET_SELECT_OPTIONS.map((option) => (
                 <option key={option.value} value={option.value}>
                   {option.label}
                 </option>
@@ -667,7 +641,7 @@ export default function IntakeForm() {
               aria-invalid={showError('timeline') ? 'true' : 'false'}
               aria-describedby={showError('timeline') ? 'timeline-error' : undefined}
             >
-              {TIMELINE_OPTIONS.map((option) => (
+              {TIMELINE_SELECT_OPTIONS.map((option) => (
                 <option key={option.value} value={option.value}>
                   {option.label}
                 </option>
@@ -2,19 +2,32 @@
  * BillingList Component
  *
  * Client component that displays a list of all submissions with their billing status.
- * Includes search, filtering by billing status, and pagination.
+ * Includes search, filtering, sorting, saved views, CSV export, and pagination.
  * Shows billing-specific information like subscription status, invoice dates, and payment links.
  */
 
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import DataTable, { Column } from '../shared/DataTable';
+import DataTable, { Column, ColumnHeader } from '../shared/DataTable';
 import SearchFilter from '../shared/SearchFilter';
 import Pagination from '../shared/Pagination';
+import AdvancedFilters from '../shared/AdvancedFilters';
+import SavedViews from '../shared/SavedViews';
+import ExportCsvLink from '../shared/ExportCsvLink';
 import BillingStatusBadge from './BillingStatusBadge';
-import PaymentLinkGenerator from './PaymentLinkGenerator';
-import type { BillingStatus, PaginatedResponse, StripeSubscriptionStatus } from '@/types/admin';
+import PaymentLinkHistory from './PaymentLinkHistory';
+import PaymentHistory from './PaymentHistory';
+import BillingPortalLinkSender from './BillingPortalLinkSender';
+import RevenueDisplay from '../customers/RevenueDisplay';
+import { DEFAULT_SORT, toggleSort, sortToParams, sortFromParams } from '@/lib/admin/listFilters';
+import type {
+  BillingStatus,
+  PaginatedResponse,
+  StripeSubscriptionStatus,
+  SubmissionSort,
+  SubmissionSortField,
+} from '@/types/admin';
 import type { Submission } from '@/lib/admin/queries';
 
 interface BillingListProps {
@@ -37,8 +50,14 @@ function getSubscriptionStatusStyle(status: StripeSubscriptionStatus | null): {
   switch (status) {
     case 'active':
       return { label: 'Active', className: 'bg-green-100 text-green-700' };
+    case 'trialing':
+      return { label: 'Trialing', className: 'bg-blue-100 text-blue-700' };
     case 'past_due':
       return { label: 'Past Due', className: 'bg-amber-100 text-amber-700' };
+    case 'paused':
+      return { label: 'Paused', className: 'bg-purple-100 text-purple-700' };
+    case 'incomplete':
+      return { label: 'Incomplete', className: 'bg-orange-100 text-orange-700' };
     case 'canceled':
       return { label: 'Canceled', className: 'bg-gray-100 text-gray-600' };
     case 'unpaid':
@@ -56,6 +75,16 @@ export default function BillingList({ initialData }: BillingListProps) {
   const [currentPage, setCurrentPage] = useState(1);
   const [billingStatusFilter, setBillingStatusFilter] = useState<BillingStatus | ''>('');
   const [expandedRow, setExpandedRow] = useState<number | null>(null);
+  const [advancedFilters, setAdvancedFilters] = useState<Record<string, string>>({});
+  const [sort, setSort] = useState<SubmissionSort>(DEFAULT_SORT);
+
+  // Everything on screen as list query parameters, for saved views
+  const viewFilters: Record<string, string> = {
+    ...advancedFilters,
+    ...(search && { search }),
+    ...(billingStatusFilter && { billingStatus: billingStatusFilter }),
+    ...sortToParams(sort),
+  };
 
   // Fetch billing data from API
   const fetchBillingData = useCallback(async () => {
@@ -75,6 +104,10 @@ export default function BillingList({ initialData }: BillingListProps) {
         params.set('search', search);
       }
 
+      Object.entries({ ...advancedFilters, ...sortToParams(sort) }).forEach(([key, value]) => {
+        params.set(key, value);
+      });
+
       const response = await fetch(`/api/admin/submissions?${params.toString()}`);
       const result = await response.json();
 
@@ -88,7 +121,7 @@ export default function BillingList({ initialData }: BillingListProps) {
     } finally {
       setIsLoading(false);
     }
-  }, [currentPage, search, billingStatusFilter]);
+  }, [currentPage, search, billingStatusFilter, advancedFilters, sort]);
 
   // Fetch data on mount and when filters change
   useEffect(() => {
@@ -113,6 +146,27 @@ export default function BillingList({ initialData }: BillingListProps) {
     setCurrentPage(1);
   };
 
+  // Handle advanced filter change
+  const handleAdvancedFiltersChange = (values: Record<string, string>) => {
+    setAdvancedFilters(values);
+    setCurrentPage(1);
+  };
+
+  // Handle column header click
+  const handleSortChange = (sortKey: string) => {
+    setSort(toggleSort(sort, sortKey as SubmissionSortField));
+    setCurrentPage(1);
+  };
+
+  // Apply a saved view's filters and sort
+  const handleApplyView = ({ search: viewSearch, billingStatus, sortBy, sortOrder, ...rest }: Record<string, string>) => {
+    setSearch(viewSearch || '');
+    setBillingStatusFilter((billingStatus as BillingStatus) || '');
+    setSort(sortFromParams({ sortBy, sortOrder }));
+    setAdvancedFilters(rest);
+    setCurrentPage(1);
+  };
+
   // Toggle expanded row for payment link generator
   const toggleExpandedRow = (id: number) => {
     setExpandedRow(expandedRow === id ? null : id);
@@ -123,6 +177,7 @@ export default function BillingList({ initialData }: BillingListProps) {
     {
       key: 'client',
       header: 'Client',
+      sortKey: 'fullName',
       render: (item) => (
         <div>
           <p className="font-medium text-gray-900">{item.fullName}</p>
@@ -133,6 +188,7 @@ export default function BillingList({ initialData }: BillingListProps) {
     {
       key: 'billingStatus',
       header: 'Billing Status',
+      sortKey: 'billingStatus',
       render: (item) => (
         <BillingStatusBadge status={item.billingStatus as BillingStatus} size="sm" />
       ),
@@ -149,9 +205,17 @@ export default function BillingList({ initialData }: BillingListProps) {
         );
       },
     },
+    {
+      key: 'totalRevenue',
+      header: 'Revenue',
+      render: (item) => (
+        <RevenueDisplay amount={item.totalRevenue ?? null} size="sm" />
+      ),
+    },
     {
       key: 'lastInvoiceDate',
       header: 'Last Invoice',
+      sortKey: 'lastInvoiceDate',
       render: (item) => (
         <div>
           <p className="text-gray-700">{formatDate(item.lastInvoiceDate)}</p>
@@ -166,6 +230,7 @@ export default function BillingList({ initialData }: BillingListProps) {
     {
       key: 'periodEnd',
       header: 'Period End',
+      sortKey: 'subscriptionCurrentPeriodEnd',
       render: (item) => (
         <span className="text-gray-700">
           {formatDate(item.subscriptionCurrentPeriodEnd)}
@@ -191,7 +256,7 @@ export default function BillingList({ initialData }: BillingListProps) {
           <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
             <path strokeLinecap="round" strokeLinejoin="round" d="M13.19 8.688a4.5 4.5 0 011.242 7.244l-4.5 4.5a4.5 4.5 0 01-6.364-6.364l1.757-1.757m13.35-.622l1.757-1.757a4.5 4.5 0 00-6.364-6.364l-4.5 4.5a4.5 4.5 0 001.242 7.244" />
           </svg>
-          {expandedRow === item.id ? 'Hide Links' : 'Payment Links'}
+          {expandedRow === item.id ? 'Hide Details' : 'Links & Refunds'}
         </button>
       ),
     },
@@ -204,12 +269,23 @@ export default function BillingList({ initialData }: BillingListProps) {
     return (
       <tr key={`${item.id}-expanded`} className="bg-gray-50">
         <td colSpan={columns.length} className="px-6 py-4">
-          <PaymentLinkGenerator
-            submissionId={item.id}
-            hasSetupFeeToken={!!item.setupFeeToken}
-            hasSubscriptionToken={!!item.subscriptionToken}
-            onLinkGenerated={fetchBillingData}
-          />
+          <div className="grid gap-4 lg:grid-cols-2">
+            <div className="rounded-lg border border-gray-200 bg-white p-4">
+              <h4 className="mb-2 text-sm font-semibold text-gray-900">Payment Links</h4>
+              <PaymentLinkHistory customerId={item.id} showGenerator />
+            </div>
+            <div className="rounded-lg border border-gray-200 bg-white p-4">
+              <h4 className="mb-2 text-sm font-semibold text-gray-900">Payments &amp; Refunds</h4>
+              <PaymentHistory customerId={item.id} onPaymentsChanged={fetchBillingData} />
+            </div>
+            <div className="rounded-lg border border-gray-200 bg-white p-4 lg:col-span-2">
+              <h4 className="mb-2 text-sm font-semibold text-gray-900">Billing Portal</h4>
+              <BillingPortalLinkSender
+                customerId={item.id}
+                hasStripeCustomer={item.stripeCustomerId !== null}
+              />
+            </div>
+          </div>
         </td>
       </tr>
     );
@@ -269,7 +345,14 @@ export default function BillingList({ initialData }: BillingListProps) {
             <option value="PAID">Paid</option>
             <option value="OVERDUE">Overdue</option>
             <option value="CANCELLED">Cancelled</option>
+            <option value="REFUNDED">Refunded</option>
           </select>
+
+          <AdvancedFilters
+            values={advancedFilters}
+            onChange={handleAdvancedFiltersChange}
+            fields={['industryType', 'budgetRange', 'deploymentStatus', 'paid']}
+          />
         </div>
 
         {/* Results count */}
@@ -280,6 +363,11 @@ export default function BillingList({ initialData }: BillingListProps) {
         )}
       </div>
 
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <SavedViews list="BILLING" currentFilters={viewFilters} onApply={handleApplyView} />
+        <ExportCsvLink list="BILLING" params={viewFilters} />
+      </div>
+
       {/* Error message */}
       {error && (
         <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
@@ -300,13 +388,13 @@ export default function BillingList({ initialData }: BillingListProps) {
             <thead className="bg-gray-50">
               <tr>
                 {columns.map((column) => (
-                  <th
+                  <ColumnHeader
                     key={column.key}
-                    scope="col"
-                    className={`px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 ${column.headerClassName || ''}`}
-                  >
-                    {column.header}
-                  </th>
+                    column={column}
+                    sortBy={sort.sortBy}
+                    sortOrder={sort.sortOrder}
+                    onSortChange={handleSortChange}
+                  />
                 ))}
               </tr>
             </thead>
@@ -0,0 +1,95 @@
+/**
+ * BillingPortalLinkSender Component
+ *
+ * Lets billing admins email a customer a link to the Stripe billing portal,
+ * or copy it to send another way. Each new link replaces the previous one.
+ * Calls POST /api/admin/customers/[id]/billing-portal-link.
+ */
+
+'use client';
+
+import { useState } from 'react';
+
+interface BillingPortalLinkSenderProps {
+  customerId: number;
+  // The portal needs a Stripe customer, created on the first checkout
+  hasStripeCustomer: boolean;
+}
+
+type SendMode = 'email' | 'copy';
+
+export default function BillingPortalLinkSender({
+  customerId,
+  hasStripeCustomer,
+}: BillingPortalLinkSenderProps) {
+  const [isLoading, setIsLoading] = useState<SendMode | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const issueLink = async (mode: SendMode) => {
+    setIsLoading(mode);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/admin/customers/${customerId}/billing-portal-link`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sendEmail: mode === 'email' }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to generate billing portal link');
+      }
+
+      if (mode === 'email') {
+        if (!result.emailSent) {
+          throw new Error('The link was created but the email could not be sent');
+        }
+        setMessage('Billing portal link emailed to the customer');
+      } else {
+        await navigator.clipboard.writeText(result.url);
+        setMessage('Billing portal link copied to clipboard');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(null);
+    }
+  };
+
+  if (!hasStripeCustomer) {
+    return (
+      <p className="text-sm text-gray-500">
+        Available once the customer has paid through Stripe.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Customers can update their card, download invoices and cancel from the Stripe billing portal.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => issueLink('email')}
+          disabled={isLoading !== null}
+          className="rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isLoading === 'email' ? 'Sending...' : 'Email Portal Link'}
+        </button>
+        <button
+          onClick={() => issueLink('copy')}
+          disabled={isLoading !== null}
+          className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isLoading === 'copy' ? 'Generating...' : 'Copy Portal Link'}
+        </button>
+      </div>
+      {message && <p className="text-sm text-green-700">{message}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@
  * - PAID: Green (subscription active)
  * - OVERDUE: Red (7+ days without payment)
  * - CANCELLED: Gray (subscription cancelled)
+ * - REFUNDED: Amber (setup fee refunded in full)
  */
 
 import type { BillingStatus } from '@/types/admin';
@@ -33,6 +34,10 @@ const statusConfig: Record<BillingStatus, { label: string; className: string }>
     label: 'Cancelled',
     className: 'bg-gray-100 text-gray-600',
   },
+  REFUNDED: {
+    label: 'Refunded',
+    className: 'bg-amber-100 text-amber-700',
+  },
 };
 
 export default function BillingStatusBadge({ status, size = 'md' }: BillingStatusBadgeProps) {
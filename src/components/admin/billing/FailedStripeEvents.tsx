@@ -0,0 +1,183 @@
+/**
+ * FailedStripeEvents Component
+ *
+ * Client component that lists Stripe webhook events whose handler failed.
+ * Each row shows the stored error and offers a "Replay" button that re-runs
+ * the handler from the saved event payload.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import DataTable, { Column } from '../shared/DataTable';
+import Pagination from '../shared/Pagination';
+import type { PaginatedResponse, StripeEventRecord } from '@/types/admin';
+
+const ITEMS_PER_PAGE = 20;
+
+// Format date with time
+function formatDateTime(date: Date | string | null): string {
+  if (!date) return '-';
+  const d = new Date(date);
+  return d.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+}
+
+export default function FailedStripeEvents() {
+  const [data, setData] = useState<PaginatedResponse<StripeEventRecord> | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const [replayMessage, setReplayMessage] = useState<string | null>(null);
+
+  // Fetch failed events from API
+  const fetchEvents = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({
+        status: 'FAILED',
+        page: currentPage.toString(),
+        limit: ITEMS_PER_PAGE.toString(),
+      });
+
+      const response = await fetch(`/api/admin/stripe-events?${params}`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch Stripe events');
+      }
+
+      setData(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentPage]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  // Re-run the handler for a single event
+  const handleReplay = async (eventId: string) => {
+    setReplayingId(eventId);
+    setReplayMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/stripe-events/${eventId}/replay`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to replay event');
+      }
+
+      setReplayMessage(`Event ${eventId} was processed successfully.`);
+      await fetchEvents();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      await fetchEvents();
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  const columns: Column<StripeEventRecord>[] = [
+    {
+      key: 'event',
+      header: 'Event',
+      render: (item) => (
+        <div>
+          <p className="font-medium text-gray-900">{item.type}</p>
+          <p className="font-mono text-xs text-gray-500">{item.id}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'error',
+      header: 'Error',
+      render: (item) => (
+        <span className="text-sm text-red-700">{item.error || 'Unknown error'}</span>
+      ),
+    },
+    {
+      key: 'attempts',
+      header: 'Attempts',
+      headerClassName: 'w-24',
+      render: (item) => <span className="text-gray-700">{item.attempts}</span>,
+    },
+    {
+      key: 'updatedAt',
+      header: 'Last Attempt',
+      render: (item) => <span className="text-gray-700">{formatDateTime(item.updatedAt)}</span>,
+    },
+    {
+      key: 'actions',
+      header: '',
+      headerClassName: 'w-28',
+      render: (item) => (
+        <button
+          onClick={() => handleReplay(item.id)}
+          disabled={replayingId !== null}
+          className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {replayingId === item.id ? 'Replaying...' : 'Replay'}
+        </button>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Error message */}
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+          <button
+            onClick={fetchEvents}
+            className="ml-2 font-medium underline hover:no-underline"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      {/* Replay success message */}
+      {replayMessage && (
+        <div className="rounded-lg border border-green-200 bg-green-50 p-4 text-sm text-green-700">
+          {replayMessage}
+        </div>
+      )}
+
+      <DataTable
+        columns={columns}
+        data={data?.items || []}
+        keyExtractor={(item) => item.id}
+        isLoading={isLoading}
+        emptyMessage="No failed webhook events"
+      />
+
+      {data && data.totalPages > 1 && (
+        <Pagination
+          currentPage={currentPage}
+          totalPages={data.totalPages}
+          totalItems={data.total}
+          itemsPerPage={ITEMS_PER_PAGE}
+          onPageChange={setCurrentPage}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+/**
+ * PaymentHistory Component
+ *
+ * Client component that lists a customer's Payment ledger entries:
+ * setup fees, subscription invoices and refunds. Stripe setup fees can be
+ * refunded in full or in part from here.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, FormEvent } from 'react';
+import RevenueDisplay from '../customers/RevenueDisplay';
+import type { Payment, PaymentType, RefundReason } from '@/types/admin';
+
+interface PaymentHistoryProps {
+  customerId: number;
+  onPaymentsChanged?: () => void;
+}
+
+// Labels and badge styles for each payment type
+const PAYMENT_TYPE_STYLES: Record<PaymentType, { label: string; className: string }> = {
+  SETUP_FEE: { label: 'Setup Fee', className: 'bg-blue-100 text-blue-700' },
+  SUBSCRIPTION: { label: 'Subscription', className: 'bg-purple-100 text-purple-700' },
+  REFUND: { label: 'Refund', className: 'bg-red-100 text-red-700' },
+};
+
+const REFUND_REASONS: { value: RefundReason; label: string }[] = [
+  { value: 'requested_by_customer', label: 'Requested by customer' },
+  { value: 'duplicate', label: 'Duplicate payment' },
+  { value: 'fraudulent', label: 'Fraudulent' },
+];
+
+// Format date for display
+function formatDate(date: Date | string): string {
+  const d = new Date(date);
+  return d.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+// Amount (in cents) of a setup fee that has not been refunded yet
+function getRefundableCents(payment: Payment, payments: Payment[]): number {
+  if (payment.type !== 'SETUP_FEE' || !payment.stripePaymentIntentId) {
+    return 0;
+  }
+  const refunded = payments
+    .filter((p) => p.type === 'REFUND' && p.stripePaymentIntentId === payment.stripePaymentIntentId)
+    .reduce((total, p) => total + p.amountCents, 0);
+  return Math.max(0, payment.amountCents - refunded);
+}
+
+export default function PaymentHistory({ customerId, onPaymentsChanged }: PaymentHistoryProps) {
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Refund form state
+  const [refundingId, setRefundingId] = useState<number | null>(null);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [refundReason, setRefundReason] = useState<RefundReason>('requested_by_customer');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [refundError, setRefundError] = useState<string | null>(null);
+
+  // Fetch payments from API
+  const fetchPayments = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/customers/${customerId}/payments`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch payments');
+      }
+
+      setPayments(result.data.payments);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    fetchPayments();
+  }, [fetchPayments]);
+
+  // Open the refund form prefilled with the remaining balance
+  const openRefundForm = (payment: Payment) => {
+    setRefundingId(payment.id);
+    setRefundAmount((getRefundableCents(payment, payments) / 100).toFixed(2));
+    setRefundReason('requested_by_customer');
+    setRefundError(null);
+  };
+
+  // Submit a refund
+  const handleRefund = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (refundingId === null) return;
+
+    setIsSubmitting(true);
+    setRefundError(null);
+
+    try {
+      const response = await fetch(
+        `/api/admin/customers/${customerId}/payments/${refundingId}/refund`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ amount: parseFloat(refundAmount), reason: refundReason }),
+        }
+      );
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to refund payment');
+      }
+
+      setRefundingId(null);
+      await fetchPayments();
+      onPaymentsChanged?.();
+    } catch (err) {
+      setRefundError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading && payments.length === 0) {
+    return (
+      <div className="animate-pulse space-y-3">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="h-8 rounded bg-gray-100"></div>
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (payments.length === 0) {
+    return <p className="text-sm text-gray-500">No payments recorded yet.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {payments.map((payment) => {
+        const style = PAYMENT_TYPE_STYLES[payment.type];
+        const amount = payment.amountCents / 100;
+        const refundableCents = getRefundableCents(payment, payments);
+
+        return (
+          <li key={payment.id} className="py-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${style.className}`}>
+                  {style.label}
+                </span>
+                <p className="mt-1 truncate text-xs text-gray-500">
+                  {formatDate(payment.paidAt)}
+                  {payment.description && ` · ${payment.description}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <RevenueDisplay
+                  amount={payment.type === 'REFUND' ? -amount : amount}
+                  currency={payment.currency}
+                  size="sm"
+                />
+                {refundableCents > 0 && refundingId !== payment.id && (
+                  <button
+                    onClick={() => openRefundForm(payment)}
+                    className="rounded-lg border border-gray-300 px-2 py-1 text-xs font-medium text-gray-700 transition-colors hover:bg-gray-50"
+                  >
+                    Refund
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Inline refund form */}
+            {refundingId === payment.id && (
+              <form onSubmit={handleRefund} className="mt-3 rounded-lg bg-gray-50 p-3">
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div>
+                    <label htmlFor={`refund-amount-${payment.id}`} className="block text-xs font-medium text-gray-700">
+                      Amount (max ${(refundableCents / 100).toFixed(2)})
+                    </label>
+                    <input
+                      id={`refund-amount-${payment.id}`}
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      max={(refundableCents / 100).toFixed(2)}
+                      value={refundAmount}
+                      onChange={(e) => setRefundAmount(e.target.value)}
+                      required
+                      className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor={`refund-reason-${payment.id}`} className="block text-xs font-medium text-gray-700">
+                      Reason
+                    </label>
+                    <select
+                      id={`refund-reason-${payment.id}`}
+                      value={refundReason}
+                      onChange={(e) => setRefundReason(e.target.value as RefundReason)}
+                      className="mt-1 block w-full rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                      {REFUND_REASONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                {refundError && <p className="mt-2 text-xs text-red-600">{refundError}</p>}
+
+                <div className="mt-3 flex gap-2">
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="rounded-lg bg-red-600 px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {isSubmitting ? 'Refunding...' : 'Issue Refund'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRefundingId(null)}
+                    disabled={isSubmitting}
+                    className="rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-xs font-medium text-gray-700 transition-colors hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -2,19 +2,24 @@
  * PaymentLinkGenerator Component
  *
  * Provides buttons to generate and copy payment/subscription links.
- * Calls the existing APIs:
+ * Each link is single use and expires; generating a new link revokes the
+ * previous active link of the same type. The admin can pick which pricing
+ * plan to charge; by default the API picks the plan that best matches the
+ * customer's intake answers. Calls the existing APIs:
  * - POST /api/admin/submissions/[id]/generate-payment-link (setup fee)
  * - POST /api/admin/submissions/[id]/generate-subscription-link (subscription)
  */
 
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { formatPlanAmount } from '@/lib/pricing';
+import type { PricingPlan } from '@/types/admin';
 
 interface PaymentLinkGeneratorProps {
   submissionId: number;
-  hasSetupFeeToken?: boolean;
-  hasSubscriptionToken?: boolean;
+  hasActiveSetupFeeLink?: boolean;
+  hasActiveSubscriptionLink?: boolean;
   onLinkGenerated?: () => void;
 }
 
@@ -22,16 +27,38 @@ type LinkType = 'payment' | 'subscription';
 
 export default function PaymentLinkGenerator({
   submissionId,
-  hasSetupFeeToken = false,
-  hasSubscriptionToken = false,
+  hasActiveSetupFeeLink = false,
+  hasActiveSubscriptionLink = false,
   onLinkGenerated,
 }: PaymentLinkGeneratorProps) {
   const [generatedLink, setGeneratedLink] = useState<string | null>(null);
   const [linkType, setLinkType] = useState<LinkType | null>(null);
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
+  const [planName, setPlanName] = useState<string | null>(null);
+  const [plans, setPlans] = useState<PricingPlan[]>([]);
+  const [selectedPlanId, setSelectedPlanId] = useState<string>('');
   const [isLoading, setIsLoading] = useState<LinkType | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
 
+  // Load active plans for the plan picker; links fall back to the
+  // automatic plan choice if they can't be loaded
+  useEffect(() => {
+    const fetchPlans = async () => {
+      try {
+        const response = await fetch('/api/admin/pricing-plans');
+        const result = await response.json();
+        if (result.success) {
+          setPlans(result.data);
+        }
+      } catch {
+        // Leave the picker on the automatic choice
+      }
+    };
+
+    fetchPlans();
+  }, []);
+
   const generateLink = async (type: LinkType) => {
     setIsLoading(type);
     setError(null);
@@ -48,6 +75,9 @@ export default function PaymentLinkGenerator({
         headers: {
           'Content-Type': 'application/json',
         },
+        body: JSON.stringify({
+          planId: selectedPlanId ? parseInt(selectedPlanId, 10) : null,
+        }),
       });
 
       const result = await response.json();
@@ -58,8 +88,11 @@ export default function PaymentLinkGenerator({
 
       setGeneratedLink(result.url);
       setLinkType(type);
-      // Note: We don't call onLinkGenerated here because it would refresh the parent
-      // and cause this component to lose its state before the user can copy the link
+      setExpiresAt(result.link.expiresAt);
+      setPlanName(result.link.planName);
+      // The parent must refresh without unmounting this component, or the
+      // link is lost before the user can copy it
+      onLinkGenerated?.();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
@@ -82,18 +115,44 @@ export default function PaymentLinkGenerator({
   const closeLink = () => {
     setGeneratedLink(null);
     setLinkType(null);
+    setExpiresAt(null);
+    setPlanName(null);
     setCopied(false);
   };
 
   return (
     <div className="space-y-3">
+      {/* Plan Picker */}
+      {plans.length > 0 && (
+        <div>
+          <label htmlFor={`plan-${submissionId}`} className="block text-xs font-medium text-gray-500">
+            Pricing plan
+          </label>
+          <select
+            id={`plan-${submissionId}`}
+            value={selectedPlanId}
+            onChange={(e) => setSelectedPlanId(e.target.value)}
+            disabled={isLoading !== null}
+            className="mt-1 w-full max-w-xs rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            <option value="">Auto (match budget &amp; industry)</option>
+            {plans.map((plan) => (
+              <option key={plan.id} value={plan.id}>
+                {plan.name} &middot; {formatPlanAmount(plan.setupFeeCents, plan.currency)} +{' '}
+                {formatPlanAmount(plan.monthlyPriceCents, plan.currency)}/mo
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* Generate Link Buttons */}
       <div className="flex flex-wrap gap-2">
         <button
           onClick={() => generateLink('payment')}
           disabled={isLoading !== null}
           className="inline-flex items-center gap-1.5 rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
-          title={hasSetupFeeToken ? 'Regenerate setup fee payment link' : 'Generate setup fee payment link'}
+          title={hasActiveSetupFeeLink ? 'Replace the active setup fee payment link' : 'Generate setup fee payment link'}
         >
           {isLoading === 'payment' ? (
             <svg className="h-4 w-4 animate-spin" fill="none" viewBox="0 0 24 24">
@@ -105,14 +164,14 @@ export default function PaymentLinkGenerator({
               <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 8.25h19.5M2.25 9h19.5m-16.5 5.25h6m-6 2.25h3m-3.75 3h15a2.25 2.25 0 002.25-2.25V6.75A2.25 2.25 0 0019.5 4.5h-15a2.25 2.25 0 00-2.25 2.25v10.5A2.25 2.25 0 004.5 19.5z" />
             </svg>
           )}
-          {hasSetupFeeToken ? 'Regenerate' : 'Generate'} Payment Link
+          {hasActiveSetupFeeLink ? 'Regenerate' : 'Generate'} Payment Link
         </button>
 
         <button
           onClick={() => generateLink('subscription')}
           disabled={isLoading !== null}
           className="inline-flex items-center gap-1.5 rounded-lg bg-green-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-green-700 disabled:cursor-not-allowed disabled:opacity-50"
-          title={hasSubscriptionToken ? 'Regenerate subscription link' : 'Generate subscription link'}
+          title={hasActiveSubscriptionLink ? 'Replace the active subscription link' : 'Generate subscription link'}
         >
           {isLoading === 'subscription' ? (
             <svg className="h-4 w-4 animate-spin" fill="none" viewBox="0 0 24 24">
@@ -124,7 +183,7 @@ export default function PaymentLinkGenerator({
               <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" />
             </svg>
           )}
-          {hasSubscriptionToken ? 'Regenerate' : 'Generate'} Subscription Link
+          {hasActiveSubscriptionLink ? 'Regenerate' : 'Generate'} Subscription Link
         </button>
       </div>
 
@@ -185,6 +244,16 @@ export default function PaymentLinkGenerator({
               )}
             </button>
           </div>
+          {expiresAt && (
+            <p className="mt-2 text-xs text-gray-500">
+              {planName && <>{planName} &middot; </>}
+              Single use &middot; expires {new Date(expiresAt).toLocaleDateString('en-US', {
+                month: 'short',
+                day: 'numeric',
+                year: 'numeric',
+              })}
+            </p>
+          )}
         </div>
       )}
     </div>
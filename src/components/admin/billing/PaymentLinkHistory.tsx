@@ -0,0 +1,206 @@
+/**
+ * PaymentLinkHistory Component
+ *
+ * Client component that lists every setup fee and subscription link issued
+ * to a customer with its status, plan, price snapshot, expiry and issuer. Active
+ * links can be copied or revoked. Optionally shows the PaymentLinkGenerator
+ * above the list so new links appear as soon as they are generated.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import PaymentLinkGenerator from './PaymentLinkGenerator';
+import type { PaymentLink, PaymentLinkStatus, PaymentLinkType } from '@/types/admin';
+
+interface PaymentLinkHistoryProps {
+  customerId: number;
+  showGenerator?: boolean;
+}
+
+type PaymentLinkWithUrl = PaymentLink & { url: string };
+
+const LINK_TYPE_LABELS: Record<PaymentLinkType, string> = {
+  SETUP_FEE: 'Setup Fee',
+  SUBSCRIPTION: 'Subscription',
+};
+
+// Badge styles for each link status
+const LINK_STATUS_STYLES: Record<PaymentLinkStatus, { label: string; className: string }> = {
+  ACTIVE: { label: 'Active', className: 'bg-green-100 text-green-700' },
+  USED: { label: 'Used', className: 'bg-blue-100 text-blue-700' },
+  EXPIRED: { label: 'Expired', className: 'bg-gray-100 text-gray-600' },
+  REVOKED: { label: 'Revoked', className: 'bg-red-100 text-red-700' },
+};
+
+// Format date for display
+function formatDate(date: Date | string): string {
+  const d = new Date(date);
+  return d.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+// Format a link amount, e.g. "$200.00"
+function formatAmount(amountCents: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(amountCents / 100);
+}
+
+export default function PaymentLinkHistory({
+  customerId,
+  showGenerator = false,
+}: PaymentLinkHistoryProps) {
+  const [links, setLinks] = useState<PaymentLinkWithUrl[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<number | null>(null);
+  const [copiedId, setCopiedId] = useState<number | null>(null);
+
+  // Fetch links from API
+  const fetchLinks = useCallback(async () => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/customers/${customerId}/payment-links`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch payment links');
+      }
+
+      setLinks(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [fetchLinks]);
+
+  // Revoke an active link
+  const handleRevoke = async (link: PaymentLinkWithUrl) => {
+    if (!confirm(`Revoke this ${LINK_TYPE_LABELS[link.type].toLowerCase()} link? The customer will no longer be able to use it.`)) {
+      return;
+    }
+
+    setRevokingId(link.id);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/admin/customers/${customerId}/payment-links/${link.id}/revoke`,
+        { method: 'POST' }
+      );
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to revoke payment link');
+      }
+
+      await fetchLinks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  // Copy an active link to the clipboard
+  const handleCopy = async (link: PaymentLinkWithUrl) => {
+    try {
+      await navigator.clipboard.writeText(link.url);
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch {
+      setError('Failed to copy to clipboard');
+    }
+  };
+
+  const hasActiveLink = (type: PaymentLinkType) =>
+    links.some((link) => link.type === type && link.status === 'ACTIVE');
+
+  return (
+    <div className="space-y-4">
+      {showGenerator && (
+        <PaymentLinkGenerator
+          submissionId={customerId}
+          hasActiveSetupFeeLink={hasActiveLink('SETUP_FEE')}
+          hasActiveSubscriptionLink={hasActiveLink('SUBSCRIPTION')}
+          onLinkGenerated={fetchLinks}
+        />
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-3">
+          {[...Array(2)].map((_, i) => (
+            <div key={i} className="h-8 rounded bg-gray-100"></div>
+          ))}
+        </div>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-gray-500">No payment links have been issued yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {links.map((link) => {
+            const status = LINK_STATUS_STYLES[link.status];
+
+            return (
+              <li key={link.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900">
+                      {LINK_TYPE_LABELS[link.type]}
+                    </span>
+                    <span className="text-sm text-gray-600">
+                      {formatAmount(link.amountCents, link.currency)}
+                    </span>
+                    {link.planName && (
+                      <span className="truncate text-sm text-gray-500">{link.planName}</span>
+                    )}
+                    <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${status.className}`}>
+                      {status.label}
+                    </span>
+                  </div>
+                  <p className="mt-1 truncate text-xs text-gray-500">
+                    Issued {formatDate(link.createdAt)} by {link.createdByName}
+                    {link.status === 'USED' && link.usedAt && ` · used ${formatDate(link.usedAt)}`}
+                    {link.status === 'REVOKED' && link.revokedAt && ` · revoked ${formatDate(link.revokedAt)}`}
+                    {(link.status === 'ACTIVE' || link.status === 'EXPIRED') &&
+                      ` · ${link.status === 'ACTIVE' ? 'expires' : 'expired'} ${formatDate(link.expiresAt)}`}
+                  </p>
+                </div>
+
+                {link.status === 'ACTIVE' && (
+                  <div className="flex shrink-0 gap-2">
+                    <button
+                      onClick={() => handleCopy(link)}
+                      className="rounded-lg border border-gray-300 px-2 py-1 text-xs font-medium text-gray-700 transition-colors hover:bg-gray-50"
+                    >
+                      {copiedId === link.id ? 'Copied' : 'Copy'}
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(link)}
+                      disabled={revokingId === link.id}
+                      className="rounded-lg border border-red-200 px-2 py-1 text-xs font-medium text-red-600 transition-colors hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      {revokingId === link.id ? 'Revoking...' : 'Revoke'}
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
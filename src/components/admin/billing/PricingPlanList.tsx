@@ -0,0 +1,497 @@
+/**
+ * PricingPlanList Component
+ *
+ * Client component that lists pricing plans with activation toggles and a
+ * form for adding or editing a plan: its amounts, Stripe price IDs,
+ * included features, storage quota and the budget ranges and industries
+ * it targets.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, FormEvent } from 'react';
+import DataTable, { Column } from '../shared/DataTable';
+import { BUDGET_RANGE_OPTIONS, INDUSTRY_TYPE_OPTIONS } from '@/lib/intakeOptions';
+import { formatPlanAmount } from '@/lib/pricing';
+import type { PricingPlan } from '@/types/admin';
+
+// Empty plan form
+const EMPTY_FORM = {
+  name: '',
+  description: '',
+  setupFee: '',
+  monthlyPrice: '',
+  stripeSetupFeePriceId: '',
+  stripeMonthlyPriceId: '',
+  features: '',
+  budgetRanges: [] as string[],
+  industryTypes: [] as string[],
+  storageQuotaMb: '',
+  sortOrder: '0',
+};
+
+type PlanForm = typeof EMPTY_FORM;
+
+// Fill the form from an existing plan
+function toPlanForm(plan: PricingPlan): PlanForm {
+  return {
+    name: plan.name,
+    description: plan.description ?? '',
+    setupFee: (plan.setupFeeCents / 100).toFixed(2),
+    monthlyPrice: (plan.monthlyPriceCents / 100).toFixed(2),
+    stripeSetupFeePriceId: plan.stripeSetupFeePriceId,
+    stripeMonthlyPriceId: plan.stripeMonthlyPriceId,
+    features: plan.features.join('\n'),
+    budgetRanges: plan.budgetRanges,
+    industryTypes: plan.industryTypes,
+    storageQuotaMb: plan.storageQuotaMb ? String(plan.storageQuotaMb) : '',
+    sortOrder: String(plan.sortOrder),
+  };
+}
+
+// Describe the intake answers a plan targets
+function formatTargets(plan: PricingPlan): string {
+  const labels = [
+    ...BUDGET_RANGE_OPTIONS.filter((option) => plan.budgetRanges.includes(option.value)),
+    ...INDUSTRY_TYPE_OPTIONS.filter((option) => plan.industryTypes.includes(option.value)),
+  ].map((option) => option.label);
+  return labels.length > 0 ? labels.join(', ') : 'Any customer';
+}
+
+const INPUT_CLASS =
+  'mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+export default function PricingPlanList() {
+  const [plans, setPlans] = useState<PricingPlan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Plan form state; editingId is null when adding a new plan
+  const [form, setForm] = useState<PlanForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Fetch plans from API
+  const fetchPlans = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/pricing-plans?includeInactive=true');
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch pricing plans');
+      }
+
+      setPlans(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPlans();
+  }, [fetchPlans]);
+
+  // Toggle whether a plan can be picked for new payment links
+  const toggleActive = async (plan: PricingPlan) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/pricing-plans/${plan.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !plan.isActive }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update pricing plan');
+      }
+
+      setPlans((prev) => prev.map((item) => (item.id === plan.id ? result.data : item)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  // Delete a plan
+  const handleDelete = async (plan: PricingPlan) => {
+    if (!confirm(`Delete the "${plan.name}" plan? Links already sent keep working.`)) {
+      return;
+    }
+
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/pricing-plans/${plan.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete pricing plan');
+      }
+
+      if (editingId === plan.id) {
+        cancelEdit();
+      }
+      await fetchPlans();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const startEdit = (plan: PricingPlan) => {
+    setEditingId(plan.id);
+    setForm(toPlanForm(plan));
+    setFormError(null);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+  };
+
+  // Add or remove a value from one of the targeting lists
+  const toggleTarget = (key: 'budgetRanges' | 'industryTypes', value: string) => {
+    setForm((prev) => ({
+      ...prev,
+      [key]: prev[key].includes(value)
+        ? prev[key].filter((item) => item !== value)
+        : [...prev[key], value],
+    }));
+  };
+
+  // Create or update a plan
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setFormError(null);
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(
+        editingId ? `/api/admin/pricing-plans/${editingId}` : '/api/admin/pricing-plans',
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: form.name,
+            description: form.description || null,
+            setupFee: parseFloat(form.setupFee),
+            monthlyPrice: parseFloat(form.monthlyPrice),
+            stripeSetupFeePriceId: form.stripeSetupFeePriceId,
+            stripeMonthlyPriceId: form.stripeMonthlyPriceId,
+            features: form.features.split('\n').filter((line) => line.trim()),
+            budgetRanges: form.budgetRanges,
+            industryTypes: form.industryTypes,
+            storageQuotaMb: form.storageQuotaMb ? parseInt(form.storageQuotaMb, 10) : null,
+            sortOrder: parseInt(form.sortOrder, 10) || 0,
+          }),
+        }
+      );
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to save pricing plan');
+      }
+
+      cancelEdit();
+      await fetchPlans();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const columns: Column<PricingPlan>[] = [
+    {
+      key: 'plan',
+      header: 'Plan',
+      render: (item) => (
+        <div>
+          <p className="font-medium text-gray-900">{item.name}</p>
+          {item.description && <p className="text-xs text-gray-500">{item.description}</p>}
+        </div>
+      ),
+    },
+    {
+      key: 'pricing',
+      header: 'Pricing',
+      render: (item) => (
+        <div className="text-gray-700">
+          <p>{formatPlanAmount(item.setupFeeCents, item.currency)} setup</p>
+          <p className="text-xs text-gray-500">
+            {formatPlanAmount(item.monthlyPriceCents, item.currency)}/month
+          </p>
+        </div>
+      ),
+    },
+    {
+      key: 'targets',
+      header: 'Suggested For',
+      render: (item) => <span className="text-gray-700">{formatTargets(item)}</span>,
+    },
+    {
+      key: 'status',
+      header: 'Status',
+      headerClassName: 'w-28',
+      render: (item) => (
+        <button
+          onClick={() => toggleActive(item)}
+          className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium transition-colors ${
+            item.isActive
+              ? 'bg-green-100 text-green-700 hover:bg-green-200'
+              : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+          }`}
+          title={item.isActive ? 'Click to retire' : 'Click to reactivate'}
+        >
+          {item.isActive ? 'Active' : 'Retired'}
+        </button>
+      ),
+    },
+    {
+      key: 'actions',
+      header: '',
+      headerClassName: 'w-32',
+      render: (item) => (
+        <div className="flex gap-2">
+          <button
+            onClick={() => startEdit(item)}
+            className="rounded-lg border border-gray-300 px-2 py-1 text-xs font-medium text-gray-700 transition-colors hover:bg-gray-50"
+          >
+            Edit
+          </button>
+          <button
+            onClick={() => handleDelete(item)}
+            className="rounded-lg border border-red-200 px-2 py-1 text-xs font-medium text-red-600 transition-colors hover:bg-red-50"
+          >
+            Delete
+          </button>
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Error message */}
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+          <button
+            onClick={fetchPlans}
+            className="ml-2 font-medium underline hover:no-underline"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      <DataTable
+        columns={columns}
+        data={plans}
+        keyExtractor={(item) => item.id}
+        isLoading={isLoading}
+        emptyMessage="No pricing plans yet. Payment links use the prices configured in the environment."
+      />
+
+      {/* Add / edit plan form */}
+      <div className="rounded-lg border border-gray-200 bg-white p-6">
+        <h2 className="text-lg font-semibold text-gray-900">
+          {editingId ? 'Edit Plan' : 'Add Plan'}
+        </h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Amounts must match the Stripe prices. The setup fee price must be one-time and the monthly price recurring monthly.
+        </p>
+        <form onSubmit={handleSubmit} className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="plan-name" className="block text-sm font-medium text-gray-700">
+              Name
+            </label>
+            <input
+              id="plan-name"
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              required
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label htmlFor="plan-sort-order" className="block text-sm font-medium text-gray-700">
+              Sort Order
+            </label>
+            <input
+              id="plan-sort-order"
+              type="number"
+              step="1"
+              value={form.sortOrder}
+              onChange={(e) => setForm({ ...form, sortOrder: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <label htmlFor="plan-description" className="block text-sm font-medium text-gray-700">
+              Description
+            </label>
+            <input
+              id="plan-description"
+              type="text"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label htmlFor="plan-setup-fee" className="block text-sm font-medium text-gray-700">
+              Setup Fee ($)
+            </label>
+            <input
+              id="plan-setup-fee"
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.setupFee}
+              onChange={(e) => setForm({ ...form, setupFee: e.target.value })}
+              required
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label htmlFor="plan-setup-price-id" className="block text-sm font-medium text-gray-700">
+              Setup Fee Stripe Price ID
+            </label>
+            <input
+              id="plan-setup-price-id"
+              type="text"
+              value={form.stripeSetupFeePriceId}
+              onChange={(e) => setForm({ ...form, stripeSetupFeePriceId: e.target.value })}
+              required
+              placeholder="price_..."
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label htmlFor="plan-monthly-price" className="block text-sm font-medium text-gray-700">
+              Monthly Price ($)
+            </label>
+            <input
+              id="plan-monthly-price"
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.monthlyPrice}
+              onChange={(e) => setForm({ ...form, monthlyPrice: e.target.value })}
+              required
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label htmlFor="plan-monthly-price-id" className="block text-sm font-medium text-gray-700">
+              Monthly Stripe Price ID
+            </label>
+            <input
+              id="plan-monthly-price-id"
+              type="text"
+              value={form.stripeMonthlyPriceId}
+              onChange={(e) => setForm({ ...form, stripeMonthlyPriceId: e.target.value })}
+              required
+              placeholder="price_..."
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label htmlFor="plan-storage-quota" className="block text-sm font-medium text-gray-700">
+              Storage Quota (MB)
+            </label>
+            <input
+              id="plan-storage-quota"
+              type="number"
+              min="1"
+              step="1"
+              value={form.storageQuotaMb}
+              onChange={(e) => setForm({ ...form, storageQuotaMb: e.target.value })}
+              placeholder="Default"
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <label htmlFor="plan-features" className="block text-sm font-medium text-gray-700">
+              Included Features (one per line)
+            </label>
+            <textarea
+              id="plan-features"
+              rows={4}
+              value={form.features}
+              onChange={(e) => setForm({ ...form, features: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700">Suggest for budgets</legend>
+            <div className="mt-2 space-y-1">
+              {BUDGET_RANGE_OPTIONS.map((option) => (
+                <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.budgetRanges.includes(option.value)}
+                    onChange={() => toggleTarget('budgetRanges', option.value)}
+                    className="rounded border-gray-300"
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700">Suggest for industries</legend>
+            <div className="mt-2 space-y-1">
+              {INDUSTRY_TYPE_OPTIONS.map((option) => (
+                <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.industryTypes.includes(option.value)}
+                    onChange={() => toggleTarget('industryTypes', option.value)}
+                    className="rounded border-gray-300"
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <p className="text-xs text-gray-500 sm:col-span-2">
+            Leave budgets or industries unchecked to suggest the plan for any customer.
+          </p>
+
+          {formError && (
+            <p className="text-sm text-red-600 sm:col-span-2">{formError}</p>
+          )}
+
+          <div className="flex gap-2 sm:col-span-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : editingId ? 'Save Plan' : 'Add Plan'}
+            </button>
+            {editingId && (
+              <button
+                type="button"
+                onClick={cancelEdit}
+                className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
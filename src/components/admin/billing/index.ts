@@ -7,3 +7,8 @@
 export { default as BillingList } from './BillingList';
 export { default as BillingStatusBadge } from './BillingStatusBadge';
 export { default as PaymentLinkGenerator } from './PaymentLinkGenerator';
+export { default as PaymentLinkHistory } from './PaymentLinkHistory';
+export { default as FailedStripeEvents } from './FailedStripeEvents';
+export { default as PaymentHistory } from './PaymentHistory';
+export { default as PricingPlanList } from './PricingPlanList';
+export { default as BillingPortalLinkSender } from './BillingPortalLinkSender';
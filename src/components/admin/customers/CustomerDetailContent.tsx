@@ -2,7 +2,7 @@
  * CustomerDetailContent Component
  *
  * Client component that displays all details for a single customer (paid submission).
- * Includes tabbed interface for Overview, Notes, Files, and Deployment.
+ * Includes tabbed interface for Overview, Notes, Files, Deployment, and History.
  */
 
 'use client';
@@ -14,11 +14,13 @@ import RevenueDisplay from './RevenueDisplay';
 import { FileList } from '../files';
 import { NotesList } from '../notes';
 import { DeploymentPanel } from '../deployment';
-import type { SubmissionStatus } from '@/types/admin';
+import { AuditTimeline } from '../history';
+import { PaymentHistory, PaymentLinkHistory } from '../billing';
+import type { ProjectStatus, SubmissionStatus } from '@/types/admin';
 import type { Submission } from '@/lib/admin/queries';
 
 // Tab types
-type TabId = 'overview' | 'notes' | 'files' | 'deployment';
+type TabId = 'overview' | 'notes' | 'files' | 'deployment' | 'history';
 
 interface Tab {
   id: TabId;
@@ -28,6 +30,8 @@ interface Tab {
 
 interface CustomerDetailContentProps {
   customerId: number;
+  // Tab to open first, e.g. from a search result link
+  initialTab?: string;
 }
 
 // Tab definitions with icons
@@ -68,6 +72,15 @@ const tabs: Tab[] = [
       </svg>
     ),
   },
+  {
+    id: 'history',
+    label: 'History',
+    icon: (
+      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+      </svg>
+    ),
+  },
 ];
 
 // Format date for display
@@ -104,11 +117,13 @@ function parseFeatures(features: string): string[] {
   }
 }
 
-export default function CustomerDetailContent({ customerId }: CustomerDetailContentProps) {
+export default function CustomerDetailContent({ customerId, initialTab }: CustomerDetailContentProps) {
   const [customer, setCustomer] = useState<Submission | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<TabId>('overview');
+  const [activeTab, setActiveTab] = useState<TabId>(
+    tabs.find((tab) => tab.id === initialTab)?.id ?? 'overview'
+  );
 
   // Fetch customer data
   const fetchCustomer = useCallback(async () => {
@@ -136,6 +151,15 @@ export default function CustomerDetailContent({ customerId }: CustomerDetailCont
     fetchCustomer();
   }, [fetchCustomer]);
 
+  // Refresh revenue totals after a refund without showing the loading state
+  const refreshCustomer = async () => {
+    const response = await fetch(`/api/admin/submissions/${customerId}`);
+    const result = await response.json();
+    if (result.success) {
+      setCustomer(result.data);
+    }
+  };
+
   // Handle notes save
   const handleNotesSave = async (notes: string) => {
     const response = await fetch(`/api/admin/submissions/${customerId}`, {
@@ -300,7 +324,7 @@ export default function CustomerDetailContent({ customerId }: CustomerDetailCont
               <div>
                 <h2 className="text-sm font-medium text-green-700">Total Revenue</h2>
                 <div className="mt-1">
-                  <RevenueDisplay amount={customer.revenue} size="lg" />
+                  <RevenueDisplay amount={customer.totalRevenue ?? null} size="lg" />
                 </div>
               </div>
               {customer.paidAt && (
@@ -312,6 +336,22 @@ export default function CustomerDetailContent({ customerId }: CustomerDetailCont
             </div>
           </section>
 
+          {/* Payment History */}
+          <section className="rounded-lg border border-gray-200 bg-white p-6">
+            <h2 className="mb-4 text-lg font-semibold text-gray-900">
+              Payment History
+            </h2>
+            <PaymentHistory customerId={customerId} onPaymentsChanged={refreshCustomer} />
+          </section>
+
+          {/* Payment Links */}
+          <section className="rounded-lg border border-gray-200 bg-white p-6">
+            <h2 className="mb-4 text-lg font-semibold text-gray-900">
+              Payment Links
+            </h2>
+            <PaymentLinkHistory customerId={customerId} />
+          </section>
+
           {/* Contact Information */}
           <section className="rounded-lg border border-gray-200 bg-white p-6">
             <h2 className="mb-4 text-lg font-semibold text-gray-900">
@@ -554,7 +594,18 @@ export default function CustomerDetailContent({ customerId }: CustomerDetailCont
 
         {/* Deployment Tab */}
         {activeTab === 'deployment' && (
-          <DeploymentPanel customerId={customerId} />
+          <DeploymentPanel customerId={customerId} projectStatus={customer.projectStatus as ProjectStatus} />
+        )}
+
+        {/* History Tab */}
+        {activeTab === 'history' && (
+          <div className="rounded-lg border border-gray-200 bg-white p-6">
+            <div className="mb-6 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">Change History</h2>
+              <p className="text-sm text-gray-500">Every admin change to this customer</p>
+            </div>
+            <AuditTimeline customerId={customerId} />
+          </div>
         )}
       </div>
     </div>
@@ -1,7 +1,8 @@
 /**
  * CustomerList Component
  *
- * Client component that displays a list of paying customers with search and pagination.
+ * Client component that displays a list of paying customers with search, filtering,
+ * sorting, saved views, CSV export, and pagination.
  * Customers are submissions where status is "PAID".
  */
 
@@ -13,8 +14,12 @@ import DataTable, { Column } from '../shared/DataTable';
 import SearchFilter from '../shared/SearchFilter';
 import Pagination from '../shared/Pagination';
 import StatusBadge from '../shared/StatusBadge';
+import AdvancedFilters from '../shared/AdvancedFilters';
+import SavedViews from '../shared/SavedViews';
+import ExportCsvLink from '../shared/ExportCsvLink';
 import RevenueDisplay from './RevenueDisplay';
-import type { SubmissionStatus, PaginatedResponse } from '@/types/admin';
+import { DEFAULT_SORT, toggleSort, sortToParams, sortFromParams } from '@/lib/admin/listFilters';
+import type { SubmissionStatus, SubmissionSort, SubmissionSortField, PaginatedResponse } from '@/types/admin';
 import type { Submission } from '@/lib/admin/queries';
 
 interface CustomerListProps {
@@ -39,6 +44,15 @@ export default function CustomerList({ initialData }: CustomerListProps) {
   const [search, setSearch] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const [totalRevenue, setTotalRevenue] = useState<number>(0);
+  const [advancedFilters, setAdvancedFilters] = useState<Record<string, string>>({});
+  const [sort, setSort] = useState<SubmissionSort>(DEFAULT_SORT);
+
+  // Everything on screen as list query parameters, for saved views
+  const viewFilters: Record<string, string> = {
+    ...advancedFilters,
+    ...(search && { search }),
+    ...sortToParams(sort),
+  };
 
   // Fetch customers from API
   const fetchCustomers = useCallback(async () => {
@@ -55,6 +69,10 @@ export default function CustomerList({ initialData }: CustomerListProps) {
         params.set('search', search);
       }
 
+      Object.entries({ ...advancedFilters, ...sortToParams(sort) }).forEach(([key, value]) => {
+        params.set(key, value);
+      });
+
       const response = await fetch(`/api/admin/submissions?${params.toString()}`);
       const result = await response.json();
 
@@ -66,7 +84,7 @@ export default function CustomerList({ initialData }: CustomerListProps) {
 
       // Calculate total revenue from current page items
       const pageRevenue = result.data.items.reduce(
-        (sum: number, item: Submission) => sum + (item.revenue || 0),
+        (sum: number, item: Submission) => sum + (item.totalRevenue || 0),
         0
       );
       setTotalRevenue(pageRevenue);
@@ -75,7 +93,7 @@ export default function CustomerList({ initialData }: CustomerListProps) {
     } finally {
       setIsLoading(false);
     }
-  }, [currentPage, search]);
+  }, [currentPage, search, advancedFilters, sort]);
 
   // Fetch customers on mount and when filters change
   useEffect(() => {
@@ -98,11 +116,32 @@ export default function CustomerList({ initialData }: CustomerListProps) {
     setCurrentPage(page);
   };
 
+  // Handle advanced filter change
+  const handleAdvancedFiltersChange = (values: Record<string, string>) => {
+    setAdvancedFilters(values);
+    setCurrentPage(1);
+  };
+
+  // Handle column header click
+  const handleSortChange = (sortKey: string) => {
+    setSort(toggleSort(sort, sortKey as SubmissionSortField));
+    setCurrentPage(1);
+  };
+
+  // Apply a saved view's filters and sort
+  const handleApplyView = ({ search: viewSearch, sortBy, sortOrder, ...rest }: Record<string, string>) => {
+    setSearch(viewSearch || '');
+    setSort(sortFromParams({ sortBy, sortOrder }));
+    setAdvancedFilters(rest);
+    setCurrentPage(1);
+  };
+
   // Define table columns
   const columns: Column<Submission>[] = [
     {
       key: 'fullName',
       header: 'Name',
+      sortKey: 'fullName',
       render: (customer) => (
         <div>
           <p className="font-medium text-gray-900">{customer.fullName}</p>
@@ -113,6 +152,7 @@ export default function CustomerList({ initialData }: CustomerListProps) {
     {
       key: 'businessName',
       header: 'Business',
+      sortKey: 'businessName',
       render: (customer) => (
         <div>
           <p className="font-medium text-gray-900">{customer.businessName}</p>
@@ -125,6 +165,7 @@ export default function CustomerList({ initialData }: CustomerListProps) {
     {
       key: 'industryType',
       header: 'Industry',
+      sortKey: 'industryType',
       render: (customer) => (
         <span className="capitalize text-gray-700">{customer.industryType}</span>
       ),
@@ -133,12 +174,13 @@ export default function CustomerList({ initialData }: CustomerListProps) {
       key: 'revenue',
       header: 'Revenue',
       render: (customer) => (
-        <RevenueDisplay amount={customer.revenue} size="sm" />
+        <RevenueDisplay amount={customer.totalRevenue ?? null} size="sm" />
       ),
     },
     {
       key: 'paidAt',
       header: 'Paid Date',
+      sortKey: 'paidAt',
       render: (customer) => (
         <div>
           {customer.paidAt ? (
@@ -184,6 +226,12 @@ export default function CustomerList({ initialData }: CustomerListProps) {
               placeholder="Search customers..."
             />
           </div>
+
+          <AdvancedFilters
+            values={advancedFilters}
+            onChange={handleAdvancedFiltersChange}
+            fields={['industryType', 'budgetRange', 'billingStatus', 'deploymentStatus', 'paid']}
+          />
         </div>
 
         {/* Results count and revenue summary */}
@@ -204,6 +252,11 @@ export default function CustomerList({ initialData }: CustomerListProps) {
         </div>
       </div>
 
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <SavedViews list="CUSTOMERS" currentFilters={viewFilters} onApply={handleApplyView} />
+        <ExportCsvLink list="CUSTOMERS" params={{ ...viewFilters, status: 'PAID' }} />
+      </div>
+
       {/* Error message */}
       {error && (
         <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
@@ -224,6 +277,9 @@ export default function CustomerList({ initialData }: CustomerListProps) {
         keyExtractor={(customer) => customer.id}
         onRowClick={handleRowClick}
         isLoading={isLoading}
+        sortBy={sort.sortBy}
+        sortOrder={sort.sortOrder}
+        onSortChange={handleSortChange}
         emptyMessage="No customers found. Customers will appear here when leads are marked as paid."
         rowClassName={() => 'bg-green-50/20'}
       />
@@ -7,6 +7,7 @@
 
 interface RevenueDisplayProps {
   amount: number | null | undefined;
+  currency?: string;
   size?: 'sm' | 'md' | 'lg';
   showCents?: boolean;
   className?: string;
@@ -14,15 +15,16 @@ interface RevenueDisplayProps {
 }
 
 /**
- * Format a number as USD currency
+ * Format a number as currency (USD by default)
  */
 function formatCurrency(
   amount: number,
-  showCents: boolean = true
+  showCents: boolean = true,
+  currency: string = 'USD'
 ): string {
   const options: Intl.NumberFormatOptions = {
     style: 'currency',
-    currency: 'USD',
+    currency: currency.toUpperCase(),
     minimumFractionDigits: showCents ? 2 : 0,
     maximumFractionDigits: showCents ? 2 : 0,
   };
@@ -32,6 +34,7 @@ function formatCurrency(
 
 export default function RevenueDisplay({
   amount,
+  currency = 'USD',
   size = 'md',
   showCents = true,
   className = '',
@@ -56,7 +59,7 @@ export default function RevenueDisplay({
   // Color based on amount (positive = green tone for customers)
   const colorClass = amount > 0 ? 'text-green-700' : 'text-gray-700';
 
-  const formattedAmount = formatCurrency(amount, showCents);
+  const formattedAmount = formatCurrency(amount, showCents, currency);
 
   return (
     <span
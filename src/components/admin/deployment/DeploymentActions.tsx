@@ -2,7 +2,10 @@
  * DeploymentActions Component
  *
  * Action buttons for deployment operations:
- * - "Initialize Deployment" button (if not deployed)
+ * - "Initialize Deployment" button (if not deployed), with whether other
+ *   branches of a connected repo get preview deployments
+ * - Deploy mode choice: the git branch, or the customer's uploaded files
+ *   sent by direct upload (if initialized)
  * - "Deploy Now" button (if initialized)
  * - "Configure Domain" button
  * - Loading states for each action
@@ -11,7 +14,7 @@
 'use client';
 
 import { useState } from 'react';
-import type { CustomerDeployment } from '@/types/admin';
+import type { CustomerDeployment, DeployMode, PreviewDeploymentSetting } from '@/types/admin';
 
 interface DeploymentActionsProps {
   customerId: number;
@@ -21,12 +24,35 @@ interface DeploymentActionsProps {
   onShowDnsConfig: () => void;
 }
 
+const DEPLOY_MODE_OPTIONS: { value: DeployMode; label: string; description: string }[] = [
+  { value: 'GIT', label: 'Git branch', description: 'Build the connected repository' },
+  {
+    value: 'DIRECT_UPLOAD',
+    label: 'Customer files',
+    description: 'Upload HTML pages, photos and logos from the Files tab',
+  },
+  {
+    value: 'GENERATED',
+    label: 'Generated site',
+    description: 'Build a site from the intake form and uploaded files',
+  },
+];
+
 interface InitializeFormData {
   cfProjectName: string;
   gitRepoUrl: string;
   gitBranch: string;
+  // Custom branch lists can be set once the project exists
+  previewDeploymentSetting: Exclude<PreviewDeploymentSetting, 'custom'>;
 }
 
+const EMPTY_INITIALIZE_FORM: InitializeFormData = {
+  cfProjectName: '',
+  gitRepoUrl: '',
+  gitBranch: 'main',
+  previewDeploymentSetting: 'all',
+};
+
 export default function DeploymentActions({
   customerId,
   deployment,
@@ -41,11 +67,10 @@ export default function DeploymentActions({
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleteProjectToo, setDeleteProjectToo] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [formData, setFormData] = useState<InitializeFormData>({
-    cfProjectName: '',
-    gitRepoUrl: '',
-    gitBranch: 'main',
-  });
+  const [deployMode, setDeployMode] = useState<DeployMode>(
+    deployment?.gitRepoUrl ? 'GIT' : 'DIRECT_UPLOAD'
+  );
+  const [formData, setFormData] = useState<InitializeFormData>(EMPTY_INITIALIZE_FORM);
 
   // Delete deployment
   const handleDelete = async () => {
@@ -89,6 +114,7 @@ export default function DeploymentActions({
             cfProjectName: formData.cfProjectName,
             gitRepoUrl: formData.gitRepoUrl || undefined,
             gitBranch: formData.gitBranch || 'main',
+            ...(formData.gitRepoUrl && { previewDeploymentSetting: formData.previewDeploymentSetting }),
           }),
         }
       );
@@ -101,7 +127,7 @@ export default function DeploymentActions({
 
       onDeploymentUpdate(result.data);
       setShowInitForm(false);
-      setFormData({ cfProjectName: '', gitRepoUrl: '', gitBranch: 'main' });
+      setFormData(EMPTY_INITIALIZE_FORM);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
@@ -120,6 +146,7 @@ export default function DeploymentActions({
         {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ mode: deployMode }),
         }
       );
 
@@ -264,6 +291,35 @@ export default function DeploymentActions({
               />
             </div>
 
+            {/* Preview Deployments */}
+            {formData.gitRepoUrl && (
+              <div>
+                <label
+                  htmlFor="previewDeploymentSetting"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Preview Deployments
+                </label>
+                <select
+                  id="previewDeploymentSetting"
+                  value={formData.previewDeploymentSetting}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      previewDeploymentSetting: e.target.value as InitializeFormData['previewDeploymentSetting'],
+                    }))
+                  }
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                >
+                  <option value="all">Preview every other branch</option>
+                  <option value="none">Production branch only</option>
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  Previews get their own URL to share with the client before going live.
+                </p>
+              </div>
+            )}
+
             {/* Actions */}
             <div className="flex gap-3 pt-2">
               <button
@@ -361,6 +417,48 @@ export default function DeploymentActions({
       )}
 
       <div className="space-y-3">
+        {/* Deploy Mode */}
+        <fieldset>
+          <legend className="mb-2 text-sm font-medium text-gray-700">Deploy from</legend>
+          <div className="grid grid-cols-1 gap-2 sm:grid-cols-3">
+            {DEPLOY_MODE_OPTIONS.map((option) => {
+              const isDisabled = isDeployingState || (option.value === 'GIT' && !deployment.gitRepoUrl);
+
+              return (
+                <label
+                  key={option.value}
+                  className={`flex gap-2 rounded-lg border p-3 ${
+                    deployMode === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                  } ${isDisabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}`}
+                >
+                  <input
+                    type="radio"
+                    name="deployMode"
+                    value={option.value}
+                    checked={deployMode === option.value}
+                    onChange={() => setDeployMode(option.value)}
+                    disabled={isDisabled}
+                    className="mt-0.5 h-4 w-4 border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-900">
+                      {option.label}
+                      {option.value === 'GIT' && deployment.gitRepoUrl && (
+                        <span className="font-normal text-gray-500"> ({deployment.gitBranch})</span>
+                      )}
+                    </span>
+                    <span className="block text-xs text-gray-500">
+                      {option.value === 'GIT' && !deployment.gitRepoUrl
+                        ? 'No repository connected'
+                        : option.description}
+                    </span>
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+        </fieldset>
+
         {/* Deploy Now Button */}
         <button
           onClick={handleDeploy}
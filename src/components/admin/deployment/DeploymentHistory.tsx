@@ -0,0 +1,286 @@
+/**
+ * DeploymentHistory Component
+ *
+ * Lists a customer's deployment runs, newest first, with what triggered
+ * each one (admin or git push), its branch and commit, how long each
+ * stage took and the result, with its build log on demand. Production
+ * can be rolled back to any earlier successful production deployment
+ * from here; the run rolled back to shows when and by whom.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { CustomerDeployment, DeploymentRun, DeploymentRunStage } from '@/types/admin';
+import type { PagesDeploymentLogLine } from '@/lib/cloudflare';
+import DeploymentStatus from './DeploymentStatus';
+
+interface DeploymentHistoryProps {
+  customerId: number;
+  deployment: CustomerDeployment;
+  onDeploymentUpdate: (deployment: CustomerDeployment) => void;
+}
+
+// Format date with time
+function formatDateTime(date: Date | string): string {
+  const d = new Date(date);
+  return d.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+}
+
+// Format the time between two timestamps, e.g. "1m 5s"
+function formatDuration(start: Date | string, end: Date | string): string {
+  const seconds = Math.max(0, Math.round((new Date(end).getTime() - new Date(start).getTime()) / 1000));
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+// Time of day of a log line, e.g. "10:00:05"
+function formatLogTime(ts: string): string {
+  return new Date(ts).toLocaleTimeString('en-US', { hour12: false });
+}
+
+// Who or what started the run
+function describeTrigger(run: DeploymentRun): string {
+  if (run.triggeredByName) return `Deployed by ${run.triggeredByName}`;
+  return run.trigger === 'ad_hoc' ? 'Deployed' : `Git push (${run.trigger})`;
+}
+
+// Finished stages with their duration, e.g. "build 41s"
+function describeStages(stages: DeploymentRunStage[]): string {
+  return stages
+    .filter((stage) => stage.startedOn && stage.endedOn)
+    .map((stage) => `${stage.name} ${formatDuration(stage.startedOn!, stage.endedOn!)}`)
+    .join(' · ');
+}
+
+export default function DeploymentHistory({
+  customerId,
+  deployment,
+  onDeploymentUpdate,
+}: DeploymentHistoryProps) {
+  const [runs, setRuns] = useState<DeploymentRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rollingBackId, setRollingBackId] = useState<number | null>(null);
+  const [logsRunId, setLogsRunId] = useState<number | null>(null);
+  const [logs, setLogs] = useState<PagesDeploymentLogLine[]>([]);
+  const [isLoadingLogs, setIsLoadingLogs] = useState(false);
+  const [logsError, setLogsError] = useState<string | null>(null);
+
+  // Fetch runs from API
+  const fetchRuns = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/customers/${customerId}/deployment/runs`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch deployment history');
+      }
+
+      setRuns(result.data.runs);
+      setError(result.data.error ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customerId]);
+
+  // Refetch whenever a deployment starts or finishes
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns, deployment.lastDeploymentId, deployment.deploymentStatus]);
+
+  // Make an earlier deployment serve production again
+  const handleRollback = async (run: DeploymentRun) => {
+    if (!confirm(`Roll production back to the deployment from ${formatDateTime(run.startedAt)}?`)) {
+      return;
+    }
+
+    setRollingBackId(run.id);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/admin/customers/${customerId}/deployment/runs/${run.id}/rollback`,
+        { method: 'POST' }
+      );
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to roll back deployment');
+      }
+
+      onDeploymentUpdate(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  // Show or hide a run's build log
+  const handleToggleLogs = async (run: DeploymentRun) => {
+    if (logsRunId === run.id) {
+      setLogsRunId(null);
+      return;
+    }
+
+    setLogsRunId(run.id);
+    setLogs([]);
+    setLogsError(null);
+    setIsLoadingLogs(true);
+
+    try {
+      const response = await fetch(
+        `/api/admin/customers/${customerId}/deployment/runs/${run.id}/logs`
+      );
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch deployment log');
+      }
+
+      setLogs(result.data.logs);
+    } catch (err) {
+      setLogsError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoadingLogs(false);
+    }
+  };
+
+  const isLive = (run: DeploymentRun) =>
+    run.cfDeploymentId === deployment.lastDeploymentId && deployment.deploymentStatus === 'DEPLOYED';
+
+  const canRollBack = (run: DeploymentRun) =>
+    run.environment === 'production' &&
+    run.status === 'DEPLOYED' &&
+    !isLive(run) &&
+    deployment.deploymentStatus !== 'DEPLOYING';
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">
+        Deployment History
+      </h3>
+
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+
+      {isLoading && runs.length === 0 ? (
+        <div className="animate-pulse space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-10 rounded bg-gray-100"></div>
+          ))}
+        </div>
+      ) : runs.length === 0 ? (
+        <p className="text-sm text-gray-500">No deployments yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {runs.map((run) => {
+            const stages = describeStages(run.stages);
+
+            return (
+              <li key={run.id} className="py-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <DeploymentStatus status={run.status} size="sm" />
+                      {isLive(run) && (
+                        <span className="inline-flex items-center rounded-full bg-green-600 px-2 py-0.5 text-xs font-medium text-white">
+                          Live
+                        </span>
+                      )}
+                      {run.environment === 'preview' && (
+                        <span className="inline-flex items-center rounded-full bg-purple-100 px-2 py-0.5 text-xs font-medium text-purple-700">
+                          Preview
+                        </span>
+                      )}
+                      <span className="text-sm text-gray-900">{describeTrigger(run)}</span>
+                    </div>
+
+                    {(run.branch || run.commitHash) && (
+                      <p className="mt-1 truncate text-xs text-gray-600">
+                        {run.branch}
+                        {run.commitHash && (
+                          <span className="font-mono"> @ {run.commitHash.slice(0, 7)}</span>
+                        )}
+                        {run.commitMessage && ` · ${run.commitMessage.split('\n')[0]}`}
+                      </p>
+                    )}
+
+                    <p className="mt-1 text-xs text-gray-500">
+                      {formatDateTime(run.startedAt)}
+                      {run.finishedAt && ` · took ${formatDuration(run.startedAt, run.finishedAt)}`}
+                      {stages && ` (${stages})`}
+                    </p>
+
+                    {run.rolledBackAt && (
+                      <p className="mt-1 text-xs text-amber-700">
+                        Rolled back to {formatDateTime(run.rolledBackAt)}
+                        {run.rolledBackByName && ` by ${run.rolledBackByName}`}
+                      </p>
+                    )}
+
+                    {run.error && <p className="mt-1 text-xs text-red-600">{run.error}</p>}
+                  </div>
+
+                  <div className="flex shrink-0 items-center gap-2">
+                    <button
+                      onClick={() => handleToggleLogs(run)}
+                      className="rounded-lg border border-gray-300 px-2 py-1 text-xs font-medium text-gray-700 transition-colors hover:bg-gray-50"
+                    >
+                      {logsRunId === run.id ? 'Hide log' : 'Log'}
+                    </button>
+                    {run.url && (
+                      <a
+                        href={run.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="rounded-lg border border-gray-300 px-2 py-1 text-xs font-medium text-gray-700 transition-colors hover:bg-gray-50"
+                      >
+                        View
+                      </a>
+                    )}
+                    {canRollBack(run) && (
+                      <button
+                        onClick={() => handleRollback(run)}
+                        disabled={rollingBackId !== null}
+                        className="rounded-lg border border-gray-300 px-2 py-1 text-xs font-medium text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        {rollingBackId === run.id ? 'Rolling back...' : 'Roll back to this'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {logsRunId === run.id && (
+                  <div className="mt-3">
+                    {isLoadingLogs ? (
+                      <p className="text-xs text-gray-500">Loading log...</p>
+                    ) : logsError ? (
+                      <p className="text-xs text-red-600">{logsError}</p>
+                    ) : logs.length === 0 ? (
+                      <p className="text-xs text-gray-500">No log lines for this deployment.</p>
+                    ) : (
+                      <pre className="max-h-72 overflow-auto rounded-lg bg-gray-900 p-3 text-xs text-gray-100">
+                        {logs.map((entry) => `${formatLogTime(entry.ts)}  ${entry.line}`).join('\n')}
+                      </pre>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,25 +2,33 @@
  * DeploymentPanel Component
  *
  * Main container component that combines all deployment components.
- * Fetches deployment data and orchestrates the deployment UI.
+ * Fetches deployment data and orchestrates the deployment UI, including
+ * the history of past deployments and the latest preview of each branch
+ * once the project is initialized, and a preview of the site generated from
+ * the customer's intake and files.
  *
  * Usage:
- * <DeploymentPanel customerId={123} />
+ * <DeploymentPanel customerId={123} projectStatus="WAITING_FOR_FEEDBACK" />
  */
 
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import type { CustomerDeployment } from '@/types/admin';
+import type { CustomerDeployment, ProjectStatus } from '@/types/admin';
 import DeploymentCard from './DeploymentCard';
 import DeploymentActions from './DeploymentActions';
 import DnsConfigForm from './DnsConfigForm';
+import DeploymentHistory from './DeploymentHistory';
+import PreviewDeployments from './PreviewDeployments';
+import SitePreview from './SitePreview';
 
 interface DeploymentPanelProps {
   customerId: number;
+  // Enables sending previews to the client while waiting for feedback
+  projectStatus?: ProjectStatus;
 }
 
-export default function DeploymentPanel({ customerId }: DeploymentPanelProps) {
+export default function DeploymentPanel({ customerId, projectStatus }: DeploymentPanelProps) {
   const [deployment, setDeployment] = useState<CustomerDeployment | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -127,6 +135,27 @@ export default function DeploymentPanel({ customerId }: DeploymentPanelProps) {
         />
       )}
 
+      {/* Deployment History */}
+      {!isLoading && deployment?.cfProjectId && (
+        <DeploymentHistory
+          customerId={customerId}
+          deployment={deployment}
+          onDeploymentUpdate={handleDeploymentUpdate}
+        />
+      )}
+
+      {/* Preview Deployments */}
+      {!isLoading && deployment?.cfProjectId && (
+        <PreviewDeployments
+          customerId={customerId}
+          deployment={deployment}
+          projectStatus={projectStatus}
+        />
+      )}
+
+      {/* Generated Site Preview */}
+      {!isLoading && <SitePreview customerId={customerId} />}
+
       {/* DNS Configuration Modal */}
       {showDnsConfig && deployment && (
         <DnsConfigForm
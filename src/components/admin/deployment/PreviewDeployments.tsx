@@ -0,0 +1,360 @@
+/**
+ * PreviewDeployments Component
+ *
+ * Lists the latest preview deployment of each branch with its URL, and lets
+ * the team choose which branches get previews. While the project is
+ * waiting for feedback, a preview can be sent to the client: they get an
+ * email with a review link, and their feedback is added to the customer's
+ * notes.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type {
+  CustomerDeployment,
+  PreviewBranchSettings,
+  PreviewDeployment,
+  PreviewDeploymentSetting,
+  PreviewReviewLink,
+  ProjectStatus,
+} from '@/types/admin';
+import DeploymentStatus from './DeploymentStatus';
+
+interface PreviewDeploymentsProps {
+  customerId: number;
+  deployment: CustomerDeployment;
+  projectStatus?: ProjectStatus;
+}
+
+const PREVIEW_SETTING_OPTIONS: { value: PreviewDeploymentSetting; label: string }[] = [
+  { value: 'all', label: 'All branches' },
+  { value: 'none', label: 'No branches' },
+  { value: 'custom', label: 'Custom branches' },
+];
+
+// Format date with time
+function formatDateTime(date: Date | string): string {
+  const d = new Date(date);
+  return d.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+}
+
+// Split a comma-separated list of branch patterns
+function toPatterns(value: string): string[] {
+  return value.split(',').map((pattern) => pattern.trim()).filter(Boolean);
+}
+
+export default function PreviewDeployments({
+  customerId,
+  deployment,
+  projectStatus,
+}: PreviewDeploymentsProps) {
+  const [previews, setPreviews] = useState<PreviewDeployment[]>([]);
+  const [settings, setSettings] = useState<PreviewBranchSettings | null>(null);
+  const [reviewLink, setReviewLink] = useState<PreviewReviewLink | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [sendingBranch, setSendingBranch] = useState<string | null>(null);
+  const [isEditingSettings, setIsEditingSettings] = useState(false);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  const [settingsForm, setSettingsForm] = useState({ setting: 'all' as PreviewDeploymentSetting, includes: '', excludes: '' });
+
+  const isWaitingForFeedback = projectStatus === 'WAITING_FOR_FEEDBACK';
+
+  // Fetch previews from API
+  const fetchPreviews = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/customers/${customerId}/deployment/previews`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch preview deployments');
+      }
+
+      setPreviews(result.data.previews);
+      setSettings(result.data.settings);
+      setReviewLink(result.data.reviewLink);
+      setError(result.data.error ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customerId]);
+
+  // Refetch whenever a deployment starts or finishes
+  useEffect(() => {
+    fetchPreviews();
+  }, [fetchPreviews, deployment.lastDeploymentId, deployment.deploymentStatus]);
+
+  // Email the client a review link for a branch's preview
+  const handleSendToClient = async (preview: PreviewDeployment) => {
+    if (!preview.branch || !confirm(`Email the client a link to review the ${preview.branch} preview?`)) {
+      return;
+    }
+
+    setSendingBranch(preview.branch);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(
+        `/api/admin/customers/${customerId}/deployment/previews/review-link`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ branch: preview.branch, sendEmail: true }),
+        }
+      );
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to send preview to client');
+      }
+
+      setReviewLink(result.link);
+      setMessage(
+        result.emailSent
+          ? 'Preview sent to the client'
+          : `The email couldn't be sent. Share this link with the client instead: ${result.url}`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSendingBranch(null);
+    }
+  };
+
+  const startEditingSettings = () => {
+    if (!settings) return;
+    setSettingsForm({
+      setting: settings.previewDeploymentSetting,
+      includes: settings.previewBranchIncludes.join(', '),
+      excludes: settings.previewBranchExcludes.join(', '),
+    });
+    setIsEditingSettings(true);
+  };
+
+  // Save which branches get previews
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSavingSettings(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/customers/${customerId}/deployment/previews`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          previewDeploymentSetting: settingsForm.setting,
+          previewBranchIncludes: toPatterns(settingsForm.includes),
+          previewBranchExcludes: toPatterns(settingsForm.excludes),
+        }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update preview branch settings');
+      }
+
+      setSettings(result.data.settings);
+      setIsEditingSettings(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  const describeSettings = (current: PreviewBranchSettings): string => {
+    if (current.previewDeploymentSetting === 'all') return 'Every branch gets a preview';
+    if (current.previewDeploymentSetting === 'none') return 'Preview deployments are off';
+    const excludes = current.previewBranchExcludes.length
+      ? `, except ${current.previewBranchExcludes.join(', ')}`
+      : '';
+    return `Previews for ${current.previewBranchIncludes.join(', ')}${excludes}`;
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">
+        Preview Deployments
+      </h3>
+
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+      {message && <p className="mb-3 break-all text-sm text-green-700">{message}</p>}
+
+      {/* Preview Branch Settings */}
+      {settings && (
+        <div className="mb-4 rounded-lg bg-gray-50 p-3">
+          {isEditingSettings ? (
+            <form onSubmit={handleSaveSettings} className="space-y-3">
+              <div>
+                <label htmlFor="previewSetting" className="block text-sm font-medium text-gray-700">
+                  Preview branches
+                </label>
+                <select
+                  id="previewSetting"
+                  value={settingsForm.setting}
+                  onChange={(e) =>
+                    setSettingsForm((form) => ({ ...form, setting: e.target.value as PreviewDeploymentSetting }))
+                  }
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                >
+                  {PREVIEW_SETTING_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {settingsForm.setting === 'custom' && (
+                <>
+                  <div>
+                    <label htmlFor="previewIncludes" className="block text-sm font-medium text-gray-700">
+                      Include branches
+                    </label>
+                    <input
+                      id="previewIncludes"
+                      type="text"
+                      value={settingsForm.includes}
+                      onChange={(e) => setSettingsForm((form) => ({ ...form, includes: e.target.value }))}
+                      placeholder="staging, feature/*"
+                      className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="previewExcludes" className="block text-sm font-medium text-gray-700">
+                      Exclude branches
+                    </label>
+                    <input
+                      id="previewExcludes"
+                      type="text"
+                      value={settingsForm.excludes}
+                      onChange={(e) => setSettingsForm((form) => ({ ...form, excludes: e.target.value }))}
+                      placeholder="dependabot/*"
+                      className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">Separate branch names or patterns with commas.</p>
+                </>
+              )}
+
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={isSavingSettings}
+                  className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-gray-400"
+                >
+                  {isSavingSettings ? 'Saving...' : 'Save'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setIsEditingSettings(false)}
+                  className="rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-100"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-sm text-gray-700">{describeSettings(settings)}</p>
+              <button
+                onClick={startEditingSettings}
+                className="shrink-0 rounded px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50"
+              >
+                Change
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Shared Review Link */}
+      {reviewLink && (
+        <p className="mb-3 text-xs text-gray-500">
+          The {reviewLink.branch} preview was sent to the client on {formatDateTime(reviewLink.createdAt)} by{' '}
+          {reviewLink.createdByName}
+          {reviewLink.lastFeedbackAt
+            ? ` · last feedback ${formatDateTime(reviewLink.lastFeedbackAt)} (see Notes)`
+            : ' · no feedback yet'}
+        </p>
+      )}
+
+      {isLoading && previews.length === 0 ? (
+        <div className="animate-pulse space-y-3">
+          {[...Array(2)].map((_, i) => (
+            <div key={i} className="h-10 rounded bg-gray-100"></div>
+          ))}
+        </div>
+      ) : previews.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No preview deployments yet. Push to a branch other than {deployment.gitBranch} to create one.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {previews.map((preview) => {
+            const previewUrl = preview.branchUrl ?? preview.url;
+
+            return (
+              <li key={preview.cfDeploymentId} className="flex items-start justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <DeploymentStatus status={preview.status} size="sm" />
+                    <span className="text-sm font-medium text-gray-900">{preview.branch ?? 'Unknown branch'}</span>
+                  </div>
+
+                  {preview.commitHash && (
+                    <p className="mt-1 truncate text-xs text-gray-600">
+                      <span className="font-mono">{preview.commitHash.slice(0, 7)}</span>
+                      {preview.commitMessage && ` · ${preview.commitMessage.split('\n')[0]}`}
+                    </p>
+                  )}
+
+                  <p className="mt-1 text-xs text-gray-500">
+                    {formatDateTime(preview.startedAt)}
+                    {previewUrl && (
+                      <>
+                        {' · '}
+                        <a
+                          href={previewUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:underline"
+                        >
+                          {previewUrl.replace(/^https?:\/\//, '')}
+                        </a>
+                      </>
+                    )}
+                  </p>
+                </div>
+
+                {isWaitingForFeedback && preview.branch && preview.status === 'DEPLOYED' && (
+                  <button
+                    onClick={() => handleSendToClient(preview)}
+                    disabled={sendingBranch !== null}
+                    className="shrink-0 rounded-lg border border-gray-300 px-2 py-1 text-xs font-medium text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {sendingBranch === preview.branch ? 'Sending...' : 'Send preview to client'}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
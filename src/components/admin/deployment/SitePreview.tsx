@@ -0,0 +1,127 @@
+/**
+ * SitePreview Component
+ *
+ * Shows the starter site generated from the customer's intake submission
+ * and files: which industry template it uses, what still needs content
+ * from the customer, and a live preview. The site is published with the
+ * "Generated site" deploy mode.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { SITE_TEMPLATES, type SiteTemplateId } from '@/lib/siteGenerator/templates';
+
+interface SitePreviewProps {
+  customerId: number;
+}
+
+interface GeneratedSiteSummary {
+  template: SiteTemplateId;
+  files: { path: string; contentType: string; size: number }[];
+  notes: string[];
+}
+
+export default function SitePreview({ customerId }: SitePreviewProps) {
+  const [site, setSite] = useState<GeneratedSiteSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  // Changes on refresh so the iframe reloads the regenerated site
+  const [version, setVersion] = useState(0);
+
+  const previewUrl = `/api/admin/customers/${customerId}/generated-site/preview/index.html`;
+
+  // Fetch the generated site summary from API
+  const fetchSite = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/customers/${customerId}/generated-site`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to generate site');
+      }
+
+      setSite(result.data);
+      setVersion((current) => current + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    fetchSite();
+  }, [fetchSite]);
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-6">
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-gray-900">Generated Site</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={fetchSite}
+            disabled={isLoading}
+            className="rounded px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100 disabled:opacity-50"
+          >
+            {isLoading ? 'Generating...' : 'Refresh'}
+          </button>
+          {site && (
+            <>
+              <button
+                onClick={() => setShowPreview((current) => !current)}
+                className="rounded px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50"
+              >
+                {showPreview ? 'Hide preview' : 'Show preview'}
+              </button>
+              <a
+                href={previewUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="rounded px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50"
+              >
+                Open in new tab
+              </a>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+
+      {isLoading && !site ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-4 w-1/3 rounded bg-gray-200" />
+          <div className="h-4 w-2/3 rounded bg-gray-200" />
+        </div>
+      ) : site ? (
+        <>
+          <p className="text-sm text-gray-600">
+            {SITE_TEMPLATES[site.template].label} template · {site.files.length} files
+          </p>
+
+          {site.notes.length > 0 && (
+            <ul className="mt-3 list-disc space-y-1 pl-5 text-sm text-amber-700">
+              {site.notes.map((note) => (
+                <li key={note}>{note}</li>
+              ))}
+            </ul>
+          )}
+
+          {showPreview && (
+            <iframe
+              key={version}
+              src={previewUrl}
+              title="Generated site preview"
+              className="mt-4 h-[32rem] w-full rounded-lg border border-gray-200"
+            />
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -9,4 +9,7 @@ export { default as DeploymentStatus } from './DeploymentStatus';
 export { default as DeploymentCard } from './DeploymentCard';
 export { default as DeploymentActions } from './DeploymentActions';
 export { default as DnsConfigForm } from './DnsConfigForm';
+export { default as DeploymentHistory } from './DeploymentHistory';
+export { default as PreviewDeployments } from './PreviewDeployments';
+export { default as SitePreview } from './SitePreview';
 export { default as DeploymentPanel } from './DeploymentPanel';
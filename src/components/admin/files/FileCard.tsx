@@ -2,7 +2,9 @@
  * FileCard Component
  *
  * Individual file card displaying thumbnail/icon, metadata, and actions.
- * Supports both grid and list view modes.
+ * Supports both grid and list view modes. Processed images show their
+ * generated thumbnail rather than the full-size original, and replaced
+ * files show their version number.
  */
 
 'use client';
@@ -96,7 +98,10 @@ export default function FileCard({
 
   const isImage = file.mimeType.startsWith('image/');
   const downloadUrl = `/api/admin/customers/${customerId}/files/${file.id}/download`;
-  const previewUrl = `${downloadUrl}?inline=true`;
+  const thumbnail = file.variants?.find((variant) => variant.kind === 'THUMBNAIL');
+  const previewUrl = thumbnail
+    ? `${downloadUrl}?variant=${thumbnail.id}&inline=true`
+    : `${downloadUrl}?inline=true`;
   const categoryStyle = categoryStyles[file.category] || categoryStyles.GENERAL;
 
   const handleDelete = () => {
@@ -143,6 +148,9 @@ export default function FileCard({
             <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${categoryStyle.bg} ${categoryStyle.text}`}>
               {file.category.charAt(0) + file.category.slice(1).toLowerCase()}
             </span>
+            {file.version > 1 && (
+              <span className="text-xs font-medium text-gray-500">v{file.version}</span>
+            )}
             <span className="text-xs text-gray-500">{formatFileSize(file.fileSize)}</span>
           </div>
         </div>
@@ -181,7 +189,7 @@ export default function FileCard({
         {/* Delete confirmation */}
         {showDeleteConfirm && (
           <div className="absolute inset-0 flex flex-col items-center justify-center bg-white/95 p-4">
-            <p className="text-center text-sm text-gray-700">Delete this file?</p>
+            <p className="text-center text-sm text-gray-700">Move this file to the trash?</p>
             <p className="mt-1 text-center text-xs text-gray-500 truncate max-w-full">
               {file.fileName}
             </p>
@@ -240,6 +248,9 @@ export default function FileCard({
           <span className={`inline-flex flex-shrink-0 rounded-full px-2 py-0.5 text-xs font-medium ${categoryStyle.bg} ${categoryStyle.text}`}>
             {file.category.charAt(0) + file.category.slice(1).toLowerCase()}
           </span>
+          {file.version > 1 && (
+            <span className="flex-shrink-0 text-xs font-medium text-gray-500">v{file.version}</span>
+          )}
         </div>
         <div className="mt-0.5 flex items-center gap-3 text-xs text-gray-500">
           <span>{formatFileSize(file.fileSize)}</span>
@@ -2,7 +2,8 @@
  * FileCategoryTabs Component
  *
  * Tab navigation to filter files by category.
- * Shows count badges for each category.
+ * Shows count badges for each category, and a "Download all" link that
+ * exports the files in the active tab as a ZIP archive.
  */
 
 'use client';
@@ -10,6 +11,7 @@
 import type { FileCategory } from '@/types/admin';
 
 interface FileCategoryTabsProps {
+  customerId: number;
   activeCategory: FileCategory | 'ALL';
   categoryCounts: Record<FileCategory | 'ALL', number>;
   onCategoryChange: (category: FileCategory | 'ALL') => void;
@@ -30,12 +32,17 @@ const TABS: TabConfig[] = [
 ];
 
 export default function FileCategoryTabs({
+  customerId,
   activeCategory,
   categoryCounts,
   onCategoryChange,
 }: FileCategoryTabsProps) {
+  const exportUrl = `/api/admin/customers/${customerId}/files/export${
+    activeCategory !== 'ALL' ? `?category=${activeCategory}` : ''
+  }`;
+
   return (
-    <div className="border-b border-gray-200">
+    <div className="flex items-center justify-between gap-4 border-b border-gray-200">
       <nav className="-mb-px flex space-x-4 overflow-x-auto" aria-label="File categories">
         {TABS.map((tab) => {
           const count = categoryCounts[tab.id] || 0;
@@ -72,6 +79,21 @@ export default function FileCategoryTabs({
           );
         })}
       </nav>
+
+      {(categoryCounts[activeCategory] || 0) > 0 && (
+        <a
+          href={exportUrl}
+          download
+          className="flex flex-shrink-0 items-center gap-1.5 py-3 text-sm font-medium text-gray-600 hover:text-gray-900"
+        >
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+          </svg>
+          {activeCategory === 'ALL'
+            ? 'Download all'
+            : `Download all ${TABS.find((tab) => tab.id === activeCategory)?.label.toLowerCase()}`}
+        </a>
+      )}
     </div>
   );
 }
@@ -2,7 +2,10 @@
  * FileList Component
  *
  * Main file management component that combines all file-related functionality.
- * Features: grid/list view toggle, category filtering, file upload, delete, and preview.
+ * Features: grid/list view toggle, category filtering, file upload, delete, and preview,
+ * with the customer's storage usage shown above the files and a way to send
+ * the customer a link to upload files themselves. Deleted files go to a
+ * trash they can be restored from.
  */
 
 'use client';
@@ -12,7 +15,10 @@ import FileUploader from './FileUploader';
 import FileCard from './FileCard';
 import FileCategoryTabs from './FileCategoryTabs';
 import FilePreviewModal from './FilePreviewModal';
-import type { CustomerFile, FileCategory } from '@/types/admin';
+import StorageUsageBar from './StorageUsageBar';
+import UploadLinkSender from './UploadLinkSender';
+import FileTrash from './FileTrash';
+import type { CustomerFile, FileCategory, StorageUsage } from '@/types/admin';
 
 interface FileListProps {
   customerId: number;
@@ -35,6 +41,7 @@ export default function FileList({ customerId }: FileListProps) {
   const [files, setFiles] = useState<CustomerFile[]>([]);
   const [categoryCounts, setCategoryCounts] = useState(DEFAULT_CATEGORY_COUNTS);
   const [maxFileSize, setMaxFileSize] = useState(10485760);
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -43,6 +50,7 @@ export default function FileList({ customerId }: FileListProps) {
   const [activeCategory, setActiveCategory] = useState<FileCategory | 'ALL'>('ALL');
   const [sortBy, setSortBy] = useState<SortBy>('date');
   const [showUploader, setShowUploader] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
 
   // Preview modal state
   const [previewFile, setPreviewFile] = useState<CustomerFile | null>(null);
@@ -70,6 +78,7 @@ export default function FileList({ customerId }: FileListProps) {
       if (result.data.maxFileSize) {
         setMaxFileSize(result.data.maxFileSize);
       }
+      setStorage(result.data.storage ?? null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
@@ -173,8 +182,15 @@ export default function FileList({ customerId }: FileListProps) {
         </div>
       )}
 
+      {/* Storage usage */}
+      {storage && <StorageUsageBar usage={storage} />}
+
+      {/* Customer upload link */}
+      <UploadLinkSender customerId={customerId} />
+
       {/* Category tabs */}
       <FileCategoryTabs
+        customerId={customerId}
         activeCategory={activeCategory}
         categoryCounts={categoryCounts}
         onCategoryChange={setActiveCategory}
@@ -225,22 +241,40 @@ export default function FileList({ customerId }: FileListProps) {
           </select>
         </div>
 
-        {/* Right side - Upload button */}
-        <button
-          onClick={() => setShowUploader(!showUploader)}
-          className={`flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium transition-colors ${
-            showUploader
-              ? 'bg-gray-200 text-gray-700'
-              : 'bg-blue-600 text-white hover:bg-blue-700'
-          }`}
-        >
-          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-            <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
-          </svg>
-          {showUploader ? 'Hide Uploader' : 'Upload Files'}
-        </button>
+        {/* Right side - Trash and upload buttons */}
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowTrash(!showTrash)}
+            className={`flex items-center gap-2 rounded-lg border px-4 py-2 text-sm font-medium transition-colors ${
+              showTrash
+                ? 'border-gray-300 bg-gray-200 text-gray-700'
+                : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+            {showTrash ? 'Hide Trash' : 'Trash'}
+          </button>
+          <button
+            onClick={() => setShowUploader(!showUploader)}
+            className={`flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium transition-colors ${
+              showUploader
+                ? 'bg-gray-200 text-gray-700'
+                : 'bg-blue-600 text-white hover:bg-blue-700'
+            }`}
+          >
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+            </svg>
+            {showUploader ? 'Hide Uploader' : 'Upload Files'}
+          </button>
+        </div>
       </div>
 
+      {/* Trash (collapsible) */}
+      {showTrash && <FileTrash customerId={customerId} onRestored={fetchFiles} />}
+
       {/* File uploader (collapsible) */}
       {showUploader && (
         <div className="rounded-lg border border-gray-200 bg-gray-50 p-4">
@@ -334,6 +368,10 @@ export default function FileList({ customerId }: FileListProps) {
         customerId={customerId}
         isOpen={isPreviewOpen}
         onClose={closePreview}
+        onReplaced={() => {
+          closePreview();
+          fetchFiles();
+        }}
       />
     </div>
   );
@@ -5,11 +5,14 @@
  * For images: full-size preview with zoom capability.
  * For PDFs: embedded viewer or download prompt.
  * For other files: metadata display with download option.
+ * Processed images also list their web-optimized variants for download.
+ * A new version of the file can be uploaded from here; earlier versions
+ * stay downloadable in the version history.
  */
 
 'use client';
 
-import { useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import type { CustomerFile, FileCategory } from '@/types/admin';
 
 interface FilePreviewModalProps {
@@ -17,6 +20,7 @@ interface FilePreviewModalProps {
   customerId: number;
   isOpen: boolean;
   onClose: () => void;
+  onReplaced?: () => void;
 }
 
 // Category badge styling
@@ -53,7 +57,65 @@ export default function FilePreviewModal({
   customerId,
   isOpen,
   onClose,
+  onReplaced,
 }: FilePreviewModalProps) {
+  const [versions, setVersions] = useState<CustomerFile[]>([]);
+  const [isReplacing, setIsReplacing] = useState(false);
+  const [replaceError, setReplaceError] = useState<string | null>(null);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+
+  // Load the version history of replaced files
+  useEffect(() => {
+    setVersions([]);
+    setReplaceError(null);
+    if (!isOpen || !file || file.version === 1) {
+      return;
+    }
+
+    fetch(`/api/admin/customers/${customerId}/files/${file.id}`)
+      .then((response) => response.json())
+      .then((result) => {
+        if (result.success) {
+          setVersions(result.data.versions);
+        }
+      })
+      .catch(() => {
+        // The history is optional; the preview still works without it
+      });
+  }, [isOpen, file, customerId]);
+
+  // Upload a new version of the file
+  const handleReplace = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !newFile) return;
+
+    setIsReplacing(true);
+    setReplaceError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('files', newFile);
+      formData.append('replaceFileId', String(file.id));
+
+      const response = await fetch(`/api/admin/customers/${customerId}/files`, {
+        method: 'POST',
+        body: formData,
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.errors?.[0]?.error || result.error || 'Failed to upload new version');
+      }
+
+      onReplaced?.();
+    } catch (err) {
+      setReplaceError(err instanceof Error ? err.message : 'Failed to upload new version');
+    } finally {
+      setIsReplacing(false);
+    }
+  };
+
   // Handle escape key
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     if (e.key === 'Escape') {
@@ -82,6 +144,7 @@ export default function FilePreviewModal({
   const downloadUrl = `/api/admin/customers/${customerId}/files/${file.id}/download`;
   const previewUrl = `${downloadUrl}?inline=true`;
   const categoryStyle = categoryStyles[file.category] || categoryStyles.GENERAL;
+  const webVariants = (file.variants ?? []).filter((variant) => variant.kind === 'WEB');
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
@@ -178,6 +241,22 @@ export default function FilePreviewModal({
 
             {/* Actions */}
             <div className="flex items-center gap-2">
+              <input
+                ref={replaceInputRef}
+                type="file"
+                onChange={handleReplace}
+                className="hidden"
+              />
+              <button
+                onClick={() => replaceInputRef.current?.click()}
+                disabled={isReplacing}
+                className="flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+                {isReplacing ? 'Uploading...' : 'Upload New Version'}
+              </button>
               <a
                 href={downloadUrl}
                 download={file.fileName}
@@ -204,6 +283,12 @@ export default function FilePreviewModal({
             </div>
           </div>
 
+          {replaceError && (
+            <div className="mt-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              {replaceError}
+            </div>
+          )}
+
           {/* Description if present */}
           {file.description && (
             <div className="mt-4 rounded-lg bg-gray-50 p-3">
@@ -211,6 +296,56 @@ export default function FilePreviewModal({
               <p className="mt-1 text-sm text-gray-700">{file.description}</p>
             </div>
           )}
+
+          {/* Web-optimized variants */}
+          {webVariants.length > 0 && (
+            <div className="mt-4">
+              <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Web-Optimized Versions</p>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {webVariants.map((variant) => (
+                  <a
+                    key={variant.id}
+                    href={`${downloadUrl}?variant=${variant.id}`}
+                    className="rounded-lg border border-gray-200 px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50"
+                  >
+                    {variant.width}×{variant.height} {variant.format.toUpperCase()}
+                    <span className="ml-1 text-gray-400">{formatFileSize(variant.fileSize)}</span>
+                  </a>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Version history */}
+          {versions.length > 1 && (
+            <div className="mt-4">
+              <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Version History</p>
+              <ul className="mt-2 divide-y divide-gray-100 rounded-lg border border-gray-200">
+                {versions.map((version) => (
+                  <li key={version.id} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <span className="font-medium text-gray-900">v{version.version}</span>
+                      <span className="ml-2 truncate text-gray-700">{version.fileName}</span>
+                      {version.id === file.id && (
+                        <span className="ml-2 text-xs text-green-700">Current</span>
+                      )}
+                    </div>
+                    <div className="flex flex-shrink-0 items-center gap-3 text-xs text-gray-500">
+                      <span>{formatDateTime(version.createdAt)}</span>
+                      <span>{formatFileSize(version.fileSize)}</span>
+                      <a
+                        href={`/api/admin/customers/${customerId}/files/${version.id}/download`}
+                        download={version.fileName}
+                        className="text-blue-600 hover:underline"
+                      >
+                        Download
+                      </a>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
     </div>
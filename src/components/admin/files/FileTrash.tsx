@@ -0,0 +1,143 @@
+/**
+ * FileTrash Component
+ *
+ * Lists a customer's deleted files with the date each one will be purged
+ * for good, and lets admins restore them before then.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { CustomerFile } from '@/types/admin';
+
+interface FileTrashProps {
+  customerId: number;
+  onRestored: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
+
+function formatDate(date: Date | string): string {
+  const d = new Date(date);
+  return d.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+export default function FileTrash({ customerId, onRestored }: FileTrashProps) {
+  const [files, setFiles] = useState<CustomerFile[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringFileId, setRestoringFileId] = useState<number | null>(null);
+
+  // Fetch the trashed files
+  const fetchTrash = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/customers/${customerId}/files/trash`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch trash');
+      }
+
+      setFiles(result.data.files);
+      setRetentionDays(result.data.retentionDays);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  // Restore a file
+  const handleRestore = async (fileId: number) => {
+    setRestoringFileId(fileId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/customers/${customerId}/files/${fileId}/restore`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to restore file');
+      }
+
+      await fetchTrash();
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore file');
+    } finally {
+      setRestoringFileId(null);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-gray-50 p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-900">Trash</h3>
+        <p className="text-xs text-gray-500">
+          Deleted files are removed for good after {retentionDays} days
+        </p>
+      </div>
+
+      {error && (
+        <div className="mt-3 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {isLoading && files.length === 0 ? (
+        <div className="mt-3 h-12 animate-pulse rounded bg-gray-200" />
+      ) : files.length === 0 ? (
+        <p className="mt-3 text-sm text-gray-500">The trash is empty.</p>
+      ) : (
+        <ul className="mt-3 divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white">
+          {files.map((file) => (
+            <li key={file.id} className="flex items-center gap-4 p-3">
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-gray-900" title={file.fileName}>
+                  {file.fileName}
+                  {file.version > 1 && (
+                    <span className="ml-2 text-xs font-medium text-gray-500">v{file.version}</span>
+                  )}
+                </p>
+                <p className="mt-0.5 text-xs text-gray-500">
+                  {formatFileSize(file.fileSize)} &middot; Deleted {formatDate(file.deletedAt!)}
+                  {file.deletedByName && ` by ${file.deletedByName}`} &middot; Purged{' '}
+                  {formatDate(new Date(new Date(file.deletedAt!).getTime() + retentionDays * DAY_MS))}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRestore(file.id)}
+                disabled={restoringFileId !== null}
+                className="flex-shrink-0 rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {restoringFileId === file.id ? 'Restoring...' : 'Restore'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
  *
  * Drag-and-drop file upload with category selection and progress tracking.
  * Validates file size before upload and shows upload progress.
+ * Posts to the admin files API unless given another upload URL, such as the
+ * customer upload portal's.
  */
 
 'use client';
@@ -15,6 +17,8 @@ interface FileUploaderProps {
   onUploadComplete: () => void;
   maxFileSize?: number;
   defaultCategory?: FileCategory;
+  uploadUrl?: string;
+  categories?: FileCategory[];
 }
 
 interface UploadProgress {
@@ -44,11 +48,16 @@ export default function FileUploader({
   customerId,
   onUploadComplete,
   maxFileSize = 10485760, // 10MB default
-  defaultCategory = 'GENERAL',
+  defaultCategory,
+  uploadUrl,
+  categories,
 }: FileUploaderProps) {
+  const categoryOptions = categories
+    ? CATEGORIES.filter(cat => categories.includes(cat.value))
+    : CATEGORIES;
   const [isDragging, setIsDragging] = useState(false);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
-  const [category, setCategory] = useState<FileCategory>(defaultCategory);
+  const [category, setCategory] = useState<FileCategory>(defaultCategory ?? categoryOptions[0].value);
   const [description, setDescription] = useState('');
   const [uploadProgress, setUploadProgress] = useState<UploadProgress[]>([]);
   const [isUploading, setIsUploading] = useState(false);
@@ -167,7 +176,7 @@ export default function FileUploader({
         prev.map(p => ({ ...p, status: 'uploading' as const, progress: 50 }))
       );
 
-      const response = await fetch(`/api/admin/customers/${customerId}/files`, {
+      const response = await fetch(uploadUrl ?? `/api/admin/customers/${customerId}/files`, {
         method: 'POST',
         body: formData,
       });
@@ -212,7 +221,7 @@ export default function FileUploader({
     } finally {
       setIsUploading(false);
     }
-  }, [selectedFiles, category, description, customerId, clearFiles, onUploadComplete]);
+  }, [selectedFiles, category, description, customerId, uploadUrl, clearFiles, onUploadComplete]);
 
   return (
     <div className="space-y-4">
@@ -376,7 +385,7 @@ export default function FileUploader({
                 disabled={isUploading}
                 className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-100"
               >
-                {CATEGORIES.map(cat => (
+                {categoryOptions.map(cat => (
                   <option key={cat.value} value={cat.value}>
                     {cat.label}
                   </option>
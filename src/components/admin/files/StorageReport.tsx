@@ -0,0 +1,244 @@
+/**
+ * StorageReport Component
+ *
+ * Client component listing the customers using the most file storage
+ * against their quotas, with an on-demand check for orphans: stored
+ * objects no file record points to, and records whose object is missing.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import DataTable, { Column } from '../shared/DataTable';
+import type { StorageConsumer, StorageOrphanReport } from '@/types/admin';
+
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
+
+export default function StorageReport() {
+  const [consumers, setConsumers] = useState<StorageConsumer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Orphan check state
+  const [orphans, setOrphans] = useState<StorageOrphanReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [orphanError, setOrphanError] = useState<string | null>(null);
+
+  // Fetch the largest consumers
+  const fetchConsumers = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/storage');
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch storage usage');
+      }
+
+      setConsumers(result.data.consumers);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConsumers();
+  }, [fetchConsumers]);
+
+  // Compare storage with the database
+  const checkOrphans = async () => {
+    setIsChecking(true);
+    setOrphanError(null);
+
+    try {
+      const response = await fetch('/api/admin/storage/orphans');
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to check storage for orphans');
+      }
+
+      setOrphans(result.data);
+    } catch (err) {
+      setOrphanError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const columns: Column<StorageConsumer>[] = [
+    {
+      key: 'customer',
+      header: 'Customer',
+      render: (item) => (
+        <div>
+          <Link
+            href={`/admin/customers/${item.customerId}`}
+            className="font-medium text-gray-900 hover:text-blue-600"
+          >
+            {item.businessName}
+          </Link>
+          <p className="text-xs text-gray-500">{item.fullName}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'files',
+      header: 'Files',
+      headerClassName: 'w-24',
+      render: (item) => <span className="text-gray-700">{item.fileCount}</span>,
+    },
+    {
+      key: 'usage',
+      header: 'Used',
+      render: (item) => {
+        const percent = Math.min(100, Math.round((item.usedBytes / item.quotaBytes) * 100));
+        return (
+          <div className="w-48">
+            <p className="text-sm text-gray-700">
+              {formatFileSize(item.usedBytes)} of {formatFileSize(item.quotaBytes)}
+            </p>
+            <div className="mt-1 h-1.5 w-full overflow-hidden rounded-full bg-gray-100">
+              <div
+                className={`h-full rounded-full ${percent >= 90 ? 'bg-red-500' : percent >= 75 ? 'bg-amber-500' : 'bg-blue-600'}`}
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+          </div>
+        );
+      },
+    },
+    {
+      key: 'plan',
+      header: 'Quota From',
+      render: (item) => (
+        <span className="text-gray-700">{item.planName ?? 'Default'}</span>
+      ),
+    },
+  ];
+
+  const orphanCount = orphans
+    ? orphans.unreferencedObjects.length + orphans.missingFiles.length + orphans.missingVariants.length
+    : 0;
+
+  return (
+    <div className="space-y-8">
+      {/* Largest consumers */}
+      <section>
+        <h2 className="mb-4 text-lg font-semibold text-gray-900">Largest Consumers</h2>
+
+        {error && (
+          <div className="mb-4 rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            {error}
+            <button
+              onClick={fetchConsumers}
+              className="ml-2 font-medium underline hover:no-underline"
+            >
+              Retry
+            </button>
+          </div>
+        )}
+
+        <DataTable
+          columns={columns}
+          data={consumers}
+          keyExtractor={(item) => item.customerId}
+          isLoading={isLoading}
+          emptyMessage="No customer files have been uploaded yet."
+        />
+      </section>
+
+      {/* Orphan check */}
+      <section className="rounded-lg border border-gray-200 bg-white p-6">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Orphaned Files</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Compares every stored object with the file records. Nothing is deleted.
+            </p>
+          </div>
+          <button
+            onClick={checkOrphans}
+            disabled={isChecking}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isChecking ? 'Checking...' : 'Check Storage'}
+          </button>
+        </div>
+
+        {orphanError && (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            {orphanError}
+          </div>
+        )}
+
+        {orphans && orphanCount === 0 && (
+          <p className="mt-4 text-sm text-green-700">Storage and file records match.</p>
+        )}
+
+        {orphans && orphans.unreferencedObjects.length > 0 && (
+          <div className="mt-4">
+            <h3 className="text-sm font-medium text-gray-900">
+              Stored without a file record ({orphans.unreferencedObjects.length})
+            </h3>
+            <ul className="mt-2 space-y-1">
+              {orphans.unreferencedObjects.map((object) => (
+                <li key={object.fileKey} className="flex justify-between gap-4 text-sm">
+                  <span className="truncate font-mono text-xs text-gray-700">{object.fileKey}</span>
+                  <span className="flex-shrink-0 text-gray-500">{formatFileSize(object.size)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {orphans && orphans.missingFiles.length > 0 && (
+          <div className="mt-4">
+            <h3 className="text-sm font-medium text-gray-900">
+              File records with no stored file ({orphans.missingFiles.length})
+            </h3>
+            <ul className="mt-2 space-y-1">
+              {orphans.missingFiles.map((file) => (
+                <li key={file.id} className="flex justify-between gap-4 text-sm">
+                  <Link
+                    href={`/admin/customers/${file.customerId}`}
+                    className="truncate text-gray-700 hover:text-blue-600"
+                  >
+                    {file.fileName}
+                  </Link>
+                  <span className="truncate font-mono text-xs text-gray-500">{file.fileKey}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {orphans && orphans.missingVariants.length > 0 && (
+          <div className="mt-4">
+            <h3 className="text-sm font-medium text-gray-900">
+              Image variants with no stored file ({orphans.missingVariants.length})
+            </h3>
+            <ul className="mt-2 space-y-1">
+              {orphans.missingVariants.map((variant) => (
+                <li key={variant.id} className="truncate font-mono text-xs text-gray-700">
+                  {variant.fileKey}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * StorageUsageBar Component
+ *
+ * Shows how much of a customer's storage quota their uploads use, turning
+ * amber from 75% and red from 90%.
+ */
+
+'use client';
+
+import type { StorageUsage } from '@/types/admin';
+
+interface StorageUsageBarProps {
+  usage: StorageUsage;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
+
+export default function StorageUsageBar({ usage }: StorageUsageBarProps) {
+  const percent = usage.quotaBytes > 0
+    ? Math.min(100, Math.round((usage.usedBytes / usage.quotaBytes) * 100))
+    : 100;
+
+  const barColor = percent >= 90
+    ? 'bg-red-500'
+    : percent >= 75
+      ? 'bg-amber-500'
+      : 'bg-blue-600';
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-gray-700">Storage</span>
+        <span className="text-gray-500">
+          {formatFileSize(usage.usedBytes)} of {formatFileSize(usage.quotaBytes)} used ({percent}%)
+        </span>
+      </div>
+      <div
+        className="mt-2 h-2 w-full overflow-hidden rounded-full bg-gray-100"
+        role="progressbar"
+        aria-valuenow={percent}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-label="Storage used"
+      >
+        <div className={`h-full rounded-full ${barColor}`} style={{ width: `${percent}%` }} />
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        {usage.planName ? `Quota from the ${usage.planName} plan` : 'Default quota'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * UploadLinkSender Component
+ *
+ * Lets admins email a customer a link to the upload page, where they can
+ * send their logos, photos and content themselves, or copy it to send
+ * another way. Each new link replaces the previous one.
+ * Calls POST /api/admin/customers/[id]/upload-link.
+ */
+
+'use client';
+
+import { useState } from 'react';
+
+interface UploadLinkSenderProps {
+  customerId: number;
+}
+
+type SendMode = 'email' | 'copy';
+
+export default function UploadLinkSender({ customerId }: UploadLinkSenderProps) {
+  const [isLoading, setIsLoading] = useState<SendMode | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const issueLink = async (mode: SendMode) => {
+    setIsLoading(mode);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/admin/customers/${customerId}/upload-link`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sendEmail: mode === 'email' }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to generate upload link');
+      }
+
+      if (mode === 'email') {
+        if (!result.emailSent) {
+          throw new Error('The link was created but the email could not be sent');
+        }
+        setMessage('Upload link emailed to the customer');
+      } else {
+        await navigator.clipboard.writeText(result.url);
+        setMessage('Upload link copied to clipboard');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(null);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-600">
+          Customers can upload their logos, photos and content from a personal upload page.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => issueLink('email')}
+            disabled={isLoading !== null}
+            className="rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isLoading === 'email' ? 'Sending...' : 'Email Upload Link'}
+          </button>
+          <button
+            onClick={() => issueLink('copy')}
+            disabled={isLoading !== null}
+            className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isLoading === 'copy' ? 'Generating...' : 'Copy Upload Link'}
+          </button>
+        </div>
+      </div>
+      {message && <p className="mt-2 text-sm text-green-700">{message}</p>}
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
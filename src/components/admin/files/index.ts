@@ -12,3 +12,7 @@ export { default as FileUploader } from './FileUploader';
 export { default as FileCard } from './FileCard';
 export { default as FileCategoryTabs } from './FileCategoryTabs';
 export { default as FilePreviewModal } from './FilePreviewModal';
+export { default as FileTrash } from './FileTrash';
+export { default as StorageUsageBar } from './StorageUsageBar';
+export { default as StorageReport } from './StorageReport';
+export { default as UploadLinkSender } from './UploadLinkSender';
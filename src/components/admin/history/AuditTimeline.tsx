@@ -0,0 +1,192 @@
+/**
+ * AuditTimeline Component
+ *
+ * Fetches and displays the audit history for a customer as a timeline.
+ * Each entry shows who made the change, when, from which IP, and the
+ * field-level before/after values.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Pagination from '../shared/Pagination';
+import type { AuditEvent, AuditFieldChange, PaginatedResponse } from '@/types/admin';
+
+interface AuditTimelineProps {
+  customerId: number;
+}
+
+const ITEMS_PER_PAGE = 20;
+
+// Human-readable labels for audit actions
+const ACTION_LABELS: Record<string, string> = {
+  'submission.update': 'Updated submission',
+  'project.update': 'Updated project status',
+  'payment_link.generate': 'Generated payment link',
+  'payment_link.revoke': 'Revoked payment link',
+  'billing_portal_link.generate': 'Generated billing portal link',
+  'upload_link.generate': 'Generated file upload link',
+  'preview_review_link.generate': 'Shared preview with client',
+  'payment.refund': 'Issued refund',
+  'pricing_plan.create': 'Created pricing plan',
+  'pricing_plan.update': 'Updated pricing plan',
+  'pricing_plan.delete': 'Deleted pricing plan',
+  'note.create': 'Added note',
+  'note.update': 'Edited note',
+  'note.delete': 'Deleted note',
+  'file.upload': 'Uploaded file',
+  'file.delete': 'Moved file to trash',
+  'file.restore': 'Restored file from trash',
+  'file.replace': 'Uploaded new file version',
+  'deployment.initialize': 'Initialized deployment',
+  'deployment.delete': 'Removed deployment configuration',
+  'deployment.delete_with_project': 'Deleted deployment and Cloudflare project',
+  'deployment.trigger': 'Triggered deployment',
+  'deployment.rollback': 'Rolled back deployment',
+  'deployment.preview_settings': 'Changed preview branch settings',
+  'deployment.configure_dns': 'Configured DNS',
+};
+
+// Format date with time
+function formatDateTime(date: Date | string): string {
+  const d = new Date(date);
+  return d.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+}
+
+// Render a single changed value compactly
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (typeof value === 'string') {
+    return value.length > 80 ? `${value.slice(0, 80)}...` : value;
+  }
+  return JSON.stringify(value);
+}
+
+function ChangeList({ changes }: { changes: Record<string, AuditFieldChange> }) {
+  return (
+    <dl className="mt-2 space-y-1 text-xs">
+      {Object.entries(changes).map(([field, change]) => (
+        <div key={field} className="flex flex-wrap gap-1">
+          <dt className="font-medium text-gray-600">{field}:</dt>
+          <dd className="text-gray-500">
+            <span className="line-through">{formatValue(change.from)}</span>
+            <span className="mx-1">&rarr;</span>
+            <span className="text-gray-900">{formatValue(change.to)}</span>
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+export default function AuditTimeline({ customerId }: AuditTimelineProps) {
+  const [data, setData] = useState<PaginatedResponse<AuditEvent> | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch history
+  const fetchHistory = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({
+        page: currentPage.toString(),
+        limit: ITEMS_PER_PAGE.toString(),
+      });
+
+      const response = await fetch(`/api/admin/customers/${customerId}/history?${params}`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch history');
+      }
+
+      setData(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customerId, currentPage]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  if (isLoading && !data) {
+    return (
+      <div className="animate-pulse space-y-4">
+        {[...Array(4)].map((_, i) => (
+          <div key={i} className="h-14 rounded bg-gray-100"></div>
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+        {error}
+        <button
+          onClick={fetchHistory}
+          className="ml-2 font-medium underline hover:no-underline"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (!data || data.items.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-gray-500">
+        No changes have been recorded for this customer yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <ol className="relative border-l border-gray-200">
+        {data.items.map((event) => (
+          <li key={event.id} className="mb-6 ml-4">
+            <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-blue-500"></div>
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <p className="text-sm font-medium text-gray-900">
+                {ACTION_LABELS[event.action] || event.action}
+                <span className="font-normal text-gray-500">
+                  {' '}by {event.actorName}
+                  <span className="ml-1 text-xs capitalize">({event.actorRole.toLowerCase()})</span>
+                </span>
+              </p>
+              <time className="text-xs text-gray-500">
+                {formatDateTime(event.createdAt)}
+                {event.ipAddress && <span className="ml-2">from {event.ipAddress}</span>}
+              </time>
+            </div>
+            {event.changes && <ChangeList changes={event.changes} />}
+          </li>
+        ))}
+      </ol>
+
+      {data.totalPages > 1 && (
+        <Pagination
+          currentPage={currentPage}
+          totalPages={data.totalPages}
+          totalItems={data.total}
+          itemsPerPage={ITEMS_PER_PAGE}
+          onPageChange={setCurrentPage}
+        />
+      )}
+    </div>
+  );
+}
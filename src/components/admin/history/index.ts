@@ -0,0 +1,7 @@
+/**
+ * History Components
+ *
+ * Export all components for the customer audit history.
+ */
+
+export { default as AuditTimeline } from './AuditTimeline';
@@ -1,17 +1,39 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import CommandPalette from './CommandPalette';
+import type { AdminRole } from '@/types/admin';
 
 /**
  * Admin Header Component
  *
- * Provides the top header bar for the admin section with logout functionality.
+ * Provides the top header bar for the admin section with global search,
+ * the signed-in user's name and role, and logout functionality.
  */
 
-export default function AdminHeader() {
+interface AdminHeaderProps {
+  userName?: string;
+  role?: AdminRole;
+}
+
+export default function AdminHeader({ userName, role }: AdminHeaderProps) {
   const router = useRouter();
   const [isLoggingOut, setIsLoggingOut] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+
+  // Open search with Ctrl+K / ⌘K from anywhere in the admin panel
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen(true);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   const handleLogout = async () => {
     if (isLoggingOut) return;
@@ -37,9 +59,19 @@ export default function AdminHeader() {
 
   return (
     <header className="fixed left-64 right-0 top-0 z-30 flex h-16 items-center justify-between border-b border-gray-200 bg-white px-6">
-      {/* Page title placeholder - will be populated by individual pages */}
+      {/* Global search */}
       <div className="flex items-center gap-4">
-        {/* TODO: Add breadcrumb navigation here */}
+        <button
+          type="button"
+          onClick={() => setIsSearchOpen(true)}
+          className="flex w-72 items-center gap-2 rounded-lg border border-gray-200 px-3 py-2 text-sm text-gray-500 transition-colors hover:border-gray-300 hover:text-gray-700"
+        >
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
+          </svg>
+          <span className="flex-1 text-left">Search...</span>
+          <kbd className="rounded border border-gray-200 px-1.5 text-xs text-gray-400">Ctrl K</kbd>
+        </button>
       </div>
 
       {/* Right side actions */}
@@ -61,7 +93,12 @@ export default function AdminHeader() {
               />
             </svg>
           </div>
-          <span className="text-sm font-medium text-gray-700">Admin</span>
+          <div className="leading-tight">
+            <p className="text-sm font-medium text-gray-700">{userName || 'Admin'}</p>
+            {role && (
+              <p className="text-xs capitalize text-gray-500">{role.toLowerCase()}</p>
+            )}
+          </div>
         </div>
 
         {/* Logout button */}
@@ -113,6 +150,8 @@ export default function AdminHeader() {
           )}
         </button>
       </div>
+
+      <CommandPalette isOpen={isSearchOpen} onClose={() => setIsSearchOpen(false)} />
     </header>
   );
 }
@@ -2,6 +2,8 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import { hasPermission } from '@/lib/auth/permissions';
+import type { AdminPermission, AdminRole } from '@/types/admin';
 
 /**
  * Admin Sidebar Navigation
@@ -15,6 +17,12 @@ interface NavItem {
   label: string;
   href: string;
   icon: React.ReactNode;
+  // Hide the item unless the signed-in role has this permission
+  permission?: AdminPermission;
+}
+
+interface AdminSidebarProps {
+  role?: AdminRole;
 }
 
 // Navigation items for the admin sidebar
@@ -56,20 +64,44 @@ const navItems: NavItem[] = [
       </svg>
     ),
   },
+  {
+    label: 'Storage',
+    href: '/admin/storage',
+    icon: (
+      <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M20.25 6.375c0 2.278-3.694 4.125-8.25 4.125S3.75 8.653 3.75 6.375m16.5 0c0-2.278-3.694-4.125-8.25-4.125S3.75 4.097 3.75 6.375m16.5 0v11.25c0 2.278-3.694 4.125-8.25 4.125s-8.25-1.847-8.25-4.125V6.375m16.5 0v3.75m-16.5-3.75v3.75m16.5 0v3.75C20.25 16.153 16.556 18 12 18s-8.25-1.847-8.25-4.125v-3.75m16.5 0c0 2.278-3.694 4.125-8.25 4.125s-8.25-1.847-8.25-4.125" />
+      </svg>
+    ),
+  },
   {
     label: 'Billing',
     href: '/admin/billing',
+    permission: 'billing:view',
     icon: (
       <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
         <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 8.25h19.5M2.25 9h19.5m-16.5 5.25h6m-6 2.25h3m-3.75 3h15a2.25 2.25 0 002.25-2.25V6.75A2.25 2.25 0 0019.5 4.5h-15a2.25 2.25 0 00-2.25 2.25v10.5A2.25 2.25 0 004.5 19.5z" />
       </svg>
     ),
   },
+  {
+    label: 'Team',
+    href: '/admin/team',
+    permission: 'users:manage',
+    icon: (
+      <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M18 18.72a9.094 9.094 0 003.741-.479 3 3 0 00-4.682-2.72m.94 3.198l.001.031c0 .225-.012.447-.037.666A11.944 11.944 0 0112 21c-2.17 0-4.207-.576-5.963-1.584A6.062 6.062 0 016 18.719m12 0a5.971 5.971 0 00-.941-3.197m0 0A5.995 5.995 0 0012 12.75a5.995 5.995 0 00-5.058 2.772m0 0a3 3 0 00-4.681 2.72 8.986 8.986 0 003.74.477m.94-3.197a5.971 5.971 0 00-.94 3.197M15 6.75a3 3 0 11-6 0 3 3 0 016 0zm6 3a2.25 2.25 0 11-4.5 0 2.25 2.25 0 014.5 0zm-13.5 0a2.25 2.25 0 11-4.5 0 2.25 2.25 0 014.5 0z" />
+      </svg>
+    ),
+  },
 ];
 
-export default function AdminSidebar() {
+export default function AdminSidebar({ role }: AdminSidebarProps) {
   const pathname = usePathname();
 
+  const visibleItems = navItems.filter(
+    (item) => !item.permission || (role !== undefined && hasPermission(role, item.permission))
+  );
+
   const isActive = (href: string) => {
     if (href === '/admin/dashboard') {
       return pathname === '/admin' || pathname === '/admin/dashboard';
@@ -107,7 +139,7 @@ export default function AdminSidebar() {
       {/* Navigation */}
       <nav className="mt-6 px-3">
         <ul className="space-y-1">
-          {navItems.map((item) => (
+          {visibleItems.map((item) => (
             <li key={item.href}>
               <Link
                 href={item.href}
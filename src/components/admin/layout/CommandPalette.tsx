@@ -0,0 +1,219 @@
+/**
+ * CommandPalette Component
+ *
+ * Global search dialog opened from the header or with Ctrl+K / ⌘K.
+ * Searches submissions, notes, files and sites as the admin types and
+ * opens the selected result's page. Arrow keys move through the results
+ * and Enter opens the highlighted one.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import type { GlobalSearchResults, SearchResult, SearchResultGroup } from '@/types/admin';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const MIN_QUERY_LENGTH = 2;
+
+// Group headings in display order
+const GROUPS: { id: SearchResultGroup; label: string }[] = [
+  { id: 'submissions', label: 'Leads & Customers' },
+  { id: 'notes', label: 'Notes' },
+  { id: 'files', label: 'Files' },
+  { id: 'sites', label: 'Sites' },
+];
+
+export default function CommandPalette({ isOpen, onClose }: CommandPaletteProps) {
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<GlobalSearchResults | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // Results flattened in display order for keyboard navigation
+  const flatResults: SearchResult[] = useMemo(
+    () => (results ? GROUPS.flatMap((group) => results[group.id]) : []),
+    [results]
+  );
+
+  // Reset and focus the input each time the palette opens
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setResults(null);
+      setError(null);
+      setActiveIndex(0);
+      inputRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  // Debounce searches while typing
+  useEffect(() => {
+    const search = query.trim();
+    if (search.length < MIN_QUERY_LENGTH) {
+      setResults(null);
+      setIsLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/admin/search?q=${encodeURIComponent(search)}`, {
+          signal: controller.signal,
+        });
+        const data = await response.json();
+
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Search failed');
+        }
+
+        setResults(data.data);
+        setActiveIndex(0);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Search failed');
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    }, 250);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  const openResult = useCallback((result: SearchResult) => {
+    onClose();
+    router.push(result.href);
+  }, [onClose, router]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'ArrowDown' && flatResults.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % flatResults.length);
+    } else if (e.key === 'ArrowUp' && flatResults.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index - 1 + flatResults.length) % flatResults.length);
+    } else if (e.key === 'Enter' && flatResults[activeIndex]) {
+      e.preventDefault();
+      openResult(flatResults[activeIndex]);
+    }
+  }, [flatResults, activeIndex, onClose, openResult]);
+
+  if (!isOpen) return null;
+
+  const hasQuery = query.trim().length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center px-4 pt-24" onKeyDown={handleKeyDown}>
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/40"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search"
+        className="relative w-full max-w-xl overflow-hidden rounded-xl bg-white shadow-2xl"
+      >
+        {/* Search input */}
+        <div className="flex items-center gap-3 border-b border-gray-200 px-4">
+          <svg className="h-5 w-5 flex-shrink-0 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
+          </svg>
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search customers, notes, files and sites..."
+            className="h-12 w-full border-0 bg-transparent text-sm text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-0"
+            aria-label="Search"
+          />
+          {isLoading && (
+            <svg className="h-4 w-4 flex-shrink-0 animate-spin text-gray-400" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+            </svg>
+          )}
+        </div>
+
+        {/* Results */}
+        <div className="max-h-96 overflow-y-auto">
+          {error && (
+            <p className="px-4 py-6 text-center text-sm text-red-600">{error}</p>
+          )}
+
+          {!error && !hasQuery && (
+            <p className="px-4 py-6 text-center text-sm text-gray-500">
+              Type at least {MIN_QUERY_LENGTH} characters to search
+            </p>
+          )}
+
+          {!error && hasQuery && results && flatResults.length === 0 && (
+            <p className="px-4 py-6 text-center text-sm text-gray-500">
+              No results for &ldquo;{query.trim()}&rdquo;
+            </p>
+          )}
+
+          {!error && results && flatResults.length > 0 && (
+            <ul className="py-2">
+              {GROUPS.filter((group) => results[group.id].length > 0).map((group) => (
+                <li key={group.id}>
+                  <p className="px-4 pb-1 pt-3 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                    {group.label}
+                  </p>
+                  <ul>
+                    {results[group.id].map((result) => {
+                      const index = flatResults.indexOf(result);
+                      return (
+                        <li key={`${group.id}-${result.id}`}>
+                          <button
+                            type="button"
+                            onClick={() => openResult(result)}
+                            onMouseEnter={() => setActiveIndex(index)}
+                            className={`block w-full px-4 py-2 text-left ${
+                              index === activeIndex ? 'bg-blue-50' : ''
+                            }`}
+                          >
+                            <span className="block truncate text-sm font-medium text-gray-900">
+                              {result.title}
+                            </span>
+                            {result.subtitle && (
+                              <span className="block truncate text-xs text-gray-500">
+                                {result.subtitle}
+                              </span>
+                            )}
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,3 +6,4 @@
 
 export { default as AdminSidebar } from './AdminSidebar';
 export { default as AdminHeader } from './AdminHeader';
+export { default as CommandPalette } from './CommandPalette';
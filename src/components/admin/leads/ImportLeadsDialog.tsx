@@ -0,0 +1,220 @@
+/**
+ * ImportLeadsDialog Component
+ *
+ * Imports leads from a CSV file. Choosing a file runs a dry run that
+ * matches columns by header name and previews every row as ready,
+ * duplicate (email already exists) or invalid. The admin can change the
+ * column mapping, which reruns the preview, before importing the ready rows.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { IMPORT_FIELDS } from '@/lib/submissionCsv';
+import type {
+  SubmissionImportField,
+  SubmissionImportMapping,
+  SubmissionImportResult,
+  SubmissionImportRowStatus,
+} from '@/types/admin';
+
+interface ImportLeadsDialogProps {
+  onClose: () => void;
+  // Called after leads were created
+  onImported: () => void;
+}
+
+const STATUS_STYLES: Record<SubmissionImportRowStatus, { label: string; className: string }> = {
+  READY: { label: 'Ready', className: 'bg-green-100 text-green-800' },
+  DUPLICATE: { label: 'Duplicate', className: 'bg-yellow-100 text-yellow-800' },
+  INVALID: { label: 'Invalid', className: 'bg-red-100 text-red-800' },
+};
+
+export default function ImportLeadsDialog({ onClose, onImported }: ImportLeadsDialogProps) {
+  const [csv, setCsv] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [preview, setPreview] = useState<SubmissionImportResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Send the file to the import endpoint, as a dry run unless importing
+  const runImport = async (text: string, mapping: SubmissionImportMapping | undefined, dryRun: boolean) => {
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/submissions/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv: text, mapping, dryRun }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to import leads');
+      }
+
+      setPreview(result.data);
+      if (!dryRun && result.data.created > 0) {
+        onImported();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import leads');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    setCsv(text);
+    setFileName(file.name);
+    setPreview(null);
+    await runImport(text, undefined, true);
+  };
+
+  const handleMappingChange = (field: SubmissionImportField, header: string) => {
+    if (!csv || !preview) return;
+
+    const mapping = { ...preview.mapping };
+    if (header) {
+      mapping[field] = header;
+    } else {
+      delete mapping[field];
+    }
+    runImport(csv, mapping, true);
+  };
+
+  const isDone = preview !== null && !preview.dryRun;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="flex max-h-full w-full max-w-3xl flex-col rounded-lg bg-white shadow-xl">
+        <div className="border-b border-gray-200 px-6 py-4">
+          <h3 className="text-lg font-semibold text-gray-900">Import Leads from CSV</h3>
+          <p className="mt-1 text-sm text-gray-600">
+            Rows need the same details as the intake form. Rows with an email that
+            already exists are skipped.
+          </p>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-y-auto px-6 py-4">
+          {!isDone && (
+            <label className="block">
+              <span className="mb-1 block text-sm font-medium text-gray-700">CSV file</span>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileChange}
+                disabled={isWorking}
+                className="block w-full text-sm text-gray-700 file:mr-3 file:rounded-lg file:border-0 file:bg-blue-50 file:px-3 file:py-2 file:text-sm file:font-medium file:text-blue-700 hover:file:bg-blue-100"
+              />
+            </label>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {isDone && (
+            <p className="rounded-lg border border-green-200 bg-green-50 p-4 text-sm text-green-800">
+              Imported {preview.created} {preview.created === 1 ? 'lead' : 'leads'} from {fileName}.
+              {preview.totals.DUPLICATE + preview.totals.INVALID > 0 &&
+                ` Skipped ${preview.totals.DUPLICATE + preview.totals.INVALID} rows.`}
+            </p>
+          )}
+
+          {preview && !isDone && (
+            <>
+              {/* Column mapping */}
+              <div>
+                <p className="mb-2 text-sm font-medium text-gray-700">Columns</p>
+                <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                  {IMPORT_FIELDS.map(({ field, label }) => (
+                    <label key={field} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="text-gray-600">{label}</span>
+                      <select
+                        value={preview.mapping[field] ?? ''}
+                        onChange={(e) => handleMappingChange(field, e.target.value)}
+                        disabled={isWorking}
+                        className="w-44 rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm text-gray-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      >
+                        <option value="">Not imported</option>
+                        {preview.headers.map((header) => (
+                          <option key={header} value={header}>
+                            {header}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {/* Dry-run results */}
+              <p className="text-sm text-gray-700">
+                {preview.totals.READY} ready, {preview.totals.DUPLICATE} duplicate,{' '}
+                {preview.totals.INVALID} invalid
+              </p>
+              <div className="max-h-72 overflow-y-auto rounded-lg border border-gray-200">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="sticky top-0 bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Row</th>
+                      <th scope="col" className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Lead</th>
+                      <th scope="col" className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Status</th>
+                      <th scope="col" className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Problems</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 bg-white">
+                    {preview.rows.map((row) => (
+                      <tr key={row.row}>
+                        <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                        <td className="px-3 py-2">
+                          <div className="text-gray-900">{row.businessName || row.fullName || '—'}</div>
+                          <div className="text-xs text-gray-500">{row.email}</div>
+                        </td>
+                        <td className="px-3 py-2">
+                          <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[row.status].className}`}>
+                            {STATUS_STYLES[row.status].label}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-xs text-gray-600">
+                          {Object.values(row.errors).join('; ')}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 border-t border-gray-200 px-6 py-4">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isWorking}
+            className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+          >
+            {isDone ? 'Close' : 'Cancel'}
+          </button>
+          {!isDone && (
+            <button
+              type="button"
+              onClick={() => csv && preview && runImport(csv, preview.mapping, false)}
+              disabled={isWorking || !preview || preview.totals.READY === 0}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isWorking
+                ? 'Working...'
+                : `Import ${preview?.totals.READY ?? 0} ${preview?.totals.READY === 1 ? 'lead' : 'leads'}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 /**
  * LeadList Component
  *
- * Client component that displays a list of leads with search, filtering, and pagination.
+ * Client component that displays a list of leads with search, filtering, sorting,
+ * saved views, CSV export and import, and pagination.
  * Leads are submissions where status is NOT "PAID" (i.e., NEW or CONTACTED).
  */
 
@@ -13,7 +14,12 @@ import DataTable, { Column } from '../shared/DataTable';
 import SearchFilter from '../shared/SearchFilter';
 import Pagination from '../shared/Pagination';
 import StatusBadge from '../shared/StatusBadge';
-import type { SubmissionStatus, PaginatedResponse } from '@/types/admin';
+import AdvancedFilters from '../shared/AdvancedFilters';
+import SavedViews from '../shared/SavedViews';
+import ExportCsvLink from '../shared/ExportCsvLink';
+import ImportLeadsDialog from './ImportLeadsDialog';
+import { DEFAULT_SORT, toggleSort, sortToParams, sortFromParams } from '@/lib/admin/listFilters';
+import type { SubmissionStatus, SubmissionSort, SubmissionSortField, PaginatedResponse } from '@/types/admin';
 import type { Submission } from '@/lib/admin/queries';
 
 interface LeadListProps {
@@ -46,6 +52,17 @@ export default function LeadList({ initialData }: LeadListProps) {
   const [search, setSearch] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const [statusFilter, setStatusFilter] = useState<SubmissionStatus | ''>('');
+  const [advancedFilters, setAdvancedFilters] = useState<Record<string, string>>({});
+  const [sort, setSort] = useState<SubmissionSort>(DEFAULT_SORT);
+  const [showImport, setShowImport] = useState(false);
+
+  // Everything on screen as list query parameters, for saved views
+  const viewFilters: Record<string, string> = {
+    ...advancedFilters,
+    ...(search && { search }),
+    ...(statusFilter && { status: statusFilter }),
+    ...sortToParams(sort),
+  };
 
   // Fetch leads from API
   const fetchLeads = useCallback(async () => {
@@ -58,15 +75,20 @@ export default function LeadList({ initialData }: LeadListProps) {
       params.set('limit', '10');
 
       // Filter for leads only (NEW or CONTACTED)
-      // Note: We'll handle this on the API side with the status filter
       if (statusFilter) {
         params.set('status', statusFilter);
+      } else {
+        params.set('excludeStatus', 'PAID');
       }
 
       if (search) {
         params.set('search', search);
       }
 
+      Object.entries({ ...advancedFilters, ...sortToParams(sort) }).forEach(([key, value]) => {
+        params.set(key, value);
+      });
+
       const response = await fetch(`/api/admin/submissions?${params.toString()}`);
       const result = await response.json();
 
@@ -74,20 +96,13 @@ export default function LeadList({ initialData }: LeadListProps) {
         throw new Error(result.error || 'Failed to fetch leads');
       }
 
-      // Filter out PAID submissions on client side if no status filter is set
-      if (!statusFilter) {
-        result.data.items = result.data.items.filter(
-          (item: Submission) => item.status !== 'PAID'
-        );
-      }
-
       setData(result.data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
       setIsLoading(false);
     }
-  }, [currentPage, search, statusFilter]);
+  }, [currentPage, search, statusFilter, advancedFilters, sort]);
 
   // Fetch leads on mount and when filters change
   useEffect(() => {
@@ -117,11 +132,33 @@ export default function LeadList({ initialData }: LeadListProps) {
     setCurrentPage(1); // Reset to first page on filter change
   };
 
+  // Handle advanced filter change
+  const handleAdvancedFiltersChange = (values: Record<string, string>) => {
+    setAdvancedFilters(values);
+    setCurrentPage(1);
+  };
+
+  // Handle column header click
+  const handleSortChange = (sortKey: string) => {
+    setSort(toggleSort(sort, sortKey as SubmissionSortField));
+    setCurrentPage(1);
+  };
+
+  // Apply a saved view's filters and sort
+  const handleApplyView = ({ search: viewSearch, status, sortBy, sortOrder, ...rest }: Record<string, string>) => {
+    setSearch(viewSearch || '');
+    setStatusFilter((status as SubmissionStatus) || '');
+    setSort(sortFromParams({ sortBy, sortOrder }));
+    setAdvancedFilters(rest);
+    setCurrentPage(1);
+  };
+
   // Define table columns
   const columns: Column<Submission>[] = [
     {
       key: 'fullName',
       header: 'Name',
+      sortKey: 'fullName',
       render: (lead) => (
         <div>
           <p className="font-medium text-gray-900">{lead.fullName}</p>
@@ -132,6 +169,7 @@ export default function LeadList({ initialData }: LeadListProps) {
     {
       key: 'businessName',
       header: 'Business',
+      sortKey: 'businessName',
       render: (lead) => (
         <div>
           <p className="font-medium text-gray-900">{lead.businessName}</p>
@@ -144,6 +182,7 @@ export default function LeadList({ initialData }: LeadListProps) {
     {
       key: 'industryType',
       header: 'Industry',
+      sortKey: 'industryType',
       render: (lead) => (
         <span className="capitalize text-gray-700">{lead.industryType}</span>
       ),
@@ -151,6 +190,7 @@ export default function LeadList({ initialData }: LeadListProps) {
     {
       key: 'status',
       header: 'Status',
+      sortKey: 'status',
       render: (lead) => (
         <StatusBadge status={lead.status as SubmissionStatus} size="sm" />
       ),
@@ -158,6 +198,7 @@ export default function LeadList({ initialData }: LeadListProps) {
     {
       key: 'createdAt',
       header: 'Date',
+      sortKey: 'createdAt',
       render: (lead) => {
         const days = daysSince(lead.createdAt);
         return (
@@ -217,6 +258,12 @@ export default function LeadList({ initialData }: LeadListProps) {
             <option value="NEW">New</option>
             <option value="CONTACTED">Contacted</option>
           </select>
+
+          <AdvancedFilters
+            values={advancedFilters}
+            onChange={handleAdvancedFiltersChange}
+            fields={['industryType', 'budgetRange', 'timeline', 'created']}
+          />
         </div>
 
         {/* Results count */}
@@ -227,6 +274,27 @@ export default function LeadList({ initialData }: LeadListProps) {
         )}
       </div>
 
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <SavedViews list="LEADS" currentFilters={viewFilters} onApply={handleApplyView} />
+        <div className="flex items-center gap-4">
+          <button
+            type="button"
+            onClick={() => setShowImport(true)}
+            className="text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            Import CSV
+          </button>
+          <ExportCsvLink
+            list="LEADS"
+            params={statusFilter ? viewFilters : { ...viewFilters, excludeStatus: 'PAID' }}
+          />
+        </div>
+      </div>
+
+      {showImport && (
+        <ImportLeadsDialog onClose={() => setShowImport(false)} onImported={fetchLeads} />
+      )}
+
       {/* Error message */}
       {error && (
         <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
@@ -247,6 +315,9 @@ export default function LeadList({ initialData }: LeadListProps) {
         keyExtractor={(lead) => lead.id}
         onRowClick={handleRowClick}
         isLoading={isLoading}
+        sortBy={sort.sortBy}
+        sortOrder={sort.sortOrder}
+        onSortChange={handleSortChange}
         emptyMessage="No leads found. Leads will appear here when intake forms are submitted."
         rowClassName={(lead) => {
           // Highlight new leads that haven't been contacted
@@ -8,3 +8,4 @@ export { default as LeadList } from './LeadList';
 export { default as LeadStatusActions } from './LeadStatusActions';
 export { default as NotesEditor } from './NotesEditor';
 export { default as LeadDetailContent } from './LeadDetailContent';
+export { default as ImportLeadsDialog } from './ImportLeadsDialog';
@@ -1,7 +1,8 @@
 /**
  * ProjectList Component
  *
- * Client component that displays a list of projects with search, filtering, and pagination.
+ * Client component that displays a list of projects with search, filtering, sorting,
+ * saved views, CSV export, and pagination.
  * Shows all submissions with their project status for tracking project progress.
  */
 
@@ -11,9 +12,13 @@ import { useState, useEffect, useCallback } from 'react';
 import DataTable, { Column } from '../shared/DataTable';
 import SearchFilter from '../shared/SearchFilter';
 import Pagination from '../shared/Pagination';
+import AdvancedFilters from '../shared/AdvancedFilters';
+import SavedViews from '../shared/SavedViews';
+import ExportCsvLink from '../shared/ExportCsvLink';
 import ProjectStatusBadge from './ProjectStatusBadge';
 import ProjectStatusActions from './ProjectStatusActions';
-import type { ProjectStatus, PaginatedResponse } from '@/types/admin';
+import { DEFAULT_SORT, toggleSort, sortToParams, sortFromParams } from '@/lib/admin/listFilters';
+import type { ProjectStatus, SubmissionSort, SubmissionSortField, PaginatedResponse } from '@/types/admin';
 import type { Submission } from '@/lib/admin/queries';
 
 interface ProjectListProps {
@@ -38,6 +43,16 @@ export default function ProjectList({ initialData }: ProjectListProps) {
   const [search, setSearch] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const [statusFilter, setStatusFilter] = useState<ProjectStatus | ''>('');
+  const [advancedFilters, setAdvancedFilters] = useState<Record<string, string>>({});
+  const [sort, setSort] = useState<SubmissionSort>(DEFAULT_SORT);
+
+  // Everything on screen as list query parameters, for saved views
+  const viewFilters: Record<string, string> = {
+    ...advancedFilters,
+    ...(search && { search }),
+    ...(statusFilter && { projectStatus: statusFilter }),
+    ...sortToParams(sort),
+  };
 
   // Fetch projects from API
   const fetchProjects = useCallback(async () => {
@@ -57,6 +72,10 @@ export default function ProjectList({ initialData }: ProjectListProps) {
         params.set('search', search);
       }
 
+      Object.entries({ ...advancedFilters, ...sortToParams(sort) }).forEach(([key, value]) => {
+        params.set(key, value);
+      });
+
       const response = await fetch(`/api/admin/submissions?${params.toString()}`);
       const result = await response.json();
 
@@ -70,7 +89,7 @@ export default function ProjectList({ initialData }: ProjectListProps) {
     } finally {
       setIsLoading(false);
     }
-  }, [currentPage, search, statusFilter]);
+  }, [currentPage, search, statusFilter, advancedFilters, sort]);
 
   // Fetch projects on mount and when filters change
   useEffect(() => {
@@ -95,6 +114,27 @@ export default function ProjectList({ initialData }: ProjectListProps) {
     setCurrentPage(1);
   };
 
+  // Handle advanced filter change
+  const handleAdvancedFiltersChange = (values: Record<string, string>) => {
+    setAdvancedFilters(values);
+    setCurrentPage(1);
+  };
+
+  // Handle column header click
+  const handleSortChange = (sortKey: string) => {
+    setSort(toggleSort(sort, sortKey as SubmissionSortField));
+    setCurrentPage(1);
+  };
+
+  // Apply a saved view's filters and sort
+  const handleApplyView = ({ search: viewSearch, projectStatus, sortBy, sortOrder, ...rest }: Record<string, string>) => {
+    setSearch(viewSearch || '');
+    setStatusFilter((projectStatus as ProjectStatus) || '');
+    setSort(sortFromParams({ sortBy, sortOrder }));
+    setAdvancedFilters(rest);
+    setCurrentPage(1);
+  };
+
   // Handle project update
   const handleProjectUpdate = async (
     projectId: number,
@@ -128,6 +168,7 @@ export default function ProjectList({ initialData }: ProjectListProps) {
     {
       key: 'client',
       header: 'Client',
+      sortKey: 'fullName',
       render: (project) => (
         <div>
           <p className="font-medium text-gray-900">{project.fullName}</p>
@@ -138,6 +179,7 @@ export default function ProjectList({ initialData }: ProjectListProps) {
     {
       key: 'business',
       header: 'Business',
+      sortKey: 'businessName',
       render: (project) => (
         <div>
           <p className="font-medium text-gray-900">{project.businessName}</p>
@@ -148,6 +190,7 @@ export default function ProjectList({ initialData }: ProjectListProps) {
     {
       key: 'projectStatus',
       header: 'Project Status',
+      sortKey: 'projectStatus',
       render: (project) => (
         <ProjectStatusBadge
           status={project.projectStatus as ProjectStatus}
@@ -158,6 +201,7 @@ export default function ProjectList({ initialData }: ProjectListProps) {
     {
       key: 'goLiveDate',
       header: 'Go-Live Date',
+      sortKey: 'goLiveDate',
       render: (project) => (
         <span className="text-gray-700">
           {formatDate(project.goLiveDate)}
@@ -245,6 +289,12 @@ export default function ProjectList({ initialData }: ProjectListProps) {
             <option value="ON_HOLD">On Hold</option>
             <option value="CANCELLED">Cancelled</option>
           </select>
+
+          <AdvancedFilters
+            values={advancedFilters}
+            onChange={handleAdvancedFiltersChange}
+            fields={['industryType', 'timeline', 'deploymentStatus', 'created', 'paid']}
+          />
         </div>
 
         {/* Results count */}
@@ -255,6 +305,11 @@ export default function ProjectList({ initialData }: ProjectListProps) {
         )}
       </div>
 
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <SavedViews list="PROJECTS" currentFilters={viewFilters} onApply={handleApplyView} />
+        <ExportCsvLink list="PROJECTS" params={viewFilters} />
+      </div>
+
       {/* Error message */}
       {error && (
         <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
@@ -274,6 +329,9 @@ export default function ProjectList({ initialData }: ProjectListProps) {
         data={data?.items || []}
         keyExtractor={(project) => project.id}
         isLoading={isLoading}
+        sortBy={sort.sortBy}
+        sortOrder={sort.sortOrder}
+        onSortChange={handleSortChange}
         emptyMessage="No projects found. Projects will appear here when submissions are created."
         rowClassName={(project) => {
           // Highlight projects that need attention
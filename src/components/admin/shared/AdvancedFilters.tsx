@@ -0,0 +1,183 @@
+/**
+ * AdvancedFilters Component
+ *
+ * A "Filters" button that opens a panel of extra list filters: intake
+ * answers, billing and deployment status, and created/paid date ranges.
+ * Each list chooses which fields to show. Values use the same names as the
+ * /api/admin/submissions query parameters.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { BUDGET_RANGE_OPTIONS, INDUSTRY_TYPE_OPTIONS, TIMELINE_OPTIONS } from '@/lib/intakeOptions';
+import {
+  VALID_BILLING_STATUSES,
+  VALID_DEPLOYMENT_STATUSES,
+} from '@/lib/admin/listFilters';
+
+export type AdvancedFilterField =
+  | 'industryType'
+  | 'budgetRange'
+  | 'timeline'
+  | 'billingStatus'
+  | 'deploymentStatus'
+  | 'created'
+  | 'paid';
+
+interface AdvancedFiltersProps {
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+  fields: AdvancedFilterField[];
+}
+
+// Turn an enum value like "NOT_DEPLOYED" into "Not deployed"
+function toLabel(value: string): string {
+  const text = value.toLowerCase().replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+const SELECT_FIELDS: Record<
+  Exclude<AdvancedFilterField, 'created' | 'paid'>,
+  { label: string; options: { value: string; label: string }[] }
+> = {
+  industryType: { label: 'Industry', options: INDUSTRY_TYPE_OPTIONS },
+  budgetRange: { label: 'Budget', options: BUDGET_RANGE_OPTIONS },
+  timeline: { label: 'Timeline', options: TIMELINE_OPTIONS },
+  billingStatus: {
+    label: 'Billing status',
+    options: VALID_BILLING_STATUSES.map((status) => ({ value: status, label: toLabel(status) })),
+  },
+  deploymentStatus: {
+    label: 'Deployment',
+    options: VALID_DEPLOYMENT_STATUSES.map((status) => ({ value: status, label: toLabel(status) })),
+  },
+};
+
+const DATE_FIELDS = {
+  created: { label: 'Submitted', from: 'createdFrom', to: 'createdTo' },
+  paid: { label: 'Paid', from: 'paidFrom', to: 'paidTo' },
+};
+
+const inputClassName =
+  'w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+export default function AdvancedFilters({ values, onChange, fields }: AdvancedFiltersProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Keys this panel controls, for the count badge and "Clear filters"
+  const keys = fields.flatMap((field) =>
+    field === 'created' || field === 'paid'
+      ? [DATE_FIELDS[field].from, DATE_FIELDS[field].to]
+      : [field]
+  );
+  const activeCount = keys.filter((key) => values[key]).length;
+
+  const setValue = (key: string, value: string) => {
+    const next = { ...values };
+    if (value) {
+      next[key] = value;
+    } else {
+      delete next[key];
+    }
+    onChange(next);
+  };
+
+  const clearAll = () => {
+    const next = { ...values };
+    keys.forEach((key) => delete next[key]);
+    onChange(next);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 rounded-lg border px-3 py-2 text-sm font-medium transition-colors ${
+          activeCount > 0
+            ? 'border-blue-300 bg-blue-50 text-blue-700'
+            : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+        }`}
+        aria-expanded={isOpen}
+      >
+        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M12 3c2.755 0 5.455.232 8.083.678.533.09.917.556.917 1.096v1.044a2.25 2.25 0 01-.659 1.591l-5.432 5.432a2.25 2.25 0 00-.659 1.591v2.927a2.25 2.25 0 01-1.244 2.013L9.75 21v-6.568a2.25 2.25 0 00-.659-1.591L3.659 7.409A2.25 2.25 0 013 5.818V4.774c0-.54.384-1.006.917-1.096A48.32 48.32 0 0112 3z" />
+        </svg>
+        Filters
+        {activeCount > 0 && (
+          <span className="rounded-full bg-blue-600 px-1.5 text-xs text-white">{activeCount}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 z-20 mt-2 w-80 space-y-3 rounded-lg border border-gray-200 bg-white p-4 shadow-lg">
+          {fields.map((field) => {
+            if (field === 'created' || field === 'paid') {
+              const range = DATE_FIELDS[field];
+              return (
+                <div key={field}>
+                  <p className="mb-1 text-xs font-medium text-gray-600">{range.label}</p>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="date"
+                      value={values[range.from] || ''}
+                      onChange={(e) => setValue(range.from, e.target.value)}
+                      className={inputClassName}
+                      aria-label={`${range.label} from`}
+                    />
+                    <span className="text-xs text-gray-400">to</span>
+                    <input
+                      type="date"
+                      value={values[range.to] || ''}
+                      onChange={(e) => setValue(range.to, e.target.value)}
+                      className={inputClassName}
+                      aria-label={`${range.label} to`}
+                    />
+                  </div>
+                </div>
+              );
+            }
+
+            const select = SELECT_FIELDS[field];
+            return (
+              <label key={field} className="block">
+                <span className="mb-1 block text-xs font-medium text-gray-600">{select.label}</span>
+                <select
+                  value={values[field] || ''}
+                  onChange={(e) => setValue(field, e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">Any</option>
+                  {select.options.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            );
+          })}
+
+          <div className="flex justify-between border-t border-gray-100 pt-3">
+            <button
+              type="button"
+              onClick={clearAll}
+              disabled={activeCount === 0}
+              className="text-sm text-gray-500 hover:text-gray-700 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Clear filters
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              className="text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
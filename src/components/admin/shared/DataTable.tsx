@@ -2,12 +2,14 @@
  * DataTable Component
  *
  * A reusable data table component for displaying tabular data in the admin section.
- * Supports custom column rendering, row click handlers, and loading states.
+ * Supports custom column rendering, row click handlers, loading states, and
+ * sortable columns (sorting itself is left to the caller, usually the API).
  */
 
 'use client';
 
 import { ReactNode } from 'react';
+import type { SortOrder } from '@/types/admin';
 
 export interface Column<T> {
   key: string;
@@ -15,6 +17,8 @@ export interface Column<T> {
   render?: (item: T, index: number) => ReactNode;
   className?: string;
   headerClassName?: string;
+  // Field the header sorts by when clicked; omit for unsortable columns
+  sortKey?: string;
 }
 
 interface DataTableProps<T> {
@@ -25,6 +29,9 @@ interface DataTableProps<T> {
   isLoading?: boolean;
   emptyMessage?: string;
   rowClassName?: (item: T) => string;
+  sortBy?: string;
+  sortOrder?: SortOrder;
+  onSortChange?: (sortKey: string) => void;
 }
 
 function DataTableSkeleton({ columns }: { columns: number }) {
@@ -43,6 +50,59 @@ function DataTableSkeleton({ columns }: { columns: number }) {
   );
 }
 
+/**
+ * Table header cell; a button that reports clicks when the column is
+ * sortable. Exported for tables that render their own rows.
+ */
+export function ColumnHeader<T>({
+  column,
+  sortBy,
+  sortOrder,
+  onSortChange,
+}: {
+  column: Column<T>;
+  sortBy?: string;
+  sortOrder?: SortOrder;
+  onSortChange?: (sortKey: string) => void;
+}) {
+  return (
+    <th
+      scope="col"
+      className={`px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 ${column.headerClassName || ''}`}
+      aria-sort={
+        column.sortKey && column.sortKey === sortBy
+          ? sortOrder === 'asc' ? 'ascending' : 'descending'
+          : undefined
+      }
+    >
+      {column.sortKey && onSortChange ? (
+        <button
+          type="button"
+          onClick={() => onSortChange(column.sortKey!)}
+          className="group inline-flex items-center gap-1 uppercase tracking-wider hover:text-gray-700"
+        >
+          {column.header}
+          <svg
+            className={`h-3 w-3 ${column.sortKey === sortBy ? 'text-gray-700' : 'text-gray-300 group-hover:text-gray-400'}`}
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+            strokeWidth={2.5}
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              d={column.sortKey === sortBy && sortOrder === 'asc' ? 'M4.5 15.75l7.5-7.5 7.5 7.5' : 'M19.5 8.25l-7.5 7.5-7.5-7.5'}
+            />
+          </svg>
+        </button>
+      ) : (
+        column.header
+      )}
+    </th>
+  );
+}
+
 export default function DataTable<T>({
   columns,
   data,
@@ -51,6 +111,9 @@ export default function DataTable<T>({
   isLoading = false,
   emptyMessage = 'No data found',
   rowClassName,
+  sortBy,
+  sortOrder,
+  onSortChange,
 }: DataTableProps<T>) {
   return (
     <div className="overflow-x-auto">
@@ -58,13 +121,13 @@ export default function DataTable<T>({
           <thead className="bg-gray-50">
             <tr>
               {columns.map((column) => (
-                <th
+                <ColumnHeader
                   key={column.key}
-                  scope="col"
-                  className={`px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 ${column.headerClassName || ''}`}
-                >
-                  {column.header}
-                </th>
+                  column={column}
+                  sortBy={sortBy}
+                  sortOrder={sortOrder}
+                  onSortChange={onSortChange}
+                />
               ))}
             </tr>
           </thead>
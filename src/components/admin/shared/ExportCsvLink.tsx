@@ -0,0 +1,33 @@
+/**
+ * ExportCsvLink Component
+ *
+ * Downloads the rows of a list, with its current filters and sort, as a
+ * CSV file from /api/admin/submissions/export.
+ */
+
+'use client';
+
+import type { SavedViewList } from '@/types/admin';
+
+interface ExportCsvLinkProps {
+  list: SavedViewList;
+  // List query parameters, as sent to /api/admin/submissions
+  params: Record<string, string>;
+}
+
+export default function ExportCsvLink({ list, params }: ExportCsvLinkProps) {
+  const query = new URLSearchParams({ ...params, list });
+
+  return (
+    <a
+      href={`/api/admin/submissions/export?${query.toString()}`}
+      className="inline-flex items-center gap-1.5 text-sm font-medium text-blue-600 hover:text-blue-700"
+      download
+    >
+      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
+      </svg>
+      Export CSV
+    </a>
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * SavedViews Component
+ *
+ * Lets an admin save a list's current filters and sort under a name, such
+ * as "overdue restaurants", and switch between their saved views. Views
+ * are stored per admin through /api/admin/saved-views.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { SavedView, SavedViewList } from '@/types/admin';
+
+interface SavedViewsProps {
+  list: SavedViewList;
+  // List query parameters currently applied
+  currentFilters: Record<string, string>;
+  onApply: (filters: Record<string, string>) => void;
+}
+
+// Compare filters regardless of key order
+function isSameFilters(a: Record<string, string>, b: Record<string, string>): boolean {
+  const aKeys = Object.keys(a).filter((key) => a[key]);
+  const bKeys = Object.keys(b).filter((key) => b[key]);
+  return aKeys.length === bKeys.length && aKeys.every((key) => a[key] === b[key]);
+}
+
+export default function SavedViews({ list, currentFilters, onApply }: SavedViewsProps) {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchViews = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/saved-views?list=${list}`);
+      const result = await response.json();
+      if (result.success && Array.isArray(result.data)) {
+        setViews(result.data);
+      }
+    } catch (err) {
+      console.error('Error fetching saved views:', err);
+    }
+  }, [list]);
+
+  useEffect(() => {
+    fetchViews();
+  }, [fetchViews]);
+
+  // The saved view matching what's on screen, if any
+  const activeView = views.find((view) => isSameFilters(view.filters, currentFilters));
+
+  const handleSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const view = views.find((item) => item.id === parseInt(e.target.value, 10));
+    onApply(view ? view.filters : {});
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || isSaving) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/saved-views', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ list, name: name.trim(), filters: currentFilters }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to save view');
+      }
+
+      setViews((prev) => [...prev, result.data].sort((a, b) => a.name.localeCompare(b.name)));
+      setIsNaming(false);
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save view');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeView || !confirm(`Delete the saved view "${activeView.name}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/saved-views/${activeView.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete view');
+      }
+
+      setViews((prev) => prev.filter((view) => view.id !== activeView.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete view');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={activeView?.id ?? ''}
+        onChange={handleSelect}
+        className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        aria-label="Saved views"
+      >
+        <option value="">{views.length > 0 ? 'Saved views' : 'No saved views'}</option>
+        {views.map((view) => (
+          <option key={view.id} value={view.id}>
+            {view.name}
+          </option>
+        ))}
+      </select>
+
+      {activeView ? (
+        <button
+          type="button"
+          onClick={handleDelete}
+          className="text-sm text-gray-500 hover:text-red-600"
+        >
+          Delete view
+        </button>
+      ) : isNaming ? (
+        <form onSubmit={handleSave} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="View name"
+            maxLength={60}
+            autoFocus
+            className="w-40 rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!name.trim() || isSaving}
+            className="rounded-lg bg-blue-600 px-3 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setIsNaming(false);
+              setError(null);
+            }}
+            className="text-sm text-gray-500 hover:text-gray-700"
+          >
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setIsNaming(true)}
+          className="text-sm font-medium text-blue-600 hover:text-blue-700"
+        >
+          Save view
+        </button>
+      )}
+
+      {error && <p className="w-full text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
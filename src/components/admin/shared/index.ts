@@ -8,6 +8,11 @@ export { default as StatusBadge } from './StatusBadge';
 export { default as DataTable } from './DataTable';
 export { default as SearchFilter } from './SearchFilter';
 export { default as Pagination } from './Pagination';
+export { default as AdvancedFilters } from './AdvancedFilters';
+export { default as SavedViews } from './SavedViews';
+export { default as ExportCsvLink } from './ExportCsvLink';
 
 // Re-export types from DataTable
+export { ColumnHeader } from './DataTable';
 export type { Column } from './DataTable';
+export type { AdvancedFilterField } from './AdvancedFilters';
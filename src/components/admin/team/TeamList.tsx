@@ -0,0 +1,277 @@
+/**
+ * TeamList Component
+ *
+ * Client component that lists admin user accounts with inline role changes,
+ * activation toggles and a form for adding a new teammate.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, FormEvent } from 'react';
+import DataTable, { Column } from '../shared/DataTable';
+import type { AdminRole, AdminUser } from '@/types/admin';
+
+const ROLE_OPTIONS: { value: AdminRole; label: string; description: string }[] = [
+  { value: 'OWNER', label: 'Owner', description: 'Full access, including team management' },
+  { value: 'SALES', label: 'Sales', description: 'Leads, notes and project status' },
+  { value: 'DESIGNER', label: 'Designer', description: 'Files, projects and deployments' },
+  { value: 'BILLING', label: 'Billing', description: 'Payment links and billing status' },
+];
+
+// Format date for display
+function formatDate(date: Date | string | null): string {
+  if (!date) return 'Never';
+  const d = new Date(date);
+  return d.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+export default function TeamList() {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // New user form state
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<AdminRole>('SALES');
+  const [isCreating, setIsCreating] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Fetch users from API
+  const fetchUsers = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/users');
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch users');
+      }
+
+      setUsers(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  // Send a PATCH for a single user and refresh the row
+  const updateUser = async (id: number, data: Partial<{ role: AdminRole; isActive: boolean }>) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/users/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update user');
+      }
+
+      setUsers((prev) => prev.map((user) => (user.id === id ? result.data : user)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  // Create a new user
+  const handleCreate = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setFormError(null);
+    setIsCreating(true);
+
+    try {
+      const response = await fetch('/api/admin/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, name, password, role }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to create user');
+      }
+
+      setEmail('');
+      setName('');
+      setPassword('');
+      setRole('SALES');
+      await fetchUsers();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const columns: Column<AdminUser>[] = [
+    {
+      key: 'user',
+      header: 'User',
+      render: (item) => (
+        <div>
+          <p className="font-medium text-gray-900">{item.name}</p>
+          <p className="text-xs text-gray-500">{item.email}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'role',
+      header: 'Role',
+      render: (item) => (
+        <select
+          value={item.role}
+          onChange={(e) => updateUser(item.id, { role: e.target.value as AdminRole })}
+          className="rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm text-gray-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          aria-label={`Role for ${item.name}`}
+        >
+          {ROLE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      ),
+    },
+    {
+      key: 'lastLoginAt',
+      header: 'Last Login',
+      render: (item) => <span className="text-gray-700">{formatDate(item.lastLoginAt)}</span>,
+    },
+    {
+      key: 'status',
+      header: 'Status',
+      headerClassName: 'w-32',
+      render: (item) => (
+        <button
+          onClick={() => updateUser(item.id, { isActive: !item.isActive })}
+          className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium transition-colors ${
+            item.isActive
+              ? 'bg-green-100 text-green-700 hover:bg-green-200'
+              : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+          }`}
+          title={item.isActive ? 'Click to deactivate' : 'Click to reactivate'}
+        >
+          {item.isActive ? 'Active' : 'Deactivated'}
+        </button>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Error message */}
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+          <button
+            onClick={fetchUsers}
+            className="ml-2 font-medium underline hover:no-underline"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      <DataTable
+        columns={columns}
+        data={users}
+        keyExtractor={(item) => item.id}
+        isLoading={isLoading}
+        emptyMessage="No team members yet"
+      />
+
+      {/* Add user form */}
+      <div className="rounded-lg border border-gray-200 bg-white p-6">
+        <h2 className="text-lg font-semibold text-gray-900">Add Team Member</h2>
+        <form onSubmit={handleCreate} className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="team-name" className="block text-sm font-medium text-gray-700">
+              Name
+            </label>
+            <input
+              id="team-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="team-email" className="block text-sm font-medium text-gray-700">
+              Email
+            </label>
+            <input
+              id="team-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="team-password" className="block text-sm font-medium text-gray-700">
+              Temporary Password
+            </label>
+            <input
+              id="team-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              autoComplete="new-password"
+              className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="team-role" className="block text-sm font-medium text-gray-700">
+              Role
+            </label>
+            <select
+              id="team-role"
+              value={role}
+              onChange={(e) => setRole(e.target.value as AdminRole)}
+              className="mt-1 block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              {ROLE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label} - {option.description}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {formError && (
+            <p className="text-sm text-red-600 sm:col-span-2">{formError}</p>
+          )}
+
+          <div className="sm:col-span-2">
+            <button
+              type="submit"
+              disabled={isCreating}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isCreating ? 'Adding...' : 'Add Member'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
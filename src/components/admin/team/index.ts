@@ -0,0 +1,7 @@
+/**
+ * Team Components
+ *
+ * Export all components for managing admin user accounts.
+ */
+
+export { default as TeamList } from './TeamList';
@@ -0,0 +1,152 @@
+/**
+ * Audit Log Database Queries
+ *
+ * Records who changed what from the admin API and reads it back as a
+ * per-customer history. Every mutating /api/admin/* route calls
+ * recordAuditEvent() after its change succeeds.
+ */
+
+import { prisma } from '@/lib/db';
+import type {
+  AdminRole,
+  AdminSessionPayload,
+  AuditEntityType,
+  AuditEvent,
+  AuditFieldChange,
+  PaginatedResponse,
+  RecordAuditEventInput,
+} from '@/types/admin';
+
+// Bookkeeping fields that change on every write and add noise to diffs
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt']);
+
+/**
+ * Compute a field-level diff between two snapshots.
+ * A null `before` describes a create; a null `after` describes a delete.
+ */
+export function diffChanges(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+  fields?: string[]
+): Record<string, AuditFieldChange> {
+  const changes: Record<string, AuditFieldChange> = {};
+  const keys = new Set(fields ?? [...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue;
+
+    const from = before?.[key] ?? null;
+    const to = after?.[key] ?? null;
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Get the client IP address from proxy headers
+ */
+export function getClientIp(request: Request): string | null {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim();
+  }
+  return request.headers.get('x-real-ip');
+}
+
+/**
+ * Record an audit event for an admin mutation.
+ *
+ * Failures are logged and swallowed so that a logging problem never
+ * turns a successful change into an error response.
+ */
+export async function recordAuditEvent(
+  request: Request,
+  session: AdminSessionPayload,
+  input: RecordAuditEventInput
+): Promise<void> {
+  try {
+    const changes = diffChanges(input.before, input.after, input.fields);
+
+    // Skip updates that did not actually change anything
+    if (input.before && input.after && Object.keys(changes).length === 0) {
+      return;
+    }
+
+    await prisma.auditEvent.create({
+      data: {
+        actorId: session.userId,
+        actorName: session.name,
+        actorRole: session.role,
+        action: input.action,
+        entityType: input.entityType,
+        entityId: input.entityId != null ? String(input.entityId) : null,
+        customerId: input.customerId ?? null,
+        changes: Object.keys(changes).length > 0 ? JSON.stringify(changes) : null,
+        ipAddress: getClientIp(request),
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to record audit event ${input.action}:`, error);
+  }
+}
+
+/**
+ * Get the paginated audit history for a customer, newest first
+ */
+export async function getAuditEventsByCustomerId(
+  customerId: number,
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedResponse<AuditEvent>> {
+  const skip = (page - 1) * limit;
+  const where = { customerId };
+
+  const [total, items] = await Promise.all([
+    prisma.auditEvent.count({ where }),
+    prisma.auditEvent.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip,
+      take: limit,
+    }),
+  ]);
+
+  // Map Prisma results to AuditEvent type
+  const mappedItems: AuditEvent[] = items.map((item: {
+    id: number;
+    createdAt: Date;
+    actorId: number | null;
+    actorName: string;
+    actorRole: string;
+    action: string;
+    entityType: string;
+    entityId: string | null;
+    customerId: number | null;
+    changes: string | null;
+    ipAddress: string | null;
+  }) => ({
+    id: item.id,
+    createdAt: item.createdAt,
+    actorId: item.actorId,
+    actorName: item.actorName,
+    actorRole: item.actorRole as AdminRole,
+    action: item.action,
+    entityType: item.entityType as AuditEntityType,
+    entityId: item.entityId,
+    customerId: item.customerId,
+    changes: item.changes ? JSON.parse(item.changes) : null,
+    ipAddress: item.ipAddress,
+  }));
+
+  return {
+    items: mappedItems,
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Billing Portal Link Database Queries
+ *
+ * Customers manage their card and subscription in the Stripe billing portal.
+ * They reach it through a BillingPortalLink token that can be used any number
+ * of times until it expires. Issuing a new link revokes the customer's
+ * earlier links so only the most recently sent one works.
+ */
+
+import { createTokenLinkQueries } from '@/lib/admin/tokenLinkQueries';
+import type { AdminSessionPayload, BillingPortalLink } from '@/types/admin';
+
+export { SYSTEM_ISSUER_NAME } from '@/lib/admin/tokenLinkQueries';
+
+// How long a billing portal link stays valid
+export const BILLING_PORTAL_LINK_TTL_DAYS = 30;
+
+const links = createTokenLinkQueries<BillingPortalLink>({
+  model: 'billingPortalLink',
+  path: '/billing',
+  ttlDays: BILLING_PORTAL_LINK_TTL_DAYS,
+  usedAtField: 'lastUsedAt',
+});
+
+/**
+ * Build the public URL for a billing portal link
+ */
+export function getBillingPortalUrl(token: string): string {
+  return links.getUrl(token);
+}
+
+/**
+ * Whether a link can still be used to open the billing portal
+ */
+export function isBillingPortalLinkUsable(
+  link: Pick<BillingPortalLink, 'expiresAt' | 'revokedAt'>,
+  now: Date = new Date()
+): boolean {
+  return links.isUsable(link, now);
+}
+
+/**
+ * Issue a new billing portal link, revoking the customer's earlier links.
+ * Pass null as the issuer for links sent automatically.
+ */
+export async function createBillingPortalLink(
+  customerId: number,
+  createdBy: AdminSessionPayload | null,
+  now: Date = new Date()
+): Promise<BillingPortalLink> {
+  return links.create(customerId, createdBy, {}, now);
+}
+
+/**
+ * Look up a link by its token for the public billing page
+ */
+export async function getBillingPortalLinkByToken(token: string): Promise<BillingPortalLink | null> {
+  return links.getByToken(token);
+}
+
+/**
+ * Record that the customer opened the billing portal with a link
+ */
+export async function markBillingPortalLinkUsed(id: number): Promise<void> {
+  await links.markUsed(id);
+}
+
+/**
+ * Get the customer's most recent link, if any
+ */
+export async function getLatestBillingPortalLink(customerId: number): Promise<BillingPortalLink | null> {
+  return links.getLatest(customerId);
+}
@@ -11,6 +11,7 @@ import type {
   InitializeDeploymentInput,
   DomainStatus,
   DeploymentStatus,
+  SuspensionMode,
 } from '@/types/admin';
 
 /**
@@ -41,6 +42,8 @@ export async function getDeploymentByCustomerId(
     lastDeploymentAt: deployment.lastDeploymentAt,
     lastDeploymentId: deployment.lastDeploymentId,
     lastDeploymentError: deployment.lastDeploymentError,
+    suspendedAt: deployment.suspendedAt,
+    suspensionMode: deployment.suspensionMode as SuspensionMode | null,
     gitRepoUrl: deployment.gitRepoUrl,
     gitBranch: deployment.gitBranch,
   };
@@ -79,6 +82,8 @@ export async function createDeployment(
     lastDeploymentAt: deployment.lastDeploymentAt,
     lastDeploymentId: deployment.lastDeploymentId,
     lastDeploymentError: deployment.lastDeploymentError,
+    suspendedAt: deployment.suspendedAt,
+    suspensionMode: deployment.suspensionMode as SuspensionMode | null,
     gitRepoUrl: deployment.gitRepoUrl,
     gitBranch: deployment.gitBranch,
   };
@@ -99,6 +104,8 @@ export async function updateDeployment(
     lastDeploymentAt: Date | null;
     lastDeploymentId: string | null;
     lastDeploymentError: string | null;
+    suspendedAt: Date | null;
+    suspensionMode: SuspensionMode | null;
     gitRepoUrl: string | null;
     gitBranch: string;
   }>
@@ -122,6 +129,8 @@ export async function updateDeployment(
     lastDeploymentAt: deployment.lastDeploymentAt,
     lastDeploymentId: deployment.lastDeploymentId,
     lastDeploymentError: deployment.lastDeploymentError,
+    suspendedAt: deployment.suspendedAt,
+    suspensionMode: deployment.suspensionMode as SuspensionMode | null,
     gitRepoUrl: deployment.gitRepoUrl,
     gitBranch: deployment.gitBranch,
   };
@@ -172,6 +181,8 @@ export async function getDeploymentsByStatus(
     lastDeploymentAt: deployment.lastDeploymentAt,
     lastDeploymentId: deployment.lastDeploymentId,
     lastDeploymentError: deployment.lastDeploymentError,
+    suspendedAt: deployment.suspendedAt,
+    suspensionMode: deployment.suspensionMode as SuspensionMode | null,
     gitRepoUrl: deployment.gitRepoUrl,
     gitBranch: deployment.gitBranch,
   }));
@@ -0,0 +1,140 @@
+/**
+ * Deployment Run Database Queries
+ *
+ * Every Cloudflare deployment of a customer's site is kept as a
+ * DeploymentRun row, keyed by its Cloudflare deployment ID. Rows are
+ * created when we trigger a deployment or first see one on Cloudflare
+ * (e.g. from a git push), and refreshed from Cloudflare as the deployment
+ * moves through its stages. Rolling back to a deployment keeps its
+ * Cloudflare ID, so a rollback is recorded on the run it went back to.
+ */
+
+import { prisma } from '@/lib/db';
+import type {
+  DeploymentRun,
+  DeploymentRunStage,
+  DeploymentRunStatus,
+  DeploymentRunSyncData,
+} from '@/types/admin';
+
+/**
+ * Parse the stored stages JSON, falling back to no stages
+ */
+function parseStages(value: string): DeploymentRunStage[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Map a Prisma row to the DeploymentRun type
+ */
+function toDeploymentRun(
+  row: Omit<DeploymentRun, 'environment' | 'status' | 'stages'> & {
+    environment: string;
+    status: string;
+    stages: string;
+  }
+): DeploymentRun {
+  return {
+    ...row,
+    environment: row.environment as DeploymentRun['environment'],
+    status: row.status as DeploymentRunStatus,
+    stages: parseStages(row.stages),
+  };
+}
+
+/**
+ * Create or refresh the run for a Cloudflare deployment.
+ * `triggeredByName` is only set when the run is created.
+ */
+export async function recordDeploymentRun(
+  customerId: number,
+  data: DeploymentRunSyncData,
+  options: { triggeredByName?: string | null } = {}
+): Promise<DeploymentRun> {
+  const fields = { ...data, stages: JSON.stringify(data.stages) };
+
+  const run = await prisma.deploymentRun.upsert({
+    where: { cfDeploymentId: data.cfDeploymentId },
+    create: {
+      ...fields,
+      customerId,
+      triggeredByName: options.triggeredByName ?? null,
+    },
+    update: fields,
+  });
+
+  return toDeploymentRun(run);
+}
+
+/**
+ * Record that production was rolled back to a Cloudflare deployment,
+ * refreshing its run (or creating it if it was never seen).
+ */
+export async function recordDeploymentRollback(
+  customerId: number,
+  data: DeploymentRunSyncData,
+  rolledBackByName: string,
+  rolledBackAt: Date = new Date()
+): Promise<DeploymentRun> {
+  const fields = {
+    ...data,
+    stages: JSON.stringify(data.stages),
+    rolledBackAt,
+    rolledBackByName,
+  };
+
+  const run = await prisma.deploymentRun.upsert({
+    where: { cfDeploymentId: data.cfDeploymentId },
+    create: { ...fields, customerId },
+    update: fields,
+  });
+
+  return toDeploymentRun(run);
+}
+
+/**
+ * Mark a run failed without hearing back from Cloudflare, e.g. when it
+ * timed out. Does nothing if the run was never recorded.
+ */
+export async function failDeploymentRun(
+  cfDeploymentId: string,
+  error: string,
+  finishedAt: Date = new Date()
+): Promise<void> {
+  await prisma.deploymentRun.updateMany({
+    where: { cfDeploymentId, status: 'DEPLOYING' },
+    data: { status: 'FAILED', error, finishedAt },
+  });
+}
+
+/**
+ * Get a customer's deployment runs, newest first
+ */
+export async function getDeploymentRuns(
+  customerId: number,
+  limit: number = 25
+): Promise<DeploymentRun[]> {
+  const runs = await prisma.deploymentRun.findMany({
+    where: { customerId },
+    orderBy: { startedAt: 'desc' },
+    take: limit,
+  });
+
+  return runs.map(toDeploymentRun);
+}
+
+/**
+ * Get a single deployment run by ID
+ */
+export async function getDeploymentRunById(id: number): Promise<DeploymentRun | null> {
+  const run = await prisma.deploymentRun.findUnique({
+    where: { id },
+  });
+
+  return run ? toDeploymentRun(run) : null;
+}
@@ -3,16 +3,43 @@
  *
  * Centralized database query functions for customer file management.
  * All queries use Prisma client for type-safe database access.
+ *
+ * Replacing a file keeps the old row as an earlier version: every version
+ * points at the first one through originalFileId, and all but the newest
+ * have supersededAt set. Deleting moves a file and its earlier versions to
+ * the trash (deletedAt) for FILE_TRASH_RETENTION_DAYS before the purge job
+ * removes them for good. Listings only show current, untrashed files.
  */
 
 import { prisma } from '@/lib/db';
-import type { FileCategory, CreateFileInput, CustomerFile } from '@/types/admin';
+import type {
+  FileCategory,
+  CreateFileInput,
+  CustomerFile,
+  CustomerFileVariant,
+  CreateFileVariantInput,
+} from '@/types/admin';
 
 /**
  * Valid file categories
  */
 const VALID_CATEGORIES: FileCategory[] = ['LOGO', 'PHOTO', 'CONTENT', 'DOCUMENT', 'GENERAL'];
 
+/**
+ * The newest version of each file that is not in the trash
+ */
+const CURRENT_FILES = {
+  deletedAt: null,
+  supersededAt: null,
+};
+
+/**
+ * Include a file's image variants, smallest first
+ */
+const INCLUDE_VARIANTS = {
+  variants: { orderBy: { width: 'asc' as const } },
+};
+
 /**
  * Get all files for a customer, optionally filtered by category
  *
@@ -27,7 +54,9 @@ export async function getFilesByCustomerId(
   const where: {
     customerId: number;
     category?: string;
-  } = { customerId };
+    deletedAt: null;
+    supersededAt: null;
+  } = { customerId, ...CURRENT_FILES };
 
   if (category && VALID_CATEGORIES.includes(category)) {
     where.category = category;
@@ -35,6 +64,7 @@ export async function getFilesByCustomerId(
 
   const files = await prisma.customerFile.findMany({
     where,
+    include: INCLUDE_VARIANTS,
     orderBy: { createdAt: 'desc' },
   });
 
@@ -50,6 +80,7 @@ export async function getFilesByCustomerId(
 export async function getFileById(fileId: number): Promise<CustomerFile | null> {
   const file = await prisma.customerFile.findUnique({
     where: { id: fileId },
+    include: INCLUDE_VARIANTS,
   });
 
   return file as CustomerFile | null;
@@ -89,12 +120,51 @@ export async function createFileRecord(
       mimeType: data.mimeType,
       category: data.category || 'GENERAL',
       description: data.description || null,
+      originalFileId: data.originalFileId ?? null,
+      version: data.version ?? 1,
     },
   });
 
   return file as CustomerFile;
 }
 
+/**
+ * Record the stored variants of a file
+ *
+ * @param fileId - The original file's ID
+ * @param variants - Variants already written to storage
+ * @returns Created variant records
+ */
+export async function createFileVariantRecords(
+  fileId: number,
+  variants: CreateFileVariantInput[]
+): Promise<CustomerFileVariant[]> {
+  const created: CustomerFileVariant[] = [];
+
+  for (const variant of variants) {
+    const record = await prisma.customerFileVariant.create({
+      data: { fileId, ...variant },
+    });
+    created.push(record as CustomerFileVariant);
+  }
+
+  return created;
+}
+
+/**
+ * Get a single file variant by ID
+ *
+ * @param variantId - The variant's ID
+ * @returns Variant record or null if not found
+ */
+export async function getFileVariantById(variantId: number): Promise<CustomerFileVariant | null> {
+  const variant = await prisma.customerFileVariant.findUnique({
+    where: { id: variantId },
+  });
+
+  return variant as CustomerFileVariant | null;
+}
+
 /**
  * Update a file record
  *
@@ -132,6 +202,115 @@ export async function deleteFileRecord(fileId: number): Promise<CustomerFile> {
   return file as CustomerFile;
 }
 
+/**
+ * Where clause matching every version of a file
+ */
+function versionsOf(file: Pick<CustomerFile, 'id' | 'originalFileId'>) {
+  const originalFileId = file.originalFileId ?? file.id;
+  return { OR: [{ id: originalFileId }, { originalFileId }] };
+}
+
+/**
+ * Get every version of a file, newest first
+ *
+ * @param file - Any version of the file
+ * @returns All versions, including the one passed in
+ */
+export async function getFileVersions(
+  file: Pick<CustomerFile, 'id' | 'originalFileId'>
+): Promise<CustomerFile[]> {
+  const versions = await prisma.customerFile.findMany({
+    where: versionsOf(file),
+    orderBy: { version: 'desc' },
+  });
+
+  return versions as CustomerFile[];
+}
+
+/**
+ * Mark a file as replaced by a newer version
+ *
+ * @param fileId - The replaced file's ID
+ */
+export async function supersedeFile(fileId: number): Promise<void> {
+  await prisma.customerFile.update({
+    where: { id: fileId },
+    data: { supersededAt: new Date() },
+  });
+}
+
+/**
+ * Move a file and its earlier versions to the trash
+ *
+ * @param file - The file to delete
+ * @param deletedByName - Name of the admin deleting it
+ * @param now - Deletion time
+ */
+export async function moveFileToTrash(
+  file: Pick<CustomerFile, 'id' | 'originalFileId'>,
+  deletedByName: string,
+  now: Date = new Date()
+): Promise<void> {
+  await prisma.customerFile.updateMany({
+    where: { ...versionsOf(file), deletedAt: null },
+    data: { deletedAt: now, deletedByName },
+  });
+}
+
+/**
+ * Take a file and its earlier versions back out of the trash
+ *
+ * @param file - The trashed file
+ */
+export async function restoreFileFromTrash(
+  file: Pick<CustomerFile, 'id' | 'originalFileId'>
+): Promise<void> {
+  await prisma.customerFile.updateMany({
+    where: versionsOf(file),
+    data: { deletedAt: null, deletedByName: null },
+  });
+}
+
+/**
+ * Get the files in a customer's trash, most recently deleted first
+ *
+ * @param customerId - The customer's ID
+ * @returns Trashed files (newest version of each)
+ */
+export async function getTrashedFiles(customerId: number): Promise<CustomerFile[]> {
+  const files = await prisma.customerFile.findMany({
+    where: { customerId, deletedAt: { not: null }, supersededAt: null },
+    include: INCLUDE_VARIANTS,
+    orderBy: { deletedAt: 'desc' },
+  });
+
+  return files as CustomerFile[];
+}
+
+/**
+ * Get every file version that has been in the trash since before a date
+ *
+ * @param deletedBefore - Trash cutoff
+ * @returns Expired file versions with their variants
+ */
+export async function getExpiredTrashedFiles(deletedBefore: Date): Promise<CustomerFile[]> {
+  const files = await prisma.customerFile.findMany({
+    where: { deletedAt: { lt: deletedBefore } },
+    include: INCLUDE_VARIANTS,
+    orderBy: { id: 'asc' },
+  });
+
+  return files as CustomerFile[];
+}
+
+/**
+ * Days a deleted file stays in the trash before it is purged
+ */
+export function getTrashRetentionDays(): number {
+  const days = parseInt(process.env.FILE_TRASH_RETENTION_DAYS || '30', 10);
+  return isNaN(days) || days < 0 ? 30 : days;
+}
+
 /**
  * Get file count for a customer, optionally by category
  *
@@ -146,7 +325,9 @@ export async function getFileCount(
   const where: {
     customerId: number;
     category?: string;
-  } = { customerId };
+    deletedAt: null;
+    supersededAt: null;
+  } = { customerId, ...CURRENT_FILES };
 
   if (category && VALID_CATEGORIES.includes(category)) {
     where.category = category;
@@ -166,7 +347,7 @@ export async function getFileCategoryCounts(
 ): Promise<Record<FileCategory | 'ALL', number>> {
   const counts = await prisma.customerFile.groupBy({
     by: ['category'],
-    where: { customerId },
+    where: { customerId, ...CURRENT_FILES },
     _count: { category: true },
   });
 
@@ -197,13 +378,14 @@ export async function getFileCategoryCounts(
 
 /**
  * Get total storage used by a customer (sum of file sizes)
+ * Earlier versions count; files in the trash don't.
  *
  * @param customerId - The customer's ID
  * @returns Total bytes used
  */
 export async function getCustomerStorageUsed(customerId: number): Promise<number> {
   const result = await prisma.customerFile.aggregate({
-    where: { customerId },
+    where: { customerId, deletedAt: null },
     _sum: { fileSize: true },
   });
 
@@ -218,7 +400,7 @@ export async function getCustomerStorageUsed(customerId: number): Promise<number
  */
 export async function customerHasFiles(customerId: number): Promise<boolean> {
   const count = await prisma.customerFile.count({
-    where: { customerId },
+    where: { customerId, ...CURRENT_FILES },
     take: 1,
   });
 
@@ -254,6 +436,7 @@ export async function getFilesByMimeType(
   const files = await prisma.customerFile.findMany({
     where: {
       customerId,
+      ...CURRENT_FILES,
       mimeType: { startsWith: mimeTypePrefix },
     },
     orderBy: { createdAt: 'desc' },
@@ -276,6 +459,7 @@ export async function searchFiles(
   const files = await prisma.customerFile.findMany({
     where: {
       customerId,
+      ...CURRENT_FILES,
       fileName: { contains: searchTerm },
     },
     orderBy: { createdAt: 'desc' },
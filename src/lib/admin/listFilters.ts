@@ -0,0 +1,233 @@
+/**
+ * Submission List Filters
+ *
+ * Query parameters shared by the leads, customers, projects and billing
+ * lists. GET /api/admin/submissions parses them here, and saved views store
+ * the same parameters so a view is just a remembered query string. Safe to
+ * import from client components.
+ */
+
+import type {
+  BillingStatus,
+  DeploymentStatus,
+  ProjectStatus,
+  SortOrder,
+  SubmissionListFilters,
+  SubmissionSort,
+  SubmissionSortField,
+  SubmissionStatus,
+} from '@/types/admin';
+
+export const VALID_STATUSES: SubmissionStatus[] = ['NEW', 'CONTACTED', 'PAID'];
+export const VALID_PROJECT_STATUSES: ProjectStatus[] = [
+  'NOT_STARTED',
+  'JUST_STARTED',
+  'IN_PROGRESS',
+  'WAITING_FOR_FEEDBACK',
+  'FINISHED_AND_LIVE',
+  'ON_HOLD',
+  'CANCELLED',
+];
+export const VALID_BILLING_STATUSES: BillingStatus[] = ['PENDING', 'PAID', 'OVERDUE', 'CANCELLED', 'REFUNDED'];
+export const VALID_DEPLOYMENT_STATUSES: DeploymentStatus[] = ['NOT_DEPLOYED', 'DEPLOYING', 'DEPLOYED', 'FAILED'];
+
+export const VALID_SORT_FIELDS: SubmissionSortField[] = [
+  'createdAt',
+  'paidAt',
+  'fullName',
+  'businessName',
+  'industryType',
+  'status',
+  'projectStatus',
+  'billingStatus',
+  'goLiveDate',
+  'lastInvoiceDate',
+  'subscriptionCurrentPeriodEnd',
+];
+
+export const DEFAULT_SORT: SubmissionSort = { sortBy: 'createdAt', sortOrder: 'desc' };
+
+// Query parameters a saved view can hold; pagination is never saved
+export const LIST_FILTER_KEYS = [
+  'search',
+  'status',
+  'projectStatus',
+  'billingStatus',
+  'deploymentStatus',
+  'industryType',
+  'budgetRange',
+  'timeline',
+  'createdFrom',
+  'createdTo',
+  'paidFrom',
+  'paidTo',
+  'sortBy',
+  'sortOrder',
+] as const;
+
+export type ListFilterKey = (typeof LIST_FILTER_KEYS)[number];
+
+const ENUM_PARAMS: {
+  key: 'status' | 'excludeStatus' | 'projectStatus' | 'billingStatus' | 'deploymentStatus';
+  label: string;
+  values: string[];
+}[] = [
+  { key: 'status', label: 'status', values: VALID_STATUSES },
+  { key: 'excludeStatus', label: 'excluded status', values: VALID_STATUSES },
+  { key: 'projectStatus', label: 'project status', values: VALID_PROJECT_STATUSES },
+  { key: 'billingStatus', label: 'billing status', values: VALID_BILLING_STATUSES },
+  { key: 'deploymentStatus', label: 'deployment status', values: VALID_DEPLOYMENT_STATUSES },
+];
+
+const DATE_RANGES = [
+  { from: 'createdFrom', to: 'createdTo', label: 'created' },
+  { from: 'paidFrom', to: 'paidTo', label: 'paid' },
+] as const;
+
+/**
+ * Parse a YYYY-MM-DD date as midnight UTC
+ */
+function parseDay(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value ? null : date;
+}
+
+/**
+ * Validate list query parameters.
+ * Returns the filters and sort, or a message describing the first problem.
+ */
+export function parseListFilters(
+  params: URLSearchParams
+): { filters: SubmissionListFilters; sort: SubmissionSort; error?: undefined } | { error: string } {
+  const filters: SubmissionListFilters = {};
+
+  for (const { key, label, values } of ENUM_PARAMS) {
+    const value = params.get(key);
+    if (!value) continue;
+    if (!values.includes(value)) {
+      return { error: `Invalid ${label}. Must be one of: ${values.join(', ')}` };
+    }
+    (filters as Record<string, unknown>)[key] = value;
+  }
+
+  for (const key of ['search', 'industryType', 'budgetRange', 'timeline'] as const) {
+    const value = params.get(key)?.trim();
+    if (value) {
+      filters[key] = value;
+    }
+  }
+
+  for (const range of DATE_RANGES) {
+    for (const key of [range.from, range.to]) {
+      const value = params.get(key);
+      if (!value) continue;
+      const date = parseDay(value);
+      if (!date) {
+        return { error: `${key} must be a date in YYYY-MM-DD format` };
+      }
+      filters[key] = date;
+    }
+
+    const from = filters[range.from];
+    const to = filters[range.to];
+    if (from && to && from > to) {
+      return { error: `The ${range.label} date range ends before it starts` };
+    }
+  }
+
+  const sort = { ...DEFAULT_SORT };
+  const sortBy = params.get('sortBy');
+  if (sortBy) {
+    if (!VALID_SORT_FIELDS.includes(sortBy as SubmissionSortField)) {
+      return { error: `Invalid sortBy. Must be one of: ${VALID_SORT_FIELDS.join(', ')}` };
+    }
+    sort.sortBy = sortBy as SubmissionSortField;
+  }
+
+  const sortOrder = params.get('sortOrder');
+  if (sortOrder) {
+    if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+      return { error: 'Invalid sortOrder. Must be one of: asc, desc' };
+    }
+    sort.sortOrder = sortOrder as SortOrder;
+  }
+
+  return { filters, sort };
+}
+
+/**
+ * Validate the filters of a saved view: an object of known list query
+ * parameters whose values the list endpoint would accept
+ */
+export function validateSavedViewFilters(
+  value: unknown
+): { data: Record<string, string>; error?: undefined } | { data?: undefined; error: string } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'filters must be an object' };
+  }
+
+  const data: Record<string, string> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (!LIST_FILTER_KEYS.includes(key as ListFilterKey)) {
+      return { error: `Unknown filter: ${key}` };
+    }
+    if (typeof item !== 'string') {
+      return { error: `${key} must be a string` };
+    }
+    if (item.trim()) {
+      data[key] = item.trim();
+    }
+  }
+
+  const parsed = parseListFilters(new URLSearchParams(data));
+  if (parsed.error !== undefined) {
+    return { error: parsed.error };
+  }
+
+  return { data };
+}
+
+// Dates read best newest first; names and statuses A to Z
+const DESCENDING_FIRST: SubmissionSortField[] = [
+  'createdAt',
+  'paidAt',
+  'goLiveDate',
+  'lastInvoiceDate',
+  'subscriptionCurrentPeriodEnd',
+];
+
+/**
+ * Sort by a column, flipping the order when it's already the sorted column
+ */
+export function toggleSort(sort: SubmissionSort, sortBy: SubmissionSortField): SubmissionSort {
+  if (sort.sortBy === sortBy) {
+    return { sortBy, sortOrder: sort.sortOrder === 'asc' ? 'desc' : 'asc' };
+  }
+  return { sortBy, sortOrder: DESCENDING_FIRST.includes(sortBy) ? 'desc' : 'asc' };
+}
+
+/**
+ * Query parameters for a sort, empty for the default sort
+ */
+export function sortToParams(sort: SubmissionSort): Record<string, string> {
+  return sort.sortBy === DEFAULT_SORT.sortBy && sort.sortOrder === DEFAULT_SORT.sortOrder
+    ? {}
+    : { sortBy: sort.sortBy, sortOrder: sort.sortOrder };
+}
+
+/**
+ * Read the sort back out of saved query parameters, ignoring bad values
+ */
+export function sortFromParams(params: Record<string, string>): SubmissionSort {
+  return {
+    sortBy: VALID_SORT_FIELDS.includes(params.sortBy as SubmissionSortField)
+      ? (params.sortBy as SubmissionSortField)
+      : DEFAULT_SORT.sortBy,
+    sortOrder: params.sortOrder === 'asc' || params.sortOrder === 'desc'
+      ? params.sortOrder
+      : DEFAULT_SORT.sortOrder,
+  };
+}
@@ -0,0 +1,199 @@
+/**
+ * Payment Link Database Queries
+ *
+ * Setup fee and subscription links are stored as PaymentLink rows with an
+ * expiry, a snapshot of the price they were issued for, and who issued them.
+ * A link can be used once; issuing a new link of the same type revokes the
+ * previous one, so every link ever sent to a customer stays in the history.
+ * The Checkout session opened from a link is kept on it, so repeat visits
+ * reuse that session instead of opening another one that could be paid.
+ */
+
+import { randomUUID } from 'crypto';
+import { prisma } from '@/lib/db';
+import type {
+  AdminSessionPayload,
+  CreatePaymentLinkInput,
+  PaymentLink,
+  PaymentLinkStatus,
+  PaymentLinkType,
+} from '@/types/admin';
+
+// How long a newly issued link stays valid unless the admin picks otherwise
+export const DEFAULT_PAYMENT_LINK_TTL_DAYS = 14;
+
+// Longest validity an admin may choose for a link
+export const MAX_PAYMENT_LINK_TTL_DAYS = 90;
+
+// Errors returned by the public checkout APIs for links that can't be used
+export const PAYMENT_LINK_UNAVAILABLE_ERRORS: Record<Exclude<PaymentLinkStatus, 'ACTIVE'>, string> = {
+  USED: 'This payment link has already been used',
+  EXPIRED: 'This payment link has expired',
+  REVOKED: 'This payment link is no longer valid',
+};
+
+/**
+ * Map a Prisma row to the PaymentLink type.
+ * Active links past their expiry are reported as EXPIRED.
+ */
+function toPaymentLink(
+  row: Omit<PaymentLink, 'type' | 'status'> & { type: string; status: string },
+  now: Date = new Date()
+): PaymentLink {
+  const status = row.status === 'ACTIVE' && row.expiresAt <= now ? 'EXPIRED' : row.status;
+  return {
+    ...row,
+    type: row.type as PaymentLinkType,
+    status: status as PaymentLinkStatus,
+  };
+}
+
+/**
+ * Build the public URL for a payment link
+ */
+export function getPaymentLinkUrl(link: Pick<PaymentLink, 'type' | 'token'>): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  const path = link.type === 'SETUP_FEE' ? 'setup' : 'subscribe';
+  return `${baseUrl}/pay/${path}/${link.token}`;
+}
+
+/**
+ * Issue a new payment link, revoking any active link of the same type
+ */
+export async function createPaymentLink(
+  input: CreatePaymentLinkInput,
+  createdBy: AdminSessionPayload
+): Promise<PaymentLink> {
+  const now = new Date();
+
+  await prisma.paymentLink.updateMany({
+    where: { customerId: input.customerId, type: input.type, status: 'ACTIVE' },
+    data: { status: 'REVOKED', revokedAt: now },
+  });
+
+  const link = await prisma.paymentLink.create({
+    data: {
+      customerId: input.customerId,
+      type: input.type,
+      token: randomUUID(),
+      amountCents: input.amountCents,
+      currency: (input.currency ?? 'usd').toLowerCase(),
+      stripePriceId: input.stripePriceId ?? null,
+      planId: input.planId ?? null,
+      planName: input.planName ?? null,
+      expiresAt: input.expiresAt,
+      createdById: createdBy.userId,
+      createdByName: createdBy.name,
+    },
+  });
+
+  return toPaymentLink(link, now);
+}
+
+/**
+ * Look up a link by its token for the public pay pages.
+ *
+ * Returns null for unknown tokens or tokens of another link type. An
+ * active link found past its expiry is marked EXPIRED on the way out.
+ */
+export async function getPaymentLinkByToken(
+  token: string,
+  type: PaymentLinkType
+): Promise<PaymentLink | null> {
+  const row = await prisma.paymentLink.findUnique({
+    where: { token },
+  });
+
+  if (!row || row.type !== type) {
+    return null;
+  }
+
+  const link = toPaymentLink(row);
+  if (row.status === 'ACTIVE' && link.status === 'EXPIRED') {
+    await prisma.paymentLink.update({
+      where: { id: row.id },
+      data: { status: 'EXPIRED' },
+    });
+  }
+
+  return link;
+}
+
+/**
+ * Get a customer's active links of a type, e.g. before replacing them
+ */
+export async function getActivePaymentLinks(
+  customerId: number,
+  type: PaymentLinkType
+): Promise<PaymentLink[]> {
+  const links = await prisma.paymentLink.findMany({
+    where: { customerId, type, status: 'ACTIVE' },
+  });
+  const now = new Date();
+  return links.map((link: Parameters<typeof toPaymentLink>[0]) => toPaymentLink(link, now));
+}
+
+/**
+ * Get a single payment link by ID
+ */
+export async function getPaymentLinkById(id: number): Promise<PaymentLink | null> {
+  const link = await prisma.paymentLink.findUnique({
+    where: { id },
+  });
+  return link ? toPaymentLink(link) : null;
+}
+
+/**
+ * Keep the Checkout session just opened from an active link. Only succeeds
+ * if the link still has the session it was read with, so two visits at
+ * once can't both open a session.
+ */
+export async function setPaymentLinkCheckoutSession(
+  id: number,
+  previousSessionId: string | null,
+  stripeCheckoutSessionId: string
+): Promise<boolean> {
+  const result = await prisma.paymentLink.updateMany({
+    where: { id, status: 'ACTIVE', stripeCheckoutSessionId: previousSessionId },
+    data: { stripeCheckoutSessionId },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Mark a link as used once its checkout has completed. A checkout started
+ * before the link lapsed or was revoked still counts as using it.
+ */
+export async function markPaymentLinkUsed(
+  id: number,
+  stripeCheckoutSessionId: string,
+  usedAt: Date
+): Promise<void> {
+  await prisma.paymentLink.updateMany({
+    where: { id, usedAt: null },
+    data: { status: 'USED', usedAt, stripeCheckoutSessionId },
+  });
+}
+
+/**
+ * Revoke an active link so it can no longer be used
+ */
+export async function revokePaymentLink(id: number): Promise<PaymentLink> {
+  const link = await prisma.paymentLink.update({
+    where: { id },
+    data: { status: 'REVOKED', revokedAt: new Date() },
+  });
+  return toPaymentLink(link);
+}
+
+/**
+ * Get every link issued to a customer, newest first
+ */
+export async function getPaymentLinksByCustomerId(customerId: number): Promise<PaymentLink[]> {
+  const links = await prisma.paymentLink.findMany({
+    where: { customerId },
+    orderBy: { createdAt: 'desc' },
+  });
+  const now = new Date();
+  return links.map((link: Parameters<typeof toPaymentLink>[0]) => toPaymentLink(link, now));
+}
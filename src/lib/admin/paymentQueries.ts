@@ -0,0 +1,244 @@
+/**
+ * Payment Ledger Database Queries
+ *
+ * Every setup fee, subscription invoice and refund is stored as a Payment
+ * row with its amount in cents. Revenue figures across the admin panel are
+ * computed from this ledger rather than from IntakeSubmission.revenue.
+ */
+
+import { prisma } from '@/lib/db';
+import type { Payment, PaymentType, RecordPaymentInput } from '@/types/admin';
+
+// Description used for setup fees entered by hand in the admin panel
+const MANUAL_SETUP_FEE_DESCRIPTION = 'Recorded manually';
+
+/**
+ * Convert a dollar amount to integer cents
+ */
+export function dollarsToCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * Convert integer cents to a dollar amount
+ */
+export function centsToDollars(amountCents: number): number {
+  return amountCents / 100;
+}
+
+/**
+ * Map a Prisma row to the Payment type
+ */
+function toPayment(row: Omit<Payment, 'type'> & { type: string }): Payment {
+  return {
+    ...row,
+    type: row.type as PaymentType,
+  };
+}
+
+/**
+ * Sum grouped ledger rows into net cents (refunds are subtracted)
+ */
+function netCents(groups: Array<{ type: string; _sum: { amountCents: number | null } }>): number {
+  return groups.reduce((total, group) => {
+    const amount = group._sum.amountCents ?? 0;
+    return group.type === 'REFUND' ? total - amount : total + amount;
+  }, 0);
+}
+
+/**
+ * Record a payment in the ledger.
+ *
+ * Payments carrying a Stripe checkout session, invoice or refund ID are
+ * upserted on that ID, so a re-run webhook handler never records twice.
+ */
+export async function recordPayment(input: RecordPaymentInput): Promise<Payment> {
+  const data = {
+    customerId: input.customerId,
+    type: input.type,
+    amountCents: input.amountCents,
+    currency: (input.currency ?? 'usd').toLowerCase(),
+    description: input.description ?? null,
+    stripeCheckoutSessionId: input.stripeCheckoutSessionId ?? null,
+    stripeInvoiceId: input.stripeInvoiceId ?? null,
+    stripePaymentIntentId: input.stripePaymentIntentId ?? null,
+    stripeChargeId: input.stripeChargeId ?? null,
+    stripeRefundId: input.stripeRefundId ?? null,
+    paidAt: input.paidAt,
+  };
+
+  const uniqueWhere = input.stripeInvoiceId
+    ? { stripeInvoiceId: input.stripeInvoiceId }
+    : input.stripeCheckoutSessionId
+      ? { stripeCheckoutSessionId: input.stripeCheckoutSessionId }
+      : input.stripeRefundId
+        ? { stripeRefundId: input.stripeRefundId }
+        : null;
+
+  const payment = uniqueWhere
+    ? await prisma.payment.upsert({ where: uniqueWhere, create: data, update: data })
+    : await prisma.payment.create({ data });
+
+  return toPayment(payment);
+}
+
+/**
+ * Keep the manually entered setup fee for a customer in the ledger.
+ *
+ * Called when an admin sets `revenue` on a submission. Creates, updates or
+ * (for null) removes the manual SETUP_FEE row. Customers whose setup fee
+ * was paid through Stripe are left alone so the amount is not counted twice.
+ */
+export async function setManualSetupFee(
+  customerId: number,
+  amount: number | null,
+  paidAt: Date
+): Promise<void> {
+  const [stripeSetupFees, manualEntry] = await Promise.all([
+    prisma.payment.count({
+      where: { customerId, type: 'SETUP_FEE', stripeCheckoutSessionId: { not: null } },
+    }),
+    prisma.payment.findFirst({
+      where: { customerId, type: 'SETUP_FEE', stripeCheckoutSessionId: null },
+    }),
+  ]);
+
+  if (stripeSetupFees > 0) {
+    return;
+  }
+
+  if (amount === null) {
+    if (manualEntry) {
+      await prisma.payment.delete({ where: { id: manualEntry.id } });
+    }
+    return;
+  }
+
+  if (manualEntry) {
+    await prisma.payment.update({
+      where: { id: manualEntry.id },
+      data: { amountCents: dollarsToCents(amount) },
+    });
+    return;
+  }
+
+  await prisma.payment.create({
+    data: {
+      customerId,
+      type: 'SETUP_FEE',
+      amountCents: dollarsToCents(amount),
+      description: MANUAL_SETUP_FEE_DESCRIPTION,
+      paidAt,
+    },
+  });
+}
+
+/**
+ * Get a single payment by ID
+ */
+export async function getPaymentById(id: number): Promise<Payment | null> {
+  const payment = await prisma.payment.findUnique({
+    where: { id },
+  });
+  return payment ? toPayment(payment) : null;
+}
+
+/**
+ * Get the total already refunded (in cents) for a Stripe PaymentIntent
+ */
+export async function getRefundedCents(paymentIntentId: string): Promise<number> {
+  const result = await prisma.payment.aggregate({
+    where: { type: 'REFUND', stripePaymentIntentId: paymentIntentId },
+    _sum: { amountCents: true },
+  });
+  return result._sum.amountCents ?? 0;
+}
+
+/**
+ * Update a customer's billing status after a refund.
+ *
+ * When every Stripe setup fee has been refunded in full and there is no
+ * live subscription, the customer is marked REFUNDED. Partial refunds
+ * leave the billing status unchanged.
+ */
+export async function syncBillingStatusAfterRefund(customerId: number): Promise<void> {
+  const [submission, setupFees] = await Promise.all([
+    prisma.intakeSubmission.findUnique({
+      where: { id: customerId },
+      select: { subscriptionStatus: true },
+    }),
+    prisma.payment.findMany({
+      where: { customerId, type: 'SETUP_FEE', stripePaymentIntentId: { not: null } },
+      select: { amountCents: true, stripePaymentIntentId: true },
+    }),
+  ]);
+
+  if (!submission || setupFees.length === 0) {
+    return;
+  }
+
+  if (['active', 'trialing', 'past_due'].includes(submission.subscriptionStatus ?? '')) {
+    return;
+  }
+
+  for (const setupFee of setupFees) {
+    const refunded = await getRefundedCents(setupFee.stripePaymentIntentId);
+    if (refunded < setupFee.amountCents) {
+      return;
+    }
+  }
+
+  await prisma.intakeSubmission.update({
+    where: { id: customerId },
+    data: { billingStatus: 'REFUNDED' },
+  });
+}
+
+/**
+ * Get all payments for a customer, newest first
+ */
+export async function getPaymentsByCustomerId(customerId: number): Promise<Payment[]> {
+  const payments = await prisma.payment.findMany({
+    where: { customerId },
+    orderBy: { paidAt: 'desc' },
+  });
+  return payments.map(toPayment);
+}
+
+/**
+ * Get net revenue in cents for each of the given customers.
+ * Customers without payments are omitted from the map.
+ */
+export async function getNetRevenueByCustomer(
+  customerIds: number[]
+): Promise<Map<number, number>> {
+  const totals = new Map<number, number>();
+  if (customerIds.length === 0) {
+    return totals;
+  }
+
+  const groups: Array<{ customerId: number; type: string; _sum: { amountCents: number | null } }> =
+    await prisma.payment.groupBy({
+      by: ['customerId', 'type'],
+      where: { customerId: { in: customerIds } },
+      _sum: { amountCents: true },
+    });
+
+  for (const group of groups) {
+    const current = totals.get(group.customerId) ?? 0;
+    totals.set(group.customerId, current + netCents([group]));
+  }
+
+  return totals;
+}
+
+/**
+ * Get net revenue in cents across the whole ledger
+ */
+export async function getTotalNetRevenueCents(): Promise<number> {
+  const groups = await prisma.payment.groupBy({
+    by: ['type'],
+    _sum: { amountCents: true },
+  });
+  return netCents(groups);
+}
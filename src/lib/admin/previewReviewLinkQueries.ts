@@ -0,0 +1,75 @@
+/**
+ * Preview Review Link Database Queries
+ *
+ * While a project is waiting for feedback we send the customer a link to a
+ * public review page showing a preview deployment, where they can reply
+ * with feedback. Each reply is recorded as a customer note. A link can be
+ * used any number of times until it expires. Sending a new link revokes the
+ * customer's earlier links so only the most recently sent one works.
+ */
+
+import { createTokenLinkQueries } from '@/lib/admin/tokenLinkQueries';
+import type { AdminSessionPayload, PreviewReviewLink } from '@/types/admin';
+
+// How long a review link stays valid
+export const PREVIEW_REVIEW_LINK_TTL_DAYS = 30;
+
+const links = createTokenLinkQueries<PreviewReviewLink>({
+  model: 'previewReviewLink',
+  path: '/review',
+  ttlDays: PREVIEW_REVIEW_LINK_TTL_DAYS,
+  usedAtField: 'lastFeedbackAt',
+});
+
+/**
+ * Build the public URL for a review link
+ */
+export function getPreviewReviewUrl(token: string): string {
+  return links.getUrl(token);
+}
+
+/**
+ * Whether a link can still be used to send feedback
+ */
+export function isPreviewReviewLinkUsable(
+  link: Pick<PreviewReviewLink, 'expiresAt' | 'revokedAt'>,
+  now: Date = new Date()
+): boolean {
+  return links.isUsable(link, now);
+}
+
+/**
+ * Issue a new review link for a preview, revoking the customer's earlier links
+ */
+export async function createPreviewReviewLink(
+  customerId: number,
+  preview: { branch: string; previewUrl: string },
+  createdBy: AdminSessionPayload,
+  now: Date = new Date()
+): Promise<PreviewReviewLink> {
+  return links.create(customerId, createdBy, { branch: preview.branch, previewUrl: preview.previewUrl }, now);
+}
+
+/**
+ * Look up a link by its token for the public review page
+ */
+export async function getPreviewReviewLinkByToken(token: string): Promise<PreviewReviewLink | null> {
+  return links.getByToken(token);
+}
+
+/**
+ * Get the customer's most recent link that can still be used, if any
+ */
+export async function getActivePreviewReviewLink(
+  customerId: number,
+  now: Date = new Date()
+): Promise<PreviewReviewLink | null> {
+  return links.getActive(customerId, now);
+}
+
+/**
+ * Record that the customer sent feedback with a link
+ */
+export async function markPreviewReviewLinkFeedback(id: number): Promise<void> {
+  await links.markUsed(id);
+}
@@ -0,0 +1,285 @@
+/**
+ * Pricing Plan Database Queries
+ *
+ * Packages we sell are stored as PricingPlan rows with a setup fee, a
+ * monthly price, the matching Stripe price IDs and the features included.
+ * Plans can be targeted at intake budget ranges and industries so payment
+ * links pick a sensible plan when the admin doesn't choose one.
+ */
+
+import { prisma } from '@/lib/db';
+import { getPrice } from '@/lib/stripe';
+import { BUDGET_RANGE_OPTIONS, INDUSTRY_TYPE_OPTIONS } from '@/lib/intakeOptions';
+import type {
+  PricingPlan,
+  PricingPlanInput,
+  UpdatePricingPlanInput,
+} from '@/types/admin';
+
+// Database row shape; list fields are stored as JSON strings
+type PricingPlanRow = Omit<PricingPlan, 'features' | 'budgetRanges' | 'industryTypes'> & {
+  features: string;
+  budgetRanges: string;
+  industryTypes: string;
+};
+
+/**
+ * Parse a JSON string array column, tolerating bad data
+ */
+function parseList(value: string): string[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((item) => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Map a Prisma row to the PricingPlan type
+ */
+function toPricingPlan(row: PricingPlanRow): PricingPlan {
+  return {
+    ...row,
+    features: parseList(row.features),
+    budgetRanges: parseList(row.budgetRanges),
+    industryTypes: parseList(row.industryTypes),
+  };
+}
+
+/**
+ * Convert validated input to Prisma data, storing amounts in cents
+ */
+function toPricingPlanData(input: UpdatePricingPlanInput): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+
+  if (input.name !== undefined) data.name = input.name.trim();
+  if (input.description !== undefined) data.description = input.description?.trim() || null;
+  if (input.setupFee !== undefined) data.setupFeeCents = Math.round(input.setupFee * 100);
+  if (input.monthlyPrice !== undefined) data.monthlyPriceCents = Math.round(input.monthlyPrice * 100);
+  if (input.currency !== undefined) data.currency = input.currency.toLowerCase();
+  if (input.stripeSetupFeePriceId !== undefined) data.stripeSetupFeePriceId = input.stripeSetupFeePriceId.trim();
+  if (input.stripeMonthlyPriceId !== undefined) data.stripeMonthlyPriceId = input.stripeMonthlyPriceId.trim();
+  if (input.features !== undefined) data.features = JSON.stringify(input.features);
+  if (input.budgetRanges !== undefined) data.budgetRanges = JSON.stringify(input.budgetRanges);
+  if (input.industryTypes !== undefined) data.industryTypes = JSON.stringify(input.industryTypes);
+  if (input.storageQuotaMb !== undefined) data.storageQuotaMb = input.storageQuotaMb;
+  if (input.isActive !== undefined) data.isActive = input.isActive;
+  if (input.sortOrder !== undefined) data.sortOrder = input.sortOrder;
+
+  return data;
+}
+
+/**
+ * Validate a create (or, with partial, update) request body.
+ * Returns the accepted fields or a message describing the first problem.
+ */
+export function validatePricingPlanInput(
+  body: Record<string, unknown>,
+  partial: boolean = false
+): { data: UpdatePricingPlanInput; error?: undefined } | { data?: undefined; error: string } {
+  const data: UpdatePricingPlanInput = {};
+  const isMissing = (key: string) => body[key] === undefined;
+
+  for (const key of ['name', 'stripeSetupFeePriceId', 'stripeMonthlyPriceId'] as const) {
+    if (isMissing(key)) {
+      if (!partial) return { error: `${key} is required` };
+      continue;
+    }
+    const value = body[key];
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      return { error: `${key} must be a non-empty string` };
+    }
+    data[key] = value;
+  }
+
+  for (const key of ['setupFee', 'monthlyPrice'] as const) {
+    if (isMissing(key)) {
+      if (!partial) return { error: `${key} is required` };
+      continue;
+    }
+    const value = body[key];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      return { error: `${key} must be a non-negative amount in dollars` };
+    }
+    data[key] = value;
+  }
+
+  if (!isMissing('description')) {
+    if (body.description !== null && typeof body.description !== 'string') {
+      return { error: 'description must be a string' };
+    }
+    data.description = body.description as string | null;
+  }
+
+  if (!isMissing('currency')) {
+    if (typeof body.currency !== 'string' || !/^[a-zA-Z]{3}$/.test(body.currency)) {
+      return { error: 'currency must be a three-letter currency code' };
+    }
+    data.currency = body.currency;
+  }
+
+  if (!isMissing('features')) {
+    const features = body.features;
+    if (!Array.isArray(features) || features.some((item) => typeof item !== 'string')) {
+      return { error: 'features must be an array of strings' };
+    }
+    data.features = features.map((item: string) => item.trim()).filter(Boolean);
+  }
+
+  const listFields = [
+    ['budgetRanges', BUDGET_RANGE_OPTIONS],
+    ['industryTypes', INDUSTRY_TYPE_OPTIONS],
+  ] as const;
+  for (const [key, options] of listFields) {
+    if (isMissing(key)) continue;
+    const values = body[key];
+    const allowed = options.map((option) => option.value);
+    if (!Array.isArray(values) || values.some((value) => !allowed.includes(value))) {
+      return { error: `${key} must only contain: ${allowed.join(', ')}` };
+    }
+    data[key] = values as string[];
+  }
+
+  if (!isMissing('storageQuotaMb')) {
+    const quota = body.storageQuotaMb;
+    if (quota !== null && (typeof quota !== 'number' || !Number.isInteger(quota) || quota <= 0)) {
+      return { error: 'storageQuotaMb must be a positive whole number of MB, or null for the default' };
+    }
+    data.storageQuotaMb = quota;
+  }
+
+  if (!isMissing('isActive')) {
+    if (typeof body.isActive !== 'boolean') {
+      return { error: 'isActive must be a boolean' };
+    }
+    data.isActive = body.isActive;
+  }
+
+  if (!isMissing('sortOrder')) {
+    if (typeof body.sortOrder !== 'number' || !Number.isInteger(body.sortOrder)) {
+      return { error: 'sortOrder must be a whole number' };
+    }
+    data.sortOrder = body.sortOrder;
+  }
+
+  return { data };
+}
+
+/**
+ * Check that a plan's Stripe prices match its amounts: the setup fee must
+ * be a one-time price and the monthly price a monthly recurring price, both
+ * in the plan's currency. Returns a message describing the first mismatch,
+ * or null when the prices line up. Stripe errors are thrown to the caller.
+ */
+export async function checkPricingPlanPrices(
+  plan: Pick<
+    PricingPlan,
+    'setupFeeCents' | 'monthlyPriceCents' | 'currency' | 'stripeSetupFeePriceId' | 'stripeMonthlyPriceId'
+  >
+): Promise<string | null> {
+  const [setupPrice, monthlyPrice] = await Promise.all([
+    getPrice(plan.stripeSetupFeePriceId),
+    getPrice(plan.stripeMonthlyPriceId),
+  ]);
+
+  if (setupPrice.type !== 'one_time') {
+    return 'The setup fee Stripe price must be a one-time price';
+  }
+  if (setupPrice.unit_amount !== plan.setupFeeCents || setupPrice.currency !== plan.currency) {
+    return 'The setup fee does not match its Stripe price';
+  }
+  if (monthlyPrice.recurring?.interval !== 'month') {
+    return 'The monthly Stripe price must recur monthly';
+  }
+  if (monthlyPrice.unit_amount !== plan.monthlyPriceCents || monthlyPrice.currency !== plan.currency) {
+    return 'The monthly price does not match its Stripe price';
+  }
+
+  return null;
+}
+
+/**
+ * Get pricing plans in display order
+ */
+export async function getPricingPlans(includeInactive: boolean = false): Promise<PricingPlan[]> {
+  const plans = await prisma.pricingPlan.findMany({
+    where: includeInactive ? undefined : { isActive: true },
+    orderBy: [{ sortOrder: 'asc' }, { id: 'asc' }],
+  });
+  return plans.map(toPricingPlan);
+}
+
+/**
+ * Get a single pricing plan by ID
+ */
+export async function getPricingPlanById(id: number): Promise<PricingPlan | null> {
+  const plan = await prisma.pricingPlan.findUnique({
+    where: { id },
+  });
+  return plan ? toPricingPlan(plan) : null;
+}
+
+/**
+ * Pick the active plan that best fits a customer's intake answers.
+ *
+ * A plan targeting the customer's budget range scores higher than one
+ * targeting their industry; plans targeting other values are skipped and
+ * untargeted plans match anyone. Ties go to the plan listed first.
+ */
+export async function getSuggestedPricingPlan(
+  budgetRange: string | null,
+  industryType: string | null
+): Promise<PricingPlan | null> {
+  const plans = await getPricingPlans();
+
+  let best: PricingPlan | null = null;
+  let bestScore = -1;
+
+  for (const plan of plans) {
+    const budgetMatch = plan.budgetRanges.length === 0 || plan.budgetRanges.includes(budgetRange ?? '');
+    const industryMatch = plan.industryTypes.length === 0 || plan.industryTypes.includes(industryType ?? '');
+    if (!budgetMatch || !industryMatch) continue;
+
+    const score = (plan.budgetRanges.length > 0 ? 2 : 0) + (plan.industryTypes.length > 0 ? 1 : 0);
+    if (score > bestScore) {
+      best = plan;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Create a new pricing plan
+ */
+export async function createPricingPlan(input: PricingPlanInput): Promise<PricingPlan> {
+  const plan = await prisma.pricingPlan.create({
+    data: toPricingPlanData(input),
+  });
+  return toPricingPlan(plan);
+}
+
+/**
+ * Update a pricing plan
+ */
+export async function updatePricingPlan(
+  id: number,
+  input: UpdatePricingPlanInput
+): Promise<PricingPlan> {
+  const plan = await prisma.pricingPlan.update({
+    where: { id },
+    data: toPricingPlanData(input),
+  });
+  return toPricingPlan(plan);
+}
+
+/**
+ * Delete a pricing plan. Links issued for it keep their plan name snapshot.
+ */
+export async function deletePricingPlan(id: number): Promise<void> {
+  await prisma.pricingPlan.delete({
+    where: { id },
+  });
+}
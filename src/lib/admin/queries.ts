@@ -6,7 +6,32 @@
  */
 
 import { prisma } from '@/lib/db';
-import type { SubmissionStatus, ProjectStatus, PaginatedResponse, SubmissionFilters, ProjectFilters } from '@/types/admin';
+import {
+  centsToDollars,
+  getNetRevenueByCustomer,
+  getTotalNetRevenueCents,
+  setManualSetupFee,
+} from '@/lib/admin/paymentQueries';
+import { DEFAULT_SORT } from '@/lib/admin/listFilters';
+import type { SubmissionCreateData } from '@/lib/intake';
+import type {
+  SubmissionStatus,
+  ProjectStatus,
+  PaginatedResponse,
+  SubmissionListFilters,
+  SubmissionSort,
+  SubmissionSortField,
+} from '@/types/admin';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Optional columns, sorted with empty values last
+const NULLABLE_SORT_FIELDS: SubmissionSortField[] = [
+  'paidAt',
+  'goLiveDate',
+  'lastInvoiceDate',
+  'subscriptionCurrentPeriodEnd',
+];
 
 // Type for IntakeSubmission from Prisma
 export type Submission = {
@@ -30,6 +55,8 @@ export type Submission = {
   notes: string | null;
   paidAt: Date | null;
   revenue: number | null;
+  // Net revenue from the Payment ledger in dollars (set by list and detail queries)
+  totalRevenue?: number;
   // Project Status fields
   projectStatus: string;
   projectNotes: string | null;
@@ -45,9 +72,6 @@ export type Submission = {
   billingStatus: string;
   lastInvoiceDate: Date | null;
   lastInvoicePaidAt: Date | null;
-  // Payment Link Tokens
-  setupFeeToken: string | null;
-  subscriptionToken: string | null;
 };
 
 // Dashboard metrics type
@@ -71,55 +95,117 @@ export interface RecentActivity {
 }
 
 /**
- * Get paginated list of submissions with optional filters
+ * Attach ledger revenue totals (in dollars) to a list of submissions
  */
-export async function getSubmissions(
-  filters: SubmissionFilters & ProjectFilters = {},
-  page: number = 1,
-  limit: number = 10
-): Promise<PaginatedResponse<Submission>> {
-  const skip = (page - 1) * limit;
+async function withRevenueTotals(items: Submission[]): Promise<Submission[]> {
+  const totals = await getNetRevenueByCustomer(items.map((item) => item.id));
+  return items.map((item) => ({
+    ...item,
+    totalRevenue: centsToDollars(totals.get(item.id) ?? 0),
+  }));
+}
 
-  // Build where clause based on filters
-  const where: {
-    status?: string;
-    projectStatus?: string;
-    OR?: Array<{
-      fullName?: { contains: string };
-      email?: { contains: string };
-      businessName?: { contains: string };
-    }>;
-  } = {};
+/**
+ * Build the Prisma where clause for the submission list filters
+ */
+function buildSubmissionWhere(filters: SubmissionListFilters): Record<string, unknown> {
+  const where: Record<string, unknown> = {};
+  const and: Record<string, unknown>[] = [];
 
-  if (filters.status) {
-    where.status = filters.status;
+  if (filters.status) where.status = filters.status;
+  if (filters.projectStatus) where.projectStatus = filters.projectStatus;
+  if (filters.billingStatus) where.billingStatus = filters.billingStatus;
+  if (filters.industryType) where.industryType = filters.industryType;
+  if (filters.budgetRange) where.budgetRange = filters.budgetRange;
+  if (filters.timeline) where.timeline = filters.timeline;
+
+  // Date ranges include the whole of the last day
+  if (filters.createdFrom || filters.createdTo) {
+    where.createdAt = {
+      ...(filters.createdFrom && { gte: filters.createdFrom }),
+      ...(filters.createdTo && { lt: new Date(filters.createdTo.getTime() + DAY_MS) }),
+    };
   }
 
-  if (filters.projectStatus) {
-    where.projectStatus = filters.projectStatus;
+  if (filters.paidFrom || filters.paidTo) {
+    where.paidAt = {
+      ...(filters.paidFrom && { gte: filters.paidFrom }),
+      ...(filters.paidTo && { lt: new Date(filters.paidTo.getTime() + DAY_MS) }),
+    };
+  }
+
+  if (filters.excludeStatus) {
+    and.push({ status: { not: filters.excludeStatus } });
+  }
+
+  // Submissions without a deployment record haven't been deployed
+  if (filters.deploymentStatus === 'NOT_DEPLOYED') {
+    and.push({
+      OR: [
+        { deployment: null },
+        { deployment: { deploymentStatus: 'NOT_DEPLOYED' } },
+      ],
+    });
+  } else if (filters.deploymentStatus) {
+    where.deployment = { deploymentStatus: filters.deploymentStatus };
   }
 
   if (filters.search) {
-    where.OR = [
-      { fullName: { contains: filters.search } },
-      { email: { contains: filters.search } },
-      { businessName: { contains: filters.search } },
-    ];
+    and.push({
+      OR: [
+        { fullName: { contains: filters.search } },
+        { email: { contains: filters.search } },
+        { businessName: { contains: filters.search } },
+      ],
+    });
   }
 
+  if (and.length > 0) {
+    where.AND = and;
+  }
+
+  return where;
+}
+
+/**
+ * Build the Prisma orderBy for a list sort.
+ * Empty dates sort last either way; id keeps pages stable between ties.
+ */
+function buildSubmissionOrderBy(sort: SubmissionSort): Record<string, unknown>[] {
+  return [
+    { [sort.sortBy]: NULLABLE_SORT_FIELDS.includes(sort.sortBy)
+      ? { sort: sort.sortOrder, nulls: 'last' }
+      : sort.sortOrder },
+    { id: sort.sortOrder },
+  ];
+}
+
+/**
+ * Get paginated list of submissions with optional filters and sorting
+ */
+export async function getSubmissions(
+  filters: SubmissionListFilters = {},
+  page: number = 1,
+  limit: number = 10,
+  sort: SubmissionSort = DEFAULT_SORT
+): Promise<PaginatedResponse<Submission>> {
+  const skip = (page - 1) * limit;
+  const where = buildSubmissionWhere(filters);
+  const orderBy = buildSubmissionOrderBy(sort);
+
   // Execute count and find in parallel
   const [total, items] = await Promise.all([
     prisma.intakeSubmission.count({ where }),
     prisma.intakeSubmission.findMany({
       where,
-      orderBy: { createdAt: 'desc' },
+      orderBy,
       skip,
       take: limit,
     }),
   ]);
 
   return {
-    items,
+    items: await withRevenueTotals(items),
     total,
     page,
     limit,
@@ -127,6 +213,60 @@ export async function getSubmissions(
   };
 }
 
+/**
+ * Get every submission matching the list filters, for CSV export.
+ * Returns at most `limit` rows.
+ */
+export async function getSubmissionsForExport(
+  filters: SubmissionListFilters = {},
+  sort: SubmissionSort = DEFAULT_SORT,
+  limit: number = 10000
+): Promise<Submission[]> {
+  const items = await prisma.intakeSubmission.findMany({
+    where: buildSubmissionWhere(filters),
+    orderBy: buildSubmissionOrderBy(sort),
+    take: limit,
+  });
+
+  return withRevenueTotals(items);
+}
+
+/**
+ * Find which of the given emails already belong to a submission.
+ * Matching ignores case; the emails are returned lowercased.
+ */
+export async function getExistingSubmissionEmails(emails: string[]): Promise<Set<string>> {
+  if (emails.length === 0) {
+    return new Set();
+  }
+
+  const rows = await prisma.intakeSubmission.findMany({
+    where: { email: { in: emails, mode: 'insensitive' } },
+    select: { email: true },
+  });
+
+  return new Set(rows.map((row: { email: string }) => row.email.toLowerCase()));
+}
+
+/**
+ * Create imported submissions as new leads
+ *
+ * @returns The number of submissions created
+ */
+export async function createImportedSubmissions(
+  submissions: SubmissionCreateData[]
+): Promise<number> {
+  if (submissions.length === 0) {
+    return 0;
+  }
+
+  const { count } = await prisma.intakeSubmission.createMany({
+    data: submissions,
+  });
+
+  return count;
+}
+
 /**
  * Get submissions filtered by status (for leads and customers pages)
  */
@@ -168,7 +308,7 @@ export async function getSubmissionsByStatus(
   ]);
 
   return {
-    items,
+    items: await withRevenueTotals(items),
     total,
     page,
     limit,
@@ -180,13 +320,21 @@ export async function getSubmissionsByStatus(
  * Get a single submission by ID
  */
 export async function getSubmissionById(id: number): Promise<Submission | null> {
-  return prisma.intakeSubmission.findUnique({
+  const submission = await prisma.intakeSubmission.findUnique({
     where: { id },
   });
+
+  if (!submission) {
+    return null;
+  }
+
+  const [withTotal] = await withRevenueTotals([submission]);
+  return withTotal;
 }
 
 /**
- * Update a submission
+ * Update a submission.
+ * A new `revenue` value is mirrored into the Payment ledger as a manual setup fee.
  */
 export async function updateSubmission(
   id: number,
@@ -208,10 +356,17 @@ export async function updateSubmission(
     data.contacted = true;
   }
 
-  return prisma.intakeSubmission.update({
+  const submission = await prisma.intakeSubmission.update({
     where: { id },
     data,
   });
+
+  if (data.revenue !== undefined) {
+    await setManualSetupFee(id, data.revenue, submission.paidAt ?? new Date());
+  }
+
+  const [withTotal] = await withRevenueTotals([submission]);
+  return withTotal;
 }
 
 /**
@@ -224,19 +379,17 @@ export async function getDashboardMetrics(): Promise<DashboardMetrics> {
     newLeads,
     contactedLeads,
     payingCustomers,
-    revenueResult,
+    totalRevenueCents,
   ] = await Promise.all([
     prisma.intakeSubmission.count(),
     prisma.intakeSubmission.count({ where: { status: 'NEW' } }),
     prisma.intakeSubmission.count({ where: { status: 'CONTACTED' } }),
     prisma.intakeSubmission.count({ where: { status: 'PAID' } }),
-    prisma.intakeSubmission.aggregate({
-      _sum: { revenue: true },
-      where: { status: 'PAID' },
-    }),
+    getTotalNetRevenueCents(),
   ]);
 
-  const totalRevenue = revenueResult._sum.revenue || 0;
+  // Revenue comes from the Payment ledger so recurring invoices are included
+  const totalRevenue = centsToDollars(totalRevenueCents);
   const conversionRate = totalLeads > 0 ? (payingCustomers / totalLeads) * 100 : 0;
 
   return {
@@ -264,10 +417,13 @@ export async function getRecentActivity(limit: number = 10): Promise<RecentActiv
       createdAt: true,
       updatedAt: true,
       paidAt: true,
-      revenue: true,
     },
   });
 
+  const revenueTotals = await getNetRevenueByCustomer(
+    submissions.map((submission: { id: number }) => submission.id)
+  );
+
   // Transform submissions into activity items
   return submissions.map((submission) => {
     let type: RecentActivity['type'] = 'submission';
@@ -277,8 +433,9 @@ export async function getRecentActivity(limit: number = 10): Promise<RecentActiv
     // Check if this is a payment (has paidAt date)
     if (submission.paidAt) {
       type = 'payment';
-      const amount = submission.revenue
-        ? ` - $${submission.revenue.toLocaleString()}`
+      const revenueCents = revenueTotals.get(submission.id);
+      const amount = revenueCents
+        ? ` - $${centsToDollars(revenueCents).toLocaleString()}`
         : '';
       description = `Payment received from ${submission.businessName}${amount}`;
       timestamp = submission.paidAt;
@@ -0,0 +1,165 @@
+/**
+ * Saved View Database Queries
+ *
+ * Admins save the filters and sort of the leads, customers, projects and
+ * billing lists as named views, e.g. "overdue restaurants". Views belong to
+ * the admin who saved them and store the list's query parameters as a JSON
+ * object, so opening a view just replays the query.
+ */
+
+import { prisma } from '@/lib/db';
+import { validateSavedViewFilters } from '@/lib/admin/listFilters';
+import type { SavedView, SavedViewInput, SavedViewList } from '@/types/admin';
+
+export const SAVED_VIEW_LISTS: SavedViewList[] = ['LEADS', 'CUSTOMERS', 'PROJECTS', 'BILLING'];
+
+const MAX_NAME_LENGTH = 60;
+
+// Database row shape; filters are stored as a JSON string
+type SavedViewRow = Omit<SavedView, 'filters'> & { filters: string };
+
+/**
+ * Validate if a string is a valid SavedViewList
+ */
+export function isValidSavedViewList(list: string): list is SavedViewList {
+  return SAVED_VIEW_LISTS.includes(list as SavedViewList);
+}
+
+/**
+ * Parse the stored filters, tolerating bad data
+ */
+function parseFilters(value: string): Record<string, string> {
+  try {
+    const parsed = JSON.parse(value);
+    const result = validateSavedViewFilters(parsed);
+    return result.data ?? {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Map a Prisma row to the SavedView type
+ */
+function toSavedView(row: SavedViewRow): SavedView {
+  return { ...row, filters: parseFilters(row.filters) };
+}
+
+/**
+ * Validate a create (or, with partial, update) request body.
+ * Returns the accepted fields or a message describing the first problem.
+ */
+export function validateSavedViewInput(
+  body: Record<string, unknown>,
+  partial: boolean = false
+): { data: Partial<SavedViewInput>; error?: undefined } | { data?: undefined; error: string } {
+  const data: Partial<SavedViewInput> = {};
+
+  if (body.list !== undefined || !partial) {
+    if (typeof body.list !== 'string' || !isValidSavedViewList(body.list)) {
+      return { error: `list must be one of: ${SAVED_VIEW_LISTS.join(', ')}` };
+    }
+    data.list = body.list;
+  }
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || body.name.trim().length === 0) {
+      return { error: 'name must be a non-empty string' };
+    }
+    if (body.name.trim().length > MAX_NAME_LENGTH) {
+      return { error: `name must be at most ${MAX_NAME_LENGTH} characters` };
+    }
+    data.name = body.name.trim();
+  }
+
+  if (body.filters !== undefined || !partial) {
+    const filters = validateSavedViewFilters(body.filters ?? {});
+    if (filters.error !== undefined) {
+      return { error: filters.error };
+    }
+    data.filters = filters.data;
+  }
+
+  return { data };
+}
+
+/**
+ * Get an admin's saved views for a list, alphabetically
+ */
+export async function getSavedViews(userId: number, list: SavedViewList): Promise<SavedView[]> {
+  const rows = await prisma.savedView.findMany({
+    where: { userId, list },
+    orderBy: { name: 'asc' },
+  });
+
+  return rows.map(toSavedView);
+}
+
+/**
+ * Get one of an admin's saved views; other admins' views are not found
+ */
+export async function getSavedViewById(id: number, userId: number): Promise<SavedView | null> {
+  const row = await prisma.savedView.findFirst({
+    where: { id, userId },
+  });
+
+  return row ? toSavedView(row) : null;
+}
+
+/**
+ * Whether the admin already has a view with this name on the list
+ */
+export async function savedViewNameExists(
+  userId: number,
+  list: SavedViewList,
+  name: string,
+  excludeId?: number
+): Promise<boolean> {
+  const count = await prisma.savedView.count({
+    where: {
+      userId,
+      list,
+      name,
+      ...(excludeId !== undefined && { id: { not: excludeId } }),
+    },
+  });
+
+  return count > 0;
+}
+
+export async function createSavedView(userId: number, input: SavedViewInput): Promise<SavedView> {
+  const row = await prisma.savedView.create({
+    data: {
+      userId,
+      list: input.list,
+      name: input.name,
+      filters: JSON.stringify(input.filters),
+    },
+  });
+
+  return toSavedView(row);
+}
+
+/**
+ * Rename a view or replace its filters; the list a view belongs to is fixed
+ */
+export async function updateSavedView(
+  id: number,
+  input: Pick<Partial<SavedViewInput>, 'name' | 'filters'>
+): Promise<SavedView> {
+  const row = await prisma.savedView.update({
+    where: { id },
+    data: {
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.filters !== undefined && { filters: JSON.stringify(input.filters) }),
+    },
+  });
+
+  return toSavedView(row);
+}
+
+export async function deleteSavedView(id: number): Promise<void> {
+  await prisma.savedView.delete({
+    where: { id },
+  });
+}
@@ -0,0 +1,240 @@
+/**
+ * Global Search Database Queries
+ *
+ * Searches submissions, customer notes, files and site addresses with
+ * Postgres full-text search for the admin command palette. Each group is
+ * ranked with ts_rank and capped separately, so a busy customer's notes
+ * can't crowd out everything else.
+ *
+ * Text is indexed with the 'simple' configuration rather than 'english':
+ * most of what gets searched is names, emails and domains, which stemming
+ * would mangle. Every search term is matched as a prefix so results show up
+ * while the admin is still typing.
+ *
+ * The tsvector expressions below must match the GIN indexes created in
+ * prisma/migrations/0014_search_indexes.
+ */
+
+import { prisma } from '@/lib/db';
+import type { GlobalSearchResults, SearchResult, SubmissionStatus } from '@/types/admin';
+
+// Search terms beyond this are ignored
+const MAX_SEARCH_TERMS = 8;
+
+// Length of the note excerpt shown under a note result
+const NOTE_EXCERPT_LENGTH = 120;
+
+interface SubmissionRow {
+  id: number;
+  fullName: string;
+  businessName: string;
+  email: string;
+  status: SubmissionStatus;
+  rank: number;
+}
+
+interface NoteRow {
+  id: number;
+  customerId: number;
+  content: string;
+  noteType: string;
+  businessName: string;
+  status: SubmissionStatus;
+  rank: number;
+}
+
+interface FileRow {
+  id: number;
+  customerId: number;
+  fileName: string;
+  description: string | null;
+  businessName: string;
+  status: SubmissionStatus;
+  rank: number;
+}
+
+interface SiteRow {
+  customerId: number;
+  businessName: string;
+  status: SubmissionStatus;
+  liveUrl: string | null;
+  customDomain: string | null;
+  cfProductionUrl: string | null;
+  rank: number;
+}
+
+/**
+ * Build a prefix-matching tsquery from what the admin typed
+ *
+ * Each whitespace-separated term is quoted so tsquery operators in it are
+ * taken literally, and all terms must match. Returns null when nothing
+ * searchable is left.
+ */
+export function toPrefixTsQuery(search: string): string | null {
+  const terms = search
+    .split(/\s+/)
+    .map((term) => term.replace(/['\\]/g, ''))
+    .filter((term) => /[\p{L}\p{N}]/u.test(term))
+    .slice(0, MAX_SEARCH_TERMS);
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms.map((term) => `'${term}':*`).join(' & ');
+}
+
+/**
+ * Admin page for a submission; only paid submissions have a customer page
+ */
+function getSubmissionHref(
+  customerId: number,
+  status: SubmissionStatus,
+  tab?: 'notes' | 'files' | 'deployment'
+): string {
+  if (status !== 'PAID') {
+    return `/admin/leads/${customerId}`;
+  }
+  return tab ? `/admin/customers/${customerId}?tab=${tab}` : `/admin/customers/${customerId}`;
+}
+
+function toExcerpt(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > NOTE_EXCERPT_LENGTH
+    ? `${text.slice(0, NOTE_EXCERPT_LENGTH).trimEnd()}…`
+    : text;
+}
+
+async function searchSubmissions(tsQuery: string, limit: number): Promise<SearchResult[]> {
+  const rows: SubmissionRow[] = await prisma.$queryRaw`
+    WITH search AS (SELECT to_tsquery('simple', ${tsQuery}) AS query)
+    SELECT s."id", s."fullName", s."businessName", s."email", s."status",
+      ts_rank(v.document, search.query) AS "rank"
+    FROM "IntakeSubmission" s
+    CROSS JOIN search
+    CROSS JOIN LATERAL (SELECT
+      setweight(to_tsvector('simple', coalesce(s."businessName", '') || ' ' || coalesce(s."fullName", '')), 'A') ||
+      setweight(to_tsvector('simple', coalesce(s."email", '') || ' ' || coalesce(s."phone", '')), 'B') ||
+      setweight(to_tsvector('simple', coalesce(s."industryType", '') || ' ' || coalesce(s."additionalInfo", '') || ' ' || coalesce(s."otherFeatures", '') || ' ' || coalesce(s."notes", '') || ' ' || coalesce(s."projectNotes", '')), 'C')
+      AS document) v
+    WHERE v.document @@ search.query
+    ORDER BY "rank" DESC, s."createdAt" DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    id: row.id,
+    customerId: row.id,
+    title: row.businessName,
+    subtitle: `${row.fullName} · ${row.email}`,
+    href: getSubmissionHref(row.id, row.status),
+    rank: Number(row.rank),
+  }));
+}
+
+async function searchNotes(tsQuery: string, limit: number): Promise<SearchResult[]> {
+  const rows: NoteRow[] = await prisma.$queryRaw`
+    WITH search AS (SELECT to_tsquery('simple', ${tsQuery}) AS query)
+    SELECT n."id", n."customerId", n."content", n."noteType", s."businessName", s."status",
+      ts_rank(to_tsvector('simple', n."content"), search.query) AS "rank"
+    FROM "CustomerNote" n
+    JOIN "IntakeSubmission" s ON s."id" = n."customerId"
+    CROSS JOIN search
+    WHERE to_tsvector('simple', n."content") @@ search.query
+    ORDER BY "rank" DESC, n."createdAt" DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    id: row.id,
+    customerId: row.customerId,
+    title: toExcerpt(row.content),
+    subtitle: `${row.businessName} · ${row.noteType.toLowerCase()} note`,
+    href: getSubmissionHref(row.customerId, row.status, 'notes'),
+    rank: Number(row.rank),
+  }));
+}
+
+async function searchFiles(tsQuery: string, limit: number): Promise<SearchResult[]> {
+  // Only current files; earlier versions and the trash stay out of search
+  const rows: FileRow[] = await prisma.$queryRaw`
+    WITH search AS (SELECT to_tsquery('simple', ${tsQuery}) AS query)
+    SELECT f."id", f."customerId", f."fileName", f."description", s."businessName", s."status",
+      ts_rank(v.document, search.query) AS "rank"
+    FROM "CustomerFile" f
+    JOIN "IntakeSubmission" s ON s."id" = f."customerId"
+    CROSS JOIN search
+    CROSS JOIN LATERAL (SELECT
+      setweight(to_tsvector('simple', f."fileName"), 'A') ||
+      setweight(to_tsvector('simple', coalesce(f."description", '')), 'B')
+      AS document) v
+    WHERE v.document @@ search.query
+      AND f."deletedAt" IS NULL
+      AND f."supersededAt" IS NULL
+    ORDER BY "rank" DESC, f."createdAt" DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    id: row.id,
+    customerId: row.customerId,
+    title: row.fileName,
+    subtitle: row.description ? `${row.businessName} · ${row.description}` : row.businessName,
+    href: getSubmissionHref(row.customerId, row.status, 'files'),
+    rank: Number(row.rank),
+  }));
+}
+
+async function searchSites(tsQuery: string, limit: number): Promise<SearchResult[]> {
+  const rows: SiteRow[] = await prisma.$queryRaw`
+    WITH search AS (SELECT to_tsquery('simple', ${tsQuery}) AS query)
+    SELECT s."id" AS "customerId", s."businessName", s."status", s."liveUrl",
+      d."customDomain", d."cfProductionUrl",
+      greatest(
+        ts_rank(to_tsvector('simple', coalesce(s."liveUrl", '')), search.query),
+        ts_rank(to_tsvector('simple', coalesce(d."customDomain", '') || ' ' || coalesce(d."cfProductionUrl", '')), search.query)
+      ) AS "rank"
+    FROM "IntakeSubmission" s
+    LEFT JOIN "CustomerDeployment" d ON d."customerId" = s."id"
+    CROSS JOIN search
+    WHERE to_tsvector('simple', coalesce(s."liveUrl", '')) @@ search.query
+      OR to_tsvector('simple', coalesce(d."customDomain", '') || ' ' || coalesce(d."cfProductionUrl", '')) @@ search.query
+    ORDER BY "rank" DESC, s."createdAt" DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    id: row.customerId,
+    customerId: row.customerId,
+    title: row.customDomain || row.liveUrl || row.cfProductionUrl || row.businessName,
+    subtitle: row.businessName,
+    href: getSubmissionHref(row.customerId, row.status, 'deployment'),
+    rank: Number(row.rank),
+  }));
+}
+
+/**
+ * Search everything the admin panel can open, grouped by entity
+ *
+ * @param search - Text typed into the command palette
+ * @param limit - Maximum results per group
+ * @returns Ranked results for each group, empty when nothing is searchable
+ */
+export async function globalSearch(
+  search: string,
+  limit: number = 5
+): Promise<GlobalSearchResults> {
+  const tsQuery = toPrefixTsQuery(search);
+  if (!tsQuery) {
+    return { submissions: [], notes: [], files: [], sites: [] };
+  }
+
+  const [submissions, notes, files, sites] = await Promise.all([
+    searchSubmissions(tsQuery, limit),
+    searchNotes(tsQuery, limit),
+    searchFiles(tsQuery, limit),
+    searchSites(tsQuery, limit),
+  ]);
+
+  return { submissions, notes, files, sites };
+}
@@ -0,0 +1,184 @@
+/**
+ * Storage Quota and Reporting Queries
+ *
+ * Every customer may store up to CUSTOMER_STORAGE_QUOTA_MB of uploads
+ * (500MB by default). A customer's plan is the plan of the last payment
+ * link they paid, and a plan with its own storageQuotaMb overrides the
+ * default. Usage counts the uploaded originals only; the thumbnails and web
+ * copies generated for images aren't charged to the customer. Earlier
+ * versions of replaced files count, files in the trash don't.
+ *
+ * Also reports the largest consumers and orphans: stored objects without a
+ * file record, and file records whose object is missing.
+ */
+
+import { prisma } from '@/lib/db';
+import { listStoredFiles, StorageError } from '@/lib/storage';
+import { getCustomerStorageUsed } from './fileQueries';
+import type { StorageUsage, StorageConsumer, StorageOrphanReport } from '@/types/admin';
+
+const BYTES_PER_MB = 1024 * 1024;
+
+function formatMb(bytes: number): string {
+  return `${parseFloat((bytes / BYTES_PER_MB).toFixed(1))} MB`;
+}
+
+/**
+ * Get the quota for customers whose plan doesn't set one, in bytes
+ */
+export function getDefaultStorageQuota(): number {
+  const quotaMb = parseInt(process.env.CUSTOMER_STORAGE_QUOTA_MB || '500', 10);
+  return (quotaMb > 0 ? quotaMb : 500) * BYTES_PER_MB;
+}
+
+/**
+ * Look up the quota for each customer from the plan they last paid for
+ *
+ * @returns Quota and plan name for every requested customer
+ */
+async function getStorageQuotas(
+  customerIds: number[]
+): Promise<Map<number, Omit<StorageUsage, 'usedBytes'>>> {
+  const defaultQuota = getDefaultStorageQuota();
+  const quotas = new Map<number, Omit<StorageUsage, 'usedBytes'>>(
+    customerIds.map((id) => [id, { quotaBytes: defaultQuota, planName: null }])
+  );
+
+  const links = await prisma.paymentLink.findMany({
+    where: { customerId: { in: customerIds }, status: 'USED', planId: { not: null } },
+    include: { plan: true },
+    orderBy: { usedAt: 'desc' },
+  });
+
+  const seen = new Set<number>();
+  for (const link of links as Array<{
+    customerId: number;
+    plan: { name: string; storageQuotaMb: number | null } | null;
+  }>) {
+    // Links are newest first, so the first one per customer wins
+    if (seen.has(link.customerId) || !link.plan) continue;
+    seen.add(link.customerId);
+
+    quotas.set(link.customerId, {
+      quotaBytes: link.plan.storageQuotaMb ? link.plan.storageQuotaMb * BYTES_PER_MB : defaultQuota,
+      planName: link.plan.name,
+    });
+  }
+
+  return quotas;
+}
+
+/**
+ * Get a customer's storage usage and quota
+ *
+ * @param customerId - The customer's ID
+ * @returns Bytes used, bytes allowed and the plan the allowance comes from
+ */
+export async function getCustomerStorageUsage(customerId: number): Promise<StorageUsage> {
+  const [usedBytes, quotas] = await Promise.all([
+    getCustomerStorageUsed(customerId),
+    getStorageQuotas([customerId]),
+  ]);
+
+  return { usedBytes, ...quotas.get(customerId)! };
+}
+
+/**
+ * Check that an upload fits in a customer's remaining quota
+ *
+ * @param customerId - The customer's ID
+ * @param incomingBytes - Total size of the files being uploaded
+ * @returns The customer's usage before the upload
+ * @throws StorageError QUOTA_EXCEEDED if the upload doesn't fit
+ */
+export async function checkStorageQuota(
+  customerId: number,
+  incomingBytes: number
+): Promise<StorageUsage> {
+  const usage = await getCustomerStorageUsage(customerId);
+
+  if (usage.usedBytes + incomingBytes > usage.quotaBytes) {
+    const remaining = Math.max(0, usage.quotaBytes - usage.usedBytes);
+    throw new StorageError(
+      `Storage quota exceeded: this upload needs ${formatMb(incomingBytes)} but only ` +
+        `${formatMb(remaining)} of the ${formatMb(usage.quotaBytes)} quota is left`,
+      'QUOTA_EXCEEDED'
+    );
+  }
+
+  return usage;
+}
+
+/**
+ * Get the customers using the most storage
+ *
+ * @param limit - Number of customers to return
+ * @returns Customers ordered by bytes used, largest first
+ */
+export async function getLargestStorageConsumers(limit: number = 20): Promise<StorageConsumer[]> {
+  const totals = (await prisma.customerFile.groupBy({
+    by: ['customerId'],
+    where: { deletedAt: null },
+    _sum: { fileSize: true },
+    _count: { _all: true },
+    orderBy: { _sum: { fileSize: 'desc' } },
+    take: limit,
+  })) as Array<{ customerId: number; _sum: { fileSize: number | null }; _count: { _all: number } }>;
+
+  if (totals.length === 0) {
+    return [];
+  }
+
+  const customerIds = totals.map((total) => total.customerId);
+  const [customers, quotas] = await Promise.all([
+    prisma.intakeSubmission.findMany({
+      where: { id: { in: customerIds } },
+      select: { id: true, businessName: true, fullName: true },
+    }) as Promise<Array<{ id: number; businessName: string; fullName: string }>>,
+    getStorageQuotas(customerIds),
+  ]);
+  const customersById = new Map(customers.map((customer) => [customer.id, customer]));
+
+  return totals.map((total) => ({
+    customerId: total.customerId,
+    businessName: customersById.get(total.customerId)?.businessName ?? 'Unknown customer',
+    fullName: customersById.get(total.customerId)?.fullName ?? '',
+    fileCount: total._count._all,
+    usedBytes: total._sum.fileSize ?? 0,
+    ...quotas.get(total.customerId)!,
+  }));
+}
+
+/**
+ * Compare the objects in storage with the file and variant records
+ *
+ * Lists the whole customers/ tree, so this is meant for an occasional
+ * admin report rather than a request path.
+ */
+export async function findStorageOrphans(): Promise<StorageOrphanReport> {
+  const [objects, files, variants] = await Promise.all([
+    listStoredFiles(),
+    prisma.customerFile.findMany({
+      select: { id: true, customerId: true, fileName: true, fileKey: true },
+      orderBy: { id: 'asc' },
+    }) as Promise<StorageOrphanReport['missingFiles']>,
+    prisma.customerFileVariant.findMany({
+      select: { id: true, fileId: true, fileKey: true },
+      orderBy: { id: 'asc' },
+    }) as Promise<StorageOrphanReport['missingVariants']>,
+  ]);
+
+  const storedKeys = new Set(objects.map((object) => object.fileKey));
+  const recordedKeys = new Set([
+    ...files.map((file) => file.fileKey),
+    ...variants.map((variant) => variant.fileKey),
+  ]);
+
+  return {
+    unreferencedObjects: objects
+      .filter((object) => !recordedKeys.has(object.fileKey))
+      .sort((a, b) => a.fileKey.localeCompare(b.fileKey)),
+    missingFiles: files.filter((file) => !storedKeys.has(file.fileKey)),
+    missingVariants: variants.filter((variant) => !storedKeys.has(variant.fileKey)),
+  };
+}
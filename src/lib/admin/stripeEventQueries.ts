@@ -0,0 +1,175 @@
+/**
+ * Stripe Event Ledger Queries
+ *
+ * Persists every verified Stripe webhook event keyed by its event ID so that
+ * retried or duplicated deliveries are processed at most once, and failed
+ * events can be inspected and replayed from the admin panel.
+ */
+
+import { prisma } from '@/lib/db';
+import type { PaginatedResponse, StripeEventRecord, StripeEventStatus } from '@/types/admin';
+
+// An event stuck in RECEIVED this long is assumed to belong to a crashed
+// handler and may be claimed again by the next delivery.
+const STALE_RECEIVED_MS = 5 * 60 * 1000;
+
+// Fields selected for list queries (the payload can be large)
+const STRIPE_EVENT_SELECT = {
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  type: true,
+  status: true,
+  error: true,
+  attempts: true,
+  processedAt: true,
+} as const;
+
+/**
+ * Map a Prisma row to the StripeEventRecord type
+ */
+function toStripeEventRecord(row: {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+  type: string;
+  status: string;
+  error: string | null;
+  attempts: number;
+  processedAt: Date | null;
+}): StripeEventRecord {
+  return {
+    ...row,
+    status: row.status as StripeEventStatus,
+  };
+}
+
+/**
+ * Record an incoming event and decide whether it should be processed.
+ *
+ * Returns true for a first delivery, a redelivery of a FAILED event, or a
+ * stale RECEIVED event. Returns false for duplicates that were already
+ * processed or are being processed right now.
+ */
+export async function claimStripeEvent(
+  eventId: string,
+  type: string,
+  payload: string
+): Promise<boolean> {
+  // skipDuplicates makes the insert race-safe when Stripe delivers twice at once
+  const { count } = await prisma.stripeEvent.createMany({
+    data: [{ id: eventId, type, payload }],
+    skipDuplicates: true,
+  });
+
+  if (count === 1) {
+    return true;
+  }
+
+  const existing = await prisma.stripeEvent.findUnique({
+    where: { id: eventId },
+    select: { status: true, updatedAt: true },
+  });
+
+  if (!existing || existing.status === 'PROCESSED') {
+    return false;
+  }
+
+  if (existing.status === 'FAILED') {
+    return true;
+  }
+
+  return Date.now() - existing.updatedAt.getTime() > STALE_RECEIVED_MS;
+}
+
+/**
+ * Mark the start of a processing attempt
+ */
+export async function startStripeEventAttempt(eventId: string): Promise<void> {
+  await prisma.stripeEvent.update({
+    where: { id: eventId },
+    data: {
+      status: 'RECEIVED',
+      attempts: { increment: 1 },
+      error: null,
+    },
+  });
+}
+
+/**
+ * Mark an event as successfully processed
+ */
+export async function markStripeEventProcessed(eventId: string): Promise<void> {
+  await prisma.stripeEvent.update({
+    where: { id: eventId },
+    data: {
+      status: 'PROCESSED',
+      processedAt: new Date(),
+      error: null,
+    },
+  });
+}
+
+/**
+ * Mark an event as failed with the handler error message
+ */
+export async function markStripeEventFailed(eventId: string, error: string): Promise<void> {
+  await prisma.stripeEvent.update({
+    where: { id: eventId },
+    data: {
+      status: 'FAILED',
+      error,
+    },
+  });
+}
+
+/**
+ * Get paginated ledger entries, newest first, optionally filtered by status
+ */
+export async function getStripeEvents(
+  status?: StripeEventStatus,
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedResponse<StripeEventRecord>> {
+  const skip = (page - 1) * limit;
+  const where = status ? { status } : {};
+
+  const [total, items] = await Promise.all([
+    prisma.stripeEvent.count({ where }),
+    prisma.stripeEvent.findMany({
+      where,
+      select: STRIPE_EVENT_SELECT,
+      orderBy: { createdAt: 'desc' },
+      skip,
+      take: limit,
+    }),
+  ]);
+
+  return {
+    items: items.map(toStripeEventRecord),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+/**
+ * Get a single ledger entry including its stored payload
+ */
+export async function getStripeEventById(
+  eventId: string
+): Promise<(StripeEventRecord & { payload: string }) | null> {
+  const event = await prisma.stripeEvent.findUnique({
+    where: { id: eventId },
+  });
+
+  if (!event) {
+    return null;
+  }
+
+  return {
+    ...toStripeEventRecord(event),
+    payload: event.payload,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Token Link Database Queries
+ *
+ * Shared queries behind the links we send customers to public pages
+ * (billing portal, file uploads, preview review). Each link is a random
+ * token that can be used any number of times until it expires. Issuing a
+ * new link revokes the customer's earlier links of the same kind so only
+ * the most recently sent one works.
+ */
+
+import { randomUUID } from 'crypto';
+import { prisma } from '@/lib/db';
+import type { AdminSessionPayload } from '@/types/admin';
+
+// Name recorded on links issued without an admin, e.g. by the dunning job
+export const SYSTEM_ISSUER_NAME = 'System';
+
+export interface TokenLinkConfig {
+  // Prisma model holding the links
+  model: 'billingPortalLink' | 'uploadLink' | 'previewReviewLink';
+  // Public page path the token is appended to, e.g. "/upload"
+  path: string;
+  // How long a link stays valid
+  ttlDays: number;
+  // Column set each time the customer uses a link
+  usedAtField: 'lastUsedAt' | 'lastFeedbackAt';
+}
+
+export interface TokenLinkRecord {
+  id: number;
+  customerId: number;
+  token: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface TokenLinkQueries<T extends TokenLinkRecord> {
+  getUrl(token: string): string;
+  isUsable(link: Pick<TokenLinkRecord, 'expiresAt' | 'revokedAt'>, now?: Date): boolean;
+  create(
+    customerId: number,
+    createdBy: AdminSessionPayload | null,
+    data?: Record<string, unknown>,
+    now?: Date
+  ): Promise<T>;
+  getByToken(token: string): Promise<T | null>;
+  getActive(customerId: number, now?: Date): Promise<T | null>;
+  getLatest(customerId: number): Promise<T | null>;
+  markUsed(id: number): Promise<void>;
+}
+
+/**
+ * Create the queries for one kind of token link
+ */
+export function createTokenLinkQueries<T extends TokenLinkRecord>(
+  config: TokenLinkConfig
+): TokenLinkQueries<T> {
+  // Looked up on each call so tests can swap the Prisma client
+  const model = () => prisma[config.model];
+  const activeWhere = (customerId: number, now: Date) => ({
+    customerId,
+    revokedAt: null,
+    expiresAt: { gt: now },
+  });
+
+  return {
+    getUrl(token) {
+      const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+      return `${baseUrl}${config.path}/${token}`;
+    },
+
+    isUsable(link, now = new Date()) {
+      return link.revokedAt === null && link.expiresAt > now;
+    },
+
+    async create(customerId, createdBy, data = {}, now = new Date()) {
+      await model().updateMany({
+        where: activeWhere(customerId, now),
+        data: { revokedAt: now },
+      });
+
+      return model().create({
+        data: {
+          customerId,
+          token: randomUUID(),
+          ...data,
+          expiresAt: new Date(now.getTime() + config.ttlDays * 24 * 60 * 60 * 1000),
+          createdById: createdBy?.userId ?? null,
+          createdByName: createdBy?.name ?? SYSTEM_ISSUER_NAME,
+        },
+      });
+    },
+
+    async getByToken(token) {
+      return model().findUnique({
+        where: { token },
+      });
+    },
+
+    async getActive(customerId, now = new Date()) {
+      return model().findFirst({
+        where: activeWhere(customerId, now),
+        orderBy: { createdAt: 'desc' },
+      });
+    },
+
+    async getLatest(customerId) {
+      return model().findFirst({
+        where: { customerId },
+        orderBy: { createdAt: 'desc' },
+      });
+    },
+
+    async markUsed(id) {
+      await model().update({
+        where: { id },
+        data: { [config.usedAtField]: new Date() },
+      });
+    },
+  };
+}
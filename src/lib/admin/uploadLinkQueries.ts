@@ -0,0 +1,66 @@
+/**
+ * Upload Link Database Queries
+ *
+ * Customers send us their logos, photos and copy through a public upload
+ * page reached with an UploadLink token. A link can be used any number of
+ * times until it expires. Issuing a new link revokes the customer's earlier
+ * links so only the most recently sent one works.
+ */
+
+import { createTokenLinkQueries } from '@/lib/admin/tokenLinkQueries';
+import type { AdminSessionPayload, FileCategory, UploadLink } from '@/types/admin';
+
+// How long an upload link stays valid
+export const UPLOAD_LINK_TTL_DAYS = 14;
+
+// Categories customers can upload into from the upload page
+export const UPLOAD_PORTAL_CATEGORIES: FileCategory[] = ['LOGO', 'PHOTO', 'CONTENT'];
+
+const links = createTokenLinkQueries<UploadLink>({
+  model: 'uploadLink',
+  path: '/upload',
+  ttlDays: UPLOAD_LINK_TTL_DAYS,
+  usedAtField: 'lastUsedAt',
+});
+
+/**
+ * Build the public URL for an upload link
+ */
+export function getUploadPortalUrl(token: string): string {
+  return links.getUrl(token);
+}
+
+/**
+ * Whether a link can still be used to upload files
+ */
+export function isUploadLinkUsable(
+  link: Pick<UploadLink, 'expiresAt' | 'revokedAt'>,
+  now: Date = new Date()
+): boolean {
+  return links.isUsable(link, now);
+}
+
+/**
+ * Issue a new upload link, revoking the customer's earlier links
+ */
+export async function createUploadLink(
+  customerId: number,
+  createdBy: AdminSessionPayload,
+  now: Date = new Date()
+): Promise<UploadLink> {
+  return links.create(customerId, createdBy, {}, now);
+}
+
+/**
+ * Look up a link by its token for the public upload page
+ */
+export async function getUploadLinkByToken(token: string): Promise<UploadLink | null> {
+  return links.getByToken(token);
+}
+
+/**
+ * Record that the customer uploaded files with a link
+ */
+export async function markUploadLinkUsed(id: number): Promise<void> {
+  await links.markUsed(id);
+}
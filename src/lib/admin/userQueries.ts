@@ -0,0 +1,210 @@
+/**
+ * Admin User Database Queries
+ *
+ * Centralized database query functions for admin user accounts.
+ * Password hashes never leave this module; callers receive AdminUser objects.
+ */
+
+import { prisma } from '@/lib/db';
+import { hashPassword, verifyPassword } from '@/lib/auth/password';
+import { validatePassword } from '@/lib/auth/session';
+import type {
+  AdminRole,
+  AdminUser,
+  CreateAdminUserInput,
+  UpdateAdminUserInput,
+} from '@/types/admin';
+
+// Fields selected for every query that returns an AdminUser
+const ADMIN_USER_SELECT = {
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  email: true,
+  name: true,
+  role: true,
+  isActive: true,
+  lastLoginAt: true,
+} as const;
+
+// Checked when no user matches an email, so unknown emails take as long
+// to reject as wrong passwords and can't be told apart
+const DUMMY_PASSWORD_HASH = `${'0'.repeat(32)}:${'0'.repeat(128)}`;
+
+/**
+ * Normalize an email address for storage and lookup
+ */
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Map a Prisma row to the AdminUser type
+ */
+function toAdminUser(row: {
+  id: number;
+  createdAt: Date;
+  updatedAt: Date;
+  email: string;
+  name: string;
+  role: string;
+  isActive: boolean;
+  lastLoginAt: Date | null;
+}): AdminUser {
+  return {
+    ...row,
+    role: row.role as AdminRole,
+  };
+}
+
+/**
+ * Get all admin users ordered by name
+ */
+export async function getAdminUsers(): Promise<AdminUser[]> {
+  const users = await prisma.adminUser.findMany({
+    select: ADMIN_USER_SELECT,
+    orderBy: { name: 'asc' },
+  });
+  return users.map(toAdminUser);
+}
+
+/**
+ * Get a single admin user by ID
+ */
+export async function getAdminUserById(id: number): Promise<AdminUser | null> {
+  const user = await prisma.adminUser.findUnique({
+    where: { id },
+    select: ADMIN_USER_SELECT,
+  });
+  return user ? toAdminUser(user) : null;
+}
+
+/**
+ * Check whether an email is already used by another admin user
+ */
+export async function adminEmailExists(email: string): Promise<boolean> {
+  const count = await prisma.adminUser.count({
+    where: { email: normalizeEmail(email) },
+  });
+  return count > 0;
+}
+
+/**
+ * Create a new admin user with a hashed password
+ */
+export async function createAdminUser(input: CreateAdminUserInput): Promise<AdminUser> {
+  const user = await prisma.adminUser.create({
+    data: {
+      email: normalizeEmail(input.email),
+      name: input.name.trim(),
+      role: input.role,
+      passwordHash: await hashPassword(input.password),
+    },
+    select: ADMIN_USER_SELECT,
+  });
+  return toAdminUser(user);
+}
+
+/**
+ * Update an admin user. A new password is re-hashed before storage.
+ */
+export async function updateAdminUser(
+  id: number,
+  input: UpdateAdminUserInput
+): Promise<AdminUser> {
+  const data: {
+    name?: string;
+    role?: string;
+    isActive?: boolean;
+    passwordHash?: string;
+  } = {};
+
+  if (input.name !== undefined) data.name = input.name.trim();
+  if (input.role !== undefined) data.role = input.role;
+  if (input.isActive !== undefined) data.isActive = input.isActive;
+  if (input.password !== undefined) data.passwordHash = await hashPassword(input.password);
+
+  const user = await prisma.adminUser.update({
+    where: { id },
+    data,
+    select: ADMIN_USER_SELECT,
+  });
+  return toAdminUser(user);
+}
+
+/**
+ * Count active OWNER accounts (used to prevent locking everyone out)
+ */
+export async function countActiveOwners(): Promise<number> {
+  return prisma.adminUser.count({
+    where: { role: 'OWNER', isActive: true },
+  });
+}
+
+/**
+ * Create the first OWNER account, unless another login created one first.
+ * The count and create run in one serializable transaction so two logins
+ * at the same moment can't both create an owner.
+ */
+async function createFirstOwner(email: string, password: string): Promise<AdminUser | null> {
+  const passwordHash = await hashPassword(password);
+
+  try {
+    const user = await prisma.$transaction(
+      async (tx: typeof prisma) => {
+        if ((await tx.adminUser.count()) > 0) {
+          return null;
+        }
+        return tx.adminUser.create({
+          data: { email, name: email.split('@')[0], role: 'OWNER', passwordHash },
+          select: ADMIN_USER_SELECT,
+        });
+      },
+      { isolationLevel: 'Serializable' }
+    );
+    return user ? toAdminUser(user) : null;
+  } catch (error) {
+    // P2034: the transaction lost to a concurrent one; P2002: same email
+    const code = (error as { code?: string }).code;
+    if (code === 'P2034' || code === 'P2002') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Verify login credentials and return the matching active admin user.
+ *
+ * When no admin users exist yet, signing in with ADMIN_PASSWORD creates
+ * the first OWNER account for the given email so the team can be set up.
+ * A password hash is checked on every attempt so response times don't
+ * reveal which emails belong to admin users.
+ */
+export async function authenticateAdminUser(
+  email: string,
+  password: string
+): Promise<AdminUser | null> {
+  const normalizedEmail = normalizeEmail(email);
+
+  const user = await prisma.adminUser.findUnique({
+    where: { email: normalizedEmail },
+  });
+
+  const passwordMatches = await verifyPassword(password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+
+  if (!user) {
+    return validatePassword(password) ? createFirstOwner(normalizedEmail, password) : null;
+  }
+
+  if (!user.isActive || !passwordMatches) {
+    return null;
+  }
+
+  const updated = await prisma.adminUser.update({
+    where: { id: user.id },
+    data: { lastLoginAt: new Date() },
+    select: ADMIN_USER_SELECT,
+  });
+  return toAdminUser(updated);
+}
@@ -0,0 +1,28 @@
+/**
+ * Cron Authentication
+ *
+ * Scheduled jobs call the /api/cron endpoints with
+ * "Authorization: Bearer <CRON_SECRET>". Every request is rejected when no
+ * secret is configured.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Check that a request carries the cron secret. Both values are hashed
+ * first so the comparison takes the same time whatever the header's length.
+ */
+export function authorizeCron(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+
+  const header = request.headers.get('authorization') ?? '';
+  return timingSafeEqual(digest(header), digest(`Bearer ${secret}`));
+}
@@ -0,0 +1,48 @@
+/**
+ * Password Hashing Utilities
+ *
+ * Hashes admin passwords with Node's built-in scrypt so no native
+ * dependency is required. Stored format: "<salt>:<hash>" (both hex).
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+// Minimum password length for admin accounts
+export const MIN_PASSWORD_LENGTH = 10;
+
+/**
+ * Hash a plain-text password
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES).toString('hex');
+  const derived = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt}:${derived.toString('hex')}`;
+}
+
+/**
+ * Verify a plain-text password against a stored hash
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [salt, hash] = storedHash.split(':');
+  if (!salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const derived = await scryptAsync(password, salt, expected.length);
+
+  if (derived.length !== expected.length) {
+    return false;
+  }
+  return timingSafeEqual(derived, expected);
+}
@@ -0,0 +1,72 @@
+/**
+ * Admin Role Permissions
+ *
+ * Maps each admin role to the set of permissions it is granted.
+ * API routes check a single permission via `authorize()` in session.ts.
+ */
+
+import type { AdminRole, AdminPermission } from '@/types/admin';
+
+// Valid roles for validation
+export const ADMIN_ROLES: AdminRole[] = ['OWNER', 'SALES', 'DESIGNER', 'BILLING'];
+
+// Permissions shared by every role
+const BASE_PERMISSIONS: AdminPermission[] = [
+  'dashboard:view',
+  'submissions:view',
+  'notes:view',
+  'notes:edit',
+  'files:view',
+  'deployments:view',
+];
+
+/**
+ * Role to permission mapping.
+ * OWNER has every permission; other roles are scoped to their job.
+ */
+export const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  OWNER: [
+    ...BASE_PERMISSIONS,
+    'submissions:edit',
+    'projects:edit',
+    'files:upload',
+    'files:delete',
+    'deployments:manage',
+    'billing:view',
+    'billing:manage',
+    'users:manage',
+  ],
+  SALES: [
+    ...BASE_PERMISSIONS,
+    'submissions:edit',
+    'projects:edit',
+    'files:upload',
+    'billing:view',
+  ],
+  DESIGNER: [
+    ...BASE_PERMISSIONS,
+    'projects:edit',
+    'files:upload',
+    'files:delete',
+    'deployments:manage',
+  ],
+  BILLING: [
+    ...BASE_PERMISSIONS,
+    'billing:view',
+    'billing:manage',
+  ],
+};
+
+/**
+ * Validate if a string is a valid AdminRole
+ */
+export function isValidAdminRole(role: string): role is AdminRole {
+  return ADMIN_ROLES.includes(role as AdminRole);
+}
+
+/**
+ * Check whether a role is granted a permission
+ */
+export function hasPermission(role: AdminRole, permission: AdminPermission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
@@ -3,39 +3,45 @@
  *
  * Handles JWT creation, verification, and cookie management for admin authentication.
  * Uses the `jose` library for JWT operations with HttpOnly cookies.
+ *
+ * The token only says who signed in. Whether the account is still active and
+ * what role it has are read from the database on every request, so
+ * deactivating a user or changing their role applies immediately.
  */
 
-import { SignJWT, jwtVerify } from 'jose';
+import { SignJWT } from 'jose';
 import { cookies } from 'next/headers';
-import type { AdminSessionPayload, SessionResult } from '@/types/admin';
+import { prisma } from '@/lib/db';
+import { hasPermission, isValidAdminRole } from '@/lib/auth/permissions';
+import { getJwtSecret, SESSION_COOKIE_NAME, verifySessionToken } from '@/lib/auth/token';
+import type {
+  AdminPermission,
+  AdminSessionPayload,
+  AdminUser,
+  AuthorizationResult,
+  SessionResult,
+} from '@/types/admin';
 
 // Cookie configuration
-const COOKIE_NAME = 'admin_session';
 const COOKIE_MAX_AGE = 60 * 60 * 24; // 24 hours in seconds
 
 /**
- * Get the JWT secret as a Uint8Array for jose library
- */
-function getJwtSecret(): Uint8Array {
-  const secret = process.env.JWT_SECRET;
-  if (!secret) {
-    throw new Error('JWT_SECRET environment variable is not set');
-  }
-  if (secret.length < 32) {
-    throw new Error('JWT_SECRET must be at least 32 characters long');
-  }
-  return new TextEncoder().encode(secret);
-}
-
-/**
- * Create a new JWT token for an authenticated admin session
+ * Create a new JWT token for an authenticated admin user
  */
-export async function createSession(): Promise<string> {
+export async function createSession(
+  user: Pick<AdminUser, 'id' | 'email' | 'name' | 'role'>
+): Promise<string> {
   const secret = getJwtSecret();
   const now = Math.floor(Date.now() / 1000);
 
-  const token = await new SignJWT({ role: 'admin' })
+  const token = await new SignJWT({
+    userId: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+  })
     .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(String(user.id))
     .setIssuedAt(now)
     .setExpirationTime(now + COOKIE_MAX_AGE)
     .sign(secret);
@@ -47,19 +53,8 @@ export async function createSession(): Promise<string> {
  * Verify a JWT token and return the payload
  */
 export async function verifySession(token: string): Promise<SessionResult> {
-  try {
-    const secret = getJwtSecret();
-    const { payload } = await jwtVerify(token, secret);
-
-    return {
-      isValid: true,
-      payload: payload as unknown as AdminSessionPayload,
-    };
-  } catch {
-    return {
-      isValid: false,
-    };
-  }
+  const payload = await verifySessionToken(token);
+  return payload ? { isValid: true, payload } : { isValid: false };
 }
 
 /**
@@ -67,7 +62,7 @@ export async function verifySession(token: string): Promise<SessionResult> {
  */
 export async function setSessionCookie(token: string): Promise<void> {
   const cookieStore = await cookies();
-  cookieStore.set(COOKIE_NAME, token, {
+  cookieStore.set(SESSION_COOKIE_NAME, token, {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
     sameSite: 'lax',
@@ -81,7 +76,7 @@ export async function setSessionCookie(token: string): Promise<void> {
  */
 export async function getSessionToken(): Promise<string | undefined> {
   const cookieStore = await cookies();
-  return cookieStore.get(COOKIE_NAME)?.value;
+  return cookieStore.get(SESSION_COOKIE_NAME)?.value;
 }
 
 /**
@@ -89,11 +84,12 @@ export async function getSessionToken(): Promise<string | undefined> {
  */
 export async function clearSessionCookie(): Promise<void> {
   const cookieStore = await cookies();
-  cookieStore.delete(COOKIE_NAME);
+  cookieStore.delete(SESSION_COOKIE_NAME);
 }
 
 /**
- * Validate the admin password against the environment variable
+ * Validate the bootstrap admin password against the environment variable.
+ * Only used to create the first OWNER account when no admin users exist yet.
  */
 export function validatePassword(password: string): boolean {
   const adminPassword = process.env.ADMIN_PASSWORD;
@@ -109,10 +105,52 @@ export function validatePassword(password: string): boolean {
  * This is a convenience function that combines getSessionToken and verifySession
  */
 export async function isAuthenticated(): Promise<boolean> {
+  return (await getCurrentSession()) !== null;
+}
+
+/**
+ * Get the current admin session, or null if not signed in.
+ *
+ * The user's name, email and role come from their account rather than the
+ * token, and sessions of deactivated or deleted users are rejected.
+ */
+export async function getCurrentSession(): Promise<AdminSessionPayload | null> {
   const token = await getSessionToken();
   if (!token) {
-    return false;
+    return null;
   }
   const result = await verifySession(token);
-  return result.isValid;
+  if (!result.isValid || !result.payload) {
+    return null;
+  }
+
+  const user = await prisma.adminUser.findUnique({
+    where: { id: result.payload.userId },
+    select: { email: true, name: true, role: true, isActive: true },
+  });
+  if (!user || !user.isActive || !isValidAdminRole(user.role)) {
+    return null;
+  }
+
+  return {
+    ...result.payload,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+  };
+}
+
+/**
+ * Check that the current request is signed in and its role grants a permission.
+ * API routes return `result.error` with `result.status` (401 or 403) when not authorized.
+ */
+export async function authorize(permission: AdminPermission): Promise<AuthorizationResult> {
+  const session = await getCurrentSession();
+  if (!session) {
+    return { authorized: false, status: 401, error: 'Unauthorized' };
+  }
+  if (!hasPermission(session.role, permission)) {
+    return { authorized: false, status: 403, error: 'Forbidden' };
+  }
+  return { authorized: true, session };
 }
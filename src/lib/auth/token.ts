@@ -0,0 +1,51 @@
+/**
+ * Session Token Verification
+ *
+ * Verifies admin session JWTs and checks their payload. Kept free of
+ * Node-only and database imports so the edge middleware and the server
+ * session utilities accept exactly the same tokens.
+ */
+
+import { jwtVerify } from 'jose';
+import { isValidAdminRole } from '@/lib/auth/permissions';
+import type { AdminSessionPayload } from '@/types/admin';
+
+// Cookie holding the session token
+export const SESSION_COOKIE_NAME = 'admin_session';
+
+/**
+ * Get the JWT secret as a Uint8Array for jose library
+ */
+export function getJwtSecret(): Uint8Array {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET environment variable is not set');
+  }
+  if (secret.length < 32) {
+    throw new Error('JWT_SECRET must be at least 32 characters long');
+  }
+  return new TextEncoder().encode(secret);
+}
+
+/**
+ * Verify a session token and return its payload, or null if the token is
+ * invalid, expired, or predates per-user sessions
+ */
+export async function verifySessionToken(token: string): Promise<AdminSessionPayload | null> {
+  try {
+    const { payload } = await jwtVerify(token, getJwtSecret());
+
+    // Reject tokens that predate per-user sessions or carry an unknown role
+    if (
+      typeof payload.userId !== 'number' ||
+      typeof payload.role !== 'string' ||
+      !isValidAdminRole(payload.role)
+    ) {
+      return null;
+    }
+
+    return payload as unknown as AdminSessionPayload;
+  } catch {
+    return null;
+  }
+}
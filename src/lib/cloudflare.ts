@@ -2,14 +2,22 @@
  * Cloudflare API Integration Library
  *
  * Provides wrapper functions for interacting with Cloudflare's API
- * for Pages deployments, DNS management, and custom domain configuration.
+ * for Pages deployments (from git or by direct upload of a static bundle),
+ * DNS management, and custom domain configuration.
  *
  * Required environment variables:
  * - CLOUDFLARE_API_TOKEN: API token with Pages and DNS permissions
  * - CLOUDFLARE_ACCOUNT_ID: Your Cloudflare account ID
  * - CLOUDFLARE_ZONE_ID: Zone ID for DNS record management
+ *
+ * Optional:
+ * - CLOUDFLARE_API_BASE_URL: Send API requests somewhere else, e.g. a fake
+ *   Cloudflare server in tests
  */
 
+import { createHash } from 'crypto';
+import type { PreviewBranchSettings } from '@/types/admin';
+
 // Cloudflare API base URL
 const CF_API_BASE = 'https://api.cloudflare.com/client/v4';
 
@@ -134,6 +142,23 @@ export interface PagesDeployment {
   production_branch?: string;
 }
 
+/**
+ * A line of a deployment's build log
+ */
+export interface PagesDeploymentLogLine {
+  line: string;
+  ts: string;
+}
+
+/**
+ * Build log of a deployment
+ */
+interface PagesDeploymentLogs {
+  total: number;
+  includes_container_logs: boolean;
+  data: PagesDeploymentLogLine[];
+}
+
 /**
  * DNS record structure
  */
@@ -209,6 +234,13 @@ function getAccountId(): string {
   return accountId;
 }
 
+/**
+ * Get the Cloudflare API base URL, overridable for tests
+ */
+function getApiBase(): string {
+  return process.env.CLOUDFLARE_API_BASE_URL || CF_API_BASE;
+}
+
 /**
  * Get Cloudflare Zone ID from environment (optional fallback)
  */
@@ -271,11 +303,15 @@ async function cfFetch<T>(
 ): Promise<CloudflareResponse<T>> {
   const token = getApiToken();
 
-  const response = await fetch(`${CF_API_BASE}${endpoint}`, {
+  // fetch sets the multipart boundary itself for form data
+  const contentType: Record<string, string> =
+    options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' };
+
+  const response = await fetch(`${getApiBase()}${endpoint}`, {
     ...options,
     headers: {
       Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json',
+      ...contentType,
       ...options.headers,
     },
   });
@@ -300,6 +336,8 @@ async function cfFetch<T>(
  * @param name - Project name (used in subdomain: name.pages.dev)
  * @param gitRepoUrl - Optional Git repository URL for automatic deployments
  * @param gitBranch - Optional production branch (defaults to 'main')
+ * @param previewSettings - Which other branches get preview deployments, for
+ *   git-connected projects (defaults to all branches)
  * @returns Created Pages project
  *
  * @example
@@ -317,7 +355,8 @@ async function cfFetch<T>(
 export async function createPagesProject(
   name: string,
   gitRepoUrl?: string,
-  gitBranch?: string
+  gitBranch?: string,
+  previewSettings?: PreviewBranchSettings
 ): Promise<PagesProject> {
   const accountId = getAccountId();
 
@@ -337,7 +376,9 @@ export async function createPagesProject(
         repo_name: string;
         production_branch: string;
         deployments_enabled: boolean;
-        preview_deployment_setting: 'all' | 'none';
+        preview_deployment_setting: PreviewBranchSettings['previewDeploymentSetting'];
+        preview_branch_includes?: string[];
+        preview_branch_excludes?: string[];
       };
     };
   } = {
@@ -360,7 +401,7 @@ export async function createPagesProject(
           repo_name: repoName,
           production_branch: gitBranch || 'main',
           deployments_enabled: true,
-          preview_deployment_setting: 'all',
+          ...toPreviewConfig(previewSettings ?? { previewDeploymentSetting: 'all', previewBranchIncludes: [], previewBranchExcludes: [] }),
         },
       };
     }
@@ -402,6 +443,58 @@ export async function getPagesProject(
   }
 }
 
+// Convert preview branch settings to a project's source config fields
+function toPreviewConfig(settings: PreviewBranchSettings) {
+  return {
+    preview_deployment_setting: settings.previewDeploymentSetting,
+    preview_branch_includes: settings.previewBranchIncludes,
+    preview_branch_excludes: settings.previewBranchExcludes,
+  };
+}
+
+/**
+ * Read which branches get preview deployments from a project
+ *
+ * @param project - The Pages project
+ * @returns Preview branch settings, or null for projects without a git source
+ */
+export function getPreviewBranchSettings(project: PagesProject): PreviewBranchSettings | null {
+  if (!project.source) {
+    return null;
+  }
+
+  const { config } = project.source;
+  return {
+    previewDeploymentSetting: config.preview_deployment_setting ?? 'all',
+    previewBranchIncludes: config.preview_branch_includes ?? [],
+    previewBranchExcludes: config.preview_branch_excludes ?? [],
+  };
+}
+
+/**
+ * Change which branches of a git-connected project get preview deployments
+ *
+ * @param projectName - The project name
+ * @param settings - The new preview branch settings
+ * @returns Updated Pages project
+ */
+export async function updatePreviewBranchSettings(
+  projectName: string,
+  settings: PreviewBranchSettings
+): Promise<PagesProject> {
+  const accountId = getAccountId();
+
+  const response = await cfFetch<PagesProject>(
+    `/accounts/${accountId}/pages/projects/${projectName}`,
+    {
+      method: 'PATCH',
+      body: JSON.stringify({ source: { config: toPreviewConfig(settings) } }),
+    }
+  );
+
+  return response.result;
+}
+
 /**
  * Delete a Pages project
  *
@@ -484,16 +577,19 @@ export async function getDeploymentStatus(
  *
  * @param projectName - The project name
  * @param limit - Maximum number of deployments to return (default: 10)
+ * @param environment - Only return production or preview deployments
  * @returns List of deployments
  */
 export async function getDeployments(
   projectName: string,
-  limit: number = 10
+  limit: number = 10,
+  environment?: PagesDeployment['environment']
 ): Promise<PagesDeployment[]> {
   const accountId = getAccountId();
+  const envParam = environment ? `&env=${environment}` : '';
 
   const response = await cfFetch<PagesDeployment[]>(
-    `/accounts/${accountId}/pages/projects/${projectName}/deployments?per_page=${limit}`
+    `/accounts/${accountId}/pages/projects/${projectName}/deployments?per_page=${limit}${envParam}`
   );
 
   return response.result;
@@ -542,6 +638,220 @@ export async function cancelDeployment(
   );
 }
 
+/**
+ * Roll production back to an earlier deployment
+ *
+ * Cloudflare only allows rolling back to successful production deployments.
+ *
+ * @param projectName - The project name
+ * @param deploymentId - The deployment ID to make live again
+ * @returns The deployment now serving production
+ */
+export async function rollbackDeployment(
+  projectName: string,
+  deploymentId: string
+): Promise<PagesDeployment> {
+  const accountId = getAccountId();
+
+  const response = await cfFetch<PagesDeployment>(
+    `/accounts/${accountId}/pages/projects/${projectName}/deployments/${deploymentId}/rollback`,
+    {
+      method: 'POST',
+    }
+  );
+
+  return response.result;
+}
+
+/**
+ * Get the build log of a deployment
+ *
+ * @param projectName - The project name
+ * @param deploymentId - The deployment ID
+ * @returns Log lines, oldest first
+ */
+export async function getDeploymentLogs(
+  projectName: string,
+  deploymentId: string
+): Promise<PagesDeploymentLogLine[]> {
+  const accountId = getAccountId();
+
+  const response = await cfFetch<PagesDeploymentLogs>(
+    `/accounts/${accountId}/pages/projects/${projectName}/deployments/${deploymentId}/history/logs`
+  );
+
+  return response.result.data;
+}
+
+// ============================================================================
+// Direct Upload Functions
+// ============================================================================
+
+// Cloudflare Pages limits for direct uploads
+export const MAX_ASSET_SIZE = 25 * 1024 * 1024; // 25MB per file
+export const MAX_ASSET_COUNT = 20000;
+
+// Limits for a single asset upload request
+const UPLOAD_BATCH_SIZE = 40 * 1024 * 1024;
+const UPLOAD_BATCH_COUNT = 2000;
+
+/**
+ * A file of a static site bundle
+ */
+export interface StaticAsset {
+  // URL path the file is served from, starting with "/"
+  path: string;
+  content: Buffer;
+  contentType: string;
+}
+
+/**
+ * Hash an asset for the deployment manifest
+ *
+ * Cloudflare stores uploaded assets by a 32 character hex key chosen by the
+ * uploader. The key covers the content and the extension, so the same
+ * bytes served with a different type are stored separately.
+ */
+export function hashAsset(asset: StaticAsset): string {
+  const extension = asset.path.includes('.') ? asset.path.slice(asset.path.lastIndexOf('.') + 1) : '';
+  return createHash('sha256')
+    .update(asset.content.toString('base64') + extension)
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * Get a short-lived JWT for uploading a project's assets
+ */
+async function getUploadToken(projectName: string): Promise<string> {
+  const accountId = getAccountId();
+
+  const response = await cfFetch<{ jwt: string }>(
+    `/accounts/${accountId}/pages/projects/${projectName}/upload-token`
+  );
+
+  return response.result.jwt;
+}
+
+/**
+ * Split assets into batches that fit in one upload request
+ */
+function batchAssets(assets: Array<{ hash: string; asset: StaticAsset }>) {
+  const batches: Array<typeof assets> = [];
+  let batch: typeof assets = [];
+  let batchSize = 0;
+
+  for (const item of assets) {
+    const size = item.asset.content.length;
+    if (batch.length > 0 && (batchSize + size > UPLOAD_BATCH_SIZE || batch.length >= UPLOAD_BATCH_COUNT)) {
+      batches.push(batch);
+      batch = [];
+      batchSize = 0;
+    }
+    batch.push(item);
+    batchSize += size;
+  }
+
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+  return batches;
+}
+
+/**
+ * Deploy a static bundle to a Pages project by direct upload
+ *
+ * Only assets Cloudflare doesn't already have are uploaded; the deployment
+ * is then created from a manifest mapping each path to its asset hash.
+ * Works for projects without a git connection.
+ *
+ * @param projectName - The project name to deploy
+ * @param assets - Files of the site, e.g. from buildCustomerFileBundle
+ * @param branch - Optional branch name; the production branch deploys to production
+ * @returns Deployment details
+ * @throws Error if the bundle is empty, too large or an upload fails
+ *
+ * @example
+ * const deployment = await deployStaticBundle('my-customer-site', [
+ *   { path: '/index.html', content: Buffer.from(html), contentType: 'text/html' },
+ * ]);
+ */
+export async function deployStaticBundle(
+  projectName: string,
+  assets: StaticAsset[],
+  branch?: string
+): Promise<PagesDeployment> {
+  if (assets.length === 0) {
+    throw new Error('Cannot deploy an empty bundle');
+  }
+  if (assets.length > MAX_ASSET_COUNT) {
+    throw new Error(`Bundle has ${assets.length} files; Cloudflare Pages allows ${MAX_ASSET_COUNT}`);
+  }
+
+  // Hash every file, uploading each distinct file once
+  const manifest: Record<string, string> = {};
+  const byHash = new Map<string, StaticAsset>();
+  for (const asset of assets) {
+    if (asset.content.length > MAX_ASSET_SIZE) {
+      throw new Error(`${asset.path} is larger than the 25 MB Cloudflare Pages allows per file`);
+    }
+    const hash = hashAsset(asset);
+    manifest[asset.path] = hash;
+    byHash.set(hash, asset);
+  }
+  const hashes = [...byHash.keys()];
+
+  // Asset requests are authorized by the upload token instead of the API token
+  const jwt = await getUploadToken(projectName);
+  const assetHeaders = { Authorization: `Bearer ${jwt}` };
+
+  const missing = await cfFetch<string[]>('/pages/assets/check-missing', {
+    method: 'POST',
+    headers: assetHeaders,
+    body: JSON.stringify({ hashes }),
+  });
+
+  const toUpload = missing.result.map((hash) => ({ hash, asset: byHash.get(hash)! }));
+  for (const batch of batchAssets(toUpload)) {
+    await cfFetch<null>('/pages/assets/upload', {
+      method: 'POST',
+      headers: assetHeaders,
+      body: JSON.stringify(
+        batch.map(({ hash, asset }) => ({
+          key: hash,
+          value: asset.content.toString('base64'),
+          metadata: { contentType: asset.contentType },
+          base64: true,
+        }))
+      ),
+    });
+  }
+
+  await cfFetch<null>('/pages/assets/upsert-hashes', {
+    method: 'POST',
+    headers: assetHeaders,
+    body: JSON.stringify({ hashes }),
+  });
+
+  // Create the deployment from the manifest
+  const accountId = getAccountId();
+  const form = new FormData();
+  form.append('manifest', JSON.stringify(manifest));
+  if (branch) {
+    form.append('branch', branch);
+  }
+
+  const response = await cfFetch<PagesDeployment>(
+    `/accounts/${accountId}/pages/projects/${projectName}/deployments`,
+    {
+      method: 'POST',
+      body: form,
+    }
+  );
+
+  return response.result;
+}
+
 // ============================================================================
 // Custom Domain Functions
 // ============================================================================
@@ -0,0 +1,110 @@
+/**
+ * CSV Utilities
+ *
+ * Minimal RFC 4180 reading and writing for exports and imports: comma
+ * delimited, double-quoted fields with "" escapes, and CRLF or LF line
+ * endings. Files saved by Excel start with a byte order mark, which is
+ * skipped.
+ */
+
+/**
+ * Error thrown when CSV text can't be parsed
+ */
+export class CsvParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(message);
+    this.name = 'CsvParseError';
+  }
+}
+
+/**
+ * Quote a CSV value when it contains a delimiter, quote or line break
+ */
+export function escapeCsvValue(value: string | number | boolean | null | undefined): string {
+  const text = value == null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Stop spreadsheet apps from running an exported value as a formula by
+ * prefixing text that starts with =, +, -, @, a tab or a carriage return
+ * with a quote. This includes phone numbers like "+1 555 0100", which
+ * Excel would otherwise evaluate.
+ */
+export function toSpreadsheetText<T extends string | number | boolean | null | undefined>(value: T): T | string {
+  return typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Build CSV text from rows of values, ending with a line break
+ */
+export function toCsv(rows: (string | number | boolean | null | undefined)[][]): string {
+  return rows.map((row) => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse CSV text into rows of fields. Blank lines are skipped.
+ *
+ * @throws CsvParseError if a quoted field is never closed
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let quoteLine = 1;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+      quoteLine = line;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' && input[i + 1] === '\n') {
+      // Handled with the \n
+    } else if (char === '\n' || char === '\r') {
+      endRow();
+      line++;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new CsvParseError(`Unclosed quote starting on line ${quoteLine}`, quoteLine);
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
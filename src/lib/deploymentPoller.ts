@@ -0,0 +1,219 @@
+/**
+ * Deployment Status Poller
+ *
+ * Triggering a deployment leaves the customer's record in DEPLOYING, and
+ * a DEPLOYING record blocks new deployments. Each run of this job checks
+ * every DEPLOYING record against Cloudflare and moves it to DEPLOYED or
+ * FAILED, with the failing stage as lastDeploymentError.
+ *
+ * Deployments still running after DEPLOYMENT_TIMEOUT_MINUTES (default: 30)
+ * are canceled on Cloudflare and marked FAILED, as are stale records that
+ * never got a Cloudflare deployment ID or whose deployment can't be read.
+ * A Cloudflare error on a record that isn't stale is reported and retried
+ * on the next run. The deployment's DeploymentRun is kept up to date too.
+ *
+ * Runs from POST /api/cron/deployment-poll (see scripts/run-deployment-poll.mjs).
+ * Pass `now` to runDeploymentPoller to evaluate the timeout at a fixed time.
+ */
+
+import { getDeploymentsByStatus, updateDeployment } from '@/lib/admin/deploymentQueries';
+import { recordDeploymentRun, failDeploymentRun } from '@/lib/admin/deploymentRunQueries';
+import { getDeploymentStatus, cancelDeployment, type PagesDeployment } from '@/lib/cloudflare';
+import type { CustomerDeployment, DeploymentRunStatus, DeploymentRunSyncData } from '@/types/admin';
+
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_TIMEOUT_MINUTES = 30;
+
+export interface DeploymentPollSummary {
+  checked: number;
+  deployed: number;
+  failed: number;
+  timedOut: number;
+  // Still building on Cloudflare
+  pending: number;
+  errors: string[];
+}
+
+/**
+ * Minutes a deployment may stay in DEPLOYING before it's timed out
+ */
+export function getDeploymentTimeoutMinutes(): number {
+  const minutes = parseInt(process.env.DEPLOYMENT_TIMEOUT_MINUTES || '', 10);
+  return minutes > 0 ? minutes : DEFAULT_TIMEOUT_MINUTES;
+}
+
+/**
+ * Map a Cloudflare deployment to our deployment status
+ *
+ * @returns The new status, or null while the deployment is still running,
+ * and an error naming the failing stage for failed deployments
+ */
+export function getDeploymentOutcome(cfDeployment: PagesDeployment): {
+  status: DeploymentRunStatus | null;
+  error: string | null;
+} {
+  const { latest_stage: latestStage, stages = [] } = cfDeployment;
+
+  if (latestStage.status === 'success') {
+    return { status: 'DEPLOYED', error: null };
+  }
+
+  if (latestStage.status === 'failure' || latestStage.status === 'canceled') {
+    // The stage that failed, which can be earlier than the latest one
+    const stage = stages.find((item) => item.status === 'failure' || item.status === 'canceled') ?? latestStage;
+    const outcome = stage.status === 'canceled' ? 'canceled' : 'failed';
+    return { status: 'FAILED', error: `Deployment ${outcome} at the ${stage.name} stage` };
+  }
+
+  return { status: null, error: null };
+}
+
+/**
+ * Map a Cloudflare deployment to the fields kept on its DeploymentRun
+ */
+export function getDeploymentRunData(cfDeployment: PagesDeployment): DeploymentRunSyncData {
+  const { status, error } = getDeploymentOutcome(cfDeployment);
+  const metadata = cfDeployment.deployment_trigger?.metadata ?? {};
+  const endedOn = cfDeployment.latest_stage.ended_on;
+
+  return {
+    cfDeploymentId: cfDeployment.id,
+    trigger: cfDeployment.deployment_trigger?.type ?? 'ad_hoc',
+    environment: cfDeployment.environment ?? 'production',
+    branch: metadata.branch || null,
+    commitHash: metadata.commit_hash || null,
+    commitMessage: metadata.commit_message || null,
+    url: cfDeployment.url || null,
+    status: status ?? 'DEPLOYING',
+    error,
+    stages: (cfDeployment.stages ?? []).map((stage) => ({
+      name: stage.name,
+      status: stage.status,
+      startedOn: stage.started_on,
+      endedOn: stage.ended_on,
+    })),
+    startedAt: new Date(cfDeployment.created_on),
+    finishedAt: status && endedOn ? new Date(endedOn) : null,
+  };
+}
+
+/**
+ * Check one DEPLOYING record and record its outcome
+ */
+async function pollDeployment(
+  deployment: CustomerDeployment,
+  now: Date,
+  deadline: Date,
+  timeoutMinutes: number,
+  summary: DeploymentPollSummary
+): Promise<void> {
+  const startedAt = deployment.lastDeploymentAt ?? deployment.updatedAt;
+  const isStale = new Date(startedAt) < deadline;
+  const timeoutError = `Deployment timed out after ${timeoutMinutes} minutes`;
+
+  const timeOut = async (error: string) => {
+    await updateDeployment(deployment.customerId, {
+      deploymentStatus: 'FAILED',
+      lastDeploymentError: error,
+    });
+    if (deployment.lastDeploymentId) {
+      await failDeploymentRun(deployment.lastDeploymentId, error, now);
+    }
+    summary.timedOut++;
+  };
+
+  // The deploy request never got as far as Cloudflare
+  if (!deployment.cfProjectName || !deployment.lastDeploymentId) {
+    if (isStale) {
+      await timeOut(`${timeoutError} before Cloudflare started it`);
+    } else {
+      summary.pending++;
+    }
+    return;
+  }
+
+  let cfDeployment: PagesDeployment;
+  try {
+    cfDeployment = await getDeploymentStatus(deployment.cfProjectName, deployment.lastDeploymentId);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Deployment poll: Error fetching deployment for customer ${deployment.customerId}:`, error);
+    summary.errors.push(`Customer ${deployment.customerId}: ${message}`);
+    if (isStale) {
+      await timeOut(`${timeoutError}; Cloudflare status unavailable: ${message}`);
+    }
+    return;
+  }
+
+  const outcome = getDeploymentOutcome(cfDeployment);
+  await recordDeploymentRun(deployment.customerId, getDeploymentRunData(cfDeployment));
+
+  if (outcome.status === 'DEPLOYED') {
+    await updateDeployment(deployment.customerId, {
+      deploymentStatus: 'DEPLOYED',
+      cfProductionUrl: cfDeployment.url || deployment.cfProductionUrl,
+      lastDeploymentError: null,
+    });
+    summary.deployed++;
+    return;
+  }
+
+  if (outcome.status === 'FAILED') {
+    await updateDeployment(deployment.customerId, {
+      deploymentStatus: 'FAILED',
+      lastDeploymentError: outcome.error,
+    });
+    summary.failed++;
+    return;
+  }
+
+  if (!isStale) {
+    summary.pending++;
+    return;
+  }
+
+  // Stop the stuck deployment so it can't go live after being marked failed
+  try {
+    await cancelDeployment(deployment.cfProjectName, deployment.lastDeploymentId);
+  } catch (error) {
+    console.error(`Deployment poll: Error canceling deployment for customer ${deployment.customerId}:`, error);
+  }
+  await timeOut(`${timeoutError} in the ${cfDeployment.latest_stage.name} stage`);
+}
+
+/**
+ * Bring every DEPLOYING record up to date with Cloudflare
+ *
+ * @param now - Time to evaluate the timeout at
+ * @param timeoutMinutes - Minutes before a deployment is timed out
+ * @returns Counts of deployments checked and their outcomes, plus any errors
+ */
+export async function runDeploymentPoller(
+  now: Date = new Date(),
+  timeoutMinutes: number = getDeploymentTimeoutMinutes()
+): Promise<DeploymentPollSummary> {
+  const summary: DeploymentPollSummary = {
+    checked: 0,
+    deployed: 0,
+    failed: 0,
+    timedOut: 0,
+    pending: 0,
+    errors: [],
+  };
+
+  const deadline = new Date(now.getTime() - timeoutMinutes * MINUTE_MS);
+  const deployments = await getDeploymentsByStatus('DEPLOYING');
+
+  for (const deployment of deployments) {
+    summary.checked++;
+
+    try {
+      await pollDeployment(deployment, now, deadline, timeoutMinutes, summary);
+    } catch (error) {
+      console.error(`Deployment poll: Error updating deployment for customer ${deployment.customerId}:`, error);
+      summary.errors.push(`Customer ${deployment.customerId}: update failed`);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,313 @@
+/**
+ * Dunning Job
+ *
+ * Follows up on failed subscription payments. The invoice.payment_failed
+ * webhook records when the customer first fell behind (paymentFailedAt);
+ * each run of this job then:
+ * - Emails an escalating reminder with a billing portal link once the
+ *   customer is 1, 3 and 7 days past the failure, logging each reminder
+ *   as an EMAIL note on the customer. A reminder that can't be sent is
+ *   retried on every run but noted only once.
+ * - Optionally takes the customer's site offline once the grace period
+ *   has passed, either by detaching the custom domain ("pause") or by
+ *   pointing it at a shared "site suspended" Pages project
+ * - Brings suspended sites back once an invoice has been paid
+ *
+ * Runs from POST /api/cron/dunning (see scripts/run-dunning.mjs). Pass `now`
+ * to runDunning to evaluate the schedule at a fixed time.
+ *
+ * Environment variables:
+ * - DUNNING_GRACE_PERIOD_DAYS: Days after the failure before suspending (default: 14)
+ * - DUNNING_SUSPEND_ACTION: none | pause | suspended_page (default: none)
+ * - DUNNING_SUSPENDED_PAGE_PROJECT: Pages project serving the suspended page
+ */
+
+import { prisma } from '@/lib/db';
+import { sendEmail, getDunningReminderEmailTemplate } from '@/lib/email';
+import { createNote } from '@/lib/admin/noteQueries';
+import { updateDeployment } from '@/lib/admin/deploymentQueries';
+import {
+  createBillingPortalLink,
+  getBillingPortalUrl,
+  SYSTEM_ISSUER_NAME,
+} from '@/lib/admin/billingPortalLinkQueries';
+import {
+  addCustomDomain,
+  removeCustomDomain,
+  getDnsRecords,
+  updateDnsRecord,
+} from '@/lib/cloudflare';
+import type { SuspensionMode } from '@/types/admin';
+
+// Days after the first failed payment on which a reminder is sent
+export const DUNNING_REMINDER_DAYS = [1, 3, 7];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Subscription statuses that mean the customer still owes money
+const UNPAID_SUBSCRIPTION_STATUSES = ['past_due', 'unpaid'];
+
+export type DunningSuspendAction = 'none' | 'pause' | 'suspended_page';
+
+export interface DunningConfig {
+  graceDays: number;
+  suspendAction: DunningSuspendAction;
+  suspendedPageProject: string | null;
+}
+
+export interface DunningRunSummary {
+  checked: number;
+  remindersSent: number;
+  suspended: number;
+  restored: number;
+  errors: string[];
+}
+
+interface DeploymentRow {
+  customerId: number;
+  cfProjectName: string | null;
+  customDomain: string | null;
+  suspendedAt: Date | null;
+  suspensionMode: string | null;
+}
+
+/**
+ * Read the dunning settings from the environment
+ */
+export function getDunningConfig(): DunningConfig {
+  const graceDays = parseInt(process.env.DUNNING_GRACE_PERIOD_DAYS || '14', 10);
+  const action = process.env.DUNNING_SUSPEND_ACTION || 'none';
+
+  return {
+    graceDays: Number.isNaN(graceDays) ? 14 : graceDays,
+    suspendAction: action === 'pause' || action === 'suspended_page' ? action : 'none',
+    suspendedPageProject: process.env.DUNNING_SUSPENDED_PAGE_PROJECT || null,
+  };
+}
+
+/**
+ * Run one pass of the dunning schedule
+ */
+export async function runDunning(
+  now: Date = new Date(),
+  config: DunningConfig = getDunningConfig()
+): Promise<DunningRunSummary> {
+  const summary: DunningRunSummary = {
+    checked: 0,
+    remindersSent: 0,
+    suspended: 0,
+    restored: 0,
+    errors: [],
+  };
+
+  const submissions = await prisma.intakeSubmission.findMany({
+    where: {
+      paymentFailedAt: { not: null },
+      subscriptionStatus: { in: UNPAID_SUBSCRIPTION_STATUSES },
+    },
+    include: { deployment: true },
+  });
+
+  for (const submission of submissions) {
+    summary.checked++;
+    const daysOverdue = Math.floor(
+      (now.getTime() - submission.paymentFailedAt.getTime()) / DAY_MS
+    );
+
+    try {
+      if (await sendDueReminder(submission, daysOverdue, now, config)) {
+        summary.remindersSent++;
+      }
+    } catch (error) {
+      console.error(`Dunning: Error sending reminder for customer ${submission.id}:`, error);
+      summary.errors.push(`Customer ${submission.id}: reminder failed`);
+    }
+
+    const deployment: DeploymentRow | null = submission.deployment;
+    if (
+      config.suspendAction === 'none' ||
+      daysOverdue < config.graceDays ||
+      !deployment ||
+      deployment.suspendedAt
+    ) {
+      continue;
+    }
+
+    try {
+      if (await suspendSite(deployment, now, config)) {
+        summary.suspended++;
+      }
+    } catch (error) {
+      console.error(`Dunning: Error suspending site for customer ${submission.id}:`, error);
+      summary.errors.push(`Customer ${submission.id}: suspension failed`);
+    }
+  }
+
+  // Bring back sites whose customers have since paid
+  const suspendedDeployments: DeploymentRow[] = await prisma.customerDeployment.findMany({
+    where: {
+      suspendedAt: { not: null },
+      customer: { paymentFailedAt: null },
+    },
+  });
+
+  for (const deployment of suspendedDeployments) {
+    try {
+      await restoreSite(deployment, config);
+      summary.restored++;
+    } catch (error) {
+      console.error(`Dunning: Error restoring site for customer ${deployment.customerId}:`, error);
+      summary.errors.push(`Customer ${deployment.customerId}: restore failed`);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Send the latest reminder the customer is due, if it hasn't gone out yet.
+ * A customer that was missed for a while gets only the most recent reminder.
+ */
+async function sendDueReminder(
+  submission: {
+    id: number;
+    fullName: string;
+    email: string;
+    paymentFailedAt: Date;
+    dunningRemindersSent: number;
+    dunningReminderFailed: number;
+  },
+  daysOverdue: number,
+  now: Date,
+  config: DunningConfig
+): Promise<boolean> {
+  const reminder = DUNNING_REMINDER_DAYS.filter((day) => daysOverdue >= day).length;
+  if (reminder <= submission.dunningRemindersSent) {
+    return false;
+  }
+
+  const link = await createBillingPortalLink(submission.id, null, now);
+  const suspendOn =
+    config.suspendAction === 'none'
+      ? null
+      : new Date(submission.paymentFailedAt.getTime() + config.graceDays * DAY_MS);
+
+  const { subject, html } = getDunningReminderEmailTemplate(
+    submission.fullName,
+    getBillingPortalUrl(link.token),
+    reminder,
+    suspendOn
+  );
+  const sent = await sendEmail(submission.email, subject, html);
+
+  const label = `Payment reminder ${reminder} of ${DUNNING_REMINDER_DAYS.length}`;
+
+  if (!sent) {
+    // Retried on every run; only the first failure is noted
+    if (submission.dunningReminderFailed !== reminder) {
+      await createNote(submission.id, {
+        content: `${label} could not be emailed to ${submission.email}; it will be retried on the next run.`,
+        noteType: 'EMAIL',
+        authorName: SYSTEM_ISSUER_NAME,
+      });
+      await prisma.intakeSubmission.update({
+        where: { id: submission.id },
+        data: { dunningReminderFailed: reminder },
+      });
+    }
+    return false;
+  }
+
+  await createNote(submission.id, {
+    content: `${label} emailed to ${submission.email} (${daysOverdue} days after the failed payment).`,
+    noteType: 'EMAIL',
+    authorName: SYSTEM_ISSUER_NAME,
+  });
+
+  await prisma.intakeSubmission.update({
+    where: { id: submission.id },
+    data: { dunningRemindersSent: reminder },
+  });
+
+  return true;
+}
+
+/**
+ * Take a customer's site offline. Only sites on a custom domain can be
+ * suspended; the pages.dev URL stays up.
+ */
+async function suspendSite(
+  deployment: DeploymentRow,
+  now: Date,
+  config: DunningConfig
+): Promise<boolean> {
+  const { cfProjectName, customDomain } = deployment;
+  if (!cfProjectName || !customDomain) {
+    return false;
+  }
+
+  const mode: SuspensionMode = config.suspendAction === 'pause' ? 'PAUSED' : 'SUSPENDED_PAGE';
+  if (mode === 'SUSPENDED_PAGE' && !config.suspendedPageProject) {
+    throw new Error('DUNNING_SUSPENDED_PAGE_PROJECT is not set');
+  }
+
+  await removeCustomDomain(cfProjectName, customDomain);
+  if (mode === 'SUSPENDED_PAGE') {
+    await pointDomainAt(customDomain, config.suspendedPageProject as string);
+  }
+
+  await updateDeployment(deployment.customerId, {
+    suspendedAt: now,
+    suspensionMode: mode,
+  });
+
+  await createNote(deployment.customerId, {
+    content:
+      mode === 'PAUSED'
+        ? `Site paused for non-payment: ${customDomain} was detached from the site.`
+        : `Site suspended for non-payment: ${customDomain} now shows the suspended page.`,
+    noteType: 'GENERAL',
+    authorName: SYSTEM_ISSUER_NAME,
+  });
+
+  return true;
+}
+
+/**
+ * Undo a suspension once the customer has paid
+ */
+async function restoreSite(deployment: DeploymentRow, config: DunningConfig): Promise<void> {
+  const { cfProjectName, customDomain } = deployment;
+
+  if (cfProjectName && customDomain) {
+    if (deployment.suspensionMode === 'SUSPENDED_PAGE' && config.suspendedPageProject) {
+      await removeCustomDomain(config.suspendedPageProject, customDomain);
+    }
+    await pointDomainAt(customDomain, cfProjectName);
+  }
+
+  await updateDeployment(deployment.customerId, {
+    suspendedAt: null,
+    suspensionMode: null,
+  });
+
+  await createNote(deployment.customerId, {
+    content: `Site restored after payment${customDomain ? `: ${customDomain} is live again` : ''}.`,
+    noteType: 'GENERAL',
+    authorName: SYSTEM_ISSUER_NAME,
+  });
+}
+
+/**
+ * Attach a custom domain to a Pages project and repoint its CNAME there
+ */
+async function pointDomainAt(customDomain: string, projectName: string): Promise<void> {
+  await addCustomDomain(projectName, customDomain);
+
+  const records = await getDnsRecords(customDomain, customDomain, 'CNAME');
+  if (records.length > 0) {
+    await updateDnsRecord(customDomain, records[0].id, {
+      content: `${projectName}.pages.dev`,
+    });
+  }
+}
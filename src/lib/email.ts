@@ -1,4 +1,11 @@
 import { Resend } from 'resend';
+import {
+  BUDGET_RANGE_OPTIONS,
+  FEATURE_OPTIONS,
+  INDUSTRY_TYPE_OPTIONS,
+  TIMELINE_OPTIONS,
+  getOptionLabel,
+} from '@/lib/intakeOptions';
 
 // Form data interface - matches what the API route passes after database save
 export interface IntakeFormData {
@@ -35,18 +42,7 @@ const formatFeatures = (features: string[], otherFeatures?: string): string => {
     return 'None selected';
   }
 
-  const featureLabels: Record<string, string> = {
-    'ecommerce': 'Online store / E-commerce',
-    'booking': 'Appointment booking',
-    'contact': 'Contact form',
-    'gallery': 'Photo gallery',
-    'blog': 'Blog',
-    'menu': 'Menu / Services list',
-    'reviews': 'Customer reviews',
-    'other': 'Other',
-  };
-
-  const formatted = features.map(f => featureLabels[f] || f).join(', ');
+  const formatted = features.map(f => getOptionLabel(FEATURE_OPTIONS, f)).join(', ');
 
   if (otherFeatures && features.includes('other')) {
     return `${formatted}\n  Other details: ${otherFeatures}`;
@@ -57,38 +53,17 @@ const formatFeatures = (features: string[], otherFeatures?: string): string => {
 
 // Format budget range for email
 const formatBudgetRange = (budget: string): string => {
-  const budgetLabels: Record<string, string> = {
-    'under-500': 'Under $500',
-    '500-1000': '$500 - $1,000',
-    '1000-2500': '$1,000 - $2,500',
-    '2500-plus': '$2,500+',
-    'not-sure': 'Not sure yet',
-  };
-  return budgetLabels[budget] || budget;
+  return getOptionLabel(BUDGET_RANGE_OPTIONS, budget);
 };
 
 // Format timeline for email
 const formatTimeline = (timeline: string): string => {
-  const timelineLabels: Record<string, string> = {
-    'asap': 'ASAP (within 2 weeks)',
-    '1-2-months': '1-2 months',
-    '3-plus-months': '3+ months',
-    'exploring': 'Just exploring',
-  };
-  return timelineLabels[timeline] || timeline;
+  return getOptionLabel(TIMELINE_OPTIONS, timeline);
 };
 
 // Format industry type for email
 const formatIndustryType = (industry: string): string => {
-  const industryLabels: Record<string, string> = {
-    'retail': 'Retail',
-    'restaurant': 'Restaurant / Food Service',
-    'professional': 'Professional Services',
-    'health': 'Health & Wellness',
-    'home-services': 'Home Services',
-    'other': 'Other',
-  };
-  return industryLabels[industry] || industry;
+  return getOptionLabel(INDUSTRY_TYPE_OPTIONS, industry);
 };
 
 /**
@@ -141,11 +116,37 @@ export async function sendEmail(
 // Payment Email Templates
 // ============================================================================
 
+// Price snapshot and expiry of a payment link, shown in the link emails
+export interface PaymentLinkEmailDetails {
+  amountCents: number;
+  currency: string;
+  expiresAt: Date;
+}
+
+// Format a link amount for email, e.g. "$200.00"
+const formatLinkAmount = (amountCents: number, currency: string): string =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(amountCents / 100);
+
+// Format a link expiry for email, e.g. "March 3, 2026"
+const formatLinkExpiry = (expiresAt: Date): string =>
+  expiresAt.toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
 /**
  * Payment Link Email Template
  * Sent when admin generates a setup fee payment link
  */
-export function getPaymentLinkEmailTemplate(customerName: string, paymentUrl: string): {
+export function getPaymentLinkEmailTemplate(
+  customerName: string,
+  paymentUrl: string,
+  details: PaymentLinkEmailDetails
+): {
   subject: string;
   html: string;
 } {
@@ -177,7 +178,7 @@ export function getPaymentLinkEmailTemplate(customerName: string, paymentUrl: st
               </p>
               <div style="background-color: #f8f9fa; border-radius: 6px; padding: 20px; margin: 25px 0;">
                 <p style="margin: 0 0 10px 0; color: #6a6a6a; font-size: 14px; text-transform: uppercase; letter-spacing: 0.5px;">Setup Fee Amount</p>
-                <p style="margin: 0; color: #1a1a1a; font-size: 32px; font-weight: 700;">$200.00</p>
+                <p style="margin: 0; color: #1a1a1a; font-size: 32px; font-weight: 700;">${formatLinkAmount(details.amountCents, details.currency)}</p>
               </div>
               <p style="margin: 0 0 25px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">
                 Click the button below to complete your payment securely:
@@ -193,6 +194,9 @@ export function getPaymentLinkEmailTemplate(customerName: string, paymentUrl: st
                 If the button doesn't work, copy and paste this link into your browser:<br>
                 <a href="${paymentUrl}" style="color: #1a1a1a; word-break: break-all;">${paymentUrl}</a>
               </p>
+              <p style="margin: 15px 0 0 0; color: #6a6a6a; font-size: 14px; line-height: 1.6;">
+                This link can be used once and expires on ${formatLinkExpiry(details.expiresAt)}.
+              </p>
             </td>
           </tr>
           <!-- Footer -->
@@ -221,7 +225,11 @@ export function getPaymentLinkEmailTemplate(customerName: string, paymentUrl: st
  * Subscription Link Email Template
  * Sent when admin generates a subscription link
  */
-export function getSubscriptionLinkEmailTemplate(customerName: string, subscriptionUrl: string): {
+export function getSubscriptionLinkEmailTemplate(
+  customerName: string,
+  subscriptionUrl: string,
+  details: PaymentLinkEmailDetails
+): {
   subject: string;
   html: string;
 } {
@@ -253,7 +261,7 @@ export function getSubscriptionLinkEmailTemplate(customerName: string, subscript
               </p>
               <div style="background-color: #f8f9fa; border-radius: 6px; padding: 20px; margin: 25px 0;">
                 <p style="margin: 0 0 10px 0; color: #6a6a6a; font-size: 14px; text-transform: uppercase; letter-spacing: 0.5px;">Monthly Subscription</p>
-                <p style="margin: 0 0 15px 0; color: #1a1a1a; font-size: 32px; font-weight: 700;">$29<span style="font-size: 16px; font-weight: 400; color: #6a6a6a;">/month</span></p>
+                <p style="margin: 0 0 15px 0; color: #1a1a1a; font-size: 32px; font-weight: 700;">${formatLinkAmount(details.amountCents, details.currency)}<span style="font-size: 16px; font-weight: 400; color: #6a6a6a;">/month</span></p>
                 <ul style="margin: 0; padding: 0 0 0 20px; color: #4a4a4a; font-size: 14px; line-height: 1.8;">
                   <li>Premium website hosting</li>
                   <li>Regular updates and maintenance</li>
@@ -276,6 +284,90 @@ export function getSubscriptionLinkEmailTemplate(customerName: string, subscript
                 If the button doesn't work, copy and paste this link into your browser:<br>
                 <a href="${subscriptionUrl}" style="color: #1a1a1a; word-break: break-all;">${subscriptionUrl}</a>
               </p>
+              <p style="margin: 15px 0 0 0; color: #6a6a6a; font-size: 14px; line-height: 1.6;">
+                This link can be used once and expires on ${formatLinkExpiry(details.expiresAt)}.
+              </p>
+            </td>
+          </tr>
+          <!-- Footer -->
+          <tr>
+            <td style="background-color: #f8f9fa; padding: 25px 40px; text-align: center; border-top: 1px solid #e9ecef;">
+              <p style="margin: 0; color: #6a6a6a; font-size: 14px;">
+                Questions? Reply to this email and we'll help you out.
+              </p>
+              <p style="margin: 10px 0 0 0; color: #9a9a9a; font-size: 12px;">
+                SiteStart - Professional websites for small businesses
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `.trim();
+
+  return { subject, html };
+}
+
+/**
+ * Billing Portal Link Email Template
+ * Sent when admin emails a customer their billing portal link
+ */
+export function getBillingPortalEmailTemplate(
+  customerName: string,
+  portalUrl: string,
+  expiresAt: Date
+): {
+  subject: string;
+  html: string;
+} {
+  const subject = 'Manage Your SiteStart Billing';
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f5f5f5;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f5f5; padding: 40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background-color: #1a1a1a; padding: 30px 40px; text-align: center;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 24px; font-weight: 600;">SiteStart</h1>
+            </td>
+          </tr>
+          <!-- Body -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px 0; color: #1a1a1a; font-size: 20px; font-weight: 600;">Hello ${customerName},</h2>
+              <p style="margin: 0 0 20px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">
+                You can manage your SiteStart billing online at any time. From your billing portal you can:
+              </p>
+              <ul style="margin: 0 0 25px 0; padding: 0 0 0 20px; color: #4a4a4a; font-size: 16px; line-height: 1.8;">
+                <li>Update your card or payment method</li>
+                <li>Download past invoices and receipts</li>
+                <li>Change or cancel your subscription</li>
+              </ul>
+              <table width="100%" cellpadding="0" cellspacing="0">
+                <tr>
+                  <td align="center">
+                    <a href="${portalUrl}" style="display: inline-block; background-color: #1a1a1a; color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 6px; font-size: 16px; font-weight: 600;">Manage Billing</a>
+                  </td>
+                </tr>
+              </table>
+              <p style="margin: 25px 0 0 0; color: #6a6a6a; font-size: 14px; line-height: 1.6;">
+                If the button doesn't work, copy and paste this link into your browser:<br>
+                <a href="${portalUrl}" style="color: #1a1a1a; word-break: break-all;">${portalUrl}</a>
+              </p>
+              <p style="margin: 15px 0 0 0; color: #6a6a6a; font-size: 14px; line-height: 1.6;">
+                This link is personal to your account and expires on ${formatLinkExpiry(expiresAt)}. Please don't forward it.
+              </p>
             </td>
           </tr>
           <!-- Footer -->
@@ -300,6 +392,267 @@ export function getSubscriptionLinkEmailTemplate(customerName: string, subscript
   return { subject, html };
 }
 
+/**
+ * Upload Portal Email Template
+ * Sent when admin emails a customer a link to upload their files
+ */
+export function getUploadPortalEmailTemplate(
+  customerName: string,
+  uploadUrl: string,
+  expiresAt: Date
+): {
+  subject: string;
+  html: string;
+} {
+  const subject = 'Send Us Your Logos and Photos';
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f5f5f5;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f5f5; padding: 40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background-color: #1a1a1a; padding: 30px 40px; text-align: center;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 24px; font-weight: 600;">SiteStart</h1>
+            </td>
+          </tr>
+          <!-- Body -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px 0; color: #1a1a1a; font-size: 20px; font-weight: 600;">Hello ${customerName},</h2>
+              <p style="margin: 0 0 20px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">
+                To build your website we need your brand assets. You can upload them straight to us, no email attachments needed:
+              </p>
+              <ul style="margin: 0 0 25px 0; padding: 0 0 0 20px; color: #4a4a4a; font-size: 16px; line-height: 1.8;">
+                <li>Your logo (PNG, SVG or JPG)</li>
+                <li>Photos of your team, products or premises</li>
+                <li>Text for your pages, such as an About Us or services list</li>
+              </ul>
+              <table width="100%" cellpadding="0" cellspacing="0">
+                <tr>
+                  <td align="center">
+                    <a href="${uploadUrl}" style="display: inline-block; background-color: #1a1a1a; color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 6px; font-size: 16px; font-weight: 600;">Upload Files</a>
+                  </td>
+                </tr>
+              </table>
+              <p style="margin: 25px 0 0 0; color: #6a6a6a; font-size: 14px; line-height: 1.6;">
+                If the button doesn't work, copy and paste this link into your browser:<br>
+                <a href="${uploadUrl}" style="color: #1a1a1a; word-break: break-all;">${uploadUrl}</a>
+              </p>
+              <p style="margin: 15px 0 0 0; color: #6a6a6a; font-size: 14px; line-height: 1.6;">
+                You can use this link as many times as you like until ${formatLinkExpiry(expiresAt)}. It is personal to your account, so please don't forward it.
+              </p>
+            </td>
+          </tr>
+          <!-- Footer -->
+          <tr>
+            <td style="background-color: #f8f9fa; padding: 25px 40px; text-align: center; border-top: 1px solid #e9ecef;">
+              <p style="margin: 0; color: #6a6a6a; font-size: 14px;">
+                Questions? Reply to this email and we'll help you out.
+              </p>
+              <p style="margin: 10px 0 0 0; color: #9a9a9a; font-size: 12px;">
+                SiteStart - Professional websites for small businesses
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `.trim();
+
+  return { subject, html };
+}
+
+/**
+ * Preview Review Email Template
+ * Sent when admin shares a preview deployment with the customer for feedback
+ */
+export function getPreviewReviewEmailTemplate(
+  customerName: string,
+  businessName: string,
+  previewUrl: string,
+  reviewUrl: string,
+  expiresAt: Date
+): {
+  subject: string;
+  html: string;
+} {
+  const subject = `Your ${businessName} Website Is Ready to Review`;
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f5f5f5;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f5f5; padding: 40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background-color: #1a1a1a; padding: 30px 40px; text-align: center;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 24px; font-weight: 600;">SiteStart</h1>
+            </td>
+          </tr>
+          <!-- Body -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px 0; color: #1a1a1a; font-size: 20px; font-weight: 600;">Hello ${customerName},</h2>
+              <p style="margin: 0 0 20px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">
+                A preview of your new website is ready. Take a look and let us know what you think: what you like, and anything you'd like us to change before it goes live.
+              </p>
+              <table width="100%" cellpadding="0" cellspacing="0">
+                <tr>
+                  <td align="center">
+                    <a href="${reviewUrl}" style="display: inline-block; background-color: #1a1a1a; color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 6px; font-size: 16px; font-weight: 600;">Review Your Website</a>
+                  </td>
+                </tr>
+              </table>
+              <p style="margin: 25px 0 0 0; color: #6a6a6a; font-size: 14px; line-height: 1.6;">
+                You can also open the preview directly:<br>
+                <a href="${previewUrl}" style="color: #1a1a1a; word-break: break-all;">${previewUrl}</a>
+              </p>
+              <p style="margin: 15px 0 0 0; color: #6a6a6a; font-size: 14px; line-height: 1.6;">
+                You can send feedback from the review page as many times as you like until ${formatLinkExpiry(expiresAt)}. It is personal to your account, so please don't forward it.
+              </p>
+            </td>
+          </tr>
+          <!-- Footer -->
+          <tr>
+            <td style="background-color: #f8f9fa; padding: 25px 40px; text-align: center; border-top: 1px solid #e9ecef;">
+              <p style="margin: 0; color: #6a6a6a; font-size: 14px;">
+                Questions? Reply to this email and we'll help you out.
+              </p>
+              <p style="margin: 10px 0 0 0; color: #9a9a9a; font-size: 12px;">
+                SiteStart - Professional websites for small businesses
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `.trim();
+
+  return { subject, html };
+}
+
+// Escalating copy for each dunning reminder (first, second, final)
+const DUNNING_REMINDER_COPY = [
+  {
+    subject: 'Action needed: your SiteStart payment failed',
+    intro: "We weren't able to process your latest SiteStart subscription payment. This usually happens when a card expires or is replaced.",
+  },
+  {
+    subject: 'Reminder: please update your SiteStart payment details',
+    intro: 'Your SiteStart subscription payment is still outstanding. Please update your payment details so your website stays online.',
+  },
+  {
+    subject: 'Final notice: your SiteStart payment is overdue',
+    intro: 'This is our final reminder that your SiteStart subscription payment is overdue. Please update your payment details as soon as possible.',
+  },
+];
+
+/**
+ * Dunning Reminder Email Template
+ * Sent by the dunning job after a subscription payment fails
+ *
+ * @param reminder - Which reminder this is, starting at 1
+ * @param suspendOn - When the site will be taken offline, if suspension is enabled
+ */
+export function getDunningReminderEmailTemplate(
+  customerName: string,
+  portalUrl: string,
+  reminder: number,
+  suspendOn: Date | null
+): {
+  subject: string;
+  html: string;
+} {
+  const copy = DUNNING_REMINDER_COPY[Math.min(reminder, DUNNING_REMINDER_COPY.length) - 1];
+  const subject = copy.subject;
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f5f5f5;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f5f5; padding: 40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background-color: #1a1a1a; padding: 30px 40px; text-align: center;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 24px; font-weight: 600;">SiteStart</h1>
+            </td>
+          </tr>
+          <!-- Body -->
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px 0; color: #1a1a1a; font-size: 20px; font-weight: 600;">Hello ${customerName},</h2>
+              <p style="margin: 0 0 20px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">
+                ${copy.intro}
+              </p>${suspendOn ? `
+              <div style="background-color: #fff8e6; border-radius: 6px; padding: 20px; margin: 25px 0;">
+                <p style="margin: 0; color: #8a5a00; font-size: 16px; line-height: 1.6;">
+                  If payment isn't received by ${formatLinkExpiry(suspendOn)}, your website will be taken offline until the balance is paid.
+                </p>
+              </div>` : ''}
+              <p style="margin: 0 0 25px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">
+                You can update your card and pay the outstanding invoice in your billing portal:
+              </p>
+              <table width="100%" cellpadding="0" cellspacing="0">
+                <tr>
+                  <td align="center">
+                    <a href="${portalUrl}" style="display: inline-block; background-color: #1a1a1a; color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 6px; font-size: 16px; font-weight: 600;">Update Payment Details</a>
+                  </td>
+                </tr>
+              </table>
+              <p style="margin: 25px 0 0 0; color: #6a6a6a; font-size: 14px; line-height: 1.6;">
+                If the button doesn't work, copy and paste this link into your browser:<br>
+                <a href="${portalUrl}" style="color: #1a1a1a; word-break: break-all;">${portalUrl}</a>
+              </p>
+            </td>
+          </tr>
+          <!-- Footer -->
+          <tr>
+            <td style="background-color: #f8f9fa; padding: 25px 40px; text-align: center; border-top: 1px solid #e9ecef;">
+              <p style="margin: 0; color: #6a6a6a; font-size: 14px;">
+                Already paid, or need help? Reply to this email and we'll sort it out.
+              </p>
+              <p style="margin: 10px 0 0 0; color: #9a9a9a; font-size: 12px;">
+                SiteStart - Professional websites for small businesses
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `.trim();
+
+  return { subject, html };
+}
+
 /**
  * Payment Confirmation Email Template
  * Sent after successful setup fee payment
@@ -0,0 +1,114 @@
+/**
+ * Customer File Export
+ *
+ * Packs a customer's current files into a ZIP archive for handing off to a
+ * designer. Files keep the storage folder layout (logos/, photos/, ...)
+ * under their original names, and a manifest.csv at the root lists each
+ * file's category, description, size, version and upload date.
+ *
+ * Files are read from storage one at a time as the archive is streamed.
+ * A file whose object is missing from storage is left out of the archive
+ * and marked as missing in the manifest rather than failing the download.
+ */
+
+import { readFile, StorageError, CATEGORY_FOLDERS } from '@/lib/storage';
+import { createZipStream, type ZipEntry } from '@/lib/storage/zipWriter';
+import { escapeCsvValue, toSpreadsheetText } from '@/lib/csv';
+import type { CustomerFile } from '@/types/admin';
+
+export const EXPORT_MANIFEST_NAME = 'manifest.csv';
+
+const MANIFEST_COLUMNS = [
+  'Path',
+  'File Name',
+  'Category',
+  'Description',
+  'Size (bytes)',
+  'Version',
+  'Uploaded',
+  'Status',
+];
+
+/**
+ * Give every file a unique path inside its category folder
+ *
+ * Names that repeat within a folder get " (2)", " (3)" and so on before the
+ * extension. Path separators in names are replaced so every file stays
+ * inside its folder.
+ */
+export function getExportPaths(files: CustomerFile[]): Map<number, string> {
+  const paths = new Map<number, string>();
+  const taken = new Set<string>();
+
+  for (const file of files) {
+    const folder = CATEGORY_FOLDERS[file.category] ?? CATEGORY_FOLDERS.GENERAL;
+    const name = file.fileName.replace(/[/\\]/g, '_') || `file-${file.id}`;
+    const extensionIndex = name.lastIndexOf('.');
+    const base = extensionIndex > 0 ? name.slice(0, extensionIndex) : name;
+    const extension = extensionIndex > 0 ? name.slice(extensionIndex) : '';
+
+    let candidate = `${folder}/${name}`;
+    for (let copy = 2; taken.has(candidate.toLowerCase()); copy++) {
+      candidate = `${folder}/${base} (${copy})${extension}`;
+    }
+
+    taken.add(candidate.toLowerCase());
+    paths.set(file.id, candidate);
+  }
+
+  return paths;
+}
+
+/**
+ * Read each file from storage, then add the manifest
+ */
+async function* exportEntries(files: CustomerFile[]): AsyncGenerator<ZipEntry> {
+  const paths = getExportPaths(files);
+  const rows = [MANIFEST_COLUMNS.join(',')];
+
+  for (const file of files) {
+    const exportPath = paths.get(file.id)!;
+    let status = 'included';
+
+    try {
+      const data = await readFile(file.fileKey);
+      yield { name: exportPath, data, modifiedAt: new Date(file.createdAt) };
+    } catch (error) {
+      if (!(error instanceof StorageError && error.code === 'NOT_FOUND')) {
+        throw error;
+      }
+      status = 'missing';
+    }
+
+    rows.push(
+      [
+        status === 'included' ? exportPath : '',
+        file.fileName,
+        file.category,
+        file.description ?? '',
+        file.fileSize,
+        file.version,
+        new Date(file.createdAt).toISOString(),
+        status,
+      ]
+        .map((value) => escapeCsvValue(toSpreadsheetText(value)))
+        .join(',')
+    );
+  }
+
+  yield {
+    name: EXPORT_MANIFEST_NAME,
+    data: Buffer.from(rows.join('\r\n') + '\r\n', 'utf8'),
+    modifiedAt: new Date(),
+  };
+}
+
+/**
+ * Stream a ZIP archive of the given files and their manifest
+ *
+ * @param files - Current versions of the files to export
+ * @returns A stream of the archive bytes
+ */
+export function createFilesExportStream(files: CustomerFile[]): ReadableStream<Uint8Array> {
+  return createZipStream(exportEntries(files));
+}
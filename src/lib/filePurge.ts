@@ -0,0 +1,80 @@
+/**
+ * File Trash Purge Job
+ *
+ * Deleted customer files sit in the trash for FILE_TRASH_RETENTION_DAYS
+ * (default: 30) so they can be restored. Each run of this job permanently
+ * removes the files that have been in the trash longer than that: the
+ * stored original and image variants first, then the database rows.
+ *
+ * A file's versions are purged together. If any of their objects can't be
+ * deleted from storage, the rows are kept so the next run retries them
+ * rather than leaving unreferenced objects behind.
+ *
+ * Runs from POST /api/cron/file-purge (see scripts/run-file-purge.mjs).
+ * Pass `now` to runFilePurge to evaluate the retention at a fixed time.
+ */
+
+import { prisma } from '@/lib/db';
+import { deleteFile } from '@/lib/storage';
+import { getExpiredTrashedFiles, getTrashRetentionDays } from '@/lib/admin/fileQueries';
+import type { CustomerFile } from '@/types/admin';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface FilePurgeSummary {
+  checked: number;
+  purged: number;
+  errors: string[];
+}
+
+/**
+ * Permanently delete files whose trash retention has passed
+ *
+ * @param now - Time to evaluate the retention at
+ * @param retentionDays - Days files stay in the trash
+ * @returns Counts of file versions checked and purged, plus any errors
+ */
+export async function runFilePurge(
+  now: Date = new Date(),
+  retentionDays: number = getTrashRetentionDays()
+): Promise<FilePurgeSummary> {
+  const summary: FilePurgeSummary = {
+    checked: 0,
+    purged: 0,
+    errors: [],
+  };
+
+  const expired = await getExpiredTrashedFiles(new Date(now.getTime() - retentionDays * DAY_MS));
+
+  // Deleting the first version cascades to the later ones, so purge by file
+  const versionGroups = new Map<number, CustomerFile[]>();
+  for (const file of expired) {
+    const originalFileId = file.originalFileId ?? file.id;
+    versionGroups.set(originalFileId, [...(versionGroups.get(originalFileId) ?? []), file]);
+  }
+
+  for (const [originalFileId, versions] of versionGroups) {
+    summary.checked += versions.length;
+
+    try {
+      for (const version of versions) {
+        for (const variant of version.variants ?? []) {
+          await deleteFile(variant.fileKey);
+        }
+        await deleteFile(version.fileKey);
+      }
+    } catch (error) {
+      console.error(`File purge: Error deleting stored objects for file ${originalFileId}:`, error);
+      summary.errors.push(`File ${originalFileId}: storage deletion failed`);
+      continue;
+    }
+
+    // Variant rows cascade
+    const result = await prisma.customerFile.deleteMany({
+      where: { id: { in: versions.map((version) => version.id) } },
+    });
+    summary.purged += result.count;
+  }
+
+  return summary;
+}
@@ -0,0 +1,132 @@
+/**
+ * Image Processing Library
+ *
+ * Prepares uploaded logos and photos for use on customer sites with sharp:
+ * strips EXIF data (camera details, GPS location) from the original, and
+ * renders a thumbnail for the admin file views plus WebP/AVIF copies at
+ * standard widths.
+ */
+
+import sharp from 'sharp';
+import type { FileCategory, FileVariantKind } from '@/types/admin';
+
+// Longest edge of the admin thumbnail
+export const THUMBNAIL_SIZE = 320;
+
+// Widths of the web-optimized copies; images are never enlarged
+export const WEB_VARIANT_WIDTHS = [640, 1280, 1920];
+
+// Categories whose images are processed on upload
+const PROCESSED_CATEGORIES: FileCategory[] = ['LOGO', 'PHOTO'];
+
+// Raster formats sharp can read and write back. SVGs are vector and GIFs
+// may be animated, so both are stored untouched.
+const PROCESSABLE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/avif'];
+
+type VariantFormat = 'webp' | 'avif';
+
+/**
+ * A rendered variant, not yet stored
+ */
+export interface RenderedImageVariant {
+  kind: FileVariantKind;
+  format: VariantFormat;
+  // Appended to the original file name, e.g. "thumb" or "640w"
+  suffix: string;
+  width: number;
+  height: number;
+  mimeType: string;
+  buffer: Buffer;
+}
+
+/**
+ * Whether an upload should go through the image pipeline
+ */
+export function shouldProcessImage(category: FileCategory, mimeType: string): boolean {
+  return PROCESSED_CATEGORIES.includes(category) && PROCESSABLE_MIME_TYPES.includes(mimeType);
+}
+
+/**
+ * Re-encode an image without its metadata, keeping the format.
+ * The EXIF orientation is applied to the pixels first so photos stay upright.
+ */
+export async function stripImageMetadata(buffer: Buffer, mimeType: string): Promise<Buffer> {
+  const image = sharp(buffer).rotate().keepIccProfile();
+
+  switch (mimeType) {
+    case 'image/jpeg':
+      return image.jpeg({ quality: 90, mozjpeg: true }).toBuffer();
+    case 'image/png':
+      return image.png().toBuffer();
+    case 'image/webp':
+      return image.webp({ quality: 90 }).toBuffer();
+    case 'image/avif':
+      return image.avif({ quality: 70 }).toBuffer();
+    default:
+      throw new Error(`Cannot process images of type ${mimeType}`);
+  }
+}
+
+/**
+ * Pick the web widths for an image: every standard width below the
+ * original, plus the original width itself when it's under the largest
+ */
+function getWebWidths(originalWidth: number): number[] {
+  const widths = WEB_VARIANT_WIDTHS.filter((width) => width < originalWidth);
+  const largest = WEB_VARIANT_WIDTHS[WEB_VARIANT_WIDTHS.length - 1];
+  if (originalWidth <= largest) {
+    widths.push(originalWidth);
+  }
+  return widths;
+}
+
+async function renderVariant(
+  buffer: Buffer,
+  kind: FileVariantKind,
+  format: VariantFormat,
+  suffix: string,
+  resize: sharp.ResizeOptions
+): Promise<RenderedImageVariant> {
+  const pipeline = sharp(buffer).rotate().resize({ ...resize, withoutEnlargement: true });
+  const encoded = format === 'webp'
+    ? pipeline.webp({ quality: kind === 'THUMBNAIL' ? 75 : 80 })
+    : pipeline.avif({ quality: 55 });
+
+  const { data, info } = await encoded.toBuffer({ resolveWithObject: true });
+
+  return {
+    kind,
+    format,
+    suffix,
+    width: info.width,
+    height: info.height,
+    mimeType: `image/${format}`,
+    buffer: data,
+  };
+}
+
+/**
+ * Render the thumbnail and web-optimized variants of an image
+ */
+export async function renderImageVariants(buffer: Buffer): Promise<RenderedImageVariant[]> {
+  const metadata = await sharp(buffer).metadata();
+  // EXIF orientations 5-8 are rotated a quarter turn, swapping the sides
+  const isRotated = (metadata.orientation ?? 1) >= 5;
+  const originalWidth = (isRotated ? metadata.height : metadata.width) ?? THUMBNAIL_SIZE;
+
+  const variants = [
+    await renderVariant(buffer, 'THUMBNAIL', 'webp', 'thumb', {
+      width: THUMBNAIL_SIZE,
+      height: THUMBNAIL_SIZE,
+      fit: 'inside',
+    }),
+  ];
+
+  for (const width of getWebWidths(originalWidth)) {
+    for (const format of ['webp', 'avif'] as const) {
+      variants.push(await renderVariant(buffer, 'WEB', format, `${width}w`, { width }));
+    }
+  }
+
+  return variants;
+}
@@ -0,0 +1,59 @@
+/**
+ * Intake Form Options
+ *
+ * The choices offered on the public intake form and their labels. Shared
+ * by the form itself, the notification emails, pricing plan targeting and
+ * the admin list filters so they always offer the same values.
+ */
+
+export interface IntakeOption {
+  value: string;
+  label: string;
+}
+
+// Industries offered on the intake form
+export const INDUSTRY_TYPE_OPTIONS: IntakeOption[] = [
+  { value: 'retail', label: 'Retail' },
+  { value: 'restaurant', label: 'Restaurant / Food Service' },
+  { value: 'professional', label: 'Professional Services' },
+  { value: 'health', label: 'Health & Wellness' },
+  { value: 'home-services', label: 'Home Services' },
+  { value: 'other', label: 'Other' },
+];
+
+// Features offered on the intake form
+export const FEATURE_OPTIONS: IntakeOption[] = [
+  { value: 'ecommerce', label: 'Online store / E-commerce' },
+  { value: 'booking', label: 'Appointment booking' },
+  { value: 'contact', label: 'Contact form' },
+  { value: 'gallery', label: 'Photo gallery' },
+  { value: 'blog', label: 'Blog' },
+  { value: 'menu', label: 'Menu / Services list' },
+  { value: 'reviews', label: 'Customer reviews' },
+  { value: 'other', label: 'Other' },
+];
+
+// Budget ranges offered on the intake form
+export const BUDGET_RANGE_OPTIONS: IntakeOption[] = [
+  { value: 'under-500', label: 'Under $500' },
+  { value: '500-1000', label: '$500 - $1,000' },
+  { value: '1000-2500', label: '$1,000 - $2,500' },
+  { value: '2500-plus', label: '$2,500+' },
+  { value: 'not-sure', label: 'Not sure yet' },
+];
+
+// Timelines offered on the intake form
+export const TIMELINE_OPTIONS: IntakeOption[] = [
+  { value: 'asap', label: 'ASAP (within 2 weeks)' },
+  { value: '1-2-months', label: '1-2 months' },
+  { value: '3-plus-months', label: '3+ months' },
+  { value: 'exploring', label: 'Just exploring' },
+];
+
+/**
+ * Get the label for an option value, or the value itself if it isn't one
+ * of the options
+ */
+export function getOptionLabel(options: IntakeOption[], value: string): string {
+  return options.find((option) => option.value === value)?.label ?? value;
+}
@@ -0,0 +1,105 @@
+/**
+ * Payment Link Checkout
+ *
+ * Opens the Stripe Checkout session for a payment link. The link keeps the
+ * session it opened: later visits go back to that session while it is
+ * open, and once it has been paid no new session is opened, so a link can
+ * only be paid once even before the checkout webhook marks it used.
+ * Sessions never outlive their link and are expired when it is revoked.
+ */
+
+import type Stripe from 'stripe';
+import {
+  PAYMENT_LINK_UNAVAILABLE_ERRORS,
+  setPaymentLinkCheckoutSession,
+} from '@/lib/admin/paymentLinkQueries';
+import { expireCheckoutSession, getCheckoutSession } from '@/lib/stripe';
+import type { PaymentLink } from '@/types/admin';
+
+// Stripe only accepts Checkout expiries 30 minutes to 24 hours away;
+// one extra minute covers the time until Stripe receives the request
+const MIN_CHECKOUT_MINUTES = 31;
+const MAX_CHECKOUT_HOURS = 24;
+
+export type PaymentLinkCheckoutResult =
+  | { url: string }
+  | { error: string; status: number };
+
+/**
+ * When a Checkout session opened now from a link should expire: at the
+ * link's expiry, or Stripe's 24 hour limit if sooner. Returns null when
+ * the link expires too soon for Stripe to accept.
+ */
+export function getCheckoutExpiry(linkExpiresAt: Date, now: Date = new Date()): Date | null {
+  const latest = new Date(now.getTime() + MAX_CHECKOUT_HOURS * 60 * 60 * 1000);
+  const expiresAt = linkExpiresAt < latest ? linkExpiresAt : latest;
+
+  if (expiresAt.getTime() - now.getTime() < MIN_CHECKOUT_MINUTES * 60 * 1000) {
+    return null;
+  }
+  return expiresAt;
+}
+
+/**
+ * Get the Checkout URL for an active link, reusing the session it already
+ * opened or opening a new one with `createSession`.
+ */
+export async function startPaymentLinkCheckout(
+  link: PaymentLink,
+  createSession: (expiresAt: Date) => Promise<Stripe.Checkout.Session>,
+  now: Date = new Date()
+): Promise<PaymentLinkCheckoutResult> {
+  if (link.stripeCheckoutSessionId) {
+    const existing = await getCheckoutSession(link.stripeCheckoutSessionId);
+    if (existing.status === 'open' && existing.url) {
+      return { url: existing.url };
+    }
+    if (existing.status === 'complete') {
+      return { error: PAYMENT_LINK_UNAVAILABLE_ERRORS.USED, status: 410 };
+    }
+  }
+
+  const expiresAt = getCheckoutExpiry(link.expiresAt, now);
+  if (!expiresAt) {
+    return { error: PAYMENT_LINK_UNAVAILABLE_ERRORS.EXPIRED, status: 410 };
+  }
+
+  const session = await createSession(expiresAt);
+
+  // Verify we have a checkout URL
+  if (!session.url) {
+    console.error('Stripe session created without URL');
+    return { error: 'Failed to create checkout session', status: 500 };
+  }
+
+  // Another visit opened a session first; don't leave a second one payable
+  const kept = await setPaymentLinkCheckoutSession(link.id, link.stripeCheckoutSessionId, session.id);
+  if (!kept) {
+    await expireCheckoutSession(session.id);
+    return { error: 'Checkout was just started for this link, please try again', status: 409 };
+  }
+
+  return { url: session.url };
+}
+
+/**
+ * Expire the Checkout session opened from a link that was revoked, so it
+ * can no longer be paid. Failures are logged rather than thrown, as the
+ * link itself is already revoked.
+ */
+export async function expirePaymentLinkCheckout(
+  link: Pick<PaymentLink, 'stripeCheckoutSessionId'>
+): Promise<void> {
+  if (!link.stripeCheckoutSessionId) {
+    return;
+  }
+
+  try {
+    const session = await getCheckoutSession(link.stripeCheckoutSessionId);
+    if (session.status === 'open') {
+      await expireCheckoutSession(link.stripeCheckoutSessionId);
+    }
+  } catch (error) {
+    console.error('Failed to expire payment link checkout session:', error);
+  }
+}
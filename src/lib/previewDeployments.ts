@@ -0,0 +1,100 @@
+/**
+ * Preview Deployments
+ *
+ * Cloudflare builds a preview deployment for every push to a branch other
+ * than the production branch (subject to the project's preview branch
+ * settings), and keeps a branch alias URL pointing at the branch's latest
+ * preview. Direct uploads to a non-production branch become previews too.
+ * These helpers validate preview branch settings and reduce a project's
+ * preview deployments to the latest one per branch.
+ */
+
+import type { PagesDeployment } from '@/lib/cloudflare';
+import { getDeploymentRunData } from '@/lib/deploymentPoller';
+import type { PreviewBranchSettings, PreviewDeployment, PreviewDeploymentSetting } from '@/types/admin';
+
+export const PREVIEW_DEPLOYMENT_SETTINGS: PreviewDeploymentSetting[] = ['all', 'none', 'custom'];
+
+// Most branch patterns accepted in each list
+const MAX_BRANCH_PATTERNS = 20;
+
+function validateBranchPatterns(value: unknown, field: string): { data: string[]; error?: undefined } | { data?: undefined; error: string } {
+  if (value === undefined) return { data: [] };
+  if (!Array.isArray(value) || value.some((pattern) => typeof pattern !== 'string')) {
+    return { error: `${field} must be a list of branch names or patterns` };
+  }
+
+  const patterns = value.map((pattern: string) => pattern.trim()).filter(Boolean);
+  if (patterns.length > MAX_BRANCH_PATTERNS) {
+    return { error: `${field} can have at most ${MAX_BRANCH_PATTERNS} patterns` };
+  }
+  if (patterns.some((pattern) => /\s/.test(pattern))) {
+    return { error: `${field} patterns can't contain spaces` };
+  }
+  return { data: patterns };
+}
+
+/**
+ * Validate preview branch settings from a request body.
+ * Returns the accepted settings or a message describing the first problem.
+ */
+export function validatePreviewBranchSettings(
+  body: Record<string, unknown>
+): { data: PreviewBranchSettings; error?: undefined } | { data?: undefined; error: string } {
+  const setting = body.previewDeploymentSetting;
+  if (typeof setting !== 'string' || !PREVIEW_DEPLOYMENT_SETTINGS.includes(setting as PreviewDeploymentSetting)) {
+    return { error: `previewDeploymentSetting must be one of: ${PREVIEW_DEPLOYMENT_SETTINGS.join(', ')}` };
+  }
+
+  const includes = validateBranchPatterns(body.previewBranchIncludes, 'previewBranchIncludes');
+  if (includes.error !== undefined) return { error: includes.error };
+  const excludes = validateBranchPatterns(body.previewBranchExcludes, 'previewBranchExcludes');
+  if (excludes.error !== undefined) return { error: excludes.error };
+
+  if (setting === 'custom' && includes.data.length === 0) {
+    return { error: 'List at least one branch to include for custom preview deployments' };
+  }
+
+  return {
+    data: {
+      previewDeploymentSetting: setting as PreviewDeploymentSetting,
+      // Branch lists only apply to custom settings
+      previewBranchIncludes: setting === 'custom' ? includes.data : [],
+      previewBranchExcludes: setting === 'custom' ? excludes.data : [],
+    },
+  };
+}
+
+/**
+ * Reduce preview deployments to the latest one of each branch
+ *
+ * @param cfDeployments - Preview deployments, newest first
+ * @param productionBranch - Branch whose deployments aren't previews
+ */
+export function getLatestPreviews(
+  cfDeployments: PagesDeployment[],
+  productionBranch?: string | null
+): PreviewDeployment[] {
+  const previews = new Map<string, PreviewDeployment>();
+
+  for (const cfDeployment of cfDeployments) {
+    if (cfDeployment.environment !== 'preview') continue;
+
+    const run = getDeploymentRunData(cfDeployment);
+    const branch = run.branch ?? '';
+    if (branch === productionBranch || previews.has(branch)) continue;
+
+    previews.set(branch, {
+      cfDeploymentId: run.cfDeploymentId,
+      branch: run.branch,
+      commitHash: run.commitHash,
+      commitMessage: run.commitMessage,
+      url: run.url,
+      status: run.status,
+      startedAt: run.startedAt,
+      branchUrl: cfDeployment.aliases?.[0] ?? null,
+    });
+  }
+
+  return [...previews.values()];
+}
@@ -0,0 +1,16 @@
+/**
+ * Pricing Plan Options
+ *
+ * Helpers for pricing plans. The intake form values a plan can be
+ * targeted at are in lib/intakeOptions.ts.
+ */
+
+/**
+ * Format an amount in cents for display, e.g. "$200.00"
+ */
+export function formatPlanAmount(amountCents: number, currency: string = 'usd'): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(amountCents / 100);
+}
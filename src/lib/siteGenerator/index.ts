@@ -0,0 +1,339 @@
+/**
+ * Static Site Generator
+ *
+ * Builds a complete starter site for a customer from their intake
+ * submission and uploaded files, using the industry templates in
+ * ./templates. The result is a static bundle that the admin can preview
+ * and deployStaticBundle can publish.
+ *
+ * What goes into the site:
+ * - The business name, industry and requested features from the intake form
+ * - The newest LOGO in the header
+ * - PHOTOs for the hero, the menu or product cards and (with the
+ *   "gallery" feature) a gallery
+ * - The newest JSON CONTENT file for the site text: headline, tagline,
+ *   about, items, reviews, email, phone, address and hours
+ * - The newest text or markdown CONTENT file for the About section, unless
+ *   the JSON file sets "about"
+ *
+ * Anything the template had to fill in is listed in the notes so the team
+ * knows what to ask the customer for.
+ *
+ * planSite renders the pages and works out where each image goes without
+ * reading the images, so the admin preview can serve a single file;
+ * generateSite reads the images too for a full bundle.
+ */
+
+import type { StaticAsset } from '@/lib/cloudflare';
+import { readBundleFile, toUrlName } from '@/lib/staticBundle';
+import type { CustomerFile, Submission } from '@/types/admin';
+import { renderHomePage, renderNotFoundPage, renderStylesheet } from './render';
+import type { SiteImage, SitePage, SiteReview } from './render';
+import { getSiteTemplate } from './templates';
+import type { SiteItem, SiteTemplateId } from './templates';
+
+export { SITE_TEMPLATES, getSiteTemplate } from './templates';
+export type { SiteTemplate, SiteTemplateId } from './templates';
+
+export type SiteSubmission = Pick<
+  Submission,
+  'businessName' | 'industryType' | 'features' | 'email' | 'phone'
+>;
+
+export interface GeneratedSite {
+  template: SiteTemplateId;
+  assets: StaticAsset[];
+  notes: string[];
+}
+
+export interface SitePlan {
+  template: SiteTemplateId;
+  // index.html, 404.html and styles.css
+  pages: StaticAsset[];
+  // Bundle path of each image (e.g. "/images/logo.png") and its source file
+  images: Map<string, CustomerFile>;
+  notes: string[];
+}
+
+// Text a JSON CONTENT file can set
+interface SiteContent {
+  headline?: string;
+  tagline?: string;
+  about?: string[];
+  items?: SiteItem[];
+  reviews?: SiteReview[];
+  email?: string;
+  phone?: string;
+  address?: string;
+  hours?: string[];
+}
+
+// Features from the intake form, matched on the form value or its label
+const FEATURE_KEYWORDS = {
+  gallery: ['gallery'],
+  reviews: ['review'],
+  booking: ['booking', 'appointment'],
+  ecommerce: ['ecommerce', 'e-commerce', 'online store'],
+  blog: ['blog'],
+} as const;
+
+type SiteFeature = keyof typeof FEATURE_KEYWORDS;
+
+function parseFeatures(value: string): string[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+function getFeatures(value: string): Set<SiteFeature> {
+  const requested = parseFeatures(value).map((feature) => feature.toLowerCase());
+  const features = new Set<SiteFeature>();
+
+  for (const [feature, keywords] of Object.entries(FEATURE_KEYWORDS) as [SiteFeature, readonly string[]][]) {
+    if (requested.some((item) => keywords.some((keyword) => item.includes(keyword)))) {
+      features.add(feature);
+    }
+  }
+
+  return features;
+}
+
+function toText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function toTextList(value: unknown): string[] | undefined {
+  if (typeof value === 'string') return toParagraphs(value);
+  if (!Array.isArray(value)) return undefined;
+  const list = value.map(toText).filter((item): item is string => !!item);
+  return list.length ? list : undefined;
+}
+
+/**
+ * Read the site text from a JSON CONTENT file, ignoring anything that
+ * isn't the expected shape
+ */
+export function parseSiteContent(json: string): SiteContent | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+
+  const data = parsed as Record<string, unknown>;
+  const content: SiteContent = {
+    headline: toText(data.headline),
+    tagline: toText(data.tagline),
+    about: toTextList(data.about),
+    email: toText(data.email),
+    phone: toText(data.phone),
+    address: toText(data.address),
+    hours: toTextList(data.hours),
+  };
+
+  if (Array.isArray(data.items)) {
+    const items = data.items
+      .map((item): SiteItem | null => {
+        if (!item || typeof item !== 'object') return null;
+        const { name, description, price } = item as Record<string, unknown>;
+        const itemName = toText(name);
+        if (!itemName) return null;
+        return {
+          name: itemName,
+          description: toText(description),
+          price: typeof price === 'number' ? `$${price.toFixed(2)}` : toText(price),
+        };
+      })
+      .filter((item): item is SiteItem => !!item);
+    if (items.length) content.items = items;
+  }
+
+  if (Array.isArray(data.reviews)) {
+    const reviews = data.reviews
+      .map((review): SiteReview | null => {
+        if (typeof review === 'string') return toText(review) ? { quote: review.trim() } : null;
+        if (!review || typeof review !== 'object') return null;
+        const { quote, author } = review as Record<string, unknown>;
+        const text = toText(quote);
+        return text ? { quote: text, author: toText(author) } : null;
+      })
+      .filter((review): review is SiteReview => !!review);
+    if (reviews.length) content.reviews = reviews;
+  }
+
+  return content;
+}
+
+/**
+ * Split text or markdown into paragraphs, dropping markdown heading and
+ * emphasis markers
+ */
+export function toParagraphs(text: string): string[] {
+  return text
+    .split(/\r?\n\s*\r?\n/)
+    .map((block) =>
+      block
+        .split(/\r?\n/)
+        .map((line) => line.replace(/^\s*(#{1,6}\s+|[-*+]\s+|>\s?)/, '').trim())
+        .join(' ')
+        .replace(/(\*\*|__|\*|_|`)(.+?)\1/g, '$2')
+        .trim()
+    )
+    .filter(Boolean);
+}
+
+function isImage(file: CustomerFile): boolean {
+  return file.mimeType.startsWith('image/');
+}
+
+/**
+ * Render a customer's site pages and place its images, reading only the
+ * site text files
+ *
+ * @param submission - The customer's intake submission
+ * @param files - The customer's current files, newest first
+ * @throws StaticBundleError if a site text file is missing from storage
+ */
+export async function planSite(
+  submission: SiteSubmission,
+  files: CustomerFile[]
+): Promise<SitePlan> {
+  const template = getSiteTemplate(submission.industryType);
+  const features = getFeatures(submission.features);
+  const notes: string[] = [];
+  const images = new Map<string, CustomerFile>();
+
+  // Place an image in the bundle under images/, with a unique name
+  const addImage = (file: CustomerFile, alt: string): SiteImage => {
+    const name = toUrlName(file.fileName, `image-${file.id}`);
+    const extensionIndex = name.lastIndexOf('.');
+    const base = extensionIndex > 0 ? name.slice(0, extensionIndex) : name;
+    const extension = extensionIndex > 0 ? name.slice(extensionIndex) : '';
+
+    let path = `images/${name}`;
+    for (let copy = 2; images.has(`/${path}`); copy++) {
+      path = `images/${base}-${copy}${extension}`;
+    }
+
+    images.set(`/${path}`, file);
+    return { path, alt };
+  };
+
+  // Site text
+  const contentFiles = files.filter((file) => file.category === 'CONTENT');
+  const jsonFile = contentFiles.find((file) => file.mimeType === 'application/json');
+  const textFile = contentFiles.find((file) => file.mimeType === 'text/plain' || file.mimeType === 'text/markdown');
+
+  let content: SiteContent = {};
+  if (jsonFile) {
+    const parsed = parseSiteContent((await readBundleFile(jsonFile)).toString('utf-8'));
+    if (parsed) {
+      content = parsed;
+    } else {
+      notes.push(`${jsonFile.fileName} isn't a JSON object of site text, so it was skipped`);
+    }
+  }
+
+  let about = content.about;
+  if (!about && textFile) {
+    about = toParagraphs((await readBundleFile(textFile)).toString('utf-8'));
+  }
+  if (!about?.length) {
+    about = [`Welcome to ${submission.businessName}. ${template.tagline}.`];
+    notes.push('No about text was provided, so the About section uses a placeholder');
+  }
+
+  // Images
+  const logoFile = files.find((file) => file.category === 'LOGO' && isImage(file));
+  const logo = logoFile ? addImage(logoFile, `${submission.businessName} logo`) : null;
+  if (!logo) notes.push('No logo was uploaded, so the header shows the first letter of the business name');
+
+  const photos = files
+    .filter((file) => file.category === 'PHOTO' && isImage(file))
+    .map((file) => addImage(file, file.description || submission.businessName));
+  const [heroImage = null, ...otherPhotos] = photos;
+
+  let items = content.items;
+  if (!items) {
+    items = template.items.placeholders;
+    notes.push(`The "${template.items.title}" section uses placeholder items; add "items" to a JSON content file to list real ones`);
+  }
+
+  const itemPhotos = template.items.withImages ? otherPhotos : [];
+  const gallery = features.has('gallery') ? photos : [];
+  if (features.has('gallery') && photos.length === 0) {
+    notes.push('A photo gallery was requested but no photos have been uploaded');
+  }
+
+  const reviews = content.reviews ?? [];
+  if (features.has('reviews') && reviews.length === 0) {
+    notes.push('Customer reviews were requested; add "reviews" to a JSON content file to show them');
+  }
+  if (features.has('ecommerce')) {
+    notes.push('An online store was requested; the generated site only links customers to get in touch');
+  }
+  if (features.has('booking')) {
+    notes.push('Appointment booking was requested; the generated site only links customers to get in touch');
+  }
+  if (features.has('blog')) {
+    notes.push('A blog was requested; the generated site has no blog pages');
+  }
+
+  const page: SitePage = {
+    template,
+    businessName: submission.businessName,
+    headline: content.headline ?? template.headline,
+    tagline: content.tagline ?? template.tagline,
+    logo,
+    heroImage,
+    about,
+    items: items.map((item, index) => ({ ...item, image: itemPhotos[index] ?? null })),
+    gallery,
+    reviews,
+    contact: {
+      email: content.email ?? submission.email,
+      phone: content.phone ?? submission.phone,
+      address: content.address ?? null,
+      hours: content.hours ?? [],
+    },
+    ctaLabel: features.has('booking') && template.id !== 'home-services' ? 'Book Now' : template.ctaLabel,
+  };
+
+  if (!content.email && !content.phone) {
+    notes.push('Contact details come from the intake form; check they are the ones to publish');
+  }
+
+  const pages: StaticAsset[] = [
+    { path: '/index.html', content: Buffer.from(renderHomePage(page)), contentType: 'text/html' },
+    { path: '/404.html', content: Buffer.from(renderNotFoundPage(page)), contentType: 'text/html' },
+    { path: '/styles.css', content: Buffer.from(renderStylesheet(template)), contentType: 'text/css' },
+  ];
+
+  return { template: template.id, pages, images, notes };
+}
+
+/**
+ * Generate a customer's site from their intake submission and files
+ *
+ * @param submission - The customer's intake submission
+ * @param files - The customer's current files, newest first
+ * @throws StaticBundleError if a file the site uses is missing from storage
+ */
+export async function generateSite(
+  submission: SiteSubmission,
+  files: CustomerFile[]
+): Promise<GeneratedSite> {
+  const { template, pages, images, notes } = await planSite(submission, files);
+  const assets = [...pages];
+
+  for (const [path, file] of images) {
+    assets.push({ path, content: await readBundleFile(file), contentType: file.mimeType });
+  }
+
+  return { template, assets, notes };
+}
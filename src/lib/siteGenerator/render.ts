@@ -0,0 +1,328 @@
+/**
+ * Site Generator Rendering
+ *
+ * Turns a SitePage into the HTML and CSS of the generated site. Output is
+ * plain HTML with one stylesheet and no scripts or inline styles, and every
+ * link is relative so the site works from any folder, including the admin
+ * preview.
+ */
+
+import type { SiteItem, SiteTemplate } from './templates';
+
+export interface SiteImage {
+  path: string;
+  alt: string;
+}
+
+export interface SiteReview {
+  quote: string;
+  author?: string;
+}
+
+export interface SitePage {
+  template: SiteTemplate;
+  businessName: string;
+  headline: string;
+  tagline: string;
+  logo: SiteImage | null;
+  heroImage: SiteImage | null;
+  about: string[];
+  items: Array<SiteItem & { image: SiteImage | null }>;
+  gallery: SiteImage[];
+  reviews: SiteReview[];
+  contact: {
+    email: string | null;
+    phone: string | null;
+    address: string | null;
+    hours: string[];
+  };
+  ctaLabel: string;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderImage(image: SiteImage, className: string): string {
+  return `<img class="${className}" src="${escapeHtml(image.path)}" alt="${escapeHtml(image.alt)}">`;
+}
+
+function renderDocument(page: SitePage, title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<meta name="description" content="${escapeHtml(page.tagline)}">
+<link rel="stylesheet" href="styles.css">
+</head>
+<body class="template-${page.template.id}">
+${renderHeader(page)}
+${body}
+<footer class="site-footer">
+<div class="container">&copy; ${new Date().getFullYear()} ${escapeHtml(page.businessName)}</div>
+</footer>
+</body>
+</html>
+`;
+}
+
+function renderHeader(page: SitePage): string {
+  const { items } = page.template;
+  const brandMark = page.logo
+    ? renderImage(page.logo, 'brand-logo')
+    : `<span class="brand-initial" aria-hidden="true">${escapeHtml(page.businessName.charAt(0).toUpperCase())}</span>`;
+
+  return `<header class="site-header">
+<div class="container header-inner">
+<a class="brand" href="index.html">${brandMark}<span class="brand-name">${escapeHtml(page.businessName)}</span></a>
+<nav class="site-nav">
+<a href="index.html#${items.id}">${escapeHtml(items.navLabel)}</a>
+<a href="index.html#about">About</a>
+<a href="index.html#contact">Contact</a>
+</nav>
+</div>
+</header>`;
+}
+
+function renderHero(page: SitePage): string {
+  const badges = page.template.badges.length
+    ? `<ul class="badges">${page.template.badges.map((badge) => `<li>${escapeHtml(badge)}</li>`).join('')}</ul>`
+    : '';
+
+  return `<section class="hero">
+<div class="container hero-inner">
+<div class="hero-text">
+<h1>${escapeHtml(page.headline)}</h1>
+<p class="tagline">${escapeHtml(page.tagline)}</p>
+<a class="button" href="#contact">${escapeHtml(page.ctaLabel)}</a>
+${badges}
+</div>
+${page.heroImage ? renderImage(page.heroImage, 'hero-image') : ''}
+</div>
+</section>`;
+}
+
+function renderItem(item: SitePage['items'][number], withImages: boolean): string {
+  const image = withImages
+    ? item.image
+      ? renderImage(item.image, 'item-image')
+      : '<div class="item-image item-placeholder" aria-hidden="true"></div>'
+    : '';
+
+  return `<li class="item">
+${image}
+<div class="item-body">
+<h3>${escapeHtml(item.name)}</h3>
+${item.description ? `<p>${escapeHtml(item.description)}</p>` : ''}
+${item.price ? `<p class="price">${escapeHtml(item.price)}</p>` : ''}
+</div>
+</li>`;
+}
+
+function renderItems(page: SitePage): string {
+  const { items, announcement } = page.template;
+  const layout = items.withImages ? 'items-cards' : 'items-grid';
+
+  return `${announcement ? `<div class="announcement">${escapeHtml(announcement)}</div>` : ''}
+<section id="${items.id}" class="section">
+<div class="container">
+<h2>${escapeHtml(items.title)}</h2>
+<ul class="items ${layout}">
+${page.items.map((item) => renderItem(item, items.withImages)).join('\n')}
+</ul>
+</div>
+</section>`;
+}
+
+function renderAbout(page: SitePage): string {
+  return `<section id="about" class="section section-alt">
+<div class="container narrow">
+<h2>About ${escapeHtml(page.businessName)}</h2>
+${page.about.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join('\n')}
+</div>
+</section>`;
+}
+
+function renderGallery(page: SitePage): string {
+  if (page.gallery.length === 0) return '';
+
+  return `<section id="gallery" class="section">
+<div class="container">
+<h2>Gallery</h2>
+<ul class="gallery">
+${page.gallery.map((image) => `<li>${renderImage(image, 'gallery-image')}</li>`).join('\n')}
+</ul>
+</div>
+</section>`;
+}
+
+function renderReviews(page: SitePage): string {
+  if (page.reviews.length === 0) return '';
+
+  return `<section id="reviews" class="section section-alt">
+<div class="container">
+<h2>What Our Customers Say</h2>
+<ul class="reviews">
+${page.reviews
+  .map(
+    (review) => `<li><blockquote>
+<p>&ldquo;${escapeHtml(review.quote)}&rdquo;</p>
+${review.author ? `<footer>${escapeHtml(review.author)}</footer>` : ''}
+</blockquote></li>`
+  )
+  .join('\n')}
+</ul>
+</div>
+</section>`;
+}
+
+function renderContact(page: SitePage): string {
+  const { email, phone, address, hours } = page.contact;
+  const details: string[] = [];
+  if (phone) details.push(`<li>Phone: <a href="tel:${escapeHtml(phone.replace(/[^\d+]/g, ''))}">${escapeHtml(phone)}</a></li>`);
+  if (email) details.push(`<li>Email: <a href="mailto:${escapeHtml(email)}">${escapeHtml(email)}</a></li>`);
+  if (address) details.push(`<li>${escapeHtml(address)}</li>`);
+
+  return `<section id="contact" class="section contact">
+<div class="container narrow">
+<h2>Get in Touch</h2>
+${details.length ? `<ul class="contact-details">${details.join('')}</ul>` : ''}
+${hours.length ? `<h3>Hours</h3>\n<ul class="hours">${hours.map((line) => `<li>${escapeHtml(line)}</li>`).join('')}</ul>` : ''}
+${email ? `<a class="button" href="mailto:${escapeHtml(email)}">${escapeHtml(page.ctaLabel)}</a>` : ''}
+</div>
+</section>`;
+}
+
+/**
+ * Render the home page: hero, items, about, gallery, reviews and contact
+ */
+export function renderHomePage(page: SitePage): string {
+  const body = `<main>
+${renderHero(page)}
+${renderItems(page)}
+${renderAbout(page)}
+${renderGallery(page)}
+${renderReviews(page)}
+${renderContact(page)}
+</main>`;
+
+  return renderDocument(page, `${page.businessName} - ${page.tagline}`, body);
+}
+
+/**
+ * Render the page served for unknown paths
+ */
+export function renderNotFoundPage(page: SitePage): string {
+  const body = `<main>
+<section class="section">
+<div class="container narrow">
+<h1>Page not found</h1>
+<p>Sorry, we couldn&rsquo;t find that page.</p>
+<a class="button" href="index.html">Back to home</a>
+</div>
+</section>
+</main>`;
+
+  return renderDocument(page, `Page not found - ${page.businessName}`, body);
+}
+
+/**
+ * Render the stylesheet with the template's colors
+ */
+export function renderStylesheet(template: SiteTemplate): string {
+  const { colors } = template;
+  const radius = template.rounded ? '9999px' : '0.375rem';
+
+  return `:root {
+  --page: ${colors.page};
+  --header: ${colors.header};
+  --header-text: ${colors.headerText};
+  --heading: ${colors.heading};
+  --text: ${colors.text};
+  --accent: ${colors.accent};
+  --accent-hover: ${colors.accentHover};
+  --hero-from: ${colors.heroFrom};
+  --hero-to: ${colors.heroTo};
+  --hero-text: ${colors.heroText};
+  --radius: ${radius};
+}
+* { box-sizing: border-box; }
+body {
+  margin: 0;
+  font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif;
+  line-height: 1.6;
+  color: var(--text);
+  background: var(--page);
+}
+img { max-width: 100%; display: block; }
+a { color: var(--accent); }
+h1, h2, h3 { color: var(--heading); line-height: 1.25; margin: 0 0 0.75rem; }
+h2 { font-size: 1.75rem; text-align: center; margin-bottom: 2rem; }
+ul { list-style: none; margin: 0; padding: 0; }
+.container { max-width: 72rem; margin: 0 auto; padding: 0 1.25rem; }
+.narrow { max-width: 44rem; }
+.button {
+  display: inline-block;
+  padding: 0.75rem 1.75rem;
+  border-radius: var(--radius);
+  background: var(--accent);
+  color: #ffffff;
+  font-weight: 600;
+  text-decoration: none;
+}
+.button:hover { background: var(--accent-hover); }
+.site-header { background: var(--header); color: var(--header-text); box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1); }
+.header-inner { display: flex; align-items: center; justify-content: space-between; gap: 1rem; padding-top: 1rem; padding-bottom: 1rem; flex-wrap: wrap; }
+.brand { display: flex; align-items: center; gap: 0.75rem; color: var(--header-text); text-decoration: none; font-weight: 700; font-size: 1.25rem; }
+.brand-logo { height: 2.5rem; width: auto; }
+.brand-initial {
+  display: inline-flex; align-items: center; justify-content: center;
+  width: 2.5rem; height: 2.5rem; border-radius: var(--radius);
+  background: var(--accent); color: #ffffff;
+}
+.site-nav { display: flex; gap: 1.5rem; }
+.site-nav a { color: var(--header-text); text-decoration: none; opacity: 0.9; }
+.site-nav a:hover { opacity: 1; text-decoration: underline; }
+.hero { background: linear-gradient(135deg, var(--hero-from), var(--hero-to)); color: var(--hero-text); padding: 4rem 0; }
+.hero h1 { color: var(--hero-text); font-size: 2.5rem; }
+.hero-inner { display: flex; align-items: center; gap: 2.5rem; flex-wrap: wrap; }
+.hero-text { flex: 1 1 22rem; }
+.tagline { font-size: 1.2rem; margin: 0 0 1.5rem; opacity: 0.9; }
+.hero-image { flex: 1 1 20rem; max-height: 22rem; object-fit: cover; border-radius: 0.75rem; }
+.badges { display: flex; gap: 0.75rem; margin-top: 1.5rem; flex-wrap: wrap; }
+.badges li { padding: 0.25rem 0.75rem; border-radius: 9999px; background: rgba(255, 255, 255, 0.15); font-size: 0.875rem; font-weight: 600; }
+.announcement { background: var(--accent); color: #ffffff; text-align: center; padding: 0.5rem 1rem; font-weight: 600; }
+.section { padding: 4rem 0; }
+.section-alt { background: rgba(0, 0, 0, 0.03); }
+.items { display: grid; gap: 1.5rem; }
+.items-cards { grid-template-columns: repeat(auto-fill, minmax(14rem, 1fr)); }
+.items-grid { grid-template-columns: repeat(auto-fill, minmax(12rem, 1fr)); }
+.item { background: #ffffff; border-radius: 0.75rem; overflow: hidden; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.08); }
+.item-image { width: 100%; height: 10rem; object-fit: cover; }
+.item-placeholder { background: linear-gradient(135deg, var(--hero-from), var(--hero-to)); opacity: 0.5; }
+.item-body { padding: 1rem 1.25rem; }
+.item-body h3 { font-size: 1.1rem; margin-bottom: 0.25rem; }
+.item-body p { margin: 0; }
+.price { color: var(--accent); font-weight: 700; margin-top: 0.5rem; }
+.gallery { display: grid; grid-template-columns: repeat(auto-fill, minmax(14rem, 1fr)); gap: 1rem; }
+.gallery-image { width: 100%; height: 12rem; object-fit: cover; border-radius: 0.5rem; }
+.reviews { display: grid; grid-template-columns: repeat(auto-fill, minmax(18rem, 1fr)); gap: 1.5rem; }
+.reviews blockquote { margin: 0; background: #ffffff; padding: 1.5rem; border-radius: 0.75rem; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.08); }
+.reviews footer { margin-top: 0.75rem; font-weight: 600; color: var(--heading); }
+.contact { text-align: center; }
+.contact-details, .hours { margin-bottom: 1.5rem; }
+.site-footer { background: var(--header); color: var(--header-text); padding: 1.5rem 0; text-align: center; font-size: 0.875rem; }
+@media (max-width: 640px) {
+  .hero { padding: 2.5rem 0; }
+  .hero h1 { font-size: 1.9rem; }
+  .site-nav { gap: 1rem; }
+}
+`;
+}
@@ -0,0 +1,208 @@
+/**
+ * Site Generator Templates
+ *
+ * One template per industry, modelled on the landing page mockups in
+ * src/components/mockups: the colors, hero, item section and call to
+ * action of RestaurantMockup, ProfessionalMockup, HomeServicesMockup and
+ * RetailMockup. Colors are the Tailwind shades the mockups use.
+ */
+
+export type SiteTemplateId = 'restaurant' | 'professional' | 'home-services' | 'retail';
+
+export interface SiteItem {
+  name: string;
+  description?: string;
+  price?: string;
+}
+
+export interface SiteTemplate {
+  id: SiteTemplateId;
+  label: string;
+  colors: {
+    page: string;
+    header: string;
+    headerText: string;
+    heading: string;
+    text: string;
+    accent: string;
+    accentHover: string;
+    heroFrom: string;
+    heroTo: string;
+    heroText: string;
+  };
+  // Shape of buttons and the logo badge
+  rounded: boolean;
+  headline: string;
+  tagline: string;
+  // Section listing the menu, services or products
+  items: {
+    id: string;
+    navLabel: string;
+    title: string;
+    // Show a photo (or a placeholder block) on each item
+    withImages: boolean;
+    placeholders: SiteItem[];
+  };
+  ctaLabel: string;
+  // Short selling points, e.g. the trust badges of the home services mockup
+  badges: string[];
+  // Banner above the items, e.g. the retail sale announcement
+  announcement: string | null;
+}
+
+export const SITE_TEMPLATES: Record<SiteTemplateId, SiteTemplate> = {
+  restaurant: {
+    id: 'restaurant',
+    label: 'Restaurant',
+    colors: {
+      page: '#fffbeb', // amber-50
+      header: '#78350f', // amber-900
+      headerText: '#fef3c7', // amber-100
+      heading: '#78350f',
+      text: '#451a03',
+      accent: '#d97706', // amber-600
+      accentHover: '#b45309',
+      heroFrom: '#d97706',
+      heroTo: '#f97316', // orange-500
+      heroText: '#ffffff',
+    },
+    rounded: true,
+    headline: 'Fresh food, made with care',
+    tagline: 'Fresh ingredients, family recipes',
+    items: {
+      id: 'menu',
+      navLabel: 'Menu',
+      title: "Today's Specials",
+      withImages: true,
+      placeholders: [
+        { name: "Chef's Special" },
+        { name: 'House Favorite' },
+        { name: 'Seasonal Dish' },
+        { name: 'Dessert of the Day' },
+      ],
+    },
+    ctaLabel: 'Order Now',
+    badges: [],
+    announcement: null,
+  },
+  professional: {
+    id: 'professional',
+    label: 'Professional Services',
+    colors: {
+      page: '#f8fafc', // slate-50
+      header: '#1e293b', // slate-800
+      headerText: '#ffffff',
+      heading: '#1e293b',
+      text: '#334155',
+      accent: '#2563eb', // blue-600
+      accentHover: '#1d4ed8',
+      heroFrom: '#f1f5f9', // slate-100
+      heroTo: '#ffffff',
+      heroText: '#1e293b',
+    },
+    rounded: false,
+    headline: 'Expert help you can rely on',
+    tagline: 'Helping clients reach their goals',
+    items: {
+      id: 'services',
+      navLabel: 'Services',
+      title: 'Our Services',
+      withImages: false,
+      placeholders: [
+        { name: 'Consultation' },
+        { name: 'Planning & Strategy' },
+        { name: 'Ongoing Support' },
+        { name: 'Research & Analysis' },
+      ],
+    },
+    ctaLabel: 'Contact Us',
+    badges: [],
+    announcement: null,
+  },
+  'home-services': {
+    id: 'home-services',
+    label: 'Home Services',
+    colors: {
+      page: '#f1f5f9', // slate-100
+      header: '#1e40af', // blue-800
+      headerText: '#ffffff',
+      heading: '#1e293b',
+      text: '#475569',
+      accent: '#f97316', // orange-500
+      accentHover: '#ea580c',
+      heroFrom: '#1d4ed8', // blue-700
+      heroTo: '#1e40af',
+      heroText: '#ffffff',
+    },
+    rounded: true,
+    headline: 'Fast & reliable service',
+    tagline: 'Quality work for your home',
+    items: {
+      id: 'services',
+      navLabel: 'Services',
+      title: 'Our Services',
+      withImages: false,
+      placeholders: [
+        { name: 'Repairs' },
+        { name: 'Installation' },
+        { name: 'Maintenance' },
+        { name: 'Inspection' },
+        { name: 'Emergency Service' },
+        { name: 'Free Quotes' },
+      ],
+    },
+    ctaLabel: 'Book Now - Free Quote',
+    badges: ['Licensed', 'Insured', 'Local'],
+    announcement: null,
+  },
+  retail: {
+    id: 'retail',
+    label: 'Retail',
+    colors: {
+      page: '#fafaf9', // stone-50
+      header: '#ffffff',
+      headerText: '#292524', // stone-800
+      heading: '#292524',
+      text: '#44403c',
+      accent: '#f43f5e', // rose-500
+      accentHover: '#e11d48',
+      heroFrom: '#ffe4e6', // rose-100
+      heroTo: '#fce7f3', // pink-100
+      heroText: '#be123c',
+    },
+    rounded: true,
+    headline: 'Discover something new',
+    tagline: 'Hand-picked products you will love',
+    items: {
+      id: 'products',
+      navLabel: 'Shop',
+      title: 'Featured Products',
+      withImages: true,
+      placeholders: [
+        { name: 'New Arrivals' },
+        { name: 'Best Sellers' },
+        { name: 'Gift Ideas' },
+        { name: 'On Sale' },
+      ],
+    },
+    ctaLabel: 'Shop Now',
+    badges: [],
+    announcement: 'Visit us in store or get in touch to order',
+  },
+};
+
+// Intake form industries without a template of their own
+const INDUSTRY_TEMPLATES: Record<string, SiteTemplateId> = {
+  restaurant: 'restaurant',
+  professional: 'professional',
+  health: 'professional',
+  'home-services': 'home-services',
+  retail: 'retail',
+};
+
+/**
+ * Pick the template for an intake form industry, falling back to professional
+ */
+export function getSiteTemplate(industryType: string): SiteTemplate {
+  return SITE_TEMPLATES[INDUSTRY_TEMPLATES[industryType] ?? 'professional'];
+}
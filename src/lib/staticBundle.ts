@@ -0,0 +1,120 @@
+/**
+ * Static Site Bundles
+ *
+ * Builds the files of a simple static site from a customer's uploaded
+ * files, for deploying without a git repo (see deployStaticBundle).
+ * HTML files in CONTENT become the site's pages at the root, and the
+ * newest one is served as index.html unless a page already has that name.
+ * Logos, photos and other content files are served from their storage
+ * folders (/logos/, /photos/, /content/) under URL-safe names.
+ */
+
+import { readFile, StorageError, CATEGORY_FOLDERS } from '@/lib/storage';
+import type { StaticAsset } from '@/lib/cloudflare';
+import type { CustomerFile, FileCategory } from '@/types/admin';
+
+// Categories of customer files that go into a bundle
+export const BUNDLE_CATEGORIES: FileCategory[] = ['CONTENT', 'PHOTO', 'LOGO'];
+
+/**
+ * Error for customer files that can't be made into a site
+ */
+export class StaticBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StaticBundleError';
+  }
+}
+
+// Lowercase a file name and replace anything that isn't URL-safe
+export function toUrlName(fileName: string, fallback: string): string {
+  const name = fileName
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^[-.]+|-+$/g, '');
+  return name || fallback;
+}
+
+function isPage(file: CustomerFile): boolean {
+  return file.category === 'CONTENT' && file.mimeType === 'text/html';
+}
+
+/**
+ * Work out the URL path of every file in the bundle
+ *
+ * Files are expected newest first, as getFilesByCustomerId returns them.
+ * Names that repeat within a folder get "-2", "-3" and so on before the
+ * extension.
+ */
+export function getBundlePaths(files: CustomerFile[]): Map<number, string> {
+  const paths = new Map<number, string>();
+  const taken = new Set<string>();
+
+  const pages = files.filter(isPage);
+  const hasIndex = pages.some((file) => toUrlName(file.fileName, '') === 'index.html');
+
+  for (const file of files) {
+    if (!BUNDLE_CATEGORIES.includes(file.category)) continue;
+
+    let folder = isPage(file) ? '' : `/${CATEGORY_FOLDERS[file.category]}`;
+    let name = toUrlName(file.fileName, `file-${file.id}`);
+    if (!hasIndex && file === pages[0]) {
+      folder = '';
+      name = 'index.html';
+    }
+
+    const extensionIndex = name.lastIndexOf('.');
+    const base = extensionIndex > 0 ? name.slice(0, extensionIndex) : name;
+    const extension = extensionIndex > 0 ? name.slice(extensionIndex) : '';
+
+    let candidate = `${folder}/${name}`;
+    for (let copy = 2; taken.has(candidate); copy++) {
+      candidate = `${folder}/${base}-${copy}${extension}`;
+    }
+
+    taken.add(candidate);
+    paths.set(file.id, candidate);
+  }
+
+  return paths;
+}
+
+/**
+ * Read a customer file's contents from storage
+ *
+ * @throws StaticBundleError if the file is missing from storage
+ */
+export async function readBundleFile(file: CustomerFile): Promise<Buffer> {
+  try {
+    return await readFile(file.fileKey);
+  } catch (error) {
+    if (error instanceof StorageError && error.code === 'NOT_FOUND') {
+      throw new StaticBundleError(`${file.fileName} is missing from storage`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read a customer's files from storage into a static site bundle
+ *
+ * @param files - The customer's current files, newest first
+ * @throws StaticBundleError if there's no HTML page or a file is missing from storage
+ */
+export async function buildCustomerFileBundle(files: CustomerFile[]): Promise<StaticAsset[]> {
+  if (!files.some(isPage)) {
+    throw new StaticBundleError('Upload at least one HTML page as a CONTENT file to deploy from customer files');
+  }
+
+  const paths = getBundlePaths(files);
+  const assets: StaticAsset[] = [];
+
+  for (const file of files) {
+    const path = paths.get(file.id);
+    if (!path) continue;
+
+    assets.push({ path, content: await readBundleFile(file), contentType: file.mimeType });
+  }
+
+  return assets;
+}
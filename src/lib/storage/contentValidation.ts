@@ -0,0 +1,205 @@
+/**
+ * File Content Validation
+ *
+ * The MIME type of an upload comes from the browser and can't be trusted.
+ * These checks look at the bytes instead:
+ * - Binary formats must start with the magic bytes of the declared type
+ * - Text formats must be UTF-8 text (and JSON must parse)
+ * - SVG and HTML are sanitized (see sanitize.ts)
+ * - ZIP archives, including DOCX/XLSX, are checked for decompression bombs
+ *   using the sizes recorded in their central directory
+ */
+
+import { StorageError } from './driver';
+import { sanitizeSvg, sanitizeHtml } from './sanitize';
+
+// ZIP archive limits
+export const MAX_ARCHIVE_ENTRIES = 1000;
+export const MAX_ARCHIVE_UNCOMPRESSED_SIZE = 100 * 1024 * 1024; // 100MB
+export const MAX_ARCHIVE_COMPRESSION_RATIO = 100;
+
+type FileSignature = 'png' | 'jpeg' | 'gif' | 'webp' | 'avif' | 'pdf' | 'zip' | 'ole';
+
+// Signatures accepted for each binary MIME type
+const BINARY_SIGNATURES: Record<string, FileSignature> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'application/pdf': 'pdf',
+  'application/zip': 'zip',
+  // Legacy Office files are OLE compound documents
+  'application/msword': 'ole',
+  'application/vnd.ms-excel': 'ole',
+  // Modern Office files are ZIP archives
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'zip',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'zip',
+};
+
+// Types stored as UTF-8 text
+const TEXT_MIME_TYPES = [
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'text/html',
+  'application/json',
+  'image/svg+xml',
+];
+
+function startsWith(buffer: Buffer, bytes: number[] | string, offset = 0): boolean {
+  const expected = typeof bytes === 'string' ? Buffer.from(bytes, 'latin1') : Buffer.from(bytes);
+  return buffer.length >= offset + expected.length &&
+    buffer.subarray(offset, offset + expected.length).equals(expected);
+}
+
+/**
+ * Identify a binary file from its magic bytes
+ *
+ * @returns The detected signature, or null for text and unknown formats
+ */
+export function detectFileSignature(buffer: Buffer): FileSignature | null {
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(buffer, 'GIF87a') || startsWith(buffer, 'GIF89a')) return 'gif';
+  if (startsWith(buffer, 'RIFF') && startsWith(buffer, 'WEBP', 8)) return 'webp';
+  if (startsWith(buffer, 'ftypavif', 4) || startsWith(buffer, 'ftypavis', 4)) return 'avif';
+  if (startsWith(buffer, '%PDF-')) return 'pdf';
+  // Local file header, or the end record of an empty archive
+  if (startsWith(buffer, 'PK\x03\x04') || startsWith(buffer, 'PK\x05\x06')) return 'zip';
+  if (startsWith(buffer, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return 'ole';
+  return null;
+}
+
+/**
+ * Decode a buffer as UTF-8 text, or return null if it isn't text
+ */
+function decodeText(buffer: Buffer): string | null {
+  if (buffer.includes(0)) {
+    return null;
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a ZIP archive's central directory for decompression bombs:
+ * too many entries, too much data once extracted, extreme compression
+ * ratios, or nested archives
+ */
+export function checkZipArchive(buffer: Buffer): void {
+  const invalid = () => new StorageError('File is not a valid ZIP archive', 'CONTENT_MISMATCH');
+  const unsafe = (reason: string) => new StorageError(`Archive rejected: ${reason}`, 'UNSAFE_ARCHIVE');
+
+  // The end of central directory record sits in the last 22 bytes plus
+  // an optional comment of up to 64KB
+  let eocd = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === 0x06054b50) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw invalid();
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  const directoryOffset = buffer.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw unsafe('ZIP64 archives are not supported');
+  }
+  if (entryCount > MAX_ARCHIVE_ENTRIES) {
+    throw unsafe(`more than ${MAX_ARCHIVE_ENTRIES} entries`);
+  }
+
+  let offset = directoryOffset;
+  let totalUncompressed = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw invalid();
+    }
+
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (compressedSize === 0xffffffff || uncompressedSize === 0xffffffff) {
+      throw unsafe('ZIP64 archives are not supported');
+    }
+    if (/\.(zip|gz|tgz|bz2|xz|7z|rar|tar)$/i.test(name)) {
+      throw unsafe(`contains a nested archive (${name})`);
+    }
+    if (compressedSize > 0 && uncompressedSize / compressedSize > MAX_ARCHIVE_COMPRESSION_RATIO) {
+      throw unsafe(`${name} is compressed more than ${MAX_ARCHIVE_COMPRESSION_RATIO}:1`);
+    }
+
+    totalUncompressed += uncompressedSize;
+    if (totalUncompressed > MAX_ARCHIVE_UNCOMPRESSED_SIZE) {
+      throw unsafe(`extracts to more than ${Math.round(MAX_ARCHIVE_UNCOMPRESSED_SIZE / 1024 / 1024)}MB`);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+}
+
+/**
+ * Check that a file's contents match its declared MIME type
+ *
+ * @returns The bytes to store: sanitized for SVG and HTML, otherwise unchanged
+ * @throws StorageError CONTENT_MISMATCH or UNSAFE_ARCHIVE
+ */
+export function validateFileContent(buffer: Buffer, mimeType: string): Buffer {
+  const mismatch = () => new StorageError(
+    `File contents do not match the declared type "${mimeType}"`,
+    'CONTENT_MISMATCH'
+  );
+
+  const expectedSignature = BINARY_SIGNATURES[mimeType];
+  if (expectedSignature) {
+    if (detectFileSignature(buffer) !== expectedSignature) {
+      throw mismatch();
+    }
+    if (expectedSignature === 'zip') {
+      checkZipArchive(buffer);
+    }
+    return buffer;
+  }
+
+  if (!TEXT_MIME_TYPES.includes(mimeType)) {
+    throw mismatch();
+  }
+
+  const text = decodeText(buffer);
+  if (text === null || detectFileSignature(buffer) !== null) {
+    throw mismatch();
+  }
+
+  switch (mimeType) {
+    case 'application/json':
+      try {
+        JSON.parse(text);
+      } catch {
+        throw mismatch();
+      }
+      return buffer;
+    case 'image/svg+xml': {
+      const svg = sanitizeSvg(text);
+      if (!svg) {
+        throw mismatch();
+      }
+      return Buffer.from(svg, 'utf8');
+    }
+    case 'text/html':
+      return Buffer.from(sanitizeHtml(text), 'utf8');
+    default:
+      return buffer;
+  }
+}
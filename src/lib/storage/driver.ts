@@ -0,0 +1,83 @@
+/**
+ * Storage Driver Interface
+ *
+ * The backend that customer file bytes are kept in. File keys are
+ * forward-slash paths such as `customers/12/logos/1700000000-ab12cd34-logo.png`
+ * and are the same for every driver, so switching drivers only means
+ * copying the objects across.
+ */
+
+/**
+ * Storage error class for specific error handling
+ */
+export class StorageError extends Error {
+  constructor(
+    message: string,
+    public code:
+      | 'INVALID_SIZE'
+      | 'INVALID_TYPE'
+      | 'EXTENSION_MISMATCH' // File extension doesn't match the declared type
+      | 'CONTENT_MISMATCH' // File contents don't match the declared type
+      | 'UNSAFE_ARCHIVE' // ZIP archive looks like a decompression bomb
+      | 'QUOTA_EXCEEDED' // Upload would take the customer over their storage quota
+      | 'NOT_FOUND'
+      | 'WRITE_ERROR'
+      | 'DELETE_ERROR'
+      | 'INVALID_CATEGORY'
+  ) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+/**
+ * Size and timestamps of a stored object
+ */
+export interface StorageObjectStats {
+  size: number;
+  createdAt: Date;
+  modifiedAt: Date;
+}
+
+/**
+ * Key and size of an object returned by a listing
+ */
+export interface StorageObjectSummary {
+  fileKey: string;
+  size: number;
+}
+
+/**
+ * Options for a direct download link
+ */
+export interface DownloadUrlOptions {
+  fileName: string;
+  contentType: string;
+  inline: boolean;
+}
+
+export interface StorageDriver {
+  readonly name: 'local' | 's3';
+
+  /** Store an object, replacing any object with the same key */
+  putObject(fileKey: string, body: Buffer, contentType: string): Promise<void>;
+
+  /** Read an object; throws StorageError NOT_FOUND if it doesn't exist */
+  getObject(fileKey: string): Promise<Buffer>;
+
+  /** Delete an object; deleting a missing object is not an error */
+  deleteObject(fileKey: string): Promise<void>;
+
+  /** Size and timestamps, or null if the object doesn't exist */
+  statObject(fileKey: string): Promise<StorageObjectStats | null>;
+
+  /** Every object whose key starts with the prefix, in no particular order */
+  listObjects(prefix: string): Promise<StorageObjectSummary[]>;
+
+  /**
+   * Short-lived URL the browser can download the object from directly.
+   * Drivers that can't serve files themselves leave this out and the
+   * download route streams the bytes instead.
+   */
+  getDownloadUrl?(fileKey: string, options: DownloadUrlOptions): Promise<string>;
+}
@@ -1,15 +1,37 @@
 /**
  * File Storage Library
  *
- * Local filesystem storage abstraction for customer file management.
- * Handles file uploads, deletions, and path generation with proper
- * customer isolation and conflict-free naming.
+ * Storage abstraction for customer file management. Handles validation,
+ * key generation with proper customer isolation and conflict-free naming,
+ * and hands the bytes to the configured StorageDriver. Uploads are checked
+ * against their declared type by extension and by content (contentValidation.ts),
+ * and logo and photo uploads go through the image pipeline
+ * (lib/imageProcessing.ts) before they are stored.
+ *
+ * Environment variables:
+ * - STORAGE_DRIVER: local | s3 (default: local)
+ * - UPLOAD_DIR: Base directory for the local driver (default: ./uploads)
+ * - S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY: Required for s3
+ * - S3_ENDPOINT: For S3-compatible services such as R2 or MinIO
+ * - S3_PRESIGN_EXPIRES: Download link lifetime in seconds (default: 300)
  */
 
-import { promises as fs } from 'fs';
 import path from 'path';
 import { randomUUID } from 'crypto';
-import type { FileCategory } from '@/types/admin';
+import type { FileCategory, CreateFileVariantInput } from '@/types/admin';
+import { shouldProcessImage, stripImageMetadata, renderImageVariants } from '@/lib/imageProcessing';
+import {
+  StorageError,
+  type StorageDriver,
+  type StorageObjectSummary,
+  type DownloadUrlOptions,
+} from './driver';
+import { createLocalStorageDriver } from './localDriver';
+import { createS3StorageDriver } from './s3Driver';
+import { validateFileContent } from './contentValidation';
+
+export { StorageError };
+export type { StorageDriver, StorageObjectSummary, DownloadUrlOptions };
 
 // Configuration from environment variables
 const UPLOAD_DIR = process.env.UPLOAD_DIR || './uploads';
@@ -19,7 +41,7 @@ const MAX_FILE_SIZE = parseInt(process.env.MAX_FILE_SIZE || '10485760', 10); //
 const VALID_CATEGORIES: FileCategory[] = ['LOGO', 'PHOTO', 'CONTENT', 'DOCUMENT', 'GENERAL'];
 
 // Category to folder mapping (lowercase for filesystem)
-const CATEGORY_FOLDERS: Record<FileCategory, string> = {
+export const CATEGORY_FOLDERS: Record<FileCategory, string> = {
   LOGO: 'logos',
   PHOTO: 'photos',
   CONTENT: 'content',
@@ -73,19 +95,6 @@ const MIME_TYPE_EXTENSIONS: Record<string, string[]> = {
   'application/zip': ['.zip'],
 };
 
-/**
- * Storage error class for specific error handling
- */
-export class StorageError extends Error {
-  constructor(
-    message: string,
-    public code: 'INVALID_SIZE' | 'INVALID_TYPE' | 'NOT_FOUND' | 'WRITE_ERROR' | 'DELETE_ERROR' | 'INVALID_CATEGORY'
-  ) {
-    super(message);
-    this.name = 'StorageError';
-  }
-}
-
 /**
  * File upload result interface
  */
@@ -95,6 +104,8 @@ export interface UploadResult {
   fileSize: number;
   mimeType: string;
   category: FileCategory;
+  // Thumbnail and web-optimized copies, for processed images
+  variants: CreateFileVariantInput[];
 }
 
 /**
@@ -107,26 +118,48 @@ export interface FileInput {
   arrayBuffer: () => Promise<ArrayBuffer>;
 }
 
-/**
- * Get the base upload directory path (absolute)
- */
-function getBaseUploadDir(): string {
-  return path.resolve(process.cwd(), UPLOAD_DIR);
-}
+let storageDriver: StorageDriver | null = null;
 
 /**
- * Get the customer directory path
+ * Build the driver selected by STORAGE_DRIVER
+ *
+ * @throws Error if the s3 driver is selected without its settings
  */
-function getCustomerDir(customerId: number): string {
-  return path.join(getBaseUploadDir(), 'customers', String(customerId));
+function createConfiguredDriver(): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER || 'local';
+
+  if (driver === 'local') {
+    return createLocalStorageDriver(UPLOAD_DIR);
+  }
+
+  if (driver === 's3') {
+    const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error(
+        'S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set when STORAGE_DRIVER=s3'
+      );
+    }
+    return createS3StorageDriver({
+      bucket: S3_BUCKET,
+      region: process.env.S3_REGION || 'us-east-1',
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      presignExpiresIn: parseInt(process.env.S3_PRESIGN_EXPIRES || '300', 10),
+    });
+  }
+
+  throw new Error(`Unknown STORAGE_DRIVER "${driver}". Must be one of: local, s3`);
 }
 
 /**
- * Get the category directory path for a customer
+ * Get the storage driver, created on first use
  */
-function getCategoryDir(customerId: number, category: FileCategory): string {
-  const folder = CATEGORY_FOLDERS[category] || 'general';
-  return path.join(getCustomerDir(customerId), folder);
+export function getStorageDriver(): StorageDriver {
+  if (!storageDriver) {
+    storageDriver = createConfiguredDriver();
+  }
+  return storageDriver;
 }
 
 /**
@@ -147,6 +180,17 @@ function generateUniqueFilename(originalName: string): string {
   return `${timestamp}-${uuid}-${sanitizedBase}${ext}`;
 }
 
+/**
+ * Build the key for a variant of a file, kept in a "variants" folder
+ * next to the original
+ * e.g. customers/1/photos/123-ab-team.jpg -> customers/1/photos/variants/123-ab-team-640w.webp
+ */
+function getVariantFileKey(fileKey: string, suffix: string, extension: string): string {
+  const dir = path.posix.dirname(fileKey);
+  const baseName = path.posix.basename(fileKey, path.posix.extname(fileKey));
+  return `${dir}/variants/${baseName}-${suffix}.${extension}`;
+}
+
 /**
  * Validate file size against MAX_FILE_SIZE
  */
@@ -173,6 +217,20 @@ function validateFileType(mimeType: string, category: FileCategory): void {
   }
 }
 
+/**
+ * Validate that the file extension matches the declared MIME type
+ */
+function validateFileExtension(fileName: string, mimeType: string): void {
+  const ext = path.extname(fileName).toLowerCase();
+  const allowedExtensions = MIME_TYPE_EXTENSIONS[mimeType] || [];
+  if (!allowedExtensions.includes(ext)) {
+    throw new StorageError(
+      `File extension "${ext || '(none)'}" does not match file type "${mimeType}"`,
+      'EXTENSION_MISMATCH'
+    );
+  }
+}
+
 /**
  * Validate category
  */
@@ -186,20 +244,6 @@ function validateCategory(category: string): FileCategory {
   return category as FileCategory;
 }
 
-/**
- * Ensure customer directory structure exists
- * Creates: uploads/customers/{customerId}/{category folders}
- */
-export async function ensureCustomerDir(customerId: number): Promise<void> {
-  const customerDir = getCustomerDir(customerId);
-
-  // Create all category directories
-  for (const category of VALID_CATEGORIES) {
-    const categoryDir = getCategoryDir(customerId, category);
-    await fs.mkdir(categoryDir, { recursive: true });
-  }
-}
-
 /**
  * Upload a file to the storage system
  *
@@ -221,32 +265,33 @@ export async function uploadFile(
 
   // Validate file type
   validateFileType(file.type, validCategory);
-
-  // Ensure customer directory exists
-  await ensureCustomerDir(customerId);
+  validateFileExtension(file.name, file.type);
 
   // Generate unique filename
   const uniqueFilename = generateUniqueFilename(file.name);
 
-  // Build file paths
-  const categoryDir = getCategoryDir(customerId, validCategory);
-  const filePath = path.join(categoryDir, uniqueFilename);
-
-  // Generate file key (relative path from uploads dir for storage in DB)
+  // Generate file key (relative path within storage, saved in DB)
   const fileKey = `customers/${customerId}/${CATEGORY_FOLDERS[validCategory]}/${uniqueFilename}`;
 
+  // Check the bytes match the declared type; SVG and HTML come back sanitized
+  let buffer = validateFileContent(Buffer.from(await file.arrayBuffer()), file.type);
+  const processImage = shouldProcessImage(validCategory, file.type);
+
+  if (processImage) {
+    try {
+      buffer = await stripImageMetadata(buffer, file.type);
+    } catch (error) {
+      console.error('Error processing image:', error);
+      throw new StorageError(
+        `File "${file.name}" is not a valid ${file.type} image`,
+        'INVALID_TYPE'
+      );
+    }
+  }
+
   try {
-    // Get file buffer and write to disk
-    const buffer = Buffer.from(await file.arrayBuffer());
-    await fs.writeFile(filePath, buffer);
-
-    return {
-      fileKey,
-      fileName: file.name,
-      fileSize: file.size,
-      mimeType: file.type,
-      category: validCategory,
-    };
+    // Hand the file to the driver
+    await getStorageDriver().putObject(fileKey, buffer, file.type);
   } catch (error) {
     console.error('Error writing file:', error);
     throw new StorageError(
@@ -254,29 +299,59 @@ export async function uploadFile(
       'WRITE_ERROR'
     );
   }
+
+  return {
+    fileKey,
+    fileName: file.name,
+    fileSize: buffer.length,
+    mimeType: file.type,
+    category: validCategory,
+    variants: processImage ? await storeImageVariants(fileKey, buffer) : [],
+  };
+}
+
+/**
+ * Render and store the variants of an image. The original is already
+ * stored, so a failure here only loses the variants.
+ */
+async function storeImageVariants(
+  fileKey: string,
+  buffer: Buffer
+): Promise<CreateFileVariantInput[]> {
+  const stored: CreateFileVariantInput[] = [];
+
+  try {
+    for (const variant of await renderImageVariants(buffer)) {
+      const variantKey = getVariantFileKey(fileKey, variant.suffix, variant.format);
+      await getStorageDriver().putObject(variantKey, variant.buffer, variant.mimeType);
+
+      stored.push({
+        kind: variant.kind,
+        format: variant.format,
+        width: variant.width,
+        height: variant.height,
+        fileKey: variantKey,
+        fileSize: variant.buffer.length,
+        mimeType: variant.mimeType,
+      });
+    }
+  } catch (error) {
+    console.error(`Error creating image variants for ${fileKey}:`, error);
+  }
+
+  return stored;
 }
 
 /**
  * Delete a file from storage
  *
- * @param fileKey - The file key (relative path from uploads dir)
+ * @param fileKey - The file key (relative path within storage)
  */
 export async function deleteFile(fileKey: string): Promise<void> {
-  const filePath = getFilePath(fileKey);
-
   try {
-    // Check if file exists
-    await fs.access(filePath);
-
-    // Delete the file
-    await fs.unlink(filePath);
+    // Deleting a missing file is a success (idempotent delete)
+    await getStorageDriver().deleteObject(fileKey);
   } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-      // File doesn't exist - consider this a success (idempotent delete)
-      console.warn(`File not found for deletion: ${fileKey}`);
-      return;
-    }
-
     console.error('Error deleting file:', error);
     throw new StorageError(
       'Failed to delete file from storage',
@@ -285,58 +360,31 @@ export async function deleteFile(fileKey: string): Promise<void> {
   }
 }
 
-/**
- * Get the full filesystem path for a file key
- *
- * @param fileKey - The file key (relative path from uploads dir)
- * @returns Absolute filesystem path
- */
-export function getFilePath(fileKey: string): string {
-  return path.join(getBaseUploadDir(), fileKey);
-}
-
 /**
  * Check if a file exists
  *
- * @param fileKey - The file key (relative path from uploads dir)
+ * @param fileKey - The file key (relative path within storage)
  * @returns True if file exists
  */
 export async function fileExists(fileKey: string): Promise<boolean> {
-  try {
-    const filePath = getFilePath(fileKey);
-    await fs.access(filePath);
-    return true;
-  } catch {
-    return false;
-  }
+  return (await getFileStats(fileKey)) !== null;
 }
 
 /**
  * Read a file from storage
  *
- * @param fileKey - The file key (relative path from uploads dir)
+ * @param fileKey - The file key (relative path within storage)
  * @returns File buffer
+ * @throws StorageError NOT_FOUND if the file doesn't exist
  */
 export async function readFile(fileKey: string): Promise<Buffer> {
-  const filePath = getFilePath(fileKey);
-
-  try {
-    return await fs.readFile(filePath);
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-      throw new StorageError(
-        `File not found: ${fileKey}`,
-        'NOT_FOUND'
-      );
-    }
-    throw error;
-  }
+  return getStorageDriver().getObject(fileKey);
 }
 
 /**
  * Get file stats
  *
- * @param fileKey - The file key (relative path from uploads dir)
+ * @param fileKey - The file key (relative path within storage)
  * @returns File stats or null if not found
  */
 export async function getFileStats(fileKey: string): Promise<{
@@ -344,17 +392,29 @@ export async function getFileStats(fileKey: string): Promise<{
   createdAt: Date;
   modifiedAt: Date;
 } | null> {
-  try {
-    const filePath = getFilePath(fileKey);
-    const stats = await fs.stat(filePath);
-    return {
-      size: stats.size,
-      createdAt: stats.birthtime,
-      modifiedAt: stats.mtime,
-    };
-  } catch {
-    return null;
-  }
+  return getStorageDriver().statObject(fileKey);
+}
+
+/**
+ * Get a short-lived direct download URL for a file
+ *
+ * @returns The URL, or null if the driver can't serve files directly
+ */
+export async function getFileDownloadUrl(
+  fileKey: string,
+  options: DownloadUrlOptions
+): Promise<string | null> {
+  const driver = getStorageDriver();
+  return driver.getDownloadUrl ? driver.getDownloadUrl(fileKey, options) : null;
+}
+
+/**
+ * List the stored files and variants of one customer, or of every customer
+ *
+ * @param customerId - Optional customer to limit the listing to
+ */
+export async function listStoredFiles(customerId?: number): Promise<StorageObjectSummary[]> {
+  return getStorageDriver().listObjects(customerId ? `customers/${customerId}/` : 'customers/');
 }
 
 /**
@@ -0,0 +1,107 @@
+/**
+ * Local Filesystem Storage Driver
+ *
+ * Keeps objects as files under a base directory (UPLOAD_DIR), using the
+ * file key as the relative path.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { StorageError, type StorageDriver } from './driver';
+
+/**
+ * Create a driver that stores files under the given directory
+ *
+ * @param baseDir - Upload directory, relative to the working directory or absolute
+ */
+export function createLocalStorageDriver(baseDir: string): StorageDriver {
+  const rootDir = path.resolve(process.cwd(), baseDir);
+
+  // Resolve a file key to a path, refusing keys that escape the upload dir
+  const getFilePath = (fileKey: string): string => {
+    const filePath = path.resolve(rootDir, fileKey);
+    if (!filePath.startsWith(rootDir + path.sep)) {
+      throw new StorageError(`Invalid file key: ${fileKey}`, 'NOT_FOUND');
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+
+    async putObject(fileKey, body) {
+      const filePath = getFilePath(fileKey);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, body);
+    },
+
+    async getObject(fileKey) {
+      try {
+        return await fs.readFile(getFilePath(fileKey));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          throw new StorageError(`File not found: ${fileKey}`, 'NOT_FOUND');
+        }
+        throw error;
+      }
+    },
+
+    async deleteObject(fileKey) {
+      try {
+        await fs.unlink(getFilePath(fileKey));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          // File doesn't exist - consider this a success (idempotent delete)
+          console.warn(`File not found for deletion: ${fileKey}`);
+          return;
+        }
+        throw error;
+      }
+    },
+
+    async statObject(fileKey) {
+      try {
+        const stats = await fs.stat(getFilePath(fileKey));
+        return {
+          size: stats.size,
+          createdAt: stats.birthtime,
+          modifiedAt: stats.mtime,
+        };
+      } catch {
+        return null;
+      }
+    },
+
+    async listObjects(prefix) {
+      const objects: { fileKey: string; size: number }[] = [];
+
+      const walk = async (dir: string): Promise<void> => {
+        let entries;
+        try {
+          entries = await fs.readdir(dir, { withFileTypes: true });
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return;
+          }
+          throw error;
+        }
+
+        for (const entry of entries) {
+          const entryPath = path.join(dir, entry.name);
+          if (entry.isDirectory()) {
+            await walk(entryPath);
+          } else if (entry.isFile()) {
+            const fileKey = path.relative(rootDir, entryPath).split(path.sep).join('/');
+            if (fileKey.startsWith(prefix)) {
+              objects.push({ fileKey, size: (await fs.stat(entryPath)).size });
+            }
+          }
+        }
+      };
+
+      // Only walk the deepest directory the prefix names
+      await walk(path.join(rootDir, prefix.slice(0, prefix.lastIndexOf('/') + 1)));
+      return objects;
+    },
+  };
+}
@@ -0,0 +1,324 @@
+/**
+ * S3-Compatible Storage Driver
+ *
+ * Stores objects in an S3 bucket using plain fetch requests signed with
+ * AWS Signature Version 4, so it works with AWS S3, Cloudflare R2, MinIO
+ * and other S3-compatible services without an SDK. Downloads are served
+ * from presigned URLs so file bytes don't pass through the app.
+ *
+ * With a custom endpoint (R2, MinIO) objects are addressed path-style
+ * (`{endpoint}/{bucket}/{key}`); without one, the AWS virtual-hosted URL
+ * (`https://{bucket}.s3.{region}.amazonaws.com/{key}`) is used.
+ */
+
+import { createHash, createHmac } from 'crypto';
+import {
+  StorageError,
+  type StorageDriver,
+  type StorageObjectSummary,
+  type DownloadUrlOptions,
+} from './driver';
+
+export interface S3DriverConfig {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // e.g. 'https://<account>.r2.cloudflarestorage.com' or 'http://localhost:9000'
+  endpoint?: string;
+  // Lifetime of presigned download URLs, in seconds
+  presignExpiresIn: number;
+}
+
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+// ============================================================================
+// Signature Version 4
+// ============================================================================
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * URI-encode per the SigV4 rules (RFC 3986 unreserved characters only)
+ */
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/**
+ * Format a date as the SigV4 timestamp, e.g. 20260301T120000Z
+ */
+function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+}
+
+function getCanonicalQuery(query: Record<string, string>): string {
+  return Object.keys(query)
+    .sort()
+    .map((key) => `${uriEncode(key)}=${uriEncode(query[key])}`)
+    .join('&');
+}
+
+/**
+ * Compute the SigV4 signature for a canonical request
+ */
+function computeSignature(
+  config: Pick<S3DriverConfig, 'region' | 'secretAccessKey'>,
+  amzDate: string,
+  canonicalRequest: string
+): string {
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join('\n');
+
+  const dateKey = hmac(`AWS4${config.secretAccessKey}`, dateStamp);
+  const regionKey = hmac(dateKey, config.region);
+  const serviceKey = hmac(regionKey, 's3');
+  const signingKey = hmac(serviceKey, 'aws4_request');
+
+  return createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+}
+
+/**
+ * Build a presigned URL for an object
+ *
+ * @param url - The object URL without a query string
+ * @param extraQuery - Additional signed query parameters (e.g. response-content-disposition)
+ */
+export function presignS3Url(
+  config: Pick<S3DriverConfig, 'region' | 'accessKeyId' | 'secretAccessKey'>,
+  method: string,
+  url: URL,
+  expiresIn: number,
+  extraQuery: Record<string, string> = {},
+  now: Date = new Date()
+): string {
+  const amzDate = toAmzDate(now);
+  const scope = `${amzDate.slice(0, 8)}/${config.region}/s3/aws4_request`;
+
+  const query: Record<string, string> = {
+    ...extraQuery,
+    'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+    'X-Amz-Credential': `${config.accessKeyId}/${scope}`,
+    'X-Amz-Date': amzDate,
+    'X-Amz-Expires': String(expiresIn),
+    'X-Amz-SignedHeaders': 'host',
+  };
+  const canonicalQuery = getCanonicalQuery(query);
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQuery,
+    `host:${url.host}\n`,
+    'host',
+    UNSIGNED_PAYLOAD,
+  ].join('\n');
+
+  const signature = computeSignature(config, amzDate, canonicalRequest);
+  return `${url.origin}${url.pathname}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+}
+
+// ============================================================================
+// Driver
+// ============================================================================
+
+/**
+ * Decode the XML entities S3 uses in listing responses
+ */
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read the objects and continuation token from a ListObjectsV2 response
+ */
+function parseListObjectsResponse(xml: string): {
+  objects: StorageObjectSummary[];
+  nextContinuationToken: string | null;
+} {
+  const objects: StorageObjectSummary[] = [];
+  for (const match of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+    const key = /<Key>([\s\S]*?)<\/Key>/.exec(match[1]);
+    const size = /<Size>(\d+)<\/Size>/.exec(match[1]);
+    if (key) {
+      objects.push({ fileKey: decodeXml(key[1]), size: size ? parseInt(size[1], 10) : 0 });
+    }
+  }
+
+  const truncated = /<IsTruncated>true<\/IsTruncated>/.test(xml);
+  const token = /<NextContinuationToken>([\s\S]*?)<\/NextContinuationToken>/.exec(xml);
+
+  return {
+    objects,
+    nextContinuationToken: truncated && token ? decodeXml(token[1]) : null,
+  };
+}
+
+/**
+ * Create a driver that stores files in an S3-compatible bucket
+ */
+export function createS3StorageDriver(config: S3DriverConfig): StorageDriver {
+  const getBucketUrl = (): string => {
+    if (config.endpoint) {
+      return `${config.endpoint.replace(/\/$/, '')}/${uriEncode(config.bucket)}`;
+    }
+    return `https://${config.bucket}.s3.${config.region}.amazonaws.com`;
+  };
+
+  const getObjectUrl = (fileKey: string): URL => {
+    const encodedKey = fileKey.split('/').map(uriEncode).join('/');
+    return new URL(`${getBucketUrl()}/${encodedKey}`);
+  };
+
+  /**
+   * Send a request signed with an Authorization header. Any query string
+   * must already be in canonical form (see getCanonicalQuery).
+   */
+  const s3Fetch = async (
+    method: 'GET' | 'PUT' | 'DELETE' | 'HEAD',
+    url: URL,
+    body?: Buffer,
+    contentType?: string
+  ): Promise<Response> => {
+    const amzDate = toAmzDate(new Date());
+    const payloadHash = sha256Hex(body ?? '');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    if (contentType) {
+      headers['content-type'] = contentType;
+    }
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      url.search.slice(1),
+      signedHeaders.map((name) => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const signature = computeSignature(config, amzDate, canonicalRequest);
+    const scope = `${amzDate.slice(0, 8)}/${config.region}/s3/aws4_request`;
+
+    // fetch sets Host itself from the URL
+    const requestHeaders = Object.fromEntries(
+      Object.entries(headers).filter(([name]) => name !== 'host')
+    );
+
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  };
+
+  return {
+    name: 's3',
+
+    async putObject(fileKey, body, contentType) {
+      const response = await s3Fetch('PUT', getObjectUrl(fileKey), body, contentType);
+      if (!response.ok) {
+        throw new StorageError(
+          `S3 upload failed with status ${response.status}`,
+          'WRITE_ERROR'
+        );
+      }
+    },
+
+    async getObject(fileKey) {
+      const response = await s3Fetch('GET', getObjectUrl(fileKey));
+      if (response.status === 404) {
+        throw new StorageError(`File not found: ${fileKey}`, 'NOT_FOUND');
+      }
+      if (!response.ok) {
+        throw new Error(`S3 download failed with status ${response.status}`);
+      }
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async deleteObject(fileKey) {
+      // S3 answers 204 whether or not the object existed
+      const response = await s3Fetch('DELETE', getObjectUrl(fileKey));
+      if (!response.ok && response.status !== 404) {
+        throw new StorageError(
+          `S3 delete failed with status ${response.status}`,
+          'DELETE_ERROR'
+        );
+      }
+    },
+
+    async statObject(fileKey) {
+      const response = await s3Fetch('HEAD', getObjectUrl(fileKey));
+      if (!response.ok) {
+        return null;
+      }
+      // S3 doesn't keep a separate creation time
+      const modifiedAt = new Date(response.headers.get('last-modified') ?? Date.now());
+      return {
+        size: parseInt(response.headers.get('content-length') ?? '0', 10),
+        createdAt: modifiedAt,
+        modifiedAt,
+      };
+    },
+
+    async listObjects(prefix) {
+      const objects: StorageObjectSummary[] = [];
+      let continuationToken: string | null = null;
+
+      do {
+        const query: Record<string, string> = { 'list-type': '2', prefix };
+        if (continuationToken) {
+          query['continuation-token'] = continuationToken;
+        }
+
+        const url = new URL(`${getBucketUrl()}/?${getCanonicalQuery(query)}`);
+        const response = await s3Fetch('GET', url);
+        if (!response.ok) {
+          throw new Error(`S3 listing failed with status ${response.status}`);
+        }
+
+        const page = parseListObjectsResponse(await response.text());
+        objects.push(...page.objects);
+        continuationToken = page.nextContinuationToken;
+      } while (continuationToken);
+
+      return objects;
+    },
+
+    async getDownloadUrl(fileKey: string, options: DownloadUrlOptions) {
+      const disposition = options.inline ? 'inline' : 'attachment';
+      return presignS3Url(config, 'GET', getObjectUrl(fileKey), config.presignExpiresIn, {
+        'response-content-disposition': `${disposition}; filename="${options.fileName}"`,
+        'response-content-type': options.contentType,
+      });
+    },
+  };
+}
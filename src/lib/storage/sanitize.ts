@@ -0,0 +1,49 @@
+/**
+ * SVG and HTML Sanitization
+ *
+ * Uploaded SVG logos and HTML content are served back from the download
+ * route, so anything that can run script (script tags, event handler
+ * attributes, javascript: links, foreignObject, iframes) is removed with
+ * DOMPurify before the file is stored.
+ */
+
+import { JSDOM } from 'jsdom';
+import createDOMPurify, { type DOMPurify } from 'dompurify';
+
+let purifier: DOMPurify | null = null;
+
+// DOMPurify needs a DOM; create one on first use
+function getPurifier(): DOMPurify {
+  if (!purifier) {
+    purifier = createDOMPurify(new JSDOM('').window);
+  }
+  return purifier;
+}
+
+/**
+ * Sanitize an SVG document
+ *
+ * @returns The sanitized SVG, or an empty string if there was no <svg> element
+ */
+export function sanitizeSvg(svg: string): string {
+  const sanitized = getPurifier().sanitize(svg, {
+    USE_PROFILES: { svg: true, svgFilters: true },
+  });
+
+  // Disallowed elements are removed but their text is kept
+  return /^\s*<svg[\s>]/i.test(sanitized) ? sanitized : '';
+}
+
+/**
+ * Sanitize an HTML document, keeping its <html>, <head> and <body>
+ */
+export function sanitizeHtml(html: string): string {
+  const sanitized = getPurifier().sanitize(html, {
+    WHOLE_DOCUMENT: true,
+    // Forms could post customer visitors' data elsewhere
+    FORBID_TAGS: ['form', 'input', 'button', 'textarea', 'select'],
+  });
+
+  // DOMPurify drops the doctype; keep standards mode for documents that had one
+  return /^\s*<!doctype html/i.test(html) ? `<!DOCTYPE html>\n${sanitized}` : sanitized;
+}
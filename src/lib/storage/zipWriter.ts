@@ -0,0 +1,154 @@
+/**
+ * Streaming ZIP Writer
+ *
+ * Builds a ZIP archive one entry at a time so exports never hold more than
+ * one file in memory. Entries are stored uncompressed: customer assets are
+ * mostly images and PDFs that are already compressed, and storing keeps
+ * the archive quick to produce. Names are written as UTF-8.
+ *
+ * ZIP64 isn't supported, so an archive is limited to 65535 entries and
+ * 4GB, which is well above any customer's storage quota.
+ */
+
+import { crc32 } from 'zlib';
+
+export interface ZipEntry {
+  // Path inside the archive, using forward slashes
+  name: string;
+  data: Buffer;
+  modifiedAt: Date;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const VERSION = 20; // 2.0, the minimum for folders in names
+const UTF8_FLAG = 0x0800;
+const STORED = 0;
+
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+
+interface CentralEntry {
+  name: Buffer;
+  crc: number;
+  size: number;
+  time: number;
+  date: number;
+  offset: number;
+}
+
+/**
+ * Convert a date to the MS-DOS time and date fields ZIP uses
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function localHeader(entry: CentralEntry): Buffer {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(VERSION, 4);
+  header.writeUInt16LE(UTF8_FLAG, 6);
+  header.writeUInt16LE(STORED, 8);
+  header.writeUInt16LE(entry.time, 10);
+  header.writeUInt16LE(entry.date, 12);
+  header.writeUInt32LE(entry.crc, 14);
+  header.writeUInt32LE(entry.size, 18); // Compressed size
+  header.writeUInt32LE(entry.size, 22); // Uncompressed size
+  header.writeUInt16LE(entry.name.length, 26);
+  header.writeUInt16LE(0, 28); // Extra field length
+  return Buffer.concat([header, entry.name]);
+}
+
+function centralHeader(entry: CentralEntry): Buffer {
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(VERSION, 4); // Version made by
+  header.writeUInt16LE(VERSION, 6); // Version needed
+  header.writeUInt16LE(UTF8_FLAG, 8);
+  header.writeUInt16LE(STORED, 10);
+  header.writeUInt16LE(entry.time, 12);
+  header.writeUInt16LE(entry.date, 14);
+  header.writeUInt32LE(entry.crc, 16);
+  header.writeUInt32LE(entry.size, 20);
+  header.writeUInt32LE(entry.size, 24);
+  header.writeUInt16LE(entry.name.length, 28);
+  // Extra field, comment, disk number and attributes are all zero
+  header.writeUInt32LE(entry.offset, 42);
+  return Buffer.concat([header, entry.name]);
+}
+
+function endOfCentralDirectory(entryCount: number, size: number, offset: number): Buffer {
+  const record = Buffer.alloc(22);
+  record.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  record.writeUInt16LE(entryCount, 8); // Entries on this disk
+  record.writeUInt16LE(entryCount, 10); // Total entries
+  record.writeUInt32LE(size, 12);
+  record.writeUInt32LE(offset, 16);
+  return record;
+}
+
+/**
+ * Stream a ZIP archive of the given entries
+ *
+ * Entries are pulled from the iterable only as the consumer reads, so a
+ * slow download never buffers the whole archive.
+ *
+ * @param entries - Files to add, in archive order
+ * @returns A stream of the archive bytes
+ */
+export function createZipStream(entries: AsyncIterable<ZipEntry>): ReadableStream<Uint8Array> {
+  const iterator = entries[Symbol.asyncIterator]();
+  const written: CentralEntry[] = [];
+  let offset = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const next = await iterator.next();
+
+      if (next.done) {
+        const directory = Buffer.concat(written.map(centralHeader));
+        if (offset + directory.length > MAX_OFFSET) {
+          throw new Error('ZIP archive is larger than 4GB');
+        }
+        controller.enqueue(directory);
+        controller.enqueue(endOfCentralDirectory(written.length, directory.length, offset));
+        controller.close();
+        return;
+      }
+
+      if (written.length === MAX_ENTRIES) {
+        throw new Error(`ZIP archive can't hold more than ${MAX_ENTRIES} entries`);
+      }
+
+      const { name, data, modifiedAt } = next.value;
+      const entry: CentralEntry = {
+        name: Buffer.from(name, 'utf8'),
+        crc: crc32(data),
+        size: data.length,
+        ...toDosDateTime(modifiedAt),
+        offset,
+      };
+      const header = localHeader(entry);
+
+      offset += header.length + data.length;
+      if (offset > MAX_OFFSET) {
+        throw new Error('ZIP archive is larger than 4GB');
+      }
+
+      written.push(entry);
+      controller.enqueue(header);
+      controller.enqueue(data);
+    },
+
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
@@ -43,6 +43,12 @@ export const stripe = {
   get billingPortal() {
     return getStripeClient().billingPortal;
   },
+  get refunds() {
+    return getStripeClient().refunds;
+  },
+  get prices() {
+    return getStripeClient().prices;
+  },
 };
 
 // ============================================================================
@@ -92,6 +98,8 @@ export interface CreateCheckoutSessionOptions {
   quantity?: number;
   /** Optional: Allow promotion codes */
   allowPromotionCodes?: boolean;
+  /** Optional: When the session stops accepting payment (30 minutes to 24 hours away) */
+  expiresAt?: Date;
 }
 
 /**
@@ -116,6 +124,8 @@ export interface CreateSubscriptionCheckoutOptions {
   allowPromotionCodes?: boolean;
   /** Optional: Number of days for trial period */
   trialPeriodDays?: number;
+  /** Optional: When the session stops accepting payment (30 minutes to 24 hours away) */
+  expiresAt?: Date;
 }
 
 // ============================================================================
@@ -161,6 +171,7 @@ export async function createCheckoutSession(
     metadata,
     quantity = 1,
     allowPromotionCodes = false,
+    expiresAt,
   } = options;
 
   const sessionParams: Stripe.Checkout.SessionCreateParams = {
@@ -197,6 +208,10 @@ export async function createCheckoutSession(
     };
   }
 
+  if (expiresAt) {
+    sessionParams.expires_at = Math.floor(expiresAt.getTime() / 1000);
+  }
+
   return stripe.checkout.sessions.create(sessionParams);
 }
 
@@ -230,6 +245,7 @@ export async function createSubscriptionCheckout(
     metadata,
     allowPromotionCodes = false,
     trialPeriodDays,
+    expiresAt,
   } = options;
 
   const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [
@@ -276,9 +292,25 @@ export async function createSubscriptionCheckout(
     sessionParams.subscription_data!.trial_period_days = trialPeriodDays;
   }
 
+  if (expiresAt) {
+    sessionParams.expires_at = Math.floor(expiresAt.getTime() / 1000);
+  }
+
   return stripe.checkout.sessions.create(sessionParams);
 }
 
+/**
+ * Expires an open Checkout Session so it can no longer be paid.
+ *
+ * @param sessionId - The Checkout Session ID
+ * @returns The expired session
+ */
+export async function expireCheckoutSession(
+  sessionId: string
+): Promise<Stripe.Checkout.Session> {
+  return stripe.checkout.sessions.expire(sessionId);
+}
+
 // ============================================================================
 // Webhook Helpers
 // ============================================================================
@@ -439,6 +471,91 @@ export async function createBillingPortalSession(
   });
 }
 
+/**
+ * Retrieves a price so its amount can be snapshotted on a payment link.
+ *
+ * @param priceId - The Stripe price ID
+ * @returns The price (unit_amount is in cents)
+ */
+export async function getPrice(priceId: string): Promise<Stripe.Price> {
+  return stripe.prices.retrieve(priceId);
+}
+
+// ============================================================================
+// Refund Helpers
+// ============================================================================
+
+/**
+ * Options for refunding a payment
+ */
+export interface CreateRefundOptions {
+  /** The PaymentIntent that collected the original payment */
+  paymentIntentId: string;
+
+  /** Amount to refund in cents. Omit to refund the remaining balance in full. */
+  amountCents?: number;
+
+  /** Reason shown in the Stripe dashboard */
+  reason?: Stripe.RefundCreateParams.Reason;
+
+  /** Metadata for linking the refund back to our records */
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Refunds a payment in full or in part.
+ *
+ * @param options - Refund configuration
+ * @returns The created refund (status may still be 'pending')
+ *
+ * @example
+ * // Refund $50 of a setup fee
+ * const refund = await createRefund({
+ *   paymentIntentId: 'pi_...',
+ *   amountCents: 5000,
+ *   reason: 'requested_by_customer',
+ *   metadata: { submissionId: '123' },
+ * });
+ */
+export async function createRefund(options: CreateRefundOptions): Promise<Stripe.Refund> {
+  const { paymentIntentId, amountCents, reason, metadata } = options;
+
+  const refundParams: Stripe.RefundCreateParams = {
+    payment_intent: paymentIntentId,
+  };
+
+  // Partial refund when an amount is given
+  if (amountCents !== undefined) {
+    refundParams.amount = amountCents;
+  }
+
+  if (reason) {
+    refundParams.reason = reason;
+  }
+
+  // Add metadata for linking back to our records
+  if (metadata) {
+    refundParams.metadata = metadata;
+  }
+
+  return stripe.refunds.create(refundParams);
+}
+
+/**
+ * Lists all refunds issued against a charge.
+ * Used by the charge.refunded webhook, whose payload does not include them.
+ *
+ * @param chargeId - The Stripe charge ID
+ * @returns Refunds for the charge, newest first
+ */
+export async function listChargeRefunds(chargeId: string): Promise<Stripe.Refund[]> {
+  const refunds = await stripe.refunds.list({
+    charge: chargeId,
+    limit: 100,
+  });
+  return refunds.data;
+}
+
 // ============================================================================
 // Re-export Stripe types for convenience
 // ============================================================================
@@ -0,0 +1,657 @@
+/**
+ * Stripe Webhook Event Processing
+ *
+ * Dispatches verified Stripe events to their handlers and tracks each
+ * attempt in the StripeEvent ledger. Used by the webhook endpoint for live
+ * deliveries and by the admin replay endpoint for failed events.
+ *
+ * Handled events:
+ * - checkout.session.completed: Payment successful (setup fee or subscription)
+ * - invoice.paid: Subscription invoice paid
+ * - invoice.payment_failed: Payment failed
+ * - customer.subscription.deleted: Subscription cancelled
+ * - customer.subscription.updated: Status, period or plan changed
+ * - customer.subscription.paused / resumed: Collection paused or resumed
+ * - customer.subscription.trial_will_end: Trial ends in three days
+ * - invoice.upcoming: Renewal invoice will be created soon
+ * - charge.refunded: Refund issued (from the admin panel or Stripe dashboard)
+ */
+
+import Stripe from 'stripe';
+import { prisma } from '@/lib/db';
+import {
+  startStripeEventAttempt,
+  markStripeEventProcessed,
+  markStripeEventFailed,
+} from '@/lib/admin/stripeEventQueries';
+import { listChargeRefunds } from '@/lib/stripe';
+import { markPaymentLinkUsed } from '@/lib/admin/paymentLinkQueries';
+import {
+  centsToDollars,
+  recordPayment,
+  syncBillingStatusAfterRefund,
+} from '@/lib/admin/paymentQueries';
+import type { Payment } from '@/types/admin';
+import type { BillingStatus, StripeSubscriptionStatus } from '@/types/admin';
+
+/**
+ * Process an event that has been recorded in the ledger.
+ *
+ * The ledger entry is marked PROCESSED on success or FAILED with the error
+ * message, and the error is rethrown so the caller can report it.
+ */
+export async function processStripeEvent(event: Stripe.Event): Promise<void> {
+  await startStripeEventAttempt(event.id);
+
+  try {
+    await dispatchStripeEvent(event);
+    await markStripeEventProcessed(event.id);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    await markStripeEventFailed(event.id, message);
+    throw err;
+  }
+}
+
+/**
+ * Record a Stripe refund in the Payment ledger.
+ *
+ * Upserts on the refund ID, so the admin refund API and the charge.refunded
+ * webhook can both record the same refund without counting it twice.
+ */
+export async function recordStripeRefund(
+  customerId: number,
+  refund: Stripe.Refund
+): Promise<Payment> {
+  const chargeId = typeof refund.charge === 'string' ? refund.charge : refund.charge?.id;
+  const paymentIntentId = typeof refund.payment_intent === 'string'
+    ? refund.payment_intent
+    : refund.payment_intent?.id;
+
+  return recordPayment({
+    customerId,
+    type: 'REFUND',
+    amountCents: refund.amount,
+    currency: refund.currency,
+    description: refund.reason ? `Refund (${refund.reason.replace(/_/g, ' ')})` : 'Refund',
+    stripeRefundId: refund.id,
+    stripeChargeId: chargeId ?? null,
+    stripePaymentIntentId: paymentIntentId ?? null,
+    paidAt: new Date(refund.created * 1000),
+  });
+}
+
+/**
+ * Route an event to its handler based on type
+ */
+async function dispatchStripeEvent(event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    case 'checkout.session.completed':
+      await handleCheckoutSessionCompleted(event.data.object as Stripe.Checkout.Session, event.created);
+      break;
+
+    case 'invoice.paid':
+      await handleInvoicePaid(event.data.object as Stripe.Invoice);
+      break;
+
+    case 'invoice.payment_failed':
+      await handleInvoicePaymentFailed(event.data.object as Stripe.Invoice);
+      break;
+
+    case 'customer.subscription.deleted':
+      await handleSubscriptionDeleted(event.data.object as Stripe.Subscription, event.created);
+      break;
+
+    case 'customer.subscription.updated':
+    case 'customer.subscription.paused':
+    case 'customer.subscription.resumed':
+    case 'customer.subscription.trial_will_end':
+      await handleSubscriptionChanged(event.type, event.data.object as Stripe.Subscription, event.created);
+      break;
+
+    case 'invoice.upcoming':
+      await handleInvoiceUpcoming(event.data.object as Stripe.Invoice);
+      break;
+
+    case 'charge.refunded':
+      await handleChargeRefunded(event.data.object as Stripe.Charge);
+      break;
+
+    default:
+      // Log unhandled events for monitoring but don't error
+      console.log(`Stripe webhook: Unhandled event type ${event.type}`);
+  }
+}
+
+// ============================================================================
+// Event Handlers
+// ============================================================================
+
+/**
+ * Handles checkout.session.completed event.
+ *
+ * This event fires when a customer successfully completes checkout.
+ * The session metadata should contain `submissionId` to link back to
+ * the IntakeSubmission in our database, and `paymentLinkId` for the
+ * PaymentLink the customer paid through, which is marked as used.
+ *
+ * For setup fee payments (mode: 'payment'):
+ * - Records a SETUP_FEE payment in the ledger
+ * - Updates status to 'PAID'
+ * - Records paidAt timestamp
+ * - Links stripeCustomerId
+ *
+ * For subscription payments (mode: 'subscription'):
+ * - Links stripeSubscriptionId
+ * - Sets subscriptionStatus to 'active'
+ * - Updates billingStatus to 'PAID'
+ */
+async function handleCheckoutSessionCompleted(
+  session: Stripe.Checkout.Session,
+  eventCreated: number
+): Promise<void> {
+  const submissionId = session.metadata?.submissionId;
+
+  if (!submissionId) {
+    console.warn(
+      `Stripe webhook: checkout.session.completed without submissionId in metadata [${session.id}]`
+    );
+    return;
+  }
+
+  const submissionIdInt = parseInt(submissionId, 10);
+  if (isNaN(submissionIdInt)) {
+    console.error(
+      `Stripe webhook: Invalid submissionId "${submissionId}" in metadata [${session.id}]`
+    );
+    return;
+  }
+
+  // Verify the submission exists
+  const existingSubmission = await prisma.intakeSubmission.findUnique({
+    where: { id: submissionIdInt },
+  });
+
+  if (!existingSubmission) {
+    console.error(
+      `Stripe webhook: IntakeSubmission not found for id ${submissionIdInt} [${session.id}]`
+    );
+    return;
+  }
+
+  // Mark the payment link that started this checkout as used
+  const paymentLinkId = parseInt(session.metadata?.paymentLinkId ?? '', 10);
+  if (!isNaN(paymentLinkId)) {
+    await markPaymentLinkUsed(paymentLinkId, session.id, new Date());
+  }
+
+  // Determine the payment type from session mode
+  const isSubscription = session.mode === 'subscription';
+  const customerId = typeof session.customer === 'string'
+    ? session.customer
+    : session.customer?.id;
+
+  if (isSubscription) {
+    // Handle subscription checkout completion
+    const subscriptionId = typeof session.subscription === 'string'
+      ? session.subscription
+      : session.subscription?.id;
+
+    await prisma.intakeSubmission.update({
+      where: { id: submissionIdInt },
+      data: {
+        stripeCustomerId: customerId ?? undefined,
+        stripeSubscriptionId: subscriptionId ?? undefined,
+        subscriptionStatus: 'active',
+        billingStatus: 'PAID',
+        updatedAt: new Date(),
+      },
+    });
+
+    console.log(
+      `Stripe webhook: Subscription activated for submission ${submissionIdInt} [${session.id}]`
+    );
+  } else {
+    // Handle one-time payment (setup fee) completion
+    // Record the payment in the ledger (amount_total is in cents)
+    const paymentIntentId = typeof session.payment_intent === 'string'
+      ? session.payment_intent
+      : session.payment_intent?.id;
+
+    await recordPayment({
+      customerId: submissionIdInt,
+      type: 'SETUP_FEE',
+      amountCents: session.amount_total ?? 0,
+      currency: session.currency ?? 'usd',
+      description: 'Website setup fee',
+      stripeCheckoutSessionId: session.id,
+      stripePaymentIntentId: paymentIntentId ?? null,
+      // The session may have been opened hours earlier; the event marks payment
+      paidAt: new Date(eventCreated * 1000),
+    });
+
+    // Keep the original payment date if this session was already applied
+    if (existingSubmission.paidAt) {
+      console.log(
+        `Stripe webhook: Setup fee already recorded for submission ${submissionIdInt}, skipping [${session.id}]`
+      );
+      return;
+    }
+
+    await prisma.intakeSubmission.update({
+      where: { id: submissionIdInt },
+      data: {
+        status: 'PAID',
+        billingStatus: 'PAID',
+        paidAt: new Date(),
+        stripeCustomerId: customerId ?? undefined,
+        updatedAt: new Date(),
+      },
+    });
+
+    console.log(
+      `Stripe webhook: Setup fee paid for submission ${submissionIdInt}, amount: $${centsToDollars(session.amount_total ?? 0)} [${session.id}]`
+    );
+  }
+}
+
+/**
+ * Handles invoice.paid event.
+ *
+ * This event fires when an invoice is successfully paid, typically for
+ * subscription renewals. Records a SUBSCRIPTION payment in the ledger,
+ * updates the lastInvoicePaidAt timestamp and confirms the billing status
+ * is current.
+ */
+async function handleInvoicePaid(invoice: Stripe.Invoice): Promise<void> {
+  // Get the subscription ID from the invoice
+  // In newer Stripe API versions, subscription can be string | Subscription | null
+  const subscriptionRef = invoice.parent?.subscription_details?.subscription;
+  const subscriptionId = typeof subscriptionRef === 'string'
+    ? subscriptionRef
+    : subscriptionRef?.id ?? null;
+
+  if (!subscriptionId) {
+    // This might be a one-time invoice, not subscription-related
+    console.log(
+      `Stripe webhook: invoice.paid without subscription ID [${invoice.id}]`
+    );
+    return;
+  }
+
+  // Find the submission by subscription ID
+  const submission = await prisma.intakeSubmission.findUnique({
+    where: { stripeSubscriptionId: subscriptionId },
+  });
+
+  if (!submission) {
+    console.warn(
+      `Stripe webhook: No submission found for subscription ${subscriptionId} [${invoice.id}]`
+    );
+    return;
+  }
+
+  const invoiceDate = invoice.created ? new Date(invoice.created * 1000) : new Date();
+
+  // Record the invoice payment in the ledger
+  await recordPayment({
+    customerId: submission.id,
+    type: 'SUBSCRIPTION',
+    amountCents: invoice.amount_paid,
+    currency: invoice.currency,
+    description: 'Subscription invoice',
+    stripeInvoiceId: invoice.id,
+    paidAt: invoice.status_transitions?.paid_at
+      ? new Date(invoice.status_transitions.paid_at * 1000)
+      : new Date(),
+  });
+
+  // Ignore invoices delivered out of order after a newer one was recorded
+  if (submission.lastInvoiceDate && submission.lastInvoiceDate > invoiceDate) {
+    console.log(
+      `Stripe webhook: Ignoring older invoice for submission ${submission.id} [${invoice.id}]`
+    );
+    return;
+  }
+
+  // Update the invoice payment tracking
+  await prisma.intakeSubmission.update({
+    where: { id: submission.id },
+    data: {
+      lastInvoicePaidAt: new Date(),
+      lastInvoiceDate: invoiceDate,
+      billingStatus: 'PAID',
+      subscriptionStatus: 'active', // Confirm subscription is active
+      // Payment recovered; stop any dunning reminders
+      paymentFailedAt: null,
+      dunningRemindersSent: 0,
+      dunningReminderFailed: 0,
+      updatedAt: new Date(),
+    },
+  });
+
+  console.log(
+    `Stripe webhook: Invoice paid for submission ${submission.id}, subscription ${subscriptionId} [${invoice.id}]`
+  );
+}
+
+/**
+ * Handles invoice.payment_failed event.
+ *
+ * This event fires when a payment attempt fails. If the invoice is
+ * more than 7 days overdue, we mark the billing status as OVERDUE.
+ * The first failure starts the dunning clock used by the dunning job;
+ * Stripe's later retries don't restart it.
+ */
+async function handleInvoicePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
+  // Get the subscription ID from the invoice
+  const subscriptionRef = invoice.parent?.subscription_details?.subscription;
+  const subscriptionId = typeof subscriptionRef === 'string'
+    ? subscriptionRef
+    : subscriptionRef?.id ?? null;
+
+  if (!subscriptionId) {
+    console.log(
+      `Stripe webhook: invoice.payment_failed without subscription ID [${invoice.id}]`
+    );
+    return;
+  }
+
+  // Find the submission by subscription ID
+  const submission = await prisma.intakeSubmission.findUnique({
+    where: { stripeSubscriptionId: subscriptionId },
+  });
+
+  if (!submission) {
+    console.warn(
+      `Stripe webhook: No submission found for subscription ${subscriptionId} [${invoice.id}]`
+    );
+    return;
+  }
+
+  // Calculate if the invoice is 7+ days overdue
+  const invoiceDueDate = invoice.due_date
+    ? new Date(invoice.due_date * 1000)
+    : (invoice.created ? new Date(invoice.created * 1000) : new Date());
+
+  const now = new Date();
+  const daysSincedue = Math.floor(
+    (now.getTime() - invoiceDueDate.getTime()) / (1000 * 60 * 60 * 24)
+  );
+
+  // Only mark as OVERDUE if 7+ days past due
+  const newBillingStatus = daysSincedue >= 7 ? 'OVERDUE' : submission.billingStatus;
+
+  await prisma.intakeSubmission.update({
+    where: { id: submission.id },
+    data: {
+      billingStatus: newBillingStatus,
+      subscriptionStatus: 'past_due',
+      paymentFailedAt: submission.paymentFailedAt ?? now,
+      updatedAt: new Date(),
+    },
+  });
+
+  console.log(
+    `Stripe webhook: Payment failed for submission ${submission.id}, days overdue: ${daysSincedue}, status: ${newBillingStatus} [${invoice.id}]`
+  );
+}
+
+/**
+ * Handles customer.subscription.deleted event.
+ *
+ * This event fires when a subscription is cancelled, either by the
+ * customer, by you, or automatically due to payment failures.
+ * Updates the subscription status and records the cancellation timestamp.
+ * Cancellation is final, so it applies however late it arrives.
+ */
+async function handleSubscriptionDeleted(
+  subscription: Stripe.Subscription,
+  eventCreated: number
+): Promise<void> {
+  const subscriptionId = subscription.id;
+
+  // Find the submission by subscription ID
+  const submission = await prisma.intakeSubmission.findUnique({
+    where: { stripeSubscriptionId: subscriptionId },
+  });
+
+  if (!submission) {
+    console.warn(
+      `Stripe webhook: No submission found for subscription ${subscriptionId}`
+    );
+    return;
+  }
+
+  const eventAt = new Date(eventCreated * 1000);
+  await prisma.intakeSubmission.update({
+    where: { id: submission.id },
+    data: {
+      subscriptionStatus: 'canceled',
+      subscriptionCanceledAt: new Date(),
+      subscriptionEventAt: submission.subscriptionEventAt && submission.subscriptionEventAt > eventAt
+        ? submission.subscriptionEventAt
+        : eventAt,
+      billingStatus: 'CANCELLED',
+      updatedAt: new Date(),
+    },
+  });
+
+  console.log(
+    `Stripe webhook: Subscription cancelled for submission ${submission.id} [${subscriptionId}]`
+  );
+}
+
+/**
+ * Handles customer.subscription.updated, paused, resumed and trial_will_end.
+ *
+ * All four events carry the full subscription object, so each one syncs
+ * the stored status, current period end and billing status from it.
+ * This also covers plan changes, which arrive as subscription updates
+ * with new items and a new billing period.
+ *
+ * Stripe doesn't guarantee delivery order, so events older than the last
+ * one applied are skipped, and a canceled subscription is never moved
+ * back to an earlier status.
+ */
+async function handleSubscriptionChanged(
+  eventType: string,
+  subscription: Stripe.Subscription,
+  eventCreated: number
+): Promise<void> {
+  const subscriptionId = subscription.id;
+
+  // Find the submission by subscription ID
+  const submission = await prisma.intakeSubmission.findUnique({
+    where: { stripeSubscriptionId: subscriptionId },
+  });
+
+  if (!submission) {
+    console.warn(
+      `Stripe webhook: No submission found for subscription ${subscriptionId} [${eventType}]`
+    );
+    return;
+  }
+
+  const eventAt = new Date(eventCreated * 1000);
+  if (submission.subscriptionEventAt && submission.subscriptionEventAt > eventAt) {
+    console.log(
+      `Stripe webhook: Ignoring older ${eventType} for submission ${submission.id} [${subscriptionId}]`
+    );
+    return;
+  }
+
+  const subscriptionStatus = toSubscriptionStatus(subscription.status);
+  if (submission.subscriptionStatus === 'canceled' && subscriptionStatus !== 'canceled') {
+    console.log(
+      `Stripe webhook: Ignoring ${eventType} for canceled subscription, submission ${submission.id} [${subscriptionId}]`
+    );
+    return;
+  }
+
+  const billingStatus = getBillingStatusForSubscription(
+    subscriptionStatus,
+    submission.billingStatus as BillingStatus
+  );
+
+  await prisma.intakeSubmission.update({
+    where: { id: submission.id },
+    data: {
+      subscriptionStatus,
+      subscriptionCurrentPeriodEnd: getSubscriptionPeriodEnd(subscription),
+      subscriptionCanceledAt: subscription.canceled_at
+        ? new Date(subscription.canceled_at * 1000)
+        : null,
+      subscriptionEventAt: eventAt,
+      billingStatus,
+      updatedAt: new Date(),
+    },
+  });
+
+  console.log(
+    `Stripe webhook: Subscription ${eventType} for submission ${submission.id}, status: ${subscriptionStatus}, billing: ${billingStatus} [${subscriptionId}]`
+  );
+}
+
+/**
+ * Handles invoice.upcoming event.
+ *
+ * Fires a few days before a subscription renews. The upcoming invoice's
+ * period end is the renewal date, so it refreshes subscriptionCurrentPeriodEnd.
+ */
+async function handleInvoiceUpcoming(invoice: Stripe.Invoice): Promise<void> {
+  const subscriptionRef = invoice.parent?.subscription_details?.subscription;
+  const subscriptionId = typeof subscriptionRef === 'string'
+    ? subscriptionRef
+    : subscriptionRef?.id ?? null;
+
+  if (!subscriptionId) {
+    console.log('Stripe webhook: invoice.upcoming without subscription ID');
+    return;
+  }
+
+  // Find the submission by subscription ID
+  const submission = await prisma.intakeSubmission.findUnique({
+    where: { stripeSubscriptionId: subscriptionId },
+  });
+
+  if (!submission) {
+    console.warn(
+      `Stripe webhook: No submission found for subscription ${subscriptionId} [invoice.upcoming]`
+    );
+    return;
+  }
+
+  await prisma.intakeSubmission.update({
+    where: { id: submission.id },
+    data: {
+      subscriptionCurrentPeriodEnd: new Date(invoice.period_end * 1000),
+      updatedAt: new Date(),
+    },
+  });
+
+  console.log(
+    `Stripe webhook: Upcoming invoice for submission ${submission.id}, amount: $${invoice.amount_due / 100} [${subscriptionId}]`
+  );
+}
+
+// ============================================================================
+// Subscription Helpers
+// ============================================================================
+
+/**
+ * Map a Stripe subscription status to the statuses we store.
+ * incomplete_expired subscriptions never started, so they count as canceled.
+ */
+function toSubscriptionStatus(status: Stripe.Subscription.Status): StripeSubscriptionStatus {
+  return status === 'incomplete_expired' ? 'canceled' : status;
+}
+
+/**
+ * Get the end of the current billing period.
+ * Stripe reports the period per subscription item; the latest one wins.
+ */
+function getSubscriptionPeriodEnd(subscription: Stripe.Subscription): Date | null {
+  const periodEnds = subscription.items.data.map((item) => item.current_period_end);
+  return periodEnds.length > 0 ? new Date(Math.max(...periodEnds) * 1000) : null;
+}
+
+/**
+ * Derive the billing status from a subscription status.
+ *
+ * Only statuses that settle the question change it: active means paid,
+ * unpaid means overdue and canceled means cancelled. Trialing, paused,
+ * incomplete and past_due keep the current value; past_due becomes
+ * OVERDUE through invoice.payment_failed once it is 7+ days late.
+ */
+function getBillingStatusForSubscription(
+  status: StripeSubscriptionStatus,
+  current: BillingStatus
+): BillingStatus {
+  switch (status) {
+    case 'active':
+      return 'PAID';
+    case 'unpaid':
+      return 'OVERDUE';
+    case 'canceled':
+      return 'CANCELLED';
+    default:
+      return current;
+  }
+}
+
+/**
+ * Handles charge.refunded event.
+ *
+ * Fires for every refund, whether it was issued from the admin panel or
+ * directly in the Stripe dashboard. The event payload does not list the
+ * refunds, so they are fetched and each one is upserted into the ledger
+ * before the customer's billing status is re-evaluated.
+ */
+async function handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+  const paymentIntentId = typeof charge.payment_intent === 'string'
+    ? charge.payment_intent
+    : charge.payment_intent?.id ?? null;
+  const stripeCustomerId = typeof charge.customer === 'string'
+    ? charge.customer
+    : charge.customer?.id ?? null;
+
+  // Find the customer through the original payment, then the Stripe customer
+  let customerId: number | null = null;
+  if (paymentIntentId) {
+    const originalPayment = await prisma.payment.findFirst({
+      where: { stripePaymentIntentId: paymentIntentId, type: { not: 'REFUND' } },
+      select: { customerId: true },
+    });
+    customerId = originalPayment?.customerId ?? null;
+  }
+  if (customerId === null && stripeCustomerId) {
+    const submission = await prisma.intakeSubmission.findUnique({
+      where: { stripeCustomerId },
+      select: { id: true },
+    });
+    customerId = submission?.id ?? null;
+  }
+
+  if (customerId === null) {
+    console.warn(
+      `Stripe webhook: No customer found for refunded charge [${charge.id}]`
+    );
+    return;
+  }
+
+  // Record every refund that went through (or is still pending)
+  const refunds = await listChargeRefunds(charge.id);
+  for (const refund of refunds) {
+    if (refund.status === 'failed' || refund.status === 'canceled') {
+      continue;
+    }
+    await recordStripeRefund(customerId, refund);
+  }
+
+  await syncBillingStatusAfterRefund(customerId);
+
+  console.log(
+    `Stripe webhook: Charge refunded for submission ${customerId}, amount refunded: $${centsToDollars(charge.amount_refunded)} [${charge.id}]`
+  );
+}
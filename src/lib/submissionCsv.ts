@@ -0,0 +1,234 @@
+/**
+ * Submission CSV Export and Import
+ *
+ * Exports a filtered submission list as CSV for accounting, and turns a
+ * CSV of leads (e.g. from a trade show) into new submissions. Imports map
+ * CSV columns to intake fields, validate every row with the intake form's
+ * rules, and skip rows whose email is already in the database or earlier
+ * in the file. The same plan backs the dry-run preview and the import.
+ */
+
+import { toCsv, toSpreadsheetText } from '@/lib/csv';
+import { validateFormData, toSubmissionData, type IntakeFormData, type SubmissionCreateData } from '@/lib/intake';
+import type { Submission } from '@/lib/admin/queries';
+import type {
+  SubmissionImportField,
+  SubmissionImportMapping,
+  SubmissionImportRow,
+  SubmissionImportRowStatus,
+} from '@/types/admin';
+
+export const MAX_IMPORT_ROWS = 2000;
+
+const EXPORT_COLUMNS: { header: string; value: (submission: Submission) => string | number | null }[] = [
+  { header: 'ID', value: (s) => s.id },
+  { header: 'Created', value: (s) => formatDate(s.createdAt) },
+  { header: 'Full Name', value: (s) => s.fullName },
+  { header: 'Email', value: (s) => s.email },
+  { header: 'Phone', value: (s) => s.phone },
+  { header: 'Business Name', value: (s) => s.businessName },
+  { header: 'Industry', value: (s) => s.industryType },
+  { header: 'Current Website', value: (s) => s.currentWebsite },
+  { header: 'Features', value: (s) => parseFeatures(s.features).join('; ') },
+  { header: 'Other Features', value: (s) => s.otherFeatures },
+  { header: 'Budget', value: (s) => s.budgetRange },
+  { header: 'Timeline', value: (s) => s.timeline },
+  { header: 'Additional Info', value: (s) => s.additionalInfo },
+  { header: 'Status', value: (s) => s.status },
+  { header: 'Project Status', value: (s) => s.projectStatus },
+  { header: 'Billing Status', value: (s) => s.billingStatus },
+  { header: 'Paid', value: (s) => formatDate(s.paidAt) },
+  { header: 'Revenue', value: (s) => (s.totalRevenue ?? 0).toFixed(2) },
+  { header: 'Live URL', value: (s) => s.liveUrl },
+];
+
+// Import fields with the column headers they're matched to automatically,
+// compared without case, spaces or punctuation. Export headers round-trip.
+export const IMPORT_FIELDS: { field: SubmissionImportField; label: string; aliases: string[] }[] = [
+  { field: 'fullName', label: 'Full name', aliases: ['fullname', 'name', 'contactname', 'contact'] },
+  { field: 'email', label: 'Email', aliases: ['email', 'emailaddress', 'mail'] },
+  { field: 'phone', label: 'Phone', aliases: ['phone', 'phonenumber', 'telephone', 'mobile'] },
+  { field: 'businessName', label: 'Business name', aliases: ['businessname', 'business', 'company', 'companyname', 'organization'] },
+  { field: 'industryType', label: 'Industry', aliases: ['industry', 'industrytype'] },
+  { field: 'currentWebsite', label: 'Current website', aliases: ['currentwebsite', 'website', 'url'] },
+  { field: 'hasNoWebsite', label: 'Has no website', aliases: ['hasnowebsite', 'nowebsite'] },
+  { field: 'features', label: 'Features', aliases: ['features'] },
+  { field: 'otherFeatures', label: 'Other features', aliases: ['otherfeatures'] },
+  { field: 'budgetRange', label: 'Budget', aliases: ['budget', 'budgetrange'] },
+  { field: 'timeline', label: 'Timeline', aliases: ['timeline'] },
+  { field: 'additionalInfo', label: 'Additional info', aliases: ['additionalinfo', 'notes', 'comments'] },
+];
+
+const TRUE_VALUES = ['yes', 'y', 'true', '1'];
+const FALSE_VALUES = ['no', 'n', 'false', '0', ''];
+
+function formatDate(date: Date | string | null): string {
+  return date ? new Date(date).toISOString().slice(0, 10) : '';
+}
+
+function parseFeatures(value: string): string[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Build the CSV export of a submission list
+ */
+export function submissionsToCsv(submissions: Submission[]): string {
+  return toCsv([
+    EXPORT_COLUMNS.map((column) => column.header),
+    ...submissions.map((submission) =>
+      EXPORT_COLUMNS.map((column) => toSpreadsheetText(column.value(submission)))
+    ),
+  ]);
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Match CSV headers to import fields by name
+ */
+export function guessImportMapping(headers: string[]): SubmissionImportMapping {
+  const mapping: SubmissionImportMapping = {};
+
+  for (const { field, aliases } of IMPORT_FIELDS) {
+    const header = headers.find((item) => aliases.includes(normalizeHeader(item)));
+    if (header !== undefined) {
+      mapping[field] = header;
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Validate a column mapping sent by the admin against the file's headers
+ */
+export function validateImportMapping(
+  value: unknown,
+  headers: string[]
+): { data: SubmissionImportMapping; error?: undefined } | { data?: undefined; error: string } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'mapping must be an object' };
+  }
+
+  const mapping: SubmissionImportMapping = {};
+  for (const [field, header] of Object.entries(value)) {
+    if (!IMPORT_FIELDS.some((item) => item.field === field)) {
+      return { error: `Unknown import field: ${field}` };
+    }
+    if (header === null || header === '') {
+      continue;
+    }
+    if (typeof header !== 'string' || !headers.includes(header)) {
+      return { error: `Column not found for ${field}: ${String(header)}` };
+    }
+    mapping[field as SubmissionImportField] = header;
+  }
+
+  return { data: mapping };
+}
+
+/**
+ * Read one CSV record into intake form data using the mapping.
+ * Unmapped fields are left out so validation reports missing ones.
+ */
+function toFormData(record: string[], headers: string[], mapping: SubmissionImportMapping): Partial<IntakeFormData> {
+  const data: Record<string, unknown> = {};
+
+  for (const [field, header] of Object.entries(mapping)) {
+    const value = (record[headers.indexOf(header)] ?? '').trim();
+
+    if (field === 'features') {
+      data.features = value.split(/[;\n]/).map((item) => item.trim()).filter(Boolean);
+    } else if (field === 'hasNoWebsite') {
+      const lower = value.toLowerCase();
+      data.hasNoWebsite = TRUE_VALUES.includes(lower) ? true : FALSE_VALUES.includes(lower) ? false : value;
+    } else if (value) {
+      data[field] = value;
+    }
+  }
+
+  return data as Partial<IntakeFormData>;
+}
+
+/**
+ * Decide what happens to each row of an import
+ *
+ * @param records - Parsed CSV records, not including the header
+ * @param headers - The header record
+ * @param mapping - CSV column for each field
+ * @param existingEmails - Lowercased emails already in the database
+ * @returns A preview row for every record, and the submissions to create
+ */
+export function planSubmissionImport(
+  records: string[][],
+  headers: string[],
+  mapping: SubmissionImportMapping,
+  existingEmails: Set<string>
+): { rows: SubmissionImportRow[]; submissions: SubmissionCreateData[]; totals: Record<SubmissionImportRowStatus, number> } {
+  const rows: SubmissionImportRow[] = [];
+  const submissions: SubmissionCreateData[] = [];
+  const totals: Record<SubmissionImportRowStatus, number> = { READY: 0, DUPLICATE: 0, INVALID: 0 };
+  const seenEmails = new Map<string, number>();
+
+  records.forEach((record, index) => {
+    const row = index + 2;
+    const data = toFormData(record, headers, mapping);
+    const errors = validateFormData(data);
+    const email = (data.email ?? '').trim().toLowerCase();
+
+    let status: SubmissionImportRowStatus = 'READY';
+    if (Object.keys(errors).length > 0) {
+      status = 'INVALID';
+    } else if (existingEmails.has(email)) {
+      status = 'DUPLICATE';
+      errors.email = 'A submission with this email already exists';
+    } else if (seenEmails.has(email)) {
+      status = 'DUPLICATE';
+      errors.email = `Same email as row ${seenEmails.get(email)}`;
+    }
+
+    if (email && !seenEmails.has(email)) {
+      seenEmails.set(email, row);
+    }
+
+    if (status === 'READY') {
+      submissions.push(toSubmissionData(data));
+    }
+
+    totals[status]++;
+    rows.push({
+      row,
+      status,
+      fullName: data.fullName ?? '',
+      email: data.email ?? '',
+      businessName: data.businessName ?? '',
+      errors,
+    });
+  });
+
+  return { rows, submissions, totals };
+}
+
+/**
+ * Emails in the records that could be duplicates, for the database lookup
+ */
+export function getImportEmails(records: string[][], headers: string[], mapping: SubmissionImportMapping): string[] {
+  if (!mapping.email) {
+    return [];
+  }
+
+  const column = headers.indexOf(mapping.email);
+  const emails = records
+    .map((record) => (record[column] ?? '').trim().toLowerCase())
+    .filter(Boolean);
+
+  return [...new Set(emails)];
+}
@@ -7,32 +7,14 @@
 
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { jwtVerify } from 'jose';
-
-const COOKIE_NAME = 'admin_session';
+import { SESSION_COOKIE_NAME, verifySessionToken } from '@/lib/auth/token';
 
 /**
- * Get the JWT secret as a Uint8Array for jose library
- */
-function getJwtSecret(): Uint8Array {
-  const secret = process.env.JWT_SECRET;
-  if (!secret) {
-    throw new Error('JWT_SECRET environment variable is not set');
-  }
-  return new TextEncoder().encode(secret);
-}
-
-/**
- * Verify the JWT token from the request cookies
+ * Verify the JWT token from the request cookies, with the same payload
+ * checks as the API routes so legacy tokens without a user are rejected
  */
 async function verifyToken(token: string): Promise<boolean> {
-  try {
-    const secret = getJwtSecret();
-    await jwtVerify(token, secret);
-    return true;
-  } catch {
-    return false;
-  }
+  return (await verifySessionToken(token)) !== null;
 }
 
 export async function middleware(request: NextRequest) {
@@ -46,7 +28,7 @@ export async function middleware(request: NextRequest) {
   // Allow access to login page without authentication
   if (pathname === '/admin/login') {
     // If already authenticated, redirect to dashboard
-    const token = request.cookies.get(COOKIE_NAME)?.value;
+    const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
     if (token) {
       const isValid = await verifyToken(token);
       if (isValid) {
@@ -57,7 +39,7 @@ export async function middleware(request: NextRequest) {
   }
 
   // Check for valid session cookie
-  const token = request.cookies.get(COOKIE_NAME)?.value;
+  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
 
   if (!token) {
     // No token, redirect to login
@@ -70,7 +52,7 @@ export async function middleware(request: NextRequest) {
   if (!isValid) {
     // Invalid token, clear it and redirect to login
     const response = NextResponse.redirect(new URL('/admin/login', request.url));
-    response.cookies.delete(COOKIE_NAME);
+    response.cookies.delete(SESSION_COOKIE_NAME);
     return response;
   }
 
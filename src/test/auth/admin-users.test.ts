@@ -0,0 +1,378 @@
+/**
+ * Tests for Admin User Management
+ *
+ * Tests the GET/POST /api/admin/users and PATCH /api/admin/users/[id]
+ * endpoints, including the guard that keeps one active owner, and the
+ * first-owner bootstrap in authenticateAdminUser.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock Prisma - using factory with hoisted mock
+vi.mock('@/lib/db', () => {
+  const adminUser = {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    count: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+  };
+  return {
+    prisma: {
+      adminUser,
+      // Interactive transactions run against the same mocks
+      $transaction: vi.fn(async (run: (tx: unknown) => Promise<unknown>) => run({ adminUser })),
+    },
+  };
+});
+
+// Spy on password checks, keeping the real hashing
+vi.mock('@/lib/auth/password', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/auth/password')>();
+  return { ...actual, verifyPassword: vi.fn(actual.verifyPassword) };
+});
+
+// Mock authorization, keeping the real bootstrap password check
+vi.mock('@/lib/auth/session', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/auth/session')>()),
+  authorize: vi.fn(),
+}));
+
+// Mock the audit log helper
+vi.mock('@/lib/admin/auditQueries', () => ({
+  recordAuditEvent: vi.fn(),
+}));
+
+import { GET as listGET, POST as createPOST } from '@/app/api/admin/users/route';
+import { PATCH as updatePATCH } from '@/app/api/admin/users/[id]/route';
+import { authenticateAdminUser } from '@/lib/admin/userQueries';
+import { hashPassword, verifyPassword } from '@/lib/auth/password';
+import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/session';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import type { AuthorizationResult } from '@/types/admin';
+
+const AUTHORIZED: AuthorizationResult = {
+  authorized: true,
+  session: { userId: 1, email: 'owner@example.com', name: 'Owner', role: 'OWNER' },
+};
+
+// Cast to get access to mock methods
+const mockAdminUser = prisma.adminUser as unknown as {
+  findMany: ReturnType<typeof vi.fn>;
+  findUnique: ReturnType<typeof vi.fn>;
+  count: ReturnType<typeof vi.fn>;
+  create: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
+};
+
+// Helper to build a stored admin user row (as selected, without the hash)
+const createUserRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 1,
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+  email: 'owner@example.com',
+  name: 'Owner',
+  role: 'OWNER',
+  isActive: true,
+  lastLoginAt: null,
+  ...overrides,
+});
+
+describe('Admin Users API', () => {
+  const mockAuthorize = vi.mocked(authorize);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function callCreate(body: object) {
+    const request = new NextRequest(new URL('/api/admin/users', 'http://localhost'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    return createPOST(request);
+  }
+
+  function callUpdate(id: string, body: object) {
+    const request = new NextRequest(new URL(`/api/admin/users/${id}`, 'http://localhost'), {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    return updatePATCH(request, { params: Promise.resolve({ id }) });
+  }
+
+  describe('GET /api/admin/users', () => {
+    it('should list the users ordered by name', async () => {
+      mockAdminUser.findMany.mockResolvedValue([createUserRow()]);
+
+      const response = await listGET();
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockAuthorize).toHaveBeenCalledWith('users:manage');
+      expect(mockAdminUser.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ orderBy: { name: 'asc' } })
+      );
+      expect(data.data).toHaveLength(1);
+      expect(data.data[0]).not.toHaveProperty('passwordHash');
+    });
+
+    it('should return 403 when the role cannot manage users', async () => {
+      mockAuthorize.mockResolvedValue({ authorized: false, status: 403, error: 'Forbidden' });
+
+      const response = await listGET();
+
+      expect(response.status).toBe(403);
+      expect(mockAdminUser.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/admin/users', () => {
+    const VALID_USER = {
+      email: ' Designer@Example.com ',
+      name: ' Designer ',
+      password: 'long-enough-password',
+      role: 'DESIGNER',
+    };
+
+    beforeEach(() => {
+      mockAdminUser.count.mockResolvedValue(0);
+      mockAdminUser.create.mockImplementation(async ({ data }) =>
+        createUserRow({ id: 2, email: data.email, name: data.name, role: data.role })
+      );
+    });
+
+    it('should create the user with a normalized email and hashed password', async () => {
+      const response = await callCreate(VALID_USER);
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      const { data: created } = mockAdminUser.create.mock.calls[0][0];
+      expect(created).toMatchObject({ email: 'designer@example.com', name: 'Designer', role: 'DESIGNER' });
+      expect(await verifyPassword('long-enough-password', created.passwordHash)).toBe(true);
+      expect(data.data).toMatchObject({ id: 2, email: 'designer@example.com' });
+      expect(vi.mocked(recordAuditEvent)).toHaveBeenCalledWith(
+        expect.anything(),
+        AUTHORIZED.session,
+        expect.objectContaining({ action: 'admin_user.create', entityId: 2 })
+      );
+    });
+
+    it.each([
+      ['an invalid email', { email: 'not-an-email' }, 'A valid email is required'],
+      ['a blank name', { name: '  ' }, 'Name is required'],
+      ['a short password', { password: 'short' }, 'Password must be at least 10 characters'],
+      ['an unknown role', { role: 'ADMIN' }, 'Invalid role'],
+    ])('should return 400 for %s', async (_, overrides, message) => {
+      const response = await callCreate({ ...VALID_USER, ...overrides });
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain(message);
+      expect(mockAdminUser.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when the email is already used', async () => {
+      mockAdminUser.count.mockResolvedValue(1);
+
+      const response = await callCreate(VALID_USER);
+
+      expect(response.status).toBe(409);
+      expect(mockAdminUser.count).toHaveBeenCalledWith({ where: { email: 'designer@example.com' } });
+      expect(mockAdminUser.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/admin/users/[id]', () => {
+    beforeEach(() => {
+      mockAdminUser.findUnique.mockResolvedValue(createUserRow());
+      mockAdminUser.update.mockImplementation(async ({ data }) => createUserRow(data));
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      mockAdminUser.findUnique.mockResolvedValue(null);
+
+      const response = await callUpdate('9', { name: 'Someone' });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 400 when there is nothing to update', async () => {
+      const response = await callUpdate('1', {});
+
+      expect(response.status).toBe(400);
+      expect(mockAdminUser.update).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['demoted', { role: 'SALES' }],
+      ['deactivated', { isActive: false }],
+    ])('should not let the last active owner be %s', async (_, body) => {
+      mockAdminUser.count.mockResolvedValue(1);
+
+      const response = await callUpdate('1', body);
+      const data = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(data.error).toBe('At least one active owner is required');
+      expect(mockAdminUser.count).toHaveBeenCalledWith({ where: { role: 'OWNER', isActive: true } });
+      expect(mockAdminUser.update).not.toHaveBeenCalled();
+    });
+
+    it('should demote an owner while another active owner remains', async () => {
+      mockAdminUser.count.mockResolvedValue(2);
+
+      const response = await callUpdate('1', { role: 'SALES' });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.role).toBe('SALES');
+      expect(vi.mocked(recordAuditEvent)).toHaveBeenCalledWith(
+        expect.anything(),
+        AUTHORIZED.session,
+        expect.objectContaining({ action: 'admin_user.update', entityId: 1 })
+      );
+    });
+
+    it('should deactivate users other than owners without counting owners', async () => {
+      mockAdminUser.findUnique.mockResolvedValue(createUserRow({ id: 2, role: 'DESIGNER' }));
+
+      const response = await callUpdate('2', { isActive: false });
+
+      expect(response.status).toBe(200);
+      expect(mockAdminUser.count).not.toHaveBeenCalled();
+      expect(mockAdminUser.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 2 }, data: { isActive: false } })
+      );
+    });
+
+    it('should re-hash a reset password and only note the change in the audit log', async () => {
+      const response = await callUpdate('1', { password: 'a-brand-new-password' });
+
+      expect(response.status).toBe(200);
+      const { data: updated } = mockAdminUser.update.mock.calls[0][0];
+      expect(await verifyPassword('a-brand-new-password', updated.passwordHash)).toBe(true);
+      expect(vi.mocked(recordAuditEvent)).toHaveBeenCalledWith(
+        expect.anything(),
+        AUTHORIZED.session,
+        expect.objectContaining({
+          action: 'admin_user.reset_password',
+          after: expect.objectContaining({ password: '(changed)' }),
+        })
+      );
+    });
+  });
+});
+
+describe('authenticateAdminUser', () => {
+  const originalPassword = process.env.ADMIN_PASSWORD;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    process.env.ADMIN_PASSWORD = 'bootstrap-password';
+    mockAdminUser.create.mockImplementation(async ({ data }) =>
+      createUserRow({ email: data.email, name: data.name, role: data.role })
+    );
+  });
+
+  afterEach(() => {
+    process.env.ADMIN_PASSWORD = originalPassword;
+    vi.restoreAllMocks();
+  });
+
+  it('should create the first owner from ADMIN_PASSWORD when no users exist', async () => {
+    mockAdminUser.findUnique.mockResolvedValue(null);
+    mockAdminUser.count.mockResolvedValue(0);
+
+    const user = await authenticateAdminUser(' Jane@Example.com ', 'bootstrap-password');
+
+    expect(user).toMatchObject({ email: 'jane@example.com', name: 'jane', role: 'OWNER' });
+    const { data: created } = mockAdminUser.create.mock.calls[0][0];
+    expect(created.role).toBe('OWNER');
+    expect(await verifyPassword('bootstrap-password', created.passwordHash)).toBe(true);
+    expect(vi.mocked(prisma.$transaction)).toHaveBeenCalledWith(
+      expect.any(Function),
+      { isolationLevel: 'Serializable' }
+    );
+  });
+
+  it('should not create a second owner when a concurrent login wins', async () => {
+    mockAdminUser.findUnique.mockResolvedValue(null);
+    mockAdminUser.count.mockResolvedValue(0);
+    vi.mocked(prisma.$transaction).mockRejectedValueOnce(
+      Object.assign(new Error('Transaction failed due to a write conflict'), { code: 'P2034' })
+    );
+
+    const user = await authenticateAdminUser('jane@example.com', 'bootstrap-password');
+
+    expect(user).toBeNull();
+  });
+
+  it('should check a password hash for an unknown email', async () => {
+    mockAdminUser.findUnique.mockResolvedValue(null);
+    mockAdminUser.count.mockResolvedValue(1);
+
+    const user = await authenticateAdminUser('nobody@example.com', 'some-password');
+
+    expect(user).toBeNull();
+    expect(vi.mocked(verifyPassword)).toHaveBeenCalledWith('some-password', expect.stringMatching(/^[0-9a-f]+:[0-9a-f]+$/));
+  });
+
+  it('should not bootstrap with the wrong password', async () => {
+    mockAdminUser.findUnique.mockResolvedValue(null);
+    mockAdminUser.count.mockResolvedValue(0);
+
+    const user = await authenticateAdminUser('jane@example.com', 'wrong-password');
+
+    expect(user).toBeNull();
+    expect(mockAdminUser.create).not.toHaveBeenCalled();
+  });
+
+  it('should not bootstrap once any user exists', async () => {
+    mockAdminUser.findUnique.mockResolvedValue(null);
+    mockAdminUser.count.mockResolvedValue(1);
+
+    const user = await authenticateAdminUser('jane@example.com', 'bootstrap-password');
+
+    expect(user).toBeNull();
+    expect(mockAdminUser.create).not.toHaveBeenCalled();
+  });
+
+  it('should sign in an active user with their password and record the login', async () => {
+    mockAdminUser.findUnique.mockResolvedValue({
+      ...createUserRow(),
+      passwordHash: await hashPassword('owner-password'),
+    });
+    mockAdminUser.update.mockResolvedValue(createUserRow({ lastLoginAt: new Date() }));
+
+    const user = await authenticateAdminUser('owner@example.com', 'owner-password');
+
+    expect(user?.id).toBe(1);
+    expect(mockAdminUser.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 1 }, data: { lastLoginAt: expect.any(Date) } })
+    );
+  });
+
+  it('should not sign in a deactivated user', async () => {
+    mockAdminUser.findUnique.mockResolvedValue({
+      ...createUserRow({ isActive: false }),
+      passwordHash: await hashPassword('owner-password'),
+    });
+
+    const user = await authenticateAdminUser('owner@example.com', 'owner-password');
+
+    expect(user).toBeNull();
+    expect(mockAdminUser.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Tests for Cron Authentication
+ *
+ * Tests the bearer secret check shared by the /api/cron endpoints.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { authorizeCron } from '@/lib/auth/cron';
+
+function createRequest(authorization?: string): NextRequest {
+  return new NextRequest(new URL('/api/cron/dunning', 'http://localhost'), {
+    method: 'POST',
+    headers: authorization ? { Authorization: authorization } : {},
+  });
+}
+
+describe('authorizeCron', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should accept the configured secret', () => {
+    vi.stubEnv('CRON_SECRET', 'cron-secret');
+
+    expect(authorizeCron(createRequest('Bearer cron-secret'))).toBe(true);
+  });
+
+  it.each([
+    ['a wrong secret', 'Bearer wrong'],
+    ['a longer secret', 'Bearer cron-secret-and-more'],
+    ['the secret without the scheme', 'cron-secret'],
+    ['no header', undefined],
+  ])('should reject %s', (_, authorization) => {
+    vi.stubEnv('CRON_SECRET', 'cron-secret');
+
+    expect(authorizeCron(createRequest(authorization))).toBe(false);
+  });
+
+  it('should reject everything when no secret is configured', () => {
+    vi.stubEnv('CRON_SECRET', '');
+
+    expect(authorizeCron(createRequest('Bearer '))).toBe(false);
+    expect(authorizeCron(createRequest())).toBe(false);
+  });
+});
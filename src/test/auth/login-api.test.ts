@@ -8,16 +8,40 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // Mock the session utilities
 vi.mock('@/lib/auth/session', () => ({
-  validatePassword: vi.fn(),
   createSession: vi.fn(),
   setSessionCookie: vi.fn(),
 }));
 
+// Mock the admin user queries
+vi.mock('@/lib/admin/userQueries', () => ({
+  authenticateAdminUser: vi.fn(),
+}));
+
 import { POST } from '@/app/api/admin/auth/login/route';
-import { validatePassword, createSession, setSessionCookie } from '@/lib/auth/session';
+import { createSession, setSessionCookie } from '@/lib/auth/session';
+import { authenticateAdminUser } from '@/lib/admin/userQueries';
+
+const mockUser = {
+  id: 1,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  email: 'owner@example.com',
+  name: 'Owner',
+  role: 'OWNER' as const,
+  isActive: true,
+  lastLoginAt: null,
+};
+
+function createLoginRequest(body: Record<string, unknown>): Request {
+  return new Request('http://localhost/api/admin/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
 
 describe('Login API Route', () => {
-  const mockValidatePassword = vi.mocked(validatePassword);
+  const mockAuthenticateAdminUser = vi.mocked(authenticateAdminUser);
   const mockCreateSession = vi.mocked(createSession);
   const mockSetSessionCookie = vi.mocked(setSessionCookie);
 
@@ -29,14 +53,17 @@ describe('Login API Route', () => {
     vi.resetAllMocks();
   });
 
-  it('should return 400 when password is not provided', async () => {
-    const request = new Request('http://localhost/api/admin/auth/login', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({}),
-    });
+  it('should return 400 when email is not provided', async () => {
+    const response = await POST(createLoginRequest({ password: 'secret' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.success).toBe(false);
+    expect(data.message).toBe('Email is required');
+  });
 
-    const response = await POST(request);
+  it('should return 400 when password is not provided', async () => {
+    const response = await POST(createLoginRequest({ email: 'owner@example.com' }));
     const data = await response.json();
 
     expect(response.status).toBe(400);
@@ -45,13 +72,7 @@ describe('Login API Route', () => {
   });
 
   it('should return 400 when password is not a string', async () => {
-    const request = new Request('http://localhost/api/admin/auth/login', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ password: 123 }),
-    });
-
-    const response = await POST(request);
+    const response = await POST(createLoginRequest({ email: 'owner@example.com', password: 123 }));
     const data = await response.json();
 
     expect(response.status).toBe(400);
@@ -59,57 +80,45 @@ describe('Login API Route', () => {
     expect(data.message).toBe('Password is required');
   });
 
-  it('should return 401 for invalid password', async () => {
-    mockValidatePassword.mockReturnValue(false);
+  it('should return 401 for invalid credentials', async () => {
+    mockAuthenticateAdminUser.mockResolvedValue(null);
 
-    const request = new Request('http://localhost/api/admin/auth/login', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ password: 'wrong-password' }),
-    });
-
-    const response = await POST(request);
+    const response = await POST(
+      createLoginRequest({ email: 'owner@example.com', password: 'wrong-password' })
+    );
     const data = await response.json();
 
     expect(response.status).toBe(401);
     expect(data.success).toBe(false);
-    expect(data.message).toBe('Invalid password');
-    expect(mockValidatePassword).toHaveBeenCalledWith('wrong-password');
+    expect(data.message).toBe('Invalid email or password');
+    expect(mockAuthenticateAdminUser).toHaveBeenCalledWith('owner@example.com', 'wrong-password');
+    expect(mockCreateSession).not.toHaveBeenCalled();
   });
 
-  it('should return 200 and set cookie for valid password', async () => {
-    mockValidatePassword.mockReturnValue(true);
+  it('should return 200 and set cookie for valid credentials', async () => {
+    mockAuthenticateAdminUser.mockResolvedValue(mockUser);
     mockCreateSession.mockResolvedValue('mock-jwt-token');
     mockSetSessionCookie.mockResolvedValue(undefined);
 
-    const request = new Request('http://localhost/api/admin/auth/login', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ password: 'correct-password' }),
-    });
-
-    const response = await POST(request);
+    const response = await POST(
+      createLoginRequest({ email: 'owner@example.com', password: 'correct-password' })
+    );
     const data = await response.json();
 
     expect(response.status).toBe(200);
     expect(data.success).toBe(true);
     expect(data.message).toBe('Login successful');
-    expect(mockValidatePassword).toHaveBeenCalledWith('correct-password');
-    expect(mockCreateSession).toHaveBeenCalled();
+    expect(mockCreateSession).toHaveBeenCalledWith(mockUser);
     expect(mockSetSessionCookie).toHaveBeenCalledWith('mock-jwt-token');
   });
 
   it('should return 500 when an error occurs', async () => {
-    mockValidatePassword.mockReturnValue(true);
+    mockAuthenticateAdminUser.mockResolvedValue(mockUser);
     mockCreateSession.mockRejectedValue(new Error('Test error'));
 
-    const request = new Request('http://localhost/api/admin/auth/login', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ password: 'correct-password' }),
-    });
-
-    const response = await POST(request);
+    const response = await POST(
+      createLoginRequest({ email: 'owner@example.com', password: 'correct-password' })
+    );
     const data = await response.json();
 
     expect(response.status).toBe(500);
@@ -1,8 +1,8 @@
 /**
  * Tests for Admin Route Protection Middleware
  *
- * Tests that the middleware correctly protects admin routes
- * and allows access to the login page.
+ * Tests that the middleware correctly protects admin routes, allows access
+ * to the login page, and rejects tokens without a per-user session payload.
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
@@ -16,6 +16,12 @@ vi.mock('jose', () => ({
 import { middleware } from '@/middleware';
 import { jwtVerify } from 'jose';
 
+// Payload of a per-user session token
+const SESSION_PAYLOAD = { userId: 1, email: 'owner@example.com', name: 'Owner', role: 'OWNER' };
+
+// Payload of a token from the old shared-password login
+const LEGACY_PAYLOAD = { role: 'admin' };
+
 describe('Admin Middleware', () => {
   const mockJwtVerify = vi.mocked(jwtVerify);
 
@@ -67,7 +73,7 @@ describe('Admin Middleware', () => {
     });
 
     it('should redirect authenticated users from login to dashboard', async () => {
-      mockJwtVerify.mockResolvedValue({ payload: { role: 'admin' } } as never);
+      mockJwtVerify.mockResolvedValue({ payload: SESSION_PAYLOAD } as never);
 
       const request = createRequest('/admin/login', 'valid-token');
       const response = await middleware(request);
@@ -78,6 +84,15 @@ describe('Admin Middleware', () => {
       );
     });
 
+    it('should allow access to login with a legacy token', async () => {
+      mockJwtVerify.mockResolvedValue({ payload: LEGACY_PAYLOAD } as never);
+
+      const request = createRequest('/admin/login', 'legacy-token');
+      const response = await middleware(request);
+
+      expect(response.status).toBe(200);
+    });
+
     it('should allow access to login if token is invalid', async () => {
       mockJwtVerify.mockRejectedValue(new Error('Invalid token'));
 
@@ -111,8 +126,21 @@ describe('Admin Middleware', () => {
       );
     });
 
+    it('should redirect to login and clear a legacy token', async () => {
+      mockJwtVerify.mockResolvedValue({ payload: LEGACY_PAYLOAD } as never);
+
+      const request = createRequest('/admin/dashboard', 'legacy-token');
+      const response = await middleware(request);
+
+      expect(response.status).toBe(307);
+      expect(response.headers.get('location')).toBe(
+        'http://localhost/admin/login'
+      );
+      expect(response.cookies.get('admin_session')?.value).toBe('');
+    });
+
     it('should allow access when token is valid', async () => {
-      mockJwtVerify.mockResolvedValue({ payload: { role: 'admin' } } as never);
+      mockJwtVerify.mockResolvedValue({ payload: SESSION_PAYLOAD } as never);
 
       const request = createRequest('/admin/dashboard', 'valid-token');
       const response = await middleware(request);
@@ -0,0 +1,49 @@
+/**
+ * Tests for Password Hashing Utilities
+ *
+ * Tests hashing admin passwords with scrypt and verifying them against
+ * stored "<salt>:<hash>" strings.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { hashPassword, verifyPassword } from '@/lib/auth/password';
+
+describe('Password Utilities', () => {
+  describe('hashPassword', () => {
+    it('should store a hex salt and hash', async () => {
+      const stored = await hashPassword('correct horse battery');
+
+      expect(stored).toMatch(/^[0-9a-f]{32}:[0-9a-f]{128}$/);
+      expect(stored).not.toContain('correct horse battery');
+    });
+
+    it('should use a new salt for every hash', async () => {
+      const first = await hashPassword('correct horse battery');
+      const second = await hashPassword('correct horse battery');
+
+      expect(first).not.toBe(second);
+    });
+  });
+
+  describe('verifyPassword', () => {
+    it('should accept the password that was hashed', async () => {
+      const stored = await hashPassword('correct horse battery');
+
+      expect(await verifyPassword('correct horse battery', stored)).toBe(true);
+    });
+
+    it('should reject a different password', async () => {
+      const stored = await hashPassword('correct horse battery');
+
+      expect(await verifyPassword('correct horse staple', stored)).toBe(false);
+    });
+
+    it.each([
+      ['an empty hash', ''],
+      ['a hash without a salt', ':abcdef'],
+      ['a hash without a separator', 'abcdef0123456789'],
+    ])('should reject %s', async (_, stored) => {
+      expect(await verifyPassword('correct horse battery', stored)).toBe(false);
+    });
+  });
+});
@@ -2,7 +2,7 @@
  * Tests for JWT Session Utilities
  *
  * Tests the core authentication functions: token creation, verification,
- * and password validation.
+ * password validation, and authorization against the user's current account.
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
@@ -16,12 +16,49 @@ vi.mock('next/headers', () => ({
   })),
 }));
 
+// Mock Prisma - using factory with hoisted mock
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    adminUser: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
 // Import after mocking
+import { cookies } from 'next/headers';
+import { prisma } from '@/lib/db';
+import { SignJWT } from 'jose';
 import {
   createSession,
   verifySession,
   validatePassword,
+  authorize,
 } from '@/lib/auth/session';
+import type { AdminUser } from '@/types/admin';
+
+const ownerUser: Pick<AdminUser, 'id' | 'email' | 'name' | 'role'> = {
+  id: 1,
+  email: 'owner@example.com',
+  name: 'Owner',
+  role: 'OWNER',
+};
+
+const designerUser: Pick<AdminUser, 'id' | 'email' | 'name' | 'role'> = {
+  id: 2,
+  email: 'designer@example.com',
+  name: 'Designer',
+  role: 'DESIGNER',
+};
+
+// Make the mocked cookie store return the given session token
+function mockSessionCookie(token: string | undefined) {
+  vi.mocked(cookies).mockResolvedValue({
+    get: vi.fn(() => (token ? { name: 'admin_session', value: token } : undefined)),
+    set: vi.fn(),
+    delete: vi.fn(),
+  } as unknown as Awaited<ReturnType<typeof cookies>>);
+}
 
 describe('Session Utilities', () => {
   const originalEnv = process.env;
@@ -43,7 +80,7 @@ describe('Session Utilities', () => {
 
   describe('createSession', () => {
     it('should create a valid JWT token', async () => {
-      const token = await createSession();
+      const token = await createSession(ownerUser);
 
       expect(token).toBeDefined();
       expect(typeof token).toBe('string');
@@ -54,7 +91,7 @@ describe('Session Utilities', () => {
     it('should throw error when JWT_SECRET is not set', async () => {
       delete process.env.JWT_SECRET;
 
-      await expect(createSession()).rejects.toThrow(
+      await expect(createSession(ownerUser)).rejects.toThrow(
         'JWT_SECRET environment variable is not set'
       );
     });
@@ -62,7 +99,7 @@ describe('Session Utilities', () => {
     it('should throw error when JWT_SECRET is too short', async () => {
       process.env.JWT_SECRET = 'short';
 
-      await expect(createSession()).rejects.toThrow(
+      await expect(createSession(ownerUser)).rejects.toThrow(
         'JWT_SECRET must be at least 32 characters long'
       );
     });
@@ -70,12 +107,27 @@ describe('Session Utilities', () => {
 
   describe('verifySession', () => {
     it('should verify a valid token', async () => {
-      const token = await createSession();
+      const token = await createSession(ownerUser);
       const result = await verifySession(token);
 
       expect(result.isValid).toBe(true);
       expect(result.payload).toBeDefined();
-      expect(result.payload?.role).toBe('admin');
+      expect(result.payload?.role).toBe('OWNER');
+      expect(result.payload?.userId).toBe(1);
+      expect(result.payload?.email).toBe('owner@example.com');
+    });
+
+    it('should reject a legacy shared-password token without a user id', async () => {
+      const secret = new TextEncoder().encode(process.env.JWT_SECRET);
+      const legacyToken = await new SignJWT({ role: 'admin' })
+        .setProtectedHeader({ alg: 'HS256' })
+        .setIssuedAt()
+        .setExpirationTime('1h')
+        .sign(secret);
+
+      const result = await verifySession(legacyToken);
+
+      expect(result.isValid).toBe(false);
     });
 
     it('should reject an invalid token', async () => {
@@ -86,7 +138,7 @@ describe('Session Utilities', () => {
     });
 
     it('should reject a token signed with different secret', async () => {
-      const token = await createSession();
+      const token = await createSession(ownerUser);
 
       // Change the secret
       process.env.JWT_SECRET = 'different-secret-that-is-at-least-32-characters';
@@ -137,4 +189,79 @@ describe('Session Utilities', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('authorize', () => {
+    const mockFindUser = vi.mocked(prisma.adminUser.findUnique);
+
+    // Make the stored account match the given user
+    function mockAccount(user: Pick<AdminUser, 'email' | 'name' | 'role'>, isActive = true) {
+      mockFindUser.mockResolvedValue({ email: user.email, name: user.name, role: user.role, isActive } as never);
+    }
+
+    beforeEach(() => {
+      mockAccount(designerUser);
+    });
+
+    it('should return 401 when there is no session cookie', async () => {
+      mockSessionCookie(undefined);
+
+      const result = await authorize('files:upload');
+
+      expect(result).toEqual({ authorized: false, status: 401, error: 'Unauthorized' });
+    });
+
+    it('should return 403 when the role lacks the permission', async () => {
+      mockSessionCookie(await createSession(designerUser));
+
+      const result = await authorize('billing:manage');
+
+      expect(result).toEqual({ authorized: false, status: 403, error: 'Forbidden' });
+    });
+
+    it('should authorize when the role grants the permission', async () => {
+      mockSessionCookie(await createSession(designerUser));
+
+      const result = await authorize('deployments:manage');
+
+      expect(result.authorized).toBe(true);
+      if (result.authorized) {
+        expect(result.session.userId).toBe(2);
+        expect(result.session.role).toBe('DESIGNER');
+      }
+      expect(mockFindUser).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 2 } }));
+    });
+
+    it('should return 401 once the user has been deactivated', async () => {
+      mockSessionCookie(await createSession(designerUser));
+      mockAccount(designerUser, false);
+
+      const result = await authorize('deployments:manage');
+
+      expect(result).toEqual({ authorized: false, status: 401, error: 'Unauthorized' });
+    });
+
+    it('should return 401 once the user has been deleted', async () => {
+      mockSessionCookie(await createSession(designerUser));
+      mockFindUser.mockResolvedValue(null);
+
+      const result = await authorize('deployments:manage');
+
+      expect(result).toEqual({ authorized: false, status: 401, error: 'Unauthorized' });
+    });
+
+    it("should use the account's current role instead of the one in the token", async () => {
+      mockSessionCookie(await createSession(ownerUser));
+      mockAccount({ ...ownerUser, name: 'Former Owner', role: 'SALES' });
+
+      const denied = await authorize('users:manage');
+      const allowed = await authorize('submissions:edit');
+
+      expect(denied).toEqual({ authorized: false, status: 403, error: 'Forbidden' });
+      expect(allowed.authorized).toBe(true);
+      if (allowed.authorized) {
+        expect(allowed.session.role).toBe('SALES');
+        expect(allowed.session.name).toBe('Former Owner');
+      }
+    });
+  });
 });
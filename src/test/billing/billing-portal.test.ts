@@ -0,0 +1,244 @@
+/**
+ * Tests for Billing Portal Links
+ *
+ * Tests the POST /api/admin/customers/[id]/billing-portal-link endpoint and
+ * the public POST /api/billing/[token] portal session endpoint.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock Prisma - using factory with hoisted mock
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    intakeSubmission: {
+      findUnique: vi.fn(),
+    },
+    billingPortalLink: {
+      create: vi.fn(async ({ data }) => ({
+        id: 5,
+        createdAt: new Date(),
+        revokedAt: null,
+        lastUsedAt: null,
+        ...data,
+      })),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+// Mock Stripe helpers
+vi.mock('@/lib/stripe', () => ({
+  createBillingPortalSession: vi.fn(),
+}));
+
+// Mock the session utilities
+vi.mock('@/lib/auth/session', () => ({
+  authorize: vi.fn(),
+}));
+
+// Mock the audit log helper
+vi.mock('@/lib/admin/auditQueries', () => ({
+  recordAuditEvent: vi.fn(),
+}));
+
+// Mock email sending
+vi.mock('@/lib/email', () => ({
+  sendEmail: vi.fn(),
+  getBillingPortalEmailTemplate: vi.fn(() => ({ subject: 'Subject', html: '<p>Body</p>' })),
+}));
+
+import { POST as generatePOST } from '@/app/api/admin/customers/[id]/billing-portal-link/route';
+import { POST as portalPOST } from '@/app/api/billing/[token]/route';
+import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/session';
+import { createBillingPortalSession } from '@/lib/stripe';
+import { sendEmail, getBillingPortalEmailTemplate } from '@/lib/email';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import type { AuthorizationResult } from '@/types/admin';
+
+const AUTHORIZED: AuthorizationResult = {
+  authorized: true,
+  session: { userId: 3, email: 'billing@example.com', name: 'Billing', role: 'BILLING' },
+};
+
+const TOKEN = 'b1b2c3d4-e5f6-7890-abcd-ef1234567890';
+
+// Cast to get access to mock methods
+const mockSubmission = prisma.intakeSubmission as unknown as {
+  findUnique: ReturnType<typeof vi.fn>;
+};
+const mockPortalLink = prisma.billingPortalLink as unknown as {
+  create: ReturnType<typeof vi.fn>;
+  findUnique: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
+  updateMany: ReturnType<typeof vi.fn>;
+};
+
+// Helper to build a stored billing portal link row
+const createLinkRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 5,
+  createdAt: new Date('2026-01-01'),
+  customerId: 1,
+  token: TOKEN,
+  expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  revokedAt: null,
+  lastUsedAt: null,
+  createdById: 3,
+  createdByName: 'Billing',
+  ...overrides,
+});
+
+describe('Billing Portal Link API - POST', () => {
+  const mockAuthorize = vi.mocked(authorize);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+    mockSubmission.findUnique.mockResolvedValue({
+      id: 1,
+      fullName: 'Jane Doe',
+      email: 'jane@example.com',
+      stripeCustomerId: 'cus_123',
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function callGenerate(body?: object) {
+    const request = new NextRequest(
+      new URL('/api/admin/customers/1/billing-portal-link', 'http://localhost'),
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      }
+    );
+    return generatePOST(request, { params: Promise.resolve({ id: '1' }) });
+  }
+
+  it('should return 403 when the role cannot manage billing', async () => {
+    mockAuthorize.mockResolvedValue({ authorized: false, status: 403, error: 'Forbidden' });
+
+    const response = await callGenerate();
+
+    expect(response.status).toBe(403);
+    expect(mockAuthorize).toHaveBeenCalledWith('billing:manage');
+  });
+
+  it('should return 409 when the customer has no Stripe customer', async () => {
+    mockSubmission.findUnique.mockResolvedValue({
+      id: 1,
+      fullName: 'Jane Doe',
+      email: 'jane@example.com',
+      stripeCustomerId: null,
+    });
+
+    const response = await callGenerate();
+
+    expect(response.status).toBe(409);
+    expect(mockPortalLink.create).not.toHaveBeenCalled();
+  });
+
+  it('should replace earlier links and email the new one', async () => {
+    vi.mocked(sendEmail).mockResolvedValue(true);
+
+    const response = await callGenerate({ sendEmail: true });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockPortalLink.updateMany).toHaveBeenCalledWith({
+      where: { customerId: 1, revokedAt: null, expiresAt: { gt: expect.any(Date) } },
+      data: { revokedAt: expect.any(Date) },
+    });
+    const { data: created } = mockPortalLink.create.mock.calls[0][0];
+    expect(created).toEqual(
+      expect.objectContaining({ customerId: 1, createdById: 3, createdByName: 'Billing' })
+    );
+    expect(data.url).toBe(`http://localhost:3000/billing/${created.token}`);
+    expect(data.emailSent).toBe(true);
+    expect(vi.mocked(getBillingPortalEmailTemplate)).toHaveBeenCalledWith(
+      'Jane Doe',
+      data.url,
+      created.expiresAt
+    );
+    expect(vi.mocked(sendEmail)).toHaveBeenCalledWith('jane@example.com', 'Subject', '<p>Body</p>');
+    expect(vi.mocked(recordAuditEvent)).toHaveBeenCalledWith(
+      expect.anything(),
+      AUTHORIZED.session,
+      expect.objectContaining({ action: 'billing_portal_link.generate', entityId: 5, customerId: 1 })
+    );
+  });
+});
+
+describe('Billing Portal Session API - POST', () => {
+  const mockCreatePortalSession = vi.mocked(createBillingPortalSession);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockSubmission.findUnique.mockResolvedValue({ id: 1, stripeCustomerId: 'cus_123' });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function callPortal(token = TOKEN) {
+    const request = new NextRequest(new URL(`/api/billing/${token}`, 'http://localhost'), {
+      method: 'POST',
+    });
+    return portalPOST(request, { params: Promise.resolve({ token }) });
+  }
+
+  it('should return 404 for an unknown token', async () => {
+    mockPortalLink.findUnique.mockResolvedValue(null);
+
+    const response = await callPortal();
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 410 for an expired link', async () => {
+    mockPortalLink.findUnique.mockResolvedValue(
+      createLinkRow({ expiresAt: new Date(Date.now() - 1000) })
+    );
+
+    const response = await callPortal();
+
+    expect(response.status).toBe(410);
+    expect(mockCreatePortalSession).not.toHaveBeenCalled();
+  });
+
+  it('should return 410 for a link replaced by a newer one', async () => {
+    mockPortalLink.findUnique.mockResolvedValue(createLinkRow({ revokedAt: new Date() }));
+
+    const response = await callPortal();
+
+    expect(response.status).toBe(410);
+  });
+
+  it('should open the portal for the customer and return to the billing page', async () => {
+    mockPortalLink.findUnique.mockResolvedValue(createLinkRow());
+    mockCreatePortalSession.mockResolvedValue({ url: 'https://billing.stripe.com/p/session' } as never);
+
+    const response = await callPortal();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.url).toBe('https://billing.stripe.com/p/session');
+    expect(mockCreatePortalSession).toHaveBeenCalledWith(
+      'cus_123',
+      `http://localhost:3000/billing/${TOKEN}`
+    );
+    expect(mockPortalLink.update).toHaveBeenCalledWith({
+      where: { id: 5 },
+      data: { lastUsedAt: expect.any(Date) },
+    });
+  });
+});
@@ -0,0 +1,377 @@
+/**
+ * Tests for the Dunning Job
+ *
+ * Runs runDunning against a fixed clock to check the reminder schedule,
+ * site suspension after the grace period, and restoring paid-up sites.
+ * Also covers the POST /api/cron/dunning entry point.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock Prisma - using factory with hoisted mock
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    intakeSubmission: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    customerDeployment: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+// Mock email sending
+vi.mock('@/lib/email', () => ({
+  sendEmail: vi.fn(),
+  getDunningReminderEmailTemplate: vi.fn(() => ({ subject: 'Subject', html: '<p>Body</p>' })),
+}));
+
+// Mock notes, deployments and billing portal links
+vi.mock('@/lib/admin/noteQueries', () => ({
+  createNote: vi.fn(),
+}));
+
+vi.mock('@/lib/admin/deploymentQueries', () => ({
+  updateDeployment: vi.fn(),
+}));
+
+vi.mock('@/lib/admin/billingPortalLinkQueries', () => ({
+  SYSTEM_ISSUER_NAME: 'System',
+  createBillingPortalLink: vi.fn(async () => ({ id: 9, token: 'portal-token' })),
+  getBillingPortalUrl: vi.fn((token: string) => `http://localhost:3000/billing/${token}`),
+}));
+
+// Mock Cloudflare API calls
+vi.mock('@/lib/cloudflare', () => ({
+  addCustomDomain: vi.fn(),
+  removeCustomDomain: vi.fn(),
+  getDnsRecords: vi.fn(async () => [{ id: 'rec_1' }]),
+  updateDnsRecord: vi.fn(),
+}));
+
+import { runDunning, type DunningConfig } from '@/lib/dunning';
+import { POST as cronPOST } from '@/app/api/cron/dunning/route';
+import { prisma } from '@/lib/db';
+import { sendEmail, getDunningReminderEmailTemplate } from '@/lib/email';
+import { createNote } from '@/lib/admin/noteQueries';
+import { updateDeployment } from '@/lib/admin/deploymentQueries';
+import { createBillingPortalLink } from '@/lib/admin/billingPortalLinkQueries';
+import { addCustomDomain, removeCustomDomain, updateDnsRecord } from '@/lib/cloudflare';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FAILED_AT = new Date('2026-03-01T12:00:00Z');
+
+const NO_SUSPENSION: DunningConfig = {
+  graceDays: 14,
+  suspendAction: 'none',
+  suspendedPageProject: null,
+};
+
+// Cast to get access to mock methods
+const mockSubmission = prisma.intakeSubmission as unknown as {
+  findMany: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
+};
+const mockDeployment = prisma.customerDeployment as unknown as {
+  findMany: ReturnType<typeof vi.fn>;
+};
+
+// Clock helper: the given number of days (plus an hour) after the failure
+const daysAfterFailure = (days: number) => new Date(FAILED_AT.getTime() + days * DAY_MS + 60 * 60 * 1000);
+
+// Helper to build a past-due submission row
+const createSubmissionRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 1,
+  fullName: 'Jane Doe',
+  email: 'jane@example.com',
+  subscriptionStatus: 'past_due',
+  paymentFailedAt: FAILED_AT,
+  dunningRemindersSent: 0,
+  dunningReminderFailed: 0,
+  deployment: null,
+  ...overrides,
+});
+
+// Helper to build a deployment row with a custom domain
+const createDeploymentRow = (overrides: Record<string, unknown> = {}) => ({
+  customerId: 1,
+  cfProjectName: 'jane-site',
+  customDomain: 'www.janedoe.com',
+  suspendedAt: null,
+  suspensionMode: null,
+  ...overrides,
+});
+
+describe('runDunning', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockSubmission.findMany.mockResolvedValue([createSubmissionRow()]);
+    mockDeployment.findMany.mockResolvedValue([]);
+    vi.mocked(sendEmail).mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should not send anything on the day of the failure', async () => {
+    const summary = await runDunning(daysAfterFailure(0), NO_SUSPENSION);
+
+    expect(summary.remindersSent).toBe(0);
+    expect(vi.mocked(sendEmail)).not.toHaveBeenCalled();
+    expect(vi.mocked(createNote)).not.toHaveBeenCalled();
+  });
+
+  it('should send the first reminder after a day and log it as an email note', async () => {
+    const now = daysAfterFailure(1);
+
+    const summary = await runDunning(now, NO_SUSPENSION);
+
+    expect(summary.remindersSent).toBe(1);
+    expect(vi.mocked(createBillingPortalLink)).toHaveBeenCalledWith(1, null, now);
+    expect(vi.mocked(getDunningReminderEmailTemplate)).toHaveBeenCalledWith(
+      'Jane Doe',
+      'http://localhost:3000/billing/portal-token',
+      1,
+      null
+    );
+    expect(vi.mocked(sendEmail)).toHaveBeenCalledWith('jane@example.com', 'Subject', '<p>Body</p>');
+    expect(vi.mocked(createNote)).toHaveBeenCalledWith(
+      1,
+      expect.objectContaining({ noteType: 'EMAIL', authorName: 'System' })
+    );
+    expect(mockSubmission.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { dunningRemindersSent: 1 },
+    });
+  });
+
+  it('should not repeat a reminder that was already sent', async () => {
+    mockSubmission.findMany.mockResolvedValue([createSubmissionRow({ dunningRemindersSent: 1 })]);
+
+    const summary = await runDunning(daysAfterFailure(2), NO_SUSPENSION);
+
+    expect(summary.remindersSent).toBe(0);
+    expect(vi.mocked(sendEmail)).not.toHaveBeenCalled();
+  });
+
+  it('should send only the latest reminder when earlier ones were missed', async () => {
+    await runDunning(daysAfterFailure(8), NO_SUSPENSION);
+
+    expect(vi.mocked(sendEmail)).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(getDunningReminderEmailTemplate)).toHaveBeenCalledWith(
+      'Jane Doe',
+      expect.any(String),
+      3,
+      null
+    );
+    expect(mockSubmission.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { dunningRemindersSent: 3 },
+    });
+  });
+
+  it('should log a failed send and retry it on the next run', async () => {
+    vi.mocked(sendEmail).mockResolvedValue(false);
+
+    const summary = await runDunning(daysAfterFailure(3), NO_SUSPENSION);
+
+    expect(summary.remindersSent).toBe(0);
+    expect(vi.mocked(createNote)).toHaveBeenCalledWith(
+      1,
+      expect.objectContaining({
+        noteType: 'EMAIL',
+        content: expect.stringContaining('could not be emailed'),
+      })
+    );
+    // The reminder stays unsent so the next run tries it again
+    expect(mockSubmission.update).toHaveBeenCalledTimes(1);
+    expect(mockSubmission.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { dunningReminderFailed: 2 },
+    });
+  });
+
+  it('should not note the same failed reminder again on later runs', async () => {
+    vi.mocked(sendEmail).mockResolvedValue(false);
+    mockSubmission.findMany.mockResolvedValue([createSubmissionRow({ dunningReminderFailed: 2 })]);
+
+    await runDunning(daysAfterFailure(4), NO_SUSPENSION);
+
+    expect(vi.mocked(sendEmail)).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(createNote)).not.toHaveBeenCalled();
+    expect(mockSubmission.update).not.toHaveBeenCalled();
+  });
+
+  it('should note a failure again once the next reminder is due', async () => {
+    vi.mocked(sendEmail).mockResolvedValue(false);
+    mockSubmission.findMany.mockResolvedValue([
+      createSubmissionRow({ dunningRemindersSent: 1, dunningReminderFailed: 2 }),
+    ]);
+
+    await runDunning(daysAfterFailure(7), NO_SUSPENSION);
+
+    expect(vi.mocked(createNote)).toHaveBeenCalledWith(
+      1,
+      expect.objectContaining({ content: expect.stringContaining('Payment reminder 3 of 3 could not be emailed') })
+    );
+    expect(mockSubmission.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { dunningReminderFailed: 3 },
+    });
+  });
+
+  it('should warn about the suspension date when suspension is enabled', async () => {
+    await runDunning(daysAfterFailure(7), { ...NO_SUSPENSION, suspendAction: 'pause' });
+
+    expect(vi.mocked(getDunningReminderEmailTemplate)).toHaveBeenCalledWith(
+      'Jane Doe',
+      expect.any(String),
+      3,
+      new Date(FAILED_AT.getTime() + 14 * DAY_MS)
+    );
+  });
+
+  it('should leave the site up after the grace period when suspension is off', async () => {
+    mockSubmission.findMany.mockResolvedValue([
+      createSubmissionRow({ dunningRemindersSent: 3, deployment: createDeploymentRow() }),
+    ]);
+
+    const summary = await runDunning(daysAfterFailure(20), NO_SUSPENSION);
+
+    expect(summary.suspended).toBe(0);
+    expect(vi.mocked(removeCustomDomain)).not.toHaveBeenCalled();
+  });
+
+  it('should pause the site by detaching its domain after the grace period', async () => {
+    mockSubmission.findMany.mockResolvedValue([
+      createSubmissionRow({ dunningRemindersSent: 3, deployment: createDeploymentRow() }),
+    ]);
+    const now = daysAfterFailure(14);
+
+    const summary = await runDunning(now, { ...NO_SUSPENSION, suspendAction: 'pause' });
+
+    expect(summary.suspended).toBe(1);
+    expect(vi.mocked(removeCustomDomain)).toHaveBeenCalledWith('jane-site', 'www.janedoe.com');
+    expect(vi.mocked(addCustomDomain)).not.toHaveBeenCalled();
+    expect(vi.mocked(updateDeployment)).toHaveBeenCalledWith(1, {
+      suspendedAt: now,
+      suspensionMode: 'PAUSED',
+    });
+  });
+
+  it('should point the domain at the suspended page project', async () => {
+    mockSubmission.findMany.mockResolvedValue([
+      createSubmissionRow({ dunningRemindersSent: 3, deployment: createDeploymentRow() }),
+    ]);
+
+    const summary = await runDunning(daysAfterFailure(15), {
+      graceDays: 14,
+      suspendAction: 'suspended_page',
+      suspendedPageProject: 'site-suspended',
+    });
+
+    expect(summary.suspended).toBe(1);
+    expect(vi.mocked(removeCustomDomain)).toHaveBeenCalledWith('jane-site', 'www.janedoe.com');
+    expect(vi.mocked(addCustomDomain)).toHaveBeenCalledWith('site-suspended', 'www.janedoe.com');
+    expect(vi.mocked(updateDnsRecord)).toHaveBeenCalledWith('www.janedoe.com', 'rec_1', {
+      content: 'site-suspended.pages.dev',
+    });
+    expect(vi.mocked(updateDeployment)).toHaveBeenCalledWith(
+      1,
+      expect.objectContaining({ suspensionMode: 'SUSPENDED_PAGE' })
+    );
+  });
+
+  it('should not suspend a site twice', async () => {
+    mockSubmission.findMany.mockResolvedValue([
+      createSubmissionRow({
+        dunningRemindersSent: 3,
+        deployment: createDeploymentRow({ suspendedAt: daysAfterFailure(14), suspensionMode: 'PAUSED' }),
+      }),
+    ]);
+
+    const summary = await runDunning(daysAfterFailure(16), { ...NO_SUSPENSION, suspendAction: 'pause' });
+
+    expect(summary.suspended).toBe(0);
+    expect(vi.mocked(removeCustomDomain)).not.toHaveBeenCalled();
+  });
+
+  it('should restore a suspended site once the customer has paid', async () => {
+    mockSubmission.findMany.mockResolvedValue([]);
+    mockDeployment.findMany.mockResolvedValue([
+      createDeploymentRow({ suspendedAt: daysAfterFailure(14), suspensionMode: 'SUSPENDED_PAGE' }),
+    ]);
+
+    const summary = await runDunning(daysAfterFailure(16), {
+      graceDays: 14,
+      suspendAction: 'suspended_page',
+      suspendedPageProject: 'site-suspended',
+    });
+
+    expect(summary.restored).toBe(1);
+    expect(vi.mocked(removeCustomDomain)).toHaveBeenCalledWith('site-suspended', 'www.janedoe.com');
+    expect(vi.mocked(addCustomDomain)).toHaveBeenCalledWith('jane-site', 'www.janedoe.com');
+    expect(vi.mocked(updateDnsRecord)).toHaveBeenCalledWith('www.janedoe.com', 'rec_1', {
+      content: 'jane-site.pages.dev',
+    });
+    expect(vi.mocked(updateDeployment)).toHaveBeenCalledWith(1, {
+      suspendedAt: null,
+      suspensionMode: null,
+    });
+  });
+
+  it('should report a failed suspension and keep going', async () => {
+    mockSubmission.findMany.mockResolvedValue([
+      createSubmissionRow({ dunningRemindersSent: 3, deployment: createDeploymentRow() }),
+    ]);
+    vi.mocked(removeCustomDomain).mockRejectedValueOnce(new Error('Cloudflare is down'));
+
+    const summary = await runDunning(daysAfterFailure(14), { ...NO_SUSPENSION, suspendAction: 'pause' });
+
+    expect(summary.suspended).toBe(0);
+    expect(summary.errors).toEqual(['Customer 1: suspension failed']);
+    expect(vi.mocked(updateDeployment)).not.toHaveBeenCalled();
+  });
+});
+
+describe('Dunning Cron API - POST', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubEnv('CRON_SECRET', 'cron-secret');
+    mockSubmission.findMany.mockResolvedValue([]);
+    mockDeployment.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  function callCron(authorization?: string) {
+    const request = new NextRequest(new URL('/api/cron/dunning', 'http://localhost'), {
+      method: 'POST',
+      headers: authorization ? { Authorization: authorization } : {},
+    });
+    return cronPOST(request);
+  }
+
+  it('should return 401 without the cron secret', async () => {
+    const response = await callCron('Bearer wrong');
+
+    expect(response.status).toBe(401);
+    expect(mockSubmission.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should run the job and return the summary', async () => {
+    const response = await callCron('Bearer cron-secret');
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data).toEqual({ checked: 0, remindersSent: 0, suspended: 0, restored: 0, errors: [] });
+  });
+});
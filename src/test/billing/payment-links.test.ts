@@ -0,0 +1,483 @@
+/**
+ * Tests for Payment Links
+ *
+ * Tests the POST /api/admin/submissions/[id]/generate-payment-link endpoint,
+ * the public POST /api/payment/setup/[token] checkout endpoint (including
+ * reuse of the Checkout session opened from a link), and the
+ * POST /api/admin/customers/[id]/payment-links/[linkId]/revoke endpoint.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock Prisma - using factory with hoisted mock
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    intakeSubmission: {
+      findUnique: vi.fn(),
+    },
+    paymentLink: {
+      create: vi.fn(async ({ data }) => ({
+        id: 7,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        status: 'ACTIVE',
+        usedAt: null,
+        revokedAt: null,
+        stripeCheckoutSessionId: null,
+        ...data,
+      })),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    pricingPlan: {
+      findMany: vi.fn(async () => []),
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+// Mock Stripe helpers
+vi.mock('@/lib/stripe', () => ({
+  getPrice: vi.fn(),
+  createCheckoutSession: vi.fn(),
+  getCheckoutSession: vi.fn(),
+  expireCheckoutSession: vi.fn(),
+}));
+
+// Mock the session utilities
+vi.mock('@/lib/auth/session', () => ({
+  authorize: vi.fn(),
+}));
+
+// Mock the audit log helper
+vi.mock('@/lib/admin/auditQueries', () => ({
+  recordAuditEvent: vi.fn(),
+}));
+
+// Mock email sending
+vi.mock('@/lib/email', () => ({
+  sendEmail: vi.fn(),
+  getPaymentLinkEmailTemplate: vi.fn(() => ({ subject: 'Subject', html: '<p>Body</p>' })),
+}));
+
+import { POST as generatePOST } from '@/app/api/admin/submissions/[id]/generate-payment-link/route';
+import { POST as checkoutPOST } from '@/app/api/payment/setup/[token]/route';
+import { POST as revokePOST } from '@/app/api/admin/customers/[id]/payment-links/[linkId]/revoke/route';
+import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/session';
+import { getPrice, createCheckoutSession, getCheckoutSession, expireCheckoutSession } from '@/lib/stripe';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import type { AuthorizationResult } from '@/types/admin';
+
+const AUTHORIZED: AuthorizationResult = {
+  authorized: true,
+  session: { userId: 3, email: 'billing@example.com', name: 'Billing', role: 'BILLING' },
+};
+
+// Cast to get access to mock methods
+const mockSubmission = prisma.intakeSubmission as unknown as {
+  findUnique: ReturnType<typeof vi.fn>;
+};
+const mockPaymentLink = prisma.paymentLink as unknown as {
+  create: ReturnType<typeof vi.fn>;
+  findUnique: ReturnType<typeof vi.fn>;
+  findMany: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
+  updateMany: ReturnType<typeof vi.fn>;
+};
+
+// Helper to build a stored payment link row
+const createLinkRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+  customerId: 1,
+  type: 'SETUP_FEE',
+  token: 'a1b2c3d4-e5f6-7890-abcd-ef1234567890',
+  status: 'ACTIVE',
+  amountCents: 25000,
+  currency: 'usd',
+  stripePriceId: 'price_snapshot',
+  expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  usedAt: null,
+  revokedAt: null,
+  stripeCheckoutSessionId: null,
+  createdById: 3,
+  createdByName: 'Billing',
+  ...overrides,
+});
+
+describe('Generate Payment Link API - POST', () => {
+  const mockAuthorize = vi.mocked(authorize);
+  const mockGetPrice = vi.mocked(getPrice);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    process.env.STRIPE_SETUP_FEE_PRICE_ID = 'price_setup';
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+    mockSubmission.findUnique.mockResolvedValue({
+      id: 1,
+      fullName: 'Jane Doe',
+      email: 'jane@example.com',
+      budgetRange: '1000-2500',
+      industryType: 'restaurant',
+    });
+    mockGetPrice.mockResolvedValue({ id: 'price_setup', unit_amount: 25000, currency: 'usd' } as never);
+    mockPaymentLink.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function callGenerate(body?: object) {
+    const request = new NextRequest(
+      new URL('/api/admin/submissions/1/generate-payment-link', 'http://localhost'),
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      }
+    );
+    return generatePOST(request, { params: Promise.resolve({ id: '1' }) });
+  }
+
+  it('should create a link with a price snapshot and revoke the previous one', async () => {
+    const before = Date.now();
+    const response = await callGenerate();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockPaymentLink.updateMany).toHaveBeenCalledWith({
+      where: { customerId: 1, type: 'SETUP_FEE', status: 'ACTIVE' },
+      data: { status: 'REVOKED', revokedAt: expect.any(Date) },
+    });
+    const { data: created } = mockPaymentLink.create.mock.calls[0][0];
+    expect(created).toEqual(
+      expect.objectContaining({
+        customerId: 1,
+        type: 'SETUP_FEE',
+        amountCents: 25000,
+        currency: 'usd',
+        stripePriceId: 'price_setup',
+        createdById: 3,
+        createdByName: 'Billing',
+      })
+    );
+    // Defaults to a 14 day expiry
+    // No pricing plans exist, so the environment price is charged
+    expect(created.planId).toBeNull();
+    expect(created.expiresAt.getTime()).toBeGreaterThanOrEqual(before + 14 * 24 * 60 * 60 * 1000);
+    expect(data.url).toBe(`http://localhost:3000/pay/setup/${created.token}`);
+    expect(vi.mocked(recordAuditEvent)).toHaveBeenCalledWith(
+      expect.anything(),
+      AUTHORIZED.session,
+      expect.objectContaining({ action: 'payment_link.generate', entityId: 7 })
+    );
+  });
+
+  it('should expire the open checkout of the link it replaces', async () => {
+    mockPaymentLink.findMany.mockResolvedValue([
+      createLinkRow({ id: 6, stripeCheckoutSessionId: 'cs_previous' }),
+    ]);
+    vi.mocked(getCheckoutSession).mockResolvedValue({ id: 'cs_previous', status: 'open' } as never);
+
+    const response = await callGenerate();
+
+    expect(response.status).toBe(200);
+    expect(mockPaymentLink.findMany).toHaveBeenCalledWith({
+      where: { customerId: 1, type: 'SETUP_FEE', status: 'ACTIVE' },
+    });
+    expect(vi.mocked(expireCheckoutSession)).toHaveBeenCalledWith('cs_previous');
+  });
+
+  it('should reject an expiry outside the allowed range', async () => {
+    const response = await callGenerate({ expiresInDays: 365 });
+
+    expect(response.status).toBe(400);
+    expect(mockPaymentLink.create).not.toHaveBeenCalled();
+  });
+
+  it('should return 502 when the price cannot be loaded from Stripe', async () => {
+    mockGetPrice.mockRejectedValue(new Error('No such price'));
+
+    const response = await callGenerate();
+
+    expect(response.status).toBe(502);
+    expect(mockPaymentLink.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('Setup Fee Checkout API - POST', () => {
+  const mockCreateCheckoutSession = vi.mocked(createCheckoutSession);
+  const mockGetCheckoutSession = vi.mocked(getCheckoutSession);
+  const mockExpireCheckoutSession = vi.mocked(expireCheckoutSession);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockPaymentLink.updateMany.mockResolvedValue({ count: 1 });
+    mockSubmission.findUnique.mockResolvedValue({
+      id: 1,
+      email: 'jane@example.com',
+      fullName: 'Jane Doe',
+      businessName: 'Jane Co',
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function callCheckout(token = 'a1b2c3d4-e5f6-7890-abcd-ef1234567890') {
+    const request = new NextRequest(new URL(`/api/payment/setup/${token}`, 'http://localhost'), {
+      method: 'POST',
+    });
+    return checkoutPOST(request, { params: Promise.resolve({ token }) });
+  }
+
+  it('should return 404 for an unknown token', async () => {
+    mockPaymentLink.findUnique.mockResolvedValue(null);
+
+    const response = await callCheckout();
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 404 for a subscription link token', async () => {
+    mockPaymentLink.findUnique.mockResolvedValue(createLinkRow({ type: 'SUBSCRIPTION' }));
+
+    const response = await callCheckout();
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 410 and mark the link expired once past its expiry', async () => {
+    mockPaymentLink.findUnique.mockResolvedValue(
+      createLinkRow({ expiresAt: new Date(Date.now() - 1000) })
+    );
+
+    const response = await callCheckout();
+    const data = await response.json();
+
+    expect(response.status).toBe(410);
+    expect(data.error).toBe('This payment link has expired');
+    expect(mockPaymentLink.update).toHaveBeenCalledWith({
+      where: { id: 7 },
+      data: { status: 'EXPIRED' },
+    });
+    expect(mockCreateCheckoutSession).not.toHaveBeenCalled();
+  });
+
+  it('should return 410 for a link that was already used', async () => {
+    mockPaymentLink.findUnique.mockResolvedValue(createLinkRow({ status: 'USED' }));
+
+    const response = await callCheckout();
+    const data = await response.json();
+
+    expect(response.status).toBe(410);
+    expect(data.error).toBe('This payment link has already been used');
+  });
+
+  it('should check out at the snapshotted price and tag the session with the link', async () => {
+    mockPaymentLink.findUnique.mockResolvedValue(createLinkRow());
+    mockCreateCheckoutSession.mockResolvedValue({ id: 'cs_new', url: 'https://checkout.stripe.com/c/pay' } as never);
+
+    const response = await callCheckout();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.url).toBe('https://checkout.stripe.com/c/pay');
+    expect(mockCreateCheckoutSession).toHaveBeenCalledWith(
+      expect.objectContaining({
+        priceId: 'price_snapshot',
+        mode: 'payment',
+        metadata: expect.objectContaining({ submissionId: '1', paymentLinkId: '7' }),
+      })
+    );
+    expect(mockPaymentLink.updateMany).toHaveBeenCalledWith({
+      where: { id: 7, status: 'ACTIVE', stripeCheckoutSessionId: null },
+      data: { stripeCheckoutSessionId: 'cs_new' },
+    });
+  });
+
+  it('should expire the checkout session no later than the link', async () => {
+    const expiresAt = new Date(Date.now() + 2 * 60 * 60 * 1000);
+    mockPaymentLink.findUnique.mockResolvedValue(createLinkRow({ expiresAt }));
+    mockCreateCheckoutSession.mockResolvedValue({ id: 'cs_new', url: 'https://checkout.stripe.com/c/pay' } as never);
+
+    await callCheckout();
+
+    expect(mockCreateCheckoutSession).toHaveBeenCalledWith(expect.objectContaining({ expiresAt }));
+  });
+
+  it('should cap the checkout session at the 24 hours Stripe allows', async () => {
+    const before = Date.now();
+    mockPaymentLink.findUnique.mockResolvedValue(
+      createLinkRow({ expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) })
+    );
+    mockCreateCheckoutSession.mockResolvedValue({ id: 'cs_new', url: 'https://checkout.stripe.com/c/pay' } as never);
+
+    await callCheckout();
+
+    const { expiresAt } = mockCreateCheckoutSession.mock.calls[0][0];
+    expect(expiresAt!.getTime()).toBeGreaterThanOrEqual(before + 24 * 60 * 60 * 1000);
+    expect(expiresAt!.getTime()).toBeLessThanOrEqual(Date.now() + 24 * 60 * 60 * 1000);
+  });
+
+  it('should return 410 for a link expiring too soon for Stripe checkout', async () => {
+    mockPaymentLink.findUnique.mockResolvedValue(
+      createLinkRow({ expiresAt: new Date(Date.now() + 10 * 60 * 1000) })
+    );
+
+    const response = await callCheckout();
+    const data = await response.json();
+
+    expect(response.status).toBe(410);
+    expect(data.error).toBe('This payment link has expired');
+    expect(mockCreateCheckoutSession).not.toHaveBeenCalled();
+  });
+
+  it('should send repeat visits to the checkout session already open', async () => {
+    mockPaymentLink.findUnique.mockResolvedValue(createLinkRow({ stripeCheckoutSessionId: 'cs_open' }));
+    mockGetCheckoutSession.mockResolvedValue({
+      id: 'cs_open',
+      status: 'open',
+      url: 'https://checkout.stripe.com/c/open',
+    } as never);
+
+    const response = await callCheckout();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.url).toBe('https://checkout.stripe.com/c/open');
+    expect(mockGetCheckoutSession).toHaveBeenCalledWith('cs_open');
+    expect(mockCreateCheckoutSession).not.toHaveBeenCalled();
+  });
+
+  it('should return 410 once the checkout session was paid', async () => {
+    mockPaymentLink.findUnique.mockResolvedValue(createLinkRow({ stripeCheckoutSessionId: 'cs_paid' }));
+    mockGetCheckoutSession.mockResolvedValue({ id: 'cs_paid', status: 'complete', url: null } as never);
+
+    const response = await callCheckout();
+    const data = await response.json();
+
+    expect(response.status).toBe(410);
+    expect(data.error).toBe('This payment link has already been used');
+    expect(mockCreateCheckoutSession).not.toHaveBeenCalled();
+  });
+
+  it('should open a new session once the previous one expired', async () => {
+    mockPaymentLink.findUnique.mockResolvedValue(createLinkRow({ stripeCheckoutSessionId: 'cs_expired' }));
+    mockGetCheckoutSession.mockResolvedValue({ id: 'cs_expired', status: 'expired', url: null } as never);
+    mockCreateCheckoutSession.mockResolvedValue({ id: 'cs_new', url: 'https://checkout.stripe.com/c/pay' } as never);
+
+    const response = await callCheckout();
+
+    expect(response.status).toBe(200);
+    expect(mockPaymentLink.updateMany).toHaveBeenCalledWith({
+      where: { id: 7, status: 'ACTIVE', stripeCheckoutSessionId: 'cs_expired' },
+      data: { stripeCheckoutSessionId: 'cs_new' },
+    });
+  });
+
+  it('should expire its session when another visit opened one first', async () => {
+    mockPaymentLink.findUnique.mockResolvedValue(createLinkRow());
+    mockCreateCheckoutSession.mockResolvedValue({ id: 'cs_late', url: 'https://checkout.stripe.com/c/late' } as never);
+    mockPaymentLink.updateMany.mockResolvedValue({ count: 0 });
+
+    const response = await callCheckout();
+
+    expect(response.status).toBe(409);
+    expect(mockExpireCheckoutSession).toHaveBeenCalledWith('cs_late');
+  });
+});
+
+describe('Revoke Payment Link API - POST', () => {
+  const mockAuthorize = vi.mocked(authorize);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function callRevoke(customerId = '1', linkId = '7') {
+    const request = new NextRequest(
+      new URL(`/api/admin/customers/${customerId}/payment-links/${linkId}/revoke`, 'http://localhost'),
+      { method: 'POST' }
+    );
+    return revokePOST(request, { params: Promise.resolve({ id: customerId, linkId }) });
+  }
+
+  it('should return 403 when the role cannot manage billing', async () => {
+    mockAuthorize.mockResolvedValue({ authorized: false, status: 403, error: 'Forbidden' });
+
+    const response = await callRevoke();
+
+    expect(response.status).toBe(403);
+    expect(mockAuthorize).toHaveBeenCalledWith('billing:manage');
+  });
+
+  it("should return 404 for another customer's link", async () => {
+    mockPaymentLink.findUnique.mockResolvedValue(createLinkRow({ customerId: 2 }));
+
+    const response = await callRevoke();
+
+    expect(response.status).toBe(404);
+    expect(mockPaymentLink.update).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 for a link that is no longer active', async () => {
+    mockPaymentLink.findUnique.mockResolvedValue(createLinkRow({ status: 'USED' }));
+
+    const response = await callRevoke();
+
+    expect(response.status).toBe(409);
+    expect(mockPaymentLink.update).not.toHaveBeenCalled();
+  });
+
+  it('should revoke an active link and record it in the audit log', async () => {
+    mockPaymentLink.findUnique.mockResolvedValue(createLinkRow());
+    mockPaymentLink.update.mockResolvedValue(
+      createLinkRow({ status: 'REVOKED', revokedAt: new Date() })
+    );
+
+    const response = await callRevoke();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.status).toBe('REVOKED');
+    expect(mockPaymentLink.update).toHaveBeenCalledWith({
+      where: { id: 7 },
+      data: { status: 'REVOKED', revokedAt: expect.any(Date) },
+    });
+    expect(vi.mocked(recordAuditEvent)).toHaveBeenCalledWith(
+      expect.anything(),
+      AUTHORIZED.session,
+      expect.objectContaining({ action: 'payment_link.revoke', entityType: 'PAYMENT_LINK', entityId: 7 })
+    );
+    expect(vi.mocked(expireCheckoutSession)).not.toHaveBeenCalled();
+  });
+
+  it('should expire the checkout session opened from the link', async () => {
+    mockPaymentLink.findUnique.mockResolvedValue(createLinkRow({ stripeCheckoutSessionId: 'cs_open' }));
+    mockPaymentLink.update.mockResolvedValue(
+      createLinkRow({ status: 'REVOKED', revokedAt: new Date(), stripeCheckoutSessionId: 'cs_open' })
+    );
+    vi.mocked(getCheckoutSession).mockResolvedValue({ id: 'cs_open', status: 'open' } as never);
+
+    const response = await callRevoke();
+
+    expect(response.status).toBe(200);
+    expect(vi.mocked(expireCheckoutSession)).toHaveBeenCalledWith('cs_open');
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Tests for Pricing Plans
+ *
+ * Tests the POST /api/admin/pricing-plans and PATCH /api/admin/pricing-plans/[id]
+ * endpoints, plan suggestion from intake answers, and plan selection in
+ * POST /api/admin/submissions/[id]/generate-subscription-link.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock Prisma - using factory with hoisted mock
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    intakeSubmission: {
+      findUnique: vi.fn(),
+    },
+    paymentLink: {
+      create: vi.fn(async ({ data }) => ({
+        id: 9,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        status: 'ACTIVE',
+        usedAt: null,
+        revokedAt: null,
+        stripeCheckoutSessionId: null,
+        ...data,
+      })),
+      findMany: vi.fn(async () => []),
+      updateMany: vi.fn(),
+    },
+    pricingPlan: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+// Mock Stripe helpers
+vi.mock('@/lib/stripe', () => ({
+  getPrice: vi.fn(),
+}));
+
+// Mock the session utilities
+vi.mock('@/lib/auth/session', () => ({
+  authorize: vi.fn(),
+}));
+
+// Mock the audit log helper
+vi.mock('@/lib/admin/auditQueries', () => ({
+  recordAuditEvent: vi.fn(),
+}));
+
+// Mock email sending
+vi.mock('@/lib/email', () => ({
+  sendEmail: vi.fn(),
+  getSubscriptionLinkEmailTemplate: vi.fn(() => ({ subject: 'Subject', html: '<p>Body</p>' })),
+}));
+
+import { POST as createPOST } from '@/app/api/admin/pricing-plans/route';
+import { PATCH as updatePATCH } from '@/app/api/admin/pricing-plans/[id]/route';
+import { POST as generatePOST } from '@/app/api/admin/submissions/[id]/generate-subscription-link/route';
+import { getSuggestedPricingPlan } from '@/lib/admin/pricingPlanQueries';
+import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/session';
+import { getPrice } from '@/lib/stripe';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import type { AuthorizationResult } from '@/types/admin';
+
+const AUTHORIZED: AuthorizationResult = {
+  authorized: true,
+  session: { userId: 3, email: 'billing@example.com', name: 'Billing', role: 'BILLING' },
+};
+
+// Cast to get access to mock methods
+const mockSubmission = prisma.intakeSubmission as unknown as {
+  findUnique: ReturnType<typeof vi.fn>;
+};
+const mockPaymentLink = prisma.paymentLink as unknown as {
+  create: ReturnType<typeof vi.fn>;
+};
+const mockPricingPlan = prisma.pricingPlan as unknown as {
+  findMany: ReturnType<typeof vi.fn>;
+  findUnique: ReturnType<typeof vi.fn>;
+  create: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
+};
+
+// Helper to build a stored pricing plan row
+const createPlanRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 1,
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+  name: 'Starter',
+  description: null,
+  setupFeeCents: 20000,
+  monthlyPriceCents: 2900,
+  currency: 'usd',
+  stripeSetupFeePriceId: 'price_starter_setup',
+  stripeMonthlyPriceId: 'price_starter_monthly',
+  features: '["5 pages"]',
+  budgetRanges: '[]',
+  industryTypes: '[]',
+  isActive: true,
+  sortOrder: 0,
+  ...overrides,
+});
+
+// Stripe prices matching the Starter plan
+const STRIPE_PRICES: Record<string, object> = {
+  price_starter_setup: { id: 'price_starter_setup', type: 'one_time', unit_amount: 20000, currency: 'usd' },
+  price_starter_monthly: {
+    id: 'price_starter_monthly',
+    type: 'recurring',
+    recurring: { interval: 'month' },
+    unit_amount: 2900,
+    currency: 'usd',
+  },
+  price_growth_monthly: {
+    id: 'price_growth_monthly',
+    type: 'recurring',
+    recurring: { interval: 'month' },
+    unit_amount: 5900,
+    currency: 'usd',
+  },
+};
+
+const VALID_PLAN = {
+  name: 'Starter',
+  setupFee: 200,
+  monthlyPrice: 29,
+  stripeSetupFeePriceId: 'price_starter_setup',
+  stripeMonthlyPriceId: 'price_starter_monthly',
+  features: ['5 pages', ' '],
+  budgetRanges: ['under-500'],
+};
+
+function jsonRequest(path: string, method: string, body: object) {
+  return new NextRequest(new URL(path, 'http://localhost'), {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('Pricing Plans API', () => {
+  const mockAuthorize = vi.mocked(authorize);
+  const mockGetPrice = vi.mocked(getPrice);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+    mockGetPrice.mockImplementation(async (priceId: string) => STRIPE_PRICES[priceId] as never);
+    mockPricingPlan.create.mockImplementation(async ({ data }) => createPlanRow(data));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should return 403 when the role cannot manage billing', async () => {
+    mockAuthorize.mockResolvedValue({ authorized: false, status: 403, error: 'Forbidden' });
+
+    const response = await createPOST(jsonRequest('/api/admin/pricing-plans', 'POST', VALID_PLAN));
+
+    expect(response.status).toBe(403);
+    expect(mockAuthorize).toHaveBeenCalledWith('billing:manage');
+  });
+
+  it('should create a plan with amounts in cents and JSON lists', async () => {
+    const response = await createPOST(jsonRequest('/api/admin/pricing-plans', 'POST', VALID_PLAN));
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(mockPricingPlan.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        name: 'Starter',
+        setupFeeCents: 20000,
+        monthlyPriceCents: 2900,
+        features: '["5 pages"]',
+        budgetRanges: '["under-500"]',
+      }),
+    });
+    expect(data.data.features).toEqual(['5 pages']);
+    expect(vi.mocked(recordAuditEvent)).toHaveBeenCalledWith(
+      expect.anything(),
+      AUTHORIZED.session,
+      expect.objectContaining({ action: 'pricing_plan.create', entityType: 'PRICING_PLAN' })
+    );
+  });
+
+  it('should reject a missing monthly price', async () => {
+    const response = await createPOST(
+      jsonRequest('/api/admin/pricing-plans', 'POST', { ...VALID_PLAN, monthlyPrice: undefined })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('monthlyPrice is required');
+  });
+
+  it('should reject an unknown budget range', async () => {
+    const response = await createPOST(
+      jsonRequest('/api/admin/pricing-plans', 'POST', { ...VALID_PLAN, budgetRanges: ['huge'] })
+    );
+
+    expect(response.status).toBe(400);
+    expect(mockPricingPlan.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject a setup fee that does not match its Stripe price', async () => {
+    const response = await createPOST(
+      jsonRequest('/api/admin/pricing-plans', 'POST', { ...VALID_PLAN, setupFee: 250 })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('The setup fee does not match its Stripe price');
+    expect(mockPricingPlan.create).not.toHaveBeenCalled();
+  });
+
+  it('should return 502 when the Stripe prices cannot be loaded', async () => {
+    mockGetPrice.mockRejectedValue(new Error('No such price'));
+
+    const response = await createPOST(jsonRequest('/api/admin/pricing-plans', 'POST', VALID_PLAN));
+
+    expect(response.status).toBe(502);
+  });
+
+  it('should re-check prices against the existing plan when only the price ID changes', async () => {
+    mockPricingPlan.findUnique.mockResolvedValue(createPlanRow());
+
+    const response = await updatePATCH(
+      jsonRequest('/api/admin/pricing-plans/1', 'PATCH', { stripeMonthlyPriceId: 'price_growth_monthly' }),
+      { params: Promise.resolve({ id: '1' }) }
+    );
+    const data = await response.json();
+
+    // The stored $29 monthly amount doesn't match the $59 price
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('The monthly price does not match its Stripe price');
+    expect(mockPricingPlan.update).not.toHaveBeenCalled();
+  });
+
+  it('should retire a plan without checking Stripe', async () => {
+    mockPricingPlan.findUnique.mockResolvedValue(createPlanRow());
+    mockPricingPlan.update.mockResolvedValue(createPlanRow({ isActive: false }));
+
+    const response = await updatePATCH(
+      jsonRequest('/api/admin/pricing-plans/1', 'PATCH', { isActive: false }),
+      { params: Promise.resolve({ id: '1' }) }
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockGetPrice).not.toHaveBeenCalled();
+    expect(mockPricingPlan.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { isActive: false },
+    });
+  });
+});
+
+describe('getSuggestedPricingPlan', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPricingPlan.findMany.mockResolvedValue([
+      createPlanRow({ id: 1, name: 'Starter' }),
+      createPlanRow({ id: 2, name: 'Restaurant', industryTypes: '["restaurant"]' }),
+      createPlanRow({ id: 3, name: 'Growth', budgetRanges: '["1000-2500","2500-plus"]' }),
+    ]);
+  });
+
+  it('should prefer a budget match over an industry match', async () => {
+    const plan = await getSuggestedPricingPlan('1000-2500', 'restaurant');
+
+    expect(plan?.name).toBe('Growth');
+  });
+
+  it('should fall back to an industry match', async () => {
+    const plan = await getSuggestedPricingPlan('under-500', 'restaurant');
+
+    expect(plan?.name).toBe('Restaurant');
+  });
+
+  it('should fall back to an untargeted plan', async () => {
+    const plan = await getSuggestedPricingPlan(null, 'retail');
+
+    expect(plan?.name).toBe('Starter');
+  });
+});
+
+describe('Generate Subscription Link API - plan selection', () => {
+  const mockAuthorize = vi.mocked(authorize);
+  const mockGetPrice = vi.mocked(getPrice);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    process.env.STRIPE_SUBSCRIPTION_PRICE_ID = 'price_env_monthly';
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+    mockSubmission.findUnique.mockResolvedValue({
+      id: 1,
+      fullName: 'Jane Doe',
+      email: 'jane@example.com',
+      budgetRange: 'under-500',
+      industryType: 'retail',
+    });
+    mockGetPrice.mockImplementation(async (priceId: string) => STRIPE_PRICES[priceId] as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function callGenerate(body: object) {
+    return generatePOST(
+      jsonRequest('/api/admin/submissions/1/generate-subscription-link', 'POST', body),
+      { params: Promise.resolve({ id: '1' }) }
+    );
+  }
+
+  it("should charge the requested plan's monthly price and record the plan", async () => {
+    mockPricingPlan.findUnique.mockResolvedValue(
+      createPlanRow({ id: 4, name: 'Growth', stripeMonthlyPriceId: 'price_growth_monthly' })
+    );
+
+    const response = await callGenerate({ planId: 4 });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockGetPrice).toHaveBeenCalledWith('price_growth_monthly');
+    expect(mockPaymentLink.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        amountCents: 5900,
+        stripePriceId: 'price_growth_monthly',
+        planId: 4,
+        planName: 'Growth',
+      }),
+    });
+    expect(data.link.planName).toBe('Growth');
+  });
+
+  it('should pick the suggested plan when none is requested', async () => {
+    mockPricingPlan.findMany.mockResolvedValue([createPlanRow()]);
+
+    const response = await callGenerate({});
+
+    expect(response.status).toBe(200);
+    expect(mockGetPrice).toHaveBeenCalledWith('price_starter_monthly');
+    expect(mockPaymentLink.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ planId: 1, planName: 'Starter' }),
+    });
+  });
+
+  it('should reject an inactive plan', async () => {
+    mockPricingPlan.findUnique.mockResolvedValue(createPlanRow({ isActive: false }));
+
+    const response = await callGenerate({ planId: 1 });
+
+    expect(response.status).toBe(400);
+    expect(mockPaymentLink.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,847 @@
+/**
+ * Tests for Stripe Webhook Idempotency
+ *
+ * Tests the POST /api/webhooks/stripe endpoint with the StripeEvent ledger,
+ * the subscription lifecycle and refund handlers, the
+ * POST /api/admin/stripe-events/[id]/replay endpoint, and the
+ * POST /api/admin/customers/[id]/payments/[paymentId]/refund endpoint.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock Prisma - using factory with hoisted mock
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    stripeEvent: {
+      createMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    intakeSubmission: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    payment: {
+      upsert: vi.fn(async ({ create }) => ({ id: 1, createdAt: new Date(), ...create })),
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      aggregate: vi.fn(),
+    },
+    paymentLink: {
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+// Mock signature verification to return the parsed body
+vi.mock('@/lib/stripe', () => ({
+  verifyWebhookSignature: vi.fn((payload: string) => JSON.parse(payload)),
+  listChargeRefunds: vi.fn(),
+  createRefund: vi.fn(),
+}));
+
+// Mock the session utilities
+vi.mock('@/lib/auth/session', () => ({
+  authorize: vi.fn(),
+}));
+
+// Mock the audit log helper
+vi.mock('@/lib/admin/auditQueries', () => ({
+  recordAuditEvent: vi.fn(),
+}));
+
+import { POST as webhookPOST } from '@/app/api/webhooks/stripe/route';
+import { POST as replayPOST } from '@/app/api/admin/stripe-events/[id]/replay/route';
+import { POST as refundPOST } from '@/app/api/admin/customers/[id]/payments/[paymentId]/refund/route';
+import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/session';
+import { createRefund, listChargeRefunds } from '@/lib/stripe';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import type { AuthorizationResult } from '@/types/admin';
+
+const AUTHORIZED: AuthorizationResult = {
+  authorized: true,
+  session: { userId: 1, email: 'billing@example.com', name: 'Billing', role: 'BILLING' },
+};
+
+// Cast to get access to mock methods
+const mockStripeEvent = prisma.stripeEvent as unknown as {
+  createMany: ReturnType<typeof vi.fn>;
+  findUnique: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
+};
+const mockSubmission = prisma.intakeSubmission as unknown as {
+  findUnique: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
+};
+const mockPayment = prisma.payment as unknown as {
+  upsert: ReturnType<typeof vi.fn>;
+  findUnique: ReturnType<typeof vi.fn>;
+  findFirst: ReturnType<typeof vi.fn>;
+  findMany: ReturnType<typeof vi.fn>;
+  aggregate: ReturnType<typeof vi.fn>;
+};
+
+// Helper to build a setup fee checkout.session.completed event
+const createCheckoutEvent = (id = 'evt_123') => ({
+  id,
+  type: 'checkout.session.completed',
+  created: 1780050000,
+  data: {
+    object: {
+      id: 'cs_123',
+      mode: 'payment',
+      created: 1780000000,
+      currency: 'usd',
+      payment_intent: 'pi_123',
+      amount_total: 150000,
+      customer: 'cus_123',
+      metadata: { submissionId: '1' },
+    },
+  },
+});
+
+// Helper to create a signed webhook request
+function createWebhookRequest(event: object): NextRequest {
+  return new NextRequest(new URL('/api/webhooks/stripe', 'http://localhost'), {
+    method: 'POST',
+    headers: { 'stripe-signature': 't=1,v1=test' },
+    body: JSON.stringify(event),
+  });
+}
+
+describe('Stripe Webhook Route - POST', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should return 400 when the signature header is missing', async () => {
+    const request = new NextRequest(new URL('/api/webhooks/stripe', 'http://localhost'), {
+      method: 'POST',
+      body: JSON.stringify(createCheckoutEvent()),
+    });
+    const response = await webhookPOST(request);
+
+    expect(response.status).toBe(400);
+    expect(mockStripeEvent.createMany).not.toHaveBeenCalled();
+  });
+
+  it('should record and process a new event', async () => {
+    mockStripeEvent.createMany.mockResolvedValue({ count: 1 });
+    mockSubmission.findUnique.mockResolvedValue({ id: 1, paidAt: null });
+    mockSubmission.update.mockResolvedValue({ id: 1 });
+
+    const event = createCheckoutEvent();
+    const response = await webhookPOST(createWebhookRequest(event));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.received).toBe(true);
+    expect(mockStripeEvent.createMany).toHaveBeenCalledWith({
+      data: [{ id: 'evt_123', type: 'checkout.session.completed', payload: JSON.stringify(event) }],
+      skipDuplicates: true,
+    });
+    expect(mockSubmission.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 1 },
+        data: expect.objectContaining({ status: 'PAID', billingStatus: 'PAID' }),
+      })
+    );
+    expect(mockPayment.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { stripeCheckoutSessionId: 'cs_123' },
+        create: expect.objectContaining({
+          customerId: 1,
+          type: 'SETUP_FEE',
+          amountCents: 150000,
+          currency: 'usd',
+          stripePaymentIntentId: 'pi_123',
+          // When the checkout completed, not when the session was opened
+          paidAt: new Date(1780050000 * 1000),
+        }),
+      })
+    );
+    expect(mockStripeEvent.update).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: { id: 'evt_123' },
+        data: expect.objectContaining({ status: 'PROCESSED' }),
+      })
+    );
+  });
+
+  it('should mark the payment link used by the checkout', async () => {
+    mockStripeEvent.createMany.mockResolvedValue({ count: 1 });
+    mockSubmission.findUnique.mockResolvedValue({ id: 1, paidAt: null });
+    mockSubmission.update.mockResolvedValue({ id: 1 });
+
+    const event = createCheckoutEvent();
+    const linkedEvent = {
+      ...event,
+      data: { object: { ...event.data.object, metadata: { submissionId: '1', paymentLinkId: '7' } } },
+    };
+    const response = await webhookPOST(createWebhookRequest(linkedEvent));
+
+    expect(response.status).toBe(200);
+    expect(prisma.paymentLink.updateMany).toHaveBeenCalledWith({
+      where: { id: 7, usedAt: null },
+      data: { status: 'USED', usedAt: expect.any(Date), stripeCheckoutSessionId: 'cs_123' },
+    });
+  });
+
+  it('should skip an event that was already processed', async () => {
+    mockStripeEvent.createMany.mockResolvedValue({ count: 0 });
+    mockStripeEvent.findUnique.mockResolvedValue({ status: 'PROCESSED', updatedAt: new Date() });
+
+    const response = await webhookPOST(createWebhookRequest(createCheckoutEvent()));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.duplicate).toBe(true);
+    expect(mockSubmission.findUnique).not.toHaveBeenCalled();
+    expect(mockSubmission.update).not.toHaveBeenCalled();
+  });
+
+  it('should skip an event that is currently being processed', async () => {
+    mockStripeEvent.createMany.mockResolvedValue({ count: 0 });
+    mockStripeEvent.findUnique.mockResolvedValue({ status: 'RECEIVED', updatedAt: new Date() });
+
+    const response = await webhookPOST(createWebhookRequest(createCheckoutEvent()));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.duplicate).toBe(true);
+    expect(mockSubmission.update).not.toHaveBeenCalled();
+  });
+
+  it('should reprocess a redelivered event that previously failed', async () => {
+    mockStripeEvent.createMany.mockResolvedValue({ count: 0 });
+    mockStripeEvent.findUnique.mockResolvedValue({ status: 'FAILED', updatedAt: new Date() });
+    mockSubmission.findUnique.mockResolvedValue({ id: 1, paidAt: null });
+    mockSubmission.update.mockResolvedValue({ id: 1 });
+
+    const response = await webhookPOST(createWebhookRequest(createCheckoutEvent()));
+
+    expect(response.status).toBe(200);
+    expect(mockSubmission.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('should mark the event failed and return 500 when the handler throws', async () => {
+    mockStripeEvent.createMany.mockResolvedValue({ count: 1 });
+    mockSubmission.findUnique.mockResolvedValue({ id: 1, paidAt: null });
+    mockSubmission.update.mockRejectedValue(new Error('Database unavailable'));
+
+    const response = await webhookPOST(createWebhookRequest(createCheckoutEvent()));
+
+    expect(response.status).toBe(500);
+    expect(mockStripeEvent.update).toHaveBeenLastCalledWith({
+      where: { id: 'evt_123' },
+      data: { status: 'FAILED', error: 'Database unavailable' },
+    });
+  });
+
+  it('should not overwrite paidAt for an already paid setup fee', async () => {
+    mockStripeEvent.createMany.mockResolvedValue({ count: 1 });
+    mockSubmission.findUnique.mockResolvedValue({ id: 1, paidAt: new Date('2026-01-01'), revenue: 1500 });
+
+    const response = await webhookPOST(createWebhookRequest(createCheckoutEvent('evt_456')));
+
+    expect(response.status).toBe(200);
+    expect(mockSubmission.update).not.toHaveBeenCalled();
+    // The ledger upsert is keyed on the session, so it cannot double count
+    expect(mockPayment.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { stripeCheckoutSessionId: 'cs_123' } })
+    );
+  });
+
+  it('should record subscription invoices in the payment ledger', async () => {
+    mockStripeEvent.createMany.mockResolvedValue({ count: 1 });
+    mockSubmission.findUnique.mockResolvedValue({ id: 1, lastInvoiceDate: null });
+    mockSubmission.update.mockResolvedValue({ id: 1 });
+
+    const event = {
+      id: 'evt_invoice',
+      type: 'invoice.paid',
+      data: {
+        object: {
+          id: 'in_123',
+          created: 1780000000,
+          amount_paid: 9900,
+          currency: 'usd',
+          status_transitions: { paid_at: 1780000100 },
+          parent: { subscription_details: { subscription: 'sub_123' } },
+        },
+      },
+    };
+    const response = await webhookPOST(createWebhookRequest(event));
+
+    expect(response.status).toBe(200);
+    expect(mockPayment.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { stripeInvoiceId: 'in_123' },
+        create: expect.objectContaining({
+          customerId: 1,
+          type: 'SUBSCRIPTION',
+          amountCents: 9900,
+          paidAt: new Date(1780000100 * 1000),
+        }),
+      })
+    );
+    // Paying stops the dunning reminders
+    expect(mockSubmission.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ paymentFailedAt: null, dunningRemindersSent: 0, dunningReminderFailed: 0 }),
+      })
+    );
+  });
+
+  it('should start the dunning clock only on the first failed payment', async () => {
+    const firstFailure = new Date('2026-03-01T12:00:00Z');
+    mockStripeEvent.createMany.mockResolvedValue({ count: 1 });
+    mockSubmission.update.mockResolvedValue({ id: 1 });
+
+    const event = {
+      id: 'evt_failed',
+      type: 'invoice.payment_failed',
+      data: {
+        object: {
+          id: 'in_456',
+          created: Math.floor(Date.now() / 1000),
+          parent: { subscription_details: { subscription: 'sub_123' } },
+        },
+      },
+    };
+
+    mockSubmission.findUnique.mockResolvedValue({ id: 1, billingStatus: 'PAID', paymentFailedAt: null });
+    await webhookPOST(createWebhookRequest(event));
+    expect(mockSubmission.update).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ subscriptionStatus: 'past_due', paymentFailedAt: expect.any(Date) }),
+      })
+    );
+
+    mockSubmission.findUnique.mockResolvedValue({ id: 1, billingStatus: 'PAID', paymentFailedAt: firstFailure });
+    await webhookPOST(createWebhookRequest({ ...event, id: 'evt_failed_retry' }));
+    expect(mockSubmission.update).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ paymentFailedAt: firstFailure }),
+      })
+    );
+  });
+});
+
+// Helper to build a customer.subscription.* event
+const createSubscriptionEvent = (
+  type: string,
+  status: string,
+  canceledAt: number | null = null,
+  created = 1780000000
+) => ({
+  id: `evt_${type}`,
+  type,
+  created,
+  data: {
+    object: {
+      id: 'sub_123',
+      status,
+      canceled_at: canceledAt,
+      items: {
+        data: [
+          { current_period_end: 1790000000 },
+          { current_period_end: 1800000000 },
+        ],
+      },
+    },
+  },
+});
+
+describe('Stripe Webhook Route - subscription lifecycle', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockStripeEvent.createMany.mockResolvedValue({ count: 1 });
+    mockSubmission.update.mockResolvedValue({ id: 1 });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should sync status and period end on customer.subscription.updated', async () => {
+    mockSubmission.findUnique.mockResolvedValue({ id: 1, billingStatus: 'OVERDUE' });
+
+    const response = await webhookPOST(
+      createWebhookRequest(createSubscriptionEvent('customer.subscription.updated', 'active'))
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockSubmission.findUnique).toHaveBeenCalledWith({
+      where: { stripeSubscriptionId: 'sub_123' },
+    });
+    expect(mockSubmission.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({
+        subscriptionStatus: 'active',
+        subscriptionCurrentPeriodEnd: new Date(1800000000 * 1000),
+        subscriptionCanceledAt: null,
+        billingStatus: 'PAID',
+      }),
+    });
+  });
+
+  it('should keep the billing status while trialing', async () => {
+    mockSubmission.findUnique.mockResolvedValue({ id: 1, billingStatus: 'PENDING' });
+
+    await webhookPOST(
+      createWebhookRequest(createSubscriptionEvent('customer.subscription.trial_will_end', 'trialing'))
+    );
+
+    expect(mockSubmission.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({ subscriptionStatus: 'trialing', billingStatus: 'PENDING' }),
+    });
+  });
+
+  it('should record paused and resumed subscriptions', async () => {
+    mockSubmission.findUnique.mockResolvedValue({ id: 1, billingStatus: 'PAID' });
+
+    await webhookPOST(
+      createWebhookRequest(createSubscriptionEvent('customer.subscription.paused', 'paused'))
+    );
+    expect(mockSubmission.update).toHaveBeenLastCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({ subscriptionStatus: 'paused', billingStatus: 'PAID' }),
+    });
+
+    await webhookPOST(
+      createWebhookRequest(createSubscriptionEvent('customer.subscription.resumed', 'active'))
+    );
+    expect(mockSubmission.update).toHaveBeenLastCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({ subscriptionStatus: 'active' }),
+    });
+  });
+
+  it('should mark unpaid subscriptions as overdue', async () => {
+    mockSubmission.findUnique.mockResolvedValue({ id: 1, billingStatus: 'PAID' });
+
+    await webhookPOST(
+      createWebhookRequest(createSubscriptionEvent('customer.subscription.updated', 'unpaid'))
+    );
+
+    expect(mockSubmission.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({ subscriptionStatus: 'unpaid', billingStatus: 'OVERDUE' }),
+    });
+  });
+
+  it('should treat incomplete_expired subscriptions as canceled', async () => {
+    mockSubmission.findUnique.mockResolvedValue({ id: 1, billingStatus: 'PENDING' });
+
+    await webhookPOST(
+      createWebhookRequest(
+        createSubscriptionEvent('customer.subscription.updated', 'incomplete_expired', 1790000000)
+      )
+    );
+
+    expect(mockSubmission.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({
+        subscriptionStatus: 'canceled',
+        subscriptionCanceledAt: new Date(1790000000 * 1000),
+        billingStatus: 'CANCELLED',
+      }),
+    });
+  });
+
+  it('should ignore an update delivered after the cancellation', async () => {
+    mockSubmission.findUnique.mockResolvedValue({
+      id: 1,
+      billingStatus: 'PAID',
+      subscriptionStatus: 'active',
+      subscriptionEventAt: new Date(1779990000 * 1000),
+    });
+
+    await webhookPOST(createWebhookRequest(
+      createSubscriptionEvent('customer.subscription.deleted', 'canceled', 1780000100, 1780000100)
+    ));
+    expect(mockSubmission.update).toHaveBeenLastCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({
+        subscriptionStatus: 'canceled',
+        subscriptionEventAt: new Date(1780000100 * 1000),
+        billingStatus: 'CANCELLED',
+      }),
+    });
+
+    // The late update sees the stored cancellation
+    mockSubmission.findUnique.mockResolvedValue({
+      id: 1,
+      billingStatus: 'CANCELLED',
+      subscriptionStatus: 'canceled',
+      subscriptionEventAt: new Date(1780000100 * 1000),
+    });
+    mockSubmission.update.mockClear();
+
+    const response = await webhookPOST(createWebhookRequest(
+      createSubscriptionEvent('customer.subscription.updated', 'active', null, 1780000000)
+    ));
+
+    expect(response.status).toBe(200);
+    expect(mockSubmission.update).not.toHaveBeenCalled();
+  });
+
+  it('should never move a canceled subscription back to an earlier status', async () => {
+    mockSubmission.findUnique.mockResolvedValue({
+      id: 1,
+      billingStatus: 'CANCELLED',
+      subscriptionStatus: 'canceled',
+      subscriptionEventAt: new Date(1780000000 * 1000),
+    });
+
+    await webhookPOST(createWebhookRequest(
+      createSubscriptionEvent('customer.subscription.updated', 'active', null, 1780000500)
+    ));
+
+    expect(mockSubmission.update).not.toHaveBeenCalled();
+  });
+
+  it('should skip subscription events older than the last one applied', async () => {
+    mockSubmission.findUnique.mockResolvedValue({
+      id: 1,
+      billingStatus: 'OVERDUE',
+      subscriptionStatus: 'unpaid',
+      subscriptionEventAt: new Date(1780000500 * 1000),
+    });
+
+    await webhookPOST(createWebhookRequest(
+      createSubscriptionEvent('customer.subscription.updated', 'active', null, 1780000000)
+    ));
+
+    expect(mockSubmission.update).not.toHaveBeenCalled();
+  });
+
+  it('should update the renewal date on invoice.upcoming', async () => {
+    mockSubmission.findUnique.mockResolvedValue({ id: 1, billingStatus: 'PAID' });
+
+    const event = {
+      id: 'evt_upcoming',
+      type: 'invoice.upcoming',
+      data: {
+        object: {
+          amount_due: 9900,
+          period_end: 1800000000,
+          parent: { subscription_details: { subscription: 'sub_123' } },
+        },
+      },
+    };
+    const response = await webhookPOST(createWebhookRequest(event));
+
+    expect(response.status).toBe(200);
+    expect(mockSubmission.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({
+        subscriptionCurrentPeriodEnd: new Date(1800000000 * 1000),
+      }),
+    });
+  });
+});
+
+describe('Stripe Event Replay Route - POST', () => {
+  const mockAuthorize = vi.mocked(authorize);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createReplayRequest(id: string): NextRequest {
+    return new NextRequest(
+      new URL(`/api/admin/stripe-events/${id}/replay`, 'http://localhost'),
+      { method: 'POST' }
+    );
+  }
+
+  it('should return 403 when the role cannot manage billing', async () => {
+    mockAuthorize.mockResolvedValue({ authorized: false, status: 403, error: 'Forbidden' });
+
+    const response = await replayPOST(createReplayRequest('evt_123'), {
+      params: Promise.resolve({ id: 'evt_123' }),
+    });
+
+    expect(response.status).toBe(403);
+    expect(mockAuthorize).toHaveBeenCalledWith('billing:manage');
+  });
+
+  it('should return 409 for an event that was already processed', async () => {
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+    mockStripeEvent.findUnique.mockResolvedValue({
+      id: 'evt_123',
+      status: 'PROCESSED',
+      payload: JSON.stringify(createCheckoutEvent()),
+    });
+
+    const response = await replayPOST(createReplayRequest('evt_123'), {
+      params: Promise.resolve({ id: 'evt_123' }),
+    });
+
+    expect(response.status).toBe(409);
+    expect(mockSubmission.update).not.toHaveBeenCalled();
+  });
+
+  it('should re-run the handler from the stored payload', async () => {
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+    mockStripeEvent.findUnique.mockResolvedValue({
+      id: 'evt_123',
+      type: 'checkout.session.completed',
+      status: 'FAILED',
+      payload: JSON.stringify(createCheckoutEvent()),
+    });
+    mockSubmission.findUnique.mockResolvedValue({ id: 1, paidAt: null });
+    mockSubmission.update.mockResolvedValue({ id: 1 });
+
+    const response = await replayPOST(createReplayRequest('evt_123'), {
+      params: Promise.resolve({ id: 'evt_123' }),
+    });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.success).toBe(true);
+    expect(mockSubmission.update).toHaveBeenCalledTimes(1);
+    expect(mockStripeEvent.update).toHaveBeenLastCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'PROCESSED' }) })
+    );
+  });
+});
+
+// Helper to build a Stripe refund object
+const createStripeRefund = (id: string, amount: number, status = 'succeeded') => ({
+  id,
+  amount,
+  currency: 'usd',
+  status,
+  reason: 'requested_by_customer',
+  created: 1780000500,
+  charge: 'ch_123',
+  payment_intent: 'pi_123',
+});
+
+describe('Stripe Webhook Route - charge.refunded', () => {
+  const mockListChargeRefunds = vi.mocked(listChargeRefunds);
+
+  const chargeRefundedEvent = {
+    id: 'evt_refund',
+    type: 'charge.refunded',
+    data: {
+      object: {
+        id: 'ch_123',
+        payment_intent: 'pi_123',
+        customer: 'cus_123',
+        amount: 150000,
+        amount_refunded: 150000,
+      },
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockStripeEvent.createMany.mockResolvedValue({ count: 1 });
+    mockSubmission.update.mockResolvedValue({ id: 1 });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should record each refund and mark a fully refunded customer', async () => {
+    mockPayment.findFirst.mockResolvedValue({ customerId: 1 });
+    mockListChargeRefunds.mockResolvedValue([
+      createStripeRefund('re_1', 50000),
+      createStripeRefund('re_2', 100000),
+      createStripeRefund('re_3', 20000, 'failed'),
+    ] as never);
+    mockSubmission.findUnique.mockResolvedValue({ subscriptionStatus: null });
+    mockPayment.findMany.mockResolvedValue([{ amountCents: 150000, stripePaymentIntentId: 'pi_123' }]);
+    mockPayment.aggregate.mockResolvedValue({ _sum: { amountCents: 150000 } });
+
+    const response = await webhookPOST(createWebhookRequest(chargeRefundedEvent));
+
+    expect(response.status).toBe(200);
+    expect(mockListChargeRefunds).toHaveBeenCalledWith('ch_123');
+    expect(mockPayment.upsert).toHaveBeenCalledTimes(2);
+    expect(mockPayment.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { stripeRefundId: 're_2' },
+        create: expect.objectContaining({
+          customerId: 1,
+          type: 'REFUND',
+          amountCents: 100000,
+          stripePaymentIntentId: 'pi_123',
+          stripeChargeId: 'ch_123',
+          paidAt: new Date(1780000500 * 1000),
+        }),
+      })
+    );
+    expect(mockSubmission.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { billingStatus: 'REFUNDED' },
+    });
+  });
+
+  it('should leave the billing status alone after a partial refund', async () => {
+    mockPayment.findFirst.mockResolvedValue({ customerId: 1 });
+    mockListChargeRefunds.mockResolvedValue([createStripeRefund('re_1', 50000)] as never);
+    mockSubmission.findUnique.mockResolvedValue({ subscriptionStatus: null });
+    mockPayment.findMany.mockResolvedValue([{ amountCents: 150000, stripePaymentIntentId: 'pi_123' }]);
+    mockPayment.aggregate.mockResolvedValue({ _sum: { amountCents: 50000 } });
+
+    const response = await webhookPOST(createWebhookRequest(chargeRefundedEvent));
+
+    expect(response.status).toBe(200);
+    expect(mockPayment.upsert).toHaveBeenCalledTimes(1);
+    expect(mockSubmission.update).not.toHaveBeenCalled();
+  });
+
+  it('should skip charges that do not belong to a known customer', async () => {
+    mockPayment.findFirst.mockResolvedValue(null);
+    mockSubmission.findUnique.mockResolvedValue(null);
+
+    const response = await webhookPOST(createWebhookRequest(chargeRefundedEvent));
+
+    expect(response.status).toBe(200);
+    expect(mockListChargeRefunds).not.toHaveBeenCalled();
+    expect(mockPayment.upsert).not.toHaveBeenCalled();
+  });
+});
+
+describe('Payment Refund Route - POST', () => {
+  const mockAuthorize = vi.mocked(authorize);
+  const mockCreateRefund = vi.mocked(createRefund);
+
+  const setupFeePayment = {
+    id: 5,
+    createdAt: new Date('2026-01-01'),
+    customerId: 1,
+    type: 'SETUP_FEE',
+    amountCents: 150000,
+    currency: 'usd',
+    description: null,
+    stripeCheckoutSessionId: 'cs_123',
+    stripeInvoiceId: null,
+    stripePaymentIntentId: 'pi_123',
+    stripeChargeId: null,
+    stripeRefundId: null,
+    paidAt: new Date('2026-01-01'),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+    mockPayment.findUnique.mockResolvedValue(setupFeePayment);
+    mockPayment.aggregate.mockResolvedValue({ _sum: { amountCents: null } });
+    mockPayment.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function callRefund(body: object, customerId = '1', paymentId = '5') {
+    const request = new NextRequest(
+      new URL(`/api/admin/customers/${customerId}/payments/${paymentId}/refund`, 'http://localhost'),
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      }
+    );
+    return refundPOST(request, { params: Promise.resolve({ id: customerId, paymentId }) });
+  }
+
+  it('should return 403 when the role cannot manage billing', async () => {
+    mockAuthorize.mockResolvedValue({ authorized: false, status: 403, error: 'Forbidden' });
+
+    const response = await callRefund({});
+
+    expect(response.status).toBe(403);
+    expect(mockAuthorize).toHaveBeenCalledWith('billing:manage');
+    expect(mockCreateRefund).not.toHaveBeenCalled();
+  });
+
+  it("should return 404 for another customer's payment", async () => {
+    const response = await callRefund({}, '2');
+
+    expect(response.status).toBe(404);
+    expect(mockCreateRefund).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 when the payment is already fully refunded', async () => {
+    mockPayment.aggregate.mockResolvedValue({ _sum: { amountCents: 150000 } });
+
+    const response = await callRefund({});
+
+    expect(response.status).toBe(409);
+    expect(mockCreateRefund).not.toHaveBeenCalled();
+  });
+
+  it('should reject an amount above the refundable balance', async () => {
+    mockPayment.aggregate.mockResolvedValue({ _sum: { amountCents: 100000 } });
+
+    const response = await callRefund({ amount: 600 });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toContain('$500.00');
+    expect(mockCreateRefund).not.toHaveBeenCalled();
+  });
+
+  it('should refund through Stripe and record the refund', async () => {
+    mockCreateRefund.mockResolvedValue(createStripeRefund('re_1', 50000) as never);
+    mockSubmission.findUnique.mockResolvedValue({ subscriptionStatus: null });
+
+    const response = await callRefund({ amount: 500, reason: 'requested_by_customer' });
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.data.type).toBe('REFUND');
+    expect(mockCreateRefund).toHaveBeenCalledWith({
+      paymentIntentId: 'pi_123',
+      amountCents: 50000,
+      reason: 'requested_by_customer',
+      metadata: { submissionId: '1', paymentId: '5' },
+    });
+    expect(mockPayment.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { stripeRefundId: 're_1' } })
+    );
+    expect(vi.mocked(recordAuditEvent)).toHaveBeenCalledWith(
+      expect.anything(),
+      AUTHORIZED.session,
+      expect.objectContaining({ action: 'payment.refund', entityType: 'PAYMENT', entityId: 5 })
+    );
+  });
+
+  it('should return 502 when Stripe rejects the refund', async () => {
+    mockCreateRefund.mockRejectedValue(new Error('Charge already refunded'));
+
+    const response = await callRefund({});
+
+    expect(response.status).toBe(502);
+    expect(mockPayment.upsert).not.toHaveBeenCalled();
+  });
+});
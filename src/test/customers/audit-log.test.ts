@@ -0,0 +1,84 @@
+/**
+ * Tests for Audit Log Queries
+ *
+ * Tests the field-level diff recorded with each audit event.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/db', () => ({
+  prisma: {},
+}));
+
+import { diffChanges } from '@/lib/admin/auditQueries';
+
+describe('diffChanges', () => {
+  it('should only include fields that changed', () => {
+    expect(diffChanges(
+      { status: 'NEW', businessName: 'Taco Shop', phone: null },
+      { status: 'REVIEWED', businessName: 'Taco Shop', phone: null }
+    )).toEqual({
+      status: { from: 'NEW', to: 'REVIEWED' },
+    });
+  });
+
+  it('should return no changes for identical snapshots', () => {
+    expect(diffChanges({ status: 'NEW', notes: ['a'] }, { status: 'NEW', notes: ['a'] })).toEqual({});
+  });
+
+  it('should ignore createdAt and updatedAt', () => {
+    expect(diffChanges(
+      { createdAt: new Date('2026-01-01'), updatedAt: new Date('2026-01-01') },
+      { createdAt: new Date('2026-01-02'), updatedAt: new Date('2026-01-02') }
+    )).toEqual({});
+  });
+
+  it('should compare Dates by value', () => {
+    const paidAt = new Date('2026-02-10T12:00:00.000Z');
+
+    expect(diffChanges({ paidAt }, { paidAt: new Date(paidAt) })).toEqual({});
+    expect(diffChanges({ paidAt: null }, { paidAt })).toEqual({
+      paidAt: { from: null, to: paidAt },
+    });
+  });
+
+  it('should compare nested values by content', () => {
+    expect(diffChanges(
+      { features: ['menu', 'contact'], settings: { theme: 'light' } },
+      { features: ['menu', 'contact'], settings: { theme: 'light' } }
+    )).toEqual({});
+    expect(diffChanges(
+      { features: ['menu'], settings: { theme: 'light' } },
+      { features: ['menu', 'blog'], settings: { theme: 'dark' } }
+    )).toEqual({
+      features: { from: ['menu'], to: ['menu', 'blog'] },
+      settings: { from: { theme: 'light' }, to: { theme: 'dark' } },
+    });
+  });
+
+  it('should treat missing and undefined fields as null', () => {
+    expect(diffChanges({ phone: undefined }, { phone: null })).toEqual({});
+    expect(diffChanges({}, { phone: '+1 555 0100' })).toEqual({
+      phone: { from: null, to: '+1 555 0100' },
+    });
+  });
+
+  it('should describe a create and a delete', () => {
+    expect(diffChanges(null, { content: 'Called' })).toEqual({
+      content: { from: null, to: 'Called' },
+    });
+    expect(diffChanges({ content: 'Called' }, null)).toEqual({
+      content: { from: 'Called', to: null },
+    });
+  });
+
+  it('should only compare the listed fields', () => {
+    expect(diffChanges(
+      { status: 'NEW', internalNotes: 'a' },
+      { status: 'PAID', internalNotes: 'b' },
+      ['status']
+    )).toEqual({
+      status: { from: 'NEW', to: 'PAID' },
+    });
+  });
+});
@@ -23,6 +23,11 @@ vi.mock('next/navigation', () => ({
   }),
 }));
 
+// Saved views fetch their own data; these tests cover the customer list requests
+vi.mock('@/components/admin/shared/SavedViews', () => ({
+  default: () => null,
+}));
+
 // Mock customer data
 const mockCustomers: Submission[] = [
   {
@@ -46,6 +51,7 @@ const mockCustomers: Submission[] = [
     notes: 'Great customer!',
     paidAt: new Date('2026-01-10'),
     revenue: 2500,
+    totalRevenue: 2500,
   },
   {
     id: 2,
@@ -68,6 +74,7 @@ const mockCustomers: Submission[] = [
     notes: null,
     paidAt: new Date('2026-01-15'),
     revenue: 7500,
+    totalRevenue: 7500,
   },
 ];
 
@@ -8,7 +8,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // Mock the session utilities
 vi.mock('@/lib/auth/session', () => ({
-  isAuthenticated: vi.fn(),
+  authorize: vi.fn(),
 }));
 
 // Mock the database queries
@@ -18,11 +18,18 @@ vi.mock('@/lib/admin/queries', () => ({
 }));
 
 import { GET } from '@/app/api/admin/metrics/route';
-import { isAuthenticated } from '@/lib/auth/session';
+import { authorize } from '@/lib/auth/session';
+import type { AuthorizationResult } from '@/types/admin';
 import { getDashboardMetrics, getRecentActivity } from '@/lib/admin/queries';
 
+const AUTHORIZED: AuthorizationResult = {
+  authorized: true,
+  session: { userId: 1, email: 'owner@example.com', name: 'Owner', role: 'OWNER' },
+};
+const UNAUTHORIZED: AuthorizationResult = { authorized: false, status: 401, error: 'Unauthorized' };
+
 describe('Metrics API Route - GET', () => {
-  const mockIsAuthenticated = vi.mocked(isAuthenticated);
+  const mockAuthorize = vi.mocked(authorize);
   const mockGetDashboardMetrics = vi.mocked(getDashboardMetrics);
   const mockGetRecentActivity = vi.mocked(getRecentActivity);
 
@@ -35,7 +42,7 @@ describe('Metrics API Route - GET', () => {
   });
 
   it('should return 401 when not authenticated', async () => {
-    mockIsAuthenticated.mockResolvedValue(false);
+    mockAuthorize.mockResolvedValue(UNAUTHORIZED);
 
     const response = await GET();
     const data = await response.json();
@@ -46,7 +53,7 @@ describe('Metrics API Route - GET', () => {
   });
 
   it('should return metrics and activity when authenticated', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     mockGetDashboardMetrics.mockResolvedValue({
       totalLeads: 50,
       newLeads: 20,
@@ -93,7 +100,7 @@ describe('Metrics API Route - GET', () => {
   });
 
   it('should handle empty activity list', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     mockGetDashboardMetrics.mockResolvedValue({
       totalLeads: 0,
       newLeads: 0,
@@ -114,7 +121,7 @@ describe('Metrics API Route - GET', () => {
   });
 
   it('should handle database errors gracefully', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     mockGetDashboardMetrics.mockRejectedValue(new Error('Database error'));
 
     const response = await GET();
@@ -126,7 +133,7 @@ describe('Metrics API Route - GET', () => {
   });
 
   it('should return correct conversion rate calculation', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     mockGetDashboardMetrics.mockResolvedValue({
       totalLeads: 100,
       newLeads: 50,
@@ -145,7 +152,7 @@ describe('Metrics API Route - GET', () => {
   });
 
   it('should include all activity types in response', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     mockGetDashboardMetrics.mockResolvedValue({
       totalLeads: 10,
       newLeads: 3,
@@ -0,0 +1,296 @@
+/**
+ * Tests for Saved Views
+ *
+ * Tests the saved view filter validation and the /api/admin/saved-views
+ * endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock Prisma - using factory with hoisted mock
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    savedView: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+  },
+}));
+
+// Mock the session utilities
+vi.mock('@/lib/auth/session', () => ({
+  authorize: vi.fn(),
+}));
+
+import { GET, POST } from '@/app/api/admin/saved-views/route';
+import { PATCH, DELETE } from '@/app/api/admin/saved-views/[id]/route';
+import { validateSavedViewFilters, toggleSort, sortToParams } from '@/lib/admin/listFilters';
+import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/session';
+import type { AuthorizationResult } from '@/types/admin';
+
+const AUTHORIZED: AuthorizationResult = {
+  authorized: true,
+  session: { userId: 4, email: 'designer@example.com', name: 'Designer', role: 'DESIGNER' },
+};
+
+// Cast to get access to mock methods
+const mockSavedView = prisma.savedView as unknown as {
+  findMany: ReturnType<typeof vi.fn>;
+  findFirst: ReturnType<typeof vi.fn>;
+  count: ReturnType<typeof vi.fn>;
+  create: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
+  delete: ReturnType<typeof vi.fn>;
+};
+
+const VIEW_ROW = {
+  id: 9,
+  createdAt: new Date('2026-03-01T10:00:00Z'),
+  updatedAt: new Date('2026-03-01T10:00:00Z'),
+  userId: 4,
+  list: 'BILLING',
+  name: 'Overdue restaurants',
+  filters: '{"billingStatus":"OVERDUE","industryType":"restaurant"}',
+};
+
+function createRequest(url: string, method: string = 'GET', body?: unknown): NextRequest {
+  return new NextRequest(new URL(url, 'http://localhost'), {
+    method,
+    ...(body !== undefined && {
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+    }),
+  });
+}
+
+function routeParams(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+describe('List filter helpers', () => {
+  it('should accept known list parameters and drop blank values', () => {
+    expect(validateSavedViewFilters({ billingStatus: 'OVERDUE', search: '  bakery ', timeline: '' })).toEqual({
+      data: { billingStatus: 'OVERDUE', search: 'bakery' },
+    });
+  });
+
+  it('should reject unknown keys, non-string values and values the list would refuse', () => {
+    expect(validateSavedViewFilters({ page: '2' }).error).toBe('Unknown filter: page');
+    expect(validateSavedViewFilters({ status: 3 }).error).toBe('status must be a string');
+    expect(validateSavedViewFilters({ paidFrom: 'last week' }).error).toContain('YYYY-MM-DD');
+    expect(validateSavedViewFilters(['status']).error).toBe('filters must be an object');
+  });
+
+  it('should sort dates newest first and flip the order on a second click', () => {
+    const byName = toggleSort({ sortBy: 'createdAt', sortOrder: 'desc' }, 'businessName');
+    expect(byName).toEqual({ sortBy: 'businessName', sortOrder: 'asc' });
+    expect(toggleSort(byName, 'businessName')).toEqual({ sortBy: 'businessName', sortOrder: 'desc' });
+    expect(toggleSort(byName, 'paidAt')).toEqual({ sortBy: 'paidAt', sortOrder: 'desc' });
+    expect(sortToParams({ sortBy: 'createdAt', sortOrder: 'desc' })).toEqual({});
+  });
+});
+
+describe('Saved Views API Route - GET', () => {
+  const mockAuthorize = vi.mocked(authorize);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should return 401 when not authenticated', async () => {
+    mockAuthorize.mockResolvedValue({ authorized: false, status: 401, error: 'Unauthorized' });
+
+    const response = await GET(createRequest('/api/admin/saved-views?list=LEADS'));
+
+    expect(response.status).toBe(401);
+    expect(mockSavedView.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for an invalid list', async () => {
+    const response = await GET(createRequest('/api/admin/saved-views?list=USERS'));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toContain('Invalid list');
+  });
+
+  it("should list the signed-in admin's views with parsed filters", async () => {
+    mockSavedView.findMany.mockResolvedValue([VIEW_ROW, { ...VIEW_ROW, id: 10, name: 'Broken', filters: 'not json' }]);
+
+    const response = await GET(createRequest('/api/admin/saved-views?list=BILLING'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockSavedView.findMany).toHaveBeenCalledWith({
+      where: { userId: 4, list: 'BILLING' },
+      orderBy: { name: 'asc' },
+    });
+    expect(data.data[0].filters).toEqual({ billingStatus: 'OVERDUE', industryType: 'restaurant' });
+    expect(data.data[1].filters).toEqual({});
+  });
+});
+
+describe('Saved Views API Route - POST', () => {
+  const mockAuthorize = vi.mocked(authorize);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+    mockSavedView.count.mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    [{ list: 'BILLING', filters: {} }, 'name must be a non-empty string'],
+    [{ list: 'BILLING', name: 'x'.repeat(61), filters: {} }, 'name must be at most 60 characters'],
+    [{ list: 'REPORTS', name: 'Mine', filters: {} }, 'list must be one of'],
+    [{ list: 'LEADS', name: 'Mine', filters: { password: 'x' } }, 'Unknown filter: password'],
+    [{ list: 'LEADS', name: 'Mine', filters: { sortBy: 'email' } }, 'Invalid sortBy'],
+  ])('should return 400 for %j', async (body, message) => {
+    const response = await POST(createRequest('/api/admin/saved-views', 'POST', body));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toContain(message);
+    expect(mockSavedView.create).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 when the admin already has a view with the name', async () => {
+    mockSavedView.count.mockResolvedValue(1);
+
+    const response = await POST(createRequest('/api/admin/saved-views', 'POST', {
+      list: 'BILLING',
+      name: 'Overdue restaurants',
+      filters: { billingStatus: 'OVERDUE' },
+    }));
+
+    expect(response.status).toBe(409);
+    expect(mockSavedView.count).toHaveBeenCalledWith({
+      where: { userId: 4, list: 'BILLING', name: 'Overdue restaurants' },
+    });
+    expect(mockSavedView.create).not.toHaveBeenCalled();
+  });
+
+  it('should save the view for the signed-in admin', async () => {
+    mockSavedView.create.mockResolvedValue(VIEW_ROW);
+
+    const response = await POST(createRequest('/api/admin/saved-views', 'POST', {
+      list: 'BILLING',
+      name: '  Overdue restaurants ',
+      filters: { billingStatus: 'OVERDUE', industryType: 'restaurant' },
+    }));
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(mockSavedView.create).toHaveBeenCalledWith({
+      data: {
+        userId: 4,
+        list: 'BILLING',
+        name: 'Overdue restaurants',
+        filters: '{"billingStatus":"OVERDUE","industryType":"restaurant"}',
+      },
+    });
+    expect(data.data.filters).toEqual({ billingStatus: 'OVERDUE', industryType: 'restaurant' });
+  });
+});
+
+describe('Saved View Detail API Route', () => {
+  const mockAuthorize = vi.mocked(authorize);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+    mockSavedView.count.mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should return 404 when renaming another admin's view", async () => {
+    mockSavedView.findFirst.mockResolvedValue(null);
+
+    const response = await PATCH(
+      createRequest('/api/admin/saved-views/9', 'PATCH', { name: 'Mine now' }),
+      routeParams('9')
+    );
+
+    expect(response.status).toBe(404);
+    expect(mockSavedView.findFirst).toHaveBeenCalledWith({ where: { id: 9, userId: 4 } });
+    expect(mockSavedView.update).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 when renaming to a name already used on the list', async () => {
+    mockSavedView.findFirst.mockResolvedValue(VIEW_ROW);
+    mockSavedView.count.mockResolvedValue(1);
+
+    const response = await PATCH(
+      createRequest('/api/admin/saved-views/9', 'PATCH', { name: 'Refunds' }),
+      routeParams('9')
+    );
+
+    expect(response.status).toBe(409);
+    expect(mockSavedView.count).toHaveBeenCalledWith({
+      where: { userId: 4, list: 'BILLING', name: 'Refunds', id: { not: 9 } },
+    });
+  });
+
+  it('should replace the filters of a view', async () => {
+    mockSavedView.findFirst.mockResolvedValue(VIEW_ROW);
+    mockSavedView.update.mockResolvedValue({ ...VIEW_ROW, filters: '{"billingStatus":"REFUNDED"}' });
+
+    const response = await PATCH(
+      createRequest('/api/admin/saved-views/9', 'PATCH', { filters: { billingStatus: 'REFUNDED' } }),
+      routeParams('9')
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockSavedView.update).toHaveBeenCalledWith({
+      where: { id: 9 },
+      data: { filters: '{"billingStatus":"REFUNDED"}' },
+    });
+    expect(data.data.filters).toEqual({ billingStatus: 'REFUNDED' });
+  });
+
+  it('should return 400 for an invalid view ID', async () => {
+    const response = await DELETE(createRequest('/api/admin/saved-views/abc', 'DELETE'), routeParams('abc'));
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should not delete another admin's view", async () => {
+    mockSavedView.findFirst.mockResolvedValue(null);
+
+    const response = await DELETE(createRequest('/api/admin/saved-views/9', 'DELETE'), routeParams('9'));
+
+    expect(response.status).toBe(404);
+    expect(mockSavedView.delete).not.toHaveBeenCalled();
+  });
+
+  it('should delete a view', async () => {
+    mockSavedView.findFirst.mockResolvedValue(VIEW_ROW);
+    mockSavedView.delete.mockResolvedValue(VIEW_ROW);
+
+    const response = await DELETE(createRequest('/api/admin/saved-views/9', 'DELETE'), routeParams('9'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.success).toBe(true);
+    expect(mockSavedView.delete).toHaveBeenCalledWith({ where: { id: 9 } });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Tests for Global Search
+ *
+ * Tests the prefix tsquery builder, the grouped full-text search queries
+ * and the GET /api/admin/search endpoint.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock Prisma - using factory with hoisted mock
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    $queryRaw: vi.fn(),
+  },
+}));
+
+// Mock the session utilities
+vi.mock('@/lib/auth/session', () => ({
+  authorize: vi.fn(),
+}));
+
+import { GET } from '@/app/api/admin/search/route';
+import { globalSearch, toPrefixTsQuery } from '@/lib/admin/searchQueries';
+import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/session';
+import type { AuthorizationResult } from '@/types/admin';
+
+const AUTHORIZED: AuthorizationResult = {
+  authorized: true,
+  session: { userId: 3, email: 'billing@example.com', name: 'Billing', role: 'BILLING' },
+};
+
+// Cast to get access to mock methods
+const mockQueryRaw = prisma.$queryRaw as unknown as ReturnType<typeof vi.fn>;
+
+// Rows returned for each searched table, keyed by the table in the FROM clause
+const ROWS: Record<string, unknown[]> = {
+  IntakeSubmission: [
+    { id: 1, fullName: 'Jane Baker', businessName: 'Corner Bakery', email: 'jane@cornerbakery.com', status: 'PAID', rank: 0.6 },
+    { id: 2, fullName: 'Tom Baker', businessName: 'Baker Plumbing', email: 'tom@example.com', status: 'NEW', rank: 0.3 },
+  ],
+  CustomerNote: [
+    { id: 7, customerId: 2, content: 'Called about the bakery   menu page.\nWants prices online.', noteType: 'CALL', businessName: 'Baker Plumbing', status: 'CONTACTED', rank: 0.2 },
+  ],
+  CustomerFile: [
+    { id: 12, customerId: 1, fileName: 'bakery-logo.svg', description: 'Primary logo', businessName: 'Corner Bakery', status: 'PAID', rank: 0.5 },
+  ],
+  Sites: [
+    { customerId: 1, businessName: 'Corner Bakery', status: 'PAID', liveUrl: 'https://cornerbakery.pages.dev', customDomain: 'cornerbakery.com', cfProductionUrl: null, rank: 0.1 },
+  ],
+};
+
+function mockSearchRows() {
+  mockQueryRaw.mockImplementation(async (strings: TemplateStringsArray) => {
+    const sql = strings.join('?');
+    if (sql.includes('LEFT JOIN "CustomerDeployment"')) return ROWS.Sites;
+    if (sql.includes('FROM "CustomerNote"')) return ROWS.CustomerNote;
+    if (sql.includes('FROM "CustomerFile"')) return ROWS.CustomerFile;
+    return ROWS.IntakeSubmission;
+  });
+}
+
+function createRequest(url: string): NextRequest {
+  return new NextRequest(new URL(url, 'http://localhost'));
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.mocked(authorize).mockResolvedValue(AUTHORIZED);
+  mockSearchRows();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('toPrefixTsQuery', () => {
+  it('should match every term as a prefix', () => {
+    expect(toPrefixTsQuery('corner  bak')).toBe("'corner':* & 'bak':*");
+  });
+
+  it('should keep emails and domains as single terms', () => {
+    expect(toPrefixTsQuery('jane@cornerbakery.com')).toBe("'jane@cornerbakery.com':*");
+  });
+
+  it('should strip quotes and drop terms without letters or digits', () => {
+    expect(toPrefixTsQuery("o'brien & | !")).toBe("'obrien':*");
+  });
+
+  it('should return null when nothing is searchable', () => {
+    expect(toPrefixTsQuery('  & ! ')).toBeNull();
+  });
+});
+
+describe('globalSearch', () => {
+  it('should group ranked results with links to the right page', async () => {
+    const results = await globalSearch('bakery');
+
+    expect(results.submissions.map((result) => result.href)).toEqual([
+      '/admin/customers/1',
+      '/admin/leads/2',
+    ]);
+    expect(results.submissions[0]).toMatchObject({
+      title: 'Corner Bakery',
+      subtitle: 'Jane Baker · jane@cornerbakery.com',
+      rank: 0.6,
+    });
+    expect(results.notes[0]).toMatchObject({
+      id: 7,
+      title: 'Called about the bakery menu page. Wants prices online.',
+      subtitle: 'Baker Plumbing · call note',
+      href: '/admin/leads/2',
+    });
+    expect(results.files[0]).toMatchObject({
+      title: 'bakery-logo.svg',
+      subtitle: 'Corner Bakery · Primary logo',
+      href: '/admin/customers/1?tab=files',
+    });
+    expect(results.sites[0]).toMatchObject({
+      title: 'cornerbakery.com',
+      href: '/admin/customers/1?tab=deployment',
+    });
+  });
+
+  it('should pass the tsquery and limit as query parameters', async () => {
+    await globalSearch('corner bak', 3);
+
+    expect(mockQueryRaw).toHaveBeenCalledTimes(4);
+    for (const [strings, ...values] of mockQueryRaw.mock.calls) {
+      expect(strings.join('?')).toContain("to_tsquery('simple', ?)");
+      expect(values).toEqual(["'corner':* & 'bak':*", 3]);
+    }
+  });
+
+  it('should only search current files', async () => {
+    await globalSearch('logo');
+
+    const fileCall = mockQueryRaw.mock.calls.find(([strings]) => strings.join('?').includes('FROM "CustomerFile"'));
+    const sql = fileCall![0].join('?');
+    expect(sql).toContain('f."deletedAt" IS NULL');
+    expect(sql).toContain('f."supersededAt" IS NULL');
+  });
+
+  it('should shorten long notes', async () => {
+    mockQueryRaw.mockImplementation(async (strings: TemplateStringsArray) =>
+      strings.join('?').includes('FROM "CustomerNote"')
+        ? [{ ...ROWS.CustomerNote[0] as object, content: 'word '.repeat(60) }]
+        : []
+    );
+
+    const results = await globalSearch('word');
+
+    expect(results.notes[0].title.length).toBeLessThanOrEqual(121);
+    expect(results.notes[0].title.endsWith('…')).toBe(true);
+  });
+
+  it('should not query when nothing is searchable', async () => {
+    const results = await globalSearch('&&');
+
+    expect(results).toEqual({ submissions: [], notes: [], files: [], sites: [] });
+    expect(mockQueryRaw).not.toHaveBeenCalled();
+  });
+});
+
+describe('Search API Route - GET', () => {
+  it('should return 401 when not authenticated', async () => {
+    vi.mocked(authorize).mockResolvedValueOnce({ authorized: false, status: 401, error: 'Unauthorized' });
+
+    const response = await GET(createRequest('/api/admin/search?q=bakery'));
+
+    expect(response.status).toBe(401);
+    expect(authorize).toHaveBeenCalledWith('submissions:view');
+  });
+
+  it('should reject search text shorter than 2 characters', async () => {
+    const response = await GET(createRequest('/api/admin/search?q=%20b%20'));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Search text must be at least 2 characters');
+    expect(mockQueryRaw).not.toHaveBeenCalled();
+  });
+
+  it('should return grouped results', async () => {
+    const response = await GET(createRequest('/api/admin/search?q=bakery'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.success).toBe(true);
+    expect(data.data.submissions).toHaveLength(2);
+    expect(data.data.notes).toHaveLength(1);
+    expect(data.data.files).toHaveLength(1);
+    expect(data.data.sites).toHaveLength(1);
+  });
+
+  it('should cap the per-group limit', async () => {
+    await GET(createRequest('/api/admin/search?q=bakery&limit=500'));
+
+    expect(mockQueryRaw.mock.calls[0].slice(1)).toEqual(["'bakery':*", 20]);
+  });
+
+  it('should return 500 when the search fails', async () => {
+    mockQueryRaw.mockRejectedValue(new Error('Database error'));
+
+    const response = await GET(createRequest('/api/admin/search?q=bakery'));
+
+    expect(response.status).toBe(500);
+  });
+});
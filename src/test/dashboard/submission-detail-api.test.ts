@@ -9,7 +9,7 @@ import { NextRequest } from 'next/server';
 
 // Mock the session utilities
 vi.mock('@/lib/auth/session', () => ({
-  isAuthenticated: vi.fn(),
+  authorize: vi.fn(),
 }));
 
 // Mock the database queries
@@ -18,9 +18,22 @@ vi.mock('@/lib/admin/queries', () => ({
   updateSubmission: vi.fn(),
 }));
 
+// Mock the audit log helper
+vi.mock('@/lib/admin/auditQueries', () => ({
+  recordAuditEvent: vi.fn(),
+}));
+
 import { GET, PATCH } from '@/app/api/admin/submissions/[id]/route';
-import { isAuthenticated } from '@/lib/auth/session';
-import { getSubmissionById, updateSubmission } from '@/lib/admin/queries';
+import { authorize } from '@/lib/auth/session';
+import type { AuthorizationResult } from '@/types/admin';
+import { getSubmissionById, updateSubmission, type Submission } from '@/lib/admin/queries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+
+const AUTHORIZED: AuthorizationResult = {
+  authorized: true,
+  session: { userId: 1, email: 'owner@example.com', name: 'Owner', role: 'OWNER' },
+};
+const UNAUTHORIZED: AuthorizationResult = { authorized: false, status: 401, error: 'Unauthorized' };
 
 // Helper to create NextRequest with URL
 function createRequest(url: string, init?: { method?: string; headers?: Record<string, string>; body?: string }): NextRequest {
@@ -28,7 +41,7 @@ function createRequest(url: string, init?: { method?: string; headers?: Record<s
 }
 
 // Helper to create mock submission
-const createMockSubmission = (overrides = {}) => ({
+const createMockSubmission = (overrides: Partial<Submission> = {}): Submission => ({
   id: 1,
   fullName: 'Test User',
   email: 'test@example.com',
@@ -49,11 +62,23 @@ const createMockSubmission = (overrides = {}) => ({
   notes: null,
   paidAt: null,
   revenue: null,
+  projectStatus: 'NOT_STARTED',
+  projectNotes: null,
+  liveUrl: null,
+  goLiveDate: null,
+  stripeCustomerId: null,
+  stripeSubscriptionId: null,
+  subscriptionStatus: null,
+  subscriptionCurrentPeriodEnd: null,
+  subscriptionCanceledAt: null,
+  billingStatus: 'PENDING',
+  lastInvoiceDate: null,
+  lastInvoicePaidAt: null,
   ...overrides,
 });
 
 describe('Submission Detail API Route - GET', () => {
-  const mockIsAuthenticated = vi.mocked(isAuthenticated);
+  const mockAuthorize = vi.mocked(authorize);
   const mockGetSubmissionById = vi.mocked(getSubmissionById);
 
   beforeEach(() => {
@@ -65,7 +90,7 @@ describe('Submission Detail API Route - GET', () => {
   });
 
   it('should return 401 when not authenticated', async () => {
-    mockIsAuthenticated.mockResolvedValue(false);
+    mockAuthorize.mockResolvedValue(UNAUTHORIZED);
 
     const request = createRequest('/api/admin/submissions/1');
     const response = await GET(request, { params: Promise.resolve({ id: '1' }) });
@@ -77,7 +102,7 @@ describe('Submission Detail API Route - GET', () => {
   });
 
   it('should return 400 for invalid submission ID', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
 
     const request = createRequest('/api/admin/submissions/invalid');
     const response = await GET(request, { params: Promise.resolve({ id: 'invalid' }) });
@@ -89,7 +114,7 @@ describe('Submission Detail API Route - GET', () => {
   });
 
   it('should return 404 when submission not found', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     mockGetSubmissionById.mockResolvedValue(null);
 
     const request = createRequest('/api/admin/submissions/999');
@@ -102,7 +127,7 @@ describe('Submission Detail API Route - GET', () => {
   });
 
   it('should return submission when found', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     const mockSubmission = createMockSubmission();
     mockGetSubmissionById.mockResolvedValue(mockSubmission);
 
@@ -119,7 +144,7 @@ describe('Submission Detail API Route - GET', () => {
 });
 
 describe('Submission Detail API Route - PATCH', () => {
-  const mockIsAuthenticated = vi.mocked(isAuthenticated);
+  const mockAuthorize = vi.mocked(authorize);
   const mockGetSubmissionById = vi.mocked(getSubmissionById);
   const mockUpdateSubmission = vi.mocked(updateSubmission);
 
@@ -132,7 +157,7 @@ describe('Submission Detail API Route - PATCH', () => {
   });
 
   it('should return 401 when not authenticated', async () => {
-    mockIsAuthenticated.mockResolvedValue(false);
+    mockAuthorize.mockResolvedValue(UNAUTHORIZED);
 
     const request = createRequest('/api/admin/submissions/1', {
       method: 'PATCH',
@@ -146,8 +171,25 @@ describe('Submission Detail API Route - PATCH', () => {
     expect(data.success).toBe(false);
   });
 
+  it('should return 403 when the role cannot edit submissions', async () => {
+    mockAuthorize.mockResolvedValue({ authorized: false, status: 403, error: 'Forbidden' });
+
+    const request = createRequest('/api/admin/submissions/1', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status: 'CONTACTED' }),
+    });
+    const response = await PATCH(request, { params: Promise.resolve({ id: '1' }) });
+    const data = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(data.error).toBe('Forbidden');
+    expect(mockAuthorize).toHaveBeenCalledWith('submissions:edit');
+    expect(mockUpdateSubmission).not.toHaveBeenCalled();
+  });
+
   it('should return 404 when submission not found', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     mockGetSubmissionById.mockResolvedValue(null);
 
     const request = createRequest('/api/admin/submissions/999', {
@@ -164,7 +206,7 @@ describe('Submission Detail API Route - PATCH', () => {
   });
 
   it('should return 400 for invalid status', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     mockGetSubmissionById.mockResolvedValue(createMockSubmission());
 
     const request = createRequest('/api/admin/submissions/1', {
@@ -181,7 +223,7 @@ describe('Submission Detail API Route - PATCH', () => {
   });
 
   it('should require revenue when setting status to PAID', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     mockGetSubmissionById.mockResolvedValue(createMockSubmission());
 
     const request = createRequest('/api/admin/submissions/1', {
@@ -198,7 +240,7 @@ describe('Submission Detail API Route - PATCH', () => {
   });
 
   it('should update status successfully', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     const originalSubmission = createMockSubmission();
     const updatedSubmission = createMockSubmission({ status: 'CONTACTED', contacted: true });
     mockGetSubmissionById.mockResolvedValue(originalSubmission);
@@ -218,8 +260,34 @@ describe('Submission Detail API Route - PATCH', () => {
     expect(mockUpdateSubmission).toHaveBeenCalledWith(1, { status: 'CONTACTED' });
   });
 
+  it('should record an audit event with the acting user', async () => {
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+    const originalSubmission = createMockSubmission();
+    const updatedSubmission = createMockSubmission({ status: 'CONTACTED', contacted: true });
+    mockGetSubmissionById.mockResolvedValue(originalSubmission);
+    mockUpdateSubmission.mockResolvedValue(updatedSubmission);
+
+    const request = createRequest('/api/admin/submissions/1', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status: 'CONTACTED' }),
+    });
+    await PATCH(request, { params: Promise.resolve({ id: '1' }) });
+
+    expect(vi.mocked(recordAuditEvent)).toHaveBeenCalledWith(
+      request,
+      expect.objectContaining({ userId: 1, role: 'OWNER' }),
+      expect.objectContaining({
+        action: 'submission.update',
+        entityType: 'SUBMISSION',
+        customerId: 1,
+        fields: ['status'],
+      })
+    );
+  });
+
   it('should update notes successfully', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     const originalSubmission = createMockSubmission();
     const updatedSubmission = createMockSubmission({ notes: 'Test note' });
     mockGetSubmissionById.mockResolvedValue(originalSubmission);
@@ -239,7 +307,7 @@ describe('Submission Detail API Route - PATCH', () => {
   });
 
   it('should update to PAID status with revenue', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     const originalSubmission = createMockSubmission();
     const updatedSubmission = createMockSubmission({
       status: 'PAID',
@@ -263,7 +331,7 @@ describe('Submission Detail API Route - PATCH', () => {
   });
 
   it('should return 400 for negative revenue', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     mockGetSubmissionById.mockResolvedValue(createMockSubmission());
 
     const request = createRequest('/api/admin/submissions/1', {
@@ -280,7 +348,7 @@ describe('Submission Detail API Route - PATCH', () => {
   });
 
   it('should return 400 when no valid fields to update', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     mockGetSubmissionById.mockResolvedValue(createMockSubmission());
 
     const request = createRequest('/api/admin/submissions/1', {
@@ -9,7 +9,7 @@ import { NextRequest } from 'next/server';
 
 // Mock the session utilities
 vi.mock('@/lib/auth/session', () => ({
-  isAuthenticated: vi.fn(),
+  authorize: vi.fn(),
 }));
 
 // Mock the database queries
@@ -18,16 +18,25 @@ vi.mock('@/lib/admin/queries', () => ({
 }));
 
 import { GET } from '@/app/api/admin/submissions/route';
-import { isAuthenticated } from '@/lib/auth/session';
+import { authorize } from '@/lib/auth/session';
+import type { AuthorizationResult } from '@/types/admin';
 import { getSubmissions } from '@/lib/admin/queries';
 
+const AUTHORIZED: AuthorizationResult = {
+  authorized: true,
+  session: { userId: 1, email: 'owner@example.com', name: 'Owner', role: 'OWNER' },
+};
+const UNAUTHORIZED: AuthorizationResult = { authorized: false, status: 401, error: 'Unauthorized' };
+
+const DEFAULT_SORT = { sortBy: 'createdAt', sortOrder: 'desc' };
+
 // Helper to create NextRequest with URL
 function createRequest(url: string): NextRequest {
   return new NextRequest(new URL(url, 'http://localhost'));
 }
 
 describe('Submissions API Route - GET', () => {
-  const mockIsAuthenticated = vi.mocked(isAuthenticated);
+  const mockAuthorize = vi.mocked(authorize);
   const mockGetSubmissions = vi.mocked(getSubmissions);
 
   beforeEach(() => {
@@ -39,7 +48,7 @@ describe('Submissions API Route - GET', () => {
   });
 
   it('should return 401 when not authenticated', async () => {
-    mockIsAuthenticated.mockResolvedValue(false);
+    mockAuthorize.mockResolvedValue(UNAUTHORIZED);
 
     const request = createRequest('/api/admin/submissions');
     const response = await GET(request);
@@ -51,7 +60,7 @@ describe('Submissions API Route - GET', () => {
   });
 
   it('should return paginated submissions when authenticated', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     mockGetSubmissions.mockResolvedValue({
       items: [
         {
@@ -91,11 +100,11 @@ describe('Submissions API Route - GET', () => {
     expect(data.success).toBe(true);
     expect(data.data.items).toHaveLength(1);
     expect(data.data.total).toBe(1);
-    expect(mockGetSubmissions).toHaveBeenCalledWith({}, 1, 10);
+    expect(mockGetSubmissions).toHaveBeenCalledWith({}, 1, 10, DEFAULT_SORT);
   });
 
   it('should filter by status when provided', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     mockGetSubmissions.mockResolvedValue({
       items: [],
       total: 0,
@@ -110,11 +119,11 @@ describe('Submissions API Route - GET', () => {
 
     expect(response.status).toBe(200);
     expect(data.success).toBe(true);
-    expect(mockGetSubmissions).toHaveBeenCalledWith({ status: 'CONTACTED' }, 1, 10);
+    expect(mockGetSubmissions).toHaveBeenCalledWith({ status: 'CONTACTED' }, 1, 10, DEFAULT_SORT);
   });
 
   it('should return 400 for invalid status', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
 
     const request = createRequest('/api/admin/submissions?status=INVALID');
     const response = await GET(request);
@@ -126,7 +135,7 @@ describe('Submissions API Route - GET', () => {
   });
 
   it('should handle search parameter', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     mockGetSubmissions.mockResolvedValue({
       items: [],
       total: 0,
@@ -139,11 +148,11 @@ describe('Submissions API Route - GET', () => {
     const response = await GET(request);
 
     expect(response.status).toBe(200);
-    expect(mockGetSubmissions).toHaveBeenCalledWith({ search: 'test' }, 1, 10);
+    expect(mockGetSubmissions).toHaveBeenCalledWith({ search: 'test' }, 1, 10, DEFAULT_SORT);
   });
 
   it('should handle pagination parameters', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     mockGetSubmissions.mockResolvedValue({
       items: [],
       total: 50,
@@ -159,11 +168,11 @@ describe('Submissions API Route - GET', () => {
     expect(response.status).toBe(200);
     expect(data.data.page).toBe(2);
     expect(data.data.limit).toBe(20);
-    expect(mockGetSubmissions).toHaveBeenCalledWith({}, 2, 20);
+    expect(mockGetSubmissions).toHaveBeenCalledWith({}, 2, 20, DEFAULT_SORT);
   });
 
   it('should cap limit at maximum (100)', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     mockGetSubmissions.mockResolvedValue({
       items: [],
       total: 0,
@@ -176,11 +185,64 @@ describe('Submissions API Route - GET', () => {
     const response = await GET(request);
 
     expect(response.status).toBe(200);
-    expect(mockGetSubmissions).toHaveBeenCalledWith({}, 1, 100);
+    expect(mockGetSubmissions).toHaveBeenCalledWith({}, 1, 100, DEFAULT_SORT);
+  });
+
+  it('should pass advanced filters and sorting', async () => {
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+    mockGetSubmissions.mockResolvedValue({
+      items: [],
+      total: 0,
+      page: 1,
+      limit: 10,
+      totalPages: 0,
+    });
+
+    const request = createRequest(
+      '/api/admin/submissions?industryType=restaurant&billingStatus=OVERDUE&deploymentStatus=DEPLOYED' +
+      '&budgetRange=500-1000&timeline=asap&createdFrom=2026-01-01&createdTo=2026-01-31&paidFrom=2026-02-01' +
+      '&sortBy=businessName&sortOrder=asc'
+    );
+    const response = await GET(request);
+
+    expect(response.status).toBe(200);
+    expect(mockGetSubmissions).toHaveBeenCalledWith(
+      {
+        industryType: 'restaurant',
+        billingStatus: 'OVERDUE',
+        deploymentStatus: 'DEPLOYED',
+        budgetRange: '500-1000',
+        timeline: 'asap',
+        createdFrom: new Date('2026-01-01T00:00:00.000Z'),
+        createdTo: new Date('2026-01-31T00:00:00.000Z'),
+        paidFrom: new Date('2026-02-01T00:00:00.000Z'),
+      },
+      1,
+      10,
+      { sortBy: 'businessName', sortOrder: 'asc' }
+    );
+  });
+
+  it.each([
+    ['billingStatus=LATE', 'Invalid billing status'],
+    ['deploymentStatus=LIVE', 'Invalid deployment status'],
+    ['createdFrom=2026-02-30', 'createdFrom must be a date in YYYY-MM-DD format'],
+    ['paidFrom=2026-03-01&paidTo=2026-02-01', 'The paid date range ends before it starts'],
+    ['sortBy=passwordHash', 'Invalid sortBy'],
+    ['sortOrder=up', 'Invalid sortOrder'],
+  ])('should return 400 for %s', async (query, message) => {
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+
+    const response = await GET(createRequest(`/api/admin/submissions?${query}`));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toContain(message);
+    expect(mockGetSubmissions).not.toHaveBeenCalled();
   });
 
   it('should handle database errors gracefully', async () => {
-    mockIsAuthenticated.mockResolvedValue(true);
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
     mockGetSubmissions.mockRejectedValue(new Error('Database error'));
 
     const request = createRequest('/api/admin/submissions');
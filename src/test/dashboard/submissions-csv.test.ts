@@ -0,0 +1,323 @@
+/**
+ * Tests for Submission CSV Export and Import
+ *
+ * Tests the CSV reader/writer, the GET /api/admin/submissions/export
+ * endpoint and the POST /api/admin/submissions/import endpoint.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock Prisma - using factory with hoisted mock
+vi.mock('@/lib/db', () => ({
+  prisma: {},
+}));
+
+// Mock the session utilities
+vi.mock('@/lib/auth/session', () => ({
+  authorize: vi.fn(),
+}));
+
+// Mock the database queries
+vi.mock('@/lib/admin/queries', () => ({
+  getSubmissionsForExport: vi.fn(),
+  getExistingSubmissionEmails: vi.fn(),
+  createImportedSubmissions: vi.fn(),
+}));
+
+vi.mock('@/lib/admin/auditQueries', () => ({
+  recordAuditEvent: vi.fn(),
+}));
+
+import { GET as exportSubmissions } from '@/app/api/admin/submissions/export/route';
+import { POST as importSubmissions } from '@/app/api/admin/submissions/import/route';
+import { parseCsv, toCsv, toSpreadsheetText, CsvParseError } from '@/lib/csv';
+import { guessImportMapping } from '@/lib/submissionCsv';
+import { authorize } from '@/lib/auth/session';
+import { getSubmissionsForExport, getExistingSubmissionEmails, createImportedSubmissions } from '@/lib/admin/queries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import type { Submission } from '@/lib/admin/queries';
+import type { AdminSessionPayload, AuthorizationResult } from '@/types/admin';
+
+const SESSION: AdminSessionPayload = { userId: 2, email: 'sales@example.com', name: 'Sales', role: 'SALES' };
+const AUTHORIZED: AuthorizationResult = { authorized: true, session: SESSION };
+
+const SUBMISSION: Submission = {
+  id: 14,
+  createdAt: new Date('2026-02-03T15:00:00Z'),
+  updatedAt: new Date('2026-02-03T15:00:00Z'),
+  fullName: 'Ana Ruiz',
+  email: 'ana@tacoshop.com',
+  phone: '+1 555 0100',
+  businessName: 'Taco Shop, LLC',
+  industryType: 'restaurant',
+  currentWebsite: null,
+  hasNoWebsite: true,
+  features: '["Online Menu","Contact Form"]',
+  otherFeatures: null,
+  budgetRange: '500-1000',
+  timeline: 'asap',
+  additionalInfo: '=HYPERLINK("http://evil.example")',
+  status: 'PAID',
+  contacted: true,
+  notes: null,
+  paidAt: new Date('2026-02-10T12:00:00Z'),
+  revenue: null,
+  totalRevenue: 1250,
+  projectStatus: 'IN_PROGRESS',
+  projectNotes: null,
+  liveUrl: null,
+  goLiveDate: null,
+  stripeCustomerId: null,
+  stripeSubscriptionId: null,
+  subscriptionStatus: null,
+  subscriptionCurrentPeriodEnd: null,
+  subscriptionCanceledAt: null,
+  billingStatus: 'PAID',
+  lastInvoiceDate: null,
+  lastInvoicePaidAt: null,
+};
+
+const IMPORT_CSV = [
+  'Name,E-mail Address,Company,Industry,Budget,Timeline,Features',
+  'Ana Ruiz,ana@tacoshop.com,Taco Shop,restaurant,500-1000,asap,Online Menu',
+  'Ben Ode,ben@odeplumbing.com,Ode Plumbing,trades,1000-2500,1-2-months,"Contact Form; Booking"',
+  'Cam Lee,not-an-email,Lee Studio,creative,500-1000,asap,',
+  'Ben Ode,BEN@odeplumbing.com,Ode Plumbing LLC,trades,1000-2500,asap,',
+].join('\r\n');
+
+function createImportRequest(body: unknown): NextRequest {
+  return new NextRequest(new URL('/api/admin/submissions/import', 'http://localhost'), {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('CSV utilities', () => {
+  it('should round-trip quotes, commas and line breaks', () => {
+    const rows = [
+      ['Name', 'Notes'],
+      ['Taco Shop, LLC', 'Said "call after 5"\nPrefers email'],
+    ];
+
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it('should skip a byte order mark and blank lines', () => {
+    expect(parseCsv('﻿a,b\n\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('should reject an unclosed quote', () => {
+    expect(() => parseCsv('a,b\n"1,2\n3,4')).toThrow(CsvParseError);
+  });
+
+  it.each(['=SUM(A1)', '+1 555 0100', '-2+3', '@cmd', '\tname', '\rname'])(
+    'should quote %j so spreadsheets read it as text',
+    (value) => {
+      expect(toSpreadsheetText(value)).toBe(`'${value}`);
+    }
+  );
+
+  it('should leave other values unchanged', () => {
+    expect(toSpreadsheetText('Taco Shop')).toBe('Taco Shop');
+    expect(toSpreadsheetText('a=b')).toBe('a=b');
+    expect(toSpreadsheetText(-5)).toBe(-5);
+    expect(toSpreadsheetText(null)).toBe(null);
+  });
+
+  it('should match headers to import fields by name', () => {
+    expect(guessImportMapping(['Full Name', 'Email', 'Business Name', 'Unrelated'])).toEqual({
+      fullName: 'Full Name',
+      email: 'Email',
+      businessName: 'Business Name',
+    });
+  });
+});
+
+describe('Submissions Export API Route - GET', () => {
+  const mockAuthorize = vi.mocked(authorize);
+  const mockGetSubmissionsForExport = vi.mocked(getSubmissionsForExport);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should export the filtered list as CSV', async () => {
+    mockGetSubmissionsForExport.mockResolvedValue([SUBMISSION]);
+
+    const response = await exportSubmissions(new NextRequest(new URL(
+      '/api/admin/submissions/export?list=CUSTOMERS&status=PAID&industryType=restaurant&sortBy=paidAt&page=3',
+      'http://localhost'
+    )));
+    const text = await response.text();
+    const rows = parseCsv(text);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+    expect(response.headers.get('Content-Disposition')).toMatch(/^attachment; filename="customers-\d{4}-\d{2}-\d{2}\.csv"$/);
+    expect(mockGetSubmissionsForExport).toHaveBeenCalledWith(
+      { status: 'PAID', industryType: 'restaurant' },
+      { sortBy: 'paidAt', sortOrder: 'desc' },
+      10000
+    );
+
+    const record = Object.fromEntries(rows[0].map((header, index) => [header, rows[1][index]]));
+    expect(record).toMatchObject({
+      ID: '14',
+      Created: '2026-02-03',
+      'Business Name': 'Taco Shop, LLC',
+      Phone: '\'+1 555 0100',
+      Features: 'Online Menu; Contact Form',
+      Paid: '2026-02-10',
+      Revenue: '1250.00',
+      'Additional Info': '\'=HYPERLINK("http://evil.example")',
+    });
+  });
+
+  it('should return 400 for invalid filters', async () => {
+    const response = await exportSubmissions(new NextRequest(new URL(
+      '/api/admin/submissions/export?excludeStatus=GONE',
+      'http://localhost'
+    )));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toContain('Invalid excluded status');
+    expect(mockGetSubmissionsForExport).not.toHaveBeenCalled();
+  });
+});
+
+describe('Submissions Import API Route - POST', () => {
+  const mockAuthorize = vi.mocked(authorize);
+  const mockGetExistingEmails = vi.mocked(getExistingSubmissionEmails);
+  const mockCreateImported = vi.mocked(createImportedSubmissions);
+  const mockRecordAuditEvent = vi.mocked(recordAuditEvent);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+    mockGetExistingEmails.mockResolvedValue(new Set(['ana@tacoshop.com']));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should require the submissions:edit permission', async () => {
+    mockAuthorize.mockResolvedValue({ authorized: false, status: 403, error: 'Forbidden' });
+
+    const response = await importSubmissions(createImportRequest({ csv: IMPORT_CSV }));
+
+    expect(response.status).toBe(403);
+    expect(mockAuthorize).toHaveBeenCalledWith('submissions:edit');
+  });
+
+  it('should preview a dry run without creating anything', async () => {
+    const response = await importSubmissions(createImportRequest({ csv: IMPORT_CSV }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.dryRun).toBe(true);
+    expect(data.data.mapping).toEqual({
+      fullName: 'Name',
+      email: 'E-mail Address',
+      businessName: 'Company',
+      industryType: 'Industry',
+      budgetRange: 'Budget',
+      timeline: 'Timeline',
+      features: 'Features',
+    });
+    expect(mockGetExistingEmails).toHaveBeenCalledWith([
+      'ana@tacoshop.com',
+      'ben@odeplumbing.com',
+      'not-an-email',
+    ]);
+    expect(data.data.totals).toEqual({ READY: 1, DUPLICATE: 2, INVALID: 1 });
+    expect(data.data.rows.map((row: { row: number; status: string }) => [row.row, row.status])).toEqual([
+      [2, 'DUPLICATE'],
+      [3, 'READY'],
+      [4, 'INVALID'],
+      [5, 'DUPLICATE'],
+    ]);
+    expect(data.data.rows[0].errors.email).toBe('A submission with this email already exists');
+    expect(data.data.rows[2].errors.email).toBe('Invalid email format');
+    expect(data.data.rows[3].errors.email).toBe('Same email as row 3');
+    expect(mockCreateImported).not.toHaveBeenCalled();
+    expect(mockRecordAuditEvent).not.toHaveBeenCalled();
+  });
+
+  it('should report missing required fields when a column is unmapped', async () => {
+    const response = await importSubmissions(createImportRequest({
+      csv: IMPORT_CSV,
+      mapping: { fullName: 'Name', email: 'E-mail Address', businessName: 'Company' },
+    }));
+    const data = await response.json();
+
+    expect(data.data.totals).toEqual({ READY: 0, DUPLICATE: 0, INVALID: 4 });
+    expect(data.data.rows[1].errors).toEqual({
+      industryType: 'Industry type is required',
+      budgetRange: 'Budget range is required',
+      timeline: 'Timeline is required',
+    });
+  });
+
+  it('should create the ready rows and record an audit event', async () => {
+    mockCreateImported.mockResolvedValue(1);
+
+    const response = await importSubmissions(createImportRequest({ csv: IMPORT_CSV, dryRun: false }));
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.data.created).toBe(1);
+    expect(mockCreateImported).toHaveBeenCalledWith([
+      {
+        fullName: 'Ben Ode',
+        email: 'ben@odeplumbing.com',
+        phone: null,
+        businessName: 'Ode Plumbing',
+        industryType: 'trades',
+        currentWebsite: null,
+        hasNoWebsite: false,
+        features: '["Contact Form","Booking"]',
+        otherFeatures: null,
+        budgetRange: '1000-2500',
+        timeline: '1-2-months',
+        additionalInfo: null,
+      },
+    ]);
+    expect(mockRecordAuditEvent).toHaveBeenCalledWith(expect.anything(), SESSION, {
+      action: 'submission.import',
+      entityType: 'SUBMISSION',
+      after: { created: 1, duplicates: 2, invalid: 1 },
+    });
+  });
+
+  it.each([
+    [{ csv: '' }, 'csv must be a non-empty string'],
+    [{ csv: 'Name,Email\n"Ana,ana@example.com' }, 'Invalid CSV: Unclosed quote starting on line 2'],
+    [{ csv: 'Name,Email\n' }, 'no rows to import'],
+    [{ csv: IMPORT_CSV, mapping: { email: 'Email' } }, 'Column not found for email: Email'],
+    [{ csv: IMPORT_CSV, mapping: { status: 'Name' } }, 'Unknown import field: status'],
+  ])('should return 400 for %j', async (body, message) => {
+    const response = await importSubmissions(createImportRequest(body));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toContain(message);
+  });
+
+  it('should reject files with too many rows', async () => {
+    const csv = ['Name,Email', ...Array.from({ length: 2001 }, (_, i) => `Lead ${i},lead${i}@example.com`)].join('\n');
+
+    const response = await importSubmissions(createImportRequest({ csv }));
+
+    expect(response.status).toBe(400);
+    expect(mockGetExistingEmails).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,396 @@
+/**
+ * Tests for Deployment History
+ *
+ * Tests the mapping of Cloudflare deployments to DeploymentRun rows, the
+ * GET /api/admin/customers/[id]/deployment/runs endpoint, the
+ * GET /api/admin/customers/[id]/deployment/runs/[runId]/logs endpoint, the
+ * POST /api/admin/customers/[id]/deployment/runs/[runId]/rollback endpoint
+ * and how a rollback is stored on the run it went back to.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock Prisma - using factory with hoisted mock
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    deploymentRun: {
+      upsert: vi.fn(),
+    },
+  },
+}));
+
+// Mock the session utilities
+vi.mock('@/lib/auth/session', () => ({
+  authorize: vi.fn(),
+}));
+
+// Mock the database queries
+vi.mock('@/lib/admin/deploymentQueries', () => ({
+  getDeploymentByCustomerId: vi.fn(),
+  updateDeployment: vi.fn(),
+}));
+
+vi.mock('@/lib/admin/deploymentRunQueries', () => ({
+  getDeploymentRuns: vi.fn(),
+  getDeploymentRunById: vi.fn(),
+  recordDeploymentRun: vi.fn(),
+  recordDeploymentRollback: vi.fn(),
+}));
+
+vi.mock('@/lib/admin/auditQueries', () => ({
+  recordAuditEvent: vi.fn(),
+}));
+
+// Mock the Cloudflare API
+vi.mock('@/lib/cloudflare', () => ({
+  getDeployments: vi.fn(),
+  getDeploymentLogs: vi.fn(),
+  rollbackDeployment: vi.fn(),
+}));
+
+import { GET as listRuns } from '@/app/api/admin/customers/[id]/deployment/runs/route';
+import { GET as getLogs } from '@/app/api/admin/customers/[id]/deployment/runs/[runId]/logs/route';
+import { POST as rollback } from '@/app/api/admin/customers/[id]/deployment/runs/[runId]/rollback/route';
+import { getDeploymentRunData } from '@/lib/deploymentPoller';
+import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/session';
+import { getDeploymentByCustomerId, updateDeployment } from '@/lib/admin/deploymentQueries';
+import {
+  getDeploymentRuns,
+  getDeploymentRunById,
+  recordDeploymentRun,
+  recordDeploymentRollback,
+} from '@/lib/admin/deploymentRunQueries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import { getDeploymentLogs, getDeployments, rollbackDeployment, type PagesDeployment } from '@/lib/cloudflare';
+import type { AdminSessionPayload, AuthorizationResult, CustomerDeployment, DeploymentRun } from '@/types/admin';
+
+const SESSION: AdminSessionPayload = { userId: 1, email: 'owner@example.com', name: 'Owner', role: 'OWNER' };
+const AUTHORIZED: AuthorizationResult = { authorized: true, session: SESSION };
+
+const DEPLOYMENT: CustomerDeployment = {
+  id: 3,
+  createdAt: new Date('2026-03-01T00:00:00Z'),
+  updatedAt: new Date('2026-04-01T00:00:00Z'),
+  customerId: 7,
+  cfProjectId: 'project-7',
+  cfProjectName: 'taco-shop',
+  cfProductionUrl: 'https://new.taco-shop.pages.dev',
+  customDomain: null,
+  domainStatus: 'NONE',
+  deploymentStatus: 'DEPLOYED',
+  lastDeploymentAt: new Date('2026-04-01T00:00:00Z'),
+  lastDeploymentId: 'dep-new',
+  lastDeploymentError: null,
+  suspendedAt: null,
+  suspensionMode: null,
+  gitRepoUrl: 'https://github.com/acme/taco-shop',
+  gitBranch: 'main',
+};
+
+const CF_DEPLOYMENT = {
+  id: 'dep-old',
+  url: 'https://old.taco-shop.pages.dev',
+  environment: 'production',
+  created_on: '2026-03-20T10:00:00Z',
+  latest_stage: { name: 'deploy', status: 'success', started_on: '2026-03-20T10:00:50Z', ended_on: '2026-03-20T10:01:00Z' },
+  deployment_trigger: {
+    type: 'github',
+    metadata: { branch: 'main', commit_hash: '9f8e7d6c5b', commit_message: 'Add catering page' },
+  },
+  stages: [
+    { name: 'queued', status: 'success', started_on: '2026-03-20T10:00:00Z', ended_on: '2026-03-20T10:00:05Z' },
+    { name: 'build', status: 'success', started_on: '2026-03-20T10:00:05Z', ended_on: '2026-03-20T10:00:50Z' },
+    { name: 'deploy', status: 'success', started_on: '2026-03-20T10:00:50Z', ended_on: '2026-03-20T10:01:00Z' },
+  ],
+} as PagesDeployment;
+
+const OLD_RUN: DeploymentRun = {
+  id: 12,
+  createdAt: new Date('2026-03-20T10:00:00Z'),
+  updatedAt: new Date('2026-03-20T10:01:00Z'),
+  customerId: 7,
+  triggeredByName: null,
+  rolledBackAt: null,
+  rolledBackByName: null,
+  ...getDeploymentRunData(CF_DEPLOYMENT),
+};
+
+function callRollback(customerId: string, runId: string) {
+  const request = new NextRequest(
+    new URL(`/api/admin/customers/${customerId}/deployment/runs/${runId}/rollback`, 'http://localhost'),
+    { method: 'POST' }
+  );
+  return rollback(request, { params: Promise.resolve({ id: customerId, runId }) });
+}
+
+describe('getDeploymentRunData', () => {
+  it('should record the trigger, commit and stage timings', () => {
+    expect(getDeploymentRunData(CF_DEPLOYMENT)).toEqual({
+      cfDeploymentId: 'dep-old',
+      trigger: 'github',
+      environment: 'production',
+      branch: 'main',
+      commitHash: '9f8e7d6c5b',
+      commitMessage: 'Add catering page',
+      url: 'https://old.taco-shop.pages.dev',
+      status: 'DEPLOYED',
+      error: null,
+      stages: [
+        { name: 'queued', status: 'success', startedOn: '2026-03-20T10:00:00Z', endedOn: '2026-03-20T10:00:05Z' },
+        { name: 'build', status: 'success', startedOn: '2026-03-20T10:00:05Z', endedOn: '2026-03-20T10:00:50Z' },
+        { name: 'deploy', status: 'success', startedOn: '2026-03-20T10:00:50Z', endedOn: '2026-03-20T10:01:00Z' },
+      ],
+      startedAt: new Date('2026-03-20T10:00:00Z'),
+      finishedAt: new Date('2026-03-20T10:01:00Z'),
+    });
+  });
+
+  it('should leave running deployments unfinished', () => {
+    const data = getDeploymentRunData({
+      ...CF_DEPLOYMENT,
+      latest_stage: { name: 'build', status: 'active', started_on: '2026-03-20T10:00:05Z', ended_on: null },
+    });
+
+    expect(data).toMatchObject({ status: 'DEPLOYING', error: null, finishedAt: null });
+  });
+});
+
+describe('Deployment Runs API Route - GET', () => {
+  const mockAuthorize = vi.mocked(authorize);
+  const mockGetDeployment = vi.mocked(getDeploymentByCustomerId);
+  const mockGetDeployments = vi.mocked(getDeployments);
+  const mockGetDeploymentRuns = vi.mocked(getDeploymentRuns);
+  const mockRecordDeploymentRun = vi.mocked(recordDeploymentRun);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+    mockGetDeployment.mockResolvedValue(DEPLOYMENT);
+    mockGetDeploymentRuns.mockResolvedValue([OLD_RUN]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function callList(customerId: string) {
+    const request = new NextRequest(new URL(`/api/admin/customers/${customerId}/deployment/runs`, 'http://localhost'));
+    return listRuns(request, { params: Promise.resolve({ id: customerId }) });
+  }
+
+  it('should sync recent Cloudflare deployments and list the runs', async () => {
+    mockGetDeployments.mockResolvedValue([CF_DEPLOYMENT]);
+
+    const response = await callList('7');
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockAuthorize).toHaveBeenCalledWith('deployments:view');
+    expect(mockGetDeployments).toHaveBeenCalledWith('taco-shop', 10);
+    expect(mockRecordDeploymentRun).toHaveBeenCalledWith(7, getDeploymentRunData(CF_DEPLOYMENT));
+    expect(data.data.runs).toHaveLength(1);
+    expect(data.data.error).toBeUndefined();
+  });
+
+  it('should still list stored runs when Cloudflare is unavailable', async () => {
+    mockGetDeployments.mockRejectedValue(new Error('Cloudflare API Error: Authentication error'));
+
+    const response = await callList('7');
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockRecordDeploymentRun).not.toHaveBeenCalled();
+    expect(data.data.runs[0].cfDeploymentId).toBe('dep-old');
+    expect(data.data.error).toBe('Could not fetch deployments from Cloudflare');
+  });
+
+  it('should return 404 without a deployment configuration', async () => {
+    mockGetDeployment.mockResolvedValue(null);
+
+    const response = await callList('7');
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('Deployment Logs API Route - GET', () => {
+  const mockAuthorize = vi.mocked(authorize);
+  const mockGetDeployment = vi.mocked(getDeploymentByCustomerId);
+  const mockGetDeploymentRunById = vi.mocked(getDeploymentRunById);
+  const mockGetDeploymentLogs = vi.mocked(getDeploymentLogs);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+    mockGetDeployment.mockResolvedValue(DEPLOYMENT);
+    mockGetDeploymentRunById.mockResolvedValue(OLD_RUN);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function callLogs(customerId: string, runId: string) {
+    const request = new NextRequest(
+      new URL(`/api/admin/customers/${customerId}/deployment/runs/${runId}/logs`, 'http://localhost')
+    );
+    return getLogs(request, { params: Promise.resolve({ id: customerId, runId }) });
+  }
+
+  it("should return the run's build log from Cloudflare", async () => {
+    const logs = [
+      { line: 'Cloning repository...', ts: '2026-03-20T10:00:06Z' },
+      { line: 'Success: Your site was deployed!', ts: '2026-03-20T10:01:00Z' },
+    ];
+    mockGetDeploymentLogs.mockResolvedValue(logs);
+
+    const response = await callLogs('7', '12');
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockAuthorize).toHaveBeenCalledWith('deployments:view');
+    expect(mockGetDeploymentLogs).toHaveBeenCalledWith('taco-shop', 'dep-old');
+    expect(data.data.logs).toEqual(logs);
+  });
+
+  it('should return 404 for a run of another customer', async () => {
+    mockGetDeploymentRunById.mockResolvedValue({ ...OLD_RUN, customerId: 8 });
+
+    const response = await callLogs('7', '12');
+
+    expect(response.status).toBe(404);
+    expect(mockGetDeploymentLogs).not.toHaveBeenCalled();
+  });
+
+  it('should return 502 when Cloudflare has no log', async () => {
+    mockGetDeploymentLogs.mockRejectedValue(new Error('Cloudflare API Error: Deployment not found'));
+
+    const response = await callLogs('7', '12');
+
+    expect(response.status).toBe(502);
+  });
+});
+
+describe('Deployment Rollback API Route - POST', () => {
+  const mockAuthorize = vi.mocked(authorize);
+  const mockGetDeployment = vi.mocked(getDeploymentByCustomerId);
+  const mockUpdateDeployment = vi.mocked(updateDeployment);
+  const mockGetDeploymentRunById = vi.mocked(getDeploymentRunById);
+  const mockRecordDeploymentRollback = vi.mocked(recordDeploymentRollback);
+  const mockRollbackDeployment = vi.mocked(rollbackDeployment);
+  const mockRecordAuditEvent = vi.mocked(recordAuditEvent);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+    mockGetDeployment.mockResolvedValue(DEPLOYMENT);
+    mockGetDeploymentRunById.mockResolvedValue(OLD_RUN);
+    mockUpdateDeployment.mockImplementation(async (customerId, data) => ({ ...DEPLOYMENT, ...data }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should roll production back to the run', async () => {
+    mockRollbackDeployment.mockResolvedValue(CF_DEPLOYMENT);
+
+    const response = await callRollback('7', '12');
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockAuthorize).toHaveBeenCalledWith('deployments:manage');
+    expect(mockRollbackDeployment).toHaveBeenCalledWith('taco-shop', 'dep-old');
+    expect(mockRecordDeploymentRollback).toHaveBeenCalledWith(7, getDeploymentRunData(CF_DEPLOYMENT), 'Owner');
+    expect(mockUpdateDeployment).toHaveBeenCalledWith(7, expect.objectContaining({
+      lastDeploymentId: 'dep-old',
+      deploymentStatus: 'DEPLOYED',
+      lastDeploymentError: null,
+      cfProductionUrl: 'https://old.taco-shop.pages.dev',
+    }));
+    expect(data.data.lastDeploymentId).toBe('dep-old');
+    expect(mockRecordAuditEvent).toHaveBeenCalledWith(expect.anything(), SESSION, expect.objectContaining({
+      action: 'deployment.rollback',
+      entityType: 'DEPLOYMENT',
+      customerId: 7,
+    }));
+  });
+
+  it('should return 404 for a run of another customer', async () => {
+    mockGetDeploymentRunById.mockResolvedValue({ ...OLD_RUN, customerId: 8 });
+
+    const response = await callRollback('7', '12');
+
+    expect(response.status).toBe(404);
+    expect(mockRollbackDeployment).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['a failed run', { status: 'FAILED' as const }, 400],
+    ['a preview run', { environment: 'preview' as const }, 400],
+    ['the live run', { cfDeploymentId: 'dep-new' }, 409],
+  ])('should refuse to roll back to %s', async (_, overrides, status) => {
+    mockGetDeploymentRunById.mockResolvedValue({ ...OLD_RUN, ...overrides });
+
+    const response = await callRollback('7', '12');
+
+    expect(response.status).toBe(status);
+    expect(mockRollbackDeployment).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 while a deployment is in progress', async () => {
+    mockGetDeployment.mockResolvedValue({ ...DEPLOYMENT, deploymentStatus: 'DEPLOYING' });
+
+    const response = await callRollback('7', '12');
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should return 502 when Cloudflare rejects the rollback', async () => {
+    mockRollbackDeployment.mockRejectedValue(new Error('Cloudflare API Error: Cannot rollback to this deployment'));
+
+    const response = await callRollback('7', '12');
+    const data = await response.json();
+
+    expect(response.status).toBe(502);
+    expect(data.error).toBe('Cloudflare API Error: Cannot rollback to this deployment');
+    expect(mockUpdateDeployment).not.toHaveBeenCalled();
+  });
+});
+
+
+describe('recordDeploymentRollback', () => {
+  const mockUpsert = vi.mocked(prisma.deploymentRun.upsert);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should mark the existing run of the deployment as rolled back to', async () => {
+    const { recordDeploymentRollback: recordRollback } = await vi.importActual<
+      typeof import('@/lib/admin/deploymentRunQueries')
+    >('@/lib/admin/deploymentRunQueries');
+    const rolledBackAt = new Date('2026-04-02T09:00:00Z');
+    mockUpsert.mockResolvedValue({
+      ...OLD_RUN,
+      stages: JSON.stringify(OLD_RUN.stages),
+      rolledBackAt,
+      rolledBackByName: 'Owner',
+    });
+
+    const run = await recordRollback(7, getDeploymentRunData(CF_DEPLOYMENT), 'Owner', rolledBackAt);
+
+    // Cloudflare returns the deployment rolled back to under its own ID,
+    // so the rollback has to be written by the update as well
+    const args = mockUpsert.mock.calls[0][0];
+    expect(args.where).toEqual({ cfDeploymentId: 'dep-old' });
+    expect(args.update).toMatchObject({ rolledBackAt, rolledBackByName: 'Owner' });
+    expect(args.create).toMatchObject({ customerId: 7, rolledBackAt, rolledBackByName: 'Owner' });
+    expect(run).toMatchObject({ id: 12, rolledBackAt, rolledBackByName: 'Owner', stages: OLD_RUN.stages });
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Tests for the Deployment Status Poller
+ *
+ * Runs the poller against a fake Cloudflare API server and tests its cron
+ * entry point.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { NextRequest } from 'next/server';
+
+// Mock Prisma - using factory with hoisted mock
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    customerDeployment: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    deploymentRun: {
+      upsert: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+import { POST as cronPOST } from '@/app/api/cron/deployment-poll/route';
+import { runDeploymentPoller, getDeploymentOutcome } from '@/lib/deploymentPoller';
+import { prisma } from '@/lib/db';
+import type { PagesDeployment } from '@/lib/cloudflare';
+
+// Cast to get access to mock methods
+const mockCustomerDeployment = prisma.customerDeployment as unknown as {
+  findMany: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
+};
+const mockDeploymentRun = prisma.deploymentRun as unknown as {
+  upsert: ReturnType<typeof vi.fn>;
+  updateMany: ReturnType<typeof vi.fn>;
+};
+
+const NOW = new Date('2026-04-01T12:00:00Z');
+const MINUTE_MS = 60 * 1000;
+
+type StageStatus = PagesDeployment['latest_stage']['status'];
+
+function cfDeployment(id: string, stages: [string, StageStatus][]): PagesDeployment {
+  const mapped = stages.map(([name, status]) => ({ name, status, started_on: null, ended_on: null }));
+  return {
+    id,
+    url: `https://${id}.site.pages.dev`,
+    environment: 'production',
+    created_on: '2026-04-01T11:55:00Z',
+    deployment_trigger: { type: 'github', metadata: { branch: 'main', commit_hash: 'abc1234def', commit_message: 'Update menu' } },
+    latest_stage: [...mapped].reverse().find((stage) => stage.status !== 'idle') ?? mapped[0],
+    stages: mapped,
+  } as PagesDeployment;
+}
+
+function deploymentRow(customerId: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id: customerId * 10,
+    createdAt: new Date('2026-03-01T00:00:00Z'),
+    updatedAt: new Date(NOW.getTime() - 5 * MINUTE_MS),
+    customerId,
+    cfProjectId: `project-${customerId}`,
+    cfProjectName: 'site',
+    cfProductionUrl: 'https://site.pages.dev',
+    customDomain: null,
+    domainStatus: 'NONE',
+    deploymentStatus: 'DEPLOYING',
+    lastDeploymentAt: new Date(NOW.getTime() - 5 * MINUTE_MS),
+    lastDeploymentId: `dep-${customerId}`,
+    lastDeploymentError: null,
+    suspendedAt: null,
+    suspensionMode: null,
+    gitRepoUrl: null,
+    gitBranch: 'main',
+    ...overrides,
+  };
+}
+
+// Fake Cloudflare API: serves DEPLOYMENTS and records every request
+const DEPLOYMENTS = new Map<string, PagesDeployment>();
+const requests: { method: string; path: string; authorization?: string }[] = [];
+let server: Server;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requests.push({ method: req.method!, path: req.url!, authorization: req.headers.authorization });
+
+    const match = req.url!.match(/^\/accounts\/acc-1\/pages\/projects\/site\/deployments\/([^/]+)$/);
+    const deployment = match ? DEPLOYMENTS.get(match[1]) : undefined;
+
+    res.setHeader('Content-Type', 'application/json');
+    if (!deployment) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ success: false, errors: [{ code: 8000009, message: 'Deployment not found' }], messages: [], result: null }));
+      return;
+    }
+    res.end(JSON.stringify({ success: true, errors: [], messages: [], result: req.method === 'DELETE' ? null : deployment }));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('getDeploymentOutcome', () => {
+  it('should name the stage that failed', () => {
+    const outcome = getDeploymentOutcome(cfDeployment('a', [
+      ['queued', 'success'],
+      ['build', 'failure'],
+      ['deploy', 'idle'],
+    ]));
+
+    expect(outcome).toEqual({ status: 'FAILED', error: 'Deployment failed at the build stage' });
+  });
+
+  it('should leave running deployments unchanged', () => {
+    expect(getDeploymentOutcome(cfDeployment('b', [['build', 'active']]))).toEqual({ status: null, error: null });
+  });
+});
+
+describe('runDeploymentPoller', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('CLOUDFLARE_API_BASE_URL', `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    vi.stubEnv('CLOUDFLARE_API_TOKEN', 'cf-token');
+    vi.stubEnv('CLOUDFLARE_ACCOUNT_ID', 'acc-1');
+    mockCustomerDeployment.update.mockImplementation(async ({ where, data }) => ({ ...deploymentRow(where.customerId), ...data }));
+    mockDeploymentRun.upsert.mockImplementation(async ({ create }) => ({ id: 1, ...create }));
+    DEPLOYMENTS.clear();
+    requests.length = 0;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('should move finished deployments to DEPLOYED or FAILED', async () => {
+    DEPLOYMENTS.set('dep-1', cfDeployment('dep-1', [['build', 'success'], ['deploy', 'success']]));
+    DEPLOYMENTS.set('dep-2', cfDeployment('dep-2', [['build', 'failure'], ['deploy', 'idle']]));
+    DEPLOYMENTS.set('dep-3', cfDeployment('dep-3', [['build', 'active']]));
+    mockCustomerDeployment.findMany.mockResolvedValue([deploymentRow(1), deploymentRow(2), deploymentRow(3)]);
+
+    const summary = await runDeploymentPoller(NOW, 30);
+
+    expect(mockCustomerDeployment.findMany).toHaveBeenCalledWith({
+      where: { deploymentStatus: 'DEPLOYING' },
+      orderBy: { updatedAt: 'desc' },
+    });
+    expect(requests[0]).toEqual({
+      method: 'GET',
+      path: '/accounts/acc-1/pages/projects/site/deployments/dep-1',
+      authorization: 'Bearer cf-token',
+    });
+    expect(mockCustomerDeployment.update).toHaveBeenCalledWith({
+      where: { customerId: 1 },
+      data: { deploymentStatus: 'DEPLOYED', cfProductionUrl: 'https://dep-1.site.pages.dev', lastDeploymentError: null },
+    });
+    expect(mockCustomerDeployment.update).toHaveBeenCalledWith({
+      where: { customerId: 2 },
+      data: { deploymentStatus: 'FAILED', lastDeploymentError: 'Deployment failed at the build stage' },
+    });
+    expect(mockCustomerDeployment.update).toHaveBeenCalledTimes(2);
+    expect(mockDeploymentRun.upsert).toHaveBeenCalledTimes(3);
+    expect(mockDeploymentRun.upsert.mock.calls[1][0].update).toMatchObject({
+      cfDeploymentId: 'dep-2',
+      status: 'FAILED',
+      error: 'Deployment failed at the build stage',
+      branch: 'main',
+      commitHash: 'abc1234def',
+    });
+    expect(summary).toEqual({ checked: 3, deployed: 1, failed: 1, timedOut: 0, pending: 1, errors: [] });
+  });
+
+  it('should cancel and fail deployments running past the timeout', async () => {
+    DEPLOYMENTS.set('dep-4', cfDeployment('dep-4', [['queued', 'success'], ['build', 'active']]));
+    mockCustomerDeployment.findMany.mockResolvedValue([
+      deploymentRow(4, { lastDeploymentAt: new Date(NOW.getTime() - 45 * MINUTE_MS) }),
+    ]);
+
+    const summary = await runDeploymentPoller(NOW, 30);
+
+    expect(requests.map((request) => request.method)).toEqual(['GET', 'DELETE']);
+    expect(mockCustomerDeployment.update).toHaveBeenCalledWith({
+      where: { customerId: 4 },
+      data: { deploymentStatus: 'FAILED', lastDeploymentError: 'Deployment timed out after 30 minutes in the build stage' },
+    });
+    expect(mockDeploymentRun.updateMany).toHaveBeenCalledWith({
+      where: { cfDeploymentId: 'dep-4', status: 'DEPLOYING' },
+      data: { status: 'FAILED', error: 'Deployment timed out after 30 minutes in the build stage', finishedAt: NOW },
+    });
+    expect(summary.timedOut).toBe(1);
+  });
+
+  it('should retry Cloudflare errors until the deployment is stale', async () => {
+    mockCustomerDeployment.findMany.mockResolvedValue([
+      deploymentRow(5, { lastDeploymentId: 'missing' }),
+      deploymentRow(6, { lastDeploymentId: 'gone', lastDeploymentAt: new Date(NOW.getTime() - 60 * MINUTE_MS) }),
+    ]);
+
+    const summary = await runDeploymentPoller(NOW, 30);
+
+    expect(mockCustomerDeployment.update).toHaveBeenCalledTimes(1);
+    expect(mockCustomerDeployment.update).toHaveBeenCalledWith({
+      where: { customerId: 6 },
+      data: {
+        deploymentStatus: 'FAILED',
+        lastDeploymentError: 'Deployment timed out after 30 minutes; Cloudflare status unavailable: Cloudflare API Error: Deployment not found',
+      },
+    });
+    expect(summary).toMatchObject({ checked: 2, timedOut: 1, pending: 0 });
+    expect(summary.errors).toEqual([
+      'Customer 5: Cloudflare API Error: Deployment not found',
+      'Customer 6: Cloudflare API Error: Deployment not found',
+    ]);
+  });
+
+  it('should time out stale records that never reached Cloudflare', async () => {
+    mockCustomerDeployment.findMany.mockResolvedValue([
+      deploymentRow(7, { lastDeploymentId: null, lastDeploymentAt: null, updatedAt: new Date(NOW.getTime() - 31 * MINUTE_MS) }),
+      deploymentRow(8, { lastDeploymentId: null, lastDeploymentAt: null }),
+    ]);
+
+    const summary = await runDeploymentPoller(NOW, 30);
+
+    expect(requests).toHaveLength(0);
+    expect(mockCustomerDeployment.update).toHaveBeenCalledWith({
+      where: { customerId: 7 },
+      data: { deploymentStatus: 'FAILED', lastDeploymentError: 'Deployment timed out after 30 minutes before Cloudflare started it' },
+    });
+    expect(summary).toMatchObject({ checked: 2, timedOut: 1, pending: 1 });
+  });
+});
+
+describe('Deployment Poll Cron API - POST', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubEnv('CRON_SECRET', 'cron-secret');
+    mockCustomerDeployment.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  function callCron(authorization?: string) {
+    const request = new NextRequest(new URL('/api/cron/deployment-poll', 'http://localhost'), {
+      method: 'POST',
+      headers: authorization ? { Authorization: authorization } : {},
+    });
+    return cronPOST(request);
+  }
+
+  it('should return 401 without the cron secret', async () => {
+    const response = await callCron('Bearer wrong');
+
+    expect(response.status).toBe(401);
+    expect(mockCustomerDeployment.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should run the job and return the summary', async () => {
+    const response = await callCron('Bearer cron-secret');
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data).toEqual({ checked: 0, deployed: 0, failed: 0, timedOut: 0, pending: 0, errors: [] });
+  });
+});
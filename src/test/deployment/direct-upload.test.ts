@@ -0,0 +1,364 @@
+/**
+ * Tests for Direct-Upload Deployments
+ *
+ * Tests bundling customer files into a static site, uploading the bundle
+ * to a fake Cloudflare API server, and the DIRECT_UPLOAD mode of
+ * POST /api/admin/customers/[id]/deployment/deploy.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { NextRequest } from 'next/server';
+
+// Mock Prisma - using factory with hoisted mock
+vi.mock('@/lib/db', () => ({
+  prisma: {},
+}));
+
+// Mock the session utilities
+vi.mock('@/lib/auth/session', () => ({
+  authorize: vi.fn(),
+}));
+
+// Mock the database queries
+vi.mock('@/lib/admin/deploymentQueries', () => ({
+  getDeploymentByCustomerId: vi.fn(),
+  updateDeployment: vi.fn(),
+}));
+
+vi.mock('@/lib/admin/deploymentRunQueries', () => ({
+  recordDeploymentRun: vi.fn(),
+}));
+
+vi.mock('@/lib/admin/fileQueries', () => ({
+  getFilesByCustomerId: vi.fn(),
+}));
+
+vi.mock('@/lib/admin/auditQueries', () => ({
+  recordAuditEvent: vi.fn(),
+}));
+
+vi.mock('@/lib/storage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/storage')>()),
+  readFile: vi.fn(),
+}));
+
+import { POST as deployPOST } from '@/app/api/admin/customers/[id]/deployment/deploy/route';
+import { deployStaticBundle, hashAsset, type StaticAsset } from '@/lib/cloudflare';
+import { buildCustomerFileBundle, getBundlePaths, StaticBundleError } from '@/lib/staticBundle';
+import { StorageError, readFile } from '@/lib/storage';
+import { authorize } from '@/lib/auth/session';
+import { getDeploymentByCustomerId, updateDeployment } from '@/lib/admin/deploymentQueries';
+import { getFilesByCustomerId } from '@/lib/admin/fileQueries';
+import type { AuthorizationResult, CustomerDeployment, CustomerFile } from '@/types/admin';
+
+const AUTHORIZED: AuthorizationResult = {
+  authorized: true,
+  session: { userId: 1, email: 'owner@example.com', name: 'Owner', role: 'OWNER' },
+};
+
+const DEPLOYMENT: CustomerDeployment = {
+  id: 3,
+  createdAt: new Date('2026-03-01T00:00:00Z'),
+  updatedAt: new Date('2026-03-01T00:00:00Z'),
+  customerId: 7,
+  cfProjectId: 'project-7',
+  cfProjectName: 'taco-shop',
+  cfProductionUrl: null,
+  customDomain: null,
+  domainStatus: 'NONE',
+  deploymentStatus: 'NOT_DEPLOYED',
+  lastDeploymentAt: null,
+  lastDeploymentId: null,
+  lastDeploymentError: null,
+  suspendedAt: null,
+  suspensionMode: null,
+  gitRepoUrl: null,
+  gitBranch: 'main',
+};
+
+function customerFile(id: number, fileName: string, category: CustomerFile['category'], mimeType: string): CustomerFile {
+  return {
+    id,
+    createdAt: new Date('2026-03-01T00:00:00Z'),
+    updatedAt: new Date('2026-03-01T00:00:00Z'),
+    customerId: 7,
+    fileName,
+    fileKey: `customers/7/${id}-${fileName}`,
+    fileSize: 100,
+    mimeType,
+    category,
+    description: null,
+    originalFileId: null,
+    version: 1,
+    supersededAt: null,
+    deletedAt: null,
+    deletedByName: null,
+  };
+}
+
+const FILES = [
+  customerFile(5, 'Menu Page.html', 'CONTENT', 'text/html'),
+  customerFile(4, 'Front of Shop.JPG', 'PHOTO', 'image/jpeg'),
+  customerFile(3, 'front of shop.jpg', 'PHOTO', 'image/jpeg'),
+  customerFile(2, 'logo.svg', 'LOGO', 'image/svg+xml'),
+  customerFile(1, 'contract.pdf', 'DOCUMENT', 'application/pdf'),
+];
+
+// Fake Cloudflare API: stores uploaded assets and records every request
+const stored = new Map<string, { value: string; contentType: string }>();
+const requests: { method: string; path: string; authorization?: string; body: unknown }[] = [];
+let server: Server;
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const body = Buffer.concat(chunks);
+  if (body.length === 0) return null;
+
+  if (req.headers['content-type']?.startsWith('multipart/form-data')) {
+    const form = await new Request('http://cloudflare', {
+      method: 'POST',
+      headers: { 'Content-Type': req.headers['content-type'] },
+      body,
+    }).formData();
+    return Object.fromEntries(form.entries());
+  }
+  return JSON.parse(body.toString());
+}
+
+beforeAll(async () => {
+  server = createServer(async (req, res) => {
+    const body = await readBody(req);
+    requests.push({ method: req.method!, path: req.url!, authorization: req.headers.authorization, body });
+
+    let result: unknown = null;
+    if (req.url === '/accounts/acc-1/pages/projects/taco-shop/upload-token') {
+      result = { jwt: 'upload-jwt' };
+    } else if (req.url === '/pages/assets/check-missing') {
+      result = (body as { hashes: string[] }).hashes.filter((hash) => !stored.has(hash));
+    } else if (req.url === '/pages/assets/upload') {
+      for (const item of body as { key: string; value: string; metadata: { contentType: string } }[]) {
+        stored.set(item.key, { value: item.value, contentType: item.metadata.contentType });
+      }
+    } else if (req.url === '/accounts/acc-1/pages/projects/taco-shop/deployments') {
+      result = {
+        id: 'dep-upload',
+        url: 'https://dep-upload.taco-shop.pages.dev',
+        environment: 'production',
+        created_on: '2026-04-01T12:00:00Z',
+        latest_stage: { name: 'queued', status: 'active', started_on: null, ended_on: null },
+        deployment_trigger: { type: 'ad_hoc', metadata: { branch: 'main' } },
+        stages: [],
+      };
+    }
+
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ success: true, errors: [], messages: [], result }));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function stubCloudflareEnv() {
+  vi.stubEnv('CLOUDFLARE_API_BASE_URL', `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  vi.stubEnv('CLOUDFLARE_API_TOKEN', 'cf-token');
+  vi.stubEnv('CLOUDFLARE_ACCOUNT_ID', 'acc-1');
+}
+
+describe('Static bundles from customer files', () => {
+  const mockReadFile = vi.mocked(readFile);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should serve pages at the root and other files from their folders', () => {
+    const paths = getBundlePaths(FILES);
+
+    expect(Object.fromEntries(paths)).toEqual({
+      5: '/index.html',
+      4: '/photos/front-of-shop.jpg',
+      3: '/photos/front-of-shop-2.jpg',
+      2: '/logos/logo.svg',
+    });
+  });
+
+  it('should keep page names when there is already an index page', () => {
+    const paths = getBundlePaths([
+      customerFile(6, 'about.html', 'CONTENT', 'text/html'),
+      customerFile(5, 'index.html', 'CONTENT', 'text/html'),
+      customerFile(4, 'copy.md', 'CONTENT', 'text/markdown'),
+    ]);
+
+    expect([...paths.values()]).toEqual(['/about.html', '/index.html', '/content/copy.md']);
+  });
+
+  it('should read each file from storage', async () => {
+    mockReadFile.mockImplementation(async (fileKey) => Buffer.from(`bytes of ${fileKey}`));
+
+    const assets = await buildCustomerFileBundle(FILES);
+
+    expect(assets).toHaveLength(4);
+    expect(assets[0]).toEqual({
+      path: '/index.html',
+      content: Buffer.from('bytes of customers/7/5-Menu Page.html'),
+      contentType: 'text/html',
+    });
+  });
+
+  it('should require an HTML page', async () => {
+    await expect(buildCustomerFileBundle(FILES.slice(1))).rejects.toThrow(StaticBundleError);
+  });
+
+  it('should fail when a file is missing from storage', async () => {
+    mockReadFile.mockRejectedValue(new StorageError('File not found', 'NOT_FOUND'));
+
+    await expect(buildCustomerFileBundle(FILES)).rejects.toThrow('Menu Page.html is missing from storage');
+  });
+});
+
+describe('deployStaticBundle', () => {
+  const ASSETS: StaticAsset[] = [
+    { path: '/index.html', content: Buffer.from('<h1>Tacos</h1>'), contentType: 'text/html' },
+    { path: '/about.html', content: Buffer.from('<h1>Tacos</h1>'), contentType: 'text/html' },
+    { path: '/photos/shop.jpg', content: Buffer.from([0xff, 0xd8, 0xff]), contentType: 'image/jpeg' },
+  ];
+
+  beforeEach(() => {
+    stubCloudflareEnv();
+    stored.clear();
+    requests.length = 0;
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should upload missing assets and deploy the manifest', async () => {
+    const photoHash = hashAsset(ASSETS[2]);
+    stored.set(photoHash, { value: '', contentType: 'image/jpeg' });
+
+    const deployment = await deployStaticBundle('taco-shop', ASSETS, 'main');
+
+    expect(deployment.id).toBe('dep-upload');
+    expect(requests.map((request) => request.path)).toEqual([
+      '/accounts/acc-1/pages/projects/taco-shop/upload-token',
+      '/pages/assets/check-missing',
+      '/pages/assets/upload',
+      '/pages/assets/upsert-hashes',
+      '/accounts/acc-1/pages/projects/taco-shop/deployments',
+    ]);
+
+    // Asset requests use the upload token
+    expect(requests[1].authorization).toBe('Bearer upload-jwt');
+    expect(requests[4].authorization).toBe('Bearer cf-token');
+
+    // Identical pages are uploaded once; the photo was already stored
+    const pageHash = hashAsset(ASSETS[0]);
+    expect(requests[2].body).toEqual([
+      { key: pageHash, value: Buffer.from('<h1>Tacos</h1>').toString('base64'), metadata: { contentType: 'text/html' }, base64: true },
+    ]);
+
+    const form = requests[4].body as { manifest: string; branch: string };
+    expect(JSON.parse(form.manifest)).toEqual({
+      '/index.html': pageHash,
+      '/about.html': pageHash,
+      '/photos/shop.jpg': photoHash,
+    });
+    expect(form.branch).toBe('main');
+  });
+
+  it('should hash the same content with another extension separately', () => {
+    expect(hashAsset({ ...ASSETS[0], path: '/index.txt' })).not.toBe(hashAsset(ASSETS[0]));
+    expect(hashAsset(ASSETS[0])).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it('should reject an empty bundle', async () => {
+    await expect(deployStaticBundle('taco-shop', [])).rejects.toThrow('Cannot deploy an empty bundle');
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe('Deploy API Route - POST with DIRECT_UPLOAD', () => {
+  const mockAuthorize = vi.mocked(authorize);
+  const mockGetDeployment = vi.mocked(getDeploymentByCustomerId);
+  const mockUpdateDeployment = vi.mocked(updateDeployment);
+  const mockGetFiles = vi.mocked(getFilesByCustomerId);
+  const mockReadFile = vi.mocked(readFile);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    stubCloudflareEnv();
+    stored.clear();
+    requests.length = 0;
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+    mockGetDeployment.mockResolvedValue(DEPLOYMENT);
+    mockUpdateDeployment.mockImplementation(async (customerId, data) => ({ ...DEPLOYMENT, ...data }));
+    mockGetFiles.mockResolvedValue(FILES);
+    mockReadFile.mockImplementation(async (fileKey) => Buffer.from(fileKey));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  function callDeploy(body?: unknown) {
+    const request = new NextRequest(new URL('/api/admin/customers/7/deployment/deploy', 'http://localhost'), {
+      method: 'POST',
+      body: body === undefined ? undefined : JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+    });
+    return deployPOST(request, { params: Promise.resolve({ id: '7' }) });
+  }
+
+  it('should deploy the customer files when no git repo is connected', async () => {
+    const response = await callDeploy();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.deployment).toMatchObject({ id: 'dep-upload', mode: 'DIRECT_UPLOAD' });
+    expect(stored.size).toBe(4);
+    // The poller must not pick up the previous deployment in the meantime
+    expect(mockUpdateDeployment).toHaveBeenNthCalledWith(1, 7, {
+      deploymentStatus: 'DEPLOYING',
+      lastDeploymentError: null,
+      lastDeploymentId: null,
+      lastDeploymentAt: expect.any(Date),
+    });
+    expect(mockUpdateDeployment).toHaveBeenLastCalledWith(7, expect.objectContaining({
+      lastDeploymentId: 'dep-upload',
+      deploymentStatus: 'DEPLOYING',
+    }));
+  });
+
+  it('should not start a deployment when the files have no HTML page', async () => {
+    mockGetFiles.mockResolvedValue(FILES.slice(1));
+
+    const response = await callDeploy({ mode: 'DIRECT_UPLOAD' });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toContain('HTML page');
+    expect(mockUpdateDeployment).not.toHaveBeenCalled();
+    expect(requests).toHaveLength(0);
+  });
+
+  it.each([
+    [{ mode: 'GIT' }, 'No git repository is connected'],
+    [{ mode: 'FTP' }, 'Invalid deploy mode'],
+  ])('should return 400 for %j', async (body, message) => {
+    const response = await callDeploy(body);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toContain(message);
+  });
+});
@@ -0,0 +1,487 @@
+/**
+ * Tests for Preview Deployments and Client Review Links
+ *
+ * Tests listing the latest preview of each branch, preview branch settings,
+ * sending a preview to the client with POST .../deployment/previews/review-link,
+ * and the public POST /api/review/[token] endpoint that records feedback.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock Prisma - using factory with hoisted mock
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    intakeSubmission: {
+      findUnique: vi.fn(),
+    },
+    previewReviewLink: {
+      create: vi.fn(async ({ data }) => ({
+        id: 12,
+        createdAt: new Date(),
+        revokedAt: null,
+        lastFeedbackAt: null,
+        ...data,
+      })),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+// Mock the session utilities
+vi.mock('@/lib/auth/session', () => ({
+  authorize: vi.fn(),
+}));
+
+// Mock the database queries
+vi.mock('@/lib/admin/queries', () => ({
+  getSubmissionById: vi.fn(),
+}));
+
+vi.mock('@/lib/admin/deploymentQueries', () => ({
+  getDeploymentByCustomerId: vi.fn(),
+  createDeployment: vi.fn(),
+  updateDeployment: vi.fn(),
+}));
+
+vi.mock('@/lib/admin/deploymentRunQueries', () => ({
+  recordDeploymentRun: vi.fn(),
+}));
+
+vi.mock('@/lib/admin/auditQueries', () => ({
+  recordAuditEvent: vi.fn(),
+}));
+
+vi.mock('@/lib/admin/noteQueries', () => ({
+  createNote: vi.fn(),
+}));
+
+// Mock email sending
+vi.mock('@/lib/email', () => ({
+  sendEmail: vi.fn(),
+  getPreviewReviewEmailTemplate: vi.fn(() => ({ subject: 'Subject', html: '<p>Body</p>' })),
+}));
+
+// Mock the Cloudflare API calls
+vi.mock('@/lib/cloudflare', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/cloudflare')>()),
+  createPagesProject: vi.fn(),
+  getDeployments: vi.fn(),
+  getPagesProject: vi.fn(),
+  updatePreviewBranchSettings: vi.fn(),
+}));
+
+import { GET as previewsGET, PATCH as previewsPATCH } from '@/app/api/admin/customers/[id]/deployment/previews/route';
+import { POST as reviewLinkPOST } from '@/app/api/admin/customers/[id]/deployment/previews/review-link/route';
+import { POST as initializePOST } from '@/app/api/admin/customers/[id]/deployment/route';
+import { POST as feedbackPOST } from '@/app/api/review/[token]/route';
+import { getLatestPreviews, validatePreviewBranchSettings } from '@/lib/previewDeployments';
+import {
+  createPagesProject,
+  getDeployments,
+  getPagesProject,
+  updatePreviewBranchSettings,
+  type PagesDeployment,
+  type PagesProject,
+} from '@/lib/cloudflare';
+import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/session';
+import { getSubmissionById } from '@/lib/admin/queries';
+import { createDeployment, getDeploymentByCustomerId, updateDeployment } from '@/lib/admin/deploymentQueries';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import { createNote } from '@/lib/admin/noteQueries';
+import { sendEmail, getPreviewReviewEmailTemplate } from '@/lib/email';
+import type { AuthorizationResult, CustomerDeployment, Submission } from '@/types/admin';
+
+const AUTHORIZED: AuthorizationResult = {
+  authorized: true,
+  session: { userId: 2, email: 'designer@example.com', name: 'Designer', role: 'DESIGNER' },
+};
+
+const TOKEN = 'c1b2c3d4-e5f6-7890-abcd-ef1234567890';
+
+const DEPLOYMENT: CustomerDeployment = {
+  id: 3,
+  createdAt: new Date('2026-03-01T00:00:00Z'),
+  updatedAt: new Date('2026-03-01T00:00:00Z'),
+  customerId: 7,
+  cfProjectId: 'project-7',
+  cfProjectName: 'taco-shop',
+  cfProductionUrl: 'https://taco-shop.pages.dev',
+  customDomain: null,
+  domainStatus: 'NONE',
+  deploymentStatus: 'DEPLOYED',
+  lastDeploymentAt: null,
+  lastDeploymentId: null,
+  lastDeploymentError: null,
+  suspendedAt: null,
+  suspensionMode: null,
+  gitRepoUrl: 'https://github.com/acme/taco-shop',
+  gitBranch: 'main',
+};
+
+const SUBMISSION = {
+  id: 7,
+  fullName: 'Rosa Diaz',
+  email: 'rosa@tacoshop.test',
+  businessName: 'Taco Shop',
+  projectStatus: 'WAITING_FOR_FEEDBACK',
+} as Submission;
+
+const PROJECT = {
+  id: 'project-7',
+  name: 'taco-shop',
+  production_branch: 'main',
+  source: {
+    type: 'github',
+    config: {
+      owner: 'acme',
+      repo_name: 'taco-shop',
+      production_branch: 'main',
+      preview_deployment_setting: 'custom',
+      preview_branch_includes: ['redesign'],
+    },
+  },
+} as PagesProject;
+
+// Helper to build a Cloudflare deployment
+function cfDeployment(
+  id: string,
+  branch: string,
+  status: PagesDeployment['latest_stage']['status'],
+  environment: PagesDeployment['environment'] = 'preview'
+): PagesDeployment {
+  return {
+    id,
+    environment,
+    url: `https://${id}.taco-shop.pages.dev`,
+    aliases: environment === 'preview' ? [`https://${branch}.taco-shop.pages.dev`] : undefined,
+    created_on: '2026-03-02T10:00:00Z',
+    latest_stage: {
+      name: 'deploy',
+      status,
+      started_on: '2026-03-02T10:00:00Z',
+      ended_on: status === 'active' ? null : '2026-03-02T10:01:00Z',
+    },
+    stages: [],
+    deployment_trigger: {
+      type: 'github',
+      metadata: { branch, commit_hash: `${id}-hash`, commit_message: `Update ${branch}` },
+    },
+  } as unknown as PagesDeployment;
+}
+
+const CF_PREVIEWS = [
+  cfDeployment('d4', 'redesign', 'success'),
+  cfDeployment('d3', 'new-menu', 'active'),
+  cfDeployment('d2', 'redesign', 'failure'),
+  cfDeployment('d1', 'main', 'success'),
+];
+
+// Cast to get access to mock methods
+const mockSubmission = prisma.intakeSubmission as unknown as {
+  findUnique: ReturnType<typeof vi.fn>;
+};
+const mockReviewLink = prisma.previewReviewLink as unknown as {
+  create: ReturnType<typeof vi.fn>;
+  findFirst: ReturnType<typeof vi.fn>;
+  findUnique: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
+  updateMany: ReturnType<typeof vi.fn>;
+};
+
+// Helper to build a stored review link row
+const createLinkRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 12,
+  createdAt: new Date('2026-03-02'),
+  customerId: 7,
+  token: TOKEN,
+  branch: 'redesign',
+  previewUrl: 'https://redesign.taco-shop.pages.dev',
+  expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  revokedAt: null,
+  lastFeedbackAt: null,
+  createdById: 2,
+  createdByName: 'Designer',
+  ...overrides,
+});
+
+function routeParams() {
+  return { params: Promise.resolve({ id: '7' }) };
+}
+
+function jsonRequest(url: string, method: string, body: unknown) {
+  return new NextRequest(url, { method, body: JSON.stringify(body) });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(authorize).mockResolvedValue(AUTHORIZED);
+  vi.mocked(getDeploymentByCustomerId).mockResolvedValue(DEPLOYMENT);
+  vi.mocked(getSubmissionById).mockResolvedValue(SUBMISSION);
+  vi.mocked(getPagesProject).mockResolvedValue(PROJECT);
+  vi.mocked(getDeployments).mockResolvedValue(CF_PREVIEWS);
+  vi.mocked(sendEmail).mockResolvedValue(true);
+  mockReviewLink.findFirst.mockResolvedValue(null);
+});
+
+describe('validatePreviewBranchSettings', () => {
+  it('accepts custom branch lists', () => {
+    expect(
+      validatePreviewBranchSettings({
+        previewDeploymentSetting: 'custom',
+        previewBranchIncludes: [' staging ', 'feature/*', ''],
+        previewBranchExcludes: ['dependabot/*'],
+      })
+    ).toEqual({
+      data: {
+        previewDeploymentSetting: 'custom',
+        previewBranchIncludes: ['staging', 'feature/*'],
+        previewBranchExcludes: ['dependabot/*'],
+      },
+    });
+  });
+
+  it('drops branch lists unless the setting is custom', () => {
+    expect(
+      validatePreviewBranchSettings({ previewDeploymentSetting: 'all', previewBranchIncludes: ['staging'] }).data
+    ).toEqual({ previewDeploymentSetting: 'all', previewBranchIncludes: [], previewBranchExcludes: [] });
+  });
+
+  it('rejects invalid settings', () => {
+    expect(validatePreviewBranchSettings({ previewDeploymentSetting: 'some' }).error).toMatch(/must be one of/);
+    expect(validatePreviewBranchSettings({ previewDeploymentSetting: 'custom' }).error).toMatch(/at least one branch/);
+    expect(
+      validatePreviewBranchSettings({ previewDeploymentSetting: 'custom', previewBranchIncludes: 'staging' }).error
+    ).toMatch(/must be a list/);
+  });
+});
+
+describe('getLatestPreviews', () => {
+  it('keeps the newest preview of each branch other than production', () => {
+    expect(getLatestPreviews(CF_PREVIEWS, 'main')).toEqual([
+      expect.objectContaining({
+        cfDeploymentId: 'd4',
+        branch: 'redesign',
+        status: 'DEPLOYED',
+        commitHash: 'd4-hash',
+        branchUrl: 'https://redesign.taco-shop.pages.dev',
+      }),
+      expect.objectContaining({ cfDeploymentId: 'd3', branch: 'new-menu', status: 'DEPLOYING' }),
+    ]);
+  });
+});
+
+describe('GET /api/admin/customers/[id]/deployment/previews', () => {
+  it('lists previews with the preview branch settings', async () => {
+    const response = await previewsGET(
+      new NextRequest('http://localhost/api/admin/customers/7/deployment/previews'),
+      routeParams()
+    );
+    const result = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(getDeployments).toHaveBeenCalledWith('taco-shop', 25, 'preview');
+    expect(result.data.previews.map((preview: { branch: string }) => preview.branch)).toEqual(['redesign', 'new-menu']);
+    expect(result.data.settings).toEqual({
+      previewDeploymentSetting: 'custom',
+      previewBranchIncludes: ['redesign'],
+      previewBranchExcludes: [],
+    });
+    expect(result.data.reviewLink).toBeNull();
+  });
+
+  it('returns an empty list with an error when Cloudflare fails', async () => {
+    vi.mocked(getDeployments).mockRejectedValue(new Error('Cloudflare is down'));
+
+    const response = await previewsGET(
+      new NextRequest('http://localhost/api/admin/customers/7/deployment/previews'),
+      routeParams()
+    );
+    const result = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(result.data.previews).toEqual([]);
+    expect(result.data.error).toBe('Could not fetch preview deployments from Cloudflare');
+  });
+});
+
+describe('PATCH /api/admin/customers/[id]/deployment/previews', () => {
+  const url = 'http://localhost/api/admin/customers/7/deployment/previews';
+
+  it('updates the preview branch settings on Cloudflare', async () => {
+    vi.mocked(updatePreviewBranchSettings).mockResolvedValue({
+      ...PROJECT,
+      source: { ...PROJECT.source!, config: { ...PROJECT.source!.config, preview_deployment_setting: 'none' } },
+    });
+
+    const response = await previewsPATCH(
+      jsonRequest(url, 'PATCH', { previewDeploymentSetting: 'none' }),
+      routeParams()
+    );
+
+    expect(response.status).toBe(200);
+    expect(updatePreviewBranchSettings).toHaveBeenCalledWith('taco-shop', {
+      previewDeploymentSetting: 'none',
+      previewBranchIncludes: [],
+      previewBranchExcludes: [],
+    });
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.anything(),
+      AUTHORIZED.session,
+      expect.objectContaining({ action: 'deployment.preview_settings', entityType: 'DEPLOYMENT' })
+    );
+  });
+
+  it('rejects projects without a git repository', async () => {
+    vi.mocked(getDeploymentByCustomerId).mockResolvedValue({ ...DEPLOYMENT, gitRepoUrl: null });
+
+    const response = await previewsPATCH(
+      jsonRequest(url, 'PATCH', { previewDeploymentSetting: 'none' }),
+      routeParams()
+    );
+
+    expect(response.status).toBe(400);
+    expect(updatePreviewBranchSettings).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/admin/customers/[id]/deployment (preview settings)', () => {
+  it('creates the project with the chosen preview setting', async () => {
+    vi.mocked(getDeploymentByCustomerId).mockResolvedValue(null);
+    vi.mocked(createPagesProject).mockResolvedValue(PROJECT);
+    vi.mocked(createDeployment).mockResolvedValue(DEPLOYMENT);
+    vi.mocked(updateDeployment).mockResolvedValue(DEPLOYMENT);
+
+    const response = await initializePOST(
+      jsonRequest('http://localhost/api/admin/customers/7/deployment', 'POST', {
+        cfProjectName: 'taco-shop',
+        gitRepoUrl: 'https://github.com/acme/taco-shop',
+        previewDeploymentSetting: 'none',
+      }),
+      routeParams()
+    );
+
+    expect(response.status).toBe(200);
+    expect(createPagesProject).toHaveBeenCalledWith('taco-shop', 'https://github.com/acme/taco-shop', 'main', {
+      previewDeploymentSetting: 'none',
+      previewBranchIncludes: [],
+      previewBranchExcludes: [],
+    });
+  });
+});
+
+describe('POST /api/admin/customers/[id]/deployment/previews/review-link', () => {
+  const url = 'http://localhost/api/admin/customers/7/deployment/previews/review-link';
+
+  it('emails the client a review link for the branch preview', async () => {
+    const response = await reviewLinkPOST(
+      jsonRequest(url, 'POST', { branch: 'redesign', sendEmail: true }),
+      routeParams()
+    );
+    const result = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(result.emailSent).toBe(true);
+    expect(result.url).toMatch(/\/review\/[0-9a-f-]{36}$/);
+
+    // Earlier links are revoked before the new one is created
+    expect(mockReviewLink.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ customerId: 7, revokedAt: null }) })
+    );
+    expect(mockReviewLink.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        customerId: 7,
+        branch: 'redesign',
+        previewUrl: 'https://redesign.taco-shop.pages.dev',
+        createdByName: 'Designer',
+      }),
+    });
+    expect(getPreviewReviewEmailTemplate).toHaveBeenCalledWith(
+      'Rosa Diaz',
+      'Taco Shop',
+      'https://redesign.taco-shop.pages.dev',
+      result.url,
+      expect.any(Date)
+    );
+    expect(sendEmail).toHaveBeenCalledWith('rosa@tacoshop.test', 'Subject', '<p>Body</p>');
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.anything(),
+      AUTHORIZED.session,
+      expect.objectContaining({ action: 'preview_review_link.generate', entityType: 'PREVIEW_REVIEW_LINK', entityId: 12 })
+    );
+  });
+
+  it('only sends previews while the project is waiting for feedback', async () => {
+    vi.mocked(getSubmissionById).mockResolvedValue({ ...SUBMISSION, projectStatus: 'IN_PROGRESS' });
+
+    const response = await reviewLinkPOST(jsonRequest(url, 'POST', { branch: 'redesign' }), routeParams());
+
+    expect(response.status).toBe(409);
+    expect(mockReviewLink.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects branches without a successful preview', async () => {
+    const missing = await reviewLinkPOST(jsonRequest(url, 'POST', { branch: 'nope' }), routeParams());
+    expect(missing.status).toBe(404);
+
+    const building = await reviewLinkPOST(jsonRequest(url, 'POST', { branch: 'new-menu' }), routeParams());
+    expect(building.status).toBe(400);
+    expect(mockReviewLink.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/review/[token]', () => {
+  const url = `http://localhost/api/review/${TOKEN}`;
+  const params = { params: Promise.resolve({ token: TOKEN }) };
+
+  beforeEach(() => {
+    mockReviewLink.findUnique.mockResolvedValue(createLinkRow());
+    mockSubmission.findUnique.mockResolvedValue({ id: 7, fullName: 'Rosa Diaz' });
+  });
+
+  it('records the feedback as a customer note', async () => {
+    const response = await feedbackPOST(
+      jsonRequest(url, 'POST', { feedback: '  Love it, but make the logo bigger  ', name: 'Rosa' }),
+      params
+    );
+
+    expect(response.status).toBe(200);
+    expect(createNote).toHaveBeenCalledWith(7, {
+      content: 'Client feedback on the redesign preview (https://redesign.taco-shop.pages.dev):\n\nLove it, but make the logo bigger',
+      noteType: 'GENERAL',
+      authorName: 'Rosa',
+    });
+    expect(mockReviewLink.update).toHaveBeenCalledWith({
+      where: { id: 12 },
+      data: { lastFeedbackAt: expect.any(Date) },
+    });
+  });
+
+  it('rejects empty feedback', async () => {
+    const response = await feedbackPOST(jsonRequest(url, 'POST', { feedback: '   ' }), params);
+
+    expect(response.status).toBe(400);
+    expect(createNote).not.toHaveBeenCalled();
+  });
+
+  it('returns 410 for revoked or expired links', async () => {
+    mockReviewLink.findUnique.mockResolvedValue(createLinkRow({ revokedAt: new Date() }));
+
+    const response = await feedbackPOST(jsonRequest(url, 'POST', { feedback: 'Hi' }), params);
+
+    expect(response.status).toBe(410);
+    expect(createNote).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for unknown tokens', async () => {
+    mockReviewLink.findUnique.mockResolvedValue(null);
+
+    const response = await feedbackPOST(jsonRequest(url, 'POST', { feedback: 'Hi' }), params);
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,394 @@
+/**
+ * Tests for the Static Site Generator
+ *
+ * Tests generating a site from an intake submission and customer files,
+ * the generated site summary and preview routes, and the GENERATED mode of
+ * POST /api/admin/customers/[id]/deployment/deploy.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock Prisma - using factory with hoisted mock
+vi.mock('@/lib/db', () => ({
+  prisma: {},
+}));
+
+// Mock the session utilities
+vi.mock('@/lib/auth/session', () => ({
+  authorize: vi.fn(),
+}));
+
+// Mock the database queries
+vi.mock('@/lib/admin/queries', () => ({
+  getSubmissionById: vi.fn(),
+}));
+
+vi.mock('@/lib/admin/deploymentQueries', () => ({
+  getDeploymentByCustomerId: vi.fn(),
+  updateDeployment: vi.fn(),
+}));
+
+vi.mock('@/lib/admin/deploymentRunQueries', () => ({
+  recordDeploymentRun: vi.fn(),
+}));
+
+vi.mock('@/lib/admin/fileQueries', () => ({
+  getFilesByCustomerId: vi.fn(),
+}));
+
+vi.mock('@/lib/admin/auditQueries', () => ({
+  recordAuditEvent: vi.fn(),
+}));
+
+vi.mock('@/lib/storage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/storage')>()),
+  readFile: vi.fn(),
+}));
+
+vi.mock('@/lib/cloudflare', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/cloudflare')>()),
+  deployStaticBundle: vi.fn(),
+}));
+
+import { GET as siteGET } from '@/app/api/admin/customers/[id]/generated-site/route';
+import { GET as previewGET } from '@/app/api/admin/customers/[id]/generated-site/preview/[[...path]]/route';
+import { POST as deployPOST } from '@/app/api/admin/customers/[id]/deployment/deploy/route';
+import { generateSite, getSiteTemplate, parseSiteContent, toParagraphs } from '@/lib/siteGenerator';
+import { StaticBundleError } from '@/lib/staticBundle';
+import { deployStaticBundle, type PagesDeployment, type StaticAsset } from '@/lib/cloudflare';
+import { StorageError, readFile } from '@/lib/storage';
+import { authorize } from '@/lib/auth/session';
+import { getSubmissionById } from '@/lib/admin/queries';
+import { getDeploymentByCustomerId, updateDeployment } from '@/lib/admin/deploymentQueries';
+import { getFilesByCustomerId } from '@/lib/admin/fileQueries';
+import type { AuthorizationResult, CustomerDeployment, CustomerFile, Submission } from '@/types/admin';
+
+const AUTHORIZED: AuthorizationResult = {
+  authorized: true,
+  session: { userId: 1, email: 'owner@example.com', name: 'Owner', role: 'OWNER' },
+};
+
+const SUBMISSION = {
+  id: 7,
+  fullName: 'Rosa Diaz',
+  email: 'rosa@tacoshop.test',
+  phone: '(555) 010-0100',
+  businessName: 'Rosa\'s <Taco> Shop',
+  industryType: 'restaurant',
+  features: JSON.stringify(['menu', 'gallery', 'reviews', 'ecommerce']),
+} as Submission;
+
+const DEPLOYMENT: CustomerDeployment = {
+  id: 3,
+  createdAt: new Date('2026-03-01T00:00:00Z'),
+  updatedAt: new Date('2026-03-01T00:00:00Z'),
+  customerId: 7,
+  cfProjectId: 'project-7',
+  cfProjectName: 'taco-shop',
+  cfProductionUrl: null,
+  customDomain: null,
+  domainStatus: 'NONE',
+  deploymentStatus: 'NOT_DEPLOYED',
+  lastDeploymentAt: null,
+  lastDeploymentId: null,
+  lastDeploymentError: null,
+  suspendedAt: null,
+  suspensionMode: null,
+  gitRepoUrl: null,
+  gitBranch: 'main',
+};
+
+function customerFile(id: number, fileName: string, category: CustomerFile['category'], mimeType: string): CustomerFile {
+  return {
+    id,
+    createdAt: new Date('2026-03-01T00:00:00Z'),
+    updatedAt: new Date('2026-03-01T00:00:00Z'),
+    customerId: 7,
+    fileName,
+    fileKey: `customers/7/${id}-${fileName}`,
+    fileSize: 100,
+    mimeType,
+    category,
+    description: null,
+    originalFileId: null,
+    version: 1,
+    supersededAt: null,
+    deletedAt: null,
+    deletedByName: null,
+  };
+}
+
+const SITE_JSON = JSON.stringify({
+  headline: 'Best tacos in town',
+  items: [
+    { name: 'Al Pastor', description: 'Pork & pineapple', price: 3.5 },
+    { name: 'Carnitas', price: '$4' },
+    { description: 'No name, skipped' },
+  ],
+  reviews: ['So good!', { quote: 'Great salsa', author: 'Sam' }],
+  hours: ['Mon-Fri 11am-9pm'],
+});
+
+const FILE_CONTENTS: Record<string, string> = {
+  'customers/7/6-site.json': SITE_JSON,
+  'customers/7/5-about.md': '# Our Story\n\nFamily run since **1998**.\n\nWe make everything fresh.',
+  'customers/7/4-Tacos.JPG': 'tacos-photo',
+  'customers/7/3-tacos.jpg': 'more-tacos',
+  'customers/7/2-logo.png': 'logo-image',
+};
+
+const FILES = [
+  customerFile(6, 'site.json', 'CONTENT', 'application/json'),
+  customerFile(5, 'about.md', 'CONTENT', 'text/markdown'),
+  customerFile(4, 'Tacos.JPG', 'PHOTO', 'image/jpeg'),
+  customerFile(3, 'tacos.jpg', 'PHOTO', 'image/jpeg'),
+  customerFile(2, 'logo.png', 'LOGO', 'image/png'),
+  customerFile(1, 'contract.pdf', 'DOCUMENT', 'application/pdf'),
+];
+
+function assetText(assets: StaticAsset[], path: string): string {
+  const asset = assets.find((item) => item.path === path);
+  if (!asset) throw new Error(`No asset at ${path}`);
+  return asset.content.toString();
+}
+
+function routeParams(path?: string[]) {
+  return { params: Promise.resolve({ id: '7', ...(path && { path }) }) };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(authorize).mockResolvedValue(AUTHORIZED);
+  vi.mocked(getSubmissionById).mockResolvedValue(SUBMISSION);
+  vi.mocked(getFilesByCustomerId).mockResolvedValue(FILES);
+  vi.mocked(readFile).mockImplementation(async (fileKey: string) => {
+    if (!(fileKey in FILE_CONTENTS)) throw new StorageError('File not found', 'NOT_FOUND');
+    return Buffer.from(FILE_CONTENTS[fileKey]);
+  });
+});
+
+describe('getSiteTemplate', () => {
+  it('maps intake form industries to templates', () => {
+    expect(getSiteTemplate('restaurant').id).toBe('restaurant');
+    expect(getSiteTemplate('home-services').id).toBe('home-services');
+    expect(getSiteTemplate('retail').id).toBe('retail');
+    expect(getSiteTemplate('health').id).toBe('professional');
+    expect(getSiteTemplate('other').id).toBe('professional');
+  });
+});
+
+describe('parseSiteContent', () => {
+  it('keeps well-formed fields and drops the rest', () => {
+    expect(parseSiteContent(SITE_JSON)).toMatchObject({
+      headline: 'Best tacos in town',
+      items: [
+        { name: 'Al Pastor', description: 'Pork & pineapple', price: '$3.50' },
+        { name: 'Carnitas', price: '$4' },
+      ],
+      reviews: [{ quote: 'So good!' }, { quote: 'Great salsa', author: 'Sam' }],
+      hours: ['Mon-Fri 11am-9pm'],
+    });
+  });
+
+  it('returns null for anything but a JSON object', () => {
+    expect(parseSiteContent('[1, 2]')).toBeNull();
+    expect(parseSiteContent('not json')).toBeNull();
+  });
+});
+
+describe('toParagraphs', () => {
+  it('splits on blank lines and strips markdown markers', () => {
+    expect(toParagraphs('# Our Story\n\nFamily run\nsince **1998**.\n\n- Fresh _daily_')).toEqual([
+      'Our Story',
+      'Family run since 1998.',
+      'Fresh daily',
+    ]);
+  });
+});
+
+describe('generateSite', () => {
+  it('renders the industry template with the customer files and text', async () => {
+    const site = await generateSite(SUBMISSION, FILES);
+
+    expect(site.template).toBe('restaurant');
+    expect(site.assets.map((asset) => asset.path)).toEqual([
+      '/index.html',
+      '/404.html',
+      '/styles.css',
+      '/images/logo.png',
+      '/images/tacos.jpg',
+      '/images/tacos-2.jpg',
+    ]);
+
+    const html = assetText(site.assets, '/index.html');
+    expect(html).toContain('<title>Rosa&#39;s &lt;Taco&gt; Shop - Fresh ingredients, family recipes</title>');
+    expect(html).toContain('<h1>Best tacos in town</h1>');
+    expect(html).toContain('<img class="brand-logo" src="images/logo.png"');
+    expect(html).toContain('<img class="hero-image" src="images/tacos.jpg"');
+    expect(html).toContain("Today&#39;s Specials");
+    expect(html).toContain('<h3>Al Pastor</h3>');
+    expect(html).toContain('<p class="price">$3.50</p>');
+    expect(html).toContain('<p>Family run since 1998.</p>');
+    expect(html).toContain('id="gallery"');
+    expect(html).toContain('&ldquo;Great salsa&rdquo;');
+    expect(html).toContain('href="mailto:rosa@tacoshop.test"');
+    expect(html).toContain('href="tel:5550100100"');
+    expect(html).not.toContain('<script');
+    expect(html).not.toMatch(/(href|src)="\//);
+
+    expect(assetText(site.assets, '/styles.css')).toContain('--header: #78350f;');
+    expect(site.assets.find((asset) => asset.path === '/images/logo.png')?.content.toString()).toBe('logo-image');
+    expect(site.notes).toEqual([
+      'An online store was requested; the generated site only links customers to get in touch',
+      'Contact details come from the intake form; check they are the ones to publish',
+    ]);
+  });
+
+  it('fills in placeholders and notes what is missing', async () => {
+    const site = await generateSite(
+      { ...SUBMISSION, industryType: 'home-services', features: JSON.stringify(['Photo gallery', 'Customer reviews']) },
+      []
+    );
+
+    expect(site.template).toBe('home-services');
+    expect(site.assets.map((asset) => asset.path)).toEqual(['/index.html', '/404.html', '/styles.css']);
+
+    const html = assetText(site.assets, '/index.html');
+    expect(html).toContain('Book Now - Free Quote');
+    expect(html).toContain('<li>Licensed</li>');
+    expect(html).toContain('<h3>Emergency Service</h3>');
+    expect(html).toContain('<span class="brand-initial" aria-hidden="true">R</span>');
+    expect(html).not.toContain('id="gallery"');
+    expect(site.notes).toEqual([
+      'No about text was provided, so the About section uses a placeholder',
+      'No logo was uploaded, so the header shows the first letter of the business name',
+      'The "Our Services" section uses placeholder items; add "items" to a JSON content file to list real ones',
+      'A photo gallery was requested but no photos have been uploaded',
+      'Customer reviews were requested; add "reviews" to a JSON content file to show them',
+      'Contact details come from the intake form; check they are the ones to publish',
+    ]);
+  });
+
+  it('throws StaticBundleError when a file is missing from storage', async () => {
+    await expect(
+      generateSite(SUBMISSION, [customerFile(9, 'gone.jpg', 'PHOTO', 'image/jpeg')])
+    ).rejects.toThrow(new StaticBundleError('gone.jpg is missing from storage'));
+  });
+});
+
+describe('GET /api/admin/customers/[id]/generated-site', () => {
+  it('summarizes the generated site', async () => {
+    const response = await siteGET(
+      new NextRequest('http://localhost/api/admin/customers/7/generated-site'),
+      routeParams()
+    );
+    const result = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(result.data.template).toBe('restaurant');
+    expect(result.data.files[0]).toEqual({
+      path: '/index.html',
+      contentType: 'text/html',
+      size: expect.any(Number),
+    });
+    expect(result.data.notes).toHaveLength(2);
+  });
+
+  it('returns 404 for an unknown customer', async () => {
+    vi.mocked(getSubmissionById).mockResolvedValue(null);
+
+    const response = await siteGET(
+      new NextRequest('http://localhost/api/admin/customers/7/generated-site'),
+      routeParams()
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('GET /api/admin/customers/[id]/generated-site/preview/[...path]', () => {
+  const url = 'http://localhost/api/admin/customers/7/generated-site/preview';
+
+  it('redirects to index.html when no path is given', async () => {
+    const response = await previewGET(new NextRequest(url), routeParams());
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('location')).toBe(`${url}/index.html`);
+  });
+
+  it('serves generated files with a restrictive CSP', async () => {
+    const response = await previewGET(new NextRequest(`${url}/styles.css`), routeParams(['styles.css']));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/css; charset=utf-8');
+    expect(response.headers.get('content-security-policy')).toContain("default-src 'none'");
+    expect(await response.text()).toContain(':root');
+  });
+
+  it('renders pages without reading any image', async () => {
+    const response = await previewGET(new NextRequest(`${url}/index.html`), routeParams(['index.html']));
+
+    expect(response.status).toBe(200);
+    expect(vi.mocked(readFile).mock.calls.map(([fileKey]) => fileKey)).toEqual([
+      'customers/7/6-site.json',
+      'customers/7/5-about.md',
+    ]);
+  });
+
+  it('reads only the requested image from storage', async () => {
+    const response = await previewGET(
+      new NextRequest(`${url}/images/tacos-2.jpg`),
+      routeParams(['images', 'tacos-2.jpg'])
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('image/jpeg');
+    expect(await response.text()).toBe('more-tacos');
+    expect(vi.mocked(readFile).mock.calls.map(([fileKey]) => fileKey)).toEqual([
+      'customers/7/6-site.json',
+      'customers/7/5-about.md',
+      'customers/7/3-tacos.jpg',
+    ]);
+  });
+
+  it('serves the 404 page for unknown paths', async () => {
+    const response = await previewGET(new NextRequest(`${url}/nope.html`), routeParams(['nope.html']));
+
+    expect(response.status).toBe(404);
+    expect(await response.text()).toContain('Page not found');
+  });
+});
+
+describe('POST /api/admin/customers/[id]/deployment/deploy (GENERATED)', () => {
+  it('uploads the generated site', async () => {
+    vi.mocked(getDeploymentByCustomerId).mockResolvedValue(DEPLOYMENT);
+    vi.mocked(updateDeployment).mockImplementation(async (_customerId, data) => ({ ...DEPLOYMENT, ...data }));
+    vi.mocked(deployStaticBundle).mockResolvedValue({
+      id: 'cf-gen-1',
+      url: 'https://cf-gen-1.taco-shop.pages.dev',
+      environment: 'production',
+      created_on: '2026-03-02T00:00:00Z',
+      latest_stage: { name: 'queued', status: 'active', started_on: null, ended_on: null },
+      stages: [],
+      deployment_trigger: { type: 'ad_hoc', metadata: { branch: 'main', commit_hash: '', commit_message: '' } },
+    } as unknown as PagesDeployment);
+
+    const response = await deployPOST(
+      new NextRequest('http://localhost/api/admin/customers/7/deployment/deploy', {
+        method: 'POST',
+        body: JSON.stringify({ mode: 'GENERATED' }),
+      }),
+      routeParams()
+    );
+    const result = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(result.deployment.mode).toBe('GENERATED');
+    const [projectName, assets, branch] = vi.mocked(deployStaticBundle).mock.calls[0];
+    expect(projectName).toBe('taco-shop');
+    expect(branch).toBe('main');
+    expect(assets.map((asset) => asset.path)).toContain('/index.html');
+    expect(assetText(assets, '/index.html')).toContain('Best tacos in town');
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Tests for File Content Validation
+ *
+ * Tests magic-byte sniffing, SVG/HTML sanitization and ZIP bomb checks in
+ * lib/storage/contentValidation.ts, and the extension check in uploadFile.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  detectFileSignature,
+  validateFileContent,
+  MAX_ARCHIVE_ENTRIES,
+} from '@/lib/storage/contentValidation';
+
+const PNG_BYTES = Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  Buffer.from('image data'),
+]);
+
+interface ZipEntry {
+  name: string;
+  compressedSize: number;
+  uncompressedSize: number;
+}
+
+// Helper to build a ZIP whose central directory records the given sizes.
+// The entry data itself is never read by the checks, so it is left out.
+function createZip(entries: ZipEntry[]): Buffer {
+  const localHeader = Buffer.alloc(30);
+  localHeader.writeUInt32LE(0x04034b50, 0);
+
+  const directory = entries.map((entry) => {
+    const name = Buffer.from(entry.name, 'utf8');
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt32LE(entry.compressedSize, 20);
+    header.writeUInt32LE(entry.uncompressedSize, 24);
+    header.writeUInt16LE(name.length, 28);
+    return Buffer.concat([header, name]);
+  });
+  const directoryBytes = Buffer.concat(directory);
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directoryBytes.length, 12);
+  end.writeUInt32LE(localHeader.length, 16);
+
+  return Buffer.concat([localHeader, directoryBytes, end]);
+}
+
+describe('detectFileSignature', () => {
+  it('should recognise common formats by their magic bytes', () => {
+    expect(detectFileSignature(PNG_BYTES)).toBe('png');
+    expect(detectFileSignature(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00]))).toBe('jpeg');
+    expect(detectFileSignature(Buffer.from('%PDF-1.7\n'))).toBe('pdf');
+    expect(detectFileSignature(createZip([]))).toBe('zip');
+    expect(detectFileSignature(Buffer.from('Hello world'))).toBeNull();
+  });
+});
+
+describe('validateFileContent', () => {
+  it('should accept files whose bytes match the declared type', () => {
+    expect(validateFileContent(PNG_BYTES, 'image/png')).toBe(PNG_BYTES);
+    expect(validateFileContent(Buffer.from('{"a":1}'), 'application/json').toString()).toBe('{"a":1}');
+  });
+
+  it('should reject a script renamed to an image', () => {
+    expect(() => validateFileContent(Buffer.from('<script>alert(1)</script>'), 'image/png')).toThrow(
+      expect.objectContaining({ code: 'CONTENT_MISMATCH' })
+    );
+  });
+
+  it('should reject binary data declared as text', () => {
+    expect(() => validateFileContent(PNG_BYTES, 'text/plain')).toThrow(
+      expect.objectContaining({ code: 'CONTENT_MISMATCH' })
+    );
+    expect(() => validateFileContent(Buffer.from('{not json'), 'application/json')).toThrow(
+      expect.objectContaining({ code: 'CONTENT_MISMATCH' })
+    );
+  });
+
+  it('should strip scripts and event handlers from SVGs', () => {
+    const svg =
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10" onload="alert(1)">' +
+      '<script>alert(2)</script><a href="javascript:alert(3)"><rect width="10" height="10"/></a></svg>';
+
+    const sanitized = validateFileContent(Buffer.from(svg), 'image/svg+xml').toString();
+
+    expect(sanitized).toContain('<rect width="10" height="10">');
+    expect(sanitized).toContain('viewBox="0 0 10 10"');
+    expect(sanitized).not.toMatch(/script|onload|javascript:/);
+  });
+
+  it('should reject an SVG upload without an svg element', () => {
+    expect(() => validateFileContent(Buffer.from('<p>hello</p>'), 'image/svg+xml')).toThrow(
+      expect.objectContaining({ code: 'CONTENT_MISMATCH' })
+    );
+  });
+
+  it('should sanitize HTML but keep the document structure', () => {
+    const html =
+      '<!DOCTYPE html><html><head><title>About</title><script>steal()</script></head>' +
+      '<body onload="steal()"><h1>About us</h1><img src="team.jpg" onerror="steal()">' +
+      '<form action="https://example.com"><input name="card"></form></body></html>';
+
+    const sanitized = validateFileContent(Buffer.from(html), 'text/html').toString();
+
+    expect(sanitized).toBe(
+      '<!DOCTYPE html>\n<html><head><title>About</title></head>' +
+        '<body><h1>About us</h1><img src="team.jpg"></body></html>'
+    );
+  });
+
+  it('should accept an ordinary ZIP archive', () => {
+    const zip = createZip([
+      { name: 'photos/team.jpg', compressedSize: 90_000, uncompressedSize: 100_000 },
+      { name: 'copy.txt', compressedSize: 2_000, uncompressedSize: 8_000 },
+    ]);
+
+    expect(validateFileContent(zip, 'application/zip')).toBe(zip);
+  });
+
+  it('should reject archives that extract to far more than they store', () => {
+    const zip = createZip([
+      { name: 'zeros.bin', compressedSize: 10_000, uncompressedSize: 50_000_000 },
+    ]);
+
+    expect(() => validateFileContent(zip, 'application/zip')).toThrow(
+      expect.objectContaining({ code: 'UNSAFE_ARCHIVE' })
+    );
+  });
+
+  it('should reject archives whose total size is too large', () => {
+    const zip = createZip([
+      { name: 'a.bin', compressedSize: 1_000_000, uncompressedSize: 60_000_000 },
+      { name: 'b.bin', compressedSize: 1_000_000, uncompressedSize: 60_000_000 },
+    ]);
+
+    expect(() => validateFileContent(zip, 'application/zip')).toThrow(
+      expect.objectContaining({ code: 'UNSAFE_ARCHIVE' })
+    );
+  });
+
+  it('should reject nested archives and archives with too many entries', () => {
+    const nested = createZip([{ name: 'inner.zip', compressedSize: 100, uncompressedSize: 100 }]);
+    const crowded = createZip(
+      Array.from({ length: MAX_ARCHIVE_ENTRIES + 1 }, (_, i) => ({
+        name: `file-${i}.txt`,
+        compressedSize: 1,
+        uncompressedSize: 1,
+      }))
+    );
+
+    expect(() => validateFileContent(nested, 'application/zip')).toThrow(
+      expect.objectContaining({ code: 'UNSAFE_ARCHIVE' })
+    );
+    expect(() => validateFileContent(crowded, 'application/zip')).toThrow(
+      expect.objectContaining({ code: 'UNSAFE_ARCHIVE' })
+    );
+  });
+
+  it('should run the archive checks on Office documents', () => {
+    const docx = createZip([
+      { name: 'word/document.xml', compressedSize: 1_000, uncompressedSize: 1_000_000 },
+    ]);
+
+    expect(() =>
+      validateFileContent(docx, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document')
+    ).toThrow(expect.objectContaining({ code: 'UNSAFE_ARCHIVE' }));
+  });
+});
+
+describe('uploadFile content checks', () => {
+  let uploadDir: string;
+  let storage: typeof import('@/lib/storage');
+
+  beforeAll(async () => {
+    uploadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'upload-test-'));
+    vi.stubEnv('UPLOAD_DIR', uploadDir);
+    vi.stubEnv('STORAGE_DRIVER', 'local');
+    vi.resetModules();
+    storage = await import('@/lib/storage');
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(uploadDir, { recursive: true, force: true });
+  });
+
+  // Helper to wrap bytes as an uploaded file
+  const toFileInput = (name: string, type: string, buffer: Buffer) => ({
+    name,
+    type,
+    size: buffer.length,
+    arrayBuffer: async () =>
+      buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length) as ArrayBuffer,
+  });
+
+  it('should reject a file whose extension does not match its type', async () => {
+    await expect(
+      storage.uploadFile(1, toFileInput('invoice.exe', 'application/pdf', Buffer.from('%PDF-1.4')), 'DOCUMENT')
+    ).rejects.toMatchObject({ code: 'EXTENSION_MISMATCH' });
+  });
+
+  it('should store the sanitized SVG', async () => {
+    const svg = '<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script><circle r="4"/></svg>';
+
+    const result = await storage.uploadFile(1, toFileInput('logo.svg', 'image/svg+xml', Buffer.from(svg)), 'LOGO');
+    const stored = await fs.readFile(path.join(uploadDir, result.fileKey), 'utf8');
+
+    expect(stored).toBe('<svg xmlns="http://www.w3.org/2000/svg"><circle r="4"></circle></svg>');
+    expect(result.fileSize).toBe(Buffer.byteLength(stored));
+  });
+});
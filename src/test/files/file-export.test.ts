@@ -0,0 +1,286 @@
+/**
+ * Tests for the Customer Files ZIP Export
+ *
+ * Tests the streaming ZIP writer, the export paths and manifest, and
+ * GET /api/admin/customers/[id]/files/export.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { crc32 } from 'zlib';
+
+// Mock Prisma - using factory with hoisted mock
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    intakeSubmission: {
+      findUnique: vi.fn(),
+    },
+    customerFile: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+// Mock the session utilities
+vi.mock('@/lib/auth/session', () => ({
+  authorize: vi.fn(),
+}));
+
+// Mock the storage entry points that touch the backend
+vi.mock('@/lib/storage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/storage')>()),
+  readFile: vi.fn(),
+}));
+
+import { GET as exportGET } from '@/app/api/admin/customers/[id]/files/export/route';
+import { createZipStream } from '@/lib/storage/zipWriter';
+import { createFilesExportStream, getExportPaths, EXPORT_MANIFEST_NAME } from '@/lib/fileExport';
+import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/session';
+import { readFile, StorageError } from '@/lib/storage';
+import type { AuthorizationResult, CustomerFile } from '@/types/admin';
+
+const AUTHORIZED: AuthorizationResult = {
+  authorized: true,
+  session: { userId: 2, email: 'designer@example.com', name: 'Designer', role: 'DESIGNER' },
+};
+
+// Cast to get access to mock methods
+const mockIntakeSubmission = prisma.intakeSubmission as unknown as {
+  findUnique: ReturnType<typeof vi.fn>;
+};
+const mockCustomerFile = prisma.customerFile as unknown as {
+  findMany: ReturnType<typeof vi.fn>;
+};
+
+// Helper to build a stored file row
+const createFile = (overrides: Partial<CustomerFile> = {}): CustomerFile => ({
+  id: 10,
+  createdAt: new Date('2026-02-01T10:00:00Z'),
+  updatedAt: new Date('2026-02-01T10:00:00Z'),
+  customerId: 1,
+  fileName: 'logo.png',
+  fileKey: 'customers/1/logos/a-logo.png',
+  fileSize: 4,
+  mimeType: 'image/png',
+  category: 'LOGO',
+  description: 'Primary logo',
+  originalFileId: null,
+  version: 1,
+  supersededAt: null,
+  deletedAt: null,
+  deletedByName: null,
+  ...overrides,
+});
+
+async function readStream(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  return Buffer.from(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Read the entries of a stored (uncompressed) ZIP archive through its
+ * central directory, checking each local header agrees with it
+ */
+function unzip(archive: Buffer): Map<string, Buffer> {
+  const eocd = archive.length - 22;
+  expect(archive.readUInt32LE(eocd)).toBe(0x06054b50);
+
+  const entryCount = archive.readUInt16LE(eocd + 10);
+  const directorySize = archive.readUInt32LE(eocd + 12);
+  let position = archive.readUInt32LE(eocd + 16);
+  expect(position + directorySize).toBe(eocd);
+
+  const entries = new Map<string, Buffer>();
+  for (let i = 0; i < entryCount; i++) {
+    expect(archive.readUInt32LE(position)).toBe(0x02014b50);
+    const crc = archive.readUInt32LE(position + 16);
+    const size = archive.readUInt32LE(position + 24);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const offset = archive.readUInt32LE(position + 42);
+    const name = archive.subarray(position + 46, position + 46 + nameLength).toString('utf8');
+
+    expect(archive.readUInt32LE(offset)).toBe(0x04034b50);
+    const localNameLength = archive.readUInt16LE(offset + 26);
+    const dataStart = offset + 30 + localNameLength;
+    const data = archive.subarray(dataStart, dataStart + size);
+    expect(crc32(data)).toBe(crc);
+
+    entries.set(name, data);
+    position += 46 + nameLength;
+  }
+
+  return entries;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.mocked(authorize).mockResolvedValue(AUTHORIZED);
+  vi.mocked(readFile).mockImplementation(async (key: string) => Buffer.from(`data:${key}`));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('createZipStream', () => {
+  async function* entries() {
+    yield { name: 'logos/logo.png', data: Buffer.from('png'), modifiedAt: new Date('2026-02-01') };
+    yield { name: 'content/café menu.txt', data: Buffer.from('Soup of the day'), modifiedAt: new Date('2026-02-02') };
+  }
+
+  it('should write every entry with its data and a valid central directory', async () => {
+    const archive = await readStream(createZipStream(entries()));
+    const files = unzip(archive);
+
+    expect([...files.keys()]).toEqual(['logos/logo.png', 'content/café menu.txt']);
+    expect(files.get('content/café menu.txt')?.toString()).toBe('Soup of the day');
+  });
+
+  it('should write an empty archive when there are no entries', async () => {
+    const archive = await readStream(createZipStream((async function* () {})()));
+
+    expect(archive.length).toBe(22);
+    expect(unzip(archive).size).toBe(0);
+  });
+});
+
+describe('getExportPaths', () => {
+  it('should place files in their category folders', () => {
+    const paths = getExportPaths([
+      createFile({ id: 1 }),
+      createFile({ id: 2, fileName: 'storefront.jpg', category: 'PHOTO' }),
+      createFile({ id: 3, fileName: 'notes.txt', category: 'GENERAL' }),
+    ]);
+
+    expect(paths.get(1)).toBe('logos/logo.png');
+    expect(paths.get(2)).toBe('photos/storefront.jpg');
+    expect(paths.get(3)).toBe('general/notes.txt');
+  });
+
+  it('should number repeated names within a folder', () => {
+    const paths = getExportPaths([
+      createFile({ id: 1, fileName: 'logo.png' }),
+      createFile({ id: 2, fileName: 'Logo.PNG' }),
+      createFile({ id: 3, fileName: 'logo.png' }),
+      createFile({ id: 4, fileName: 'logo.png', category: 'PHOTO' }),
+    ]);
+
+    expect(paths.get(1)).toBe('logos/logo.png');
+    expect(paths.get(2)).toBe('logos/Logo (2).PNG');
+    expect(paths.get(3)).toBe('logos/logo (3).png');
+    expect(paths.get(4)).toBe('photos/logo.png');
+  });
+
+  it('should keep names with path separators inside their folder', () => {
+    const paths = getExportPaths([createFile({ id: 1, fileName: '../../etc\\passwd' })]);
+
+    expect(paths.get(1)).toBe('logos/.._.._etc_passwd');
+  });
+});
+
+describe('createFilesExportStream', () => {
+  it('should add each file and a manifest of descriptions', async () => {
+    const files = unzip(await readStream(createFilesExportStream([
+      createFile({ id: 1 }),
+      createFile({ id: 2, fileName: 'menu.pdf', category: 'CONTENT', fileKey: 'customers/1/content/menu.pdf', description: 'Menu, "spring" edition', version: 3 }),
+    ])));
+
+    expect([...files.keys()]).toEqual(['logos/logo.png', 'content/menu.pdf', EXPORT_MANIFEST_NAME]);
+    expect(files.get('content/menu.pdf')?.toString()).toBe('data:customers/1/content/menu.pdf');
+
+    const manifest = files.get(EXPORT_MANIFEST_NAME)!.toString().split('\r\n');
+    expect(manifest[0]).toBe('Path,File Name,Category,Description,Size (bytes),Version,Uploaded,Status');
+    expect(manifest[1]).toBe('logos/logo.png,logo.png,LOGO,Primary logo,4,1,2026-02-01T10:00:00.000Z,included');
+    expect(manifest[2]).toBe('content/menu.pdf,menu.pdf,CONTENT,"Menu, ""spring"" edition",4,3,2026-02-01T10:00:00.000Z,included');
+  });
+
+  it('should quote manifest values that spreadsheets would run as formulas', async () => {
+    const files = unzip(await readStream(createFilesExportStream([
+      createFile({ fileName: '=cmd.png', description: '@SUM(A1)' }),
+    ])));
+
+    const manifest = files.get(EXPORT_MANIFEST_NAME)!.toString().split('\r\n');
+    expect(manifest[1]).toBe('logos/=cmd.png,\'=cmd.png,LOGO,\'@SUM(A1),4,1,2026-02-01T10:00:00.000Z,included');
+  });
+
+  it('should list files missing from storage in the manifest only', async () => {
+    vi.mocked(readFile).mockRejectedValueOnce(new StorageError('File not found', 'NOT_FOUND'));
+
+    const files = unzip(await readStream(createFilesExportStream([
+      createFile({ id: 1 }),
+      createFile({ id: 2, fileName: 'storefront.jpg', category: 'PHOTO' }),
+    ])));
+
+    expect([...files.keys()]).toEqual(['photos/storefront.jpg', EXPORT_MANIFEST_NAME]);
+    const manifest = files.get(EXPORT_MANIFEST_NAME)!.toString().split('\r\n');
+    expect(manifest[1]).toBe(',logo.png,LOGO,Primary logo,4,1,2026-02-01T10:00:00.000Z,missing');
+  });
+
+  it('should fail the stream on other read errors', async () => {
+    vi.mocked(readFile).mockRejectedValueOnce(new Error('Backend unavailable'));
+
+    await expect(readStream(createFilesExportStream([createFile()]))).rejects.toThrow('Backend unavailable');
+  });
+});
+
+describe('Customer Files Export API - GET', () => {
+  function callExport(query = '', id = '1') {
+    const request = new NextRequest(`http://localhost/api/admin/customers/${id}/files/export${query}`);
+    return exportGET(request, { params: Promise.resolve({ id }) });
+  }
+
+  it('should require files:view', async () => {
+    vi.mocked(authorize).mockResolvedValueOnce({ authorized: false, error: 'Forbidden', status: 403 });
+
+    const response = await callExport();
+
+    expect(response.status).toBe(403);
+    expect(authorize).toHaveBeenCalledWith('files:view');
+  });
+
+  it('should reject an invalid category', async () => {
+    const response = await callExport('?category=VIDEO');
+
+    expect(response.status).toBe(400);
+    expect(mockCustomerFile.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown customer', async () => {
+    mockIntakeSubmission.findUnique.mockResolvedValue(null);
+
+    const response = await callExport('', '99');
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 404 when there are no files to export', async () => {
+    mockIntakeSubmission.findUnique.mockResolvedValue({ id: 1, businessName: 'Corner Bakery' });
+    mockCustomerFile.findMany.mockResolvedValue([]);
+
+    const response = await callExport('?category=PHOTO');
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe('No files to export');
+  });
+
+  it('should stream a ZIP of the chosen category', async () => {
+    mockIntakeSubmission.findUnique.mockResolvedValue({ id: 1, businessName: 'Corner Bakery & Café' });
+    mockCustomerFile.findMany.mockResolvedValue([createFile()]);
+
+    const response = await callExport('?category=LOGO');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/zip');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="corner-bakery-caf-logos.zip"');
+    expect(mockCustomerFile.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ customerId: 1, category: 'LOGO' }),
+      })
+    );
+
+    const files = unzip(Buffer.from(await response.arrayBuffer()));
+    expect([...files.keys()]).toEqual(['logos/logo.png', EXPORT_MANIFEST_NAME]);
+  });
+});
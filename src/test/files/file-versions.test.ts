@@ -0,0 +1,433 @@
+/**
+ * Tests for File Versions and the Trash
+ *
+ * Tests replacing a file with a new version through
+ * POST /api/admin/customers/[id]/files, moving files to the trash and
+ * restoring them, and the trash purge job with its cron entry point.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock Prisma - using factory with hoisted mock
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    customerFile: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(async ({ data }) => ({ id: 21, createdAt: new Date(), ...data })),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(async ({ where }) => ({ count: where.id.in.length })),
+      aggregate: vi.fn(),
+      groupBy: vi.fn(),
+    },
+    customerFileVariant: {
+      create: vi.fn(),
+    },
+    paymentLink: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+// Mock the session utilities
+vi.mock('@/lib/auth/session', () => ({
+  authorize: vi.fn(),
+}));
+
+// Mock the audit log helper
+vi.mock('@/lib/admin/auditQueries', () => ({
+  recordAuditEvent: vi.fn(),
+}));
+
+// Mock the storage entry points that touch the backend
+vi.mock('@/lib/storage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/storage')>()),
+  uploadFile: vi.fn(),
+  deleteFile: vi.fn(),
+}));
+
+import { POST as filesPOST } from '@/app/api/admin/customers/[id]/files/route';
+import { GET as fileGET, DELETE as fileDELETE } from '@/app/api/admin/customers/[id]/files/[fileId]/route';
+import { POST as restorePOST } from '@/app/api/admin/customers/[id]/files/[fileId]/restore/route';
+import { GET as trashGET } from '@/app/api/admin/customers/[id]/files/trash/route';
+import { POST as cronPOST } from '@/app/api/cron/file-purge/route';
+import { getFilesByCustomerId } from '@/lib/admin/fileQueries';
+import { runFilePurge } from '@/lib/filePurge';
+import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/session';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import { uploadFile, deleteFile, StorageError } from '@/lib/storage';
+import type { AuthorizationResult } from '@/types/admin';
+
+const MB = 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const AUTHORIZED: AuthorizationResult = {
+  authorized: true,
+  session: { userId: 2, email: 'designer@example.com', name: 'Designer', role: 'DESIGNER' },
+};
+
+// Cast to get access to mock methods
+const mockCustomerFile = prisma.customerFile as unknown as {
+  findUnique: ReturnType<typeof vi.fn>;
+  findMany: ReturnType<typeof vi.fn>;
+  create: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
+  updateMany: ReturnType<typeof vi.fn>;
+  deleteMany: ReturnType<typeof vi.fn>;
+  aggregate: ReturnType<typeof vi.fn>;
+  groupBy: ReturnType<typeof vi.fn>;
+};
+const mockPaymentLink = prisma.paymentLink as unknown as {
+  findMany: ReturnType<typeof vi.fn>;
+};
+
+// Helper to build a stored file row
+const createFileRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 10,
+  createdAt: new Date('2026-02-01'),
+  updatedAt: new Date('2026-02-01'),
+  customerId: 1,
+  fileName: 'logo.png',
+  fileKey: 'customers/1/logos/a-logo.png',
+  fileSize: MB,
+  mimeType: 'image/png',
+  category: 'LOGO',
+  description: 'Primary logo',
+  originalFileId: null,
+  version: 1,
+  supersededAt: null,
+  deletedAt: null,
+  deletedByName: null,
+  variants: [],
+  ...overrides,
+});
+
+const fileParams = (fileId: string) => ({ params: Promise.resolve({ id: '1', fileId }) });
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.mocked(authorize).mockResolvedValue(AUTHORIZED);
+  mockCustomerFile.aggregate.mockResolvedValue({ _sum: { fileSize: 10 * MB } });
+  mockPaymentLink.findMany.mockResolvedValue([]);
+  vi.mocked(deleteFile).mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('getFilesByCustomerId', () => {
+  it('should only list current versions outside the trash', async () => {
+    mockCustomerFile.findMany.mockResolvedValue([]);
+
+    await getFilesByCustomerId(1, 'LOGO');
+
+    expect(mockCustomerFile.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { customerId: 1, category: 'LOGO', deletedAt: null, supersededAt: null },
+      })
+    );
+  });
+});
+
+describe('Customer Files API - POST replace', () => {
+  function callReplace(fileNames: string[], replaceFileId = '12') {
+    const formData = new FormData();
+    for (const name of fileNames) {
+      formData.append('files', new File(['image'], name, { type: 'image/png' }));
+    }
+    formData.append('replaceFileId', replaceFileId);
+    const request = new NextRequest('http://localhost/api/admin/customers/1/files', {
+      method: 'POST',
+      body: formData,
+    });
+    return filesPOST(request, { params: Promise.resolve({ id: '1' }) });
+  }
+
+  beforeEach(() => {
+    mockCustomerFile.findMany.mockResolvedValue([]);
+    mockCustomerFile.groupBy.mockResolvedValue([]);
+    vi.mocked(uploadFile).mockImplementation(async (_customerId, file, category) => ({
+      fileName: file.name,
+      fileKey: `customers/1/logos/b-${file.name}`,
+      fileSize: file.size,
+      mimeType: file.type,
+      category: category as 'LOGO',
+      variants: [],
+    }));
+  });
+
+  it('should store the upload as the next version of the file', async () => {
+    mockCustomerFile.findUnique.mockResolvedValue(
+      createFileRow({ id: 12, originalFileId: 10, version: 2 })
+    );
+
+    const response = await callReplace(['logo-dark.png']);
+
+    expect(response.status).toBe(200);
+    expect(vi.mocked(uploadFile)).toHaveBeenCalledWith(1, expect.any(File), 'LOGO');
+    expect(mockCustomerFile.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        fileName: 'logo-dark.png',
+        category: 'LOGO',
+        description: 'Primary logo',
+        originalFileId: 10,
+        version: 3,
+      }),
+    });
+    expect(mockCustomerFile.update).toHaveBeenCalledWith({
+      where: { id: 12 },
+      data: { supersededAt: expect.any(Date) },
+    });
+    expect(vi.mocked(recordAuditEvent)).toHaveBeenCalledWith(
+      expect.anything(),
+      AUTHORIZED.session,
+      expect.objectContaining({
+        action: 'file.replace',
+        entityId: 21,
+        before: { fileName: 'logo.png', version: 2 },
+        after: { fileName: 'logo-dark.png', version: 3 },
+      })
+    );
+  });
+
+  it('should point the first replacement at the original file', async () => {
+    mockCustomerFile.findUnique.mockResolvedValue(createFileRow());
+
+    await callReplace(['logo-v2.png'], '10');
+
+    expect(mockCustomerFile.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ originalFileId: 10, version: 2 }),
+    });
+  });
+
+  it('should only replace one file at a time', async () => {
+    const response = await callReplace(['a.png', 'b.png']);
+
+    expect(response.status).toBe(400);
+    expect(vi.mocked(uploadFile)).not.toHaveBeenCalled();
+  });
+
+  it('should not replace earlier versions', async () => {
+    mockCustomerFile.findUnique.mockResolvedValue(createFileRow({ supersededAt: new Date() }));
+
+    const response = await callReplace(['logo.png'], '10');
+
+    expect(response.status).toBe(409);
+    expect(vi.mocked(uploadFile)).not.toHaveBeenCalled();
+  });
+});
+
+describe('Customer File API - GET versions', () => {
+  it('should return every version of the file, newest first', async () => {
+    mockCustomerFile.findUnique.mockResolvedValue(
+      createFileRow({ id: 12, originalFileId: 10, version: 2 })
+    );
+    mockCustomerFile.findMany.mockResolvedValue([
+      createFileRow({ id: 12, originalFileId: 10, version: 2 }),
+      createFileRow({ supersededAt: new Date() }),
+    ]);
+
+    const response = await fileGET(new NextRequest('http://localhost'), fileParams('12'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.versions).toHaveLength(2);
+    expect(mockCustomerFile.findMany).toHaveBeenCalledWith({
+      where: { OR: [{ id: 10 }, { originalFileId: 10 }] },
+      orderBy: { version: 'desc' },
+    });
+  });
+
+  it('should return 404 for another customer\'s file', async () => {
+    mockCustomerFile.findUnique.mockResolvedValue(createFileRow({ customerId: 2 }));
+
+    const response = await fileGET(new NextRequest('http://localhost'), fileParams('10'));
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('Customer File API - DELETE', () => {
+  it('should move the file and its earlier versions to the trash', async () => {
+    mockCustomerFile.findUnique.mockResolvedValue(
+      createFileRow({ id: 12, originalFileId: 10, version: 2 })
+    );
+
+    const response = await fileDELETE(
+      new NextRequest('http://localhost', { method: 'DELETE' }),
+      fileParams('12')
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.retentionDays).toBe(30);
+    expect(mockCustomerFile.updateMany).toHaveBeenCalledWith({
+      where: { OR: [{ id: 10 }, { originalFileId: 10 }], deletedAt: null },
+      data: { deletedAt: expect.any(Date), deletedByName: 'Designer' },
+    });
+    expect(vi.mocked(deleteFile)).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 for a file already in the trash', async () => {
+    mockCustomerFile.findUnique.mockResolvedValue(createFileRow({ deletedAt: new Date() }));
+
+    const response = await fileDELETE(
+      new NextRequest('http://localhost', { method: 'DELETE' }),
+      fileParams('10')
+    );
+
+    expect(response.status).toBe(409);
+    expect(mockCustomerFile.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('Customer File Trash API', () => {
+  it('should list trashed files with the retention period', async () => {
+    vi.stubEnv('FILE_TRASH_RETENTION_DAYS', '7');
+    mockCustomerFile.findMany.mockResolvedValue([createFileRow({ deletedAt: new Date() })]);
+
+    const response = await trashGET(new NextRequest('http://localhost'), {
+      params: Promise.resolve({ id: '1' }),
+    });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.files).toHaveLength(1);
+    expect(data.data.retentionDays).toBe(7);
+    expect(mockCustomerFile.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { customerId: 1, deletedAt: { not: null }, supersededAt: null },
+      })
+    );
+  });
+
+  it('should restore the file and its earlier versions', async () => {
+    mockCustomerFile.findUnique.mockResolvedValue(createFileRow({ deletedAt: new Date() }));
+    mockCustomerFile.findMany.mockResolvedValue([createFileRow({ deletedAt: new Date() })]);
+
+    const response = await restorePOST(
+      new NextRequest('http://localhost', { method: 'POST' }),
+      fileParams('10')
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockCustomerFile.updateMany).toHaveBeenCalledWith({
+      where: { OR: [{ id: 10 }, { originalFileId: 10 }] },
+      data: { deletedAt: null, deletedByName: null },
+    });
+    expect(vi.mocked(recordAuditEvent)).toHaveBeenCalledWith(
+      expect.anything(),
+      AUTHORIZED.session,
+      expect.objectContaining({ action: 'file.restore', entityId: 10 })
+    );
+  });
+
+  it('should not restore files that would exceed the quota', async () => {
+    mockCustomerFile.aggregate.mockResolvedValue({ _sum: { fileSize: 499.5 * MB } });
+    mockCustomerFile.findUnique.mockResolvedValue(createFileRow({ deletedAt: new Date() }));
+    mockCustomerFile.findMany.mockResolvedValue([createFileRow({ deletedAt: new Date() })]);
+
+    const response = await restorePOST(
+      new NextRequest('http://localhost', { method: 'POST' }),
+      fileParams('10')
+    );
+
+    expect(response.status).toBe(413);
+    expect(mockCustomerFile.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('runFilePurge', () => {
+  const NOW = new Date('2026-04-01T00:00:00Z');
+
+  it('should delete expired files from storage, then their records', async () => {
+    mockCustomerFile.findMany.mockResolvedValue([
+      createFileRow({
+        deletedAt: new Date(NOW.getTime() - 31 * DAY_MS),
+        supersededAt: new Date('2026-02-10'),
+        variants: [{ id: 3, fileKey: 'customers/1/logos/variants/a-logo-thumb.webp' }],
+      }),
+      createFileRow({
+        id: 12,
+        originalFileId: 10,
+        version: 2,
+        fileKey: 'customers/1/logos/b-logo.png',
+        deletedAt: new Date(NOW.getTime() - 31 * DAY_MS),
+      }),
+    ]);
+
+    const summary = await runFilePurge(NOW, 30);
+
+    expect(mockCustomerFile.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { deletedAt: { lt: new Date(NOW.getTime() - 30 * DAY_MS) } },
+      })
+    );
+    expect(vi.mocked(deleteFile).mock.calls.map(([key]) => key)).toEqual([
+      'customers/1/logos/variants/a-logo-thumb.webp',
+      'customers/1/logos/a-logo.png',
+      'customers/1/logos/b-logo.png',
+    ]);
+    expect(mockCustomerFile.deleteMany).toHaveBeenCalledWith({ where: { id: { in: [10, 12] } } });
+    expect(summary).toEqual({ checked: 2, purged: 2, errors: [] });
+  });
+
+  it('should keep records whose stored files could not be deleted', async () => {
+    mockCustomerFile.findMany.mockResolvedValue([
+      createFileRow({ deletedAt: new Date(NOW.getTime() - 40 * DAY_MS) }),
+      createFileRow({
+        id: 15,
+        fileKey: 'customers/1/photos/c-team.jpg',
+        deletedAt: new Date(NOW.getTime() - 40 * DAY_MS),
+      }),
+    ]);
+    vi.mocked(deleteFile).mockImplementation(async (fileKey) => {
+      if (fileKey === 'customers/1/logos/a-logo.png') {
+        throw new StorageError('Failed to delete file from storage', 'DELETE_ERROR');
+      }
+    });
+
+    const summary = await runFilePurge(NOW, 30);
+
+    expect(mockCustomerFile.deleteMany).toHaveBeenCalledTimes(1);
+    expect(mockCustomerFile.deleteMany).toHaveBeenCalledWith({ where: { id: { in: [15] } } });
+    expect(summary).toEqual({ checked: 2, purged: 1, errors: ['File 10: storage deletion failed'] });
+  });
+});
+
+describe('File Purge Cron API - POST', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubEnv('CRON_SECRET', 'cron-secret');
+    mockCustomerFile.findMany.mockResolvedValue([]);
+  });
+
+  function callCron(authorization?: string) {
+    const request = new NextRequest(new URL('/api/cron/file-purge', 'http://localhost'), {
+      method: 'POST',
+      headers: authorization ? { Authorization: authorization } : {},
+    });
+    return cronPOST(request);
+  }
+
+  it('should return 401 without the cron secret', async () => {
+    const response = await callCron('Bearer wrong');
+
+    expect(response.status).toBe(401);
+    expect(mockCustomerFile.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should run the job and return the summary', async () => {
+    const response = await callCron('Bearer cron-secret');
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data).toEqual({ checked: 0, purged: 0, errors: [] });
+  });
+});
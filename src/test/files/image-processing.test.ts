@@ -0,0 +1,164 @@
+/**
+ * Tests for the Image Processing Pipeline
+ *
+ * Tests EXIF stripping and variant rendering in lib/imageProcessing.ts,
+ * and the processing done by uploadFile with the local storage driver.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import sharp from 'sharp';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  shouldProcessImage,
+  stripImageMetadata,
+  renderImageVariants,
+} from '@/lib/imageProcessing';
+
+// Helper to build a JPEG with camera EXIF data
+async function createPhoto(width: number, height: number, orientation?: number): Promise<Buffer> {
+  let image = sharp({
+    create: { width, height, channels: 3, background: { r: 40, g: 120, b: 200 } },
+  }).withExif({ IFD0: { Make: 'PhoneCo', Model: 'Phone 12' } });
+
+  if (orientation) {
+    image = image.withMetadata({ orientation });
+  }
+
+  return image.jpeg().toBuffer();
+}
+
+describe('shouldProcessImage', () => {
+  it('should only process raster logos and photos', () => {
+    expect(shouldProcessImage('PHOTO', 'image/jpeg')).toBe(true);
+    expect(shouldProcessImage('LOGO', 'image/png')).toBe(true);
+    expect(shouldProcessImage('LOGO', 'image/svg+xml')).toBe(false);
+    expect(shouldProcessImage('PHOTO', 'image/gif')).toBe(false);
+    expect(shouldProcessImage('GENERAL', 'image/jpeg')).toBe(false);
+  });
+});
+
+describe('stripImageMetadata', () => {
+  it('should drop EXIF data and apply the orientation', async () => {
+    // Orientation 6 means the camera was rotated a quarter turn
+    const photo = await createPhoto(300, 200, 6);
+    expect((await sharp(photo).metadata()).exif).toBeDefined();
+
+    const stripped = await stripImageMetadata(photo, 'image/jpeg');
+    const metadata = await sharp(stripped).metadata();
+
+    expect(metadata.format).toBe('jpeg');
+    expect(metadata.exif).toBeUndefined();
+    expect(metadata.orientation).toBeUndefined();
+    expect([metadata.width, metadata.height]).toEqual([200, 300]);
+  });
+
+  it('should reject data that is not an image', async () => {
+    await expect(stripImageMetadata(Buffer.from('not an image'), 'image/png')).rejects.toThrow();
+  });
+});
+
+describe('renderImageVariants', () => {
+  it('should render a thumbnail and WebP/AVIF copies at standard widths', async () => {
+    const variants = await renderImageVariants(await createPhoto(1000, 600));
+
+    expect(
+      variants.map(({ kind, format, suffix, width, height }) => ({ kind, format, suffix, width, height }))
+    ).toEqual([
+      { kind: 'THUMBNAIL', format: 'webp', suffix: 'thumb', width: 320, height: 192 },
+      { kind: 'WEB', format: 'webp', suffix: '640w', width: 640, height: 384 },
+      { kind: 'WEB', format: 'avif', suffix: '640w', width: 640, height: 384 },
+      { kind: 'WEB', format: 'webp', suffix: '1000w', width: 1000, height: 600 },
+      { kind: 'WEB', format: 'avif', suffix: '1000w', width: 1000, height: 600 },
+    ]);
+    expect((await sharp(variants[2].buffer).metadata()).format).toBe('heif');
+  });
+
+  it('should not enlarge small images', async () => {
+    const variants = await renderImageVariants(await createPhoto(200, 100));
+
+    expect(variants.map((variant) => [variant.suffix, variant.width])).toEqual([
+      ['thumb', 200],
+      ['200w', 200],
+      ['200w', 200],
+    ]);
+  });
+});
+
+describe('uploadFile image processing', () => {
+  let uploadDir: string;
+  let storage: typeof import('@/lib/storage');
+
+  beforeAll(async () => {
+    uploadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'upload-test-'));
+    vi.stubEnv('UPLOAD_DIR', uploadDir);
+    vi.stubEnv('STORAGE_DRIVER', 'local');
+    vi.resetModules();
+    storage = await import('@/lib/storage');
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(uploadDir, { recursive: true, force: true });
+  });
+
+  // Helper to wrap bytes as an uploaded file
+  const toFileInput = (name: string, type: string, buffer: Buffer) => ({
+    name,
+    type,
+    size: buffer.length,
+    arrayBuffer: async () =>
+      buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length) as ArrayBuffer,
+  });
+
+  it('should store a stripped original and its variants next to it', async () => {
+    const result = await storage.uploadFile(
+      1,
+      toFileInput('team.jpg', 'image/jpeg', await createPhoto(700, 500)),
+      'PHOTO'
+    );
+
+    const original = await fs.readFile(path.join(uploadDir, result.fileKey));
+    expect((await sharp(original).metadata()).exif).toBeUndefined();
+    expect(result.fileSize).toBe(original.length);
+
+    expect(result.variants.map((variant) => variant.fileKey)).toEqual([
+      expect.stringMatching(/^customers\/1\/photos\/variants\/\d+-[0-9a-f]+-team-thumb\.webp$/),
+      expect.stringMatching(/-640w\.webp$/),
+      expect.stringMatching(/-640w\.avif$/),
+      expect.stringMatching(/-700w\.webp$/),
+      expect.stringMatching(/-700w\.avif$/),
+    ]);
+    for (const variant of result.variants) {
+      const stats = await fs.stat(path.join(uploadDir, variant.fileKey));
+      expect(stats.size).toBe(variant.fileSize);
+    }
+  });
+
+  it('should leave other categories untouched', async () => {
+    const document = Buffer.from('%PDF-1.4 test');
+
+    const result = await storage.uploadFile(
+      1,
+      toFileInput('brief.pdf', 'application/pdf', document),
+      'DOCUMENT'
+    );
+
+    expect(result.variants).toEqual([]);
+    expect(await fs.readFile(path.join(uploadDir, result.fileKey))).toEqual(document);
+  });
+
+  it('should reject a photo that cannot be decoded', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    // A PNG signature followed by garbage passes the content check
+    const broken = Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      Buffer.from('garbage'),
+    ]);
+
+    await expect(
+      storage.uploadFile(1, toFileInput('broken.png', 'image/png', broken), 'PHOTO')
+    ).rejects.toMatchObject({ code: 'INVALID_TYPE' });
+  });
+});
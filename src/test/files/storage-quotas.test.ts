@@ -0,0 +1,252 @@
+/**
+ * Tests for Storage Quotas and Reporting
+ *
+ * Tests quota resolution and enforcement in lib/admin/storageQueries.ts,
+ * the quota check in POST /api/admin/customers/[id]/files, the largest
+ * consumers report and orphan detection.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock Prisma - using factory with hoisted mock
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    customerFile: {
+      aggregate: vi.fn(),
+      groupBy: vi.fn(),
+      findMany: vi.fn(),
+    },
+    customerFileVariant: {
+      findMany: vi.fn(),
+    },
+    paymentLink: {
+      findMany: vi.fn(),
+    },
+    intakeSubmission: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+// Mock the session utilities
+vi.mock('@/lib/auth/session', () => ({
+  authorize: vi.fn(),
+}));
+
+// Mock the storage entry points that touch the backend
+vi.mock('@/lib/storage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/storage')>()),
+  uploadFile: vi.fn(),
+  listStoredFiles: vi.fn(),
+}));
+
+import {
+  getCustomerStorageUsage,
+  checkStorageQuota,
+  getLargestStorageConsumers,
+  findStorageOrphans,
+} from '@/lib/admin/storageQueries';
+import { POST as filesPOST } from '@/app/api/admin/customers/[id]/files/route';
+import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/session';
+import { uploadFile, listStoredFiles } from '@/lib/storage';
+
+const MB = 1024 * 1024;
+
+// Cast to get access to mock methods
+const mockCustomerFile = prisma.customerFile as unknown as {
+  aggregate: ReturnType<typeof vi.fn>;
+  groupBy: ReturnType<typeof vi.fn>;
+  findMany: ReturnType<typeof vi.fn>;
+};
+const mockVariant = prisma.customerFileVariant as unknown as {
+  findMany: ReturnType<typeof vi.fn>;
+};
+const mockPaymentLink = prisma.paymentLink as unknown as {
+  findMany: ReturnType<typeof vi.fn>;
+};
+const mockSubmission = prisma.intakeSubmission as unknown as {
+  findMany: ReturnType<typeof vi.fn>;
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPaymentLink.findMany.mockResolvedValue([]);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getCustomerStorageUsage', () => {
+  it('should use the default quota when the customer has no plan', async () => {
+    mockCustomerFile.aggregate.mockResolvedValue({ _sum: { fileSize: 12 * MB } });
+
+    expect(await getCustomerStorageUsage(4)).toEqual({
+      usedBytes: 12 * MB,
+      quotaBytes: 500 * MB,
+      planName: null,
+    });
+  });
+
+  it('should read the default quota from the environment', async () => {
+    vi.stubEnv('CUSTOMER_STORAGE_QUOTA_MB', '50');
+    mockCustomerFile.aggregate.mockResolvedValue({ _sum: { fileSize: null } });
+
+    expect(await getCustomerStorageUsage(4)).toEqual({
+      usedBytes: 0,
+      quotaBytes: 50 * MB,
+      planName: null,
+    });
+  });
+
+  it('should use the quota of the plan the customer last paid for', async () => {
+    mockCustomerFile.aggregate.mockResolvedValue({ _sum: { fileSize: MB } });
+    mockPaymentLink.findMany.mockResolvedValue([
+      { customerId: 4, plan: { name: 'Growth', storageQuotaMb: 2048 } },
+      { customerId: 4, plan: { name: 'Starter', storageQuotaMb: 250 } },
+    ]);
+
+    expect(await getCustomerStorageUsage(4)).toEqual({
+      usedBytes: MB,
+      quotaBytes: 2048 * MB,
+      planName: 'Growth',
+    });
+    expect(mockPaymentLink.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { customerId: { in: [4] }, status: 'USED', planId: { not: null } },
+        orderBy: { usedAt: 'desc' },
+      })
+    );
+  });
+
+  it('should fall back to the default for plans without their own quota', async () => {
+    mockCustomerFile.aggregate.mockResolvedValue({ _sum: { fileSize: MB } });
+    mockPaymentLink.findMany.mockResolvedValue([
+      { customerId: 4, plan: { name: 'Starter', storageQuotaMb: null } },
+    ]);
+
+    expect(await getCustomerStorageUsage(4)).toEqual(
+      expect.objectContaining({ quotaBytes: 500 * MB, planName: 'Starter' })
+    );
+  });
+});
+
+describe('checkStorageQuota', () => {
+  it('should allow uploads that fit', async () => {
+    mockCustomerFile.aggregate.mockResolvedValue({ _sum: { fileSize: 499 * MB } });
+
+    await expect(checkStorageQuota(4, MB)).resolves.toEqual(
+      expect.objectContaining({ usedBytes: 499 * MB })
+    );
+  });
+
+  it('should reject uploads that would exceed the quota', async () => {
+    mockCustomerFile.aggregate.mockResolvedValue({ _sum: { fileSize: 498 * MB } });
+
+    await expect(checkStorageQuota(4, 3 * MB)).rejects.toMatchObject({
+      code: 'QUOTA_EXCEEDED',
+      message: 'Storage quota exceeded: this upload needs 3 MB but only 2 MB of the 500 MB quota is left',
+    });
+  });
+});
+
+describe('Customer Files API - POST quota check', () => {
+  beforeEach(() => {
+    vi.mocked(authorize).mockResolvedValue({
+      authorized: true,
+      session: { userId: 1, email: 'designer@example.com', name: 'Designer', role: 'DESIGNER' },
+    });
+  });
+
+  it('should return 413 without storing anything when over quota', async () => {
+    vi.stubEnv('CUSTOMER_STORAGE_QUOTA_MB', '1');
+    mockCustomerFile.aggregate.mockResolvedValue({ _sum: { fileSize: MB - 100 } });
+
+    const formData = new FormData();
+    formData.append('files', new File(['x'.repeat(200)], 'brief.txt', { type: 'text/plain' }));
+    const request = new NextRequest('http://localhost/api/admin/customers/4/files', {
+      method: 'POST',
+      body: formData,
+    });
+
+    const response = await filesPOST(request, { params: Promise.resolve({ id: '4' }) });
+    const body = await response.json();
+
+    expect(response.status).toBe(413);
+    expect(body.success).toBe(false);
+    expect(body.error).toMatch(/^Storage quota exceeded/);
+    expect(vi.mocked(uploadFile)).not.toHaveBeenCalled();
+  });
+});
+
+describe('getLargestStorageConsumers', () => {
+  it('should list customers by usage with their quotas', async () => {
+    mockCustomerFile.groupBy.mockResolvedValue([
+      { customerId: 7, _sum: { fileSize: 300 * MB }, _count: { _all: 40 } },
+      { customerId: 2, _sum: { fileSize: 20 * MB }, _count: { _all: 3 } },
+    ]);
+    mockSubmission.findMany.mockResolvedValue([
+      { id: 2, businessName: 'Corner Bakery', fullName: 'Ana Lee' },
+      { id: 7, businessName: 'Hill Studio', fullName: 'Sam Hill' },
+    ]);
+    mockPaymentLink.findMany.mockResolvedValue([
+      { customerId: 7, plan: { name: 'Growth', storageQuotaMb: 1024 } },
+    ]);
+
+    const consumers = await getLargestStorageConsumers(10);
+
+    expect(mockCustomerFile.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({ orderBy: { _sum: { fileSize: 'desc' } }, take: 10 })
+    );
+    expect(consumers).toEqual([
+      {
+        customerId: 7,
+        businessName: 'Hill Studio',
+        fullName: 'Sam Hill',
+        fileCount: 40,
+        usedBytes: 300 * MB,
+        quotaBytes: 1024 * MB,
+        planName: 'Growth',
+      },
+      {
+        customerId: 2,
+        businessName: 'Corner Bakery',
+        fullName: 'Ana Lee',
+        fileCount: 3,
+        usedBytes: 20 * MB,
+        quotaBytes: 500 * MB,
+        planName: null,
+      },
+    ]);
+  });
+});
+
+describe('findStorageOrphans', () => {
+  it('should report objects without records and records without objects', async () => {
+    vi.mocked(listStoredFiles).mockResolvedValue([
+      { fileKey: 'customers/1/logos/a-logo.png', size: 100 },
+      { fileKey: 'customers/1/logos/variants/a-logo-thumb.webp', size: 20 },
+      { fileKey: 'customers/1/photos/leftover.jpg', size: 5000 },
+    ]);
+    mockCustomerFile.findMany.mockResolvedValue([
+      { id: 1, customerId: 1, fileName: 'logo.png', fileKey: 'customers/1/logos/a-logo.png' },
+      { id: 2, customerId: 1, fileName: 'brief.pdf', fileKey: 'customers/1/documents/b-brief.pdf' },
+    ]);
+    mockVariant.findMany.mockResolvedValue([
+      { id: 5, fileId: 1, fileKey: 'customers/1/logos/variants/a-logo-thumb.webp' },
+      { id: 6, fileId: 1, fileKey: 'customers/1/logos/variants/a-logo-640w.webp' },
+    ]);
+
+    expect(await findStorageOrphans()).toEqual({
+      unreferencedObjects: [{ fileKey: 'customers/1/photos/leftover.jpg', size: 5000 }],
+      missingFiles: [
+        { id: 2, customerId: 1, fileName: 'brief.pdf', fileKey: 'customers/1/documents/b-brief.pdf' },
+      ],
+      missingVariants: [
+        { id: 6, fileId: 1, fileKey: 'customers/1/logos/variants/a-logo-640w.webp' },
+      ],
+    });
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Tests for the Customer Upload Portal
+ *
+ * Tests the POST /api/admin/customers/[id]/upload-link endpoint and the
+ * public POST /api/upload/[token] endpoint customers upload files through.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Mock Prisma - using factory with hoisted mock
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    intakeSubmission: {
+      findUnique: vi.fn(),
+    },
+    uploadLink: {
+      create: vi.fn(async ({ data }) => ({
+        id: 8,
+        createdAt: new Date(),
+        revokedAt: null,
+        lastUsedAt: null,
+        ...data,
+      })),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+// Mock the session utilities
+vi.mock('@/lib/auth/session', () => ({
+  authorize: vi.fn(),
+}));
+
+// Mock the audit log helper
+vi.mock('@/lib/admin/auditQueries', () => ({
+  recordAuditEvent: vi.fn(),
+}));
+
+// Mock email sending
+vi.mock('@/lib/email', () => ({
+  sendEmail: vi.fn(),
+  getUploadPortalEmailTemplate: vi.fn(() => ({ subject: 'Subject', html: '<p>Body</p>' })),
+}));
+
+// Mock the file, note and quota queries
+vi.mock('@/lib/admin/fileQueries', () => ({
+  createFileRecord: vi.fn(async (customerId, data) => ({ id: 30, customerId, ...data })),
+  createFileVariantRecords: vi.fn(async () => []),
+}));
+vi.mock('@/lib/admin/noteQueries', () => ({
+  createNote: vi.fn(),
+}));
+vi.mock('@/lib/admin/storageQueries', () => ({
+  checkStorageQuota: vi.fn(),
+}));
+
+// Mock the storage entry points that touch the backend
+vi.mock('@/lib/storage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/storage')>()),
+  uploadFile: vi.fn(),
+}));
+
+import { POST as generatePOST } from '@/app/api/admin/customers/[id]/upload-link/route';
+import { POST as uploadPOST } from '@/app/api/upload/[token]/route';
+import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/session';
+import { sendEmail, getUploadPortalEmailTemplate } from '@/lib/email';
+import { recordAuditEvent } from '@/lib/admin/auditQueries';
+import { createNote } from '@/lib/admin/noteQueries';
+import { checkStorageQuota } from '@/lib/admin/storageQueries';
+import { uploadFile, StorageError } from '@/lib/storage';
+import type { AuthorizationResult, FileCategory } from '@/types/admin';
+
+const AUTHORIZED: AuthorizationResult = {
+  authorized: true,
+  session: { userId: 2, email: 'designer@example.com', name: 'Designer', role: 'DESIGNER' },
+};
+
+const TOKEN = 'c1b2c3d4-e5f6-7890-abcd-ef1234567890';
+
+// Cast to get access to mock methods
+const mockSubmission = prisma.intakeSubmission as unknown as {
+  findUnique: ReturnType<typeof vi.fn>;
+};
+const mockUploadLink = prisma.uploadLink as unknown as {
+  create: ReturnType<typeof vi.fn>;
+  findUnique: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
+  updateMany: ReturnType<typeof vi.fn>;
+};
+
+// Helper to build a stored upload link row
+const createLinkRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 8,
+  createdAt: new Date('2026-01-01'),
+  customerId: 1,
+  token: TOKEN,
+  expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  revokedAt: null,
+  lastUsedAt: null,
+  createdById: 2,
+  createdByName: 'Designer',
+  ...overrides,
+});
+
+describe('Upload Link API - POST', () => {
+  const mockAuthorize = vi.mocked(authorize);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockAuthorize.mockResolvedValue(AUTHORIZED);
+    mockSubmission.findUnique.mockResolvedValue({
+      id: 1,
+      fullName: 'Jane Doe',
+      email: 'jane@example.com',
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function callGenerate(body?: object) {
+    const request = new NextRequest(
+      new URL('/api/admin/customers/1/upload-link', 'http://localhost'),
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      }
+    );
+    return generatePOST(request, { params: Promise.resolve({ id: '1' }) });
+  }
+
+  it('should return 403 when the role cannot upload files', async () => {
+    mockAuthorize.mockResolvedValue({ authorized: false, status: 403, error: 'Forbidden' });
+
+    const response = await callGenerate();
+
+    expect(response.status).toBe(403);
+    expect(mockAuthorize).toHaveBeenCalledWith('files:upload');
+  });
+
+  it('should return 404 for an unknown customer', async () => {
+    mockSubmission.findUnique.mockResolvedValue(null);
+
+    const response = await callGenerate();
+
+    expect(response.status).toBe(404);
+    expect(mockUploadLink.create).not.toHaveBeenCalled();
+  });
+
+  it('should replace earlier links and email the new one', async () => {
+    vi.mocked(sendEmail).mockResolvedValue(true);
+
+    const response = await callGenerate({ sendEmail: true });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockUploadLink.updateMany).toHaveBeenCalledWith({
+      where: { customerId: 1, revokedAt: null, expiresAt: { gt: expect.any(Date) } },
+      data: { revokedAt: expect.any(Date) },
+    });
+    const { data: created } = mockUploadLink.create.mock.calls[0][0];
+    expect(created).toEqual(
+      expect.objectContaining({ customerId: 1, createdById: 2, createdByName: 'Designer' })
+    );
+    expect(data.url).toBe(`http://localhost:3000/upload/${created.token}`);
+    expect(data.emailSent).toBe(true);
+    expect(vi.mocked(getUploadPortalEmailTemplate)).toHaveBeenCalledWith(
+      'Jane Doe',
+      data.url,
+      created.expiresAt
+    );
+    expect(vi.mocked(sendEmail)).toHaveBeenCalledWith('jane@example.com', 'Subject', '<p>Body</p>');
+    expect(vi.mocked(recordAuditEvent)).toHaveBeenCalledWith(
+      expect.anything(),
+      AUTHORIZED.session,
+      expect.objectContaining({ action: 'upload_link.generate', entityType: 'UPLOAD_LINK', entityId: 8 })
+    );
+  });
+
+  it('should not email the link when only copying it', async () => {
+    const response = await callGenerate();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.emailSent).toBeUndefined();
+    expect(vi.mocked(sendEmail)).not.toHaveBeenCalled();
+  });
+});
+
+describe('Upload Portal API - POST', () => {
+  const mockUploadFile = vi.mocked(uploadFile);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockUploadLink.findUnique.mockResolvedValue(createLinkRow());
+    mockSubmission.findUnique.mockResolvedValue({ id: 1, fullName: 'Jane Doe' });
+    vi.mocked(checkStorageQuota).mockResolvedValue({
+      usedBytes: 0,
+      quotaBytes: 500 * 1024 * 1024,
+      planName: null,
+    });
+    mockUploadFile.mockImplementation(async (_customerId, file, category) => ({
+      fileName: (file as File).name,
+      fileKey: `customers/1/photos/${(file as File).name}`,
+      fileSize: (file as File).size,
+      mimeType: (file as File).type,
+      category: category as FileCategory,
+      variants: [],
+    }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function callUpload(fileNames: string[], category?: string, token = TOKEN) {
+    const formData = new FormData();
+    for (const name of fileNames) {
+      formData.append('files', new File(['image'], name, { type: 'image/png' }));
+    }
+    if (category) {
+      formData.append('category', category);
+    }
+    const request = new NextRequest(new URL(`/api/upload/${token}`, 'http://localhost'), {
+      method: 'POST',
+      body: formData,
+    });
+    return uploadPOST(request, { params: Promise.resolve({ token }) });
+  }
+
+  it('should return 404 for an unknown token', async () => {
+    mockUploadLink.findUnique.mockResolvedValue(null);
+
+    const response = await callUpload(['logo.png']);
+
+    expect(response.status).toBe(404);
+    expect(mockUploadFile).not.toHaveBeenCalled();
+  });
+
+  it('should return 410 for a replaced link', async () => {
+    mockUploadLink.findUnique.mockResolvedValue(createLinkRow({ revokedAt: new Date() }));
+
+    const response = await callUpload(['logo.png']);
+
+    expect(response.status).toBe(410);
+    expect(mockUploadFile).not.toHaveBeenCalled();
+  });
+
+  it('should reject categories customers cannot upload into', async () => {
+    const response = await callUpload(['contract.png'], 'DOCUMENT');
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Invalid category. Must be one of: LOGO, PHOTO, CONTENT');
+    expect(mockUploadFile).not.toHaveBeenCalled();
+  });
+
+  it('should return 413 when the files would exceed the quota', async () => {
+    vi.mocked(checkStorageQuota).mockRejectedValue(
+      new StorageError('Storage quota exceeded', 'QUOTA_EXCEEDED')
+    );
+
+    const response = await callUpload(['team.png'], 'PHOTO');
+
+    expect(response.status).toBe(413);
+    expect(mockUploadFile).not.toHaveBeenCalled();
+  });
+
+  it('should store the files and record a note for the team', async () => {
+    const response = await callUpload(['team.png', 'shop.png'], 'PHOTO');
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.uploaded).toHaveLength(2);
+    expect(mockUploadFile).toHaveBeenCalledWith(1, expect.any(File), 'PHOTO');
+    expect(vi.mocked(createNote)).toHaveBeenCalledWith(1, {
+      content: 'Customer uploaded 2 files (PHOTO) through the upload portal: team.png, shop.png',
+      noteType: 'GENERAL',
+      authorName: 'Jane Doe',
+    });
+    expect(mockUploadLink.update).toHaveBeenCalledWith({
+      where: { id: 8 },
+      data: { lastUsedAt: expect.any(Date) },
+    });
+  });
+
+  it('should not record a note when every file fails', async () => {
+    mockUploadFile.mockRejectedValue(new StorageError('File type not allowed', 'INVALID_TYPE'));
+
+    const response = await callUpload(['logo.png']);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.errors).toEqual([{ fileName: 'logo.png', error: 'File type not allowed' }]);
+    expect(vi.mocked(createNote)).not.toHaveBeenCalled();
+  });
+});
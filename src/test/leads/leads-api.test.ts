@@ -22,14 +22,26 @@ vi.mock('@/lib/db', () => {
   };
 });
 
+// Mock the payment ledger (no payments recorded)
+vi.mock('@/lib/admin/paymentQueries', () => ({
+  centsToDollars: (amountCents: number) => amountCents / 100,
+  getNetRevenueByCustomer: async () => new Map(),
+  getTotalNetRevenueCents: async () => 0,
+  setManualSetupFee: vi.fn(),
+}));
+
 // Mock authentication
 vi.mock('@/lib/auth/session', () => ({
-  isAuthenticated: vi.fn().mockResolvedValue(true),
+  authorize: vi.fn().mockResolvedValue({
+    authorized: true,
+    session: { userId: 1, email: 'owner@example.com', name: 'Owner', role: 'OWNER' },
+  }),
 }));
 
 // Import after mocks are set up
 import { prisma } from '@/lib/db';
 import { getLeads, getSubmissionById, updateSubmission } from '@/lib/admin/queries';
+import { setManualSetupFee } from '@/lib/admin/paymentQueries';
 import type { SubmissionStatus } from '@/types/admin';
 
 // Cast to get access to mock methods
@@ -146,7 +158,7 @@ describe('Leads API - Query Functions', () => {
 
       const result = await getSubmissionById(1);
 
-      expect(result).toEqual(mockSubmission);
+      expect(result).toEqual({ ...mockSubmission, totalRevenue: 0 });
       expect(mockPrismaSubmission.findUnique).toHaveBeenCalledWith({
         where: { id: 1 },
       });
@@ -243,6 +255,27 @@ describe('Leads API - Query Functions', () => {
         },
       });
     });
+
+    it('mirrors revenue into the payment ledger as a manual setup fee', async () => {
+      const paidAt = new Date('2026-01-20');
+      mockPrismaSubmission.update.mockResolvedValue({
+        ...mockSubmission,
+        revenue: 2500,
+        paidAt,
+      });
+
+      await updateSubmission(1, { revenue: 2500 });
+
+      expect(vi.mocked(setManualSetupFee)).toHaveBeenCalledWith(1, 2500, paidAt);
+    });
+
+    it('does not touch the payment ledger when revenue is unchanged', async () => {
+      mockPrismaSubmission.update.mockResolvedValue(mockSubmission);
+
+      await updateSubmission(1, { notes: 'Updated notes' });
+
+      expect(vi.mocked(setManualSetupFee)).not.toHaveBeenCalled();
+    });
   });
 });
 
@@ -18,13 +18,41 @@ export type ProjectStatus =
   | 'CANCELLED';
 
 // Billing status for subscription tracking
-export type BillingStatus = 'PENDING' | 'PAID' | 'OVERDUE' | 'CANCELLED';
+export type BillingStatus = 'PENDING' | 'PAID' | 'OVERDUE' | 'CANCELLED' | 'REFUNDED';
 
 // Stripe subscription status (matches Stripe API values)
-export type StripeSubscriptionStatus = 'active' | 'past_due' | 'canceled' | 'unpaid';
+export type StripeSubscriptionStatus =
+  | 'active'
+  | 'trialing'
+  | 'past_due'
+  | 'paused'
+  | 'incomplete'
+  | 'canceled'
+  | 'unpaid';
+
+// Admin user roles
+export type AdminRole = 'OWNER' | 'SALES' | 'DESIGNER' | 'BILLING';
+
+// Granular permissions checked by /api/admin/* routes
+export type AdminPermission =
+  | 'dashboard:view'
+  | 'submissions:view'
+  | 'submissions:edit'
+  | 'projects:edit'
+  | 'notes:view'
+  | 'notes:edit'
+  | 'files:view'
+  | 'files:upload'
+  | 'files:delete'
+  | 'deployments:view'
+  | 'deployments:manage'
+  | 'billing:view'
+  | 'billing:manage'
+  | 'users:manage';
 
 // Authentication types
 export interface LoginCredentials {
+  email: string;
   password: string;
 }
 
@@ -35,7 +63,10 @@ export interface AuthResponse {
 
 // Admin session payload (extends jose's JWTPayload structure)
 export interface AdminSessionPayload {
-  role: 'admin';
+  userId: number;
+  email: string;
+  name: string;
+  role: AdminRole;
   iat?: number;
   exp?: number;
 }
@@ -46,6 +77,37 @@ export interface SessionResult {
   payload?: AdminSessionPayload;
 }
 
+// Permission check result for admin API routes
+export type AuthorizationResult =
+  | { authorized: true; session: AdminSessionPayload }
+  | { authorized: false; status: 401 | 403; error: string };
+
+// Admin user account (passwordHash is never exposed outside the auth layer)
+export interface AdminUser {
+  id: number;
+  createdAt: Date;
+  updatedAt: Date;
+  email: string;
+  name: string;
+  role: AdminRole;
+  isActive: boolean;
+  lastLoginAt: Date | null;
+}
+
+export interface CreateAdminUserInput {
+  email: string;
+  name: string;
+  password: string;
+  role: AdminRole;
+}
+
+export interface UpdateAdminUserInput {
+  name?: string;
+  role?: AdminRole;
+  isActive?: boolean;
+  password?: string;
+}
+
 // API Response types for admin endpoints
 export interface ApiResponse<T = unknown> {
   success: boolean;
@@ -85,6 +147,42 @@ export interface BillingFilters {
   search?: string;
 }
 
+// Every filter the leads, customers, projects and billing lists accept.
+// Date ranges are inclusive of both days.
+export interface SubmissionListFilters extends SubmissionFilters, ProjectFilters, BillingFilters {
+  // Leave out one status, e.g. PAID for the leads list
+  excludeStatus?: SubmissionStatus;
+  deploymentStatus?: DeploymentStatus;
+  industryType?: string;
+  budgetRange?: string;
+  timeline?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  paidFrom?: Date;
+  paidTo?: Date;
+}
+
+// Columns the submission lists can be sorted by
+export type SubmissionSortField =
+  | 'createdAt'
+  | 'paidAt'
+  | 'fullName'
+  | 'businessName'
+  | 'industryType'
+  | 'status'
+  | 'projectStatus'
+  | 'billingStatus'
+  | 'goLiveDate'
+  | 'lastInvoiceDate'
+  | 'subscriptionCurrentPeriodEnd';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface SubmissionSort {
+  sortBy: SubmissionSortField;
+  sortOrder: SortOrder;
+}
+
 // Full submission data from database
 export interface Submission {
   id: number;
@@ -117,6 +215,8 @@ export interface Submission {
   // Payment tracking
   paidAt: Date | null;
   revenue: number | null;
+  // Net revenue from the Payment ledger in dollars (set by list and detail queries)
+  totalRevenue?: number;
 
   // Project Status Tracking
   projectStatus: ProjectStatus;
@@ -135,10 +235,6 @@ export interface Submission {
   billingStatus: BillingStatus;
   lastInvoiceDate: Date | null;
   lastInvoicePaidAt: Date | null;
-
-  // Payment Link Tokens
-  setupFeeToken: string | null;
-  subscriptionToken: string | null;
 }
 
 // Admin navigation item structure
@@ -187,6 +283,39 @@ export interface CustomerFile {
   mimeType: string;
   category: FileCategory;
   description: string | null;
+  // First version of the file, null for the first version itself
+  originalFileId: number | null;
+  version: number;
+  supersededAt: Date | null;
+  deletedAt: Date | null;
+  deletedByName: string | null;
+  // Included by the file list and single-file lookups
+  variants?: CustomerFileVariant[];
+}
+
+export type FileVariantKind = 'THUMBNAIL' | 'WEB';
+
+export interface CustomerFileVariant {
+  id: number;
+  createdAt: Date;
+  fileId: number;
+  kind: FileVariantKind;
+  format: string;
+  width: number;
+  height: number;
+  fileKey: string;
+  fileSize: number;
+  mimeType: string;
+}
+
+export interface CreateFileVariantInput {
+  kind: FileVariantKind;
+  format: string;
+  width: number;
+  height: number;
+  fileKey: string;
+  fileSize: number;
+  mimeType: string;
 }
 
 export interface CreateFileInput {
@@ -196,11 +325,46 @@ export interface CreateFileInput {
   mimeType: string;
   category?: FileCategory;
   description?: string;
+  // Set when the file is a new version of an existing file
+  originalFileId?: number;
+  version?: number;
+}
+
+// Storage used by a customer's uploads against their quota
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number;
+  // Plan the quota comes from (null: the default quota)
+  planName: string | null;
+}
+
+// Row of the largest storage consumers report
+export interface StorageConsumer extends StorageUsage {
+  customerId: number;
+  businessName: string;
+  fullName: string;
+  fileCount: number;
+}
+
+// Stored objects and file records that don't match up
+export interface StorageOrphanReport {
+  // Objects in storage with no CustomerFile or variant row
+  unreferencedObjects: { fileKey: string; size: number }[];
+  // CustomerFile rows whose object is missing from storage
+  missingFiles: Pick<CustomerFile, 'id' | 'customerId' | 'fileName' | 'fileKey'>[];
+  // Variant rows whose object is missing from storage
+  missingVariants: Pick<CustomerFileVariant, 'id' | 'fileId' | 'fileKey'>[];
 }
 
 // Customer Deployment types
 export type DomainStatus = 'NONE' | 'DNS_PENDING' | 'DNS_CONFIGURED' | 'ACTIVE' | 'ERROR';
 export type DeploymentStatus = 'NOT_DEPLOYED' | 'DEPLOYING' | 'DEPLOYED' | 'FAILED';
+// Where a deployment's files come from: the project's git branch, the
+// customer's uploaded files sent by direct upload, or a site generated from
+// their intake submission and files
+export type DeployMode = 'GIT' | 'DIRECT_UPLOAD' | 'GENERATED';
+// How a site was taken offline for non-payment
+export type SuspensionMode = 'PAUSED' | 'SUSPENDED_PAGE';
 
 export interface CustomerDeployment {
   id: number;
@@ -216,10 +380,69 @@ export interface CustomerDeployment {
   lastDeploymentAt: Date | null;
   lastDeploymentId: string | null;
   lastDeploymentError: string | null;
+  suspendedAt: Date | null;
+  suspensionMode: SuspensionMode | null;
   gitRepoUrl: string | null;
   gitBranch: string;
 }
 
+// Deployment history types
+export type DeploymentRunStatus = Exclude<DeploymentStatus, 'NOT_DEPLOYED'>;
+export type DeploymentStageStatus = 'idle' | 'active' | 'canceled' | 'success' | 'failure';
+
+export interface DeploymentRunStage {
+  name: string;
+  status: DeploymentStageStatus;
+  startedOn: string | null;
+  endedOn: string | null;
+}
+
+export interface DeploymentRun {
+  id: number;
+  createdAt: Date;
+  updatedAt: Date;
+  customerId: number;
+  cfDeploymentId: string;
+  triggeredByName: string | null;
+  trigger: string;
+  environment: 'production' | 'preview';
+  branch: string | null;
+  commitHash: string | null;
+  commitMessage: string | null;
+  url: string | null;
+  status: DeploymentRunStatus;
+  error: string | null;
+  stages: DeploymentRunStage[];
+  startedAt: Date;
+  finishedAt: Date | null;
+  // Last time production was rolled back to this run, and by whom
+  rolledBackAt: Date | null;
+  rolledBackByName: string | null;
+}
+
+// Details of a run as reported by Cloudflare, refreshed on every sync
+export type DeploymentRunSyncData = Omit<
+  DeploymentRun,
+  'id' | 'createdAt' | 'updatedAt' | 'customerId' | 'triggeredByName' | 'rolledBackAt' | 'rolledBackByName'
+>;
+
+// Latest preview deployment of a branch
+export interface PreviewDeployment
+  extends Pick<DeploymentRunSyncData, 'cfDeploymentId' | 'branch' | 'commitHash' | 'commitMessage' | 'url' | 'status' | 'startedAt'> {
+  // Branch alias URL, e.g. https://feature-x.my-site.pages.dev
+  branchUrl: string | null;
+}
+
+// Which git branches get preview deployments (git-connected projects only)
+export type PreviewDeploymentSetting = 'all' | 'none' | 'custom';
+
+export interface PreviewBranchSettings {
+  previewDeploymentSetting: PreviewDeploymentSetting;
+  // Branch patterns, used when the setting is custom
+  previewBranchIncludes: string[];
+  previewBranchExcludes: string[];
+}
+
 export interface InitializeDeploymentInput {
   cfProjectName?: string;
   gitRepoUrl?: string;
@@ -227,6 +450,11 @@ export interface InitializeDeploymentInput {
   customDomain?: string;
 }
 
+export interface TriggerDeploymentInput {
+  // Defaults to GIT when the deployment has a git repo, DIRECT_UPLOAD otherwise
+  mode?: DeployMode;
+}
+
 export interface ConfigureDnsInput {
   customDomain: string;
 }
@@ -235,3 +463,299 @@ export interface ConfigureDnsInput {
 export interface NoteFilters {
   noteType?: NoteType;
 }
+
+// Audit log types
+export type AuditEntityType =
+  | 'SUBMISSION'
+  | 'NOTE'
+  | 'FILE'
+  | 'DEPLOYMENT'
+  | 'PAYMENT_LINK'
+  | 'ADMIN_USER'
+  | 'STRIPE_EVENT'
+  | 'PAYMENT'
+  | 'PRICING_PLAN'
+  | 'BILLING_PORTAL_LINK'
+  | 'UPLOAD_LINK'
+  | 'PREVIEW_REVIEW_LINK';
+
+// Field-level change recorded on an audit event
+export interface AuditFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface AuditEvent {
+  id: number;
+  createdAt: Date;
+  actorId: number | null;
+  actorName: string;
+  actorRole: AdminRole;
+  action: string;
+  entityType: AuditEntityType;
+  entityId: string | null;
+  customerId: number | null;
+  changes: Record<string, AuditFieldChange> | null;
+  ipAddress: string | null;
+}
+
+export interface RecordAuditEventInput {
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string | number | null;
+  customerId?: number | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  // Limit the diff to these fields (defaults to every field in before/after)
+  fields?: string[];
+}
+
+// Stripe webhook event ledger types
+export type StripeEventStatus = 'RECEIVED' | 'PROCESSED' | 'FAILED';
+
+export interface StripeEventRecord {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+  type: string;
+  status: StripeEventStatus;
+  error: string | null;
+  attempts: number;
+  processedAt: Date | null;
+}
+
+// Payment ledger types
+export type PaymentType = 'SETUP_FEE' | 'SUBSCRIPTION' | 'REFUND';
+
+export interface Payment {
+  id: number;
+  createdAt: Date;
+  customerId: number;
+  type: PaymentType;
+  amountCents: number;
+  currency: string;
+  description: string | null;
+  stripeCheckoutSessionId: string | null;
+  stripeInvoiceId: string | null;
+  stripePaymentIntentId: string | null;
+  stripeChargeId: string | null;
+  stripeRefundId: string | null;
+  paidAt: Date;
+}
+
+export interface RecordPaymentInput {
+  customerId: number;
+  type: PaymentType;
+  amountCents: number;
+  currency?: string;
+  description?: string | null;
+  stripeCheckoutSessionId?: string | null;
+  stripeInvoiceId?: string | null;
+  stripePaymentIntentId?: string | null;
+  stripeChargeId?: string | null;
+  stripeRefundId?: string | null;
+  paidAt: Date;
+}
+
+export type RefundReason = 'duplicate' | 'fraudulent' | 'requested_by_customer';
+
+export interface RefundPaymentInput {
+  // Amount in dollars; omit to refund the remaining balance
+  amount?: number;
+  reason?: RefundReason;
+}
+
+// Payment link types
+export type PaymentLinkType = 'SETUP_FEE' | 'SUBSCRIPTION';
+export type PaymentLinkStatus = 'ACTIVE' | 'USED' | 'EXPIRED' | 'REVOKED';
+
+export interface PaymentLink {
+  id: number;
+  createdAt: Date;
+  updatedAt: Date;
+  customerId: number;
+  type: PaymentLinkType;
+  token: string;
+  status: PaymentLinkStatus;
+  amountCents: number;
+  currency: string;
+  stripePriceId: string | null;
+  expiresAt: Date;
+  usedAt: Date | null;
+  revokedAt: Date | null;
+  stripeCheckoutSessionId: string | null;
+  planId: number | null;
+  planName: string | null;
+  createdById: number | null;
+  createdByName: string;
+}
+
+export interface CreatePaymentLinkInput {
+  customerId: number;
+  type: PaymentLinkType;
+  amountCents: number;
+  currency?: string;
+  stripePriceId?: string | null;
+  planId?: number | null;
+  planName?: string | null;
+  expiresAt: Date;
+}
+
+// Stripe billing portal access link; reusable until it expires or is replaced
+export interface BillingPortalLink {
+  id: number;
+  createdAt: Date;
+  customerId: number;
+  token: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  lastUsedAt: Date | null;
+  createdById: number | null;
+  createdByName: string;
+}
+
+// Customer file upload portal link; reusable until it expires or is replaced
+export interface UploadLink {
+  id: number;
+  createdAt: Date;
+  customerId: number;
+  token: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  lastUsedAt: Date | null;
+  createdById: number | null;
+  createdByName: string;
+}
+
+export interface PreviewReviewLink {
+  id: number;
+  createdAt: Date;
+  customerId: number;
+  token: string;
+  branch: string;
+  previewUrl: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  lastFeedbackAt: Date | null;
+  createdById: number | null;
+  createdByName: string;
+}
+
+// Pricing catalog types
+export interface PricingPlan {
+  id: number;
+  createdAt: Date;
+  updatedAt: Date;
+  name: string;
+  description: string | null;
+  setupFeeCents: number;
+  monthlyPriceCents: number;
+  currency: string;
+  stripeSetupFeePriceId: string;
+  stripeMonthlyPriceId: string;
+  features: string[];
+  // Intake budgetRange / industryType values the plan suits (empty: any)
+  budgetRanges: string[];
+  industryTypes: string[];
+  // File storage allowance in MB (null: the default quota)
+  storageQuotaMb: number | null;
+  isActive: boolean;
+  sortOrder: number;
+}
+
+export interface PricingPlanInput {
+  name: string;
+  description?: string | null;
+  // Amounts in dollars
+  setupFee: number;
+  monthlyPrice: number;
+  currency?: string;
+  stripeSetupFeePriceId: string;
+  stripeMonthlyPriceId: string;
+  features?: string[];
+  budgetRanges?: string[];
+  industryTypes?: string[];
+  storageQuotaMb?: number | null;
+  isActive?: boolean;
+  sortOrder?: number;
+}
+
+export type UpdatePricingPlanInput = Partial<PricingPlanInput>;
+
+// Global search types
+export type SearchResultGroup = 'submissions' | 'notes' | 'files' | 'sites';
+
+export interface SearchResult {
+  id: number;
+  customerId: number;
+  title: string;
+  subtitle: string | null;
+  // Admin page the result opens
+  href: string;
+  rank: number;
+}
+
+export type GlobalSearchResults = Record<SearchResultGroup, SearchResult[]>;
+
+// Saved list views
+export type SavedViewList = 'LEADS' | 'CUSTOMERS' | 'PROJECTS' | 'BILLING';
+
+// Named filters and sort an admin saved for one of the lists
+export interface SavedView {
+  id: number;
+  createdAt: Date;
+  updatedAt: Date;
+  userId: number;
+  list: SavedViewList;
+  name: string;
+  // List query parameters, e.g. { industryType: 'restaurant', billingStatus: 'OVERDUE' }
+  filters: Record<string, string>;
+}
+
+export interface SavedViewInput {
+  list: SavedViewList;
+  name: string;
+  filters: Record<string, string>;
+}
+
+// CSV import of submissions
+export type SubmissionImportField =
+  | 'fullName'
+  | 'email'
+  | 'phone'
+  | 'businessName'
+  | 'industryType'
+  | 'currentWebsite'
+  | 'hasNoWebsite'
+  | 'features'
+  | 'otherFeatures'
+  | 'budgetRange'
+  | 'timeline'
+  | 'additionalInfo';
+
+// Which CSV column (by header) fills each submission field
+export type SubmissionImportMapping = Partial<Record<SubmissionImportField, string>>;
+
+// READY rows are created; DUPLICATE and INVALID rows are skipped
+export type SubmissionImportRowStatus = 'READY' | 'DUPLICATE' | 'INVALID';
+
+export interface SubmissionImportRow {
+  // Spreadsheet row number; the header is row 1
+  row: number;
+  status: SubmissionImportRowStatus;
+  fullName: string;
+  email: string;
+  businessName: string;
+  // Validation errors by field, or why the row is a duplicate
+  errors: Record<string, string>;
+}
+
+export interface SubmissionImportResult {
+  dryRun: boolean;
+  headers: string[];
+  mapping: SubmissionImportMapping;
+  rows: SubmissionImportRow[];
+  totals: Record<SubmissionImportRowStatus, number>;
+  // Submissions created (always 0 for a dry run)
+  created: number;
+}